@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX "kline_data_symbol_interval_open_time_idx";
+
+-- DropIndex
+DROP INDEX "kline_data_symbol_interval_open_time_key";
+
+-- AlterTable
+ALTER TABLE "coin_configs" ADD COLUMN     "exchange" VARCHAR(20) NOT NULL DEFAULT 'binance';
+
+-- AlterTable
+ALTER TABLE "kline_data" ADD COLUMN     "exchange" VARCHAR(20) NOT NULL DEFAULT 'binance';
+
+-- CreateIndex
+CREATE INDEX "kline_data_exchange_symbol_interval_open_time_idx" ON "kline_data"("exchange", "symbol", "interval", "open_time");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "kline_data_exchange_symbol_interval_open_time_key" ON "kline_data"("exchange", "symbol", "interval", "open_time");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "strategy_backtests" ADD COLUMN     "completed_at" TIMESTAMP(3),
+ADD COLUMN     "equity_curve" TEXT NOT NULL DEFAULT '[]',
+ADD COLUMN     "error_message" TEXT,
+ADD COLUMN     "exchange" VARCHAR(20) NOT NULL DEFAULT 'binance',
+ADD COLUMN     "parameters" TEXT NOT NULL DEFAULT '{}',
+ADD COLUMN     "source" VARCHAR(20) NOT NULL DEFAULT 'STRATEGY',
+ADD COLUMN     "status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+ALTER COLUMN "strategy_id" DROP NOT NULL,
+ALTER COLUMN "total_trades" SET DEFAULT 0,
+ALTER COLUMN "winning_trades" SET DEFAULT 0,
+ALTER COLUMN "losing_trades" SET DEFAULT 0,
+ALTER COLUMN "win_rate" SET DEFAULT 0,
+ALTER COLUMN "total_return" SET DEFAULT 0,
+ALTER COLUMN "max_drawdown" SET DEFAULT 0,
+ALTER COLUMN "sharpe_ratio" SET DEFAULT 0,
+ALTER COLUMN "trades" SET DEFAULT '[]',
+ALTER COLUMN "summary" SET DEFAULT '';
+
+-- CreateIndex
+CREATE INDEX "strategy_backtests_status_idx" ON "strategy_backtests"("status");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "notification_records" ADD COLUMN     "category" VARCHAR(30) NOT NULL DEFAULT 'SYSTEM_STATUS',
+ADD COLUMN     "delivered" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "delivery_error" TEXT,
+ADD COLUMN     "message_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "notification_records_category_created_at_idx" ON "notification_records"("category", "created_at");
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "alert_outcomes" (
+    "id" SERIAL NOT NULL,
+    "symbol" VARCHAR(20) NOT NULL,
+    "trigger_type" VARCHAR(10) NOT NULL,
+    "trigger_price" DECIMAL(30,8) NOT NULL,
+    "zone_price" DECIMAL(30,8) NOT NULL,
+    "tolerance" DECIMAL(30,8) NOT NULL,
+    "confidence" DECIMAL(5,2) NOT NULL,
+    "strength" VARCHAR(10),
+    "timeframe" VARCHAR(10),
+    "target_price" DECIMAL(30,8),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'TRACKING',
+    "horizons" TEXT NOT NULL DEFAULT '[]',
+    "max_favorable" DECIMAL(10,4),
+    "max_adverse" DECIMAL(10,4),
+    "target_reached" BOOLEAN NOT NULL DEFAULT false,
+    "target_reached_at" TIMESTAMP(3),
+    "triggered_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_outcomes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_outcomes_status_triggered_at_idx" ON "alert_outcomes"("status", "triggered_at");
+
+-- CreateIndex
+CREATE INDEX "alert_outcomes_symbol_triggered_at_idx" ON "alert_outcomes"("symbol", "triggered_at");
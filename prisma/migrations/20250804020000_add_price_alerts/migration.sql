@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "price_alerts" (
+    "id" SERIAL NOT NULL,
+    "symbol" VARCHAR(20) NOT NULL,
+    "condition" VARCHAR(20) NOT NULL,
+    "threshold" DECIMAL(30,8),
+    "period" INTEGER,
+    "timeframe" VARCHAR(10),
+    "mode" VARCHAR(10) NOT NULL DEFAULT 'ONCE',
+    "cooldown_minutes" INTEGER NOT NULL DEFAULT 60,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "state" TEXT NOT NULL DEFAULT '{}',
+    "trigger_count" INTEGER NOT NULL DEFAULT 0,
+    "last_triggered_at" TIMESTAMP(3),
+    "last_value" DECIMAL(30,8),
+    "note" VARCHAR(200),
+    "chat_id" VARCHAR(50),
+    "source" VARCHAR(20) NOT NULL DEFAULT 'API',
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_alerts_status_symbol_idx" ON "price_alerts"("status", "symbol");
+
+-- CreateIndex
+CREATE INDEX "price_alerts_chat_id_status_idx" ON "price_alerts"("chat_id", "status");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "trigger_detection_states" (
+    "symbol" VARCHAR(20) NOT NULL,
+    "zone_states" TEXT NOT NULL DEFAULT '{}',
+    "zone_triggered_flags" TEXT NOT NULL DEFAULT '[]',
+    "triggered_zones" TEXT NOT NULL DEFAULT '{}',
+    "trigger_history" TEXT NOT NULL DEFAULT '{}',
+    "last_notification_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trigger_detection_states_pkey" PRIMARY KEY ("symbol")
+);
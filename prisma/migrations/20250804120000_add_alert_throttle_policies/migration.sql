@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "alert_throttle_policies" (
+    "id" SERIAL NOT NULL,
+    "symbol" VARCHAR(20) NOT NULL,
+    "alert_type" VARCHAR(20) NOT NULL DEFAULT 'ALL',
+    "cooldown_seconds" INTEGER,
+    "global_cooldown_seconds" INTEGER,
+    "batch_delay_seconds" INTEGER,
+    "max_alerts_per_hour" INTEGER,
+    "quiet_hours_start" VARCHAR(5),
+    "quiet_hours_end" VARCHAR(5),
+    "timezone" VARCHAR(50),
+    "bypass_strengths" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_throttle_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alert_throttle_policies_symbol_alert_type_key" ON "alert_throttle_policies"("symbol", "alert_type");
+
+-- AlterTable
+ALTER TABLE "trigger_detection_states" ADD COLUMN "recent_alerts" TEXT NOT NULL DEFAULT '{}';
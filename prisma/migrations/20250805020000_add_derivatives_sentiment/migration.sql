@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "funding_rates" (
+    "id" SERIAL NOT NULL,
+    "exchange" VARCHAR(20) NOT NULL,
+    "symbol" VARCHAR(30) NOT NULL,
+    "funding_time" BIGINT NOT NULL,
+    "funding_rate" DECIMAL(20,10) NOT NULL,
+    "is_predicted" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "funding_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "long_short_ratios" (
+    "id" SERIAL NOT NULL,
+    "exchange" VARCHAR(20) NOT NULL,
+    "symbol" VARCHAR(30) NOT NULL,
+    "period" VARCHAR(10) NOT NULL,
+    "timestamp" BIGINT NOT NULL,
+    "long_short_ratio" DECIMAL(20,8) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "long_short_ratios_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "funding_rates_exchange_symbol_funding_time_key" ON "funding_rates"("exchange", "symbol", "funding_time");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "long_short_ratios_exchange_symbol_period_timestamp_key" ON "long_short_ratios"("exchange", "symbol", "period", "timestamp");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "open_interest_snapshots" (
+    "id" SERIAL NOT NULL,
+    "exchange" VARCHAR(20) NOT NULL,
+    "symbol" VARCHAR(20) NOT NULL,
+    "contract_symbol" VARCHAR(30) NOT NULL,
+    "timestamp" BIGINT NOT NULL,
+    "open_interest" DECIMAL(30,8) NOT NULL,
+    "open_interest_value" DECIMAL(30,4) NOT NULL,
+    "price" DECIMAL(20,8) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "open_interest_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "open_interest_snapshots_symbol_timestamp_idx" ON "open_interest_snapshots"("symbol", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "open_interest_snapshots_timestamp_idx" ON "open_interest_snapshots"("timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "open_interest_snapshots_exchange_symbol_timestamp_key" ON "open_interest_snapshots"("exchange", "symbol", "timestamp");
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "okx_sync_cursors" (
+    "id" SERIAL NOT NULL,
+    "inst_type" VARCHAR(20) NOT NULL,
+    "last_bill_id" VARCHAR(50),
+    "last_trade_id" VARCHAR(50),
+    "last_fill_time" BIGINT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "okx_sync_cursors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "okx_sync_runs" (
+    "id" SERIAL NOT NULL,
+    "trigger" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "finished_at" TIMESTAMP(3) NOT NULL,
+    "duration_ms" INTEGER NOT NULL,
+    "fetched_count" INTEGER NOT NULL DEFAULT 0,
+    "processed_count" INTEGER NOT NULL DEFAULT 0,
+    "created_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_count" INTEGER NOT NULL DEFAULT 0,
+    "error_count" INTEGER NOT NULL DEFAULT 0,
+    "errors" TEXT,
+    "details" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "okx_sync_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "okx_sync_cursors_inst_type_key" ON "okx_sync_cursors"("inst_type");
+
+-- CreateIndex
+CREATE INDEX "okx_sync_runs_started_at_idx" ON "okx_sync_runs"("started_at");
+
+-- CreateIndex
+CREATE INDEX "okx_sync_runs_status_started_at_idx" ON "okx_sync_runs"("status", "started_at");
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "okx_position_snapshots" (
+    "id" SERIAL NOT NULL,
+    "timestamp" BIGINT NOT NULL,
+    "inst_type" VARCHAR(20) NOT NULL,
+    "inst_id" VARCHAR(40) NOT NULL,
+    "pos_id" VARCHAR(50) NOT NULL,
+    "pos_side" VARCHAR(10) NOT NULL,
+    "mgn_mode" VARCHAR(20),
+    "pos" DECIMAL(30,8) NOT NULL,
+    "avg_px" DECIMAL(30,8) NOT NULL,
+    "mark_px" DECIMAL(30,8),
+    "liq_px" DECIMAL(30,8),
+    "lever" DECIMAL(8,2),
+    "upl" DECIMAL(30,8) NOT NULL,
+    "upl_ratio" DECIMAL(12,6) NOT NULL,
+    "margin" DECIMAL(30,8),
+    "mgn_ratio" DECIMAL(20,6),
+    "notional_usd" DECIMAL(30,4),
+    "has_stop_loss" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "okx_position_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "okx_account_snapshots" (
+    "id" SERIAL NOT NULL,
+    "timestamp" BIGINT NOT NULL,
+    "total_eq" DECIMAL(30,4) NOT NULL,
+    "adj_eq" DECIMAL(30,4),
+    "imr" DECIMAL(30,4),
+    "mmr" DECIMAL(30,4),
+    "mgn_ratio" DECIMAL(20,6),
+    "upl" DECIMAL(30,4),
+    "position_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "okx_account_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "okx_position_snapshots_inst_id_timestamp_idx" ON "okx_position_snapshots"("inst_id", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "okx_position_snapshots_timestamp_idx" ON "okx_position_snapshots"("timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "okx_position_snapshots_pos_id_pos_side_timestamp_key" ON "okx_position_snapshots"("pos_id", "pos_side", "timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "okx_account_snapshots_timestamp_key" ON "okx_account_snapshots"("timestamp");
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "execution_orders" (
+    "id" TEXT NOT NULL,
+    "signal_id" TEXT,
+    "trading_record_id" INTEGER,
+    "status" VARCHAR(30) NOT NULL,
+    "sandbox" BOOLEAN NOT NULL DEFAULT true,
+    "inst_id" VARCHAR(40) NOT NULL,
+    "direction" VARCHAR(10) NOT NULL,
+    "side" VARCHAR(10) NOT NULL,
+    "pos_side" VARCHAR(10) NOT NULL,
+    "ord_type" VARCHAR(20) NOT NULL,
+    "td_mode" VARCHAR(20) NOT NULL,
+    "size" DECIMAL(30,8) NOT NULL,
+    "price" DECIMAL(30,8),
+    "entry_price" DECIMAL(30,8) NOT NULL,
+    "take_profit" DECIMAL(30,8),
+    "stop_loss" DECIMAL(30,8),
+    "leverage" INTEGER NOT NULL,
+    "notional_usd" DECIMAL(30,8),
+    "risk_usd" DECIMAL(30,8),
+    "cl_ord_id" VARCHAR(32) NOT NULL,
+    "algo_cl_ord_id" VARCHAR(32),
+    "ord_id" VARCHAR(50),
+    "filled_size" DECIMAL(30,8),
+    "avg_px" DECIMAL(30,8),
+    "error" TEXT,
+    "telegram_chat_id" VARCHAR(50),
+    "telegram_message_id" INTEGER,
+    "confirmed_by" VARCHAR(100),
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "confirmed_at" TIMESTAMP(3),
+    "placed_at" TIMESTAMP(3),
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "execution_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "execution_orders_cl_ord_id_key" ON "execution_orders"("cl_ord_id");
+
+-- CreateIndex
+CREATE INDEX "execution_orders_status_created_at_idx" ON "execution_orders"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "execution_orders_signal_id_idx" ON "execution_orders"("signal_id");
+
+-- CreateIndex
+CREATE INDEX "execution_orders_ord_id_idx" ON "execution_orders"("ord_id");
+
+-- AddForeignKey
+ALTER TABLE "execution_orders" ADD CONSTRAINT "execution_orders_signal_id_fkey" FOREIGN KEY ("signal_id") REFERENCES "actionable_signals"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_orders" ADD CONSTRAINT "execution_orders_trading_record_id_fkey" FOREIGN KEY ("trading_record_id") REFERENCES "trading_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,108 @@
+-- AlterTable
+ALTER TABLE "trading_records" ADD COLUMN "is_simulated" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "paper_accounts" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(50) NOT NULL,
+    "initial_balance" DECIMAL(30,8) NOT NULL,
+    "balance" DECIMAL(30,8) NOT NULL,
+    "realized_pnl" DECIMAL(30,8) NOT NULL DEFAULT 0,
+    "total_fees" DECIMAL(30,8) NOT NULL DEFAULT 0,
+    "reset_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "paper_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "paper_orders" (
+    "id" TEXT NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "position_id" TEXT,
+    "symbol" VARCHAR(20) NOT NULL,
+    "side" VARCHAR(10) NOT NULL,
+    "type" VARCHAR(10) NOT NULL,
+    "quantity" DECIMAL(30,8) NOT NULL,
+    "price" DECIMAL(30,8),
+    "trigger_price" DECIMAL(30,8),
+    "take_profit" DECIMAL(30,8),
+    "stop_loss" DECIMAL(30,8),
+    "leverage" INTEGER NOT NULL,
+    "reduce_only" BOOLEAN NOT NULL DEFAULT false,
+    "status" VARCHAR(20) NOT NULL,
+    "source" VARCHAR(20) NOT NULL,
+    "source_ref" VARCHAR(100),
+    "fill_price" DECIMAL(30,8),
+    "fee" DECIMAL(30,8),
+    "slippage" DECIMAL(30,8),
+    "reason" TEXT,
+    "filled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "paper_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "paper_positions" (
+    "id" TEXT NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "trading_record_id" INTEGER,
+    "symbol" VARCHAR(20) NOT NULL,
+    "direction" VARCHAR(10) NOT NULL,
+    "status" VARCHAR(10) NOT NULL,
+    "quantity" DECIMAL(30,8) NOT NULL,
+    "opened_quantity" DECIMAL(30,8) NOT NULL,
+    "entry_price" DECIMAL(30,8) NOT NULL,
+    "planned_price" DECIMAL(30,8),
+    "leverage" INTEGER NOT NULL,
+    "take_profit" DECIMAL(30,8),
+    "stop_loss" DECIMAL(30,8),
+    "initial_take_profit" DECIMAL(30,8),
+    "initial_stop_loss" DECIMAL(30,8),
+    "realized_pnl" DECIMAL(30,8) NOT NULL DEFAULT 0,
+    "fees" DECIMAL(30,8) NOT NULL DEFAULT 0,
+    "slippage" DECIMAL(30,8) NOT NULL DEFAULT 0,
+    "exit_quantity" DECIMAL(30,8) NOT NULL DEFAULT 0,
+    "exit_value" DECIMAL(30,8) NOT NULL DEFAULT 0,
+    "highest_price" DECIMAL(30,8) NOT NULL,
+    "lowest_price" DECIMAL(30,8) NOT NULL,
+    "exit_reason" VARCHAR(20),
+    "source" VARCHAR(20) NOT NULL,
+    "source_ref" VARCHAR(100),
+    "opened_at" TIMESTAMP(3) NOT NULL,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "paper_positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trading_records_is_simulated_status_idx" ON "trading_records"("is_simulated", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "paper_accounts_name_key" ON "paper_accounts"("name");
+
+-- CreateIndex
+CREATE INDEX "paper_orders_account_id_status_idx" ON "paper_orders"("account_id", "status");
+
+-- CreateIndex
+CREATE INDEX "paper_orders_symbol_status_idx" ON "paper_orders"("symbol", "status");
+
+-- CreateIndex
+CREATE INDEX "paper_positions_account_id_status_idx" ON "paper_positions"("account_id", "status");
+
+-- CreateIndex
+CREATE INDEX "paper_positions_symbol_status_idx" ON "paper_positions"("symbol", "status");
+
+-- AddForeignKey
+ALTER TABLE "paper_orders" ADD CONSTRAINT "paper_orders_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "paper_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "paper_positions" ADD CONSTRAINT "paper_positions_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "paper_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "paper_positions" ADD CONSTRAINT "paper_positions_trading_record_id_fkey" FOREIGN KEY ("trading_record_id") REFERENCES "trading_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
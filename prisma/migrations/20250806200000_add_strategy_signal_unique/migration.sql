@@ -0,0 +1,14 @@
+-- 删除同一策略同一根K线上的重复信号，保留最早的一条
+DELETE FROM "strategy_signal_records" a
+USING "strategy_signal_records" b
+WHERE a."strategy_id" = b."strategy_id"
+  AND a."symbol" = b."symbol"
+  AND a."interval" = b."interval"
+  AND a."timestamp" = b."timestamp"
+  AND a."id" > b."id";
+
+-- DropIndex
+DROP INDEX "strategy_signal_records_strategy_id_symbol_interval_timesta_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "strategy_signal_records_strategy_id_symbol_interval_timesta_key" ON "strategy_signal_records"("strategy_id", "symbol", "interval", "timestamp");
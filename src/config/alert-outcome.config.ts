@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export interface AlertOutcomeConfig {
+  horizons: string[];
+  evaluationInterval: string;
+}
+
+export const alertOutcomeConfig = registerAs(
+  'alertOutcome',
+  (): AlertOutcomeConfig => ({
+    // 触发后跟踪的时间窗口（逗号分隔，支持 m/h/d 单位）
+    horizons: (process.env.ALERT_OUTCOME_HORIZONS || '1h,4h,24h')
+      .split(',')
+      .map((horizon) => horizon.trim().toLowerCase())
+      .filter((horizon) => /^\d+[mhd]$/.test(horizon)),
+    // 评估结果使用的K线周期
+    evaluationInterval: process.env.ALERT_OUTCOME_INTERVAL || '5m',
+  }),
+);
@@ -0,0 +1,18 @@
+import { registerAs } from '@nestjs/config';
+
+export interface ExchangeConfig {
+  enabled: string[];
+  requestTimeout: number;
+}
+
+export const exchangeConfig = registerAs(
+  'exchange',
+  (): ExchangeConfig => ({
+    // 启用的行情交易所（CCXT 交易所ID，逗号分隔）
+    enabled: (process.env.MARKET_DATA_EXCHANGES || 'binance,okx')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter((name) => name.length > 0),
+    requestTimeout: parseInt(process.env.MARKET_DATA_TIMEOUT || '30000', 10),
+  }),
+);
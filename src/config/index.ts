@@ -4,4 +4,9 @@ export { default as redisConfig } from './redis.config';
 export { default as binanceConfig } from './binance.config';
 export { default as telegramConfig } from './telegram.config';
 export { okxConfig } from './okx.config';
-export { notionConfig } from './notion.config'; 
\ No newline at end of file
+export { notionConfig } from './notion.config';
+export { exchangeConfig } from './exchange.config';
+export { tradingDecisionConfig } from './trading-decision.config';
+export { alertOutcomeConfig } from './alert-outcome.config';
+export { marketScannerConfig } from './market-scanner.config';
+export { paperTradingConfig } from './paper-trading.config';
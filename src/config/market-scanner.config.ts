@@ -0,0 +1,53 @@
+import { registerAs } from '@nestjs/config';
+
+export interface MarketScannerConfig {
+  enabled: boolean;
+  exchange: string;
+  minQuoteVolume: number;
+  maxSymbols: number;
+  criteria: string[];
+  minMatches: number;
+  rsiOverbought: number;
+  rsiOversold: number;
+  levelProximityPercent: number;
+  volumeSpikeRatio: number;
+}
+
+export const marketScannerConfig = registerAs(
+  'marketScanner',
+  (): MarketScannerConfig => ({
+    // 是否启用定时扫描
+    enabled: process.env.MARKET_SCANNER_ENABLED !== 'false',
+    // 扫描的交易所
+    exchange: process.env.MARKET_SCANNER_EXCHANGE || 'binance',
+    // 24小时成交额下限（USDT），低于该值的交易对不参与扫描
+    minQuoteVolume: parseFloat(
+      process.env.MARKET_SCANNER_MIN_QUOTE_VOLUME || '20000000',
+    ),
+    // 按成交额排序后最多扫描的交易对数量
+    maxSymbols: parseInt(process.env.MARKET_SCANNER_MAX_SYMBOLS || '40', 10),
+    // 启用的筛选条件（逗号分隔，默认全部启用）
+    criteria: (
+      process.env.MARKET_SCANNER_CRITERIA ||
+      'TREND_ALIGNMENT,RSI_EXTREME,NEAR_STRONG_LEVEL,VOLUME_SPIKE'
+    )
+      .split(',')
+      .map((name) => name.trim().toUpperCase())
+      .filter((name) => name.length > 0),
+    // 入选所需满足的最少条件数
+    minMatches: parseInt(process.env.MARKET_SCANNER_MIN_MATCHES || '2', 10),
+    // RSI 超买/超卖阈值（1小时周期）
+    rsiOverbought: parseFloat(
+      process.env.MARKET_SCANNER_RSI_OVERBOUGHT || '70',
+    ),
+    rsiOversold: parseFloat(process.env.MARKET_SCANNER_RSI_OVERSOLD || '30'),
+    // 距强支撑/阻力位的最大距离（百分比）
+    levelProximityPercent: parseFloat(
+      process.env.MARKET_SCANNER_LEVEL_PROXIMITY || '1',
+    ),
+    // 放量倍数：最近一根已收盘1小时K线成交量 / 前20根均量
+    volumeSpikeRatio: parseFloat(
+      process.env.MARKET_SCANNER_VOLUME_SPIKE_RATIO || '2.5',
+    ),
+  }),
+);
@@ -6,14 +6,125 @@ export interface OkxConfig {
   passphrase: string;
   sandbox: boolean;
   baseUrl: string;
+  sync: OkxSyncConfig;
+  positionMonitor: OkxPositionMonitorConfig;
+  websocket: OkxWebSocketConfig;
+  execution: OkxExecutionConfig;
 }
 
-export const okxConfig = registerAs('okx', (): OkxConfig => ({
-  apiKey: process.env.OKX_API_KEY || '',
-  secretKey: process.env.OKX_SECRET_KEY || '',
-  passphrase: process.env.OKX_PASSPHRASE || '',
-  sandbox: process.env.OKX_SANDBOX === 'true',
-  baseUrl: process.env.OKX_SANDBOX === 'true' 
-    ? 'https://www.okx.com' 
-    : 'https://www.okx.com', // 实际环境也是同一个URL
-})); 
\ No newline at end of file
+export interface OkxSyncConfig {
+  enabled: boolean; // 是否启用定时增量同步
+  instTypes: string[]; // 需要同步的产品类型
+  initialLookbackDays: number; // 首次同步（无游标）时回溯的天数
+  maxPages: number; // 单个产品类型每次同步最多拉取的页数
+  runRetentionDays: number; // 同步运行记录保留天数
+}
+
+export interface OkxPositionMonitorConfig {
+  enabled: boolean; // 是否启用持仓监控
+  instTypes: string[]; // 需要监控的产品类型
+  liquidationProximityPercent: number; // 标记价格距强平价小于该百分比时告警
+  unrealizedLossPercent: number; // 未实现亏损占保证金比例超过该百分比时告警
+  marginRatioThreshold: number; // 保证金率（有效保证金/维持保证金）低于该值时告警
+  marginRatioDropPercent: number; // 保证金率较基准值下降超过该百分比时告警
+  marginRatioDropWindowMinutes: number; // 保证金率基准值的回看时间，超过后重新取基准
+  stopLossGraceSeconds: number; // 开仓后超过该秒数仍无止损单时告警
+  alertCooldownMinutes: number; // 同一持仓同类告警的冷却时间
+  snapshotRetentionDays: number; // 持仓快照保留天数
+}
+
+export interface OkxWebSocketConfig {
+  enabled: boolean; // 是否启用私有频道 WebSocket
+  privateUrl: string; // 私有频道地址
+  instType: string; // 订单、成交和持仓频道订阅的产品类型
+  notifyFills: boolean; // 成交时是否发送 Telegram 通知
+}
+
+export interface OkxExecutionConfig {
+  enabled: boolean; // 是否启用下单功能
+  allowLive: boolean; // 是否允许在实盘（非模拟盘）下单
+  tdMode: string; // 交易模式 cross/isolated
+  posMode: 'long_short' | 'net'; // 账户持仓模式：开平仓模式或买卖模式
+  ordType: 'limit' | 'market'; // 默认订单类型
+  leverage: number; // 默认杠杆倍数
+  riskPerTradeUsd: number; // 单笔交易止损时的最大亏损（USDT），用于计算下单数量
+  maxNotionalUsd: number; // 单笔订单的最大名义价值（USDT）
+  confirmationTtlMinutes: number; // Telegram 确认请求的有效期
+  promptOnSignal: boolean; // 出现可执行信号时是否自动发送下单确认请求
+}
+
+export const okxConfig = registerAs(
+  'okx',
+  (): OkxConfig => ({
+    apiKey: process.env.OKX_API_KEY || '',
+    secretKey: process.env.OKX_SECRET_KEY || '',
+    passphrase: process.env.OKX_PASSPHRASE || '',
+    sandbox: process.env.OKX_SANDBOX === 'true',
+    baseUrl:
+      process.env.OKX_SANDBOX === 'true'
+        ? 'https://www.okx.com'
+        : 'https://www.okx.com', // 实际环境也是同一个URL
+    sync: {
+      enabled: process.env.OKX_SYNC_ENABLED !== 'false',
+      instTypes: (process.env.OKX_SYNC_INST_TYPES || 'SWAP')
+        .split(',')
+        .map((type) => type.trim().toUpperCase())
+        .filter(Boolean),
+      initialLookbackDays:
+        parseInt(process.env.OKX_SYNC_INITIAL_LOOKBACK_DAYS) || 7,
+      maxPages: parseInt(process.env.OKX_SYNC_MAX_PAGES) || 50,
+      runRetentionDays: parseInt(process.env.OKX_SYNC_RUN_RETENTION_DAYS) || 30,
+    },
+    positionMonitor: {
+      enabled: process.env.OKX_POSITION_MONITOR_ENABLED !== 'false',
+      instTypes: (process.env.OKX_POSITION_MONITOR_INST_TYPES || 'SWAP')
+        .split(',')
+        .map((type) => type.trim().toUpperCase())
+        .filter(Boolean),
+      liquidationProximityPercent:
+        parseFloat(process.env.OKX_POSITION_LIQ_PROXIMITY_PERCENT) || 10,
+      unrealizedLossPercent:
+        parseFloat(process.env.OKX_POSITION_UNREALIZED_LOSS_PERCENT) || 30,
+      marginRatioThreshold:
+        parseFloat(process.env.OKX_POSITION_MARGIN_RATIO_THRESHOLD) || 3,
+      marginRatioDropPercent:
+        parseFloat(process.env.OKX_POSITION_MARGIN_RATIO_DROP_PERCENT) || 30,
+      marginRatioDropWindowMinutes:
+        parseInt(process.env.OKX_POSITION_MARGIN_RATIO_DROP_WINDOW_MINUTES) ||
+        60,
+      stopLossGraceSeconds:
+        parseInt(process.env.OKX_POSITION_STOP_LOSS_GRACE_SECONDS) || 120,
+      alertCooldownMinutes:
+        parseInt(process.env.OKX_POSITION_ALERT_COOLDOWN_MINUTES) || 30,
+      snapshotRetentionDays:
+        parseInt(process.env.OKX_POSITION_SNAPSHOT_RETENTION_DAYS) || 30,
+    },
+    websocket: {
+      enabled: process.env.OKX_WS_ENABLED !== 'false',
+      privateUrl:
+        process.env.OKX_WS_PRIVATE_URL ||
+        (process.env.OKX_SANDBOX === 'true'
+          ? 'wss://wspap.okx.com:8443/ws/v5/private'
+          : 'wss://ws.okx.com:8443/ws/v5/private'),
+      instType: (process.env.OKX_WS_INST_TYPE || 'SWAP').toUpperCase(),
+      notifyFills: process.env.OKX_WS_NOTIFY_FILLS !== 'false',
+    },
+    execution: {
+      enabled: process.env.OKX_EXECUTION_ENABLED === 'true',
+      allowLive: process.env.OKX_EXECUTION_ALLOW_LIVE === 'true',
+      tdMode: process.env.OKX_EXECUTION_TD_MODE || 'cross',
+      posMode:
+        process.env.OKX_EXECUTION_POS_MODE === 'net' ? 'net' : 'long_short',
+      ordType:
+        process.env.OKX_EXECUTION_ORD_TYPE === 'market' ? 'market' : 'limit',
+      leverage: parseInt(process.env.OKX_EXECUTION_LEVERAGE) || 5,
+      riskPerTradeUsd:
+        parseFloat(process.env.OKX_EXECUTION_RISK_PER_TRADE_USD) || 10,
+      maxNotionalUsd:
+        parseFloat(process.env.OKX_EXECUTION_MAX_NOTIONAL_USD) || 1000,
+      confirmationTtlMinutes:
+        parseInt(process.env.OKX_EXECUTION_CONFIRMATION_TTL_MINUTES) || 10,
+      promptOnSignal: process.env.OKX_EXECUTION_PROMPT_ON_SIGNAL !== 'false',
+    },
+  }),
+);
@@ -0,0 +1,59 @@
+import { registerAs } from '@nestjs/config';
+
+export interface PaperTradingConfig {
+  enabled: boolean;
+  initialBalance: number;
+  leverage: number;
+  makerFeeRate: number;
+  takerFeeRate: number;
+  slippagePercent: number;
+  riskPerTradePercent: number;
+  defaultNotionalUsd: number;
+  autoSignals: boolean;
+  autoZoneTriggers: boolean;
+  autoStrategies: boolean;
+  zoneStopBufferPercent: number;
+  notify: boolean;
+}
+
+export const paperTradingConfig = registerAs(
+  'paperTrading',
+  (): PaperTradingConfig => ({
+    // 是否启用模拟盘撮合
+    enabled: process.env.PAPER_TRADING_ENABLED !== 'false',
+    // 模拟账户初始资金（USDT）
+    initialBalance: parseFloat(
+      process.env.PAPER_TRADING_INITIAL_BALANCE || '10000',
+    ),
+    // 默认杠杆倍数，用于计算占用保证金
+    leverage: parseInt(process.env.PAPER_TRADING_LEVERAGE || '5', 10),
+    // 挂单成交（限价单、止盈）手续费率
+    makerFeeRate: parseFloat(process.env.PAPER_TRADING_MAKER_FEE || '0.0002'),
+    // 吃单成交（市价单、止损单、止损）手续费率
+    takerFeeRate: parseFloat(process.env.PAPER_TRADING_TAKER_FEE || '0.0005'),
+    // 市价和止损成交的滑点（百分比，按不利方向计算）
+    slippagePercent: parseFloat(
+      process.env.PAPER_TRADING_SLIPPAGE_PERCENT || '0.05',
+    ),
+    // 自动下单时单笔止损亏损占账户权益的百分比
+    riskPerTradePercent: parseFloat(
+      process.env.PAPER_TRADING_RISK_PER_TRADE_PERCENT || '1',
+    ),
+    // 自动下单没有止损时使用的名义价值（USDT）
+    defaultNotionalUsd: parseFloat(
+      process.env.PAPER_TRADING_DEFAULT_NOTIONAL || '1000',
+    ),
+    // 是否按决策漏斗的可执行信号自动下单
+    autoSignals: process.env.PAPER_TRADING_AUTO_SIGNALS === 'true',
+    // 是否按支撑阻力区间触发自动下单
+    autoZoneTriggers: process.env.PAPER_TRADING_AUTO_ZONE_TRIGGERS === 'true',
+    // 是否按策略信号自动下单
+    autoStrategies: process.env.PAPER_TRADING_AUTO_STRATEGIES === 'true',
+    // 区间触发单的止损放在区间外侧的距离（百分比）
+    zoneStopBufferPercent: parseFloat(
+      process.env.PAPER_TRADING_ZONE_STOP_BUFFER_PERCENT || '0.3',
+    ),
+    // 成交和平仓时是否发送 Telegram 通知
+    notify: process.env.PAPER_TRADING_NOTIFY !== 'false',
+  }),
+);
@@ -0,0 +1,42 @@
+import { registerAs } from '@nestjs/config';
+
+export interface TradingDecisionConfig {
+  emaFastPeriod: number;
+  emaSlowPeriod: number;
+  minRiskRewardRatio: number;
+  enabledSignals: string[];
+  opportunityTtlHours: number;
+  signalTtlHours: number;
+  resignalCooldownHours: number;
+}
+
+export const tradingDecisionConfig = registerAs(
+  'tradingDecision',
+  (): TradingDecisionConfig => ({
+    // 宏观趋势判断使用的EMA周期
+    emaFastPeriod: parseInt(process.env.DECISION_EMA_FAST || '21', 10),
+    emaSlowPeriod: parseInt(process.env.DECISION_EMA_SLOW || '55', 10),
+    // 创建交易机会所需的最低盈亏比
+    minRiskRewardRatio: parseFloat(process.env.DECISION_MIN_RR || '2.0'),
+    // 启用的入场信号类型（逗号分隔，默认全部启用）
+    enabledSignals: (
+      process.env.DECISION_ENABLED_SIGNALS ||
+      'STRUCTURE_BREAKOUT,PULLBACK_CONFIRMATION,PATTERN_BREAKOUT'
+    )
+      .split(',')
+      .map((name) => name.trim().toUpperCase())
+      .filter((name) => name.length > 0),
+    // 监控中的交易机会有效期
+    opportunityTtlHours: parseInt(
+      process.env.DECISION_OPPORTUNITY_TTL_HOURS || '24',
+      10,
+    ),
+    // 可执行信号有效期
+    signalTtlHours: parseInt(process.env.DECISION_SIGNAL_TTL_HOURS || '4', 10),
+    // 同方向交易机会触发后的冷却时间，冷却期内不重复创建
+    resignalCooldownHours: parseInt(
+      process.env.DECISION_RESIGNAL_COOLDOWN_HOURS || '4',
+      10,
+    ),
+  }),
+);
@@ -1,13 +1,20 @@
-import { Controller, Post, Body, Logger, Get, Param } from '@nestjs/common';
+import { Controller, Post, Body, Logger, Get, Param, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
 import { EMAAnalysisService } from './services/ema-analysis.service';
 import { CCXTDataService } from './services/ccxt-data.service';
+import { IndicatorService } from './services/indicator.service';
+import { DerivativesSentimentService } from './services/derivatives-sentiment.service';
+import { OpenInterestHistoryService } from './services/open-interest-history.service';
 import { 
   CCXTAnalysisRequestDto, 
   EMAAnalysisRequestDto,
   EMAAnalysisResponseDto,
   MarketDataResponseDto,
-  DebugDataResponseDto 
+  DebugDataResponseDto,
+  IndicatorRequestDto,
+  IndicatorSeriesResponseDto,
+  DerivativesSentimentRequestDto,
+  OpenInterestChangeRankingQueryDto
 } from './dto';
 
 /**
@@ -22,6 +29,9 @@ export class CCXTAnalysisController {
   constructor(
     private readonly emaAnalysisService: EMAAnalysisService,
     private readonly ccxtDataService: CCXTDataService,
+    private readonly indicatorService: IndicatorService,
+    private readonly derivativesSentimentService: DerivativesSentimentService,
+    private readonly openInterestHistoryService: OpenInterestHistoryService,
   ) {}
 
   /**
@@ -37,15 +47,17 @@ export class CCXTAnalysisController {
   async analyzeEMA(@Body() body: EMAAnalysisRequestDto): Promise<EMAAnalysisResponseDto> {
     this.logger.log(`收到EMA分析请求: ${JSON.stringify(body)}`);
 
-    const { symbol, timeframe = '1d', periods = [20, 60, 120] } = body;
+    const { symbol, timeframe = '1d', periods = [20, 60, 120], exchange = 'binance' } = body;
 
     try {
       // 获取OHLCV数据并进行EMA分析
-      const ohlcvData = await this.ccxtDataService.getOHLCVData(symbol, timeframe, 1000);
+      const ohlcvData = await this.ccxtDataService.getOHLCVData(symbol, timeframe, 1000, exchange);
       const emaAnalysis = await this.emaAnalysisService.analyzeEMA(
         symbol, 
         timeframe, 
         periods,
+        1000,
+        exchange,
       );
 
       const response: EMAAnalysisResponseDto = {
@@ -73,6 +85,85 @@ export class CCXTAnalysisController {
     }
   }
 
+  /**
+   * 技术指标序列
+   */
+  @Post('indicators')
+  @ApiOperation({ summary: '计算技术指标序列 (SMA/EMA/RSI/MACD/布林带/ATR/ADX/随机RSI/VWAP/OBV/一目均衡表/超级趋势/肯特纳通道)' })
+  @ApiResponse({
+    status: 200,
+    description: '返回所请求指标的最新值和序列',
+    type: IndicatorSeriesResponseDto,
+  })
+  async getIndicators(@Body() body: IndicatorRequestDto): Promise<IndicatorSeriesResponseDto> {
+    this.logger.log(`收到指标计算请求: ${JSON.stringify(body)}`);
+
+    try {
+      return await this.indicatorService.getIndicatorSeries(body);
+    } catch (error) {
+      this.logger.error(`指标计算失败: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 衍生品情绪分析
+   */
+  @Post('derivatives-sentiment')
+  @ApiOperation({ summary: '衍生品情绪分析（资金费率、预测费率、多空账户比、持仓量与价格状态）' })
+  @ApiResponse({
+    status: 200,
+    description: '返回资金费率和多空比的历史序列、极值判断以及持仓量与价格的组合状态',
+  })
+  async getDerivativesSentiment(@Body() body: DerivativesSentimentRequestDto) {
+    this.logger.log(`收到衍生品情绪分析请求: ${JSON.stringify(body)}`);
+
+    try {
+      return await this.derivativesSentimentService.getDerivativesSentiment(
+        body.symbol,
+        body.exchange || 'binanceusdm',
+      );
+    } catch (error) {
+      this.logger.error(`衍生品情绪分析失败: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 持仓量变化排行
+   */
+  @Get('open-interest/change-ranking')
+  @ApiOperation({ summary: '持仓量变化排行（跨交易所聚合，按 1h/4h/24h 变化幅度排序）' })
+  @ApiResponse({
+    status: 200,
+    description: '返回按持仓量变化百分比排序的交易对列表',
+  })
+  async getOpenInterestChangeRanking(@Query() query: OpenInterestChangeRankingQueryDto) {
+    return await this.openInterestHistoryService.getTopOpenInterestChangeSymbols(
+      query.window || '24h',
+      Number(query.limit) || 20,
+      query.direction || 'absolute',
+    );
+  }
+
+  /**
+   * 跨交易所聚合持仓量及变化
+   */
+  @Get('open-interest/:symbol')
+  @ApiOperation({ summary: '获取跨交易所聚合持仓量及 1h/4h/24h 变化' })
+  @ApiParam({
+    name: 'symbol',
+    description: '交易对符号',
+    example: 'BTCUSDT',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '返回各交易所最新持仓量、聚合持仓量和各时间窗口的变化',
+  })
+  async getOpenInterestChange(@Param('symbol') symbol: string) {
+    return await this.openInterestHistoryService.getOpenInterestChange(symbol);
+  }
+
   /**
    * 调试接口：获取原始数据和计算详情
    */
@@ -137,6 +228,22 @@ export class CCXTAnalysisController {
     }
   }
 
+  /**
+   * 获取已启用的交易所列表
+   */
+  @Get('exchanges')
+  @ApiOperation({ summary: '获取已启用的行情交易所' })
+  @ApiResponse({
+    status: 200,
+    description: '返回当前可用于分析的交易所列表',
+  })
+  getAvailableExchanges() {
+    return {
+      exchanges: this.ccxtDataService.getAvailableExchanges(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   /**
    * 检查交易所连接状态
    */
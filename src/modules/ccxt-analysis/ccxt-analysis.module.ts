@@ -1,5 +1,8 @@
 import { Module } from '@nestjs/common';
 
+// 依赖模块
+import { CoinConfigModule } from '../coin-config/coin-config.module';
+
 // Controllers
 import { CCXTAnalysisController } from './ccxt-analysis.controller';
 
@@ -8,25 +11,43 @@ import { CCXTDataService } from './services/ccxt-data.service';
 import { EMAAnalysisService } from './services/ema-analysis.service';
 import { OpenInterestService } from './services/open-interest.service';
 import { RSIAnalysisService } from './services/rsi-analysis.service';
+import { KlineStoreService } from './services/kline-store.service';
+import { IndicatorService } from './services/indicator.service';
+import { DerivativesStoreService } from './services/derivatives-store.service';
+import { DerivativesSentimentService } from './services/derivatives-sentiment.service';
+import { OpenInterestStoreService } from './services/open-interest-store.service';
+import { OpenInterestHistoryService } from './services/open-interest-history.service';
 
 /**
  * CCXT分析模块
- * 提供基于CCXT的市场数据获取、技术指标分析和持仓量分析功能
+ * 提供基于CCXT的市场数据获取、技术指标分析、持仓量分析（含跨交易所持仓量采样）和衍生品情绪分析功能
  */
 @Module({
-  imports: [],
+  imports: [CoinConfigModule],
   controllers: [CCXTAnalysisController],
   providers: [
     CCXTDataService,
     EMAAnalysisService,
     OpenInterestService,
     RSIAnalysisService,
+    KlineStoreService,
+    IndicatorService,
+    DerivativesStoreService,
+    DerivativesSentimentService,
+    OpenInterestStoreService,
+    OpenInterestHistoryService,
   ],
   exports: [
     CCXTDataService,
     EMAAnalysisService,
     OpenInterestService,
     RSIAnalysisService,
+    KlineStoreService,
+    IndicatorService,
+    DerivativesStoreService,
+    DerivativesSentimentService,
+    OpenInterestStoreService,
+    OpenInterestHistoryService,
   ],
 })
 export class CCXTAnalysisModule {} 
\ No newline at end of file
@@ -1,5 +1,23 @@
-import { IsString, IsOptional, IsIn, IsNumber, Min, Max } from 'class-validator';
+import { IsString, IsOptional, IsIn, IsNumber, IsArray, IsObject, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IndicatorType, OpenInterestWindow } from '../interfaces';
+
+export const INDICATOR_TYPES: IndicatorType[] = [
+  'SMA',
+  'EMA',
+  'RSI',
+  'MACD',
+  'BOLLINGER',
+  'ATR',
+  'ADX',
+  'STOCH_RSI',
+  'VWAP',
+  'OBV',
+  'ICHIMOKU',
+  'SUPERTREND',
+  'KELTNER',
+];
 
 /**
  * CCXT市场分析请求DTO
@@ -74,4 +92,138 @@ export class EMAAnalysisRequestDto {
   })
   @IsOptional()
   periods?: number[];
-} 
\ No newline at end of file
+
+  @ApiPropertyOptional({
+    description: '交易所名称',
+    example: 'binance',
+    default: 'binance',
+  })
+  @IsOptional()
+  @IsString({ message: '交易所名称必须是字符串' })
+  exchange?: string;
+}
+
+/**
+ * 技术指标序列请求DTO
+ */
+export class IndicatorRequestDto {
+  @ApiProperty({
+    description: '交易对符号',
+    example: 'BTCUSDT',
+  })
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol: string;
+
+  @ApiProperty({
+    description: '指标列表',
+    example: ['MACD', 'BOLLINGER', 'ADX'],
+    enum: INDICATOR_TYPES,
+    isArray: true,
+  })
+  @IsArray({ message: '指标列表必须是数组' })
+  @IsIn(INDICATOR_TYPES, { each: true, message: '指标类型必须是支持的值' })
+  indicators: IndicatorType[];
+
+  @ApiPropertyOptional({
+    description: '时间周期',
+    example: '1h',
+    enum: ['1m', '5m', '15m', '1h', '4h', '1d', '1w'],
+    default: '1d',
+  })
+  @IsOptional()
+  @IsIn(['1m', '5m', '15m', '1h', '4h', '1d', '1w'], {
+    message: '时间周期必须是支持的值',
+  })
+  timeframe?: string;
+
+  @ApiPropertyOptional({
+    description: '用于计算的K线数量',
+    example: 500,
+    default: 500,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'K线数量必须是数字' })
+  @Min(100, { message: 'K线数量至少100条' })
+  @Max(5000, { message: 'K线数量最多5000条' })
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: '返回的序列长度（最近N根K线）',
+    example: 100,
+    default: 100,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: '序列长度必须是数字' })
+  @Min(1, { message: '序列长度至少为1' })
+  outputSize?: number;
+
+  @ApiPropertyOptional({
+    description: '指标参数，按指标类型覆盖默认参数',
+    example: { RSI: { period: 21 }, SUPERTREND: { period: 10, multiplier: 3 } },
+  })
+  @IsOptional()
+  @IsObject({ message: '指标参数必须是对象' })
+  params?: Partial<Record<IndicatorType, Record<string, number>>>;
+
+  @ApiPropertyOptional({
+    description: '交易所名称',
+    example: 'binance',
+    default: 'binance',
+  })
+  @IsOptional()
+  @IsString({ message: '交易所名称必须是字符串' })
+  exchange?: string;
+}
+
+/**
+ * 衍生品情绪分析请求DTO
+ */
+export class DerivativesSentimentRequestDto {
+  @ApiProperty({
+    description: '交易对符号，支持 BTCUSDT 或 BTC/USDT:USDT',
+    example: 'BTCUSDT',
+  })
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol: string;
+
+  @ApiPropertyOptional({
+    description: '衍生品交易所名称',
+    example: 'binanceusdm',
+    enum: ['binanceusdm', 'okx', 'bybit'],
+    default: 'binanceusdm',
+  })
+  @IsOptional()
+  @IsIn(['binanceusdm', 'okx', 'bybit'], { message: '不支持的衍生品交易所' })
+  exchange?: string;
+}
+
+/**
+ * 持仓量变化排行查询DTO
+ */
+export class OpenInterestChangeRankingQueryDto {
+  @ApiPropertyOptional({
+    description: '变化统计窗口',
+    enum: ['1h', '4h', '24h'],
+    default: '24h',
+  })
+  @IsOptional()
+  @IsIn(['1h', '4h', '24h'], { message: '不支持的时间窗口' })
+  window?: OpenInterestWindow;
+
+  @ApiPropertyOptional({ description: '返回数量', default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '返回数量必须是数字' })
+  @Min(1, { message: '返回数量不能小于1' })
+  @Max(100, { message: '返回数量不能大于100' })
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: '排序方向：increase 增幅最大、decrease 降幅最大、absolute 变化绝对值最大',
+    enum: ['increase', 'decrease', 'absolute'],
+    default: 'absolute',
+  })
+  @IsOptional()
+  @IsIn(['increase', 'decrease', 'absolute'], { message: '不支持的排序方向' })
+  direction?: 'increase' | 'decrease' | 'absolute';
+}
@@ -187,4 +187,69 @@ export class DebugDataResponseDto {
     datetime: string;
     price: number;
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * 单个技术指标结果DTO
+ */
+export class IndicatorResultDto {
+  @ApiProperty({
+    description: '指标类型',
+    example: 'MACD',
+  })
+  indicator: string;
+
+  @ApiProperty({
+    description: '实际使用的指标参数',
+    example: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  })
+  params: Record<string, number>;
+
+  @ApiProperty({
+    description: '最新一根K线的指标值',
+    example: { macd: 152.3, signal: 120.8, histogram: 31.5 },
+    nullable: true,
+  })
+  latest: Record<string, number> | null;
+
+  @ApiProperty({
+    description: '指标序列，每个数据点包含时间戳和各输出线的值',
+    example: [{ timestamp: 1640995200000, macd: 152.3, signal: 120.8, histogram: 31.5 }],
+  })
+  series: Array<Record<string, number>>;
+}
+
+/**
+ * 技术指标序列响应DTO
+ */
+export class IndicatorSeriesResponseDto {
+  @ApiProperty({
+    description: '交易对符号',
+    example: 'BTCUSDT',
+  })
+  symbol: string;
+
+  @ApiProperty({
+    description: '时间周期',
+    example: '1h',
+  })
+  timeframe: string;
+
+  @ApiProperty({
+    description: '交易所名称',
+    example: 'binance',
+  })
+  exchange: string;
+
+  @ApiProperty({
+    description: '用于计算的K线数量',
+    example: 500,
+  })
+  dataPoints: number;
+
+  @ApiProperty({
+    description: '指标结果',
+    type: [IndicatorResultDto],
+  })
+  indicators: IndicatorResultDto[];
+}
@@ -0,0 +1,100 @@
+/**
+ * 资金费率数据点
+ */
+export interface IFundingRatePoint {
+  timestamp: number; // 结算时间
+  fundingRate: number;
+}
+
+/**
+ * 多空账户比数据点
+ */
+export interface ILongShortRatioPoint {
+  timestamp: number;
+  longShortRatio: number;
+}
+
+/**
+ * 资金费率 / 多空比极值状态
+ */
+export type SentimentExtreme =
+  | 'EXTREME_HIGH' // 显著高于历史水平（多头拥挤）
+  | 'EXTREME_LOW' // 显著低于历史水平（空头拥挤）
+  | 'NORMAL';
+
+/**
+ * 持仓量与价格的组合状态
+ */
+export type OpenInterestRegime =
+  | 'LONG_BUILDUP' // 持仓增加 + 价格上涨：多头加仓
+  | 'SHORT_BUILDUP' // 持仓增加 + 价格下跌：空头加仓
+  | 'SHORT_COVERING' // 持仓减少 + 价格上涨：空头回补
+  | 'LONG_UNWINDING' // 持仓减少 + 价格下跌：多头平仓
+  | 'NEUTRAL';
+
+/**
+ * 序列统计：当前值相对历史的位置
+ */
+export interface ISeriesStatistics {
+  mean: number;
+  stdDev: number;
+  zScore: number;
+  percentile: number; // 当前值在历史中的百分位 0-100
+  min: number;
+  max: number;
+  samples: number;
+}
+
+/**
+ * 资金费率分析
+ */
+export interface IFundingRateAnalysis {
+  current: number | null; // 当前周期费率（未结算）
+  predicted: number | null; // 交易所给出的下一周期预测费率
+  nextFundingTime: number | null;
+  lastSettled: number | null; // 最近一次已结算费率
+  annualized: number | null; // 按当前费率折算的年化(%)
+  statistics: ISeriesStatistics | null;
+  extreme: SentimentExtreme;
+  history: IFundingRatePoint[];
+}
+
+/**
+ * 多空账户比分析
+ */
+export interface ILongShortRatioAnalysis {
+  period: string;
+  current: number | null;
+  longPercent: number | null; // 多头账户占比(%)
+  change: number | null; // 相对统计窗口起点的变化
+  statistics: ISeriesStatistics | null;
+  extreme: SentimentExtreme;
+  history: ILongShortRatioPoint[];
+}
+
+/**
+ * 持仓量与价格组合分析
+ */
+export interface IOpenInterestRegimeAnalysis {
+  period: string; // 持仓量统计周期
+  window: number; // 比较的周期数
+  currentOpenInterest: number | null;
+  openInterestChangePercent: number | null;
+  priceChangePercent: number | null;
+  regime: OpenInterestRegime;
+  description: string;
+}
+
+/**
+ * 衍生品情绪分析结果
+ */
+export interface IDerivativesSentiment {
+  symbol: string; // 合约符号，如 BTC/USDT:USDT
+  exchange: string;
+  timestamp: number;
+  funding: IFundingRateAnalysis | null;
+  longShort: ILongShortRatioAnalysis | null;
+  openInterest: IOpenInterestRegimeAnalysis | null;
+  bias: 'BULLISH' | 'BEARISH' | 'NEUTRAL'; // 综合倾向（拥挤方向视为反向风险）
+  signals: string[];
+}
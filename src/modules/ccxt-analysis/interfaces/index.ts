@@ -1,3 +1,5 @@
 export * from './market-data.interface';
 export * from './open-interest.interface';
-export * from './rsi.interface'; 
\ No newline at end of file
+export * from './rsi.interface';
+export * from './indicator.interface';
+export * from './derivatives.interface';
\ No newline at end of file
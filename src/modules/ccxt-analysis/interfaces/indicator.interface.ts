@@ -0,0 +1,47 @@
+/**
+ * 支持的技术指标类型
+ */
+export type IndicatorType =
+  | 'SMA'
+  | 'EMA'
+  | 'RSI'
+  | 'MACD'
+  | 'BOLLINGER'
+  | 'ATR'
+  | 'ADX'
+  | 'STOCH_RSI'
+  | 'VWAP'
+  | 'OBV'
+  | 'ICHIMOKU'
+  | 'SUPERTREND'
+  | 'KELTNER';
+
+/**
+ * 指标序列中的单个数据点
+ * 除时间戳外，键为指标的输出线名称（如 macd、signal、histogram）
+ */
+export interface IIndicatorPoint {
+  timestamp: number;
+  [line: string]: number;
+}
+
+/**
+ * 单个指标的计算结果
+ */
+export interface IIndicatorResult {
+  indicator: IndicatorType;
+  params: Record<string, number>;
+  latest: Record<string, number> | null;
+  series: IIndicatorPoint[];
+}
+
+/**
+ * 指标序列查询结果
+ */
+export interface IIndicatorSeries {
+  symbol: string;
+  timeframe: string;
+  exchange: string;
+  dataPoints: number;
+  indicators: IIndicatorResult[];
+}
@@ -11,6 +11,16 @@ export interface IOHLCVData {
   volume: number;
 }
 
+/**
+ * 行情快照接口
+ */
+export interface ITickerData {
+  symbol: string;
+  last: number;
+  quoteVolume: number; // 24小时计价货币成交额
+  changePercent: number; // 24小时涨跌幅（百分比）
+}
+
 /**
  * EMA分析结果接口
  */
@@ -30,4 +30,74 @@ export interface IOpenInterestRanking {
   openInterest: number;
   rank: number;
   marketShare: number;
-} 
\ No newline at end of file
+} 
+
+/**
+ * 持仓量变化统计窗口
+ */
+export type OpenInterestWindow = '1h' | '4h' | '24h';
+
+/**
+ * 单个交易所的持仓量采样
+ */
+export interface IOpenInterestSnapshot {
+  exchange: string;
+  symbol: string;
+  contractSymbol: string;
+  timestamp: number;
+  openInterest: number;
+  openInterestValue: number;
+  price: number;
+}
+
+/**
+ * 跨交易所聚合持仓量
+ */
+export interface IAggregatedOpenInterest {
+  symbol: string;
+  timestamp: number;
+  openInterest: number;
+  openInterestValue: number;
+  exchanges: {
+    exchange: string;
+    openInterest: number;
+    openInterestValue: number;
+    share: number;
+  }[];
+}
+
+/**
+ * 指定窗口的聚合持仓量变化
+ * 只比较两个采样时间都有数据的交易所，避免个别交易所采样缺失造成假变化
+ */
+export interface IOpenInterestWindowChange {
+  window: OpenInterestWindow;
+  previousTimestamp: number;
+  previousOpenInterest: number;
+  currentOpenInterest: number;
+  change: number;
+  changePercent: number;
+  previousValue: number;
+  currentValue: number;
+  valueChangePercent: number;
+  exchanges: string[];
+}
+
+/**
+ * 交易对的聚合持仓量及多窗口变化
+ */
+export interface IAggregatedOpenInterestChange {
+  symbol: string;
+  current: IAggregatedOpenInterest;
+  changes: Record<OpenInterestWindow, IOpenInterestWindowChange | null>;
+}
+
+/**
+ * 持仓量变化排行
+ */
+export interface IOpenInterestChangeRanking {
+  rank: number;
+  symbol: string;
+  openInterestValue: number;
+  change: IOpenInterestWindowChange;
+}
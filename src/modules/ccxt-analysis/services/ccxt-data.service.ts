@@ -1,6 +1,12 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import * as ccxt from 'ccxt';
-import { IOHLCVData, ICCXTConfig } from '../interfaces';
+import { IOHLCVData, ITickerData } from '../interfaces';
+import { KlineStoreService } from './kline-store.service';
+import { ExchangeConfig } from 'src/config/exchange.config';
+
+// 单次请求交易所的K线条数，交易所可能按自身上限返回更少
+const OHLCV_BATCH_SIZE = 1000;
 
 /**
  * CCXT数据服务
@@ -10,6 +16,15 @@ import { IOHLCVData, ICCXTConfig } from '../interfaces';
 export class CCXTDataService implements OnModuleInit {
   private readonly logger = new Logger(CCXTDataService.name);
   private exchanges: Map<string, ccxt.Exchange> = new Map();
+  // 各交易所的交易对索引：去分隔符的大写符号 -> 统一符号 (如: BTCUSDT -> BTC/USDT)
+  private symbolIndex: Map<string, Map<string, string>> = new Map();
+  // 交易所已无更早历史数据的 交易所:交易对:周期
+  private exhaustedHistory: Set<string> = new Set();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly klineStoreService: KlineStoreService,
+  ) {}
 
   async onModuleInit() {
     // 初始化支持的交易所
@@ -18,36 +33,85 @@ export class CCXTDataService implements OnModuleInit {
 
   /**
    * 初始化交易所实例
+   * 根据配置注册所有启用的交易所，单个交易所失败不影响其他交易所
    */
   private async initializeExchanges() {
-    try {
-      // 初始化Binance交易所
-      const binance = new ccxt.binance({
-        enableRateLimit: true,
-        sandbox: false, // 使用正式环境
-        timeout: 30000,
-        options: {
-          defaultType: 'spot', // 现货交易
-        },
-      });
-
-      // 验证交易所连接
-      await binance.loadMarkets();
-      this.exchanges.set('binance', binance);
-      this.logger.log('Binance交易所初始化成功');
-
-      // 可以添加更多交易所
-      // const okx = new ccxt.okx({ enableRateLimit: true });
-      // this.exchanges.set('okx', okx);
+    const config = this.configService.get<ExchangeConfig>('exchange');
+    const enabled = config?.enabled?.length ? config.enabled : ['binance'];
 
-    } catch (error) {
-      this.logger.error('交易所初始化失败:', error.message);
-      throw error;
+    for (const name of enabled) {
+      try {
+        if (typeof ccxt[name] !== 'function') {
+          this.logger.warn(`CCXT 不支持交易所: ${name}，已跳过`);
+          continue;
+        }
+
+        const exchangeInstance: ccxt.Exchange = new ccxt[name]({
+          enableRateLimit: true,
+          sandbox: false, // 使用正式环境
+          timeout: config?.requestTimeout || 30000,
+          options: {
+            defaultType: 'spot', // 现货交易
+          },
+        });
+
+        // 验证交易所连接
+        await exchangeInstance.loadMarkets();
+        this.exchanges.set(name, exchangeInstance);
+        this.buildSymbolIndex(name, exchangeInstance);
+        this.logger.log(`${name}交易所初始化成功`);
+      } catch (error) {
+        this.logger.error(`${name}交易所初始化失败: ${error.message}`);
+      }
+    }
+
+    if (this.exchanges.size === 0) {
+      throw new Error('没有可用的交易所');
+    }
+  }
+
+  /**
+   * 建立交易对索引，用于将 BTCUSDT / BTC-USDT 等格式映射为交易所的统一符号
+   */
+  private buildSymbolIndex(name: string, exchangeInstance: ccxt.Exchange): void {
+    const index = new Map<string, string>();
+
+    for (const market of Object.values(exchangeInstance.markets)) {
+      if (!market.spot) {
+        continue;
+      }
+      const compactKeys = [
+        `${market.base}${market.quote}`.toUpperCase(),
+        market.id.toUpperCase().replace(/[-_/]/g, ''),
+      ];
+      for (const key of compactKeys) {
+        if (!index.has(key)) {
+          index.set(key, market.symbol);
+        }
+      }
     }
+
+    this.symbolIndex.set(name, index);
+  }
+
+  /**
+   * 获取已启用的交易所列表
+   */
+  getAvailableExchanges(): string[] {
+    return Array.from(this.exchanges.keys());
+  }
+
+  /**
+   * 检查交易所是否已启用
+   * @param exchange 交易所名称
+   */
+  isExchangeAvailable(exchange: string): boolean {
+    return this.exchanges.has(exchange.toLowerCase());
   }
 
   /**
    * 获取OHLCV数据
+   * 优先从本地K线库读取，读取前只向交易所补齐缺失的尾部数据
    * @param symbol 交易对符号 (如: BTC/USDT)
    * @param timeframe 时间周期 (如: 1d, 4h, 1h, 15m)
    * @param limit 数据条数
@@ -60,32 +124,36 @@ export class CCXTDataService implements OnModuleInit {
     exchange: string = 'binance',
   ): Promise<IOHLCVData[]> {
     try {
-      // 标准化交易对符号格式
-      const normalizedSymbol = this.normalizeSymbol(symbol);
-      
       // 获取交易所实例
       const exchangeInstance = this.getExchange(exchange);
-      
+
+      // 按交易所标准化交易对符号格式
+      const normalizedSymbol = this.normalizeSymbol(symbol, exchange);
+
+      // 本地存储使用不带分隔符的格式 (如: BTCUSDT)，并按交易所区分
+      const storeSymbol = normalizedSymbol.replace('/', '');
+      const exchangeName = exchange.toLowerCase();
+
       this.logger.log(`获取${exchange}交易所${normalizedSymbol}的${timeframe}数据，数量：${limit}条`);
 
-      // 从CCXT获取原始OHLCV数据
-      const ohlcvData = await exchangeInstance.fetchOHLCV(
-        normalizedSymbol,
-        timeframe,
-        undefined, // since参数，undefined表示获取最新数据
-        limit,
-      );
+      try {
+        await this.syncKlineData(exchangeInstance, exchangeName, normalizedSymbol, storeSymbol, timeframe, limit);
+      } catch (syncError) {
+        // 交易所不可用时继续使用本地已有数据
+        this.logger.warn(`同步${storeSymbol} ${timeframe} K线失败，使用本地数据: ${syncError.message}`);
+      }
 
-      // 转换为标准格式
-      const formattedData: IOHLCVData[] = ohlcvData.map(([timestamp, open, high, low, close, volume]) => ({
-        timestamp,
-        datetime: new Date(timestamp).toISOString(),
-        open: parseFloat(open.toString()),
-        high: parseFloat(high.toString()),
-        low: parseFloat(low.toString()),
-        close: parseFloat(close.toString()),
-        volume: parseFloat(volume.toString()),
-      }));
+      let formattedData: IOHLCVData[];
+      try {
+        formattedData = await this.klineStoreService.getCandles(exchangeName, storeSymbol, timeframe, limit);
+      } catch (storeError) {
+        this.logger.warn(`读取本地K线失败，直接从交易所获取: ${storeError.message}`);
+        formattedData = await this.fetchRemoteOHLCV(exchangeInstance, normalizedSymbol, timeframe, undefined, limit);
+      }
+
+      if (formattedData.length === 0) {
+        throw new Error(`没有可用的${normalizedSymbol} ${timeframe} K线数据`);
+      }
 
       this.logger.log(`成功获取${formattedData.length}条OHLCV数据`);
       return formattedData;
@@ -96,6 +164,122 @@ export class CCXTDataService implements OnModuleInit {
     }
   }
 
+  /**
+   * 同步本地K线数据
+   * 首次请求时回补历史，之后只获取最后一根已存储K线之后的数据
+   */
+  private async syncKlineData(
+    exchangeInstance: ccxt.Exchange,
+    exchange: string,
+    normalizedSymbol: string,
+    storeSymbol: string,
+    timeframe: string,
+    limit: number,
+  ): Promise<void> {
+    const intervalMs = exchangeInstance.parseTimeframe(timeframe) * 1000;
+    const historyKey = `${exchange}:${storeSymbol}:${timeframe}`;
+    const coverage = await this.klineStoreService.getCoverage(exchange, storeSymbol, timeframe);
+
+    // 首次回补：本地没有任何数据
+    if (coverage.lastOpenTime === null) {
+      const since = Date.now() - limit * intervalMs;
+      const candles = await this.fetchRemoteOHLCV(exchangeInstance, normalizedSymbol, timeframe, since);
+      await this.klineStoreService.saveCandles(exchange, storeSymbol, timeframe, candles, intervalMs);
+      if (candles.length === 0) {
+        this.exhaustedHistory.add(historyKey);
+      }
+      this.logger.log(`回补${storeSymbol} ${timeframe} 历史K线 ${candles.length} 条`);
+      return;
+    }
+
+    // 历史不足时向前补齐
+    if (coverage.count < limit && !this.exhaustedHistory.has(historyKey)) {
+      const since = coverage.firstOpenTime - (limit - coverage.count) * intervalMs;
+      const candles = await this.fetchRemoteOHLCV(
+        exchangeInstance,
+        normalizedSymbol,
+        timeframe,
+        since,
+        undefined,
+        coverage.firstOpenTime,
+      );
+      await this.klineStoreService.saveCandles(exchange, storeSymbol, timeframe, candles, intervalMs);
+      if (candles.length === 0) {
+        // 交易所没有更早的数据（如新上线的交易对）
+        this.exhaustedHistory.add(historyKey);
+      }
+      this.logger.log(`向前补齐${storeSymbol} ${timeframe} K线 ${candles.length} 条`);
+    }
+
+    // 增量更新：从最后一根K线开始（该K线可能尚未收盘）
+    const tail = await this.fetchRemoteOHLCV(exchangeInstance, normalizedSymbol, timeframe, coverage.lastOpenTime);
+    await this.klineStoreService.saveCandles(exchange, storeSymbol, timeframe, tail, intervalMs);
+    this.logger.debug(`增量更新${storeSymbol} ${timeframe} K线 ${tail.length} 条`);
+  }
+
+  /**
+   * 从交易所分页获取OHLCV数据
+   * @param since 起始时间，undefined表示获取最新数据
+   * @param limit 最大条数，仅在since为undefined时使用
+   * @param until 截止时间（不包含）
+   */
+  private async fetchRemoteOHLCV(
+    exchangeInstance: ccxt.Exchange,
+    symbol: string,
+    timeframe: string,
+    since?: number,
+    limit: number = OHLCV_BATCH_SIZE,
+    until?: number,
+  ): Promise<IOHLCVData[]> {
+    if (since === undefined) {
+      const ohlcvData = await exchangeInstance.fetchOHLCV(symbol, timeframe, undefined, limit);
+      return ohlcvData.map(candle => this.formatOHLCV(candle));
+    }
+
+    const intervalMs = exchangeInstance.parseTimeframe(timeframe) * 1000;
+    const result: IOHLCVData[] = [];
+    let cursor = since;
+
+    while (true) {
+      const batch = await exchangeInstance.fetchOHLCV(symbol, timeframe, cursor, OHLCV_BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const candle of batch) {
+        const formatted = this.formatOHLCV(candle);
+        if (until === undefined || formatted.timestamp < until) {
+          result.push(formatted);
+        }
+      }
+
+      // 交易所单页上限各不相同（如 OKX 最多300条、历史接口100条），不能按返回条数判断是否结束，
+      // 只要游标还在前进就继续翻页，直到返回空页或到达截止时间
+      const lastTimestamp = Number(batch[batch.length - 1][0]);
+      if (lastTimestamp < cursor || (until !== undefined && lastTimestamp + intervalMs >= until)) {
+        break;
+      }
+      cursor = lastTimestamp + intervalMs;
+    }
+
+    return result;
+  }
+
+  /**
+   * 转换为标准OHLCV格式
+   */
+  private formatOHLCV([timestamp, open, high, low, close, volume]: ccxt.OHLCV): IOHLCVData {
+    return {
+      timestamp: Number(timestamp),
+      datetime: new Date(Number(timestamp)).toISOString(),
+      open: parseFloat(open.toString()),
+      high: parseFloat(high.toString()),
+      low: parseFloat(low.toString()),
+      close: parseFloat(close.toString()),
+      volume: parseFloat(volume.toString()),
+    };
+  }
+
   /**
    * 获取当前价格
    * @param symbol 交易对符号
@@ -103,8 +287,8 @@ export class CCXTDataService implements OnModuleInit {
    */
   async getCurrentPrice(symbol: string, exchange: string = 'binance'): Promise<number> {
     try {
-      const normalizedSymbol = this.normalizeSymbol(symbol);
       const exchangeInstance = this.getExchange(exchange);
+      const normalizedSymbol = this.normalizeSymbol(symbol, exchange);
 
       const ticker = await exchangeInstance.fetchTicker(normalizedSymbol);
       return parseFloat(ticker.last.toString());
@@ -121,8 +305,8 @@ export class CCXTDataService implements OnModuleInit {
    */
   async get24hStats(symbol: string, exchange: string = 'binance') {
     try {
-      const normalizedSymbol = this.normalizeSymbol(symbol);
       const exchangeInstance = this.getExchange(exchange);
+      const normalizedSymbol = this.normalizeSymbol(symbol, exchange);
 
       const ticker = await exchangeInstance.fetchTicker(normalizedSymbol);
       
@@ -155,6 +339,37 @@ export class CCXTDataService implements OnModuleInit {
     }
   }
 
+  /**
+   * 获取交易所全部现货交易对的行情快照
+   * @param exchange 交易所名称
+   */
+  async getTickers(exchange: string = 'binance'): Promise<ITickerData[]> {
+    try {
+      const exchangeInstance = this.getExchange(exchange);
+      await exchangeInstance.loadMarkets();
+
+      const tickers = await exchangeInstance.fetchTickers();
+
+      return Object.values(tickers)
+        .filter((ticker) => {
+          const market = exchangeInstance.markets[ticker.symbol];
+          return market?.spot && market.active !== false;
+        })
+        .map((ticker) => {
+          const last = ticker.last ?? ticker.close ?? 0;
+          return {
+            symbol: ticker.symbol,
+            last,
+            quoteVolume: ticker.quoteVolume ?? (ticker.baseVolume ?? 0) * last,
+            changePercent: ticker.percentage ?? 0,
+          };
+        });
+    } catch (error) {
+      this.logger.error(`获取行情快照失败: ${error.message}`);
+      throw new Error(`获取行情快照失败: ${error.message}`);
+    }
+  }
+
   /**
    * 获取交易所实例
    * @param exchangeName 交易所名称
@@ -168,32 +383,41 @@ export class CCXTDataService implements OnModuleInit {
   }
 
   /**
-   * 标准化交易对符号
-   * @param symbol 原始符号 (如: SOLUSDT, SOL/USDT)
+   * 按交易所标准化交易对符号
+   * @param symbol 原始符号 (如: SOLUSDT, SOL-USDT, SOL/USDT)
+   * @param exchange 交易所名称
    */
-  private normalizeSymbol(symbol: string): string {
+  normalizeSymbol(symbol: string, exchange: string = 'binance'): string {
+    if (symbol.includes('/')) {
+      return symbol.toUpperCase();
+    }
+
+    const compact = symbol.toUpperCase().replace(/[-_]/g, '');
+
+    // 优先使用交易所市场数据匹配
+    const indexed = this.symbolIndex.get(exchange.toLowerCase())?.get(compact);
+    if (indexed) {
+      return indexed;
+    }
+
     // 将SOLUSDT格式转换为SOL/USDT格式
-    if (!symbol.includes('/')) {
-      // 常见的USDT配对
-      if (symbol.endsWith('USDT')) {
-        const base = symbol.replace('USDT', '');
-        return `${base}/USDT`;
-      }
-      // 常见的BTC配对
-      if (symbol.endsWith('BTC')) {
-        const base = symbol.replace('BTC', '');
-        return `${base}/BTC`;
-      }
-      // 常见的ETH配对
-      if (symbol.endsWith('ETH')) {
-        const base = symbol.replace('ETH', '');
-        return `${base}/ETH`;
-      }
-      // 默认假设是USDT配对
-      return `${symbol}/USDT`;
+    // 常见的USDT配对
+    if (compact.endsWith('USDT')) {
+      const base = compact.replace('USDT', '');
+      return `${base}/USDT`;
+    }
+    // 常见的BTC配对
+    if (compact.endsWith('BTC')) {
+      const base = compact.replace('BTC', '');
+      return `${base}/BTC`;
+    }
+    // 常见的ETH配对
+    if (compact.endsWith('ETH')) {
+      const base = compact.replace('ETH', '');
+      return `${base}/ETH`;
     }
-    
-    return symbol.toUpperCase();
+    // 默认假设是USDT配对
+    return `${compact}/USDT`;
   }
 
   /**
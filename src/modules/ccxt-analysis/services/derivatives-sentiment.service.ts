@@ -0,0 +1,506 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MathUtil } from 'src/shared/utils/math.util';
+import { OpenInterestService } from './open-interest.service';
+import { DerivativesStoreService } from './derivatives-store.service';
+import {
+  IDerivativesSentiment,
+  IFundingRateAnalysis,
+  IFundingRatePoint,
+  ILongShortRatioAnalysis,
+  ILongShortRatioPoint,
+  IOpenInterestRegimeAnalysis,
+  ISeriesStatistics,
+  OpenInterestRegime,
+  SentimentExtreme,
+} from '../interfaces';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 资金费率和多空比的统计窗口 */
+const HISTORY_DAYS = 30;
+
+/** 多空比统计周期和获取数量（7天） */
+const LONG_SHORT_PERIOD = '1h';
+const LONG_SHORT_LIMIT = 168;
+
+/** 持仓量与价格比较的周期和周期数（24小时） */
+const OPEN_INTEREST_PERIOD = '1h';
+const OPEN_INTEREST_WINDOW = 24;
+
+/** 持仓量 / 价格变化超过该百分比才视为增加或减少 */
+const OPEN_INTEREST_CHANGE_THRESHOLD = 2;
+const PRICE_CHANGE_THRESHOLD = 1;
+
+/** 判定极值的 Z 分数和最少样本数 */
+const EXTREME_Z_SCORE = 2;
+const MIN_SAMPLES = 10;
+
+/** 资金费率绝对极值（单周期），不依赖历史统计 */
+const FUNDING_EXTREME_HIGH = 0.001; // 0.1%
+const FUNDING_EXTREME_LOW = -0.0005; // -0.05%
+
+/** 多空比绝对极值 */
+const LONG_SHORT_EXTREME_HIGH = 3;
+const LONG_SHORT_EXTREME_LOW = 0.6;
+
+/** 现货交易所对应的衍生品交易所 */
+const DERIVATIVES_EXCHANGES: Record<string, string> = {
+  binance: 'binanceusdm',
+  binanceusdm: 'binanceusdm',
+  okx: 'okx',
+  bybit: 'bybit',
+};
+
+const REGIME_DESCRIPTIONS: Record<OpenInterestRegime, string> = {
+  LONG_BUILDUP: '持仓增加 + 价格上涨：多头加仓，趋势获得资金支持',
+  SHORT_BUILDUP: '持仓增加 + 价格下跌：空头加仓，下跌动能较强',
+  SHORT_COVERING: '持仓减少 + 价格上涨：空头回补，上涨持续性存疑',
+  LONG_UNWINDING: '持仓减少 + 价格下跌：多头平仓，抛压逐步释放',
+  NEUTRAL: '持仓量和价格变化不明显',
+};
+
+/**
+ * 衍生品情绪服务
+ * 获取并存储资金费率、预测费率和多空账户比，计算其相对历史的极值，
+ * 并结合持仓量与价格变化判断市场所处的多空状态
+ */
+@Injectable()
+export class DerivativesSentimentService {
+  private readonly logger = new Logger(DerivativesSentimentService.name);
+
+  constructor(
+    private readonly openInterestService: OpenInterestService,
+    private readonly derivativesStoreService: DerivativesStoreService,
+  ) {}
+
+  /**
+   * 获取交易对的衍生品情绪分析
+   * @param rawSymbol 交易对符号（BTCUSDT 或 BTC/USDT:USDT）
+   * @param exchange 衍生品交易所名称
+   */
+  async getDerivativesSentiment(
+    rawSymbol: string,
+    exchange: string = 'binanceusdm',
+  ): Promise<IDerivativesSentiment> {
+    const symbol = this.toFuturesSymbol(rawSymbol);
+    this.logger.log(`开始分析 ${exchange} ${symbol} 的衍生品情绪`);
+
+    const [funding, longShort, openInterest] = await Promise.all([
+      this.safeAnalyze('资金费率', symbol, () =>
+        this.analyzeFundingRate(symbol, exchange),
+      ),
+      this.safeAnalyze('多空比', symbol, () =>
+        this.analyzeLongShortRatio(symbol, exchange),
+      ),
+      this.safeAnalyze('持仓量状态', symbol, () =>
+        this.analyzeOpenInterestRegime(symbol, exchange),
+      ),
+    ]);
+
+    if (!funding && !longShort && !openInterest) {
+      throw new Error(`${exchange} ${symbol} 没有可用的衍生品数据`);
+    }
+
+    const { bias, signals } = this.summarize(funding, longShort, openInterest);
+
+    return {
+      symbol,
+      exchange,
+      timestamp: Date.now(),
+      funding,
+      longShort,
+      openInterest,
+      bias,
+      signals,
+    };
+  }
+
+  /**
+   * 获取现货交易所对应的衍生品交易所，不支持时返回 null
+   * @param exchange 现货交易所名称
+   */
+  resolveExchange(exchange: string): string | null {
+    return DERIVATIVES_EXCHANGES[exchange.toLowerCase()] || null;
+  }
+
+  /**
+   * 资金费率分析：当前/预测费率、年化和相对近30天已结算费率的位置
+   */
+  private async analyzeFundingRate(
+    symbol: string,
+    exchange: string,
+  ): Promise<IFundingRateAnalysis> {
+    const exchangeInstance = this.openInterestService.getExchange(exchange);
+    const since = Date.now() - HISTORY_DAYS * DAY_MS;
+
+    const [current, fetchedHistory] = await Promise.all([
+      exchangeInstance.fetchFundingRate(symbol),
+      exchangeInstance.fetchFundingRateHistory(symbol, since),
+    ]);
+
+    const settled: IFundingRatePoint[] = fetchedHistory
+      .filter((item) => Number.isFinite(item.fundingRate) && item.timestamp)
+      .map((item) => ({
+        timestamp: item.timestamp,
+        fundingRate: item.fundingRate,
+      }));
+
+    const predicted = current.nextFundingRate ?? current.fundingRate ?? null;
+    const nextFundingTime = current.fundingTimestamp ?? null;
+
+    const history = await this.persist(
+      '资金费率',
+      symbol,
+      async () => {
+        await this.derivativesStoreService.saveFundingRates(
+          exchange,
+          symbol,
+          settled,
+        );
+        if (predicted !== null && nextFundingTime) {
+          await this.derivativesStoreService.savePredictedFundingRate(
+            exchange,
+            symbol,
+            { timestamp: nextFundingTime, fundingRate: predicted },
+          );
+        }
+        return this.derivativesStoreService.getFundingRates(
+          exchange,
+          symbol,
+          since,
+        );
+      },
+      settled,
+    );
+
+    const rate = current.fundingRate ?? null;
+    const statistics =
+      rate !== null
+        ? this.calculateStatistics(
+            history.map((point) => point.fundingRate),
+            rate,
+          )
+        : null;
+
+    return {
+      current: rate,
+      predicted,
+      nextFundingTime,
+      lastSettled: history[history.length - 1]?.fundingRate ?? null,
+      annualized:
+        rate !== null
+          ? rate * ((365 * DAY_MS) / this.getFundingInterval(history)) * 100
+          : null,
+      statistics,
+      extreme: this.classifyExtreme(
+        rate,
+        statistics,
+        FUNDING_EXTREME_HIGH,
+        FUNDING_EXTREME_LOW,
+      ),
+      history,
+    };
+  }
+
+  /**
+   * 多空账户比分析：当前多空比、近7天变化和相对近30天的位置
+   */
+  private async analyzeLongShortRatio(
+    symbol: string,
+    exchange: string,
+  ): Promise<ILongShortRatioAnalysis> {
+    const exchangeInstance = this.openInterestService.getExchange(exchange);
+    const since = Date.now() - HISTORY_DAYS * DAY_MS;
+
+    const fetched = await exchangeInstance.fetchLongShortRatioHistory(
+      symbol,
+      LONG_SHORT_PERIOD,
+      undefined,
+      LONG_SHORT_LIMIT,
+    );
+    const points: ILongShortRatioPoint[] = fetched
+      .filter((item) => Number.isFinite(item.longShortRatio) && item.timestamp)
+      .map((item) => ({
+        timestamp: item.timestamp,
+        longShortRatio: item.longShortRatio,
+      }));
+
+    const history = await this.persist(
+      '多空比',
+      symbol,
+      async () => {
+        await this.derivativesStoreService.saveLongShortRatios(
+          exchange,
+          symbol,
+          LONG_SHORT_PERIOD,
+          points,
+        );
+        return this.derivativesStoreService.getLongShortRatios(
+          exchange,
+          symbol,
+          LONG_SHORT_PERIOD,
+          since,
+        );
+      },
+      points,
+    );
+
+    const current = history[history.length - 1]?.longShortRatio ?? null;
+    const windowStart = points[0]?.longShortRatio ?? null;
+    const statistics =
+      current !== null
+        ? this.calculateStatistics(
+            history.map((point) => point.longShortRatio),
+            current,
+          )
+        : null;
+
+    return {
+      period: LONG_SHORT_PERIOD,
+      current,
+      longPercent: current !== null ? (current / (1 + current)) * 100 : null,
+      change:
+        current !== null && windowStart !== null ? current - windowStart : null,
+      statistics,
+      extreme: this.classifyExtreme(
+        current,
+        statistics,
+        LONG_SHORT_EXTREME_HIGH,
+        LONG_SHORT_EXTREME_LOW,
+      ),
+      history: points,
+    };
+  }
+
+  /**
+   * 持仓量与价格组合分析：比较最近24小时持仓量和价格的变化方向
+   */
+  private async analyzeOpenInterestRegime(
+    symbol: string,
+    exchange: string,
+  ): Promise<IOpenInterestRegimeAnalysis> {
+    const exchangeInstance = this.openInterestService.getExchange(exchange);
+
+    const [oiHistory, candles] = await Promise.all([
+      exchangeInstance.fetchOpenInterestHistory(
+        symbol,
+        OPEN_INTEREST_PERIOD,
+        undefined,
+        OPEN_INTEREST_WINDOW + 1,
+      ),
+      exchangeInstance.fetchOHLCV(
+        symbol,
+        OPEN_INTEREST_PERIOD,
+        undefined,
+        OPEN_INTEREST_WINDOW + 1,
+      ),
+    ]);
+
+    const oiValues = oiHistory
+      .map((item) => item.openInterestAmount ?? item.openInterestValue)
+      .filter((value) => Number.isFinite(value) && value > 0);
+    const closes = candles.map((candle) => Number(candle[4]));
+
+    if (oiValues.length < 2 || closes.length < 2) {
+      throw new Error('持仓量或价格数据不足');
+    }
+
+    const currentOpenInterest = oiValues[oiValues.length - 1];
+    const openInterestChangePercent =
+      ((currentOpenInterest - oiValues[0]) / oiValues[0]) * 100;
+    const priceChangePercent =
+      ((closes[closes.length - 1] - closes[0]) / closes[0]) * 100;
+
+    const oiUp = openInterestChangePercent >= OPEN_INTEREST_CHANGE_THRESHOLD;
+    const oiDown = openInterestChangePercent <= -OPEN_INTEREST_CHANGE_THRESHOLD;
+    const priceUp = priceChangePercent >= PRICE_CHANGE_THRESHOLD;
+    const priceDown = priceChangePercent <= -PRICE_CHANGE_THRESHOLD;
+
+    let regime: OpenInterestRegime = 'NEUTRAL';
+    if (oiUp && priceUp) {
+      regime = 'LONG_BUILDUP';
+    } else if (oiUp && priceDown) {
+      regime = 'SHORT_BUILDUP';
+    } else if (oiDown && priceUp) {
+      regime = 'SHORT_COVERING';
+    } else if (oiDown && priceDown) {
+      regime = 'LONG_UNWINDING';
+    }
+
+    return {
+      period: OPEN_INTEREST_PERIOD,
+      window: OPEN_INTEREST_WINDOW,
+      currentOpenInterest,
+      openInterestChangePercent,
+      priceChangePercent,
+      regime,
+      description: REGIME_DESCRIPTIONS[regime],
+    };
+  }
+
+  /**
+   * 汇总综合倾向和信号
+   * 资金费率和多空比偏高代表多头拥挤，视为看跌风险；偏低则相反
+   */
+  private summarize(
+    funding: IFundingRateAnalysis | null,
+    longShort: ILongShortRatioAnalysis | null,
+    openInterest: IOpenInterestRegimeAnalysis | null,
+  ): Pick<IDerivativesSentiment, 'bias' | 'signals'> {
+    const signals: string[] = [];
+    let score = 0;
+
+    if (funding?.extreme === 'EXTREME_HIGH') {
+      score -= 1;
+      signals.push(
+        `资金费率 ${(funding.current * 100).toFixed(4)}% 处于高位，多头拥挤`,
+      );
+    } else if (funding?.extreme === 'EXTREME_LOW') {
+      score += 1;
+      signals.push(
+        `资金费率 ${(funding.current * 100).toFixed(4)}% 处于低位，空头拥挤`,
+      );
+    }
+
+    if (longShort?.extreme === 'EXTREME_HIGH') {
+      score -= 1;
+      signals.push(
+        `多空比 ${longShort.current.toFixed(2)} 处于高位，散户普遍做多`,
+      );
+    } else if (longShort?.extreme === 'EXTREME_LOW') {
+      score += 1;
+      signals.push(
+        `多空比 ${longShort.current.toFixed(2)} 处于低位，散户普遍做空`,
+      );
+    }
+
+    if (openInterest && openInterest.regime !== 'NEUTRAL') {
+      const regimeScore: Record<OpenInterestRegime, number> = {
+        LONG_BUILDUP: 1,
+        SHORT_BUILDUP: -1,
+        SHORT_COVERING: 0.5,
+        LONG_UNWINDING: -0.5,
+        NEUTRAL: 0,
+      };
+      score += regimeScore[openInterest.regime];
+      signals.push(openInterest.description);
+    }
+
+    const bias = score >= 1 ? 'BULLISH' : score <= -1 ? 'BEARISH' : 'NEUTRAL';
+    return { bias, signals };
+  }
+
+  /**
+   * 计算当前值相对历史序列的统计位置
+   */
+  private calculateStatistics(
+    values: number[],
+    current: number,
+  ): ISeriesStatistics | null {
+    if (values.length === 0) {
+      return null;
+    }
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const stdDev = MathUtil.calculateStandardDeviation(values);
+
+    return {
+      mean,
+      stdDev,
+      zScore: stdDev > 0 ? (current - mean) / stdDev : 0,
+      percentile:
+        (values.filter((value) => value <= current).length / values.length) *
+        100,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      samples: values.length,
+    };
+  }
+
+  /**
+   * 判断极值：超过绝对阈值，或样本充足时 Z 分数超过阈值
+   */
+  private classifyExtreme(
+    value: number | null,
+    statistics: ISeriesStatistics | null,
+    highThreshold: number,
+    lowThreshold: number,
+  ): SentimentExtreme {
+    if (value === null) {
+      return 'NORMAL';
+    }
+
+    const hasHistory = statistics && statistics.samples >= MIN_SAMPLES;
+    if (
+      value >= highThreshold ||
+      (hasHistory && statistics.zScore >= EXTREME_Z_SCORE)
+    ) {
+      return 'EXTREME_HIGH';
+    }
+    if (
+      value <= lowThreshold ||
+      (hasHistory && statistics.zScore <= -EXTREME_Z_SCORE)
+    ) {
+      return 'EXTREME_LOW';
+    }
+    return 'NORMAL';
+  }
+
+  /**
+   * 资金费率结算间隔（毫秒），按历史记录的时间间隔推算，默认8小时
+   */
+  private getFundingInterval(history: IFundingRatePoint[]): number {
+    const gaps = history
+      .slice(1)
+      .map((point, index) => point.timestamp - history[index].timestamp)
+      .filter((gap) => gap > 0)
+      .sort((a, b) => a - b);
+
+    return gaps[Math.floor(gaps.length / 2)] || 8 * 60 * 60 * 1000;
+  }
+
+  /**
+   * 存储并读取完整序列，数据库不可用时退回使用本次获取的数据
+   */
+  private async persist<T>(
+    label: string,
+    symbol: string,
+    action: () => Promise<T[]>,
+    fallback: T[],
+  ): Promise<T[]> {
+    try {
+      const stored = await action();
+      return stored.length > 0 ? stored : fallback;
+    } catch (error) {
+      this.logger.warn(`${symbol} ${label}存储失败: ${error.message}`);
+      return fallback;
+    }
+  }
+
+  private async safeAnalyze<T>(
+    label: string,
+    symbol: string,
+    action: () => Promise<T>,
+  ): Promise<T | null> {
+    try {
+      return await action();
+    } catch (error) {
+      this.logger.warn(`${symbol} ${label}分析失败: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * 将现货交易对转换为 USDT 永续合约格式
+   */
+  private toFuturesSymbol(symbol: string): string {
+    if (symbol.includes(':')) {
+      return symbol;
+    }
+    const base = symbol
+      .replace(/[/\-_]/g, '')
+      .toUpperCase()
+      .replace(/USDT$/, '');
+    return `${base}/USDT:USDT`;
+  }
+}
@@ -0,0 +1,163 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { IFundingRatePoint, ILongShortRatioPoint } from '../interfaces';
+
+/**
+ * 衍生品数据存储服务
+ * 负责 FundingRate 和 LongShortRatio 表的读写，为情绪分析积累长期序列
+ */
+@Injectable()
+export class DerivativesStoreService {
+  private readonly logger = new Logger(DerivativesStoreService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 保存已结算的资金费率，覆盖同一结算时间的预测费率
+   * @param exchange 交易所名称
+   * @param symbol 合约符号
+   * @param points 资金费率数据
+   */
+  async saveFundingRates(
+    exchange: string,
+    symbol: string,
+    points: IFundingRatePoint[],
+  ): Promise<number> {
+    if (points.length === 0) {
+      return 0;
+    }
+
+    const fundingTimes = points.map((point) => BigInt(point.timestamp));
+    await this.prisma.$transaction([
+      this.prisma.fundingRate.deleteMany({
+        where: { exchange, symbol, fundingTime: { in: fundingTimes } },
+      }),
+      this.prisma.fundingRate.createMany({
+        data: points.map((point) => ({
+          exchange,
+          symbol,
+          fundingTime: BigInt(point.timestamp),
+          fundingRate: point.fundingRate,
+          isPredicted: false,
+        })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    this.logger.debug(
+      `保存 ${exchange} ${symbol} 资金费率 ${points.length} 条`,
+    );
+    return points.length;
+  }
+
+  /**
+   * 保存当前周期的预测费率，已结算的记录不会被覆盖
+   * @param exchange 交易所名称
+   * @param symbol 合约符号
+   * @param point 预测费率（timestamp 为结算时间）
+   */
+  async savePredictedFundingRate(
+    exchange: string,
+    symbol: string,
+    point: IFundingRatePoint,
+  ): Promise<void> {
+    const fundingTime = BigInt(point.timestamp);
+    const existing = await this.prisma.fundingRate.findUnique({
+      where: { exchange_symbol_fundingTime: { exchange, symbol, fundingTime } },
+    });
+
+    if (existing && !existing.isPredicted) {
+      return;
+    }
+
+    await this.prisma.fundingRate.upsert({
+      where: { exchange_symbol_fundingTime: { exchange, symbol, fundingTime } },
+      create: {
+        exchange,
+        symbol,
+        fundingTime,
+        fundingRate: point.fundingRate,
+        isPredicted: true,
+      },
+      update: { fundingRate: point.fundingRate },
+    });
+  }
+
+  /**
+   * 获取指定时间之后的已结算资金费率（按时间升序返回）
+   */
+  async getFundingRates(
+    exchange: string,
+    symbol: string,
+    since: number,
+  ): Promise<IFundingRatePoint[]> {
+    const records = await this.prisma.fundingRate.findMany({
+      where: {
+        exchange,
+        symbol,
+        isPredicted: false,
+        fundingTime: { gte: BigInt(since) },
+      },
+      orderBy: { fundingTime: 'asc' },
+    });
+
+    return records.map((record) => ({
+      timestamp: Number(record.fundingTime),
+      fundingRate: Number(record.fundingRate),
+    }));
+  }
+
+  /**
+   * 保存多空账户比
+   * @param exchange 交易所名称
+   * @param symbol 合约符号
+   * @param period 统计周期
+   * @param points 多空比数据
+   */
+  async saveLongShortRatios(
+    exchange: string,
+    symbol: string,
+    period: string,
+    points: ILongShortRatioPoint[],
+  ): Promise<number> {
+    if (points.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.longShortRatio.createMany({
+      data: points.map((point) => ({
+        exchange,
+        symbol,
+        period,
+        timestamp: BigInt(point.timestamp),
+        longShortRatio: point.longShortRatio,
+      })),
+      skipDuplicates: true,
+    });
+
+    this.logger.debug(
+      `保存 ${exchange} ${symbol} ${period} 多空比 ${result.count} 条`,
+    );
+    return result.count;
+  }
+
+  /**
+   * 获取指定时间之后的多空账户比（按时间升序返回）
+   */
+  async getLongShortRatios(
+    exchange: string,
+    symbol: string,
+    period: string,
+    since: number,
+  ): Promise<ILongShortRatioPoint[]> {
+    const records = await this.prisma.longShortRatio.findMany({
+      where: { exchange, symbol, period, timestamp: { gte: BigInt(since) } },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    return records.map((record) => ({
+      timestamp: Number(record.timestamp),
+      longShortRatio: Number(record.longShortRatio),
+    }));
+  }
+}
@@ -0,0 +1,298 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { MathUtil } from 'src/shared/utils/math.util';
+import { CCXTDataService } from './ccxt-data.service';
+import { INDICATOR_TYPES, IndicatorRequestDto } from '../dto';
+import {
+  IIndicatorPoint,
+  IIndicatorResult,
+  IIndicatorSeries,
+  IndicatorType,
+  IOHLCVData,
+} from '../interfaces';
+
+interface IndicatorDefinition {
+  defaults: Record<string, number>;
+  calculate: (
+    candles: IOHLCVData[],
+    params: Record<string, number>,
+  ) => Record<string, number[]>;
+}
+
+const closes = (candles: IOHLCVData[]) => candles.map((c) => c.close);
+const highs = (candles: IOHLCVData[]) => candles.map((c) => c.high);
+const lows = (candles: IOHLCVData[]) => candles.map((c) => c.low);
+const volumes = (candles: IOHLCVData[]) => candles.map((c) => c.volume);
+
+/** 各指标的默认参数和计算方法，输出的每条线都与K线末尾对齐 */
+const INDICATOR_DEFINITIONS: Record<IndicatorType, IndicatorDefinition> = {
+  SMA: {
+    defaults: { period: 20 },
+    calculate: (candles, p) => ({
+      sma: MathUtil.calculateSMA(closes(candles), p.period),
+    }),
+  },
+  EMA: {
+    defaults: { period: 20 },
+    calculate: (candles, p) => ({
+      ema: MathUtil.calculateEMA(closes(candles), p.period),
+    }),
+  },
+  RSI: {
+    defaults: { period: 14 },
+    calculate: (candles, p) => ({
+      rsi: MathUtil.calculateRSI(closes(candles), p.period),
+    }),
+  },
+  MACD: {
+    defaults: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+    calculate: (candles, p) =>
+      MathUtil.calculateMACD(
+        closes(candles),
+        p.fastPeriod,
+        p.slowPeriod,
+        p.signalPeriod,
+      ),
+  },
+  BOLLINGER: {
+    defaults: { period: 20, standardDeviations: 2 },
+    calculate: (candles, p) =>
+      MathUtil.calculateBollingerBands(
+        closes(candles),
+        p.period,
+        p.standardDeviations,
+      ),
+  },
+  ATR: {
+    defaults: { period: 14 },
+    calculate: (candles, p) => ({
+      atr: MathUtil.calculateATR(
+        highs(candles),
+        lows(candles),
+        closes(candles),
+        p.period,
+      ),
+    }),
+  },
+  ADX: {
+    defaults: { period: 14 },
+    calculate: (candles, p) =>
+      MathUtil.calculateADX(
+        highs(candles),
+        lows(candles),
+        closes(candles),
+        p.period,
+      ),
+  },
+  STOCH_RSI: {
+    defaults: { rsiPeriod: 14, stochPeriod: 14, kSmoothing: 3, dSmoothing: 3 },
+    calculate: (candles, p) =>
+      MathUtil.calculateStochasticRSI(
+        closes(candles),
+        p.rsiPeriod,
+        p.stochPeriod,
+        p.kSmoothing,
+        p.dSmoothing,
+      ),
+  },
+  VWAP: {
+    // period 为 0 时从第一根K线开始累计
+    defaults: { period: 0 },
+    calculate: (candles, p) => ({
+      vwap: MathUtil.calculateVWAP(
+        highs(candles),
+        lows(candles),
+        closes(candles),
+        volumes(candles),
+        p.period || undefined,
+      ),
+    }),
+  },
+  OBV: {
+    defaults: {},
+    calculate: (candles) => ({
+      obv: MathUtil.calculateOBV(closes(candles), volumes(candles)),
+    }),
+  },
+  ICHIMOKU: {
+    defaults: {
+      conversionPeriod: 9,
+      basePeriod: 26,
+      spanBPeriod: 52,
+      displacement: 26,
+    },
+    calculate: (candles, p) => {
+      const result = MathUtil.calculateIchimoku(
+        highs(candles),
+        lows(candles),
+        p.conversionPeriod,
+        p.basePeriod,
+        p.spanBPeriod,
+        p.displacement,
+      );
+      return {
+        conversionLine: result.conversionLine,
+        baseLine: result.baseLine,
+        leadingSpanA: result.leadingSpanA,
+        leadingSpanB: result.leadingSpanB,
+      };
+    },
+  },
+  SUPERTREND: {
+    defaults: { period: 10, multiplier: 3 },
+    calculate: (candles, p) =>
+      MathUtil.calculateSuperTrend(
+        highs(candles),
+        lows(candles),
+        closes(candles),
+        p.period,
+        p.multiplier,
+      ),
+  },
+  KELTNER: {
+    defaults: { emaPeriod: 20, atrPeriod: 10, multiplier: 2 },
+    calculate: (candles, p) =>
+      MathUtil.calculateKeltnerChannels(
+        highs(candles),
+        lows(candles),
+        closes(candles),
+        p.emaPeriod,
+        p.atrPeriod,
+        p.multiplier,
+      ),
+  },
+};
+
+/**
+ * 技术指标服务
+ * 基于 MathUtil 指标库按需计算任意指标序列
+ */
+@Injectable()
+export class IndicatorService {
+  private readonly logger = new Logger(IndicatorService.name);
+
+  constructor(private readonly ccxtDataService: CCXTDataService) {}
+
+  /**
+   * 计算交易对在指定时间周期上的指标序列
+   */
+  async getIndicatorSeries(
+    dto: IndicatorRequestDto,
+  ): Promise<IIndicatorSeries> {
+    const { symbol, timeframe = '1d', exchange = 'binance', params = {} } = dto;
+    const limit = Number(dto.limit) || 500;
+    const outputSize = Number(dto.outputSize) || 100;
+    const indicators = this.validateIndicators(dto.indicators);
+
+    const candles = await this.ccxtDataService.getOHLCVData(
+      symbol,
+      timeframe,
+      limit,
+      exchange,
+    );
+
+    const results = indicators.map((indicator) =>
+      this.calculate(indicator, candles, params[indicator], outputSize),
+    );
+
+    this.logger.log(
+      `指标计算完成: ${symbol} ${timeframe} [${indicators.join(', ')}]`,
+    );
+
+    return {
+      symbol,
+      timeframe,
+      exchange,
+      dataPoints: candles.length,
+      indicators: results,
+    };
+  }
+
+  private calculate(
+    indicator: IndicatorType,
+    candles: IOHLCVData[],
+    overrides: Record<string, number> = {},
+    outputSize: number,
+  ): IIndicatorResult {
+    const definition = INDICATOR_DEFINITIONS[indicator];
+    const params = this.resolveParams(
+      indicator,
+      definition.defaults,
+      overrides,
+    );
+    const lines = definition.calculate(candles, params);
+
+    const series: IIndicatorPoint[] = [];
+    const start = Math.max(0, candles.length - outputSize);
+    for (let index = start; index < candles.length; index++) {
+      const point: IIndicatorPoint = { timestamp: candles[index].timestamp };
+      let hasValue = false;
+
+      for (const [line, values] of Object.entries(lines)) {
+        // 指标序列与K线末尾对齐
+        const valueIndex = index - (candles.length - values.length);
+        if (valueIndex >= 0 && Number.isFinite(values[valueIndex])) {
+          point[line] = values[valueIndex];
+          hasValue = true;
+        }
+      }
+
+      if (hasValue) {
+        series.push(point);
+      }
+    }
+
+    const last = series[series.length - 1];
+    const latest =
+      last && last.timestamp === candles[candles.length - 1]?.timestamp
+        ? Object.fromEntries(
+            Object.entries(last).filter(([key]) => key !== 'timestamp'),
+          )
+        : null;
+
+    return { indicator, params, latest, series };
+  }
+
+  private validateIndicators(indicators: IndicatorType[]): IndicatorType[] {
+    if (!Array.isArray(indicators) || indicators.length === 0) {
+      throw new BadRequestException('必须至少指定一个指标');
+    }
+
+    const normalized = indicators.map(
+      (indicator) => String(indicator).toUpperCase() as IndicatorType,
+    );
+    const unsupported = normalized.filter(
+      (indicator) => !INDICATOR_TYPES.includes(indicator),
+    );
+    if (unsupported.length > 0) {
+      throw new BadRequestException(
+        `不支持的指标: ${unsupported.join(', ')}，支持: ${INDICATOR_TYPES.join(', ')}`,
+      );
+    }
+
+    return Array.from(new Set(normalized));
+  }
+
+  private resolveParams(
+    indicator: IndicatorType,
+    defaults: Record<string, number>,
+    overrides: Record<string, number>,
+  ): Record<string, number> {
+    const params = { ...defaults };
+
+    for (const [key, value] of Object.entries(overrides)) {
+      if (!(key in defaults)) {
+        throw new BadRequestException(
+          `${indicator} 不支持参数 ${key}，可用参数: ${Object.keys(defaults).join(', ') || '无'}`,
+        );
+      }
+
+      const numeric = Number(value);
+      if (!Number.isFinite(numeric) || numeric < 0) {
+        throw new BadRequestException(`${indicator} 参数 ${key} 必须是非负数`);
+      }
+      params[key] = numeric;
+    }
+
+    return params;
+  }
+}
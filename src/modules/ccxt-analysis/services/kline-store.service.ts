@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { KlineData } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { IOHLCVData } from '../interfaces';
+
+/**
+ * K线存储服务
+ * 负责 KlineData 表的读写，为 CCXTDataService 提供本地K线缓存
+ */
+@Injectable()
+export class KlineStoreService {
+  private readonly logger = new Logger(KlineStoreService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 获取最近的K线数据（按时间升序返回）
+   * @param exchange 交易所名称
+   * @param symbol 交易对符号 (如: BTCUSDT)
+   * @param interval 时间周期
+   * @param limit 数据条数
+   */
+  async getCandles(
+    exchange: string,
+    symbol: string,
+    interval: string,
+    limit: number,
+  ): Promise<IOHLCVData[]> {
+    const records = await this.prisma.klineData.findMany({
+      where: { exchange, symbol, interval },
+      orderBy: { openTime: 'desc' },
+      take: limit,
+    });
+
+    return records.reverse().map((record) => this.toOHLCV(record));
+  }
+
+  /**
+   * 获取指定时间范围内的K线数据（按时间升序返回）
+   * @param exchange 交易所名称
+   * @param symbol 交易对符号 (如: BTCUSDT)
+   * @param interval 时间周期
+   * @param startTime 开始时间（包含，毫秒）
+   * @param endTime 结束时间（包含，毫秒）
+   */
+  async getCandlesInRange(
+    exchange: string,
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number,
+  ): Promise<IOHLCVData[]> {
+    const records = await this.prisma.klineData.findMany({
+      where: {
+        exchange,
+        symbol,
+        interval,
+        openTime: { gte: BigInt(startTime), lte: BigInt(endTime) },
+      },
+      orderBy: { openTime: 'asc' },
+    });
+
+    return records.map((record) => this.toOHLCV(record));
+  }
+
+  /**
+   * 获取已存储K线的时间范围和数量
+   * @param exchange 交易所名称
+   * @param symbol 交易对符号
+   * @param interval 时间周期
+   */
+  async getCoverage(
+    exchange: string,
+    symbol: string,
+    interval: string,
+  ): Promise<{
+    count: number;
+    firstOpenTime: number | null;
+    lastOpenTime: number | null;
+  }> {
+    const result = await this.prisma.klineData.aggregate({
+      where: { exchange, symbol, interval },
+      _count: { _all: true },
+      _min: { openTime: true },
+      _max: { openTime: true },
+    });
+
+    return {
+      count: result._count._all,
+      firstOpenTime:
+        result._min.openTime !== null ? Number(result._min.openTime) : null,
+      lastOpenTime:
+        result._max.openTime !== null ? Number(result._max.openTime) : null,
+    };
+  }
+
+  /**
+   * 保存K线数据
+   * 已存在的K线（如尚未收盘的最后一根）会被新数据覆盖
+   * @param exchange 交易所名称
+   * @param symbol 交易对符号
+   * @param interval 时间周期
+   * @param candles K线数据
+   * @param intervalMs 周期毫秒数，用于计算收盘时间
+   */
+  async saveCandles(
+    exchange: string,
+    symbol: string,
+    interval: string,
+    candles: IOHLCVData[],
+    intervalMs: number,
+  ): Promise<number> {
+    if (candles.length === 0) {
+      return 0;
+    }
+
+    const openTimes = candles.map((candle) => BigInt(candle.timestamp));
+    const data = candles.map((candle) => ({
+      exchange,
+      symbol,
+      interval,
+      openTime: BigInt(candle.timestamp),
+      closeTime: BigInt(candle.timestamp + intervalMs - 1),
+      openPrice: candle.open,
+      highPrice: candle.high,
+      lowPrice: candle.low,
+      closePrice: candle.close,
+      volume: candle.volume,
+      // CCXT 统一的 OHLCV 格式不包含以下字段
+      quoteAssetVolume: 0,
+      numberOfTrades: 0,
+      takerBuyBaseAssetVolume: 0,
+      takerBuyQuoteAssetVolume: 0,
+    }));
+
+    await this.prisma.$transaction([
+      this.prisma.klineData.deleteMany({
+        where: { exchange, symbol, interval, openTime: { in: openTimes } },
+      }),
+      this.prisma.klineData.createMany({ data, skipDuplicates: true }),
+    ]);
+
+    this.logger.debug(
+      `保存 ${exchange} ${symbol} ${interval} K线 ${candles.length} 条`,
+    );
+    return candles.length;
+  }
+
+  private toOHLCV(record: KlineData): IOHLCVData {
+    const timestamp = Number(record.openTime);
+    return {
+      timestamp,
+      datetime: new Date(timestamp).toISOString(),
+      open: Number(record.openPrice),
+      high: Number(record.highPrice),
+      low: Number(record.lowPrice),
+      close: Number(record.closePrice),
+      volume: Number(record.volume),
+    };
+  }
+}
@@ -0,0 +1,451 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { CoinConfigService } from 'src/modules/coin-config/coin-config.service';
+import {
+  IAggregatedOpenInterest,
+  IAggregatedOpenInterestChange,
+  IOpenInterestChangeRanking,
+  IOpenInterestSnapshot,
+  IOpenInterestWindowChange,
+  OpenInterestWindow,
+} from '../interfaces';
+import { OpenInterestService } from './open-interest.service';
+import { OpenInterestStoreService } from './open-interest-store.service';
+
+/** 采样周期（毫秒），与定时任务的执行间隔一致 */
+const SAMPLE_INTERVAL = 5 * 60 * 1000;
+
+/** 采样数据保留天数 */
+const RETENTION_DAYS = 7;
+
+/** 最新采样超过该时间视为过期，不再作为当前持仓量 */
+const MAX_SAMPLE_AGE = 3 * SAMPLE_INTERVAL;
+
+/** 历史采样允许的最大时间偏差占窗口长度的比例 */
+const WINDOW_TOLERANCE_RATIO = 0.1;
+
+const WINDOW_MS: Record<OpenInterestWindow, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+};
+
+export const OPEN_INTEREST_WINDOWS = Object.keys(
+  WINDOW_MS,
+) as OpenInterestWindow[];
+
+export type OpenInterestRankingDirection = 'increase' | 'decrease' | 'absolute';
+
+/**
+ * 持仓量历史服务
+ * 定时从所有支持的交易所采样活跃币种的持仓量，
+ * 提供跨交易所聚合持仓量、1h/4h/24h 变化和按变化幅度排行
+ */
+@Injectable()
+export class OpenInterestHistoryService {
+  private readonly logger = new Logger(OpenInterestHistoryService.name);
+  private isSampling = false;
+
+  constructor(
+    private readonly openInterestService: OpenInterestService,
+    private readonly openInterestStoreService: OpenInterestStoreService,
+    private readonly coinConfigService: CoinConfigService,
+  ) {}
+
+  /**
+   * 定时采样活跃币种的持仓量
+   */
+  @Cron('0 */5 * * * *', {
+    name: 'open-interest-sampling',
+    timeZone: 'Asia/Shanghai',
+  })
+  async sampleOpenInterest(): Promise<void> {
+    if (this.isSampling) {
+      this.logger.warn('上一次持仓量采样尚未完成，跳过本次执行');
+      return;
+    }
+
+    this.isSampling = true;
+    try {
+      const symbols = await this.getActiveSymbols();
+      if (symbols.length === 0) {
+        return;
+      }
+
+      const timestamp =
+        Math.floor(Date.now() / SAMPLE_INTERVAL) * SAMPLE_INTERVAL;
+      const exchanges = this.openInterestService.getSupportedExchanges();
+
+      const results = await Promise.all(
+        exchanges.map((exchange) =>
+          this.sampleExchange(exchange, symbols, timestamp),
+        ),
+      );
+
+      const saved = await this.openInterestStoreService.saveSnapshots(
+        results.flat(),
+      );
+      const removed = await this.openInterestStoreService.deleteBefore(
+        timestamp - RETENTION_DAYS * 24 * 60 * 60 * 1000,
+      );
+
+      this.logger.log(
+        `持仓量采样完成: ${symbols.length} 个币种, ${exchanges.length} 个交易所, 保存 ${saved} 条, 清理 ${removed} 条`,
+      );
+    } catch (error) {
+      this.logger.error(`持仓量采样失败: ${error.message}`);
+    } finally {
+      this.isSampling = false;
+    }
+  }
+
+  /**
+   * 获取交易对的跨交易所聚合持仓量及 1h/4h/24h 变化
+   * @param rawSymbol 交易对符号，如 BTCUSDT
+   */
+  async getOpenInterestChange(
+    rawSymbol: string,
+  ): Promise<IAggregatedOpenInterestChange> {
+    const symbol = this.normalizeSymbol(rawSymbol);
+    const now = Date.now();
+
+    const latest = await this.openInterestStoreService.findLatestTimestamp(
+      now,
+      now - MAX_SAMPLE_AGE,
+      symbol,
+    );
+    if (latest === null) {
+      throw new NotFoundException(`${symbol} 暂无最新的持仓量采样数据`);
+    }
+
+    const currentSnapshots = await this.openInterestStoreService.getSnapshotsAt(
+      latest,
+      symbol,
+    );
+
+    const changes = {} as Record<
+      OpenInterestWindow,
+      IOpenInterestWindowChange | null
+    >;
+    for (const window of OPEN_INTEREST_WINDOWS) {
+      const previousTimestamp = await this.findWindowStart(
+        latest,
+        window,
+        symbol,
+      );
+      const previousSnapshots =
+        previousTimestamp === null
+          ? []
+          : await this.openInterestStoreService.getSnapshotsAt(
+              previousTimestamp,
+              symbol,
+            );
+
+      changes[window] = this.calculateChange(
+        window,
+        currentSnapshots,
+        previousSnapshots,
+        previousTimestamp,
+      );
+    }
+
+    return {
+      symbol,
+      current: this.aggregate(symbol, latest, currentSnapshots),
+      changes,
+    };
+  }
+
+  /**
+   * 按持仓量变化幅度排行
+   * @param window 变化统计窗口
+   * @param limit 返回数量
+   * @param direction 排序方向：increase 增幅最大、decrease 降幅最大、absolute 变化绝对值最大
+   */
+  async getTopOpenInterestChangeSymbols(
+    window: OpenInterestWindow = '24h',
+    limit: number = 20,
+    direction: OpenInterestRankingDirection = 'absolute',
+  ): Promise<IOpenInterestChangeRanking[]> {
+    if (!WINDOW_MS[window]) {
+      throw new BadRequestException(
+        `不支持的时间窗口: ${window}，可选值: ${OPEN_INTEREST_WINDOWS.join(', ')}`,
+      );
+    }
+
+    const now = Date.now();
+    const latest = await this.openInterestStoreService.findLatestTimestamp(
+      now,
+      now - MAX_SAMPLE_AGE,
+    );
+    if (latest === null) {
+      return [];
+    }
+
+    const previousTimestamp = await this.findWindowStart(latest, window);
+    if (previousTimestamp === null) {
+      return [];
+    }
+
+    const [currentSnapshots, previousSnapshots] = await Promise.all([
+      this.openInterestStoreService.getSnapshotsAt(latest),
+      this.openInterestStoreService.getSnapshotsAt(previousTimestamp),
+    ]);
+
+    const currentBySymbol = this.groupBySymbol(currentSnapshots);
+    const previousBySymbol = this.groupBySymbol(previousSnapshots);
+
+    const items: Omit<IOpenInterestChangeRanking, 'rank'>[] = [];
+    for (const [symbol, snapshots] of currentBySymbol) {
+      const change = this.calculateChange(
+        window,
+        snapshots,
+        previousBySymbol.get(symbol) || [],
+        previousTimestamp,
+      );
+      if (change) {
+        items.push({
+          symbol,
+          openInterestValue: this.aggregate(symbol, latest, snapshots)
+            .openInterestValue,
+          change,
+        });
+      }
+    }
+
+    const score = (item: Omit<IOpenInterestChangeRanking, 'rank'>) => {
+      const percent = item.change.changePercent;
+      if (direction === 'increase') return percent;
+      if (direction === 'decrease') return -percent;
+      return Math.abs(percent);
+    };
+
+    return items
+      .sort((a, b) => score(b) - score(a))
+      .slice(0, limit)
+      .map((item, index) => ({ rank: index + 1, ...item }));
+  }
+
+  /**
+   * 采样单个交易所的活跃币种持仓量，交易所不支持的币种跳过
+   */
+  private async sampleExchange(
+    exchange: string,
+    symbols: string[],
+    timestamp: number,
+  ): Promise<IOpenInterestSnapshot[]> {
+    const snapshots: IOpenInterestSnapshot[] = [];
+
+    try {
+      const exchangeInstance = this.openInterestService.getExchange(exchange);
+      const contractSymbols = symbols
+        .map((symbol) => this.toContractSymbol(symbol))
+        .filter((contractSymbol) => exchangeInstance.markets[contractSymbol]);
+
+      if (contractSymbols.length === 0) {
+        return snapshots;
+      }
+
+      const prices = await this.fetchPrices(exchange, contractSymbols);
+
+      for (const contractSymbol of contractSymbols) {
+        try {
+          const snapshot = await this.openInterestService.fetchSnapshot(
+            contractSymbol,
+            exchange,
+            prices[contractSymbol],
+          );
+          snapshots.push({ ...snapshot, timestamp });
+        } catch (error) {
+          this.logger.warn(
+            `${exchange} ${contractSymbol} 持仓量采样失败: ${error.message}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`${exchange} 持仓量采样失败: ${error.message}`);
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * 批量获取合约最新价格，交易所不支持批量获取时返回空结果，由单个采样自行获取
+   */
+  private async fetchPrices(
+    exchange: string,
+    contractSymbols: string[],
+  ): Promise<Record<string, number>> {
+    const exchangeInstance = this.openInterestService.getExchange(exchange);
+    if (!exchangeInstance.has.fetchTickers) {
+      return {};
+    }
+
+    try {
+      const tickers = await exchangeInstance.fetchTickers(contractSymbols);
+      const prices: Record<string, number> = {};
+      for (const [symbol, ticker] of Object.entries(tickers)) {
+        const price = ticker.last ?? ticker.close;
+        if (price) {
+          prices[symbol] = price;
+        }
+      }
+      return prices;
+    } catch (error) {
+      this.logger.warn(`${exchange} 批量获取价格失败: ${error.message}`);
+      return {};
+    }
+  }
+
+  /**
+   * 查找窗口起点附近的采样时间
+   * 允许向前偏差窗口长度的 WINDOW_TOLERANCE_RATIO（至少两个采样周期），超出则视为没有历史数据
+   */
+  private findWindowStart(
+    latest: number,
+    window: OpenInterestWindow,
+    symbol?: string,
+  ): Promise<number | null> {
+    const target = latest - WINDOW_MS[window];
+    const tolerance = Math.max(
+      WINDOW_MS[window] * WINDOW_TOLERANCE_RATIO,
+      SAMPLE_INTERVAL * 2,
+    );
+
+    return this.openInterestStoreService.findLatestTimestamp(
+      target,
+      target - tolerance,
+      symbol,
+    );
+  }
+
+  /**
+   * 计算聚合持仓量变化，只统计两个采样时间都有数据的交易所
+   */
+  private calculateChange(
+    window: OpenInterestWindow,
+    current: IOpenInterestSnapshot[],
+    previous: IOpenInterestSnapshot[],
+    previousTimestamp: number | null,
+  ): IOpenInterestWindowChange | null {
+    if (previousTimestamp === null) {
+      return null;
+    }
+
+    const previousByExchange = new Map(
+      previous.map((snapshot) => [snapshot.exchange, snapshot]),
+    );
+    const pairs = current
+      .filter((snapshot) => previousByExchange.has(snapshot.exchange))
+      .map((snapshot) => ({
+        current: snapshot,
+        previous: previousByExchange.get(snapshot.exchange),
+      }));
+
+    if (pairs.length === 0) {
+      return null;
+    }
+
+    const sum = (values: number[]) =>
+      values.reduce((total, value) => total + value, 0);
+    const currentOpenInterest = sum(pairs.map((p) => p.current.openInterest));
+    const previousOpenInterest = sum(pairs.map((p) => p.previous.openInterest));
+    const currentValue = sum(pairs.map((p) => p.current.openInterestValue));
+    const previousValue = sum(pairs.map((p) => p.previous.openInterestValue));
+
+    if (previousOpenInterest <= 0 || previousValue <= 0) {
+      return null;
+    }
+
+    const change = currentOpenInterest - previousOpenInterest;
+
+    return {
+      window,
+      previousTimestamp,
+      previousOpenInterest,
+      currentOpenInterest,
+      change,
+      changePercent: (change / previousOpenInterest) * 100,
+      previousValue,
+      currentValue,
+      valueChangePercent:
+        ((currentValue - previousValue) / previousValue) * 100,
+      exchanges: pairs.map((p) => p.current.exchange),
+    };
+  }
+
+  private aggregate(
+    symbol: string,
+    timestamp: number,
+    snapshots: IOpenInterestSnapshot[],
+  ): IAggregatedOpenInterest {
+    const openInterest = snapshots.reduce((sum, s) => sum + s.openInterest, 0);
+    const openInterestValue = snapshots.reduce(
+      (sum, s) => sum + s.openInterestValue,
+      0,
+    );
+
+    return {
+      symbol,
+      timestamp,
+      openInterest,
+      openInterestValue,
+      exchanges: snapshots
+        .map((s) => ({
+          exchange: s.exchange,
+          openInterest: s.openInterest,
+          openInterestValue: s.openInterestValue,
+          share:
+            openInterestValue > 0
+              ? (s.openInterestValue / openInterestValue) * 100
+              : 0,
+        }))
+        .sort((a, b) => b.openInterestValue - a.openInterestValue),
+    };
+  }
+
+  private groupBySymbol(
+    snapshots: IOpenInterestSnapshot[],
+  ): Map<string, IOpenInterestSnapshot[]> {
+    const groups = new Map<string, IOpenInterestSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const group = groups.get(snapshot.symbol) || [];
+      group.push(snapshot);
+      groups.set(snapshot.symbol, group);
+    }
+    return groups;
+  }
+
+  /**
+   * 获取币种配置中所有活跃的交易对（去重）
+   */
+  private async getActiveSymbols(): Promise<string[]> {
+    const configs = await this.coinConfigService.findActiveConfigs();
+    return [
+      ...new Set(configs.map((config) => this.normalizeSymbol(config.symbol))),
+    ];
+  }
+
+  /**
+   * 统一交易对格式，如 BTC/USDT、btc-usdt 转换为 BTCUSDT
+   */
+  private normalizeSymbol(symbol: string): string {
+    return symbol
+      .split(':')[0]
+      .replace(/[/\-_]/g, '')
+      .toUpperCase();
+  }
+
+  /**
+   * 转换为 USDT 永续合约符号，如 BTCUSDT 转换为 BTC/USDT:USDT
+   */
+  private toContractSymbol(symbol: string): string {
+    const base = symbol.replace(/USDT$/, '');
+    return `${base}/USDT:USDT`;
+  }
+}
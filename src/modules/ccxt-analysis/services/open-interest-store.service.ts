@@ -0,0 +1,112 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OpenInterestSnapshot } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { IOpenInterestSnapshot } from '../interfaces';
+
+/**
+ * 持仓量采样存储服务
+ * 负责 OpenInterestSnapshot 表的读写，为持仓量变化分析提供历史序列
+ */
+@Injectable()
+export class OpenInterestStoreService {
+  private readonly logger = new Logger(OpenInterestStoreService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 保存持仓量采样，同一交易所、交易对和采样时间只保留首次写入的数据
+   * @param snapshots 持仓量采样
+   */
+  async saveSnapshots(snapshots: IOpenInterestSnapshot[]): Promise<number> {
+    if (snapshots.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.openInterestSnapshot.createMany({
+      data: snapshots.map((snapshot) => ({
+        exchange: snapshot.exchange,
+        symbol: snapshot.symbol,
+        contractSymbol: snapshot.contractSymbol,
+        timestamp: BigInt(snapshot.timestamp),
+        openInterest: snapshot.openInterest,
+        openInterestValue: snapshot.openInterestValue,
+        price: snapshot.price,
+      })),
+      skipDuplicates: true,
+    });
+
+    this.logger.debug(`保存持仓量采样 ${result.count} 条`);
+    return result.count;
+  }
+
+  /**
+   * 获取不晚于指定时间的最近一次采样时间
+   * @param before 时间上限（毫秒）
+   * @param after 时间下限（毫秒），早于该时间的采样视为不可用
+   * @param symbol 交易对符号，不传则在所有交易对中查找
+   * @param exchange 交易所名称，不传则在所有交易所中查找
+   */
+  async findLatestTimestamp(
+    before: number,
+    after: number = 0,
+    symbol?: string,
+    exchange?: string,
+  ): Promise<number | null> {
+    const record = await this.prisma.openInterestSnapshot.findFirst({
+      where: {
+        ...(symbol && { symbol }),
+        ...(exchange && { exchange }),
+        timestamp: { lte: BigInt(before), gte: BigInt(after) },
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    });
+
+    return record ? Number(record.timestamp) : null;
+  }
+
+  /**
+   * 获取指定采样时间的持仓量数据
+   * @param timestamp 采样时间
+   * @param symbol 交易对符号，不传则返回所有交易对
+   * @param exchange 交易所名称，不传则返回所有交易所
+   */
+  async getSnapshotsAt(
+    timestamp: number,
+    symbol?: string,
+    exchange?: string,
+  ): Promise<IOpenInterestSnapshot[]> {
+    const records = await this.prisma.openInterestSnapshot.findMany({
+      where: {
+        timestamp: BigInt(timestamp),
+        ...(symbol && { symbol }),
+        ...(exchange && { exchange }),
+      },
+    });
+
+    return records.map((record) => this.toSnapshot(record));
+  }
+
+  /**
+   * 删除指定时间之前的采样
+   * @param before 时间（毫秒）
+   */
+  async deleteBefore(before: number): Promise<number> {
+    const result = await this.prisma.openInterestSnapshot.deleteMany({
+      where: { timestamp: { lt: BigInt(before) } },
+    });
+    return result.count;
+  }
+
+  private toSnapshot(record: OpenInterestSnapshot): IOpenInterestSnapshot {
+    return {
+      exchange: record.exchange,
+      symbol: record.symbol,
+      contractSymbol: record.contractSymbol,
+      timestamp: Number(record.timestamp),
+      openInterest: Number(record.openInterest),
+      openInterestValue: Number(record.openInterestValue),
+      price: Number(record.price),
+    };
+  }
+}
@@ -1,6 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as ccxt from 'ccxt';
-import { IOpenInterestData, IOpenInterestChange } from '../interfaces';
+import { IOpenInterestData, IOpenInterestSnapshot } from '../interfaces';
+import { OpenInterestStoreService } from './open-interest-store.service';
+
+/** 历史采样允许的最大时间偏差占分析时间跨度的比例 */
+const HISTORY_TOLERANCE_RATIO = 0.1;
+
+/** 历史采样允许的最小时间偏差（毫秒） */
+const MIN_HISTORY_TOLERANCE = 10 * 60 * 1000;
 
 /**
  * 持仓量分析服务
@@ -11,6 +18,8 @@ export class OpenInterestService {
   private readonly logger = new Logger(OpenInterestService.name);
   private exchanges: Map<string, ccxt.Exchange> = new Map();
 
+  constructor(private readonly openInterestStoreService: OpenInterestStoreService) {}
+
   async onModuleInit() {
     await this.initializeExchanges();
   }
@@ -93,6 +102,55 @@ export class OpenInterestService {
     }
   }
 
+  /**
+   * 获取单个合约的持仓量采样
+   * 持仓量统一换算为以币计价（OKX 等交易所返回的是合约张数），持仓价值以USDT计价
+   * @param symbol 合约符号 (如: BTC/USDT:USDT)
+   * @param exchange 交易所名称
+   * @param price 最新价格，不传时单独获取
+   */
+  async fetchSnapshot(
+    symbol: string,
+    exchange: string = 'binanceusdm',
+    price?: number
+  ): Promise<IOpenInterestSnapshot> {
+    const exchangeInstance = this.getExchange(exchange);
+    const market = exchangeInstance.market(symbol);
+
+    const openInterest = await exchangeInstance.fetchOpenInterest(symbol);
+    if (price === undefined) {
+      const ticker = await exchangeInstance.fetchTicker(symbol);
+      price = ticker.last ?? ticker.close;
+    }
+
+    let amount = openInterest.baseVolume
+      ?? (openInterest.openInterestAmount !== undefined
+        ? openInterest.openInterestAmount * (market.contractSize || 1)
+        : undefined);
+    let value = openInterest.openInterestValue ?? openInterest.quoteVolume;
+
+    if (amount === undefined && value !== undefined && price) {
+      amount = value / price;
+    }
+    if (value === undefined && amount !== undefined && price) {
+      value = amount * price;
+    }
+
+    if (!amount || !value || !price) {
+      throw new Error(`${exchange} ${symbol} 持仓量数据不完整`);
+    }
+
+    return {
+      exchange,
+      symbol: `${market.base}${market.quote}`,
+      contractSymbol: symbol,
+      timestamp: openInterest.timestamp || Date.now(),
+      openInterest: amount,
+      openInterestValue: value,
+      price,
+    };
+  }
+
   /**
    * 获取多个交易对的持仓量
    * @param symbols 交易对符号数组
@@ -168,6 +226,7 @@ export class OpenInterestService {
 
   /**
    * 分析持仓量变化
+   * 与持仓量采样任务记录的历史数据比较，没有对应时间的采样时抛出异常
    * @param symbol 交易对符号
    * @param exchange 交易所名称
    * @param hours 分析时间跨度（小时）
@@ -185,16 +244,29 @@ export class OpenInterestService {
   }> {
     try {
       // 获取当前持仓量
-      const current = await this.getOpenInterest(symbol, exchange);
-      
-      // 这里应该获取历史数据，但CCXT可能不支持历史持仓量
-      // 作为示例，我们模拟一个之前的数据
-      const previous: IOpenInterestData = {
-        ...current,
-        openInterest: current.openInterest * 0.95, // 模拟数据
-        timestamp: current.timestamp - (hours * 60 * 60 * 1000),
-        datetime: new Date(current.timestamp - (hours * 60 * 60 * 1000)).toISOString(),
-      };
+      const snapshot = await this.fetchSnapshot(symbol, exchange);
+      const current = this.toOpenInterestData(snapshot);
+
+      // 查找分析时间跨度之前的采样
+      const span = hours * 60 * 60 * 1000;
+      const target = snapshot.timestamp - span;
+      const tolerance = Math.max(span * HISTORY_TOLERANCE_RATIO, MIN_HISTORY_TOLERANCE);
+      const previousTimestamp = await this.openInterestStoreService.findLatestTimestamp(
+        target,
+        target - tolerance,
+        snapshot.symbol,
+        exchange,
+      );
+      if (previousTimestamp === null) {
+        throw new Error(`没有 ${exchange} ${snapshot.symbol} ${hours} 小时前的持仓量采样数据`);
+      }
+
+      const [previousSnapshot] = await this.openInterestStoreService.getSnapshotsAt(
+        previousTimestamp,
+        snapshot.symbol,
+        exchange,
+      );
+      const previous = this.toOpenInterestData(previousSnapshot);
 
       const change = current.openInterest - previous.openInterest;
       const changePercent = (change / previous.openInterest) * 100;
@@ -237,9 +309,10 @@ export class OpenInterestService {
 
   /**
    * 获取交易所实例
+   * 也供资金费率、多空比等其他衍生品数据复用
    * @param exchangeName 交易所名称
    */
-  private getExchange(exchangeName: string): ccxt.Exchange {
+  getExchange(exchangeName: string): ccxt.Exchange {
     const exchange = this.exchanges.get(exchangeName.toLowerCase());
     if (!exchange) {
       throw new Error(`不支持的交易所或交易所不支持持仓量数据: ${exchangeName}`);
@@ -247,6 +320,19 @@ export class OpenInterestService {
     return exchange;
   }
 
+  /**
+   * 将持仓量采样转换为持仓量数据
+   */
+  private toOpenInterestData(snapshot: IOpenInterestSnapshot): IOpenInterestData {
+    return {
+      symbol: snapshot.contractSymbol,
+      openInterest: snapshot.openInterest,
+      timestamp: snapshot.timestamp,
+      datetime: new Date(snapshot.timestamp).toISOString(),
+      side: 'total',
+    };
+  }
+
   /**
    * 格式化多个持仓量数据
    * @param openInterests 原始持仓量数据
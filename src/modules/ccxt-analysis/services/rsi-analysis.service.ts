@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { CCXTDataService } from './ccxt-data.service';
 import { IOHLCVData, IRSIData, IRSIAnalysis, IMultiTimeframeRSI } from '../interfaces';
 import { IMarketDataCollection } from 'src/shared/interfaces/analysis.interface';
+import { MathUtil } from 'src/shared/utils/math.util';
 
 /**
  * RSI分析服务
@@ -23,35 +24,7 @@ export class RSIAnalysisService {
       throw new Error(`价格数据不足，需要至少 ${period + 1} 个数据点`);
     }
 
-    const rsiValues: number[] = [];
-    const gains: number[] = [];
-    const losses: number[] = [];
-
-    // 计算价格变化
-    for (let i = 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      gains.push(change > 0 ? change : 0);
-      losses.push(change < 0 ? Math.abs(change) : 0);
-    }
-
-    // 计算初始平均增益和损失（简单移动平均）
-    let avgGain = gains.slice(0, period).reduce((sum, gain) => sum + gain, 0) / period;
-    let avgLoss = losses.slice(0, period).reduce((sum, loss) => sum + loss, 0) / period;
-
-    // 计算第一个RSI值
-    let rs = avgGain / (avgLoss || 0.0001); // 避免除零
-    rsiValues.push(100 - (100 / (1 + rs)));
-
-    // 使用Wilder的平滑方法计算后续RSI值
-    for (let i = period; i < gains.length; i++) {
-      avgGain = ((avgGain * (period - 1)) + gains[i]) / period;
-      avgLoss = ((avgLoss * (period - 1)) + losses[i]) / period;
-      
-      rs = avgGain / (avgLoss || 0.0001);
-      rsiValues.push(100 - (100 / (1 + rs)));
-    }
-
-    return rsiValues;
+    return MathUtil.calculateRSI(prices, period);
   }
 
   /**
@@ -147,10 +120,7 @@ export class RSIAnalysisService {
       const signal = this.generateTradingSignal(currentRSI, previousRSI);
       
       // 检测背离
-      const divergence = this.detectDivergence(
-        ohlcvData.slice(-10),
-        rsiValues.slice(-10)
-      );
+      const divergence = this.detectDivergence(ohlcvData, rsiValues);
 
       // 生成建议和风险评估
       const { recommendation, riskLevel } = this.generateRecommendation(
@@ -250,10 +220,7 @@ export class RSIAnalysisService {
       const signal = this.generateTradingSignal(currentRSI, previousRSI);
       
       // 检测背离
-      const divergence = this.detectDivergence(
-        ohlcvData.slice(-10),
-        rsiValues.slice(-10)
-      );
+      const divergence = this.detectDivergence(ohlcvData, rsiValues);
 
       // 生成建议和风险评估
       const { recommendation, riskLevel } = this.generateRecommendation(
@@ -431,37 +398,27 @@ export class RSIAnalysisService {
 
   /**
    * 检测价格与RSI背离
+   * 取最近高低点之间的常规背离，只看第二个高低点在最近30根K线内的背离
    * @param priceData 价格数据
-   * @param rsiData RSI数据
+   * @param rsiData RSI数据，与价格数据末尾对齐
    */
   private detectDivergence(
     priceData: IOHLCVData[],
     rsiData: number[]
   ): 'bullish' | 'bearish' | null {
-    if (priceData.length < 3 || rsiData.length < 3) {
+    const divergences = MathUtil.findDivergences(
+      priceData.map(d => d.high),
+      priceData.map(d => d.low),
+      rsiData
+    ).filter(d => d.type === 'REGULAR' && priceData.length - 1 - d.endIndex <= 30);
+
+    const latest = divergences[divergences.length - 1];
+    if (!latest) {
       return null;
     }
 
-    const recentPrices = priceData.slice(-3).map(d => d.close);
-    const recentRSI = rsiData.slice(-3);
-
-    // 检测看涨背离：价格新低，RSI未创新低
-    const priceNewLow = recentPrices[2] < Math.min(...recentPrices.slice(0, 2));
-    const rsiNotNewLow = recentRSI[2] > Math.min(...recentRSI.slice(0, 2));
-
-    if (priceNewLow && rsiNotNewLow) {
-      return 'bullish';
-    }
-
-    // 检测看跌背离：价格新高，RSI未创新高
-    const priceNewHigh = recentPrices[2] > Math.max(...recentPrices.slice(0, 2));
-    const rsiNotNewHigh = recentRSI[2] < Math.max(...recentRSI.slice(0, 2));
-
-    if (priceNewHigh && rsiNotNewHigh) {
-      return 'bearish';
-    }
-
-    return null;
+    // 看涨背离：价格新低，RSI未创新低；看跌背离：价格新高，RSI未创新高
+    return latest.bias === 'BULLISH' ? 'bullish' : 'bearish';
   }
 
   /**
@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AlertThrottlePolicyService } from './alert-throttle-policy.service';
+import {
+  AlertThrottlePolicyQueryDto,
+  CreateAlertThrottlePolicyDto,
+  UpdateAlertThrottlePolicyDto,
+} from './dto';
+
+/**
+ * 告警节流策略控制器
+ * 按交易对和告警类型管理冷却时间、每小时上限、免打扰时段和强区间优先放行规则
+ */
+@ApiTags('告警节流策略')
+@Controller('api/alert-throttle-policies')
+export class AlertThrottlePolicyController {
+  constructor(
+    private readonly alertThrottlePolicyService: AlertThrottlePolicyService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建告警节流策略' })
+  @ApiResponse({ status: 201, description: '创建成功' })
+  @ApiResponse({ status: 409, description: '策略已存在' })
+  async create(@Body() dto: CreateAlertThrottlePolicyDto) {
+    return await this.alertThrottlePolicyService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '获取告警节流策略列表' })
+  async findAll(@Query() query: AlertThrottlePolicyQueryDto) {
+    return await this.alertThrottlePolicyService.findAll(query);
+  }
+
+  @Get('effective/:symbol')
+  @ApiOperation({ summary: '获取交易对实际生效的节流策略' })
+  @ApiParam({ name: 'symbol', description: '交易对符号' })
+  @ApiQuery({
+    name: 'alertType',
+    required: false,
+    enum: ['PRICE_TRIGGER', 'ZONE_CROSSING'],
+  })
+  getEffective(
+    @Param('symbol') symbol: string,
+    @Query('alertType') alertType?: 'PRICE_TRIGGER' | 'ZONE_CROSSING',
+  ) {
+    const policy = this.alertThrottlePolicyService.resolve(
+      symbol,
+      alertType === 'ZONE_CROSSING' ? 'ZONE_CROSSING' : 'PRICE_TRIGGER',
+    );
+    return {
+      ...policy,
+      inQuietHours: this.alertThrottlePolicyService.isQuietTime(policy),
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '根据ID获取告警节流策略' })
+  @ApiParam({ name: 'id', description: '策略ID' })
+  @ApiResponse({ status: 404, description: '策略不存在' })
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return await this.alertThrottlePolicyService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '更新告警节流策略' })
+  @ApiParam({ name: 'id', description: '策略ID' })
+  @ApiResponse({ status: 404, description: '策略不存在' })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateAlertThrottlePolicyDto,
+  ) {
+    return await this.alertThrottlePolicyService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除告警节流策略' })
+  @ApiParam({ name: 'id', description: '策略ID' })
+  @ApiResponse({ status: 404, description: '策略不存在' })
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ message: string }> {
+    await this.alertThrottlePolicyService.remove(id);
+    return { message: '节流策略删除成功' };
+  }
+}
@@ -0,0 +1,369 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { AlertThrottlePolicy, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  AlertThrottlePolicyQueryDto,
+  CreateAlertThrottlePolicyDto,
+  THROTTLE_ALERT_TYPES,
+  UpdateAlertThrottlePolicyDto,
+} from './dto';
+import {
+  AlertThrottlePolicyView,
+  ResolvedThrottlePolicy,
+  ThrottleAlertType,
+} from './interfaces';
+
+/** 所有交易对的默认策略使用的交易对符号 */
+export const DEFAULT_POLICY_SYMBOL = '*';
+
+/** 系统默认节流参数，未配置策略时使用 */
+const SYSTEM_DEFAULTS: Record<
+  Exclude<ThrottleAlertType, 'ALL'>,
+  Omit<ResolvedThrottlePolicy, 'symbol' | 'alertType' | 'sources'>
+> = {
+  PRICE_TRIGGER: {
+    cooldownSeconds: 900, // 15分钟
+    globalCooldownSeconds: 900, // 15分钟
+    batchDelaySeconds: 5,
+    maxAlertsPerHour: 0,
+    quietHours: null,
+    bypassStrengths: ['STRONG', 'MAJOR'],
+  },
+  ZONE_CROSSING: {
+    cooldownSeconds: 300, // 5分钟
+    globalCooldownSeconds: 0,
+    batchDelaySeconds: 0,
+    maxAlertsPerHour: 0,
+    quietHours: null,
+    bypassStrengths: ['STRONG', 'MAJOR'],
+  },
+};
+
+const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+
+/**
+ * 告警节流策略服务
+ * 按交易对和告警类型管理冷却时间、每小时上限、免打扰时段和强区间优先放行规则，
+ * 策略缓存在内存中，供价格触发检测逐笔查询
+ */
+@Injectable()
+export class AlertThrottlePolicyService implements OnModuleInit {
+  private readonly logger = new Logger(AlertThrottlePolicyService.name);
+  private policies: AlertThrottlePolicy[] = [];
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.reload();
+      this.logger.log(`加载 ${this.policies.length} 条告警节流策略`);
+    } catch (error) {
+      this.logger.error(`加载告警节流策略失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 创建节流策略
+   */
+  async create(
+    dto: CreateAlertThrottlePolicyDto,
+  ): Promise<AlertThrottlePolicyView> {
+    if (!dto.symbol) {
+      throw new BadRequestException('必须指定交易对，* 表示所有交易对');
+    }
+    this.validateAlertType(dto.alertType);
+    const data = this.toData(dto);
+    this.validateQuietHours(data.quietHoursStart, data.quietHoursEnd);
+
+    try {
+      const policy = await this.prisma.alertThrottlePolicy.create({
+        data: {
+          ...data,
+          symbol: this.normalizeSymbol(dto.symbol),
+          alertType: dto.alertType || 'ALL',
+        },
+      });
+      await this.reload();
+      return this.toView(policy);
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          `交易对 ${dto.symbol} 的 ${dto.alertType || 'ALL'} 节流策略已存在`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 查询节流策略列表
+   */
+  async findAll(
+    query: AlertThrottlePolicyQueryDto = {},
+  ): Promise<AlertThrottlePolicyView[]> {
+    const where: Prisma.AlertThrottlePolicyWhereInput = {};
+
+    if (query.symbol) {
+      where.symbol = this.normalizeSymbol(query.symbol);
+    }
+
+    if (query.alertType) {
+      where.alertType = query.alertType;
+    }
+
+    const policies = await this.prisma.alertThrottlePolicy.findMany({
+      where,
+      orderBy: [{ symbol: 'asc' }, { alertType: 'asc' }],
+    });
+
+    return policies.map((policy) => this.toView(policy));
+  }
+
+  /**
+   * 根据ID获取节流策略
+   */
+  async findOne(id: number): Promise<AlertThrottlePolicyView> {
+    const policy = await this.prisma.alertThrottlePolicy.findUnique({
+      where: { id },
+    });
+
+    if (!policy) {
+      throw new NotFoundException(`ID为 ${id} 的节流策略不存在`);
+    }
+
+    return this.toView(policy);
+  }
+
+  /**
+   * 更新节流策略
+   */
+  async update(
+    id: number,
+    dto: UpdateAlertThrottlePolicyDto,
+  ): Promise<AlertThrottlePolicyView> {
+    const existing = await this.findOne(id);
+    this.validateAlertType(dto.alertType);
+    const data = this.toData(dto);
+    this.validateQuietHours(
+      data.quietHoursStart !== undefined
+        ? data.quietHoursStart
+        : existing.quietHoursStart,
+      data.quietHoursEnd !== undefined
+        ? data.quietHoursEnd
+        : existing.quietHoursEnd,
+    );
+
+    try {
+      const policy = await this.prisma.alertThrottlePolicy.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(dto.symbol && { symbol: this.normalizeSymbol(dto.symbol) }),
+          ...(dto.alertType && { alertType: dto.alertType }),
+        },
+      });
+      await this.reload();
+      return this.toView(policy);
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('相同交易对和告警类型的节流策略已存在');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 删除节流策略
+   */
+  async remove(id: number): Promise<void> {
+    await this.findOne(id);
+
+    await this.prisma.alertThrottlePolicy.delete({
+      where: { id },
+    });
+    await this.reload();
+  }
+
+  /**
+   * 获取交易对某类告警实际生效的节流策略
+   * 按字段逐项合并，优先级：交易对+告警类型 > 交易对+ALL > 默认+告警类型 > 默认+ALL > 系统默认值
+   */
+  resolve(
+    rawSymbol: string,
+    alertType: Exclude<ThrottleAlertType, 'ALL'>,
+  ): ResolvedThrottlePolicy {
+    const symbol = this.normalizeSymbol(rawSymbol);
+    const candidates = [
+      [symbol, alertType],
+      [symbol, 'ALL'],
+      [DEFAULT_POLICY_SYMBOL, alertType],
+      [DEFAULT_POLICY_SYMBOL, 'ALL'],
+    ]
+      .map(([policySymbol, policyType]) =>
+        this.policies.find(
+          (policy) =>
+            policy.isActive &&
+            policy.symbol === policySymbol &&
+            policy.alertType === policyType,
+        ),
+      )
+      .filter((policy) => !!policy);
+
+    const pick = <T>(getter: (policy: AlertThrottlePolicy) => T | null): T => {
+      const policy = candidates.find((item) => getter(item) !== null);
+      return policy ? getter(policy) : undefined;
+    };
+
+    const defaults = SYSTEM_DEFAULTS[alertType];
+    const quietPolicy = candidates.find(
+      (policy) => policy.quietHoursStart && policy.quietHoursEnd,
+    );
+
+    return {
+      symbol,
+      alertType,
+      cooldownSeconds:
+        pick((policy) => policy.cooldownSeconds) ?? defaults.cooldownSeconds,
+      globalCooldownSeconds:
+        pick((policy) => policy.globalCooldownSeconds) ??
+        defaults.globalCooldownSeconds,
+      batchDelaySeconds:
+        pick((policy) => policy.batchDelaySeconds) ??
+        defaults.batchDelaySeconds,
+      maxAlertsPerHour:
+        pick((policy) => policy.maxAlertsPerHour) ?? defaults.maxAlertsPerHour,
+      quietHours: quietPolicy
+        ? {
+            start: quietPolicy.quietHoursStart,
+            end: quietPolicy.quietHoursEnd,
+            timezone: quietPolicy.timezone || DEFAULT_TIMEZONE,
+          }
+        : defaults.quietHours,
+      bypassStrengths:
+        pick((policy) => this.parseStrengths(policy)) ??
+        defaults.bypassStrengths,
+      sources: candidates.map((policy) => policy.id),
+    };
+  }
+
+  /**
+   * 判断当前是否处于免打扰时段（支持跨午夜的时段，如 23:00-07:00）
+   */
+  isQuietTime(policy: ResolvedThrottlePolicy, now = new Date()): boolean {
+    if (!policy.quietHours) {
+      return false;
+    }
+
+    const { start, end, timezone } = policy.quietHours;
+    let current: string;
+    try {
+      current = new Intl.DateTimeFormat('en-GB', {
+        timeZone: timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false,
+      }).format(now);
+    } catch {
+      this.logger.warn(`无效的时区: ${timezone}`);
+      return false;
+    }
+
+    return start <= end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  private async reload(): Promise<void> {
+    this.policies = await this.prisma.alertThrottlePolicy.findMany();
+  }
+
+  private validateAlertType(alertType?: string): void {
+    if (
+      alertType &&
+      !THROTTLE_ALERT_TYPES.includes(alertType as ThrottleAlertType)
+    ) {
+      throw new BadRequestException(`不支持的告警类型: ${alertType}`);
+    }
+  }
+
+  private validateQuietHours(start?: string | null, end?: string | null): void {
+    if (!!start !== !!end) {
+      throw new BadRequestException('免打扰开始时间和结束时间必须同时设置');
+    }
+    if (start && start === end) {
+      throw new BadRequestException('免打扰开始时间和结束时间不能相同');
+    }
+  }
+
+  private toData(
+    dto: UpdateAlertThrottlePolicyDto,
+  ): Omit<
+    Prisma.AlertThrottlePolicyUncheckedCreateInput,
+    'symbol' | 'alertType'
+  > {
+    const toInt = (value?: number) =>
+      value !== undefined && value !== null ? Number(value) : undefined;
+
+    return {
+      cooldownSeconds: toInt(dto.cooldownSeconds),
+      globalCooldownSeconds: toInt(dto.globalCooldownSeconds),
+      batchDelaySeconds: toInt(dto.batchDelaySeconds),
+      maxAlertsPerHour: toInt(dto.maxAlertsPerHour),
+      quietHoursStart: dto.quietHoursStart,
+      quietHoursEnd: dto.quietHoursEnd,
+      timezone: dto.timezone,
+      bypassStrengths:
+        dto.bypassStrengths !== undefined
+          ? JSON.stringify(
+              dto.bypassStrengths.map((strength) => strength.toUpperCase()),
+            )
+          : undefined,
+      isActive: dto.isActive,
+    };
+  }
+
+  private normalizeSymbol(symbol: string): string {
+    return symbol === DEFAULT_POLICY_SYMBOL
+      ? symbol
+      : symbol.replace(/[/\-_]/g, '').toUpperCase();
+  }
+
+  private parseStrengths(policy: AlertThrottlePolicy): string[] | null {
+    if (!policy.bypassStrengths) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(policy.bypassStrengths);
+    } catch {
+      this.logger.warn(`节流策略 ${policy.id} 的区间强度解析失败`);
+      return null;
+    }
+  }
+
+  private toView(policy: AlertThrottlePolicy): AlertThrottlePolicyView {
+    return {
+      id: policy.id,
+      symbol: policy.symbol,
+      alertType: policy.alertType as ThrottleAlertType,
+      cooldownSeconds: policy.cooldownSeconds,
+      globalCooldownSeconds: policy.globalCooldownSeconds,
+      batchDelaySeconds: policy.batchDelaySeconds,
+      maxAlertsPerHour: policy.maxAlertsPerHour,
+      quietHoursStart: policy.quietHoursStart,
+      quietHoursEnd: policy.quietHoursEnd,
+      timezone: policy.timezone,
+      bypassStrengths: this.parseStrengths(policy),
+      isActive: policy.isActive,
+      createdAt: policy.createdAt,
+      updatedAt: policy.updatedAt,
+    };
+  }
+}
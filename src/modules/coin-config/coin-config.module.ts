@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { CoinConfigController } from './coin-config.controller';
 import { CoinConfigService } from './coin-config.service';
+import { AlertThrottlePolicyController } from './alert-throttle-policy.controller';
+import { AlertThrottlePolicyService } from './alert-throttle-policy.service';
 
 @Module({
-  controllers: [CoinConfigController],
-  providers: [CoinConfigService],
-  exports: [CoinConfigService],
+  controllers: [CoinConfigController, AlertThrottlePolicyController],
+  providers: [CoinConfigService, AlertThrottlePolicyService],
+  exports: [CoinConfigService, AlertThrottlePolicyService],
 })
-export class CoinConfigModule {} 
\ No newline at end of file
+export class CoinConfigModule {}
@@ -14,7 +14,10 @@ export class CoinConfigService {
 
     try {
       return await this.prisma.coinConfig.create({
-        data: createCoinConfigDto,
+        data: {
+          ...createCoinConfigDto,
+          exchange: createCoinConfigDto.exchange?.toLowerCase(),
+        },
       });
     } catch (error: any) {
       if (error.code === 'P2002') {
@@ -38,6 +41,10 @@ export class CoinConfigService {
       where.interval = query.interval;
     }
 
+    if (query.exchange) {
+      where.exchange = query.exchange.toLowerCase();
+    }
+
     if (query.isActive !== undefined) {
       where.isActive = query.isActive;
     }
@@ -105,7 +112,10 @@ export class CoinConfigService {
     try {
       return await this.prisma.coinConfig.update({
         where: { id },
-        data: updateCoinConfigDto,
+        data: {
+          ...updateCoinConfigDto,
+          exchange: updateCoinConfigDto.exchange?.toLowerCase(),
+        },
       });
     } catch (error: any) {
       if (error.code === 'P2002') {
@@ -0,0 +1,155 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { ThrottleAlertType } from '../interfaces';
+
+export const THROTTLE_ALERT_TYPES: ThrottleAlertType[] = [
+  'ALL',
+  'PRICE_TRIGGER',
+  'ZONE_CROSSING',
+];
+
+export const ZONE_STRENGTHS = ['WEAK', 'MEDIUM', 'STRONG', 'MAJOR'];
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * 创建告警节流策略DTO
+ * 未设置的字段沿用优先级更低的策略（交易对默认策略、全局策略或系统默认值）
+ */
+export class CreateAlertThrottlePolicyDto {
+  @ApiProperty({
+    description: '交易对符号，* 表示所有交易对的默认策略',
+    example: 'BTCUSDT',
+  })
+  @IsString({ message: '交易对符号必须是字符串' })
+  @Length(1, 20, { message: '交易对符号长度必须在1-20个字符之间' })
+  symbol: string;
+
+  @ApiProperty({
+    description: '告警类型',
+    enum: THROTTLE_ALERT_TYPES,
+    required: false,
+    default: 'ALL',
+  })
+  @IsOptional()
+  @IsIn(THROTTLE_ALERT_TYPES, { message: '不支持的告警类型' })
+  alertType?: ThrottleAlertType;
+
+  @ApiProperty({
+    description: '同一区间重复告警的冷却时间（秒）',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: '冷却时间必须是整数' })
+  @Min(0, { message: '冷却时间不能小于0' })
+  cooldownSeconds?: number;
+
+  @ApiProperty({
+    description: '同一交易对任意区间告警后的冷却时间（秒），0 表示不限制',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: '全局冷却时间必须是整数' })
+  @Min(0, { message: '全局冷却时间不能小于0' })
+  globalCooldownSeconds?: number;
+
+  @ApiProperty({ description: '合并同类告警的等待时间（秒）', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: '合并等待时间必须是整数' })
+  @Min(0, { message: '合并等待时间不能小于0' })
+  @Max(300, { message: '合并等待时间不能大于300秒' })
+  batchDelaySeconds?: number;
+
+  @ApiProperty({
+    description: '每小时最多告警次数，0 表示不限制',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: '每小时告警上限必须是整数' })
+  @Min(0, { message: '每小时告警上限不能小于0' })
+  maxAlertsPerHour?: number;
+
+  @ApiProperty({
+    description: '免打扰开始时间',
+    required: false,
+    example: '23:00',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: '免打扰开始时间格式错误，示例: 23:00' })
+  quietHoursStart?: string;
+
+  @ApiProperty({
+    description: '免打扰结束时间',
+    required: false,
+    example: '07:00',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: '免打扰结束时间格式错误，示例: 07:00' })
+  quietHoursEnd?: string;
+
+  @ApiProperty({
+    description: '免打扰时段使用的时区',
+    required: false,
+    default: 'Asia/Shanghai',
+  })
+  @IsOptional()
+  @IsString({ message: '时区必须是字符串' })
+  timezone?: string;
+
+  @ApiProperty({
+    description: '不受全局冷却、每小时上限和免打扰限制的区间强度',
+    required: false,
+    example: ['STRONG', 'MAJOR'],
+  })
+  @IsOptional()
+  @IsArray({ message: '区间强度必须是数组' })
+  @IsIn(ZONE_STRENGTHS, { each: true, message: '不支持的区间强度' })
+  bypassStrengths?: string[];
+
+  @ApiProperty({ description: '是否启用', required: false, default: true })
+  @IsOptional()
+  @IsBoolean({ message: '启用状态必须是布尔值' })
+  isActive?: boolean;
+}
+
+/**
+ * 更新告警节流策略DTO
+ */
+export class UpdateAlertThrottlePolicyDto extends PartialType(
+  CreateAlertThrottlePolicyDto,
+) {}
+
+/**
+ * 告警节流策略查询DTO
+ */
+export class AlertThrottlePolicyQueryDto {
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: '告警类型',
+    enum: THROTTLE_ALERT_TYPES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(THROTTLE_ALERT_TYPES, { message: '不支持的告警类型' })
+  alertType?: ThrottleAlertType;
+}
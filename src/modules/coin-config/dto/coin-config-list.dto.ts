@@ -23,6 +23,15 @@ export class CoinConfigListDto {
   @IsEnum(IntervalType, { message: '不支持的时间间隔类型' })
   interval?: IntervalType;
 
+  @ApiProperty({ 
+    description: '交易所过滤', 
+    required: false,
+    example: 'binance'
+  })
+  @IsOptional()
+  @IsString({ message: '交易所名称必须是字符串' })
+  exchange?: string;
+
   @ApiProperty({ 
     description: '启用状态过滤', 
     required: false,
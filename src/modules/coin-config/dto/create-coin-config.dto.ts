@@ -20,6 +20,17 @@ export class CreateCoinConfigDto {
   @IsEnum(IntervalType, { message: '不支持的时间间隔类型' })
   interval: IntervalType;
 
+  @ApiProperty({ 
+    description: '分析使用的交易所', 
+    example: 'binance',
+    required: false,
+    default: 'binance'
+  })
+  @IsOptional()
+  @IsString({ message: '交易所名称必须是字符串' })
+  @Length(1, 20, { message: '交易所名称长度必须在1-20个字符之间' })
+  exchange?: string;
+
   @ApiProperty({ 
     description: '是否启用监控', 
     example: true,
@@ -1,3 +1,4 @@
 export * from './create-coin-config.dto';
 export * from './update-coin-config.dto';
-export * from './coin-config-list.dto'; 
\ No newline at end of file
+export * from './coin-config-list.dto';
+export * from './alert-throttle-policy.dto';
\ No newline at end of file
@@ -17,6 +17,9 @@ export class CoinConfigEntity {
   })
   interval: IntervalType;
 
+  @Column({ type: 'varchar', length: 20, default: 'binance' })
+  exchange: string;
+
   @Column({ type: 'boolean', default: true })
   isActive: boolean;
 
@@ -0,0 +1,39 @@
+/**
+ * 可配置节流策略的告警类型，ALL 表示对所有类型生效
+ */
+export type ThrottleAlertType = 'ALL' | 'PRICE_TRIGGER' | 'ZONE_CROSSING';
+
+/**
+ * 合并后实际生效的节流策略
+ */
+export interface ResolvedThrottlePolicy {
+  symbol: string;
+  alertType: ThrottleAlertType;
+  cooldownSeconds: number;
+  globalCooldownSeconds: number; // 0 表示不限制
+  batchDelaySeconds: number;
+  maxAlertsPerHour: number; // 0 表示不限制
+  quietHours: { start: string; end: string; timezone: string } | null;
+  bypassStrengths: string[];
+  sources: number[]; // 参与合并的策略ID，优先级从高到低
+}
+
+/**
+ * 节流策略视图
+ */
+export interface AlertThrottlePolicyView {
+  id: number;
+  symbol: string;
+  alertType: ThrottleAlertType;
+  cooldownSeconds: number | null;
+  globalCooldownSeconds: number | null;
+  batchDelaySeconds: number | null;
+  maxAlertsPerHour: number | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string | null;
+  bypassStrengths: string[] | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -105,6 +105,126 @@ export interface OkxPositionData {
   margin: string;      // 保证金余额
   uTime: string;       // 最近一次持仓更新时间
   cTime: string;       // 持仓创建时间
+  mgnMode?: string;    // 保证金模式 cross/isolated
+  markPx?: string;     // 标记价格
+  liqPx?: string;      // 预估强平价
+  notionalUsd?: string; // 以美元计的持仓价值
+  imr?: string;        // 初始保证金（全仓）
+  mmr?: string;        // 维持保证金
+  closeOrderAlgo?: Array<{
+    algoId: string;
+    slTriggerPx?: string;
+    tpTriggerPx?: string;
+    closeFraction?: string;
+  }>;                  // 持仓附带的止盈止损
+}
+
+// OKX 账户余额数据
+export interface OkxAccountBalanceData {
+  totalEq: string;     // 美元层面权益
+  adjEq: string;       // 美元层面有效保证金（跨币种/组合保证金模式）
+  isoEq: string;       // 美元层面逐仓仓位权益
+  imr: string;         // 美元层面占用保证金
+  mmr: string;         // 美元层面维持保证金
+  mgnRatio: string;    // 美元层面保证金率
+  notionalUsd: string; // 以美元计的持仓价值
+  upl?: string;        // 未实现收益
+  uTime: string;       // 账户信息更新时间
+  details: Array<{
+    ccy: string;       // 币种
+    eq: string;        // 币种总权益
+    availBal: string;  // 可用余额
+    upl: string;       // 未实现收益
+  }>;
+}
+
+// OKX 策略委托单数据（止盈止损）
+export interface OkxAlgoOrderData {
+  instType: string;    // 产品类型
+  instId: string;      // 产品ID
+  algoId: string;      // 策略委托单ID
+  ordType: string;     // 订单类型 conditional/oco/trigger
+  side: string;        // 订单方向
+  posSide: string;     // 持仓方向
+  sz: string;          // 委托数量
+  slTriggerPx: string; // 止损触发价
+  tpTriggerPx: string; // 止盈触发价
+  state: string;       // 订单状态
+  cTime: string;       // 订单创建时间
+}
+
+// OKX 交易产品基础信息
+export interface OkxInstrumentData {
+  instType: string;    // 产品类型
+  instId: string;      // 产品ID
+  ctVal: string;       // 合约面值
+  ctValCcy: string;    // 合约面值计价币种
+  lotSz: string;       // 下单数量精度
+  minSz: string;       // 最小下单数量
+  tickSz: string;      // 下单价格精度
+  maxLever: string;    // 最大杠杆倍数
+  state: string;       // 产品状态
+}
+
+// 下单时附带的止盈止损
+export interface OkxAttachAlgoOrder {
+  attachAlgoClOrdId?: string; // 客户自定义止盈止损ID
+  tpTriggerPx?: string; // 止盈触发价
+  tpOrdPx?: string;    // 止盈委托价，-1 表示市价
+  slTriggerPx?: string; // 止损触发价
+  slOrdPx?: string;    // 止损委托价，-1 表示市价
+  tpTriggerPxType?: string; // 止盈触发价类型 last/index/mark
+  slTriggerPxType?: string; // 止损触发价类型 last/index/mark
+}
+
+// 下单请求
+export interface OkxPlaceOrderRequest {
+  instId: string;      // 产品ID
+  tdMode: string;      // 交易模式 cross/isolated
+  side: string;        // 订单方向 buy/sell
+  posSide?: string;    // 持仓方向，开平仓模式下必填
+  ordType: string;     // 订单类型 limit/market
+  sz: string;          // 委托数量（张）
+  px?: string;         // 委托价格，限价单必填
+  clOrdId?: string;    // 客户自定义订单ID
+  attachAlgoOrds?: OkxAttachAlgoOrder[];
+}
+
+// 修改订单请求
+export interface OkxAmendOrderRequest {
+  instId: string;
+  ordId?: string;
+  clOrdId?: string;
+  newSz?: string;      // 修改后的委托数量
+  newPx?: string;      // 修改后的委托价格
+  attachAlgoOrds?: Array<{
+    attachAlgoClOrdId: string;
+    newTpTriggerPx?: string;
+    newTpOrdPx?: string;
+    newSlTriggerPx?: string;
+    newSlOrdPx?: string;
+  }>;
+}
+
+// 修改策略委托单（止盈止损）请求
+export interface OkxAmendAlgoRequest {
+  instId: string;
+  algoId?: string;
+  algoClOrdId?: string;
+  newTpTriggerPx?: string;
+  newTpOrdPx?: string;
+  newSlTriggerPx?: string;
+  newSlOrdPx?: string;
+}
+
+// 下单、改单、撤单的结果
+export interface OkxOrderActionResult {
+  ordId?: string;
+  clOrdId?: string;
+  algoId?: string;
+  algoClOrdId?: string;
+  sCode: string;       // 事件执行结果，0 表示成功
+  sMsg: string;        // 事件执行失败时的信息
 }
 
 // 处理后的交易数据
@@ -191,4 +311,50 @@ export interface OkxDataResponse {
   fills: OkxFillData[];
   pendingOrders: OkxPendingOrderData[];
   positions: OkxPositionData[];
-} 
\ No newline at end of file
+} 
+// 同步触发方式
+export type OkxSyncTrigger = 'SCHEDULED' | 'MANUAL';
+
+// 同步运行状态
+export type OkxSyncRunStatus = 'SUCCESS' | 'PARTIAL' | 'FAILED';
+
+// 增量同步游标
+export interface OkxSyncCursorData {
+  instType: string;
+  lastBillId: string | null;
+  lastTradeId: string | null;
+  lastFillTime: number | null;
+  updatedAt?: Date;
+}
+
+// 单个产品类型的增量同步结果
+export interface OkxInstTypeSyncResult {
+  instType: string;
+  source: 'fills' | 'fills-history';
+  fetchedCount: number;
+  pages: number;
+  truncated: boolean;             // 是否因达到页数上限而截断
+  fromBillId: string | null;
+  toBillId: string | null;
+  processedCount: number;
+  createdCount: number;
+  updatedCount: number;
+  errors: string[];
+}
+
+// 同步运行记录
+export interface OkxSyncRunData {
+  id?: number;
+  trigger: OkxSyncTrigger;
+  status: OkxSyncRunStatus;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  fetchedCount: number;
+  processedCount: number;
+  createdCount: number;
+  updatedCount: number;
+  errorCount: number;
+  errors: string[];
+  details: OkxInstTypeSyncResult[];
+}
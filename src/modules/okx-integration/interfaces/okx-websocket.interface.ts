@@ -0,0 +1,82 @@
+import { OkxOrderData } from './okx-trade.interface';
+
+// 私有频道订阅参数
+export interface OkxWsArg {
+  channel: string; // 频道名称 orders/fills/positions
+  instType?: string; // 产品类型
+  instId?: string; // 产品ID
+}
+
+// 登录、订阅等事件消息
+export interface OkxWsEventMessage {
+  event: string; // login/subscribe/unsubscribe/error/notice
+  code?: string; // 错误码，0 表示成功
+  msg?: string; // 错误信息
+  arg?: OkxWsArg;
+  connId?: string;
+}
+
+// 频道推送消息
+export interface OkxWsPushMessage<T = any> {
+  arg: OkxWsArg;
+  action?: string;
+  data: T[];
+}
+
+// 订单频道推送数据（包含最新一笔成交的信息）
+export interface OkxWsOrderData extends OkxOrderData {
+  fillFee?: string; // 最新一笔成交的手续费
+  fillFeeCcy?: string; // 最新一笔成交的手续费币种
+  fillPnl?: string; // 最新一笔成交的收益
+  execType?: string; // 流动性方向
+}
+
+// 成交频道推送数据（不包含持仓方向，需结合订单频道数据）
+export interface OkxWsFillData {
+  instId: string; // 产品ID
+  fillSz: string; // 成交数量
+  fillPx: string; // 成交价格
+  side: string; // 订单方向
+  ts: string; // 成交时间
+  ordId: string; // 订单ID
+  clOrdId: string; // 客户自定义订单ID
+  tradeId: string; // 成交ID
+  execType: string; // 流动性方向
+  count: string; // 聚合的成交笔数
+}
+
+// 成交通知
+export interface OkxFillEvent {
+  instType: string;
+  instId: string;
+  ordId: string;
+  tradeId: string;
+  side: string;
+  posSide: string;
+  ordType: string;
+  orderState: string; // filled/partially_filled
+  fillPx: number;
+  fillSz: number;
+  accFillSz: number; // 订单累计成交数量
+  orderSz: number; // 委托数量
+  fee: number; // 手续费（负数表示扣除）
+  feeCcy: string;
+  pnl: number | null; // 平仓成交的收益
+  lever: number | null;
+  ts: number;
+}
+
+// 私有频道连接状态
+export interface OkxPrivateWsStatus {
+  enabled: boolean;
+  configured: boolean;
+  connected: boolean;
+  loggedIn: boolean;
+  url: string;
+  subscriptions: string[];
+  reconnectAttempts: number;
+  lastMessageAt: number | null;
+  lastFillAt: number | null;
+  fillCount: number; // 本次启动以来处理的成交数量
+  lastError: string | null;
+}
@@ -0,0 +1,98 @@
+// 持仓风险类型
+export type PositionRiskType =
+  | 'LIQUIDATION_PROXIMITY' // 接近强平价
+  | 'UNREALIZED_LOSS' // 未实现亏损超过阈值
+  | 'MARGIN_RATIO' // 保证金率恶化
+  | 'MISSING_STOP_LOSS'; // 持仓没有止损单
+
+// 持仓风险级别
+export type PositionRiskLevel = 'warning' | 'critical';
+
+// 监控中的持仓
+export interface MonitoredPosition {
+  instType: string;
+  instId: string;
+  posId: string;
+  posSide: string;
+  mgnMode: string | null;
+  direction: 'LONG' | 'SHORT';
+  size: number; // 持仓数量（绝对值）
+  avgPx: number;
+  markPx: number | null;
+  liqPx: number | null;
+  lever: number | null;
+  upl: number;
+  uplRatio: number; // 未实现收益率（相对保证金），-0.3 表示亏损 30%
+  margin: number | null;
+  mgnRatio: number | null; // 保证金率 = 有效保证金 / 维持保证金，≤1 时强平
+  notionalUsd: number | null;
+  liquidationDistancePercent: number | null; // 标记价格距强平价的百分比
+  stopLossPrice: number | null; // 最近的止损触发价
+  openedAt: number;
+}
+
+// 账户概况
+export interface MonitoredAccount {
+  totalEq: number;
+  adjEq: number | null;
+  imr: number | null;
+  mmr: number | null;
+  mgnRatio: number | null;
+  upl: number | null;
+  updatedAt: number;
+}
+
+// 持仓风险告警
+export interface PositionRiskAlert {
+  type: PositionRiskType;
+  level: PositionRiskLevel;
+  instId: string;
+  posSide: string;
+  description: string;
+  position: MonitoredPosition;
+  timestamp: number;
+}
+
+// 持仓监控状态
+export interface PositionMonitorStatus {
+  enabled: boolean;
+  configured: boolean;
+  isChecking: boolean;
+  lastCheckAt: number | null;
+  lastError: string | null;
+  account: MonitoredAccount | null;
+  positions: MonitoredPosition[];
+  activeRisks: PositionRiskAlert[]; // 最近一次检查发现的风险（不受告警冷却影响）
+}
+
+// 持仓快照
+export interface PositionSnapshotView {
+  timestamp: number;
+  instType: string;
+  instId: string;
+  posSide: string;
+  mgnMode: string | null;
+  size: number;
+  avgPx: number;
+  markPx: number | null;
+  liqPx: number | null;
+  lever: number | null;
+  upl: number;
+  uplRatio: number;
+  margin: number | null;
+  mgnRatio: number | null;
+  notionalUsd: number | null;
+  hasStopLoss: boolean;
+}
+
+// 账户快照
+export interface AccountSnapshotView {
+  timestamp: number;
+  totalEq: number;
+  adjEq: number | null;
+  imr: number | null;
+  mmr: number | null;
+  mgnRatio: number | null;
+  upl: number | null;
+  positionCount: number;
+}
@@ -1,6 +1,10 @@
-import { Controller, Get, Post, Query, Body } from '@nestjs/common';
+import { Controller, Get, Post, Query, Body, BadRequestException } from '@nestjs/common';
 import { OkxSyncService } from './services/okx-sync.service';
 import { OkxApiService } from './services/okx-api.service';
+import { OkxIncrementalSyncService } from './services/okx-incremental-sync.service';
+import { OkxPositionMonitorService } from './services/okx-position-monitor.service';
+import { OkxPositionStoreService } from './services/okx-position-store.service';
+import { OkxPrivateWsService } from './services/okx-private-ws.service';
 import { SyncParams } from './interfaces/okx-trade.interface';
 
 @Controller('okx')
@@ -8,6 +12,10 @@ export class OkxIntegrationController {
   constructor(
     private readonly okxSyncService: OkxSyncService,
     private readonly okxApiService: OkxApiService,
+    private readonly okxIncrementalSyncService: OkxIncrementalSyncService,
+    private readonly okxPositionMonitorService: OkxPositionMonitorService,
+    private readonly okxPositionStoreService: OkxPositionStoreService,
+    private readonly okxPrivateWsService: OkxPrivateWsService,
   ) {}
 
   /**
@@ -62,8 +70,74 @@ export class OkxIntegrationController {
    * 获取同步统计信息
    */
   @Get('sync/stats')
-  async getSyncStats() {
-    return this.okxSyncService.getSyncStats();
+  async getSyncStats(@Query('runs') runs?: string) {
+    const runLimit = Math.min(Math.max(Number(runs) || 20, 1), 100);
+    return this.okxSyncService.getSyncStats(runLimit);
+  }
+
+  /**
+   * 立即执行一次增量同步（从上次同步的游标继续）
+   */
+  @Post('sync/incremental')
+  async syncIncremental() {
+    return this.okxIncrementalSyncService.runIncrementalSync('MANUAL');
+  }
+
+  /**
+   * 获取持仓监控状态（最近一次检查的持仓、账户和风险）
+   */
+  @Get('positions/monitor')
+  async getPositionMonitorStatus() {
+    return this.okxPositionMonitorService.getStatus();
+  }
+
+  /**
+   * 立即检查一次持仓风险
+   */
+  @Post('positions/check')
+  async checkPositions() {
+    try {
+      return await this.okxPositionMonitorService.checkPositions();
+    } catch (error: any) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  /**
+   * 获取持仓快照
+   */
+  @Get('positions/snapshots')
+  async getPositionSnapshots(
+    @Query('instId') instId?: string,
+    @Query('hours') hours?: string,
+  ) {
+    const since = Date.now() - this.parseHours(hours) * 60 * 60 * 1000;
+    return this.okxPositionStoreService.getPositionSnapshots(since, instId);
+  }
+
+  /**
+   * 获取账户快照
+   */
+  @Get('account/snapshots')
+  async getAccountSnapshots(@Query('hours') hours?: string) {
+    const since = Date.now() - this.parseHours(hours) * 60 * 60 * 1000;
+    return this.okxPositionStoreService.getAccountSnapshots(since);
+  }
+
+  /**
+   * 获取私有频道 WebSocket 连接状态
+   */
+  @Get('ws/status')
+  async getWebSocketStatus() {
+    return this.okxPrivateWsService.getStatus();
+  }
+
+  /**
+   * 重新连接私有频道 WebSocket
+   */
+  @Post('ws/reconnect')
+  async reconnectWebSocket() {
+    return this.okxPrivateWsService.reconnect();
   }
 
   /**
@@ -97,4 +171,11 @@ export class OkxIntegrationController {
       };
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * 解析查询的小时数，默认 24 小时，最多 30 天
+   */
+  private parseHours(hours?: string): number {
+    return Math.min(Math.max(Number(hours) || 24, 1), 24 * 30);
+  }
+}
@@ -3,23 +3,37 @@ import { OkxApiService } from './services/okx-api.service';
 import { OkxSyncService } from './services/okx-sync.service';
 import { TradeProcessorService } from './services/trade-processor.service';
 import { PendingOrderProcessorService } from './services/pending-order-processor.service';
+import { OkxSyncStoreService } from './services/okx-sync-store.service';
+import { OkxIncrementalSyncService } from './services/okx-incremental-sync.service';
+import { OkxPositionStoreService } from './services/okx-position-store.service';
+import { OkxPositionMonitorService } from './services/okx-position-monitor.service';
+import { OkxPrivateWsService } from './services/okx-private-ws.service';
 import { OkxIntegrationController } from './okx-integration.controller';
 import { TradingHistoryModule } from '../trading-history/trading-history.module';
+import { TradingAutomationModule } from '../trading-automation/trading-automation.module';
 
 @Module({
-  imports: [TradingHistoryModule],
+  imports: [TradingHistoryModule, TradingAutomationModule],
   controllers: [OkxIntegrationController],
   providers: [
     OkxApiService,
     OkxSyncService,
     TradeProcessorService,
     PendingOrderProcessorService,
+    OkxSyncStoreService,
+    OkxIncrementalSyncService,
+    OkxPositionStoreService,
+    OkxPositionMonitorService,
+    OkxPrivateWsService,
   ],
   exports: [
     OkxApiService,
     OkxSyncService,
     TradeProcessorService,
     PendingOrderProcessorService,
+    OkxIncrementalSyncService,
+    OkxPositionMonitorService,
+    OkxPrivateWsService,
   ],
 })
 export class OkxIntegrationModule {} 
\ No newline at end of file
@@ -10,9 +10,29 @@ import {
   OkxFillData,
   OkxPendingOrderData,
   OkxPositionData,
-  OkxDataResponse
+  OkxDataResponse,
+  OkxAccountBalanceData,
+  OkxAlgoOrderData,
+  OkxInstrumentData,
+  OkxPlaceOrderRequest,
+  OkxAmendOrderRequest,
+  OkxAmendAlgoRequest,
+  OkxOrderActionResult,
 } from '../interfaces/okx-trade.interface';
 
+/**
+ * OKX 接口返回的业务错误（请求已被 OKX 处理并明确拒绝）
+ */
+export class OkxApiError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+  ) {
+    super(message);
+    this.name = 'OkxApiError';
+  }
+}
+
 @Injectable()
 export class OkxApiService {
   private readonly logger = new Logger(OkxApiService.name);
@@ -27,6 +47,8 @@ export class OkxApiService {
       timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
+        // 模拟盘请求需要携带该请求头
+        ...(this.config.sandbox && { 'x-simulated-trading': '1' }),
       },
     });
 
@@ -288,6 +310,228 @@ export class OkxApiService {
     }
   }
 
+  /**
+   * 获取账户余额和保证金信息
+   */
+  async getAccountBalance(): Promise<OkxAccountBalanceData | null> {
+    try {
+      if (!this.isConfigured()) {
+        throw new Error('OKX API 配置不完整');
+      }
+
+      const response = await this.httpClient.get<OkxApiResponse<OkxAccountBalanceData>>(
+        '/api/v5/account/balance'
+      );
+
+      if (response.data.code === '0') {
+        return response.data.data[0] || null;
+      } else {
+        throw new Error(`OKX API 错误: ${response.data.msg}`);
+      }
+    } catch (error: any) {
+      this.logger.error('获取 OKX 账户余额失败:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未触发的止盈止损策略委托单
+   */
+  async getPendingAlgoOrders(params: SyncParams = {}): Promise<OkxAlgoOrderData[]> {
+    try {
+      if (!this.isConfigured()) {
+        throw new Error('OKX API 配置不完整');
+      }
+
+      const queryParams = {
+        instType: params.instType || 'SWAP',
+        ordType: 'conditional,oco', // 单向止盈止损和双向止盈止损可以一起查询
+        ...(params.after && { after: params.after }),
+        ...(params.before && { before: params.before }),
+      };
+
+      const response = await this.httpClient.get<OkxApiResponse<OkxAlgoOrderData>>(
+        '/api/v5/trade/orders-algo-pending',
+        { params: queryParams }
+      );
+
+      if (response.data.code === '0') {
+        return response.data.data;
+      } else {
+        throw new Error(`OKX API 错误: ${response.data.msg}`);
+      }
+    } catch (error: any) {
+      this.logger.error('获取 OKX 策略委托单失败:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取交易产品基础信息（合约面值、数量和价格精度）
+   */
+  async getInstrument(instId: string, instType: string = 'SWAP'): Promise<OkxInstrumentData | null> {
+    try {
+      const response = await this.httpClient.get<OkxApiResponse<OkxInstrumentData>>(
+        '/api/v5/public/instruments',
+        { params: { instType, instId } }
+      );
+
+      if (response.data.code === '0') {
+        return response.data.data[0] || null;
+      } else {
+        throw new Error(`OKX API 错误: ${response.data.msg}`);
+      }
+    } catch (error: any) {
+      this.logger.error(`获取 OKX 产品信息失败 (${instId}):`, error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取订单详情（按订单ID或客户自定义订单ID）
+   */
+  async getOrder(instId: string, params: { ordId?: string; clOrdId?: string }): Promise<OkxOrderData | null> {
+    try {
+      if (!this.isConfigured()) {
+        throw new Error('OKX API 配置不完整');
+      }
+
+      const queryParams = {
+        instId,
+        ...(params.ordId ? { ordId: params.ordId } : { clOrdId: params.clOrdId }),
+      };
+
+      const response = await this.httpClient.get<OkxApiResponse<OkxOrderData>>(
+        '/api/v5/trade/order',
+        { params: queryParams }
+      );
+
+      if (response.data.code === '0') {
+        return response.data.data[0] || null;
+      } else {
+        throw new OkxApiError(`OKX API 错误: ${response.data.msg}`, response.data.code);
+      }
+    } catch (error: any) {
+      this.logger.error(`获取 OKX 订单详情失败 (${params.ordId || params.clOrdId}):`, error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 设置杠杆倍数
+   */
+  async setLeverage(params: { instId: string; lever: string; mgnMode: string; posSide?: string }): Promise<void> {
+    try {
+      if (!this.isConfigured()) {
+        throw new Error('OKX API 配置不完整');
+      }
+
+      const response = await this.httpClient.post<OkxApiResponse<unknown>>(
+        '/api/v5/account/set-leverage',
+        params
+      );
+
+      if (response.data.code !== '0') {
+        throw new Error(`OKX API 错误: ${response.data.msg}`);
+      }
+    } catch (error: any) {
+      this.logger.error('设置 OKX 杠杆失败:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 下单（可附带止盈止损）
+   */
+  async placeOrder(params: OkxPlaceOrderRequest): Promise<OkxOrderActionResult> {
+    try {
+      if (!this.isConfigured()) {
+        throw new Error('OKX API 配置不完整');
+      }
+
+      this.logger.log(`OKX 下单，参数: ${JSON.stringify(params)}`);
+
+      const response = await this.httpClient.post<OkxApiResponse<OkxOrderActionResult>>(
+        '/api/v5/trade/order',
+        params
+      );
+
+      return this.unwrapActionResult(response.data);
+    } catch (error: any) {
+      this.logger.error('OKX 下单失败:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 修改未完成订单的价格、数量或附带的止盈止损
+   */
+  async amendOrder(params: OkxAmendOrderRequest): Promise<OkxOrderActionResult> {
+    try {
+      if (!this.isConfigured()) {
+        throw new Error('OKX API 配置不完整');
+      }
+
+      this.logger.log(`OKX 修改订单，参数: ${JSON.stringify(params)}`);
+
+      const response = await this.httpClient.post<OkxApiResponse<OkxOrderActionResult>>(
+        '/api/v5/trade/amend-order',
+        params
+      );
+
+      return this.unwrapActionResult(response.data);
+    } catch (error: any) {
+      this.logger.error('OKX 修改订单失败:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 修改已生效的止盈止损策略委托单
+   */
+  async amendAlgoOrder(params: OkxAmendAlgoRequest): Promise<OkxOrderActionResult> {
+    try {
+      if (!this.isConfigured()) {
+        throw new Error('OKX API 配置不完整');
+      }
+
+      this.logger.log(`OKX 修改止盈止损，参数: ${JSON.stringify(params)}`);
+
+      const response = await this.httpClient.post<OkxApiResponse<OkxOrderActionResult>>(
+        '/api/v5/trade/amend-algos',
+        params
+      );
+
+      return this.unwrapActionResult(response.data);
+    } catch (error: any) {
+      this.logger.error('OKX 修改止盈止损失败:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 撤销未完成订单（附带的止盈止损一并撤销）
+   */
+  async cancelOrder(instId: string, ordId: string): Promise<OkxOrderActionResult> {
+    try {
+      if (!this.isConfigured()) {
+        throw new Error('OKX API 配置不完整');
+      }
+
+      this.logger.log(`OKX 撤单: ${instId} ${ordId}`);
+
+      const response = await this.httpClient.post<OkxApiResponse<OkxOrderActionResult>>(
+        '/api/v5/trade/cancel-order',
+        { instId, ordId }
+      );
+
+      return this.unwrapActionResult(response.data);
+    } catch (error: any) {
+      this.logger.error('OKX 撤单失败:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
   /**
    * 获取完整的OKX数据（包括订单、成交明细、挂单、持仓）
    */
@@ -365,6 +609,19 @@ export class OkxApiService {
     }
   }
 
+  /**
+   * 解析下单、改单、撤单的结果，失败时抛出包含错误码的异常
+   */
+  private unwrapActionResult(response: OkxApiResponse<OkxOrderActionResult>): OkxOrderActionResult {
+    const result = response.data?.[0];
+    if (response.code !== '0' || !result || result.sCode !== '0') {
+      const code = result?.sCode || response.code;
+      const message = result?.sMsg || response.msg;
+      throw new OkxApiError(`OKX API 错误: ${message} (${code})`, code);
+    }
+    return result;
+  }
+
   /**
    * 为请求添加签名
    */
@@ -386,11 +643,8 @@ export class OkxApiService {
     // 构建请求体字符串
     const body = config.data ? JSON.stringify(config.data) : '';
 
-    // 构建签名字符串
-    const signString = timestamp + method + path + queryString + body;
-
-    // 使用 HMAC SHA256 签名
-    const signature = CryptoJS.HmacSHA256(signString, this.config.secretKey).toString(CryptoJS.enc.Base64);
+    // 构建签名字符串并签名
+    const signature = this.sign(timestamp + method + path + queryString + body);
 
     // 添加必要的请求头
     config.headers['OK-ACCESS-KEY'] = this.config.apiKey;
@@ -400,4 +654,25 @@ export class OkxApiService {
 
     return config;
   }
-} 
\ No newline at end of file
+
+  /**
+   * 生成私有 WebSocket 频道的登录参数
+   * 签名字符串为 timestamp + 'GET' + '/users/self/verify'，timestamp 为秒级时间戳
+   */
+  getWebSocketLoginArgs(): { apiKey: string; passphrase: string; timestamp: string; sign: string } {
+    const timestamp = (Date.now() / 1000).toFixed(3);
+    return {
+      apiKey: this.config.apiKey,
+      passphrase: this.config.passphrase,
+      timestamp,
+      sign: this.sign(timestamp + 'GET' + '/users/self/verify'),
+    };
+  }
+
+  /**
+   * 使用 HMAC SHA256 对签名字符串签名并进行 Base64 编码
+   */
+  private sign(prehash: string): string {
+    return CryptoJS.HmacSHA256(prehash, this.config.secretKey).toString(CryptoJS.enc.Base64);
+  }
+}
@@ -0,0 +1,434 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { OkxSyncConfig } from 'src/config/okx.config';
+import { TradingHistoryService } from 'src/modules/trading-history/trading-history.service';
+import { TradeStatus } from 'src/modules/trading-history/enums';
+import { OkxApiService } from './okx-api.service';
+import { OkxSyncService } from './okx-sync.service';
+import { OkxSyncStoreService } from './okx-sync-store.service';
+import { TradeProcessorService } from './trade-processor.service';
+import {
+  OkxFillData,
+  OkxInstTypeSyncResult,
+  OkxSyncCursorData,
+  OkxSyncRunData,
+  OkxSyncTrigger,
+  ProcessedTradeData,
+  SyncParams,
+} from '../interfaces/okx-trade.interface';
+
+/** OKX 成交明细接口单页最大数量 */
+const PAGE_SIZE = 100;
+
+/** /trade/fills 只保留近 3 天数据，留 1 小时余量后改用 /trade/fills-history */
+const RECENT_FILLS_WINDOW = 3 * 24 * 60 * 60 * 1000 - 60 * 60 * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * OKX 增量同步服务
+ * 按产品类型记录已处理的最新账单ID，定时只拉取游标之后的成交明细并写入交易记录
+ */
+@Injectable()
+export class OkxIncrementalSyncService {
+  private readonly logger = new Logger(OkxIncrementalSyncService.name);
+  private runningSync: Promise<OkxSyncRunData> | null = null;
+  private processingQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly okxApiService: OkxApiService,
+    private readonly okxSyncService: OkxSyncService,
+    private readonly okxSyncStoreService: OkxSyncStoreService,
+    private readonly tradeProcessorService: TradeProcessorService,
+    private readonly tradingHistoryService: TradingHistoryService,
+  ) {}
+
+  /**
+   * 定时增量同步成交明细
+   */
+  @Cron('0 */2 * * * *', {
+    name: 'okx-incremental-sync',
+    timeZone: 'Asia/Shanghai',
+  })
+  async scheduledSync(): Promise<void> {
+    const config = this.getConfig();
+    if (!config.enabled || !this.okxApiService.isConfigured()) {
+      return;
+    }
+
+    if (this.runningSync) {
+      this.logger.warn('上一次 OKX 增量同步尚未完成，跳过本次执行');
+      return;
+    }
+
+    try {
+      await this.runIncrementalSync('SCHEDULED');
+      await this.okxSyncStoreService.deleteRunsBefore(
+        new Date(Date.now() - config.runRetentionDays * DAY),
+      );
+    } catch (error) {
+      this.logger.error(`OKX 增量同步失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 执行一次增量同步，同步进行中时返回正在执行的同步
+   * @param trigger 触发方式
+   */
+  async runIncrementalSync(
+    trigger: OkxSyncTrigger = 'MANUAL',
+  ): Promise<OkxSyncRunData> {
+    if (this.runningSync) {
+      return this.runningSync;
+    }
+
+    this.runningSync = this.executeSync(trigger);
+    try {
+      return await this.runningSync;
+    } finally {
+      this.runningSync = null;
+    }
+  }
+
+  /**
+   * 是否有同步正在执行
+   */
+  isSyncing(): boolean {
+    return this.runningSync !== null;
+  }
+
+  private async executeSync(trigger: OkxSyncTrigger): Promise<OkxSyncRunData> {
+    const config = this.getConfig();
+    const startedAt = new Date();
+    const details: OkxInstTypeSyncResult[] = [];
+    const errors: string[] = [];
+
+    if (!this.okxApiService.isConfigured()) {
+      errors.push('OKX API 配置不完整，请检查环境变量');
+    } else {
+      for (const instType of config.instTypes) {
+        const result = await this.syncInstType(
+          instType,
+          config,
+          startedAt.getTime(),
+        );
+        details.push(result);
+        errors.push(...result.errors.map((error) => `[${instType}] ${error}`));
+      }
+    }
+
+    const finishedAt = new Date();
+    const sum = (
+      key: 'fetchedCount' | 'processedCount' | 'createdCount' | 'updatedCount',
+    ) => details.reduce((total, detail) => total + detail[key], 0);
+    const failedCount = details.filter(
+      (detail) => detail.errors.length > 0 && detail.fetchedCount === 0,
+    ).length;
+
+    const run: OkxSyncRunData = {
+      trigger,
+      status:
+        errors.length === 0
+          ? 'SUCCESS'
+          : details.length === 0 || failedCount === details.length
+            ? 'FAILED'
+            : 'PARTIAL',
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      fetchedCount: sum('fetchedCount'),
+      processedCount: sum('processedCount'),
+      createdCount: sum('createdCount'),
+      updatedCount: sum('updatedCount'),
+      errorCount: errors.length,
+      errors,
+      details,
+    };
+
+    run.id = await this.okxSyncStoreService.saveRun(run);
+
+    if (run.fetchedCount > 0 || errors.length > 0) {
+      this.logger.log(
+        `OKX 增量同步完成(${trigger}): 拉取 ${run.fetchedCount} 笔成交，新增 ${run.createdCount}，更新 ${run.updatedCount}，错误 ${run.errorCount}，耗时 ${run.durationMs}ms`,
+      );
+    }
+
+    return run;
+  }
+
+  /**
+   * 同步单个产品类型：拉取游标之后的成交明细，与未平仓交易的成交合并后重新生成交易记录
+   */
+  private async syncInstType(
+    instType: string,
+    config: OkxSyncConfig,
+    now: number,
+  ): Promise<OkxInstTypeSyncResult> {
+    const cursor = await this.okxSyncStoreService.getCursor(instType);
+    const useArchive =
+      !cursor?.lastFillTime || now - cursor.lastFillTime > RECENT_FILLS_WINDOW;
+
+    const result: OkxInstTypeSyncResult = {
+      instType,
+      source: useArchive ? 'fills-history' : 'fills',
+      fetchedCount: 0,
+      pages: 0,
+      truncated: false,
+      fromBillId: cursor?.lastBillId ?? null,
+      toBillId: cursor?.lastBillId ?? null,
+      processedCount: 0,
+      createdCount: 0,
+      updatedCount: 0,
+      errors: [],
+    };
+
+    let fills: OkxFillData[];
+    try {
+      fills = await this.fetchNewFills(
+        instType,
+        cursor,
+        useArchive,
+        config,
+        now,
+        result,
+      );
+    } catch (error) {
+      result.errors.push(`拉取成交明细失败: ${error.message}`);
+      return result;
+    }
+
+    result.fetchedCount = fills.length;
+    if (result.truncated) {
+      result.errors.push(
+        cursor?.lastBillId
+          ? `达到单次同步页数上限 ${config.maxPages}，剩余成交明细将在下次同步继续拉取`
+          : `达到单次同步页数上限 ${config.maxPages}，回溯时间内较早的成交明细未同步`,
+      );
+    }
+
+    if (fills.length === 0) {
+      // 首次同步没有成交时也记录时间游标，避免每次都回溯历史档案
+      if (!cursor?.lastBillId) {
+        await this.okxSyncStoreService.saveCursor({
+          instType,
+          lastBillId: null,
+          lastTradeId: null,
+          lastFillTime: now,
+        });
+      }
+      return result;
+    }
+
+    try {
+      const processResult = await this.processFills(fills);
+      result.processedCount = processResult.trades.length;
+      result.createdCount = processResult.created;
+      result.updatedCount = processResult.updated;
+      result.errors.push(...processResult.errors);
+    } catch (error) {
+      result.errors.push(`处理成交明细失败: ${error.message}`);
+    }
+
+    // 成交明细已拉取，即使个别交易保存失败也推进游标，失败原因记录在运行日志中
+    const latest = fills.reduce((max, fill) =>
+      this.compareBillId(fill.billId, max.billId) > 0 ? fill : max,
+    );
+    await this.okxSyncStoreService.saveCursor({
+      instType,
+      lastBillId: latest.billId,
+      lastTradeId: latest.tradeId,
+      lastFillTime: parseInt(latest.ts),
+    });
+    result.toBillId = latest.billId;
+
+    return result;
+  }
+
+  /**
+   * 拉取游标之后的成交明细
+   * 有账单游标时用 before 从游标处向新翻页，达到页数上限时下次同步从本次拉取到的最新账单继续；
+   * 首次同步没有账单游标，从最新一页开始用 after 向旧翻页，直到超出回溯时间
+   */
+  private async fetchNewFills(
+    instType: string,
+    cursor: OkxSyncCursorData | null,
+    useArchive: boolean,
+    config: OkxSyncConfig,
+    now: number,
+    result: OkxInstTypeSyncResult,
+  ): Promise<OkxFillData[]> {
+    const fetchPage = (params: SyncParams) =>
+      useArchive
+        ? this.okxApiService.getTradeHistoryArchive(params)
+        : this.okxApiService.getTradeHistory(params);
+    const fills = new Map<string, OkxFillData>();
+
+    if (cursor?.lastBillId) {
+      let before = cursor.lastBillId;
+
+      while (true) {
+        if (result.pages >= config.maxPages) {
+          result.truncated = true;
+          break;
+        }
+
+        const page = await fetchPage({ instType, limit: PAGE_SIZE, before });
+        result.pages++;
+
+        const fresh = page.filter(
+          (fill) => this.compareBillId(fill.billId, before) > 0,
+        );
+        fresh.forEach((fill) => fills.set(fill.billId, fill));
+
+        if (page.length < PAGE_SIZE || fresh.length === 0) {
+          break;
+        }
+
+        before = fresh.reduce((max, fill) =>
+          this.compareBillId(fill.billId, max.billId) > 0 ? fill : max,
+        ).billId;
+      }
+
+      return Array.from(fills.values());
+    }
+
+    // 没有账单游标时按时间下限过滤：首次同步回溯配置的天数
+    const minTime =
+      cursor?.lastFillTime ?? now - config.initialLookbackDays * DAY;
+    let after: string | undefined;
+
+    while (true) {
+      if (result.pages >= config.maxPages) {
+        result.truncated = true;
+        break;
+      }
+
+      const page = await fetchPage({
+        instType,
+        limit: PAGE_SIZE,
+        ...(after && { after }),
+      });
+      result.pages++;
+
+      const fresh = page.filter((fill) => parseInt(fill.ts) >= minTime);
+      fresh.forEach((fill) => fills.set(fill.billId, fill));
+
+      if (page.length < PAGE_SIZE || fresh.length < page.length) {
+        break;
+      }
+
+      after = page.reduce((min, fill) =>
+        this.compareBillId(fill.billId, min.billId) < 0 ? fill : min,
+      ).billId;
+    }
+
+    return Array.from(fills.values());
+  }
+
+  /**
+   * 处理成交明细并写入交易记录
+   * 定时同步和 WebSocket 推送共用，按调用顺序串行执行，避免同一交易被重复创建
+   * @param fills 新的成交明细
+   */
+  async processFills(fills: OkxFillData[]): Promise<{
+    trades: ProcessedTradeData[];
+    created: number;
+    updated: number;
+    errors: string[];
+  }> {
+    const task = this.processingQueue.then(() => this.applyFills(fills));
+    this.processingQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async applyFills(fills: OkxFillData[]) {
+    const mergedFills = await this.mergeKnownTradeFills(fills);
+    if (mergedFills.length === 0) {
+      return { trades: [], created: 0, updated: 0, errors: [] };
+    }
+
+    const trades =
+      await this.tradeProcessorService.processFillData(mergedFills);
+    const saveResults = await this.okxSyncService.saveTradesToDatabase(trades);
+    return { trades, ...saveResults };
+  }
+
+  /**
+   * 合并未平仓交易已有的成交明细，使新成交归入原有交易而不是生成新的交易记录；
+   * 已计入已平仓交易的成交（如先由 WebSocket 推送、后被定时同步拉取）直接跳过
+   */
+  private async mergeKnownTradeFills(
+    fills: OkxFillData[],
+  ): Promise<OkxFillData[]> {
+    const fillKey = (fill: OkxFillData) => `${fill.instId}:${fill.tradeId}`;
+
+    const [openTrades, closedTrades] = await Promise.all([
+      this.tradingHistoryService.findAll({
+        page: 1,
+        limit: 200,
+        status: TradeStatus.OPEN,
+      }),
+      this.tradingHistoryService.findAll({
+        page: 1,
+        limit: 200,
+        status: TradeStatus.CLOSED,
+        sortBy: 'updatedAt',
+      }),
+    ]);
+
+    const closedFillKeys = new Set(
+      closedTrades.data.flatMap((trade) =>
+        this.parseTradeFills(trade.rawData).map(fillKey),
+      ),
+    );
+    const freshFills = fills.filter(
+      (fill) => !closedFillKeys.has(fillKey(fill)),
+    );
+    if (freshFills.length === 0) {
+      return [];
+    }
+
+    const instIds = new Set(freshFills.map((fill) => fill.instId));
+    const merged = new Map<string, OkxFillData>();
+    for (const trade of openTrades.data) {
+      for (const fill of this.parseTradeFills(trade.rawData)) {
+        if (instIds.has(fill.instId)) {
+          merged.set(fillKey(fill), fill);
+        }
+      }
+    }
+
+    freshFills.forEach((fill) => merged.set(fillKey(fill), fill));
+    return Array.from(merged.values());
+  }
+
+  /**
+   * 解析交易记录中保存的成交明细（只有由成交明细生成的交易 rawData 为成交明细数组）
+   */
+  private parseTradeFills(rawData: string | null): OkxFillData[] {
+    if (!rawData) return [];
+
+    try {
+      const rawFills = JSON.parse(rawData);
+      return Array.isArray(rawFills)
+        ? rawFills.filter((fill) => fill?.tradeId && fill.instId)
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 比较 OKX 账单ID（数字字符串，随时间递增）
+   */
+  private compareBillId(a: string, b: string): number {
+    const diff = BigInt(a) - BigInt(b);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  }
+
+  private getConfig(): OkxSyncConfig {
+    return this.configService.get<OkxSyncConfig>('okx.sync')!;
+  }
+}
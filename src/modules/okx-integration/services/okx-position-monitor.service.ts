@@ -0,0 +1,513 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { OkxPositionMonitorConfig } from 'src/config/okx.config';
+import { TradingNotificationService } from 'src/modules/trading-automation/services/trading-notification.service';
+import { OkxApiService } from './okx-api.service';
+import { OkxPositionStoreService } from './okx-position-store.service';
+import {
+  OkxAccountBalanceData,
+  OkxAlgoOrderData,
+  OkxPositionData,
+} from '../interfaces/okx-trade.interface';
+import {
+  MonitoredAccount,
+  MonitoredPosition,
+  PositionMonitorStatus,
+  PositionRiskAlert,
+  PositionRiskType,
+} from '../interfaces/position-monitor.interface';
+
+/** 快照采样周期：5 分钟 */
+const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * OKX 持仓监控服务
+ * 定时拉取持仓、账户余额和止盈止损委托，记录快照并在出现风险时发送 Telegram 告警
+ */
+@Injectable()
+export class OkxPositionMonitorService {
+  private readonly logger = new Logger(OkxPositionMonitorService.name);
+  private isChecking = false;
+  private lastCheckAt: number | null = null;
+  private lastError: string | null = null;
+  private lastSnapshotAt = 0;
+  private account: MonitoredAccount | null = null;
+  private positions: MonitoredPosition[] = [];
+  private activeRisks: PositionRiskAlert[] = [];
+  // 各持仓保证金率的基准值，用于判断回看时间内的恶化幅度
+  private readonly marginRatioBaselines = new Map<
+    string,
+    { ratio: number; recordedAt: number }
+  >();
+  // 各持仓各类告警的最近发送时间
+  private readonly lastAlertTimes = new Map<string, number>();
+  // 最近一次拉取或推送的原始数据，WebSocket 推送持仓时复用余额和委托
+  private readonly rawPositions = new Map<string, OkxPositionData>();
+  private lastBalance: OkxAccountBalanceData | null = null;
+  private lastAlgoOrders: OkxAlgoOrderData[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly okxApiService: OkxApiService,
+    private readonly okxPositionStoreService: OkxPositionStoreService,
+    private readonly tradingNotificationService: TradingNotificationService,
+  ) {}
+
+  /**
+   * 定时检查持仓风险
+   */
+  @Cron('*/30 * * * * *', {
+    name: 'okx-position-monitor',
+    timeZone: 'Asia/Shanghai',
+  })
+  async scheduledCheck(): Promise<void> {
+    if (!this.getConfig().enabled || !this.okxApiService.isConfigured()) {
+      return;
+    }
+
+    if (this.isChecking) {
+      this.logger.warn('上一次持仓风险检查尚未完成，跳过本次执行');
+      return;
+    }
+
+    try {
+      await this.checkPositions();
+    } catch (error) {
+      this.logger.error(`持仓风险检查失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 拉取持仓和账户数据并检查风险
+   */
+  async checkPositions(): Promise<PositionMonitorStatus> {
+    if (!this.okxApiService.isConfigured()) {
+      throw new Error('OKX API 配置不完整，请检查环境变量');
+    }
+
+    if (this.isChecking) {
+      return this.getStatus();
+    }
+
+    this.isChecking = true;
+    try {
+      const config = this.getConfig();
+      const [positionGroups, algoOrderGroups, balance] = await Promise.all([
+        Promise.all(
+          config.instTypes.map((instType) =>
+            this.okxApiService.getAccountPositions({ instType }),
+          ),
+        ),
+        Promise.all(
+          config.instTypes.map((instType) =>
+            this.okxApiService.getPendingAlgoOrders({ instType }),
+          ),
+        ),
+        this.okxApiService.getAccountBalance(),
+      ]);
+
+      const positions = positionGroups.flat();
+      this.rawPositions.clear();
+      positions.forEach((position) =>
+        this.rawPositions.set(this.getPositionKey(position), position),
+      );
+      this.lastBalance = balance;
+      this.lastAlgoOrders = algoOrderGroups.flat();
+
+      await this.processUpdate(positions, balance, this.lastAlgoOrders);
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error.message;
+      throw error;
+    } finally {
+      this.isChecking = false;
+    }
+
+    return this.getStatus();
+  }
+
+  /**
+   * 处理 WebSocket 推送的持仓变化
+   * 推送可能只包含发生变化的持仓，与已知持仓合并后再评估；持仓数量为 0 表示已平仓
+   * @param pushed 推送的持仓数据
+   */
+  async processPositionPush(
+    pushed: OkxPositionData[],
+  ): Promise<PositionRiskAlert[]> {
+    const instTypes = this.getConfig().instTypes;
+    for (const position of pushed) {
+      if (!instTypes.includes(position.instType)) continue;
+
+      const key = this.getPositionKey(position);
+      if (this.toNumber(position.pos)) {
+        this.rawPositions.set(key, position);
+      } else {
+        this.rawPositions.delete(key);
+      }
+    }
+
+    return this.processUpdate(
+      Array.from(this.rawPositions.values()),
+      this.lastBalance,
+      this.lastAlgoOrders,
+    );
+  }
+
+  /**
+   * 根据最新的持仓、余额和委托数据评估风险、记录快照并发送告警
+   * @param rawPositions OKX 持仓数据
+   * @param balance OKX 账户余额
+   * @param algoOrders 未触发的止盈止损委托
+   */
+  async processUpdate(
+    rawPositions: OkxPositionData[],
+    balance: OkxAccountBalanceData | null,
+    algoOrders: OkxAlgoOrderData[],
+  ): Promise<PositionRiskAlert[]> {
+    const config = this.getConfig();
+    const now = Date.now();
+
+    const positions = rawPositions
+      .filter((position) => this.toNumber(position.pos))
+      .map((position) => this.toMonitoredPosition(position, algoOrders));
+    const account = balance ? this.toMonitoredAccount(balance) : null;
+
+    const risks = positions.flatMap((position) =>
+      this.evaluatePosition(position, config, now),
+    );
+
+    this.positions = positions;
+    this.account = account;
+    this.activeRisks = risks;
+    this.lastCheckAt = now;
+    this.cleanupClosedPositions(positions);
+
+    const alerts = risks.filter((risk) => this.shouldAlert(risk, config, now));
+    if (alerts.length > 0) {
+      const sent =
+        await this.tradingNotificationService.sendPositionRiskNotification(
+          alerts,
+        );
+      if (sent) {
+        alerts.forEach((alert) =>
+          this.lastAlertTimes.set(this.getAlertKey(alert), now),
+        );
+      }
+    }
+
+    await this.saveSnapshotIfDue(positions, account, config, now);
+
+    return alerts;
+  }
+
+  /**
+   * 获取监控状态
+   */
+  getStatus(): PositionMonitorStatus {
+    return {
+      enabled: this.getConfig().enabled,
+      configured: this.okxApiService.isConfigured(),
+      isChecking: this.isChecking,
+      lastCheckAt: this.lastCheckAt,
+      lastError: this.lastError,
+      account: this.account,
+      positions: this.positions,
+      activeRisks: this.activeRisks,
+    };
+  }
+
+  /**
+   * 评估单个持仓的风险
+   */
+  private evaluatePosition(
+    position: MonitoredPosition,
+    config: OkxPositionMonitorConfig,
+    now: number,
+  ): PositionRiskAlert[] {
+    const risks: PositionRiskAlert[] = [];
+    const createRisk = (
+      type: PositionRiskType,
+      level: PositionRiskAlert['level'],
+      description: string,
+    ): PositionRiskAlert => ({
+      type,
+      level,
+      instId: position.instId,
+      posSide: position.posSide,
+      description,
+      position,
+      timestamp: now,
+    });
+
+    // 1. 接近强平价
+    const distance = position.liquidationDistancePercent;
+    if (distance !== null && distance <= config.liquidationProximityPercent) {
+      risks.push(
+        createRisk(
+          'LIQUIDATION_PROXIMITY',
+          distance <= config.liquidationProximityPercent / 2
+            ? 'critical'
+            : 'warning',
+          `标记价距强平价 ${position.liqPx} 仅 ${distance.toFixed(2)}%`,
+        ),
+      );
+    }
+
+    // 2. 未实现亏损超过阈值（相对保证金）
+    const lossPercent = -position.uplRatio * 100;
+    if (lossPercent >= config.unrealizedLossPercent) {
+      risks.push(
+        createRisk(
+          'UNREALIZED_LOSS',
+          lossPercent >= config.unrealizedLossPercent * 2
+            ? 'critical'
+            : 'warning',
+          `未实现亏损 ${position.upl.toFixed(2)}，占保证金 ${lossPercent.toFixed(2)}%`,
+        ),
+      );
+    }
+
+    // 3. 保证金率低于阈值或较基准值明显下降
+    // 基准值取回看时间内的最高保证金率，告警后或超过回看时间才重新取基准，
+    // 避免逐次比较相邻采样导致持续缓慢下降无法触发
+    const positionKey = this.getPositionKey(position);
+    const marginRatio = position.mgnRatio;
+    if (marginRatio !== null) {
+      let baseline = this.marginRatioBaselines.get(positionKey);
+      if (
+        !baseline ||
+        marginRatio > baseline.ratio ||
+        now - baseline.recordedAt >=
+          config.marginRatioDropWindowMinutes * 60 * 1000
+      ) {
+        baseline = { ratio: marginRatio, recordedAt: now };
+        this.marginRatioBaselines.set(positionKey, baseline);
+      }
+
+      if (marginRatio < config.marginRatioThreshold) {
+        risks.push(
+          createRisk(
+            'MARGIN_RATIO',
+            marginRatio < config.marginRatioThreshold / 2
+              ? 'critical'
+              : 'warning',
+            `保证金率 ${marginRatio.toFixed(2)} 低于 ${config.marginRatioThreshold}（≤1 时强平）`,
+          ),
+        );
+      } else if (baseline.ratio > 0) {
+        const dropPercent =
+          ((baseline.ratio - marginRatio) / baseline.ratio) * 100;
+        if (dropPercent >= config.marginRatioDropPercent) {
+          risks.push(
+            createRisk(
+              'MARGIN_RATIO',
+              'warning',
+              `保证金率 ${config.marginRatioDropWindowMinutes} 分钟内从 ${baseline.ratio.toFixed(2)} 降至 ${marginRatio.toFixed(2)}，下降 ${dropPercent.toFixed(1)}%`,
+            ),
+          );
+          this.marginRatioBaselines.set(positionKey, {
+            ratio: marginRatio,
+            recordedAt: now,
+          });
+        }
+      }
+    }
+
+    // 4. 开仓超过宽限时间仍未设置止损
+    if (
+      position.stopLossPrice === null &&
+      now - position.openedAt >= config.stopLossGraceSeconds * 1000
+    ) {
+      risks.push(
+        createRisk(
+          'MISSING_STOP_LOSS',
+          'warning',
+          `持仓 ${position.size} 张已开仓 ${Math.round((now - position.openedAt) / 60000)} 分钟，未找到止损委托`,
+        ),
+      );
+    }
+
+    return risks;
+  }
+
+  /**
+   * 判断风险是否需要发送告警（同一持仓同类告警在冷却时间内只发送一次）
+   */
+  private shouldAlert(
+    risk: PositionRiskAlert,
+    config: OkxPositionMonitorConfig,
+    now: number,
+  ): boolean {
+    const lastAlertAt = this.lastAlertTimes.get(this.getAlertKey(risk));
+    return (
+      lastAlertAt === undefined ||
+      now - lastAlertAt >= config.alertCooldownMinutes * 60 * 1000
+    );
+  }
+
+  /**
+   * 按采样周期记录快照，并清理过期快照
+   */
+  private async saveSnapshotIfDue(
+    positions: MonitoredPosition[],
+    account: MonitoredAccount | null,
+    config: OkxPositionMonitorConfig,
+    now: number,
+  ): Promise<void> {
+    const timestamp = Math.floor(now / SNAPSHOT_INTERVAL) * SNAPSHOT_INTERVAL;
+    if (timestamp === this.lastSnapshotAt) {
+      return;
+    }
+
+    try {
+      await this.okxPositionStoreService.saveSnapshots(
+        timestamp,
+        positions,
+        account,
+      );
+      await this.okxPositionStoreService.deleteBefore(
+        now - config.snapshotRetentionDays * DAY,
+      );
+      this.lastSnapshotAt = timestamp;
+    } catch (error) {
+      this.logger.error(`保存持仓快照失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 清理已平仓持仓的保证金率和告警记录
+   */
+  private cleanupClosedPositions(positions: MonitoredPosition[]): void {
+    const openKeys = new Set(
+      positions.map((position) => this.getPositionKey(position)),
+    );
+
+    for (const key of this.marginRatioBaselines.keys()) {
+      if (!openKeys.has(key)) {
+        this.marginRatioBaselines.delete(key);
+      }
+    }
+
+    for (const key of this.lastAlertTimes.keys()) {
+      if (!openKeys.has(key.slice(0, key.lastIndexOf(':')))) {
+        this.lastAlertTimes.delete(key);
+      }
+    }
+  }
+
+  private toMonitoredPosition(
+    position: OkxPositionData,
+    algoOrders: OkxAlgoOrderData[],
+  ): MonitoredPosition {
+    const pos = this.toNumber(position.pos) ?? 0;
+    const direction =
+      position.posSide === 'long' || (position.posSide === 'net' && pos > 0)
+        ? 'LONG'
+        : 'SHORT';
+    const markPx = this.toNumber(position.markPx);
+    const liqPx = this.toNumber(position.liqPx);
+
+    return {
+      instType: position.instType,
+      instId: position.instId,
+      posId: position.posId,
+      posSide: position.posSide,
+      mgnMode: position.mgnMode || null,
+      direction,
+      size: Math.abs(pos),
+      avgPx: this.toNumber(position.avgPx) ?? 0,
+      markPx,
+      liqPx,
+      lever: this.toNumber(position.lever),
+      upl: this.toNumber(position.upl) ?? 0,
+      uplRatio: this.toNumber(position.uplRatio) ?? 0,
+      margin: this.toNumber(position.margin) ?? this.toNumber(position.imr),
+      mgnRatio: this.toNumber(position.mgnRatio),
+      notionalUsd: this.toNumber(position.notionalUsd),
+      liquidationDistancePercent:
+        markPx && liqPx && liqPx > 0
+          ? (Math.abs(markPx - liqPx) / markPx) * 100
+          : null,
+      stopLossPrice: this.findStopLossPrice(
+        position,
+        direction,
+        markPx,
+        algoOrders,
+      ),
+      openedAt: parseInt(position.cTime) || Date.now(),
+    };
+  }
+
+  private toMonitoredAccount(balance: OkxAccountBalanceData): MonitoredAccount {
+    return {
+      totalEq: this.toNumber(balance.totalEq) ?? 0,
+      adjEq: this.toNumber(balance.adjEq),
+      imr: this.toNumber(balance.imr),
+      mmr: this.toNumber(balance.mmr),
+      mgnRatio: this.toNumber(balance.mgnRatio),
+      upl: this.toNumber(balance.upl),
+      updatedAt: parseInt(balance.uTime) || Date.now(),
+    };
+  }
+
+  /**
+   * 查找持仓对应的止损触发价：持仓附带的止盈止损或与持仓方向相反的止损委托
+   * 多个止损时取离标记价最近的一个
+   */
+  private findStopLossPrice(
+    position: OkxPositionData,
+    direction: 'LONG' | 'SHORT',
+    markPx: number | null,
+    algoOrders: OkxAlgoOrderData[],
+  ): number | null {
+    const closeSide = direction === 'LONG' ? 'sell' : 'buy';
+    const prices = [
+      ...(position.closeOrderAlgo || []).map((algo) =>
+        this.toNumber(algo.slTriggerPx),
+      ),
+      ...algoOrders
+        .filter(
+          (order) =>
+            order.instId === position.instId &&
+            order.side === closeSide &&
+            (order.posSide === position.posSide || order.posSide === 'net'),
+        )
+        .map((order) => this.toNumber(order.slTriggerPx)),
+    ].filter((price): price is number => price !== null && price > 0);
+
+    if (prices.length === 0) {
+      return null;
+    }
+    if (markPx === null) {
+      return prices[0];
+    }
+    return prices.reduce((closest, price) =>
+      Math.abs(price - markPx) < Math.abs(closest - markPx) ? price : closest,
+    );
+  }
+
+  private getPositionKey(position: { posId: string; posSide: string }): string {
+    return `${position.posId}:${position.posSide}`;
+  }
+
+  private getAlertKey(alert: PositionRiskAlert): string {
+    return `${this.getPositionKey(alert.position)}:${alert.type}`;
+  }
+
+  private toNumber(value: string | undefined): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    const num = parseFloat(value);
+    return Number.isFinite(num) ? num : null;
+  }
+
+  private getConfig(): OkxPositionMonitorConfig {
+    return this.configService.get<OkxPositionMonitorConfig>(
+      'okx.positionMonitor',
+    )!;
+  }
+}
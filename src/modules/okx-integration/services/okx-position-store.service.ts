@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common';
+import { OkxAccountSnapshot, OkxPositionSnapshot } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  AccountSnapshotView,
+  MonitoredAccount,
+  MonitoredPosition,
+  PositionSnapshotView,
+} from '../interfaces/position-monitor.interface';
+
+/**
+ * OKX 持仓快照存储服务
+ * 负责持仓和账户快照的读写，为持仓监控提供历史序列
+ */
+@Injectable()
+export class OkxPositionStoreService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 保存持仓和账户快照，同一采样时间只保留首次写入的数据
+   * @param timestamp 采样时间（毫秒）
+   * @param positions 持仓列表
+   * @param account 账户概况
+   */
+  async saveSnapshots(
+    timestamp: number,
+    positions: MonitoredPosition[],
+    account: MonitoredAccount | null,
+  ): Promise<number> {
+    const result = await this.prisma.okxPositionSnapshot.createMany({
+      data: positions.map((position) => ({
+        timestamp: BigInt(timestamp),
+        instType: position.instType,
+        instId: position.instId,
+        posId: position.posId,
+        posSide: position.posSide,
+        mgnMode: position.mgnMode,
+        pos: position.size,
+        avgPx: position.avgPx,
+        markPx: position.markPx,
+        liqPx: position.liqPx,
+        lever: position.lever,
+        upl: position.upl,
+        uplRatio: position.uplRatio,
+        margin: position.margin,
+        mgnRatio: position.mgnRatio,
+        notionalUsd: position.notionalUsd,
+        hasStopLoss: position.stopLossPrice !== null,
+      })),
+      skipDuplicates: true,
+    });
+
+    if (account) {
+      await this.prisma.okxAccountSnapshot.createMany({
+        data: [
+          {
+            timestamp: BigInt(timestamp),
+            totalEq: account.totalEq,
+            adjEq: account.adjEq,
+            imr: account.imr,
+            mmr: account.mmr,
+            mgnRatio: account.mgnRatio,
+            upl: account.upl,
+            positionCount: positions.length,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    }
+
+    return result.count;
+  }
+
+  /**
+   * 获取持仓快照
+   * @param since 起始时间（毫秒）
+   * @param instId 产品ID，不传则返回所有产品
+   */
+  async getPositionSnapshots(
+    since: number,
+    instId?: string,
+  ): Promise<PositionSnapshotView[]> {
+    const records = await this.prisma.okxPositionSnapshot.findMany({
+      where: {
+        timestamp: { gte: BigInt(since) },
+        ...(instId && { instId }),
+      },
+      orderBy: { timestamp: 'asc' },
+    });
+    return records.map((record) => this.toPositionSnapshot(record));
+  }
+
+  /**
+   * 获取账户快照
+   * @param since 起始时间（毫秒）
+   */
+  async getAccountSnapshots(since: number): Promise<AccountSnapshotView[]> {
+    const records = await this.prisma.okxAccountSnapshot.findMany({
+      where: { timestamp: { gte: BigInt(since) } },
+      orderBy: { timestamp: 'asc' },
+    });
+    return records.map((record) => this.toAccountSnapshot(record));
+  }
+
+  /**
+   * 删除指定时间之前的快照
+   * @param before 时间（毫秒）
+   */
+  async deleteBefore(before: number): Promise<number> {
+    const [positions, accounts] = await Promise.all([
+      this.prisma.okxPositionSnapshot.deleteMany({
+        where: { timestamp: { lt: BigInt(before) } },
+      }),
+      this.prisma.okxAccountSnapshot.deleteMany({
+        where: { timestamp: { lt: BigInt(before) } },
+      }),
+    ]);
+    return positions.count + accounts.count;
+  }
+
+  private toPositionSnapshot(
+    record: OkxPositionSnapshot,
+  ): PositionSnapshotView {
+    const toNumber = (value: unknown) =>
+      value !== null ? Number(value) : null;
+    return {
+      timestamp: Number(record.timestamp),
+      instType: record.instType,
+      instId: record.instId,
+      posSide: record.posSide,
+      mgnMode: record.mgnMode,
+      size: Number(record.pos),
+      avgPx: Number(record.avgPx),
+      markPx: toNumber(record.markPx),
+      liqPx: toNumber(record.liqPx),
+      lever: toNumber(record.lever),
+      upl: Number(record.upl),
+      uplRatio: Number(record.uplRatio),
+      margin: toNumber(record.margin),
+      mgnRatio: toNumber(record.mgnRatio),
+      notionalUsd: toNumber(record.notionalUsd),
+      hasStopLoss: record.hasStopLoss,
+    };
+  }
+
+  private toAccountSnapshot(record: OkxAccountSnapshot): AccountSnapshotView {
+    const toNumber = (value: unknown) =>
+      value !== null ? Number(value) : null;
+    return {
+      timestamp: Number(record.timestamp),
+      totalEq: Number(record.totalEq),
+      adjEq: toNumber(record.adjEq),
+      imr: toNumber(record.imr),
+      mmr: toNumber(record.mmr),
+      mgnRatio: toNumber(record.mgnRatio),
+      upl: toNumber(record.upl),
+      positionCount: record.positionCount,
+    };
+  }
+}
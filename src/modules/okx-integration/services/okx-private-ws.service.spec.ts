@@ -0,0 +1,294 @@
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import * as WebSocket from 'ws';
+import { ConfigService } from '@nestjs/config';
+import { TradingNotificationService } from 'src/modules/trading-automation/services/trading-notification.service';
+import { OkxApiService } from './okx-api.service';
+import { OkxIncrementalSyncService } from './okx-incremental-sync.service';
+import { OkxPositionMonitorService } from './okx-position-monitor.service';
+import { OkxPrivateWsService } from './okx-private-ws.service';
+
+/** 客户端发往服务端的登录、订阅请求 */
+interface ClientMessage {
+  op: 'login' | 'subscribe';
+  args: Record<string, string>[];
+}
+
+const waitFor = async (
+  predicate: () => boolean,
+  timeout = 3000,
+): Promise<void> => {
+  const startedAt = Date.now();
+  while (!predicate()) {
+    if (Date.now() - startedAt > timeout) {
+      throw new Error('等待条件超时');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+const orderPush = (overrides: Record<string, string> = {}) => ({
+  arg: { channel: 'orders', instType: 'SWAP', uid: '1' },
+  data: [
+    {
+      instType: 'SWAP',
+      instId: 'BTC-USDT-SWAP',
+      ordId: '1001',
+      clOrdId: '',
+      tag: '',
+      px: '',
+      sz: '2',
+      ordType: 'market',
+      side: 'buy',
+      posSide: 'long',
+      tdMode: 'cross',
+      accFillSz: '2',
+      fillPx: '65000.5',
+      tradeId: 't-1',
+      fillSz: '2',
+      fillTime: '1754450000000',
+      fillFee: '-0.65',
+      fillFeeCcy: 'USDT',
+      fillPnl: '0',
+      state: 'filled',
+      avgPx: '65000.5',
+      lever: '10',
+      feeCcy: 'USDT',
+      fee: '-0.65',
+      uTime: '1754450000000',
+      cTime: '1754449999000',
+      ...overrides,
+    },
+  ],
+});
+
+describe('OkxPrivateWsService', () => {
+  const secretKey = 'test-secret';
+  let server: WebSocket.Server;
+  let serverSockets: WebSocket[];
+  let received: ClientMessage[];
+  let loginCode: string;
+  let service: OkxPrivateWsService;
+  let processFills: jest.Mock;
+  let sendOrderFillNotification: jest.Mock;
+  let processPositionPush: jest.Mock;
+
+  const pushToClients = (message: unknown) => {
+    serverSockets.forEach((socket) => socket.send(JSON.stringify(message)));
+  };
+
+  beforeEach(async () => {
+    serverSockets = [];
+    received = [];
+    loginCode = '0';
+
+    server = new WebSocket.Server({ port: 0 });
+    await new Promise((resolve) => server.once('listening', resolve));
+
+    server.on('connection', (socket) => {
+      serverSockets.push(socket);
+      socket.on('message', (raw) => {
+        const text = raw.toString();
+        if (text === 'ping') {
+          socket.send('pong');
+          return;
+        }
+
+        const message = JSON.parse(text) as ClientMessage;
+        received.push(message);
+
+        if (message.op === 'login') {
+          const { timestamp, sign } = message.args[0];
+          const expected = createHmac('sha256', secretKey)
+            .update(`${timestamp}GET/users/self/verify`)
+            .digest('base64');
+          const code = sign === expected ? loginCode : '60007';
+          socket.send(
+            JSON.stringify(
+              code === '0'
+                ? { event: 'login', code, msg: '', connId: 'c1' }
+                : { event: 'error', code, msg: 'Login failed.', connId: 'c1' },
+            ),
+          );
+        }
+
+        if (message.op === 'subscribe') {
+          message.args.forEach((arg) =>
+            socket.send(
+              JSON.stringify({ event: 'subscribe', arg, connId: 'c1' }),
+            ),
+          );
+        }
+      });
+    });
+
+    const port = (server.address() as AddressInfo).port;
+    const config: Record<string, unknown> = {
+      okx: {
+        apiKey: 'test-key',
+        secretKey,
+        passphrase: 'test-pass',
+        sandbox: false,
+        baseUrl: 'https://www.okx.com',
+        websocket: {
+          enabled: true,
+          privateUrl: `ws://127.0.0.1:${port}`,
+          instType: 'SWAP',
+          notifyFills: true,
+        },
+      },
+    };
+    const configService = {
+      get: (key: string) =>
+        key
+          .split('.')
+          .reduce<unknown>(
+            (value, part) => (value as Record<string, unknown>)?.[part],
+            config,
+          ),
+    } as unknown as ConfigService;
+
+    processFills = jest
+      .fn()
+      .mockResolvedValue({ trades: [], created: 1, updated: 0, errors: [] });
+    sendOrderFillNotification = jest.fn().mockResolvedValue(true);
+    processPositionPush = jest.fn().mockResolvedValue([]);
+
+    service = new OkxPrivateWsService(
+      configService,
+      new OkxApiService(configService),
+      { processFills } as unknown as OkxIncrementalSyncService,
+      { processPositionPush } as unknown as OkxPositionMonitorService,
+      { sendOrderFillNotification } as unknown as TradingNotificationService,
+    );
+    // 缩短测试中的合并和重连等待时间
+    Object.assign(service, { fillFlushDelay: 20, reconnectDelay: 20 });
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    serverSockets.forEach((socket) => socket.terminate());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('使用签名登录并订阅订单、成交和持仓频道', async () => {
+    service.connect();
+    await waitFor(() => service.getStatus().subscriptions.length === 3);
+
+    const login = received.find((message) => message.op === 'login');
+    expect(login.args[0]).toMatchObject({
+      apiKey: 'test-key',
+      passphrase: 'test-pass',
+    });
+
+    const subscribe = received.find((message) => message.op === 'subscribe');
+    expect(subscribe.args).toEqual([
+      { channel: 'orders', instType: 'SWAP' },
+      { channel: 'fills' },
+      { channel: 'positions', instType: 'SWAP' },
+    ]);
+    expect(service.getStatus()).toMatchObject({
+      connected: true,
+      loggedIn: true,
+      lastError: null,
+    });
+  });
+
+  it('登录失败时记录错误并断开连接', async () => {
+    loginCode = '60009';
+    service.connect();
+    await waitFor(() => service.getStatus().lastError !== null);
+
+    expect(service.getStatus().loggedIn).toBe(false);
+    expect(service.getStatus().lastError).toContain('60009');
+    expect(received.some((message) => message.op === 'subscribe')).toBe(false);
+  });
+
+  it('订单推送的成交写入交易记录并发送通知，重复推送只处理一次', async () => {
+    service.connect();
+    await waitFor(() => service.getStatus().loggedIn);
+
+    pushToClients(orderPush());
+    pushToClients(orderPush());
+    await waitFor(() => sendOrderFillNotification.mock.calls.length === 1);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(processFills).toHaveBeenCalledTimes(1);
+    expect(processFills.mock.calls[0][0]).toEqual([
+      expect.objectContaining({
+        instId: 'BTC-USDT-SWAP',
+        tradeId: 't-1',
+        ordId: '1001',
+        side: 'buy',
+        posSide: 'long',
+        fillPx: '65000.5',
+        fillSz: '2',
+        fee: '-0.65',
+        ts: '1754450000000',
+      }),
+    ]);
+    expect(sendOrderFillNotification.mock.calls[0][0]).toEqual([
+      expect.objectContaining({
+        tradeId: 't-1',
+        fillSz: 2,
+        orderState: 'filled',
+        lever: 10,
+      }),
+    ]);
+    expect(service.getStatus().fillCount).toBe(1);
+  });
+
+  it('没有成交的订单状态推送不会生成成交', async () => {
+    service.connect();
+    await waitFor(() => service.getStatus().loggedIn);
+
+    pushToClients(
+      orderPush({ state: 'live', tradeId: '', fillSz: '0', accFillSz: '0' }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(processFills).not.toHaveBeenCalled();
+    expect(sendOrderFillNotification).not.toHaveBeenCalled();
+  });
+
+  it('持仓推送交给持仓监控处理', async () => {
+    service.connect();
+    await waitFor(() => service.getStatus().loggedIn);
+
+    const position = {
+      instType: 'SWAP',
+      instId: 'BTC-USDT-SWAP',
+      posId: 'p1',
+      posSide: 'long',
+      pos: '2',
+    };
+    pushToClients({
+      arg: { channel: 'positions', instType: 'SWAP' },
+      data: [position],
+    });
+    await waitFor(() => processPositionPush.mock.calls.length === 1);
+
+    expect(processPositionPush).toHaveBeenCalledWith([position]);
+  });
+
+  it('连接断开后自动重连并重新登录订阅', async () => {
+    service.connect();
+    await waitFor(() => service.getStatus().subscriptions.length === 3);
+
+    serverSockets.forEach((socket) => socket.close());
+    await waitFor(
+      () =>
+        received.filter((message) => message.op === 'subscribe').length === 2,
+    );
+    await waitFor(() => service.getStatus().subscriptions.length === 3);
+
+    expect(received.filter((message) => message.op === 'login')).toHaveLength(
+      2,
+    );
+    expect(service.getStatus()).toMatchObject({
+      connected: true,
+      loggedIn: true,
+      reconnectAttempts: 0,
+    });
+  });
+});
@@ -0,0 +1,561 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as WebSocket from 'ws';
+import { OkxWebSocketConfig } from 'src/config/okx.config';
+import { TradingNotificationService } from 'src/modules/trading-automation/services/trading-notification.service';
+import { OkxApiService } from './okx-api.service';
+import { OkxIncrementalSyncService } from './okx-incremental-sync.service';
+import { OkxPositionMonitorService } from './okx-position-monitor.service';
+import {
+  OkxFillData,
+  OkxPositionData,
+} from '../interfaces/okx-trade.interface';
+import {
+  OkxFillEvent,
+  OkxPrivateWsStatus,
+  OkxWsArg,
+  OkxWsEventMessage,
+  OkxWsFillData,
+  OkxWsOrderData,
+  OkxWsPushMessage,
+} from '../interfaces/okx-websocket.interface';
+
+interface PendingFill {
+  fill: OkxFillData;
+  event: OkxFillEvent;
+  source: 'orders' | 'fills';
+}
+
+/**
+ * OKX 私有频道 WebSocket 服务
+ * 登录后订阅订单、成交和持仓频道：成交实时写入交易记录并发送 Telegram 通知，持仓变化交给持仓监控评估风险
+ */
+@Injectable()
+export class OkxPrivateWsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OkxPrivateWsService.name);
+
+  private ws: WebSocket | null = null;
+  private isConnected = false;
+  private isLoggedIn = false;
+  private isShuttingDown = false;
+  private reconnectAttempts = 0;
+  private readonly reconnectDelay = 5000; // 5秒
+  private readonly maxReconnectDelay = 60000; // 60秒
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  // OKX 30 秒内没有数据交互会断开连接，需要定时发送 'ping'
+  private readonly heartbeatInterval = 20000; // 20秒
+  private readonly heartbeatTimeout = 60000; // 60秒未收到任何数据视为断线
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private lastMessageAt: number | null = null;
+
+  // 同一订单的连续成交合并处理
+  private readonly fillFlushDelay = 1000; // 1秒
+  private fillFlushTimer: NodeJS.Timeout | null = null;
+  private pendingFills = new Map<string, PendingFill>();
+  private readonly maxTrackedFills = 2000;
+  private processedFills = new Map<string, PendingFill['source']>();
+  private readonly maxCachedOrders = 500;
+  private orderCache = new Map<string, OkxWsOrderData>();
+
+  private subscriptions = new Set<string>();
+  private lastFillAt: number | null = null;
+  private fillCount = 0;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly okxApiService: OkxApiService,
+    private readonly okxIncrementalSyncService: OkxIncrementalSyncService,
+    private readonly okxPositionMonitorService: OkxPositionMonitorService,
+    private readonly tradingNotificationService: TradingNotificationService,
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.getConfig().enabled) {
+      this.logger.log('OKX 私有频道 WebSocket 未启用');
+      return;
+    }
+
+    if (!this.okxApiService.isConfigured()) {
+      this.logger.warn('OKX API 配置不完整，跳过私有频道 WebSocket 连接');
+      return;
+    }
+
+    this.connect();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.disconnect();
+  }
+
+  /**
+   * 建立私有频道连接，连接成功后自动登录和订阅
+   */
+  connect(): void {
+    if (this.isShuttingDown || this.ws) {
+      return;
+    }
+
+    const { privateUrl } = this.getConfig();
+    const sandbox = this.configService.get<boolean>('okx.sandbox');
+
+    this.logger.log(`连接 OKX 私有频道: ${privateUrl}`);
+    const ws = new WebSocket(privateUrl, {
+      // 模拟盘需要携带该请求头
+      ...(sandbox && { headers: { 'x-simulated-trading': '1' } }),
+    });
+    this.ws = ws;
+
+    ws.on('open', () => {
+      this.isConnected = true;
+      this.lastMessageAt = Date.now();
+      this.logger.log('OKX 私有频道连接成功，开始登录');
+      this.login();
+      this.startHeartbeat();
+    });
+
+    ws.on('message', (raw: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      const text = raw.toString();
+      if (text === 'pong') {
+        return;
+      }
+      this.handleMessage(text);
+    });
+
+    ws.on('error', (error: Error) => {
+      this.lastError = error.message;
+      this.logger.error(`OKX 私有频道错误: ${error.message}`);
+    });
+
+    ws.on('close', (code: number) => {
+      if (this.ws !== ws) {
+        return;
+      }
+
+      this.ws = null;
+      this.isConnected = false;
+      this.isLoggedIn = false;
+      this.subscriptions.clear();
+      this.stopHeartbeat();
+
+      if (this.isShuttingDown) {
+        return;
+      }
+
+      this.logger.warn(`OKX 私有频道连接关闭 (code: ${code})`);
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * 断开连接并停止重连，待处理的成交会先写入
+   */
+  async disconnect(): Promise<void> {
+    this.isShuttingDown = true;
+    this.stopHeartbeat();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.removeAllListeners();
+      ws.on('error', () => undefined);
+      ws.terminate();
+    }
+
+    this.isConnected = false;
+    this.isLoggedIn = false;
+    this.subscriptions.clear();
+    await this.flushFills();
+  }
+
+  /**
+   * 主动重连（重置退避计数）
+   */
+  async reconnect(): Promise<OkxPrivateWsStatus> {
+    await this.disconnect();
+    this.isShuttingDown = false;
+    this.reconnectAttempts = 0;
+    this.connect();
+    return this.getStatus();
+  }
+
+  /**
+   * 获取连接状态
+   */
+  getStatus(): OkxPrivateWsStatus {
+    const config = this.getConfig();
+    return {
+      enabled: config.enabled,
+      configured: this.okxApiService.isConfigured(),
+      connected: this.isConnected,
+      loggedIn: this.isLoggedIn,
+      url: config.privateUrl,
+      subscriptions: Array.from(this.subscriptions),
+      reconnectAttempts: this.reconnectAttempts,
+      lastMessageAt: this.lastMessageAt,
+      lastFillAt: this.lastFillAt,
+      fillCount: this.fillCount,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * 发送登录请求
+   */
+  private login(): void {
+    this.send({
+      op: 'login',
+      args: [this.okxApiService.getWebSocketLoginArgs()],
+    });
+  }
+
+  /**
+   * 订阅订单、成交和持仓频道
+   */
+  private subscribe(): void {
+    const { instType } = this.getConfig();
+    const args: OkxWsArg[] = [
+      { channel: 'orders', instType },
+      { channel: 'fills' },
+      { channel: 'positions', instType },
+    ];
+    this.send({ op: 'subscribe', args });
+  }
+
+  private send(payload: unknown): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(payload));
+    }
+  }
+
+  /**
+   * 处理频道消息
+   */
+  private handleMessage(text: string): void {
+    let message: OkxWsEventMessage | OkxWsPushMessage;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.logger.warn(`无法解析 OKX 私有频道消息: ${text.slice(0, 200)}`);
+      return;
+    }
+
+    if ('event' in message) {
+      this.handleEvent(message);
+      return;
+    }
+
+    if (!message.arg || !Array.isArray(message.data)) {
+      return;
+    }
+
+    switch (message.arg.channel) {
+      case 'orders':
+        this.handleOrders(message.data as OkxWsOrderData[]);
+        break;
+      case 'fills':
+        this.handleFills(message.data as OkxWsFillData[]);
+        break;
+      case 'positions':
+        this.okxPositionMonitorService
+          .processPositionPush(message.data as OkxPositionData[])
+          .catch((error) =>
+            this.logger.error(`处理持仓推送失败: ${error.message}`),
+          );
+        break;
+    }
+  }
+
+  /**
+   * 处理登录、订阅和错误事件
+   */
+  private handleEvent(message: OkxWsEventMessage): void {
+    switch (message.event) {
+      case 'login':
+        if (message.code === '0') {
+          this.isLoggedIn = true;
+          this.reconnectAttempts = 0;
+          this.lastError = null;
+          this.logger.log('OKX 私有频道登录成功');
+          this.subscribe();
+        } else {
+          this.handleLoginFailure(`${message.code} ${message.msg}`);
+        }
+        break;
+      case 'subscribe':
+        if (message.arg) {
+          this.subscriptions.add(this.getArgKey(message.arg));
+          this.logger.log(
+            `已订阅 OKX 私有频道: ${this.getArgKey(message.arg)}`,
+          );
+        }
+        break;
+      case 'error':
+        this.lastError = `${message.code} ${message.msg}`;
+        // 登录阶段的错误同样以 error 事件返回
+        if (!this.isLoggedIn) {
+          this.handleLoginFailure(this.lastError);
+        } else {
+          this.logger.warn(`OKX 私有频道错误事件: ${this.lastError}`);
+        }
+        break;
+    }
+  }
+
+  private handleLoginFailure(reason: string): void {
+    this.lastError = `登录失败: ${reason}`;
+    this.logger.error(`OKX 私有频道${this.lastError}`);
+    // 关闭连接后按退避策略重连
+    this.ws?.close();
+  }
+
+  /**
+   * 处理订单推送：订单推送包含最新一笔成交的完整信息（持仓方向、手续费、收益）
+   */
+  private handleOrders(orders: OkxWsOrderData[]): void {
+    for (const order of orders) {
+      this.cacheOrder(order);
+
+      if (!order.tradeId || !(parseFloat(order.fillSz) > 0)) {
+        continue;
+      }
+
+      this.enqueueFill(this.toFillData(order, order), 'orders');
+    }
+  }
+
+  /**
+   * 处理成交推送：成交频道不含持仓方向，只有已收到对应订单推送时才处理，否则等待订单频道推送同一笔成交
+   */
+  private handleFills(fills: OkxWsFillData[]): void {
+    for (const fill of fills) {
+      const order = this.orderCache.get(fill.ordId);
+      if (!order) {
+        continue;
+      }
+
+      this.enqueueFill(this.toFillData(order, fill), 'fills');
+    }
+  }
+
+  /**
+   * 将成交加入待处理队列，同一成交以订单频道的数据为准
+   */
+  private enqueueFill(fill: OkxFillData, source: PendingFill['source']): void {
+    const key = `${fill.instId}:${fill.tradeId}`;
+    const processedSource = this.processedFills.get(key);
+    if (
+      processedSource === 'orders' ||
+      (processedSource === 'fills' && source === 'fills')
+    ) {
+      return;
+    }
+
+    const pending = this.pendingFills.get(key);
+    if (pending && (pending.source === 'orders' || source === 'fills')) {
+      return;
+    }
+
+    const order = this.orderCache.get(fill.ordId);
+    this.pendingFills.set(key, {
+      fill,
+      source,
+      event: this.toFillEvent(fill, order),
+    });
+
+    if (!this.fillFlushTimer) {
+      this.fillFlushTimer = setTimeout(() => {
+        this.fillFlushTimer = null;
+        this.flushFills().catch((error) =>
+          this.logger.error(`处理实时成交失败: ${error.message}`),
+        );
+      }, this.fillFlushDelay);
+    }
+  }
+
+  /**
+   * 将待处理成交写入交易记录并发送通知
+   */
+  private async flushFills(): Promise<void> {
+    if (this.fillFlushTimer) {
+      clearTimeout(this.fillFlushTimer);
+      this.fillFlushTimer = null;
+    }
+
+    if (this.pendingFills.size === 0) {
+      return;
+    }
+
+    const pending = Array.from(this.pendingFills.entries());
+    this.pendingFills.clear();
+
+    // 已由成交频道处理过的成交再次收到订单推送时只更新记录（补充手续费等信息），不重复通知
+    const newFills = pending.filter(([key]) => !this.processedFills.has(key));
+    pending.forEach(([key, item]) => this.trackProcessedFill(key, item.source));
+
+    const result = await this.okxIncrementalSyncService.processFills(
+      pending.map(([, item]) => item.fill),
+    );
+    this.fillCount += newFills.length;
+    this.lastFillAt = Date.now();
+    this.logger.log(
+      `实时成交处理完成: ${pending.length} 笔成交，新增 ${result.created} 笔交易，更新 ${result.updated} 笔${result.errors.length > 0 ? `，错误 ${result.errors.length}` : ''}`,
+    );
+
+    if (this.getConfig().notifyFills && newFills.length > 0) {
+      await this.tradingNotificationService.sendOrderFillNotification(
+        newFills.map(([, item]) => item.event),
+      );
+    }
+  }
+
+  private trackProcessedFill(key: string, source: PendingFill['source']): void {
+    this.processedFills.delete(key);
+    this.processedFills.set(key, source);
+    if (this.processedFills.size > this.maxTrackedFills) {
+      const oldestKey = this.processedFills.keys().next().value;
+      this.processedFills.delete(oldestKey);
+    }
+  }
+
+  private cacheOrder(order: OkxWsOrderData): void {
+    this.orderCache.delete(order.ordId);
+    this.orderCache.set(order.ordId, order);
+    if (this.orderCache.size > this.maxCachedOrders) {
+      const oldestKey = this.orderCache.keys().next().value;
+      this.orderCache.delete(oldestKey);
+    }
+  }
+
+  /**
+   * 转换为与 REST 成交明细一致的结构，便于 TradeProcessorService 统一处理
+   * 推送数据中没有账单ID，按成交ID去重
+   */
+  private toFillData(
+    order: OkxWsOrderData,
+    fill: Pick<OkxWsFillData, 'tradeId' | 'fillPx' | 'fillSz'> & {
+      ts?: string;
+      fillTime?: string;
+    },
+  ): OkxFillData {
+    const isOrderFill = fill.tradeId === order.tradeId;
+    return {
+      instType: order.instType,
+      instId: order.instId,
+      tradeId: fill.tradeId,
+      ordId: order.ordId,
+      clOrdId: order.clOrdId,
+      billId: '',
+      tag: order.tag,
+      fillPx: fill.fillPx,
+      fillSz: fill.fillSz,
+      side: order.side,
+      posSide: order.posSide,
+      execType: order.execType || '',
+      feeCcy: order.fillFeeCcy || order.feeCcy,
+      fee: isOrderFill ? order.fillFee || '0' : '0',
+      ts: fill.fillTime || fill.ts || order.uTime,
+    };
+  }
+
+  private toFillEvent(fill: OkxFillData, order?: OkxWsOrderData): OkxFillEvent {
+    const pnl =
+      order && fill.tradeId === order.tradeId
+        ? parseFloat(order.fillPnl || '')
+        : NaN;
+    const lever = parseFloat(order?.lever || '');
+    return {
+      instType: fill.instType,
+      instId: fill.instId,
+      ordId: fill.ordId,
+      tradeId: fill.tradeId,
+      side: fill.side,
+      posSide: fill.posSide,
+      ordType: order?.ordType || '',
+      orderState: order?.state || '',
+      fillPx: parseFloat(fill.fillPx),
+      fillSz: parseFloat(fill.fillSz),
+      accFillSz: parseFloat(order?.accFillSz || fill.fillSz),
+      orderSz: parseFloat(order?.sz || fill.fillSz),
+      fee: parseFloat(fill.fee) || 0,
+      feeCcy: fill.feeCcy,
+      pnl: Number.isFinite(pnl) ? pnl : null,
+      lever: Number.isFinite(lever) ? lever : null,
+      ts: parseInt(fill.ts) || Date.now(),
+    };
+  }
+
+  /**
+   * 安排重连（指数退避）
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.isShuttingDown) {
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = Math.min(
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
+      this.maxReconnectDelay,
+    );
+
+    this.logger.warn(
+      `${delay / 1000}秒后重连 OKX 私有频道 (第${this.reconnectAttempts}次)`,
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * 启动心跳：定时发送 'ping'，长时间没有收到数据则断开重连
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      if (
+        this.lastMessageAt &&
+        Date.now() - this.lastMessageAt > this.heartbeatTimeout
+      ) {
+        this.logger.warn('OKX 私有频道心跳超时，主动断开重连');
+        this.ws.terminate();
+        return;
+      }
+
+      this.ws.send('ping');
+    }, this.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private getArgKey(arg: OkxWsArg): string {
+    return [arg.channel, arg.instType, arg.instId].filter(Boolean).join(':');
+  }
+
+  private getConfig(): OkxWebSocketConfig {
+    return this.configService.get<OkxWebSocketConfig>('okx.websocket')!;
+  }
+}
@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { OkxSyncCursor, OkxSyncRun } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  OkxSyncCursorData,
+  OkxSyncRunData,
+  OkxSyncRunStatus,
+  OkxSyncTrigger,
+} from '../interfaces/okx-trade.interface';
+
+/**
+ * OKX 同步状态存储服务
+ * 负责增量同步游标和同步运行记录的读写
+ */
+@Injectable()
+export class OkxSyncStoreService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 获取指定产品类型的同步游标
+   * @param instType 产品类型
+   */
+  async getCursor(instType: string): Promise<OkxSyncCursorData | null> {
+    const record = await this.prisma.okxSyncCursor.findUnique({
+      where: { instType },
+    });
+    return record ? this.toCursor(record) : null;
+  }
+
+  /**
+   * 获取所有产品类型的同步游标
+   */
+  async getCursors(): Promise<OkxSyncCursorData[]> {
+    const records = await this.prisma.okxSyncCursor.findMany({
+      orderBy: { instType: 'asc' },
+    });
+    return records.map((record) => this.toCursor(record));
+  }
+
+  /**
+   * 保存同步游标
+   * @param cursor 同步游标
+   */
+  async saveCursor(cursor: OkxSyncCursorData): Promise<void> {
+    const data = {
+      lastBillId: cursor.lastBillId,
+      lastTradeId: cursor.lastTradeId,
+      lastFillTime:
+        cursor.lastFillTime !== null ? BigInt(cursor.lastFillTime) : null,
+    };
+
+    await this.prisma.okxSyncCursor.upsert({
+      where: { instType: cursor.instType },
+      create: { instType: cursor.instType, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * 记录一次同步运行
+   * @param run 同步运行记录
+   */
+  async saveRun(run: OkxSyncRunData): Promise<number> {
+    const record = await this.prisma.okxSyncRun.create({
+      data: {
+        trigger: run.trigger,
+        status: run.status,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        durationMs: run.durationMs,
+        fetchedCount: run.fetchedCount,
+        processedCount: run.processedCount,
+        createdCount: run.createdCount,
+        updatedCount: run.updatedCount,
+        errorCount: run.errorCount,
+        errors: run.errors.length > 0 ? JSON.stringify(run.errors) : null,
+        details: JSON.stringify(run.details),
+      },
+    });
+    return record.id;
+  }
+
+  /**
+   * 获取最近的同步运行记录
+   * @param limit 返回数量
+   */
+  async getRecentRuns(limit: number = 20): Promise<OkxSyncRunData[]> {
+    const records = await this.prisma.okxSyncRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+    return records.map((record) => this.toRun(record));
+  }
+
+  /**
+   * 获取最近一次成功（含部分成功）的同步运行记录
+   */
+  async getLastSuccessfulRun(): Promise<OkxSyncRunData | null> {
+    const record = await this.prisma.okxSyncRun.findFirst({
+      where: { status: { in: ['SUCCESS', 'PARTIAL'] } },
+      orderBy: { startedAt: 'desc' },
+    });
+    return record ? this.toRun(record) : null;
+  }
+
+  /**
+   * 删除指定时间之前的同步运行记录
+   * @param before 时间
+   */
+  async deleteRunsBefore(before: Date): Promise<number> {
+    const result = await this.prisma.okxSyncRun.deleteMany({
+      where: { startedAt: { lt: before } },
+    });
+    return result.count;
+  }
+
+  private toCursor(record: OkxSyncCursor): OkxSyncCursorData {
+    return {
+      instType: record.instType,
+      lastBillId: record.lastBillId,
+      lastTradeId: record.lastTradeId,
+      lastFillTime:
+        record.lastFillTime !== null ? Number(record.lastFillTime) : null,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private toRun(record: OkxSyncRun): OkxSyncRunData {
+    return {
+      id: record.id,
+      trigger: record.trigger as OkxSyncTrigger,
+      status: record.status as OkxSyncRunStatus,
+      startedAt: record.startedAt,
+      finishedAt: record.finishedAt,
+      durationMs: record.durationMs,
+      fetchedCount: record.fetchedCount,
+      processedCount: record.processedCount,
+      createdCount: record.createdCount,
+      updatedCount: record.updatedCount,
+      errorCount: record.errorCount,
+      errors: record.errors ? JSON.parse(record.errors) : [],
+      details: record.details ? JSON.parse(record.details) : [],
+    };
+  }
+}
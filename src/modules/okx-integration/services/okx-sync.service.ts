@@ -1,15 +1,19 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OkxSyncConfig } from 'src/config/okx.config';
 import { TradingHistoryService } from 'src/modules/trading-history/trading-history.service';
 import { TradeDirection, TradeStatus } from 'src/modules/trading-history/enums';
 import { OkxApiService } from './okx-api.service';
 import { TradeProcessorService } from './trade-processor.service';
 import { PendingOrderProcessorService } from './pending-order-processor.service';
+import { OkxSyncStoreService } from './okx-sync-store.service';
 import { 
   SyncParams, 
   SyncResult, 
   ProcessedTradeData,
   ProcessedPendingOrderData,
-  OkxDataResponse
+  OkxSyncCursorData,
+  OkxSyncRunData,
 } from '../interfaces/okx-trade.interface';
 
 @Injectable()
@@ -21,6 +25,8 @@ export class OkxSyncService {
     private readonly tradeProcessorService: TradeProcessorService,
     private readonly pendingOrderProcessorService: PendingOrderProcessorService,
     private readonly tradingHistoryService: TradingHistoryService,
+    private readonly okxSyncStoreService: OkxSyncStoreService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
@@ -266,7 +272,7 @@ export class OkxSyncService {
   /**
    * 保存交易记录到数据库
    */
-  private async saveTradesToDatabase(trades: ProcessedTradeData[]): Promise<{
+  async saveTradesToDatabase(trades: ProcessedTradeData[]): Promise<{
     created: number;
     updated: number;
     errors: string[];
@@ -334,11 +340,18 @@ export class OkxSyncService {
   /**
    * 获取同步统计信息
    */
-  async getSyncStats(): Promise<{
+  async getSyncStats(runLimit: number = 20): Promise<{
     totalSynced: number;
     lastSyncTime: Date | null;
     okxLinkedTrades: number;
     pendingOrdersCount: number;
+    incrementalSync: {
+      enabled: boolean;
+      instTypes: string[];
+      cursors: OkxSyncCursorData[];
+      lastSuccessfulRun: OkxSyncRunData | null;
+      recentRuns: OkxSyncRunData[];
+    };
   }> {
     try {
       // 查询包含 OKX 订单ID 的交易记录
@@ -356,8 +369,14 @@ export class OkxSyncService {
         .filter(trade => trade.notes && trade.notes.includes('从 OKX 同步'))
         .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
-      const lastSyncTime = recentOkxTrades.length > 0 ? 
-        new Date(recentOkxTrades[0].createdAt) : null;
+      const incrementalSync = await this.getIncrementalSyncStats(runLimit);
+
+      // 优先使用增量同步的最近成功时间
+      const lastSyncTime = incrementalSync.lastSuccessfulRun
+        ? incrementalSync.lastSuccessfulRun.finishedAt
+        : recentOkxTrades.length > 0
+          ? new Date(recentOkxTrades[0].createdAt)
+          : null;
 
       // 获取当前挂单数量
       let pendingOrdersCount = 0;
@@ -373,18 +392,47 @@ export class OkxSyncService {
         lastSyncTime,
         okxLinkedTrades,
         pendingOrdersCount,
+        incrementalSync,
       };
     } catch (error: any) {
       this.logger.error('获取同步统计失败:', error);
+      const syncConfig = this.configService.get<OkxSyncConfig>('okx.sync')!;
       return {
         totalSynced: 0,
         lastSyncTime: null,
         okxLinkedTrades: 0,
         pendingOrdersCount: 0,
+        incrementalSync: {
+          enabled: syncConfig.enabled,
+          instTypes: syncConfig.instTypes,
+          cursors: [],
+          lastSuccessfulRun: null,
+          recentRuns: [],
+        },
       };
     }
   }
 
+  /**
+   * 获取增量同步的游标和运行记录
+   */
+  private async getIncrementalSyncStats(runLimit: number) {
+    const syncConfig = this.configService.get<OkxSyncConfig>('okx.sync')!;
+    const [cursors, lastSuccessfulRun, recentRuns] = await Promise.all([
+      this.okxSyncStoreService.getCursors(),
+      this.okxSyncStoreService.getLastSuccessfulRun(),
+      this.okxSyncStoreService.getRecentRuns(runLimit),
+    ]);
+
+    return {
+      enabled: syncConfig.enabled,
+      instTypes: syncConfig.instTypes,
+      cursors,
+      lastSuccessfulRun,
+      recentRuns,
+    };
+  }
+
   /**
    * 简化的同步方法：直接获取已完成的交易记录
    */
@@ -0,0 +1,179 @@
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { TradingDirection } from 'src/shared/enums';
+import { ExecutionOrderStatus } from '../interfaces';
+
+export const EXECUTION_ORDER_TYPES: Array<'limit' | 'market'> = [
+  'limit',
+  'market',
+];
+
+export const EXECUTION_ORDER_STATUSES: ExecutionOrderStatus[] = [
+  'PENDING_CONFIRMATION',
+  'REJECTED',
+  'EXPIRED',
+  'SUBMITTING',
+  'LIVE',
+  'PARTIALLY_FILLED',
+  'FILLED',
+  'CANCELED',
+  'FAILED',
+];
+
+/**
+ * 按可执行信号下单DTO（均为可选项，不传则使用配置默认值）
+ */
+export class SignalExecutionDto {
+  @ApiProperty({
+    description: '订单类型',
+    enum: EXECUTION_ORDER_TYPES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(EXECUTION_ORDER_TYPES, { message: '不支持的订单类型' })
+  ordType?: 'limit' | 'market';
+
+  @ApiProperty({ description: '杠杆倍数', required: false, example: 5 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: '杠杆倍数必须是整数' })
+  @Min(1, { message: '杠杆倍数不能小于1' })
+  @Max(125, { message: '杠杆倍数不能大于125' })
+  leverage?: number;
+
+  @ApiProperty({
+    description: '委托数量（张），不传则按单笔风险计算',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '委托数量必须是数字' })
+  size?: number;
+
+  @ApiProperty({
+    description: '触及止损时的最大亏损(USDT)，用于计算委托数量',
+    required: false,
+    example: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '单笔风险必须是数字' })
+  riskUsd?: number;
+}
+
+/**
+ * 手动下单DTO
+ */
+export class CreateExecutionOrderDto extends SignalExecutionDto {
+  @ApiProperty({ description: '交易对符号', example: 'BTCUSDT' })
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol: string;
+
+  @ApiProperty({ description: '交易方向', enum: TradingDirection })
+  @IsEnum(TradingDirection, { message: '不支持的交易方向' })
+  direction: TradingDirection;
+
+  @ApiProperty({
+    description: '入场价，限价单为委托价格，市价单仅用于计算数量',
+    example: 65000,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: '入场价必须是数字' })
+  entryPrice: number;
+
+  @ApiProperty({ description: '止盈触发价', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '止盈价必须是数字' })
+  takeProfit?: number;
+
+  @ApiProperty({ description: '止损触发价', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '止损价必须是数字' })
+  stopLoss?: number;
+}
+
+/**
+ * 修改订单DTO
+ */
+export class AmendExecutionOrderDto {
+  @ApiProperty({
+    description: '新的委托价格（仅未成交的限价单）',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '委托价格必须是数字' })
+  price?: number;
+
+  @ApiProperty({
+    description: '新的委托数量（张，仅未成交订单）',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '委托数量必须是数字' })
+  size?: number;
+
+  @ApiProperty({ description: '新的止盈触发价', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '止盈价必须是数字' })
+  takeProfit?: number;
+
+  @ApiProperty({ description: '新的止损触发价', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '止损价必须是数字' })
+  stopLoss?: number;
+}
+
+/**
+ * 下单执行记录查询DTO
+ */
+export class ExecutionOrderQueryDto {
+  @ApiProperty({ description: '页码', required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '页码必须是数字' })
+  @Min(1, { message: '页码不能小于1' })
+  page?: number = 1;
+
+  @ApiProperty({ description: '每页数量', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '每页数量必须是数字' })
+  @Min(1, { message: '每页数量不能小于1' })
+  @Max(100, { message: '每页数量不能大于100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: '执行状态',
+    enum: EXECUTION_ORDER_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(EXECUTION_ORDER_STATUSES, { message: '不支持的执行状态' })
+  status?: string;
+
+  @ApiProperty({ description: '可执行信号ID', required: false })
+  @IsOptional()
+  @IsString({ message: '信号ID必须是字符串' })
+  signalId?: string;
+
+  @ApiProperty({ description: '产品ID，如 BTC-USDT-SWAP', required: false })
+  @IsOptional()
+  @IsString({ message: '产品ID必须是字符串' })
+  instId?: string;
+}
@@ -0,0 +1 @@
+export * from './order-execution.interface';
@@ -0,0 +1,104 @@
+import { TradingDirection } from 'src/shared/enums';
+
+/** 下单执行状态 */
+export type ExecutionOrderStatus =
+  | 'PENDING_CONFIRMATION' // 等待 Telegram 确认
+  | 'REJECTED' // 已拒绝或在确认前取消
+  | 'EXPIRED' // 确认请求已过期
+  | 'SUBMITTING' // 已确认，正在提交到 OKX
+  | 'LIVE' // 已挂单，等待成交
+  | 'PARTIALLY_FILLED' // 部分成交
+  | 'FILLED' // 完全成交
+  | 'CANCELED' // 已撤单
+  | 'FAILED'; // 提交失败
+
+/** 下单计划（计算数量和校验价格后的结果） */
+export interface ExecutionOrderPlan {
+  signalId: string | null;
+  instId: string;
+  direction: TradingDirection;
+  ordType: 'limit' | 'market';
+  size: number; // 委托数量（张）
+  entryPrice: number;
+  takeProfit: number | null;
+  stopLoss: number | null;
+  leverage: number;
+  notionalUsd: number;
+  riskUsd: number | null;
+}
+
+/** 下单请求参数 */
+export interface ExecutionOrderRequest {
+  signalId?: string;
+  symbol: string; // 交易对，如 BTCUSDT、BTC-USDT 或 BTC-USDT-SWAP
+  direction: TradingDirection;
+  entryPrice: number;
+  takeProfit?: number;
+  stopLoss?: number;
+  ordType?: 'limit' | 'market';
+  leverage?: number;
+  size?: number; // 委托数量（张），不传则按 riskUsd 计算
+  riskUsd?: number; // 触及止损时的最大亏损(USDT)
+}
+
+/** 修改订单参数 */
+export interface ExecutionOrderAmendment {
+  price?: number;
+  size?: number;
+  takeProfit?: number;
+  stopLoss?: number;
+}
+
+/** 下单执行记录视图 */
+export interface ExecutionOrderView {
+  id: string;
+  signalId: string | null;
+  tradingRecordId: number | null;
+  status: ExecutionOrderStatus;
+  sandbox: boolean;
+  instId: string;
+  direction: TradingDirection;
+  side: string;
+  posSide: string;
+  ordType: string;
+  tdMode: string;
+  size: number;
+  price: number | null;
+  entryPrice: number;
+  takeProfit: number | null;
+  stopLoss: number | null;
+  leverage: number;
+  notionalUsd: number | null;
+  riskUsd: number | null;
+  clOrdId: string;
+  ordId: string | null;
+  filledSize: number | null;
+  avgPx: number | null;
+  error: string | null;
+  confirmedBy: string | null;
+  expiresAt: Date;
+  confirmedAt: Date | null;
+  placedAt: Date | null;
+  closedAt: Date | null;
+  createdAt: Date;
+}
+
+/** 下单功能状态 */
+export interface ExecutionStatus {
+  enabled: boolean;
+  configured: boolean;
+  sandbox: boolean;
+  allowLive: boolean;
+  canTrade: boolean; // 当前配置下是否允许下单
+  reason: string | null; // 不允许下单的原因
+  tdMode: string;
+  posMode: string;
+  ordType: string;
+  leverage: number;
+  riskPerTradeUsd: number;
+  maxNotionalUsd: number;
+  confirmationTtlMinutes: number;
+  promptOnSignal: boolean;
+  pendingConfirmations: number;
+  openOrders: number;
+}
@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  AmendExecutionOrderDto,
+  CreateExecutionOrderDto,
+  ExecutionOrderQueryDto,
+  SignalExecutionDto,
+} from './dto';
+import { OrderExecutionService } from './services';
+
+@ApiTags('下单执行')
+@Controller('api/order-execution')
+export class OrderExecutionController {
+  constructor(private readonly orderExecutionService: OrderExecutionService) {}
+
+  @Get('status')
+  @ApiOperation({ summary: '获取下单功能状态（模拟盘/实盘、默认参数）' })
+  async getStatus() {
+    return await this.orderExecutionService.getStatus();
+  }
+
+  @Get('orders')
+  @ApiOperation({ summary: '获取下单执行记录' })
+  async findAll(@Query() query: ExecutionOrderQueryDto) {
+    return await this.orderExecutionService.findAll(query);
+  }
+
+  @Get('orders/:id')
+  @ApiOperation({ summary: '获取下单执行记录详情' })
+  @ApiParam({ name: 'id', description: '下单记录ID' })
+  @ApiResponse({ status: 404, description: '下单记录不存在' })
+  async findOne(@Param('id') id: string) {
+    return await this.orderExecutionService.findOne(id);
+  }
+
+  @Post('signals/:signalId')
+  @ApiOperation({
+    summary: '按可执行信号发起下单，需在 Telegram 中确认后才会提交到 OKX',
+  })
+  @ApiParam({ name: 'signalId', description: '可执行信号ID' })
+  async requestFromSignal(
+    @Param('signalId') signalId: string,
+    @Body() dto: SignalExecutionDto,
+  ) {
+    return await this.orderExecutionService.requestFromSignal(
+      signalId,
+      dto || {},
+    );
+  }
+
+  @Post('orders')
+  @ApiOperation({
+    summary: '手动发起下单，需在 Telegram 中确认后才会提交到 OKX',
+  })
+  async requestManual(@Body() dto: CreateExecutionOrderDto) {
+    return await this.orderExecutionService.requestManual(dto);
+  }
+
+  @Patch('orders/:id')
+  @ApiOperation({ summary: '修改订单价格、数量或止盈止损' })
+  @ApiParam({ name: 'id', description: '下单记录ID' })
+  async amend(@Param('id') id: string, @Body() dto: AmendExecutionOrderDto) {
+    return await this.orderExecutionService.amend(id, dto);
+  }
+
+  @Delete('orders/:id')
+  @ApiOperation({ summary: '取消下单请求或撤销 OKX 挂单' })
+  @ApiParam({ name: 'id', description: '下单记录ID' })
+  async cancel(@Param('id') id: string) {
+    return await this.orderExecutionService.cancel(id);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { OkxIntegrationModule } from '../okx-integration/okx-integration.module';
+import { TradingDecisionModule } from '../trading-decision/trading-decision.module';
+import { OrderExecutionController } from './order-execution.controller';
+import { OrderExecutionService } from './services';
+
+/**
+ * 下单执行模块
+ * 可执行信号经 Telegram 确认后在 OKX 下单（附带止盈止损），并关联成交后的交易记录
+ */
+@Module({
+  imports: [OkxIntegrationModule, TradingDecisionModule],
+  controllers: [OrderExecutionController],
+  providers: [OrderExecutionService],
+  exports: [OrderExecutionService],
+})
+export class OrderExecutionModule {}
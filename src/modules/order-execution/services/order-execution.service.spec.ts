@@ -0,0 +1,488 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExecutionOrder } from '@prisma/client';
+import { OkxExecutionConfig } from 'src/config/okx.config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TelegramBotService } from 'src/modules/telegram-bot';
+import {
+  OkxApiError,
+  OkxApiService,
+} from 'src/modules/okx-integration/services/okx-api.service';
+import {
+  OkxInstrumentData,
+  OkxOrderData,
+} from 'src/modules/okx-integration/interfaces/okx-trade.interface';
+import { ActionableSignalService } from 'src/modules/trading-decision/services';
+import { TradingDirection } from 'src/shared/enums';
+import { OrderExecutionService } from './order-execution.service';
+
+const instrument: OkxInstrumentData = {
+  instType: 'SWAP',
+  instId: 'BTC-USDT-SWAP',
+  ctVal: '0.01',
+  ctValCcy: 'BTC',
+  lotSz: '0.1',
+  minSz: '0.1',
+  tickSz: '0.1',
+  maxLever: '100',
+  state: 'live',
+};
+
+const okxOrder = (state: string) =>
+  ({
+    instId: 'BTC-USDT-SWAP',
+    ordId: '9001',
+    state,
+    accFillSz: '0',
+    avgPx: '',
+    cTime: String(Date.now()),
+  }) as OkxOrderData;
+
+/**
+ * 内存中的下单记录表，只实现服务用到的查询条件
+ */
+const createPrismaStub = () => {
+  const rows = new Map<string, ExecutionOrder>();
+  let sequence = 0;
+
+  const executionOrder = {
+    create: jest.fn(async ({ data }) => {
+      const row = {
+        id: `order-${++sequence}`,
+        signalId: null,
+        tradingRecordId: null,
+        price: null,
+        takeProfit: null,
+        stopLoss: null,
+        notionalUsd: null,
+        riskUsd: null,
+        algoClOrdId: null,
+        ordId: null,
+        filledSize: null,
+        avgPx: null,
+        error: null,
+        telegramChatId: null,
+        telegramMessageId: null,
+        confirmedBy: null,
+        confirmedAt: null,
+        placedAt: null,
+        closedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...data,
+      } as ExecutionOrder;
+      rows.set(row.id, row);
+      return { ...row };
+    }),
+    update: jest.fn(async ({ where, data }) => {
+      const row = { ...rows.get(where.id), ...data };
+      rows.set(where.id, row);
+      return { ...row };
+    }),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const row = rows.get(where.id);
+      const matched =
+        row &&
+        row.status === where.status &&
+        (!where.expiresAt || row.expiresAt > where.expiresAt.gt);
+      if (matched) {
+        rows.set(where.id, { ...row, ...data });
+      }
+      return { count: matched ? 1 : 0 };
+    }),
+    findUnique: jest.fn(async ({ where }) =>
+      rows.has(where.id) ? { ...rows.get(where.id) } : null,
+    ),
+    // 只实现同步订单状态时按状态查询的条件，其他查询返回空
+    findMany: jest.fn(async ({ where }) =>
+      (where.OR || [])
+        .flatMap((condition) =>
+          Array.from(rows.values()).filter((row) =>
+            condition.status.in
+              ? condition.status.in.includes(row.status)
+              : row.status === condition.status &&
+                row.confirmedAt < condition.confirmedAt.lt,
+          ),
+        )
+        .map((row) => ({ ...row })),
+    ),
+  };
+
+  return { rows, prisma: { executionOrder } };
+};
+
+describe('OrderExecutionService', () => {
+  let executionConfig: OkxExecutionConfig;
+  let rows: Map<string, ExecutionOrder>;
+  let prisma: ReturnType<typeof createPrismaStub>['prisma'];
+  let okxApiService: jest.Mocked<
+    Pick<
+      OkxApiService,
+      | 'isConfigured'
+      | 'getInstrument'
+      | 'setLeverage'
+      | 'placeOrder'
+      | 'getOrder'
+      | 'cancelOrder'
+    >
+  >;
+  let markExecuted: jest.Mock;
+  let service: OrderExecutionService;
+
+  const manualRequest = (overrides: Record<string, unknown> = {}) => ({
+    symbol: 'BTCUSDT',
+    direction: TradingDirection.LONG,
+    entryPrice: 60000,
+    stopLoss: 59400,
+    takeProfit: 61800,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    executionConfig = {
+      enabled: true,
+      allowLive: false,
+      tdMode: 'cross',
+      posMode: 'long_short',
+      ordType: 'limit',
+      leverage: 10,
+      riskPerTradeUsd: 100,
+      maxNotionalUsd: 100000,
+      confirmationTtlMinutes: 10,
+      promptOnSignal: false,
+    };
+    const configService = {
+      get: (key: string) =>
+        key === 'okx.execution' ? executionConfig : { sandbox: true },
+    } as unknown as ConfigService;
+
+    ({ rows, prisma } = createPrismaStub());
+    okxApiService = {
+      isConfigured: jest.fn().mockReturnValue(true),
+      getInstrument: jest.fn().mockResolvedValue(instrument),
+      setLeverage: jest.fn().mockResolvedValue(undefined),
+      placeOrder: jest
+        .fn()
+        .mockResolvedValue({ ordId: '9001', clOrdId: '', sCode: '0' }),
+      getOrder: jest.fn().mockResolvedValue(okxOrder('live')),
+      cancelOrder: jest
+        .fn()
+        .mockResolvedValue({ ordId: '9001', clOrdId: '', sCode: '0' }),
+    };
+    markExecuted = jest.fn().mockResolvedValue(undefined);
+
+    service = new OrderExecutionService(
+      prisma as unknown as PrismaService,
+      configService,
+      okxApiService as unknown as OkxApiService,
+      { markExecuted } as unknown as ActionableSignalService,
+      {
+        sendMessage: jest.fn().mockResolvedValue({ success: false }),
+      } as unknown as TelegramBotService,
+    );
+  });
+
+  describe('下单计划', () => {
+    it('按单笔风险计算张数并向下取整到下单精度', async () => {
+      const order = await service.requestManual(
+        manualRequest({ entryPrice: 60000.04 }),
+      );
+
+      // 每张止损亏损 600 * 0.01 = 6 USDT，100 / 6 = 16.67 张，按 0.1 精度向下取整
+      expect(order).toMatchObject({
+        status: 'PENDING_CONFIRMATION',
+        instId: 'BTC-USDT-SWAP',
+        side: 'buy',
+        posSide: 'long',
+        size: 16.6,
+        entryPrice: 60000,
+        price: 60000,
+        riskUsd: 99.6,
+        notionalUsd: 9960,
+      });
+    });
+
+    it('名义价值超过上限时按上限缩小张数', async () => {
+      executionConfig.maxNotionalUsd = 5000;
+
+      const order = await service.requestManual(manualRequest());
+
+      // 5000 / (0.01 * 60000) = 8.33 张
+      expect(order.size).toBe(8.3);
+      expect(order.notionalUsd).toBe(4980);
+    });
+
+    it('指定张数时同样按精度取整，小于最小下单数量时拒绝', async () => {
+      const order = await service.requestManual(
+        manualRequest({ size: '1.27' }),
+      );
+      expect(order.size).toBe(1.2);
+
+      await expect(
+        service.requestManual(manualRequest({ size: '0.05' })),
+      ).rejects.toThrow('小于最小下单数量');
+    });
+
+    it.each([
+      ['做多止盈低于入场价', TradingDirection.LONG, 59000, 58000],
+      ['做多止损高于入场价', TradingDirection.LONG, 61000, 60500],
+      ['做空止盈高于入场价', TradingDirection.SHORT, 61000, 62000],
+      ['做空止损低于入场价', TradingDirection.SHORT, 59000, 59500],
+    ])('%s时拒绝下单', async (_, direction, takeProfit, stopLoss) => {
+      await expect(
+        service.requestManual(
+          manualRequest({ direction, takeProfit, stopLoss }),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.executionOrder.create).not.toHaveBeenCalled();
+    });
+
+    it('未设置止损且未指定张数时拒绝下单', async () => {
+      await expect(
+        service.requestManual(manualRequest({ stopLoss: undefined })),
+      ).rejects.toThrow('未设置止损时必须指定委托数量');
+    });
+
+    it('实盘环境未允许实盘下单时拒绝', async () => {
+      service = new OrderExecutionService(
+        prisma as unknown as PrismaService,
+        {
+          get: (key: string) =>
+            key === 'okx.execution' ? executionConfig : { sandbox: false },
+        } as unknown as ConfigService,
+        okxApiService as unknown as OkxApiService,
+        { markExecuted } as unknown as ActionableSignalService,
+        { sendMessage: jest.fn() } as unknown as TelegramBotService,
+      );
+
+      await expect(service.requestManual(manualRequest())).rejects.toThrow(
+        '未允许实盘下单',
+      );
+    });
+  });
+
+  describe('确认和提交', () => {
+    it('确认后设置杠杆并附带止盈止损下单', async () => {
+      const request = await service.requestManual(manualRequest());
+
+      const order = await service.confirm(request.id, 'tester');
+
+      expect(order).toMatchObject({ status: 'LIVE', ordId: '9001' });
+      expect(okxApiService.setLeverage).toHaveBeenCalledWith({
+        instId: 'BTC-USDT-SWAP',
+        lever: '10',
+        mgnMode: 'cross',
+      });
+      expect(okxApiService.placeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          side: 'buy',
+          posSide: 'long',
+          ordType: 'limit',
+          sz: '16.6',
+          px: '60000',
+          clOrdId: request.clOrdId,
+          attachAlgoOrds: [
+            expect.objectContaining({
+              tpTriggerPx: '61800',
+              slTriggerPx: '59400',
+            }),
+          ],
+        }),
+      );
+    });
+
+    it('重复确认只提交一次', async () => {
+      const request = await service.requestManual(manualRequest());
+
+      const results = await Promise.allSettled([
+        service.confirm(request.id, 'tester'),
+        service.confirm(request.id, 'tester'),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(prisma.executionOrder.updateMany).toHaveBeenCalledTimes(2);
+      expect(okxApiService.placeOrder).toHaveBeenCalledTimes(1);
+      expect(rows.get(request.id).status).toBe('LIVE');
+    });
+
+    it('确认已过期的请求时标记为过期', async () => {
+      const request = await service.requestManual(manualRequest());
+      rows.get(request.id).expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.confirm(request.id, 'tester')).rejects.toThrow(
+        '下单确认已过期',
+      );
+      expect(rows.get(request.id).status).toBe('EXPIRED');
+      expect(okxApiService.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('OKX 明确拒绝下单时标记为失败', async () => {
+      okxApiService.placeOrder.mockRejectedValue(
+        new OkxApiError('OKX API 错误: Insufficient margin (51008)', '51008'),
+      );
+      const request = await service.requestManual(manualRequest());
+
+      const order = await service.confirm(request.id, 'tester');
+
+      expect(order.status).toBe('FAILED');
+      expect(order.error).toContain('51008');
+      expect(order.closedAt).not.toBeNull();
+    });
+
+    it('设置杠杆失败时尚未下单，标记为失败', async () => {
+      okxApiService.setLeverage.mockRejectedValue(new Error('socket hang up'));
+      const request = await service.requestManual(manualRequest());
+
+      const order = await service.confirm(request.id, 'tester');
+
+      expect(order.status).toBe('FAILED');
+      expect(okxApiService.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('下单请求超时时保持提交中，等待按 clOrdId 核对', async () => {
+      okxApiService.placeOrder.mockRejectedValue(
+        Object.assign(new Error('timeout of 30000ms exceeded'), {
+          code: 'ECONNABORTED',
+        }),
+      );
+      const request = await service.requestManual(manualRequest());
+
+      const order = await service.confirm(request.id, 'tester');
+
+      expect(order.status).toBe('SUBMITTING');
+      expect(order.error).toContain('提交结果未知');
+      expect(rows.get(request.id)).toMatchObject({
+        status: 'SUBMITTING',
+        closedAt: null,
+      });
+    });
+
+    it('HTTP 错误响应带有 OKX 错误码时视为明确拒绝', async () => {
+      okxApiService.placeOrder.mockRejectedValue(
+        Object.assign(new Error('Request failed with status code 400'), {
+          response: { data: { code: '51000', msg: 'Parameter sz error' } },
+        }),
+      );
+      const request = await service.requestManual(manualRequest());
+
+      const order = await service.confirm(request.id, 'tester');
+
+      expect(order).toMatchObject({
+        status: 'FAILED',
+        error: 'Parameter sz error',
+      });
+    });
+
+    it('下单成功但保存状态失败时不标记为失败', async () => {
+      const request = await service.requestManual(manualRequest());
+      prisma.executionOrder.update.mockRejectedValueOnce(
+        new Error('database unavailable'),
+      );
+
+      const order = await service.confirm(request.id, 'tester');
+
+      expect(order).toMatchObject({ status: 'SUBMITTING', ordId: '9001' });
+      expect(rows.get(request.id).status).toBe('SUBMITTING');
+      expect(prisma.executionOrder.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('订单状态同步', () => {
+    /** 生成一笔提交结果未知、已超过核对等待时间的订单 */
+    const createStaleSubmitting = async () => {
+      okxApiService.placeOrder.mockRejectedValue(
+        new Error('timeout of 30000ms exceeded'),
+      );
+      const request = await service.requestManual(manualRequest());
+      await service.confirm(request.id, 'tester');
+      rows.get(request.id).confirmedAt = new Date(Date.now() - 10 * 60 * 1000);
+      return request.id;
+    };
+
+    it('OKX 确认订单不存在时将提交中的订单标记为失败', async () => {
+      const id = await createStaleSubmitting();
+      okxApiService.getOrder.mockResolvedValue(null);
+
+      await service.syncScheduled();
+
+      expect(rows.get(id).status).toBe('FAILED');
+      expect(rows.get(id).error).toContain('未找到该订单');
+      expect(rows.get(id).closedAt).not.toBeNull();
+    });
+
+    it('查询订单遇到限频等其他错误时保持提交中', async () => {
+      const id = await createStaleSubmitting();
+      okxApiService.getOrder.mockRejectedValue(
+        new OkxApiError('OKX API 错误: Too Many Requests', '50011'),
+      );
+
+      await service.syncScheduled();
+
+      expect(okxApiService.getOrder).toHaveBeenCalledTimes(1);
+      expect(rows.get(id)).toMatchObject({
+        status: 'SUBMITTING',
+        closedAt: null,
+      });
+    });
+
+    it('查询到订单后恢复为挂单状态', async () => {
+      const id = await createStaleSubmitting();
+
+      await service.syncScheduled();
+
+      expect(rows.get(id)).toMatchObject({
+        status: 'LIVE',
+        ordId: '9001',
+        error: null,
+      });
+    });
+  });
+
+  describe('撤单', () => {
+    it('OKX 尚未确认撤销时保持原状态，等待定时同步', async () => {
+      const request = await service.requestManual(manualRequest());
+      await service.confirm(request.id, 'tester');
+
+      const order = await service.cancel(request.id);
+
+      expect(okxApiService.cancelOrder).toHaveBeenCalledWith(
+        'BTC-USDT-SWAP',
+        '9001',
+      );
+      expect(order.status).toBe('LIVE');
+      expect(rows.get(request.id).closedAt).toBeNull();
+    });
+
+    it('撤单时订单已部分成交，按 OKX 返回的状态更新', async () => {
+      const request = await service.requestManual(manualRequest());
+      await service.confirm(request.id, 'tester');
+      okxApiService.getOrder.mockResolvedValue({
+        ...okxOrder('partially_filled'),
+        accFillSz: '3',
+        avgPx: '60000',
+      });
+
+      const order = await service.cancel(request.id);
+
+      expect(order).toMatchObject({
+        status: 'PARTIALLY_FILLED',
+        filledSize: 3,
+        closedAt: null,
+      });
+    });
+
+    it('OKX 确认已撤销时标记为已撤销', async () => {
+      const request = await service.requestManual(manualRequest());
+      await service.confirm(request.id, 'tester');
+      okxApiService.getOrder.mockResolvedValue(okxOrder('canceled'));
+
+      const order = await service.cancel(request.id);
+
+      expect(order.status).toBe('CANCELED');
+      expect(order.closedAt).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,1247 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { ExecutionOrder, Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import * as TelegramBot from 'node-telegram-bot-api';
+import { OkxConfig, OkxExecutionConfig } from 'src/config/okx.config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TelegramBotService } from 'src/modules/telegram-bot';
+import {
+  OkxApiError,
+  OkxApiService,
+} from 'src/modules/okx-integration/services/okx-api.service';
+import {
+  OkxInstrumentData,
+  OkxOrderData,
+} from 'src/modules/okx-integration/interfaces/okx-trade.interface';
+import { ActionableSignalService } from 'src/modules/trading-decision/services';
+import { ActionableSignalView } from 'src/modules/trading-decision/interfaces';
+import { ActionableSignalStatus, TradingDirection } from 'src/shared/enums';
+import {
+  AmendExecutionOrderDto,
+  CreateExecutionOrderDto,
+  ExecutionOrderQueryDto,
+  SignalExecutionDto,
+} from '../dto';
+import {
+  ExecutionOrderPlan,
+  ExecutionOrderRequest,
+  ExecutionOrderStatus,
+  ExecutionOrderView,
+  ExecutionStatus,
+} from '../interfaces';
+import { ExecutionMessageFormatter } from '../utils';
+
+const CONFIRM_CALLBACK_PREFIX = 'exec_confirm:';
+const REJECT_CALLBACK_PREFIX = 'exec_reject:';
+
+/** 已提交到 OKX、仍需同步状态的订单 */
+const OPEN_STATUSES: ExecutionOrderStatus[] = ['LIVE', 'PARTIALLY_FILLED'];
+
+/** 提交中超过该时间仍无结果的订单需要向 OKX 查询 */
+const STALE_SUBMITTING_MS = 5 * 60 * 1000;
+
+/** OKX 错误码：订单不存在 */
+const ORDER_NOT_FOUND_CODE = '51603';
+
+/** OKX 订单状态 → 执行状态 */
+const OKX_ORDER_STATES: Record<string, ExecutionOrderStatus> = {
+  live: 'LIVE',
+  partially_filled: 'PARTIALLY_FILLED',
+  filled: 'FILLED',
+  canceled: 'CANCELED',
+  mmp_canceled: 'CANCELED',
+};
+
+/**
+ * 下单执行服务
+ * 根据可执行信号或手动参数生成下单计划，经 Telegram 内联按钮确认后在 OKX 下单（附带止盈止损），
+ * 并定时同步订单状态、将成交后的交易记录关联回订单和信号
+ */
+@Injectable()
+export class OrderExecutionService implements OnModuleInit {
+  private readonly logger = new Logger(OrderExecutionService.name);
+  private isSyncing = false;
+
+  // 已自动发起过确认请求的信号，避免计划生成失败时每分钟重复尝试
+  private promptedSignals = new Set<string>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly okxApiService: OkxApiService,
+    private readonly actionableSignalService: ActionableSignalService,
+    private readonly telegramBotService: TelegramBotService,
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.telegramBotService.isEnabled()) {
+      this.logger.log('Telegram Bot 未启用，下单确认按钮不可用');
+      return;
+    }
+
+    this.telegramBotService.registerCallbackQueryHandlers([
+      {
+        pattern: new RegExp(`^${CONFIRM_CALLBACK_PREFIX}`),
+        description: '确认下单',
+        handler: (query) => this.handleCallback(query, true),
+      },
+      {
+        pattern: new RegExp(`^${REJECT_CALLBACK_PREFIX}`),
+        description: '取消下单',
+        handler: (query) => this.handleCallback(query, false),
+      },
+    ]);
+  }
+
+  /**
+   * 获取下单功能状态
+   */
+  async getStatus(): Promise<ExecutionStatus> {
+    const config = this.getConfig();
+    const [pendingConfirmations, openOrders] = await Promise.all([
+      this.prisma.executionOrder.count({
+        where: { status: 'PENDING_CONFIRMATION' },
+      }),
+      this.prisma.executionOrder.count({
+        where: { status: { in: OPEN_STATUSES } },
+      }),
+    ]);
+    const reason = this.getTradeBlockReason();
+
+    return {
+      enabled: config.enabled,
+      configured: this.okxApiService.isConfigured(),
+      sandbox: this.isSandbox(),
+      allowLive: config.allowLive,
+      canTrade: reason === null,
+      reason,
+      tdMode: config.tdMode,
+      posMode: config.posMode,
+      ordType: config.ordType,
+      leverage: config.leverage,
+      riskPerTradeUsd: config.riskPerTradeUsd,
+      maxNotionalUsd: config.maxNotionalUsd,
+      confirmationTtlMinutes: config.confirmationTtlMinutes,
+      promptOnSignal: config.promptOnSignal,
+      pendingConfirmations,
+      openOrders,
+    };
+  }
+
+  /**
+   * 查询下单执行记录
+   */
+  async findAll(query: ExecutionOrderQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+    const skip = (page - 1) * limit;
+    const where: Prisma.ExecutionOrderWhereInput = {};
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    if (query.signalId) {
+      where.signalId = query.signalId;
+    }
+
+    if (query.instId) {
+      where.instId = query.instId.toUpperCase();
+    }
+
+    const [orders, total] = await Promise.all([
+      this.prisma.executionOrder.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.executionOrder.count({ where }),
+    ]);
+
+    return {
+      data: orders.map((order) => this.toView(order)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 获取单个下单执行记录
+   */
+  async findOne(id: string): Promise<ExecutionOrderView> {
+    return this.toView(await this.getOrThrow(id));
+  }
+
+  /**
+   * 按可执行信号发起下单确认请求
+   * @param signalId 可执行信号ID
+   * @param options 订单类型、杠杆、数量等可选参数
+   */
+  async requestFromSignal(
+    signalId: string,
+    options: SignalExecutionDto = {},
+  ): Promise<ExecutionOrderView> {
+    const signal = await this.actionableSignalService.findById(signalId);
+
+    if (signal.status !== ActionableSignalStatus.ACTIVE) {
+      throw new BadRequestException(
+        `信号状态为 ${signal.status}，只能对活跃信号下单`,
+      );
+    }
+
+    const existing = await this.prisma.executionOrder.findFirst({
+      where: {
+        signalId,
+        status: {
+          in: [
+            'PENDING_CONFIRMATION',
+            'SUBMITTING',
+            ...OPEN_STATUSES,
+            'FILLED',
+          ],
+        },
+      },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `信号已有下单记录 ${existing.id}（${existing.status}）`,
+      );
+    }
+
+    return this.createRequest(
+      {
+        ...this.pickOptions(options),
+        signalId,
+        symbol: signal.symbol,
+        direction: signal.direction,
+        entryPrice: signal.entryPrice,
+        takeProfit: signal.takeProfit,
+        stopLoss: signal.stopLoss,
+      },
+      signal,
+    );
+  }
+
+  /**
+   * 按手动参数发起下单确认请求
+   */
+  async requestManual(
+    dto: CreateExecutionOrderDto,
+  ): Promise<ExecutionOrderView> {
+    if (!dto.symbol) {
+      throw new BadRequestException('交易对符号不能为空');
+    }
+
+    if (!Object.values(TradingDirection).includes(dto.direction)) {
+      throw new BadRequestException('不支持的交易方向');
+    }
+
+    return this.createRequest(
+      {
+        ...this.pickOptions(dto),
+        symbol: dto.symbol,
+        direction: dto.direction,
+        entryPrice: Number(dto.entryPrice),
+        takeProfit: this.toOptionalNumber(dto.takeProfit),
+        stopLoss: this.toOptionalNumber(dto.stopLoss),
+      },
+      null,
+    );
+  }
+
+  /**
+   * 确认下单并提交到 OKX
+   * @param id 下单执行记录ID
+   * @param confirmedBy 确认人
+   */
+  async confirm(id: string, confirmedBy: string): Promise<ExecutionOrderView> {
+    // 通过条件更新抢占状态，重复点击确认按钮只会提交一次
+    const { count } = await this.prisma.executionOrder.updateMany({
+      where: {
+        id,
+        status: 'PENDING_CONFIRMATION',
+        expiresAt: { gt: new Date() },
+      },
+      data: { status: 'SUBMITTING', confirmedBy, confirmedAt: new Date() },
+    });
+
+    if (count === 0) {
+      const order = await this.getOrThrow(id);
+      if (
+        order.status === 'PENDING_CONFIRMATION' &&
+        order.expiresAt <= new Date()
+      ) {
+        await this.prisma.executionOrder.update({
+          where: { id },
+          data: { status: 'EXPIRED', closedAt: new Date() },
+        });
+        throw new BadRequestException('下单确认已过期');
+      }
+      throw new BadRequestException(`订单状态为 ${order.status}，无法确认`);
+    }
+
+    return this.submit(await this.getOrThrow(id));
+  }
+
+  /**
+   * 拒绝下单确认请求
+   * @param id 下单执行记录ID
+   * @param rejectedBy 操作人
+   */
+  async reject(id: string, rejectedBy: string): Promise<ExecutionOrderView> {
+    const { count } = await this.prisma.executionOrder.updateMany({
+      where: { id, status: 'PENDING_CONFIRMATION' },
+      data: {
+        status: 'REJECTED',
+        confirmedBy: rejectedBy,
+        closedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      const order = await this.getOrThrow(id);
+      throw new BadRequestException(`订单状态为 ${order.status}，无法取消`);
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * 修改订单：未成交订单可修改价格、数量和止盈止损，已成交订单只能修改止盈止损
+   */
+  async amend(
+    id: string,
+    dto: AmendExecutionOrderDto,
+  ): Promise<ExecutionOrderView> {
+    const order = await this.getOrThrow(id);
+    const price = this.toOptionalNumber(dto.price);
+    const size = this.toOptionalNumber(dto.size);
+    const takeProfit = this.toOptionalNumber(dto.takeProfit);
+    const stopLoss = this.toOptionalNumber(dto.stopLoss);
+
+    if (
+      [price, size, takeProfit, stopLoss].every((value) => value === undefined)
+    ) {
+      throw new BadRequestException('没有需要修改的内容');
+    }
+
+    const isOpen = OPEN_STATUSES.includes(order.status as ExecutionOrderStatus);
+    if (!isOpen && order.status !== 'FILLED') {
+      throw new BadRequestException(`订单状态为 ${order.status}，无法修改`);
+    }
+
+    if (!isOpen && (price !== undefined || size !== undefined)) {
+      throw new BadRequestException('订单已完全成交，只能修改止盈止损');
+    }
+
+    if (price !== undefined && order.ordType === 'market') {
+      throw new BadRequestException('市价单不能修改委托价格');
+    }
+
+    if (
+      (takeProfit !== undefined || stopLoss !== undefined) &&
+      !order.algoClOrdId
+    ) {
+      throw new BadRequestException('订单下单时未附带止盈止损，无法修改');
+    }
+
+    this.assertCanTrade();
+    const instrument = await this.getInstrument(order.instId);
+    const newPrice =
+      price !== undefined ? this.roundPrice(price, instrument) : undefined;
+    const newSize =
+      size !== undefined ? this.roundSize(size, instrument) : undefined;
+    const newTakeProfit =
+      takeProfit !== undefined
+        ? this.roundPrice(takeProfit, instrument)
+        : undefined;
+    const newStopLoss =
+      stopLoss !== undefined
+        ? this.roundPrice(stopLoss, instrument)
+        : undefined;
+
+    if (newSize !== undefined && newSize < Number(instrument.minSz)) {
+      throw new BadRequestException(
+        `委托数量不能小于最小下单数量 ${instrument.minSz}`,
+      );
+    }
+
+    const referencePrice =
+      newPrice ??
+      (order.avgPx !== null ? Number(order.avgPx) : Number(order.entryPrice));
+    this.validateLevels(
+      order.direction as TradingDirection,
+      referencePrice,
+      newTakeProfit ?? this.toNullableNumber(order.takeProfit),
+      newStopLoss ?? this.toNullableNumber(order.stopLoss),
+    );
+
+    try {
+      if (isOpen) {
+        await this.okxApiService.amendOrder({
+          instId: order.instId,
+          ordId: order.ordId!,
+          ...(newSize !== undefined && { newSz: String(newSize) }),
+          ...(newPrice !== undefined && { newPx: String(newPrice) }),
+          ...((newTakeProfit !== undefined || newStopLoss !== undefined) && {
+            attachAlgoOrds: [
+              {
+                attachAlgoClOrdId: order.algoClOrdId!,
+                ...(newTakeProfit !== undefined && {
+                  newTpTriggerPx: String(newTakeProfit),
+                  newTpOrdPx: '-1',
+                }),
+                ...(newStopLoss !== undefined && {
+                  newSlTriggerPx: String(newStopLoss),
+                  newSlOrdPx: '-1',
+                }),
+              },
+            ],
+          }),
+        });
+      } else {
+        await this.okxApiService.amendAlgoOrder({
+          instId: order.instId,
+          algoClOrdId: order.algoClOrdId!,
+          ...(newTakeProfit !== undefined && {
+            newTpTriggerPx: String(newTakeProfit),
+            newTpOrdPx: '-1',
+          }),
+          ...(newStopLoss !== undefined && {
+            newSlTriggerPx: String(newStopLoss),
+            newSlOrdPx: '-1',
+          }),
+        });
+      }
+    } catch (error) {
+      throw new BadRequestException(
+        `修改订单失败: ${this.describeError(error)}`,
+      );
+    }
+
+    const updated = await this.prisma.executionOrder.update({
+      where: { id },
+      data: {
+        ...(newPrice !== undefined && { price: newPrice }),
+        ...(newSize !== undefined && {
+          size: newSize,
+          notionalUsd: this.calculateNotional(
+            newSize,
+            newPrice ?? Number(order.entryPrice),
+            instrument,
+          ),
+        }),
+        ...(newTakeProfit !== undefined && { takeProfit: newTakeProfit }),
+        ...(newStopLoss !== undefined && { stopLoss: newStopLoss }),
+      },
+    });
+
+    this.logger.log(`订单 ${order.instId} ${order.ordId} 已修改`);
+    return this.toView(updated);
+  }
+
+  /**
+   * 撤销订单：等待确认的请求直接取消，已挂单的订单在 OKX 撤单
+   * 撤单请求可能与成交同时发生，最终状态以 OKX 查询结果为准，未确认前保持原状态由定时同步更新
+   */
+  async cancel(id: string): Promise<ExecutionOrderView> {
+    const order = await this.getOrThrow(id);
+
+    if (order.status === 'PENDING_CONFIRMATION') {
+      return this.reject(id, 'API');
+    }
+
+    if (!OPEN_STATUSES.includes(order.status as ExecutionOrderStatus)) {
+      throw new BadRequestException(`订单状态为 ${order.status}，无法撤销`);
+    }
+
+    try {
+      await this.okxApiService.cancelOrder(order.instId, order.ordId!);
+    } catch (error) {
+      throw new BadRequestException(`撤单失败: ${this.describeError(error)}`);
+    }
+
+    const refreshed = await this.refreshOrder(order).catch(() => null);
+    if (!refreshed || refreshed.status === order.status) {
+      this.logger.log(
+        `订单 ${order.instId} ${order.ordId} 已提交撤单，等待同步最终状态`,
+      );
+    }
+    return this.toView(refreshed ?? order);
+  }
+
+  /**
+   * 定时维护下单记录：过期未确认的请求、同步订单状态、关联交易记录、为新信号发起确认
+   */
+  @Cron('20 * * * * *', {
+    name: 'order-execution-sync',
+    timeZone: 'Asia/Shanghai',
+  })
+  async syncScheduled(): Promise<void> {
+    if (this.isSyncing) {
+      this.logger.warn('上一次下单状态同步尚未完成，跳过本次执行');
+      return;
+    }
+
+    this.isSyncing = true;
+    try {
+      await this.expirePendingRequests();
+
+      if (this.okxApiService.isConfigured()) {
+        await this.refreshOpenOrders();
+        await this.linkTradingRecords();
+      }
+
+      const config = this.getConfig();
+      if (config.promptOnSignal && this.getTradeBlockReason() === null) {
+        await this.promptNewSignals();
+      }
+    } catch (error) {
+      this.logger.error(`下单状态同步失败: ${error.message}`);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * 生成下单计划并发送 Telegram 确认请求
+   */
+  private async createRequest(
+    request: ExecutionOrderRequest,
+    signal: ActionableSignalView | null,
+  ): Promise<ExecutionOrderView> {
+    this.assertCanTrade();
+
+    const config = this.getConfig();
+    const plan = await this.buildPlan(request);
+    const posSide =
+      config.posMode === 'net'
+        ? 'net'
+        : plan.direction === TradingDirection.LONG
+          ? 'long'
+          : 'short';
+    const idSuffix = Date.now().toString(36) + randomBytes(4).toString('hex');
+    const hasAlgo = plan.takeProfit !== null || plan.stopLoss !== null;
+
+    const created = await this.prisma.executionOrder.create({
+      data: {
+        signalId: plan.signalId,
+        status: 'PENDING_CONFIRMATION',
+        sandbox: this.isSandbox(),
+        instId: plan.instId,
+        direction: plan.direction,
+        side: plan.direction === TradingDirection.LONG ? 'buy' : 'sell',
+        posSide,
+        ordType: plan.ordType,
+        tdMode: config.tdMode,
+        size: plan.size,
+        price: plan.ordType === 'limit' ? plan.entryPrice : null,
+        entryPrice: plan.entryPrice,
+        takeProfit: plan.takeProfit,
+        stopLoss: plan.stopLoss,
+        leverage: plan.leverage,
+        notionalUsd: plan.notionalUsd,
+        riskUsd: plan.riskUsd,
+        clOrdId: `ex${idSuffix}`,
+        algoClOrdId: hasAlgo ? `tpsl${idSuffix}` : null,
+        expiresAt: new Date(
+          Date.now() + config.confirmationTtlMinutes * 60 * 1000,
+        ),
+      },
+    });
+    const view = this.toView(created);
+
+    const result = await this.telegramBotService.sendMessage(
+      ExecutionMessageFormatter.formatConfirmationRequest(view, signal),
+      undefined,
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: '✅ 确认下单',
+                callback_data: `${CONFIRM_CALLBACK_PREFIX}${created.id}`,
+              },
+              {
+                text: '❌ 取消',
+                callback_data: `${REJECT_CALLBACK_PREFIX}${created.id}`,
+              },
+            ],
+          ],
+        },
+      },
+    );
+
+    if (!result.success) {
+      this.logger.warn(`下单确认请求发送失败: ${result.error}`);
+      return view;
+    }
+
+    const updated = await this.prisma.executionOrder.update({
+      where: { id: created.id },
+      data: {
+        telegramChatId: String(this.telegramBotService.getConfig().chatId),
+        telegramMessageId: result.messageId,
+      },
+    });
+
+    this.logger.log(
+      `已发送下单确认请求: ${plan.instId} ${plan.direction} ${plan.size} 张${plan.signalId ? `（信号 ${plan.signalId}）` : ''}`,
+    );
+    return this.toView(updated);
+  }
+
+  /**
+   * 计算下单数量并按产品精度规整价格
+   */
+  private async buildPlan(
+    request: ExecutionOrderRequest,
+  ): Promise<ExecutionOrderPlan> {
+    const config = this.getConfig();
+    const instId = this.toInstId(request.symbol);
+    const instrument = await this.getInstrument(instId);
+
+    if (instrument.state !== 'live') {
+      throw new BadRequestException(
+        `${instId} 当前不可交易（${instrument.state}）`,
+      );
+    }
+
+    if (!(request.entryPrice > 0)) {
+      throw new BadRequestException('入场价必须大于0');
+    }
+
+    const ordType = request.ordType || config.ordType;
+    const leverage = Math.round(request.leverage || config.leverage);
+    if (leverage < 1 || leverage > Number(instrument.maxLever)) {
+      throw new BadRequestException(
+        `杠杆倍数必须在 1-${instrument.maxLever} 之间`,
+      );
+    }
+
+    const entryPrice = this.roundPrice(request.entryPrice, instrument);
+    const takeProfit =
+      request.takeProfit !== undefined
+        ? this.roundPrice(request.takeProfit, instrument)
+        : null;
+    const stopLoss =
+      request.stopLoss !== undefined
+        ? this.roundPrice(request.stopLoss, instrument)
+        : null;
+    this.validateLevels(request.direction, entryPrice, takeProfit, stopLoss);
+
+    const ctVal = Number(instrument.ctVal);
+    let size: number;
+    if (request.size !== undefined) {
+      size = request.size;
+    } else {
+      if (stopLoss === null) {
+        throw new BadRequestException('未设置止损时必须指定委托数量');
+      }
+      const riskUsd = request.riskUsd ?? config.riskPerTradeUsd;
+      if (!(riskUsd > 0)) {
+        throw new BadRequestException('单笔风险必须大于0');
+      }
+      size = riskUsd / (Math.abs(entryPrice - stopLoss) * ctVal);
+    }
+
+    // 名义价值不超过单笔上限
+    size = Math.min(size, config.maxNotionalUsd / (ctVal * entryPrice));
+    size = this.roundSize(size, instrument);
+
+    if (size < Number(instrument.minSz)) {
+      throw new BadRequestException(
+        `计算得到的委托数量 ${size} 小于最小下单数量 ${instrument.minSz}，请调大单笔风险或名义价值上限`,
+      );
+    }
+
+    return {
+      signalId: request.signalId || null,
+      instId,
+      direction: request.direction,
+      ordType,
+      size,
+      entryPrice,
+      takeProfit,
+      stopLoss,
+      leverage,
+      notionalUsd: this.calculateNotional(size, entryPrice, instrument),
+      riskUsd:
+        stopLoss !== null
+          ? Number((size * ctVal * Math.abs(entryPrice - stopLoss)).toFixed(4))
+          : null,
+    };
+  }
+
+  /**
+   * 设置杠杆并提交订单（附带止盈止损）
+   * 只有 OKX 明确拒绝时才标记为失败；超时等结果未知的情况保持提交中，由定时同步按 clOrdId 核对
+   */
+  private async submit(order: ExecutionOrder): Promise<ExecutionOrderView> {
+    const config = this.getConfig();
+    let requested = false;
+    let ordId: string;
+
+    try {
+      this.assertCanTrade();
+
+      await this.okxApiService.setLeverage({
+        instId: order.instId,
+        lever: String(order.leverage),
+        mgnMode: order.tdMode,
+        // 逐仓开平仓模式下需要按持仓方向设置杠杆
+        ...(order.tdMode === 'isolated' &&
+          config.posMode === 'long_short' && { posSide: order.posSide }),
+      });
+
+      const takeProfit = this.toNullableNumber(order.takeProfit);
+      const stopLoss = this.toNullableNumber(order.stopLoss);
+      requested = true;
+      const result = await this.okxApiService.placeOrder({
+        instId: order.instId,
+        tdMode: order.tdMode,
+        side: order.side,
+        ...(order.posSide !== 'net' && { posSide: order.posSide }),
+        ordType: order.ordType,
+        sz: String(Number(order.size)),
+        ...(order.price !== null && { px: String(Number(order.price)) }),
+        clOrdId: order.clOrdId,
+        ...(order.algoClOrdId && {
+          attachAlgoOrds: [
+            {
+              attachAlgoClOrdId: order.algoClOrdId,
+              ...(takeProfit !== null && {
+                tpTriggerPx: String(takeProfit),
+                tpOrdPx: '-1',
+                tpTriggerPxType: 'last',
+              }),
+              ...(stopLoss !== null && {
+                slTriggerPx: String(stopLoss),
+                slOrdPx: '-1',
+                slTriggerPxType: 'last',
+              }),
+            },
+          ],
+        }),
+      });
+      ordId = result.ordId;
+    } catch (error) {
+      const message = this.describeError(error);
+
+      if (requested && !this.isRejectedByOkx(error)) {
+        this.logger.warn(
+          `下单结果未知 (${order.id})，等待定时同步核对: ${message}`,
+        );
+        const pending = await this.prisma.executionOrder.update({
+          where: { id: order.id },
+          data: { error: `提交结果未知: ${message}` },
+        });
+        return this.toView(pending);
+      }
+
+      this.logger.error(`下单失败 (${order.id}): ${message}`);
+      const failed = await this.prisma.executionOrder.update({
+        where: { id: order.id },
+        data: { status: 'FAILED', error: message, closedAt: new Date() },
+      });
+      return this.toView(failed);
+    }
+
+    this.logger.log(
+      `下单成功: ${order.instId} ${order.side} ${order.size} 张，OKX 订单ID ${ordId}`,
+    );
+
+    let placed: ExecutionOrder;
+    try {
+      placed = await this.prisma.executionOrder.update({
+        where: { id: order.id },
+        data: { status: 'LIVE', ordId, placedAt: new Date() },
+      });
+    } catch (error) {
+      // 订单已在 OKX 生效，保持提交中状态，由定时同步按 clOrdId 补全
+      this.logger.error(
+        `下单成功但保存订单状态失败 (${order.id}): ${error.message}`,
+      );
+      return this.toView({ ...order, ordId });
+    }
+
+    if (order.signalId) {
+      await this.actionableSignalService
+        .markExecuted(order.signalId)
+        .catch((error) =>
+          this.logger.warn(
+            `标记信号 ${order.signalId} 已执行失败: ${error.message}`,
+          ),
+        );
+    }
+
+    return this.toView(placed);
+  }
+
+  /**
+   * 处理 Telegram 确认/取消按钮
+   */
+  private async handleCallback(
+    query: TelegramBot.CallbackQuery,
+    confirmed: boolean,
+  ): Promise<void> {
+    const data = query.data || '';
+    const id = data.slice(
+      (confirmed ? CONFIRM_CALLBACK_PREFIX : REJECT_CALLBACK_PREFIX).length,
+    );
+    const chatId = query.message?.chat.id;
+    const operator =
+      query.from.username || query.from.first_name || String(query.from.id);
+
+    const order = await this.prisma.executionOrder.findUnique({
+      where: { id },
+    });
+
+    // 只接受发送确认请求的聊天中的操作
+    if (!order || !chatId || order.telegramChatId !== String(chatId)) {
+      this.logger.warn(`忽略无效的下单确认操作: ${data} (chat: ${chatId})`);
+      return;
+    }
+
+    let view: ExecutionOrderView;
+    try {
+      view = confirmed
+        ? await this.confirm(id, operator)
+        : await this.reject(id, operator);
+    } catch (error) {
+      await this.telegramBotService.sendMessage(
+        `⚠️ ${error.message}\n🆔 <code>${id}</code>`,
+        chatId,
+      );
+      return;
+    }
+
+    await this.telegramBotService.sendMessage(
+      ExecutionMessageFormatter.formatResult(view),
+      chatId,
+    );
+  }
+
+  /**
+   * 将超过有效期的确认请求标记为过期
+   */
+  private async expirePendingRequests(): Promise<void> {
+    const { count } = await this.prisma.executionOrder.updateMany({
+      where: { status: 'PENDING_CONFIRMATION', expiresAt: { lte: new Date() } },
+      data: { status: 'EXPIRED', closedAt: new Date() },
+    });
+
+    if (count > 0) {
+      this.logger.log(`${count} 个下单确认请求已过期`);
+    }
+  }
+
+  /**
+   * 同步已提交订单的状态
+   */
+  private async refreshOpenOrders(): Promise<void> {
+    const orders = await this.prisma.executionOrder.findMany({
+      where: {
+        OR: [
+          { status: { in: OPEN_STATUSES } },
+          {
+            status: 'SUBMITTING',
+            confirmedAt: { lt: new Date(Date.now() - STALE_SUBMITTING_MS) },
+          },
+        ],
+      },
+    });
+
+    for (const order of orders) {
+      try {
+        const updated = await this.refreshOrder(order);
+        if (order.status === 'SUBMITTING' && order.signalId) {
+          await this.actionableSignalService
+            .markExecuted(order.signalId)
+            .catch(() => undefined);
+        }
+        if (
+          updated &&
+          updated.status !== order.status &&
+          updated.status === 'FILLED'
+        ) {
+          this.logger.log(`订单 ${order.instId} ${updated.ordId} 已完全成交`);
+        }
+      } catch (error) {
+        if (order.status === 'SUBMITTING' && this.isOrderNotFound(error)) {
+          // 提交过程中断且 OKX 确认不存在该订单，视为提交失败
+          // 限频、系统繁忙等其他错误无法确认订单是否存在，保持提交中等待下次核对
+          await this.prisma.executionOrder.update({
+            where: { id: order.id },
+            data: {
+              status: 'FAILED',
+              error: `提交结果未知: ${this.describeError(error)}`,
+              closedAt: new Date(),
+            },
+          });
+          continue;
+        }
+        this.logger.warn(
+          `同步订单 ${order.id} 状态失败: ${this.describeError(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 向 OKX 查询订单并更新状态和成交信息
+   */
+  private async refreshOrder(
+    order: ExecutionOrder,
+  ): Promise<ExecutionOrder | null> {
+    const okxOrder: OkxOrderData | null = await this.okxApiService.getOrder(
+      order.instId,
+      order.ordId ? { ordId: order.ordId } : { clOrdId: order.clOrdId },
+    );
+    if (!okxOrder) {
+      throw new OkxApiError('OKX 未找到该订单', ORDER_NOT_FOUND_CODE);
+    }
+
+    const status =
+      OKX_ORDER_STATES[okxOrder.state] ||
+      (order.status as ExecutionOrderStatus);
+    const isClosed = status === 'FILLED' || status === 'CANCELED';
+
+    return this.prisma.executionOrder.update({
+      where: { id: order.id },
+      data: {
+        status,
+        ordId: okxOrder.ordId,
+        filledSize: Number(okxOrder.accFillSz) || 0,
+        avgPx: Number(okxOrder.avgPx) || null,
+        placedAt: order.placedAt ?? new Date(Number(okxOrder.cTime)),
+        // 提交结果已核对，清除提交时记录的未知错误
+        ...(order.status === 'SUBMITTING' && { error: null }),
+        ...(isClosed && !order.closedAt && { closedAt: new Date() }),
+      },
+    });
+  }
+
+  /**
+   * 将已成交订单关联到 OKX 同步生成的交易记录，并回写计划价格和止盈止损
+   */
+  private async linkTradingRecords(): Promise<void> {
+    const orders = await this.prisma.executionOrder.findMany({
+      where: {
+        tradingRecordId: null,
+        ordId: { not: null },
+        filledSize: { gt: 0 },
+      },
+    });
+
+    for (const order of orders) {
+      const record = await this.prisma.tradingRecord.findFirst({
+        where: { okxOrderIds: { contains: `"${order.ordId}"` } },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (!record) {
+        continue;
+      }
+
+      const note = `系统下单 ${order.id}${order.signalId ? `，信号 ${order.signalId}` : ''}`;
+      await this.prisma.$transaction([
+        this.prisma.executionOrder.update({
+          where: { id: order.id },
+          data: { tradingRecordId: record.id },
+        }),
+        this.prisma.tradingRecord.update({
+          where: { id: record.id },
+          data: {
+            plannedPrice: record.plannedPrice ?? order.entryPrice,
+            initialTakeProfit: record.initialTakeProfit ?? order.takeProfit,
+            initialStopLoss: record.initialStopLoss ?? order.stopLoss,
+            notes: record.notes?.includes(order.id)
+              ? record.notes
+              : [record.notes, note].filter(Boolean).join('\n'),
+          },
+        }),
+      ]);
+
+      this.logger.log(`订单 ${order.ordId} 已关联交易记录 ${record.tradeId}`);
+    }
+  }
+
+  /**
+   * 为新出现的可执行信号发起下单确认请求
+   */
+  private async promptNewSignals(): Promise<void> {
+    const config = this.getConfig();
+    const since = new Date(
+      Date.now() - config.confirmationTtlMinutes * 60 * 1000,
+    );
+    const signals =
+      await this.actionableSignalService.findAwaitingExecution(since);
+
+    for (const signal of signals) {
+      if (this.promptedSignals.has(signal.id)) {
+        continue;
+      }
+      this.promptedSignals.add(signal.id);
+
+      try {
+        await this.requestFromSignal(signal.id);
+      } catch (error) {
+        this.logger.warn(
+          `信号 ${signal.symbol} ${signal.direction} 无法生成下单计划: ${error.message}`,
+        );
+      }
+    }
+
+    // 只保留有效期内的信号，避免集合无限增长
+    const activeIds = new Set(signals.map((signal) => signal.id));
+    for (const id of this.promptedSignals) {
+      if (!activeIds.has(id)) {
+        this.promptedSignals.delete(id);
+      }
+    }
+  }
+
+  /**
+   * 校验止盈止损与入场价的方向关系
+   */
+  private validateLevels(
+    direction: TradingDirection,
+    entryPrice: number,
+    takeProfit: number | null,
+    stopLoss: number | null,
+  ): void {
+    const isLong = direction === TradingDirection.LONG;
+
+    if (
+      takeProfit !== null &&
+      (isLong ? takeProfit <= entryPrice : takeProfit >= entryPrice)
+    ) {
+      throw new BadRequestException(
+        `${isLong ? '做多' : '做空'}的止盈价必须${isLong ? '高于' : '低于'}入场价`,
+      );
+    }
+
+    if (
+      stopLoss !== null &&
+      (isLong ? stopLoss >= entryPrice : stopLoss <= entryPrice)
+    ) {
+      throw new BadRequestException(
+        `${isLong ? '做多' : '做空'}的止损价必须${isLong ? '低于' : '高于'}入场价`,
+      );
+    }
+  }
+
+  /**
+   * 获取不允许下单的原因，允许时返回 null
+   */
+  private getTradeBlockReason(): string | null {
+    const config = this.getConfig();
+
+    if (!config.enabled) {
+      return '下单功能未启用（OKX_EXECUTION_ENABLED）';
+    }
+
+    if (!this.okxApiService.isConfigured()) {
+      return 'OKX API 配置不完整';
+    }
+
+    if (!this.isSandbox() && !config.allowLive) {
+      return '当前为实盘环境，未允许实盘下单（OKX_EXECUTION_ALLOW_LIVE）';
+    }
+
+    return null;
+  }
+
+  private assertCanTrade(): void {
+    const reason = this.getTradeBlockReason();
+    if (reason) {
+      throw new BadRequestException(reason);
+    }
+  }
+
+  private async getInstrument(instId: string): Promise<OkxInstrumentData> {
+    const instrument = await this.okxApiService.getInstrument(instId);
+    if (!instrument) {
+      throw new BadRequestException(`OKX 不支持交易产品 ${instId}`);
+    }
+    return instrument;
+  }
+
+  /**
+   * 将交易对符号转换为 USDT 永续合约产品ID，如 BTCUSDT → BTC-USDT-SWAP
+   */
+  private toInstId(symbol: string): string {
+    const normalized = symbol
+      .trim()
+      .toUpperCase()
+      .replace(':USDT', '')
+      .replace(/[/_]/g, '-');
+
+    if (normalized.endsWith('-SWAP')) {
+      return normalized;
+    }
+
+    if (normalized.includes('-')) {
+      return `${normalized}-SWAP`;
+    }
+
+    if (normalized.endsWith('USDT') && normalized.length > 4) {
+      return `${normalized.slice(0, -4)}-USDT-SWAP`;
+    }
+
+    throw new BadRequestException(`无法识别的交易对符号: ${symbol}`);
+  }
+
+  private roundPrice(price: number, instrument: OkxInstrumentData): number {
+    return this.roundToStep(price, instrument.tickSz, Math.round);
+  }
+
+  private roundSize(size: number, instrument: OkxInstrumentData): number {
+    return this.roundToStep(size, instrument.lotSz, Math.floor);
+  }
+
+  private roundToStep(
+    value: number,
+    step: string,
+    rounding: (value: number) => number,
+  ): number {
+    const stepValue = Number(step);
+    const decimals = (step.split('.')[1] || '').replace(/0+$/, '').length;
+    // 加上极小值避免浮点误差导致向下取整少一个精度单位
+    const steps = rounding(value / stepValue + 1e-9);
+    return Number((steps * stepValue).toFixed(decimals));
+  }
+
+  private calculateNotional(
+    size: number,
+    price: number,
+    instrument: OkxInstrumentData,
+  ): number {
+    return Number((size * Number(instrument.ctVal) * price).toFixed(4));
+  }
+
+  private pickOptions(
+    options: SignalExecutionDto,
+  ): Pick<ExecutionOrderRequest, 'ordType' | 'leverage' | 'size' | 'riskUsd'> {
+    if (options.ordType && !['limit', 'market'].includes(options.ordType)) {
+      throw new BadRequestException('不支持的订单类型');
+    }
+
+    return {
+      ordType: options.ordType,
+      leverage: this.toOptionalNumber(options.leverage),
+      size: this.toOptionalNumber(options.size),
+      riskUsd: this.toOptionalNumber(options.riskUsd),
+    };
+  }
+
+  private toOptionalNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      throw new BadRequestException(`无效的数值: ${value}`);
+    }
+    return number;
+  }
+
+  private toNullableNumber(value: Prisma.Decimal | null): number | null {
+    return value !== null ? Number(value) : null;
+  }
+
+  /**
+   * 是否为 OKX 明确返回的业务错误（请求已被处理），网络错误和超时返回 false
+   */
+  private isRejectedByOkx(error: any): boolean {
+    if (error instanceof OkxApiError) {
+      return true;
+    }
+    const code = error.response?.data?.code;
+    return code !== undefined && code !== '0';
+  }
+
+  /**
+   * 是否为 OKX 返回的订单不存在错误
+   */
+  private isOrderNotFound(error: any): boolean {
+    const code =
+      error instanceof OkxApiError ? error.code : error.response?.data?.code;
+    return code === ORDER_NOT_FOUND_CODE;
+  }
+
+  private describeError(error: any): string {
+    return error.response?.data?.msg || error.message;
+  }
+
+  private async getOrThrow(id: string): Promise<ExecutionOrder> {
+    const order = await this.prisma.executionOrder.findUnique({
+      where: { id },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`ID为 ${id} 的下单记录不存在`);
+    }
+
+    return order;
+  }
+
+  private isSandbox(): boolean {
+    return !!this.configService.get<OkxConfig>('okx')?.sandbox;
+  }
+
+  private getConfig(): OkxExecutionConfig {
+    return this.configService.get<OkxExecutionConfig>('okx.execution');
+  }
+
+  private toView(order: ExecutionOrder): ExecutionOrderView {
+    return {
+      id: order.id,
+      signalId: order.signalId,
+      tradingRecordId: order.tradingRecordId,
+      status: order.status as ExecutionOrderStatus,
+      sandbox: order.sandbox,
+      instId: order.instId,
+      direction: order.direction as TradingDirection,
+      side: order.side,
+      posSide: order.posSide,
+      ordType: order.ordType,
+      tdMode: order.tdMode,
+      size: Number(order.size),
+      price: this.toNullableNumber(order.price),
+      entryPrice: Number(order.entryPrice),
+      takeProfit: this.toNullableNumber(order.takeProfit),
+      stopLoss: this.toNullableNumber(order.stopLoss),
+      leverage: order.leverage,
+      notionalUsd: this.toNullableNumber(order.notionalUsd),
+      riskUsd: this.toNullableNumber(order.riskUsd),
+      clOrdId: order.clOrdId,
+      ordId: order.ordId,
+      filledSize: this.toNullableNumber(order.filledSize),
+      avgPx: this.toNullableNumber(order.avgPx),
+      error: order.error,
+      confirmedBy: order.confirmedBy,
+      expiresAt: order.expiresAt,
+      confirmedAt: order.confirmedAt,
+      placedAt: order.placedAt,
+      closedAt: order.closedAt,
+      createdAt: order.createdAt,
+    };
+  }
+}
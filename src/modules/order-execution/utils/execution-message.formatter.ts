@@ -0,0 +1,96 @@
+import { ActionableSignalView } from 'src/modules/trading-decision/interfaces';
+import { ExecutionOrderView } from '../interfaces';
+
+/**
+ * 下单执行消息格式化器
+ * 负责格式化 Telegram 下单确认请求和执行结果
+ */
+export class ExecutionMessageFormatter {
+  /**
+   * 格式化下单确认请求
+   */
+  static formatConfirmationRequest(
+    order: ExecutionOrderView,
+    signal: ActionableSignalView | null,
+  ): string {
+    let message = `${this.formatEnvironment(order)} <b>下单确认</b>\n\n`;
+    message += this.formatOrderLines(order);
+
+    if (signal) {
+      message += `\n🎯 <b>信号:</b> ${signal.signalType} · 置信度 ${signal.confidence.toFixed(0)}% · 盈亏比 ${signal.riskRewardRatio.toFixed(2)}\n`;
+      message += `📝 <b>原因:</b> ${this.escape(signal.reason)}\n`;
+    }
+
+    message += `\n⏳ <b>确认有效期至:</b> ${this.formatTime(order.expiresAt)}\n`;
+    message += `🆔 <code>${order.id}</code>`;
+
+    return message;
+  }
+
+  /**
+   * 格式化执行结果
+   */
+  static formatResult(order: ExecutionOrderView): string {
+    const titles: Partial<Record<ExecutionOrderView['status'], string>> = {
+      SUBMITTING: '⏳ <b>下单结果确认中</b>',
+      LIVE: '✅ <b>订单已提交</b>',
+      PARTIALLY_FILLED: '✅ <b>订单已提交（部分成交）</b>',
+      FILLED: '✅ <b>订单已成交</b>',
+      FAILED: '❌ <b>下单失败</b>',
+      REJECTED: '🚫 <b>已取消下单</b>',
+      EXPIRED: '⌛ <b>下单确认已过期</b>',
+      CANCELED: '🗑 <b>订单已撤销</b>',
+    };
+
+    let message = `${titles[order.status] || `ℹ️ <b>订单状态: ${order.status}</b>`} ${this.formatEnvironment(order)}\n\n`;
+    message += this.formatOrderLines(order);
+
+    if (order.ordId) {
+      message += `🔖 <b>OKX 订单ID:</b> <code>${order.ordId}</code>\n`;
+    }
+    if (order.confirmedBy) {
+      message += `👤 <b>确认人:</b> ${this.escape(order.confirmedBy)}\n`;
+    }
+    if (order.error) {
+      message += `⚠️ <b>原因:</b> ${this.escape(order.error)}\n`;
+    }
+    message += `🆔 <code>${order.id}</code>`;
+
+    return message;
+  }
+
+  private static formatOrderLines(order: ExecutionOrderView): string {
+    const directionText = order.direction === 'LONG' ? '🟢 做多' : '🔴 做空';
+    const priceText =
+      order.ordType === 'market'
+        ? `市价（参考 $${order.entryPrice}）`
+        : `限价 $${order.price}`;
+
+    let lines = `📊 <b>${order.instId}</b> ${directionText} ${order.leverage}x\n`;
+    lines += `💰 <b>委托:</b> ${order.size} 张 · ${priceText}\n`;
+    if (order.notionalUsd !== null) {
+      lines += `📦 <b>名义价值:</b> ${order.notionalUsd.toFixed(2)} USDT\n`;
+    }
+    lines += `🎯 <b>止盈:</b> ${order.takeProfit !== null ? `$${order.takeProfit}` : '未设置'}\n`;
+    lines += `🛑 <b>止损:</b> ${order.stopLoss !== null ? `$${order.stopLoss}` : '未设置'}\n`;
+    if (order.riskUsd !== null) {
+      lines += `⚖️ <b>止损风险:</b> ${order.riskUsd.toFixed(2)} USDT\n`;
+    }
+    return lines;
+  }
+
+  private static formatEnvironment(order: ExecutionOrderView): string {
+    return order.sandbox ? '🧪 [模拟盘]' : '🔥 [实盘]';
+  }
+
+  private static formatTime(date: Date): string {
+    return date.toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' });
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1 @@
+export * from './execution-message.formatter';
@@ -0,0 +1,200 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  PaperOrderSide,
+  PaperOrderStatus,
+  PaperOrderType,
+} from '../interfaces';
+
+export const PAPER_ORDER_SIDES: PaperOrderSide[] = ['BUY', 'SELL'];
+
+export const PAPER_ORDER_TYPES: PaperOrderType[] = ['MARKET', 'LIMIT', 'STOP'];
+
+export const PAPER_ORDER_STATUSES: PaperOrderStatus[] = [
+  'PENDING',
+  'FILLED',
+  'CANCELED',
+  'REJECTED',
+];
+
+/**
+ * 模拟盘下单DTO
+ */
+export class CreatePaperOrderDto {
+  @ApiProperty({ description: '交易对符号', example: 'BTCUSDT' })
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol: string;
+
+  @ApiProperty({ description: '订单方向', enum: PAPER_ORDER_SIDES })
+  @IsIn(PAPER_ORDER_SIDES, { message: '不支持的订单方向' })
+  side: PaperOrderSide;
+
+  @ApiProperty({
+    description: '订单类型',
+    enum: PAPER_ORDER_TYPES,
+    required: false,
+    default: 'MARKET',
+  })
+  @IsOptional()
+  @IsIn(PAPER_ORDER_TYPES, { message: '不支持的订单类型' })
+  type?: PaperOrderType;
+
+  @ApiProperty({
+    description: '委托数量（币），不传则按名义价值或单笔风险计算',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '委托数量必须是数字' })
+  quantity?: number;
+
+  @ApiProperty({ description: '委托名义价值(USDT)', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '名义价值必须是数字' })
+  notionalUsd?: number;
+
+  @ApiProperty({ description: '限价单委托价格', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '委托价格必须是数字' })
+  price?: number;
+
+  @ApiProperty({ description: '止损单触发价格', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '触发价格必须是数字' })
+  triggerPrice?: number;
+
+  @ApiProperty({ description: '成交后持仓的止盈价', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '止盈价必须是数字' })
+  takeProfit?: number;
+
+  @ApiProperty({ description: '成交后持仓的止损价', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '止损价必须是数字' })
+  stopLoss?: number;
+
+  @ApiProperty({ description: '杠杆倍数', required: false, example: 5 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: '杠杆倍数必须是整数' })
+  @Min(1, { message: '杠杆倍数不能小于1' })
+  @Max(125, { message: '杠杆倍数不能大于125' })
+  leverage?: number;
+
+  @ApiProperty({ description: '只减仓', required: false, default: false })
+  @IsOptional()
+  @IsBoolean({ message: '只减仓必须是布尔值' })
+  reduceOnly?: boolean;
+}
+
+/**
+ * 平仓DTO
+ */
+export class ClosePaperPositionDto {
+  @ApiProperty({
+    description: '平仓数量（币），不传则全部平仓',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '平仓数量必须是数字' })
+  quantity?: number;
+}
+
+/**
+ * 重置模拟账户DTO
+ */
+export class ResetPaperAccountDto {
+  @ApiProperty({
+    description: '新的初始资金(USDT)，不传则使用配置值',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '初始资金必须是数字' })
+  initialBalance?: number;
+}
+
+/**
+ * 模拟盘订单查询DTO
+ */
+export class PaperOrderQueryDto {
+  @ApiProperty({ description: '页码', required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '页码必须是数字' })
+  @Min(1, { message: '页码不能小于1' })
+  page?: number = 1;
+
+  @ApiProperty({ description: '每页数量', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '每页数量必须是数字' })
+  @Min(1, { message: '每页数量不能小于1' })
+  @Max(100, { message: '每页数量不能大于100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: '订单状态',
+    enum: PAPER_ORDER_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(PAPER_ORDER_STATUSES, { message: '不支持的订单状态' })
+  status?: string;
+
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+}
+
+/**
+ * 模拟盘持仓查询DTO
+ */
+export class PaperPositionQueryDto {
+  @ApiProperty({ description: '页码', required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '页码必须是数字' })
+  @Min(1, { message: '页码不能小于1' })
+  page?: number = 1;
+
+  @ApiProperty({ description: '每页数量', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '每页数量必须是数字' })
+  @Min(1, { message: '每页数量不能小于1' })
+  @Max(100, { message: '每页数量不能大于100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: '持仓状态',
+    enum: ['OPEN', 'CLOSED'],
+    required: false,
+    default: 'OPEN',
+  })
+  @IsOptional()
+  @IsIn(['OPEN', 'CLOSED'], { message: '不支持的持仓状态' })
+  status?: 'OPEN' | 'CLOSED';
+
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+}
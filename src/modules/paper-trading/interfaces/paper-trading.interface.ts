@@ -0,0 +1,140 @@
+import { TradingDirection } from 'src/shared/enums';
+
+/** 订单方向 */
+export type PaperOrderSide = 'BUY' | 'SELL';
+
+/** 订单类型 */
+export type PaperOrderType =
+  | 'MARKET' // 市价单，立即按最新价成交
+  | 'LIMIT' // 限价单，价格达到委托价时成交
+  | 'STOP'; // 止损单，价格突破触发价后按市价成交
+
+/** 订单状态 */
+export type PaperOrderStatus =
+  | 'PENDING' // 等待价格触发
+  | 'FILLED' // 已成交
+  | 'CANCELED' // 已撤销
+  | 'REJECTED'; // 保证金不足、无可减仓位等原因被拒绝
+
+/** 订单来源 */
+export type PaperOrderSource =
+  | 'REST'
+  | 'TELEGRAM'
+  | 'SIGNAL' // 决策漏斗的可执行信号
+  | 'ZONE_TRIGGER' // 支撑阻力区间触发
+  | 'STRATEGY'; // 策略信号
+
+/** 平仓原因 */
+export type PaperExitReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'ORDER';
+
+/** 成交流动性：挂单成交按 maker 费率且无滑点，吃单成交按 taker 费率并计算滑点 */
+export type PaperLiquidity = 'MAKER' | 'TAKER';
+
+/** 下单请求参数 */
+export interface PaperOrderRequest {
+  symbol: string; // 交易对，如 BTCUSDT、BTC/USDT
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  quantity?: number; // 委托数量（币），不传则按 notionalUsd 或单笔风险计算
+  notionalUsd?: number; // 委托名义价值(USDT)
+  price?: number; // 限价单委托价格
+  triggerPrice?: number; // 止损单触发价格
+  takeProfit?: number;
+  stopLoss?: number;
+  leverage?: number;
+  reduceOnly?: boolean;
+  source: PaperOrderSource;
+  sourceRef?: string;
+}
+
+/** 订单视图 */
+export interface PaperOrderView {
+  id: string;
+  positionId: string | null;
+  symbol: string;
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  quantity: number;
+  price: number | null;
+  triggerPrice: number | null;
+  takeProfit: number | null;
+  stopLoss: number | null;
+  leverage: number;
+  reduceOnly: boolean;
+  status: PaperOrderStatus;
+  source: PaperOrderSource;
+  sourceRef: string | null;
+  fillPrice: number | null;
+  fee: number | null;
+  slippage: number | null;
+  reason: string | null;
+  filledAt: Date | null;
+  createdAt: Date;
+}
+
+/** 持仓视图 */
+export interface PaperPositionView {
+  id: string;
+  tradingRecordId: number | null;
+  symbol: string;
+  direction: TradingDirection;
+  status: 'OPEN' | 'CLOSED';
+  quantity: number;
+  openedQuantity: number;
+  entryPrice: number;
+  plannedPrice: number | null;
+  leverage: number;
+  takeProfit: number | null;
+  stopLoss: number | null;
+  initialTakeProfit: number | null;
+  initialStopLoss: number | null;
+  realizedPnl: number;
+  fees: number;
+  slippage: number;
+  exitQuantity: number;
+  exitValue: number;
+  highestPrice: number;
+  lowestPrice: number;
+  exitReason: PaperExitReason | null;
+  source: PaperOrderSource;
+  sourceRef: string | null;
+  openedAt: Date;
+  closedAt: Date | null;
+  // 以下为按最新价格计算的实时数据
+  markPrice?: number | null;
+  margin?: number;
+  unrealizedPnl?: number | null;
+}
+
+/** 账户概览 */
+export interface PaperAccountSummary {
+  enabled: boolean;
+  name: string;
+  initialBalance: number;
+  balance: number; // 初始资金 + 已实现盈亏 - 手续费
+  realizedPnl: number;
+  totalFees: number;
+  unrealizedPnl: number;
+  equity: number; // 余额 + 未实现盈亏
+  usedMargin: number;
+  availableMargin: number;
+  returnPercent: number; // 权益相对初始资金的收益率
+  openPositions: number;
+  pendingOrders: number;
+  makerFeeRate: number;
+  takerFeeRate: number;
+  slippagePercent: number;
+  resetAt: Date | null;
+}
+
+/** 成交、拒单或平仓后推送的模拟盘事件 */
+export interface PaperTradeEvent {
+  type: 'FILL' | 'REJECT' | 'CLOSE';
+  order: PaperOrderView | null; // 止盈止损平仓时为空
+  position: PaperPositionView | null;
+  exitReason?: PaperExitReason;
+  exitPrice?: number;
+  pnl?: number; // 本次平仓的毛盈亏
+  netPnl?: number; // 平仓时整笔交易的净盈亏
+  rorPercentage?: number;
+}
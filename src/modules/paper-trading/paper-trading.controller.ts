@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  ClosePaperPositionDto,
+  CreatePaperOrderDto,
+  PaperOrderQueryDto,
+  PaperPositionQueryDto,
+  ResetPaperAccountDto,
+} from './dto';
+import {
+  PaperTradingEngineService,
+  PaperTradingStoreService,
+} from './services';
+
+@ApiTags('模拟盘')
+@Controller('api/paper-trading')
+export class PaperTradingController {
+  constructor(
+    private readonly paperTradingEngineService: PaperTradingEngineService,
+    private readonly paperTradingStoreService: PaperTradingStoreService,
+  ) {}
+
+  @Get('account')
+  @ApiOperation({ summary: '获取模拟账户概览（余额、权益、保证金、盈亏）' })
+  async getAccount() {
+    return this.paperTradingEngineService.getAccountSummary();
+  }
+
+  @Post('account/reset')
+  @ApiOperation({ summary: '重置模拟账户，清空订单和持仓' })
+  async resetAccount(@Body() dto: ResetPaperAccountDto) {
+    return await this.paperTradingEngineService.resetAccount(
+      dto?.initialBalance !== undefined
+        ? Number(dto.initialBalance)
+        : undefined,
+    );
+  }
+
+  @Get('orders')
+  @ApiOperation({ summary: '获取模拟盘订单' })
+  async findOrders(@Query() query: PaperOrderQueryDto) {
+    return await this.paperTradingStoreService.findOrders(
+      this.paperTradingEngineService.getAccountId(),
+      query,
+    );
+  }
+
+  @Post('orders')
+  @ApiOperation({ summary: '模拟盘下单（市价、限价、止损单）' })
+  @ApiResponse({ status: 400, description: '参数错误或暂无实时价格' })
+  async placeOrder(@Body() dto: CreatePaperOrderDto) {
+    return await this.paperTradingEngineService.placeOrder({
+      symbol: dto.symbol,
+      side: dto.side,
+      type: dto.type || 'MARKET',
+      quantity: this.toNumber(dto.quantity),
+      notionalUsd: this.toNumber(dto.notionalUsd),
+      price: this.toNumber(dto.price),
+      triggerPrice: this.toNumber(dto.triggerPrice),
+      takeProfit: this.toNumber(dto.takeProfit),
+      stopLoss: this.toNumber(dto.stopLoss),
+      leverage: this.toNumber(dto.leverage),
+      reduceOnly: dto.reduceOnly === true,
+      source: 'REST',
+    });
+  }
+
+  @Delete('orders/:id')
+  @ApiOperation({ summary: '撤销等待触发的模拟盘订单' })
+  @ApiParam({ name: 'id', description: '订单ID' })
+  @ApiResponse({ status: 404, description: '订单不存在' })
+  async cancelOrder(@Param('id') id: string) {
+    return await this.paperTradingEngineService.cancelOrder(id);
+  }
+
+  @Get('positions')
+  @ApiOperation({
+    summary:
+      '获取模拟盘持仓，默认返回未平仓持仓，status=CLOSED 时分页返回已平仓持仓',
+  })
+  async findPositions(@Query() query: PaperPositionQueryDto) {
+    if (query.status === 'CLOSED') {
+      return await this.paperTradingStoreService.findClosedPositions(
+        this.paperTradingEngineService.getAccountId(),
+        query,
+      );
+    }
+    return this.paperTradingEngineService.getOpenPositions();
+  }
+
+  @Post('positions/:symbol/close')
+  @ApiOperation({ summary: '按市价平仓' })
+  @ApiParam({ name: 'symbol', description: '交易对符号，如 BTCUSDT' })
+  @ApiResponse({ status: 404, description: '没有未平仓持仓' })
+  async closePosition(
+    @Param('symbol') symbol: string,
+    @Body() dto: ClosePaperPositionDto,
+  ) {
+    return await this.paperTradingEngineService.closePosition(
+      symbol,
+      'REST',
+      this.toNumber(dto?.quantity),
+    );
+  }
+
+  private toNumber(value: unknown): number | undefined {
+    return value === undefined || value === null || value === ''
+      ? undefined
+      : Number(value);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TradingAutomationModule } from '../trading-automation/trading-automation.module';
+import { TradingDecisionModule } from '../trading-decision/trading-decision.module';
+import { PaperTradingController } from './paper-trading.controller';
+import {
+  PaperSignalBridgeService,
+  PaperTradingEngineService,
+  PaperTradingStoreService,
+  PaperTradingTelegramService,
+} from './services';
+
+/**
+ * 模拟盘模块
+ * 使用实时价格撮合 REST、Telegram 和自动信号产生的订单，平仓后写入交易记录（标记为模拟盘交易）
+ */
+@Module({
+  imports: [TradingAutomationModule, TradingDecisionModule],
+  controllers: [PaperTradingController],
+  providers: [
+    PaperTradingStoreService,
+    PaperTradingEngineService,
+    PaperSignalBridgeService,
+    PaperTradingTelegramService,
+  ],
+  exports: [PaperTradingEngineService],
+})
+export class PaperTradingModule {}
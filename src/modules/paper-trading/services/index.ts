@@ -0,0 +1,4 @@
+export * from './paper-trading-store.service';
+export * from './paper-trading-engine.service';
+export * from './paper-signal-bridge.service';
+export * from './paper-trading-telegram.service';
@@ -0,0 +1,256 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { AlertOutcome, StrategySignalRecord } from '@prisma/client';
+import { PaperTradingConfig } from 'src/config/paper-trading.config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ActionableSignalService } from 'src/modules/trading-decision/services';
+import { ActionableSignalView } from 'src/modules/trading-decision/interfaces';
+import { SignalType, TradingDirection } from 'src/shared/enums';
+import { PaperOrderRequest } from '../interfaces';
+import { PaperTradingFormatter } from '../utils';
+import { PaperTradingEngineService } from './paper-trading-engine.service';
+
+/**
+ * 模拟盘信号桥接服务
+ * 定时读取新产生的可执行信号、支撑阻力区间触发和策略信号，按配置自动在模拟盘下单
+ * 只处理服务启动之后产生的信号
+ */
+@Injectable()
+export class PaperSignalBridgeService implements OnModuleInit {
+  private readonly logger = new Logger(PaperSignalBridgeService.name);
+  private isProcessing = false;
+
+  // 已处理到的位置
+  private signalCursor = new Date();
+  private alertOutcomeCursor = 0;
+  private strategySignalCursor = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly actionableSignalService: ActionableSignalService,
+    private readonly paperTradingEngineService: PaperTradingEngineService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const config = this.getConfig();
+    if (
+      !config.enabled ||
+      !(config.autoSignals || config.autoZoneTriggers || config.autoStrategies)
+    ) {
+      return;
+    }
+
+    try {
+      const [alertOutcome, strategySignal] = await Promise.all([
+        this.prisma.alertOutcome.findFirst({ orderBy: { id: 'desc' } }),
+        this.prisma.strategySignalRecord.findFirst({ orderBy: { id: 'desc' } }),
+      ]);
+      this.alertOutcomeCursor = alertOutcome?.id || 0;
+      this.strategySignalCursor = strategySignal?.id || 0;
+    } catch (error) {
+      this.logger.error(`初始化模拟盘信号位置失败: ${error.message}`);
+    }
+
+    this.logger.log(
+      `模拟盘自动下单已启用: 可执行信号=${config.autoSignals}，` +
+        `区间触发=${config.autoZoneTriggers}，策略信号=${config.autoStrategies}`,
+    );
+  }
+
+  /**
+   * 定时处理新信号
+   */
+  @Cron('*/30 * * * * *', {
+    name: 'paper-trading-signals',
+    timeZone: 'Asia/Shanghai',
+  })
+  async processNewSignals(): Promise<void> {
+    const config = this.getConfig();
+    if (!this.paperTradingEngineService.isEnabled()) {
+      return;
+    }
+
+    if (this.isProcessing) {
+      this.logger.warn('上一次模拟盘信号处理尚未完成，跳过本次执行');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      if (config.autoSignals) {
+        await this.processActionableSignals();
+      }
+      if (config.autoZoneTriggers) {
+        await this.processZoneTriggers(config.zoneStopBufferPercent);
+      }
+      if (config.autoStrategies) {
+        await this.processStrategySignals();
+      }
+    } catch (error) {
+      this.logger.error(`处理模拟盘信号失败: ${error.message}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * 可执行信号：按信号入场价挂限价单，并带上信号的止盈止损
+   */
+  private async processActionableSignals(): Promise<void> {
+    const signals = await this.actionableSignalService.findTriggeredAfter(
+      this.signalCursor,
+    );
+
+    for (const signal of signals) {
+      this.signalCursor = signal.triggeredAt;
+      await this.submit(this.fromActionableSignal(signal), signal.direction);
+    }
+  }
+
+  /**
+   * 区间触发：支撑位买入、阻力位卖出，止盈为下一个阻力/支撑位，止损放在区间外侧
+   */
+  private async processZoneTriggers(bufferPercent: number): Promise<void> {
+    const outcomes = await this.prisma.alertOutcome.findMany({
+      where: { id: { gt: this.alertOutcomeCursor } },
+      orderBy: { id: 'asc' },
+    });
+
+    for (const outcome of outcomes) {
+      this.alertOutcomeCursor = outcome.id;
+      const request = this.fromZoneTrigger(outcome, bufferPercent);
+      await this.submit(
+        request,
+        request.side === 'BUY' ? TradingDirection.LONG : TradingDirection.SHORT,
+      );
+    }
+  }
+
+  /**
+   * 策略信号：买入类信号做多、卖出类信号做空，观望信号忽略
+   */
+  private async processStrategySignals(): Promise<void> {
+    const records = await this.prisma.strategySignalRecord.findMany({
+      where: { id: { gt: this.strategySignalCursor } },
+      orderBy: { id: 'asc' },
+    });
+
+    for (const record of records) {
+      this.strategySignalCursor = record.id;
+      const request = this.fromStrategySignal(record);
+      if (request) {
+        await this.submit(
+          request,
+          request.side === 'BUY'
+            ? TradingDirection.LONG
+            : TradingDirection.SHORT,
+        );
+      }
+    }
+  }
+
+  /**
+   * 提交模拟盘订单，已有同向持仓时不再加仓
+   */
+  private async submit(
+    request: PaperOrderRequest,
+    direction: TradingDirection,
+  ): Promise<void> {
+    const position = this.paperTradingEngineService.getPosition(request.symbol);
+    if (position && position.direction === direction) {
+      this.logger.debug(
+        `${request.symbol} 已有同向模拟盘持仓，跳过 ${request.source} 信号`,
+      );
+      return;
+    }
+
+    try {
+      await this.paperTradingEngineService.placeOrder(request);
+    } catch (error) {
+      this.logger.warn(
+        `按 ${request.source} 信号在模拟盘下单失败 ${request.symbol}: ${error.message}`,
+      );
+    }
+  }
+
+  private fromActionableSignal(
+    signal: ActionableSignalView,
+  ): PaperOrderRequest {
+    return {
+      symbol: signal.symbol,
+      side: signal.direction === TradingDirection.LONG ? 'BUY' : 'SELL',
+      type: 'LIMIT',
+      price: signal.entryPrice,
+      takeProfit: signal.takeProfit,
+      stopLoss: signal.stopLoss,
+      source: 'SIGNAL',
+      sourceRef: signal.id,
+    };
+  }
+
+  private fromZoneTrigger(
+    outcome: AlertOutcome,
+    bufferPercent: number,
+  ): PaperOrderRequest {
+    const isBuy = outcome.triggerType === 'BUY';
+    const zonePrice = Number(outcome.zonePrice);
+    const tolerance = Number(outcome.tolerance);
+    const triggerPrice = Number(outcome.triggerPrice);
+    const targetPrice =
+      outcome.targetPrice !== null ? Number(outcome.targetPrice) : null;
+    const buffer = bufferPercent / 100;
+
+    const stopLoss = isBuy
+      ? (zonePrice - tolerance) * (1 - buffer)
+      : (zonePrice + tolerance) * (1 + buffer);
+    // 目标位已经在触发价另一侧时不设止盈
+    const takeProfit =
+      targetPrice !== null &&
+      (isBuy ? targetPrice > triggerPrice : targetPrice < triggerPrice)
+        ? targetPrice
+        : undefined;
+
+    return {
+      symbol: PaperTradingFormatter.normalizeSymbol(outcome.symbol),
+      side: isBuy ? 'BUY' : 'SELL',
+      type: 'MARKET',
+      takeProfit,
+      stopLoss,
+      source: 'ZONE_TRIGGER',
+      sourceRef: String(outcome.id),
+    };
+  }
+
+  private fromStrategySignal(
+    record: StrategySignalRecord,
+  ): PaperOrderRequest | null {
+    const buySignals: string[] = [SignalType.BUY, SignalType.STRONG_BUY];
+    const sellSignals: string[] = [SignalType.SELL, SignalType.STRONG_SELL];
+    if (
+      !buySignals.includes(record.signal) &&
+      !sellSignals.includes(record.signal)
+    ) {
+      return null;
+    }
+
+    const quantity = record.quantity !== null ? Number(record.quantity) : 0;
+
+    return {
+      symbol: PaperTradingFormatter.normalizeSymbol(record.symbol),
+      side: buySignals.includes(record.signal) ? 'BUY' : 'SELL',
+      type: 'MARKET',
+      quantity: quantity > 0 ? quantity : undefined,
+      takeProfit:
+        record.takeProfit !== null ? Number(record.takeProfit) : undefined,
+      stopLoss: record.stopLoss !== null ? Number(record.stopLoss) : undefined,
+      source: 'STRATEGY',
+      sourceRef: `${record.strategyId}:${record.id}`,
+    };
+  }
+
+  private getConfig(): PaperTradingConfig {
+    return this.configService.get<PaperTradingConfig>('paperTrading')!;
+  }
+}
@@ -0,0 +1,362 @@
+import { ConfigService } from '@nestjs/config';
+import { PaperTradingConfig } from 'src/config/paper-trading.config';
+import { RealtimePriceMonitorService } from 'src/modules/trading-automation/services/realtime-price-monitor.service';
+import { TradingNotificationService } from 'src/modules/trading-automation/services/trading-notification.service';
+import { TradingDirection } from 'src/shared/enums';
+import {
+  PaperOrderRequest,
+  PaperOrderView,
+  PaperPositionView,
+  PaperTradeEvent,
+} from '../interfaces';
+import { PaperTradingEngineService } from './paper-trading-engine.service';
+import { PaperTradingStoreService } from './paper-trading-store.service';
+
+/**
+ * 内存中的模拟盘存储
+ */
+const createStoreStub = () => {
+  const orders = new Map<string, PaperOrderView>();
+  const closedPositions: PaperPositionView[] = [];
+  let sequence = 0;
+
+  const store = {
+    ensureAccount: jest.fn(async (initialBalance: number) => ({
+      id: 1,
+      name: 'default',
+      initialBalance,
+      balance: initialBalance,
+      realizedPnl: 0,
+      totalFees: 0,
+      resetAt: null,
+    })),
+    findPendingOrders: jest.fn(async () => []),
+    findOpenPositions: jest.fn(async () => []),
+    createOrder: jest.fn(async (_accountId: number, data) => {
+      const order: PaperOrderView = {
+        ...data,
+        id: `order-${++sequence}`,
+        positionId: null,
+        status: 'PENDING',
+        fillPrice: null,
+        fee: null,
+        slippage: null,
+        reason: null,
+        filledAt: null,
+        createdAt: new Date(),
+      };
+      orders.set(order.id, order);
+      return { ...order };
+    }),
+    updateOrder: jest.fn(async (id: string, data: Partial<PaperOrderView>) => {
+      const order = { ...orders.get(id), ...data };
+      orders.set(id, order);
+      return { ...order };
+    }),
+    createPosition: jest.fn(async (_accountId: number, data) => ({
+      ...data,
+      id: `position-${++sequence}`,
+      tradingRecordId: null,
+    })),
+    savePosition: jest.fn(async () => undefined),
+    saveClosedPosition: jest.fn(async (position: PaperPositionView) => {
+      closedPositions.push({ ...position });
+      return closedPositions.length;
+    }),
+    applyAccountChange: jest.fn(async () => undefined),
+  };
+
+  return { store, orders, closedPositions };
+};
+
+describe('PaperTradingEngineService', () => {
+  const config: PaperTradingConfig = {
+    enabled: true,
+    initialBalance: 10000,
+    leverage: 5,
+    makerFeeRate: 0.0002,
+    takerFeeRate: 0.0005,
+    slippagePercent: 0.05,
+    riskPerTradePercent: 1,
+    defaultNotionalUsd: 1000,
+    autoSignals: false,
+    autoZoneTriggers: false,
+    autoStrategies: false,
+    zoneStopBufferPercent: 0.2,
+    notify: true,
+  };
+
+  let stub: ReturnType<typeof createStoreStub>;
+  let priceListener: (symbol: string, price: number) => void;
+  let marketPrice: number;
+  let notifications: PaperTradeEvent[];
+  let engine: PaperTradingEngineService;
+
+  /** 推送一次实时价格并等待撮合完成 */
+  const tick = async (price: number) => {
+    priceListener('BTC/USDT', price);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  };
+
+  const order = (request: Partial<PaperOrderRequest>) =>
+    engine.placeOrder({
+      symbol: 'BTCUSDT',
+      side: 'BUY',
+      type: 'MARKET',
+      source: 'REST',
+      ...request,
+    });
+
+  beforeEach(async () => {
+    stub = createStoreStub();
+    marketPrice = 100;
+    notifications = [];
+
+    const priceMonitor = {
+      addGlobalPriceListener: jest.fn((listener) => {
+        priceListener = listener;
+      }),
+      setAuxiliarySymbols: jest.fn().mockResolvedValue(undefined),
+      getLatestPrice: jest.fn(() => marketPrice),
+    };
+    const notificationService = {
+      sendPaperTradeNotification: jest.fn(async (event: PaperTradeEvent) => {
+        notifications.push(event);
+        return true;
+      }),
+    };
+
+    engine = new PaperTradingEngineService(
+      { get: () => config } as unknown as ConfigService,
+      stub.store as unknown as PaperTradingStoreService,
+      priceMonitor as unknown as RealtimePriceMonitorService,
+      notificationService as unknown as TradingNotificationService,
+    );
+    await engine.onModuleInit();
+  });
+
+  describe('成交价格', () => {
+    it('市价买入按吃单成交，成交价向上滑点', async () => {
+      const filled = await order({ quantity: 2 });
+
+      expect(filled.status).toBe('FILLED');
+      expect(filled.fillPrice).toBeCloseTo(100.05, 8);
+      expect(filled.slippage).toBeCloseTo(0.1, 8);
+      expect(filled.fee).toBeCloseTo(100.05 * 2 * 0.0005, 8);
+      expect(engine.getAccountSummary().balance).toBeCloseTo(
+        10000 - filled.fee,
+        8,
+      );
+    });
+
+    it('市价卖出开空，成交价向下滑点', async () => {
+      const filled = await order({ side: 'SELL', quantity: 1 });
+
+      expect(filled.fillPrice).toBeCloseTo(99.95, 8);
+      expect(engine.getPosition('BTCUSDT')).toMatchObject({
+        direction: TradingDirection.SHORT,
+        quantity: 1,
+      });
+    });
+
+    it('可立即成交的限价单按吃单成交，但成交价不超过委托价', async () => {
+      const filled = await order({ type: 'LIMIT', price: 100.02, quantity: 1 });
+
+      expect(filled.status).toBe('FILLED');
+      expect(filled.fillPrice).toBe(100.02);
+      expect(filled.fee).toBeCloseTo(100.02 * 0.0005, 8);
+    });
+
+    it('挂单后成交的限价单按委托价以挂单费率成交', async () => {
+      const pending = await order({ type: 'LIMIT', price: 95, quantity: 1 });
+      expect(pending.status).toBe('PENDING');
+      expect(engine.getPendingOrders()).toHaveLength(1);
+
+      await tick(96);
+      expect(engine.getPendingOrders()).toHaveLength(1);
+
+      await tick(94);
+      const filled = stub.orders.get(pending.id);
+      expect(filled).toMatchObject({
+        status: 'FILLED',
+        fillPrice: 95,
+        slippage: 0,
+      });
+      expect(filled.fee).toBeCloseTo(95 * 0.0002, 8);
+      expect(engine.getPendingOrders()).toHaveLength(0);
+    });
+
+    it('止损单触发后按触发时价格吃单成交', async () => {
+      const pending = await order({
+        side: 'SELL',
+        type: 'STOP',
+        triggerPrice: 98,
+        quantity: 1,
+      });
+
+      await tick(97.5);
+
+      expect(stub.orders.get(pending.id).fillPrice).toBeCloseTo(
+        97.5 * (1 - 0.0005),
+        8,
+      );
+      expect(engine.getPosition('BTCUSDT').direction).toBe(
+        TradingDirection.SHORT,
+      );
+    });
+  });
+
+  describe('保证金和持仓', () => {
+    it('保证金不足时拒绝订单且不开仓', async () => {
+      const rejected = await order({ quantity: 1000 });
+
+      // 需要保证金约 100.05 * 1000 / 5 = 20010 USDT
+      expect(rejected.status).toBe('REJECTED');
+      expect(rejected.reason).toContain('可用保证金不足');
+      expect(engine.getPosition('BTCUSDT')).toBeNull();
+      expect(engine.getAccountSummary().balance).toBe(10000);
+    });
+
+    it('开仓后占用保证金，可用保证金相应减少', async () => {
+      await order({ quantity: 100 });
+
+      const summary = engine.getAccountSummary();
+      expect(summary.usedMargin).toBeCloseTo((100.05 * 100) / 5, 6);
+      expect(summary.availableMargin).toBeLessThan(10000 - summary.usedMargin);
+    });
+
+    it('同向加仓按成交数量加权计算开仓均价', async () => {
+      await order({ quantity: 1 });
+      await tick(110);
+      await order({ quantity: 1 });
+
+      expect(engine.getPosition('BTCUSDT')).toMatchObject({ quantity: 2 });
+      expect(engine.getPosition('BTCUSDT').entryPrice).toBeCloseTo(
+        (100.05 + 110 * 1.0005) / 2,
+        8,
+      );
+    });
+
+    it('反向成交先平掉原持仓，剩余数量反手开仓', async () => {
+      await order({ quantity: 2 });
+      await tick(110);
+
+      const filled = await order({ side: 'SELL', quantity: 3 });
+      const exitPrice = 110 * (1 - 0.0005);
+
+      expect(stub.closedPositions).toHaveLength(1);
+      expect(stub.closedPositions[0]).toMatchObject({
+        direction: TradingDirection.LONG,
+        status: 'CLOSED',
+        exitReason: 'ORDER',
+        exitQuantity: 2,
+      });
+      expect(stub.closedPositions[0].realizedPnl).toBeCloseTo(
+        (exitPrice - 100.05) * 2,
+        8,
+      );
+
+      const position = engine.getPosition('BTCUSDT');
+      expect(position).toMatchObject({
+        direction: TradingDirection.SHORT,
+        quantity: 1,
+      });
+      expect(position.entryPrice).toBeCloseTo(exitPrice, 8);
+      expect(filled.positionId).toBe(position.id);
+      expect(engine.getAccountSummary().realizedPnl).toBeCloseTo(
+        (exitPrice - 100.05) * 2,
+        8,
+      );
+    });
+
+    it('只减仓订单没有反向持仓时被拒绝', async () => {
+      const rejected = await order({
+        side: 'SELL',
+        quantity: 1,
+        reduceOnly: true,
+      });
+
+      expect(rejected.status).toBe('REJECTED');
+      expect(engine.getPosition('BTCUSDT')).toBeNull();
+    });
+
+    it('只减仓订单数量超过持仓时只平掉现有持仓', async () => {
+      await order({ quantity: 2 });
+
+      const filled = await order({
+        side: 'SELL',
+        quantity: 5,
+        reduceOnly: true,
+      });
+
+      expect(filled.quantity).toBe(2);
+      expect(engine.getPosition('BTCUSDT')).toBeNull();
+      expect(stub.closedPositions).toHaveLength(1);
+    });
+  });
+
+  describe('止盈止损', () => {
+    it('价格触及止盈时按止盈价挂单成交', async () => {
+      await order({ quantity: 1, takeProfit: 110, stopLoss: 95 });
+
+      await tick(105);
+      expect(engine.getPosition('BTCUSDT')).not.toBeNull();
+
+      await tick(111);
+      expect(engine.getPosition('BTCUSDT')).toBeNull();
+      expect(stub.closedPositions[0]).toMatchObject({
+        exitReason: 'TAKE_PROFIT',
+        exitValue: 110,
+        highestPrice: 111,
+      });
+      expect(stub.closedPositions[0].realizedPnl).toBeCloseTo(110 - 100.05, 8);
+      expect(stub.closedPositions[0].fees).toBeCloseTo(
+        100.05 * 0.0005 + 110 * 0.0002,
+        8,
+      );
+    });
+
+    it('价格触及止损时按当前价格吃单成交', async () => {
+      await order({ quantity: 1, takeProfit: 110, stopLoss: 95 });
+
+      await tick(94);
+
+      const exitPrice = 94 * (1 - 0.0005);
+      expect(stub.closedPositions[0].exitReason).toBe('STOP_LOSS');
+      expect(stub.closedPositions[0].exitValue).toBeCloseTo(exitPrice, 8);
+      expect(stub.closedPositions[0].lowestPrice).toBe(94);
+    });
+
+    it('空头持仓价格上涨触及止损', async () => {
+      await order({ side: 'SELL', quantity: 1, takeProfit: 90, stopLoss: 105 });
+
+      await tick(104);
+      expect(engine.getPosition('BTCUSDT')).not.toBeNull();
+
+      await tick(106);
+      expect(stub.closedPositions[0]).toMatchObject({
+        direction: TradingDirection.SHORT,
+        exitReason: 'STOP_LOSS',
+      });
+      expect(stub.closedPositions[0].exitValue).toBeCloseTo(106 * 1.0005, 8);
+    });
+
+    it('止盈止损平仓后撤销只减仓挂单并推送平仓通知', async () => {
+      await order({ quantity: 2, takeProfit: 110 });
+      const reduceOrder = await order({
+        side: 'SELL',
+        type: 'LIMIT',
+        price: 120,
+        quantity: 1,
+        reduceOnly: true,
+      });
+
+      await tick(110);
+
+      expect(stub.orders.get(reduceOrder.id).status).toBe('CANCELED');
+      expect(engine.getPendingOrders()).toHaveLength(0);
+      expect(notifications.map((event) => event.type)).toEqual(['CLOSE']);
+      expect(notifications[0].exitReason).toBe('TAKE_PROFIT');
+    });
+  });
+});
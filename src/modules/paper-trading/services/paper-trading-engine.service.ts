@@ -0,0 +1,1160 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { PaperTradingConfig } from 'src/config/paper-trading.config';
+import { RealtimePriceMonitorService } from 'src/modules/trading-automation/services/realtime-price-monitor.service';
+import { TradingNotificationService } from 'src/modules/trading-automation/services/trading-notification.service';
+import { TradingDirection } from 'src/shared/enums';
+import {
+  PaperAccountSummary,
+  PaperExitReason,
+  PaperLiquidity,
+  PaperOrderRequest,
+  PaperOrderSource,
+  PaperOrderView,
+  PaperPositionView,
+  PaperTradeEvent,
+} from '../interfaces';
+import { PaperTradingFormatter } from '../utils';
+import { PaperTradingStoreService } from './paper-trading-store.service';
+
+/** 在价格监控中登记交易对时使用的来源名称 */
+const PRICE_MONITOR_SOURCE = 'paper-trading';
+
+/** 等待新交易对首个实时价格的最长时间 */
+const PRICE_WAIT_TIMEOUT = 10000;
+
+/** 数量精度，小于该值的剩余持仓视为已全部平仓 */
+const QUANTITY_EPSILON = 1e-8;
+
+/** 由系统自动产生的订单来源，成交后发送通知 */
+const AUTOMATED_SOURCES: PaperOrderSource[] = [
+  'SIGNAL',
+  'ZONE_TRIGGER',
+  'STRATEGY',
+];
+
+interface PaperAccountState {
+  id: number;
+  name: string;
+  initialBalance: number;
+  balance: number;
+  realizedPnl: number;
+  totalFees: number;
+  resetAt: Date | null;
+}
+
+interface FillResult {
+  price: number;
+  fee: number;
+  slippage: number;
+}
+
+/**
+ * 模拟盘撮合引擎
+ * 订单和持仓在内存中按交易对维护，使用实时价格监控的推送价格撮合：
+ * 市价单和止损单按吃单成交并计算不利方向滑点，挂单后成交的限价单按委托价以挂单费率成交，
+ * 持仓止盈按止盈价挂单成交，止损按触发时价格吃单成交；每个交易对单向持仓，反向成交先减仓再反手开仓
+ */
+@Injectable()
+export class PaperTradingEngineService implements OnModuleInit {
+  private readonly logger = new Logger(PaperTradingEngineService.name);
+
+  private account: PaperAccountState | null = null;
+  private pendingOrders = new Map<string, PaperOrderView[]>(); // 交易对 -> 等待触发的订单
+  private positions = new Map<string, PaperPositionView>(); // 交易对 -> 未平仓持仓
+  private latestPrices = new Map<string, number>();
+  private awaitingPrice = new Set<string>(); // 下单时正在等待首个价格的交易对
+
+  // 同一交易对的下单、撤单和价格撮合串行执行
+  private symbolLocks = new Map<string, Promise<void>>();
+  private scheduledTicks = new Set<string>();
+  // 最高价、最低价变化后尚未保存的持仓
+  private dirtyPositions = new Set<string>();
+  private isFlushing = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: PaperTradingStoreService,
+    private readonly realtimePriceMonitorService: RealtimePriceMonitorService,
+    private readonly tradingNotificationService: TradingNotificationService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    if (!this.getConfig().enabled) {
+      this.logger.log('模拟盘未启用');
+      return;
+    }
+
+    try {
+      await this.loadState();
+    } catch (error) {
+      this.logger.error(`加载模拟盘状态失败: ${error.message}`);
+      return;
+    }
+
+    this.realtimePriceMonitorService.addGlobalPriceListener((symbol, price) =>
+      this.handlePrice(symbol, price),
+    );
+    this.syncWatchedSymbols();
+
+    this.logger.log(
+      `模拟盘已启动，余额 ${this.account!.balance.toFixed(2)} USDT，` +
+        `${this.positions.size} 个持仓，${this.countPendingOrders()} 个挂单`,
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.getConfig().enabled && this.account !== null;
+  }
+
+  /**
+   * 获取账户概览（按最新价格计算未实现盈亏和可用保证金）
+   */
+  getAccountSummary(): PaperAccountSummary {
+    const config = this.getConfig();
+    const account = this.getAccount();
+    const positions = this.getOpenPositions();
+    const unrealizedPnl = positions.reduce(
+      (sum, position) => sum + (position.unrealizedPnl || 0),
+      0,
+    );
+    const usedMargin = positions.reduce(
+      (sum, position) => sum + (position.margin || 0),
+      0,
+    );
+    const equity = account.balance + unrealizedPnl;
+
+    return {
+      enabled: config.enabled,
+      name: account.name,
+      initialBalance: account.initialBalance,
+      balance: account.balance,
+      realizedPnl: account.realizedPnl,
+      totalFees: account.totalFees,
+      unrealizedPnl,
+      equity,
+      usedMargin,
+      availableMargin: equity - usedMargin,
+      returnPercent:
+        account.initialBalance > 0
+          ? ((equity - account.initialBalance) / account.initialBalance) * 100
+          : 0,
+      openPositions: positions.length,
+      pendingOrders: this.countPendingOrders(),
+      makerFeeRate: config.makerFeeRate,
+      takerFeeRate: config.takerFeeRate,
+      slippagePercent: config.slippagePercent,
+      resetAt: account.resetAt,
+    };
+  }
+
+  /**
+   * 获取未平仓持仓（附带最新价格、保证金和未实现盈亏）
+   */
+  getOpenPositions(): PaperPositionView[] {
+    return Array.from(this.positions.values()).map((position) => {
+      const markPrice = this.latestPrices.get(position.symbol) ?? null;
+      return {
+        ...position,
+        markPrice,
+        margin: (position.entryPrice * position.quantity) / position.leverage,
+        unrealizedPnl:
+          markPrice !== null
+            ? this.calculatePnl(position, markPrice, position.quantity)
+            : null,
+      };
+    });
+  }
+
+  /**
+   * 获取等待触发的订单
+   */
+  getPendingOrders(): PaperOrderView[] {
+    return Array.from(this.pendingOrders.values()).flat();
+  }
+
+  /**
+   * 获取交易对的未平仓持仓
+   */
+  getPosition(symbol: string): PaperPositionView | null {
+    const normalized = PaperTradingFormatter.normalizeSymbol(symbol);
+    return (
+      this.getOpenPositions().find(
+        (position) => position.symbol === normalized,
+      ) || null
+    );
+  }
+
+  getAccountId(): number {
+    return this.getAccount().id;
+  }
+
+  /**
+   * 下单
+   * 市价单、已可成交的限价单和已触发的止损单立即成交，其余订单等待价格触发
+   */
+  async placeOrder(request: PaperOrderRequest): Promise<PaperOrderView> {
+    const account = this.getAccount();
+    const config = this.getConfig();
+    const symbol = PaperTradingFormatter.normalizeSymbol(request.symbol);
+    this.validateRequest(request);
+
+    // 新交易对需要先加入价格监控才能获得实时价格
+    const marketPrice = await this.waitForPrice(symbol);
+    if (marketPrice === undefined) {
+      throw new BadRequestException(`${symbol} 暂无实时价格，请稍后重试`);
+    }
+
+    const referencePrice =
+      request.type === 'LIMIT'
+        ? request.price!
+        : request.type === 'STOP'
+          ? request.triggerPrice!
+          : marketPrice;
+    this.validateProtection(request, referencePrice);
+
+    const leverage = request.leverage || config.leverage;
+    const quantity = this.resolveQuantity(request, referencePrice, leverage);
+
+    const order = await this.runExclusive(symbol, async () => {
+      const created = await this.store.createOrder(account.id, {
+        symbol,
+        side: request.side,
+        type: request.type,
+        quantity,
+        price: request.type === 'LIMIT' ? request.price : null,
+        triggerPrice: request.type === 'STOP' ? request.triggerPrice : null,
+        takeProfit: request.takeProfit ?? null,
+        stopLoss: request.stopLoss ?? null,
+        leverage,
+        reduceOnly: request.reduceOnly ?? false,
+        source: request.source,
+        sourceRef: request.sourceRef ?? null,
+      });
+      this.logger.log(
+        `模拟盘下单: ${symbol} ${request.side} ${request.type} ${quantity} (${request.source})`,
+      );
+
+      const price = this.latestPrices.get(symbol) ?? marketPrice;
+      if (this.isImmediatelyExecutable(created, price)) {
+        // 限价单以不超过委托价的价格成交，其余按市价成交
+        const events = await this.executeOrder(created, price, 'TAKER');
+        if (AUTOMATED_SOURCES.includes(created.source)) {
+          events.forEach((event) => this.notify(event));
+        }
+        return events[0].order!;
+      }
+
+      this.addPendingOrder(created);
+      return created;
+    });
+
+    this.syncWatchedSymbols();
+    return order;
+  }
+
+  /**
+   * 撤销等待触发的订单
+   */
+  async cancelOrder(id: string): Promise<PaperOrderView> {
+    const existing = await this.store.findOrder(id);
+    if (!existing) {
+      throw new NotFoundException(`ID为 ${id} 的模拟盘订单不存在`);
+    }
+
+    return this.runExclusive(existing.symbol, async () => {
+      const pending = this.removePendingOrder(existing.symbol, id);
+      if (!pending) {
+        throw new BadRequestException(
+          `订单状态为 ${existing.status}，只能撤销等待触发的订单`,
+        );
+      }
+      const canceled = await this.store.updateOrder(id, {
+        status: 'CANCELED',
+        reason: '手动撤单',
+      });
+      this.syncWatchedSymbols();
+      return canceled;
+    });
+  }
+
+  /**
+   * 按市价平仓
+   * @param quantity 平仓数量，不传则全部平仓
+   */
+  async closePosition(
+    symbol: string,
+    source: PaperOrderSource,
+    quantity?: number,
+  ): Promise<PaperOrderView> {
+    const position = this.positions.get(
+      PaperTradingFormatter.normalizeSymbol(symbol),
+    );
+    if (!position) {
+      throw new NotFoundException(`${symbol} 没有未平仓的模拟盘持仓`);
+    }
+
+    return this.placeOrder({
+      symbol: position.symbol,
+      side: position.direction === TradingDirection.LONG ? 'SELL' : 'BUY',
+      type: 'MARKET',
+      quantity: quantity ?? position.quantity,
+      reduceOnly: true,
+      leverage: position.leverage,
+      source,
+    });
+  }
+
+  /**
+   * 修改持仓的止盈止损，传入 null 表示取消
+   */
+  async updateProtection(
+    symbol: string,
+    protection: { takeProfit?: number | null; stopLoss?: number | null },
+  ): Promise<PaperPositionView> {
+    const normalized = PaperTradingFormatter.normalizeSymbol(symbol);
+
+    return this.runExclusive(normalized, async () => {
+      const position = this.positions.get(normalized);
+      if (!position) {
+        throw new NotFoundException(`${symbol} 没有未平仓的模拟盘持仓`);
+      }
+
+      this.validateProtection(
+        {
+          side: position.direction === TradingDirection.LONG ? 'BUY' : 'SELL',
+          takeProfit: protection.takeProfit ?? undefined,
+          stopLoss: protection.stopLoss ?? undefined,
+        },
+        this.latestPrices.get(normalized) ?? position.entryPrice,
+      );
+
+      if (protection.takeProfit !== undefined) {
+        position.takeProfit = protection.takeProfit;
+      }
+      if (protection.stopLoss !== undefined) {
+        position.stopLoss = protection.stopLoss;
+      }
+      await this.store.savePosition(position);
+      return position;
+    });
+  }
+
+  /**
+   * 重置模拟账户
+   */
+  async resetAccount(initialBalance?: number): Promise<PaperAccountSummary> {
+    const account = this.getAccount();
+    const balance = initialBalance ?? this.getConfig().initialBalance;
+    if (!(balance > 0)) {
+      throw new BadRequestException('初始资金必须大于0');
+    }
+
+    const symbols = new Set([
+      ...this.pendingOrders.keys(),
+      ...this.positions.keys(),
+    ]);
+    await Promise.all(
+      Array.from(symbols).map((symbol) =>
+        this.runExclusive(symbol, async () => {
+          this.pendingOrders.delete(symbol);
+          this.positions.delete(symbol);
+        }),
+      ),
+    );
+
+    const reset = await this.store.resetAccount(account.id, balance);
+    this.account = this.toAccountState(reset);
+    this.dirtyPositions.clear();
+    this.syncWatchedSymbols();
+    this.logger.log(`模拟账户已重置，初始资金 ${balance} USDT`);
+
+    return this.getAccountSummary();
+  }
+
+  /**
+   * 定时保存持仓期间的最高价和最低价
+   */
+  @Cron('45 * * * * *', {
+    name: 'paper-trading-flush',
+    timeZone: 'Asia/Shanghai',
+  })
+  async flushPositionExtremes(): Promise<void> {
+    if (this.isFlushing || this.dirtyPositions.size === 0) {
+      return;
+    }
+
+    this.isFlushing = true;
+    try {
+      const positions = Array.from(this.positions.values()).filter((position) =>
+        this.dirtyPositions.has(position.id),
+      );
+      this.dirtyPositions.clear();
+      await Promise.all(
+        positions.map((position) => this.store.savePosition(position)),
+      );
+    } catch (error) {
+      this.logger.error(`保存模拟盘持仓失败: ${error.message}`);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * 处理实时价格推送，同一交易对未处理完时只保留最新价格
+   */
+  private handlePrice(rawSymbol: string, price: number): void {
+    const symbol = PaperTradingFormatter.normalizeSymbol(rawSymbol);
+    this.latestPrices.set(symbol, price);
+
+    if (
+      (!this.positions.has(symbol) && !this.pendingOrders.has(symbol)) ||
+      this.scheduledTicks.has(symbol)
+    ) {
+      return;
+    }
+
+    this.scheduledTicks.add(symbol);
+    this.runExclusive(symbol, async () => {
+      this.scheduledTicks.delete(symbol);
+      await this.processTick(symbol, this.latestPrices.get(symbol)!);
+    }).catch((error) => {
+      this.logger.error(`模拟盘撮合 ${symbol} 失败: ${error.message}`);
+    });
+  }
+
+  /**
+   * 按最新价格检查持仓止盈止损和等待触发的订单
+   */
+  private async processTick(symbol: string, price: number): Promise<void> {
+    const events: PaperTradeEvent[] = [];
+    let changed = false;
+
+    const position = this.positions.get(symbol);
+    if (position) {
+      if (price > position.highestPrice || price < position.lowestPrice) {
+        position.highestPrice = Math.max(position.highestPrice, price);
+        position.lowestPrice = Math.min(position.lowestPrice, price);
+        this.dirtyPositions.add(position.id);
+      }
+
+      const exit = this.checkProtection(position, price);
+      if (exit) {
+        events.push(await this.closeByProtection(position, exit, price));
+        changed = true;
+      }
+    }
+
+    for (const order of [...(this.pendingOrders.get(symbol) || [])]) {
+      const basePrice = this.getTriggeredPrice(order, price);
+      if (basePrice === null) {
+        continue;
+      }
+
+      this.removePendingOrder(symbol, order.id);
+      events.push(
+        ...(await this.executeOrder(
+          order,
+          basePrice,
+          order.type === 'LIMIT' ? 'MAKER' : 'TAKER',
+        )),
+      );
+      changed = true;
+    }
+
+    events.forEach((event) => this.notify(event));
+    if (changed) {
+      this.syncWatchedSymbols();
+    }
+  }
+
+  /**
+   * 持仓是否触发止盈止损，同时满足时按止损处理
+   */
+  private checkProtection(
+    position: PaperPositionView,
+    price: number,
+  ): PaperExitReason | null {
+    const isLong = position.direction === TradingDirection.LONG;
+
+    if (
+      position.stopLoss &&
+      (isLong ? price <= position.stopLoss : price >= position.stopLoss)
+    ) {
+      return 'STOP_LOSS';
+    }
+
+    if (
+      position.takeProfit &&
+      (isLong ? price >= position.takeProfit : price <= position.takeProfit)
+    ) {
+      return 'TAKE_PROFIT';
+    }
+
+    return null;
+  }
+
+  /**
+   * 止盈止损平仓：止盈按止盈价挂单成交，止损按触发时价格吃单成交
+   */
+  private async closeByProtection(
+    position: PaperPositionView,
+    reason: PaperExitReason,
+    price: number,
+  ): Promise<PaperTradeEvent> {
+    const side = position.direction === TradingDirection.LONG ? 'SELL' : 'BUY';
+    const fill =
+      reason === 'TAKE_PROFIT'
+        ? this.calculateFill(
+            side,
+            position.takeProfit!,
+            'MAKER',
+            position.quantity,
+          )
+        : this.calculateFill(side, price, 'TAKER', position.quantity);
+
+    const pnl = await this.reducePosition(
+      position,
+      position.quantity,
+      fill,
+      reason,
+    );
+    await this.applyAccountChange(pnl, fill.fee);
+    this.logger.log(
+      `模拟盘${reason === 'TAKE_PROFIT' ? '止盈' : '止损'}: ${position.symbol} @ ${fill.price}`,
+    );
+
+    return this.buildCloseEvent(null, position, reason, fill.price, pnl);
+  }
+
+  /**
+   * 成交订单
+   * 反向持仓先减仓，剩余数量（非只减仓订单）按订单方向开仓；保证金不足或没有可减仓位时拒绝订单
+   */
+  private async executeOrder(
+    order: PaperOrderView,
+    basePrice: number,
+    liquidity: PaperLiquidity,
+  ): Promise<PaperTradeEvent[]> {
+    const direction =
+      order.side === 'BUY' ? TradingDirection.LONG : TradingDirection.SHORT;
+    const position = this.positions.get(order.symbol);
+    const closing = position && position.direction !== direction;
+
+    if (order.reduceOnly && !closing) {
+      return [await this.rejectOrder(order, '没有可减少的反向持仓')];
+    }
+
+    const quantity = order.reduceOnly
+      ? Math.min(order.quantity, position!.quantity)
+      : order.quantity;
+    const closeQuantity = closing ? Math.min(quantity, position!.quantity) : 0;
+    const openQuantity = quantity - closeQuantity;
+
+    let fill = this.calculateFill(order.side, basePrice, liquidity, quantity);
+    if (order.type === 'LIMIT' && liquidity === 'TAKER') {
+      // 立即成交的限价单成交价不超过委托价
+      const price =
+        order.side === 'BUY'
+          ? Math.min(fill.price, order.price!)
+          : Math.max(fill.price, order.price!);
+      fill = {
+        price,
+        fee: price * quantity * this.getConfig().takerFeeRate,
+        slippage: Math.abs(price - basePrice) * quantity,
+      };
+    }
+
+    if (openQuantity > QUANTITY_EPSILON) {
+      const releasedMargin = closing
+        ? (position!.entryPrice * closeQuantity) / position!.leverage
+        : 0;
+      const required =
+        (fill.price * openQuantity) / order.leverage +
+        (fill.fee * openQuantity) / quantity;
+      const available =
+        this.getAccountSummary().availableMargin + releasedMargin;
+      if (required > available) {
+        return [
+          await this.rejectOrder(
+            order,
+            `可用保证金不足: 需要 ${required.toFixed(2)} USDT，可用 ${available.toFixed(2)} USDT`,
+          ),
+        ];
+      }
+    }
+
+    const events: PaperTradeEvent[] = [];
+    let pnl = 0;
+    let positionId: string | null = null;
+
+    if (closeQuantity > 0) {
+      const ratio = closeQuantity / quantity;
+      pnl = await this.reducePosition(
+        position!,
+        closeQuantity,
+        {
+          price: fill.price,
+          fee: fill.fee * ratio,
+          slippage: fill.slippage * ratio,
+        },
+        'ORDER',
+      );
+      positionId = position!.id;
+    }
+
+    if (openQuantity > QUANTITY_EPSILON) {
+      const ratio = openQuantity / quantity;
+      const opened = await this.increasePosition(
+        order,
+        openQuantity,
+        basePrice,
+        {
+          price: fill.price,
+          fee: fill.fee * ratio,
+          slippage: fill.slippage * ratio,
+        },
+      );
+      positionId = opened.id;
+    }
+
+    await this.applyAccountChange(pnl, fill.fee);
+
+    const filled = await this.store.updateOrder(order.id, {
+      status: 'FILLED',
+      quantity,
+      fillPrice: fill.price,
+      fee: fill.fee,
+      slippage: fill.slippage,
+      positionId,
+      filledAt: new Date(),
+    });
+    this.logger.log(
+      `模拟盘成交: ${filled.symbol} ${filled.side} ${quantity} @ ${fill.price}`,
+    );
+
+    // 仅平仓的成交只推送平仓事件，反手开仓时同时推送成交事件
+    const closed = closing && position!.status === 'CLOSED';
+    if (!closed || positionId !== position!.id) {
+      events.push({
+        type: 'FILL',
+        order: filled,
+        position: this.positions.get(order.symbol) || null,
+      });
+    }
+    if (closed) {
+      events.push(
+        this.buildCloseEvent(filled, position!, 'ORDER', fill.price, pnl),
+      );
+    }
+
+    return events;
+  }
+
+  /**
+   * 开仓或加仓，加仓时按成交数量加权计算开仓均价
+   */
+  private async increasePosition(
+    order: PaperOrderView,
+    quantity: number,
+    basePrice: number,
+    fill: FillResult,
+  ): Promise<PaperPositionView> {
+    const existing = this.positions.get(order.symbol);
+
+    if (existing) {
+      const total = existing.quantity + quantity;
+      existing.entryPrice =
+        (existing.entryPrice * existing.quantity + fill.price * quantity) /
+        total;
+      existing.quantity = total;
+      existing.openedQuantity += quantity;
+      existing.fees += fill.fee;
+      existing.slippage += fill.slippage;
+      existing.takeProfit = order.takeProfit ?? existing.takeProfit;
+      existing.stopLoss = order.stopLoss ?? existing.stopLoss;
+      existing.highestPrice = Math.max(existing.highestPrice, fill.price);
+      existing.lowestPrice = Math.min(existing.lowestPrice, fill.price);
+      await this.store.savePosition(existing);
+      return existing;
+    }
+
+    const position = await this.store.createPosition(this.getAccount().id, {
+      symbol: order.symbol,
+      direction:
+        order.side === 'BUY' ? TradingDirection.LONG : TradingDirection.SHORT,
+      status: 'OPEN',
+      quantity,
+      openedQuantity: quantity,
+      entryPrice: fill.price,
+      plannedPrice: order.price ?? order.triggerPrice ?? basePrice,
+      leverage: order.leverage,
+      takeProfit: order.takeProfit,
+      stopLoss: order.stopLoss,
+      initialTakeProfit: order.takeProfit,
+      initialStopLoss: order.stopLoss,
+      realizedPnl: 0,
+      fees: fill.fee,
+      slippage: fill.slippage,
+      exitQuantity: 0,
+      exitValue: 0,
+      highestPrice: fill.price,
+      lowestPrice: fill.price,
+      exitReason: null,
+      source: order.source,
+      sourceRef: order.sourceRef,
+      openedAt: new Date(),
+      closedAt: null,
+    });
+    this.positions.set(order.symbol, position);
+    return position;
+  }
+
+  /**
+   * 减仓，全部平仓后写入交易记录并撤销该交易对的只减仓挂单
+   * @returns 本次减仓的毛盈亏
+   */
+  private async reducePosition(
+    position: PaperPositionView,
+    quantity: number,
+    fill: FillResult,
+    reason: PaperExitReason,
+  ): Promise<number> {
+    const pnl = this.calculatePnl(position, fill.price, quantity);
+
+    position.quantity -= quantity;
+    position.exitQuantity += quantity;
+    position.exitValue += fill.price * quantity;
+    position.realizedPnl += pnl;
+    position.fees += fill.fee;
+    position.slippage += fill.slippage;
+
+    if (position.quantity > QUANTITY_EPSILON) {
+      await this.store.savePosition(position);
+      return pnl;
+    }
+
+    position.quantity = 0;
+    position.status = 'CLOSED';
+    position.exitReason = reason;
+    position.closedAt = new Date();
+    this.positions.delete(position.symbol);
+    this.dirtyPositions.delete(position.id);
+    position.tradingRecordId = await this.store.saveClosedPosition(position);
+
+    for (const order of [...(this.pendingOrders.get(position.symbol) || [])]) {
+      if (order.reduceOnly) {
+        this.removePendingOrder(position.symbol, order.id);
+        await this.store.updateOrder(order.id, {
+          status: 'CANCELED',
+          reason: '持仓已平仓',
+        });
+      }
+    }
+
+    return pnl;
+  }
+
+  private async rejectOrder(
+    order: PaperOrderView,
+    reason: string,
+  ): Promise<PaperTradeEvent> {
+    const rejected = await this.store.updateOrder(order.id, {
+      status: 'REJECTED',
+      reason,
+    });
+    this.logger.warn(`模拟盘订单被拒绝: ${order.symbol} ${reason}`);
+    return { type: 'REJECT', order: rejected, position: null };
+  }
+
+  private buildCloseEvent(
+    order: PaperOrderView | null,
+    position: PaperPositionView,
+    reason: PaperExitReason,
+    exitPrice: number,
+    pnl: number,
+  ): PaperTradeEvent {
+    const netPnl = position.realizedPnl - position.fees;
+    const margin =
+      (position.entryPrice * position.openedQuantity) / position.leverage;
+
+    return {
+      type: 'CLOSE',
+      order,
+      position,
+      exitReason: reason,
+      exitPrice,
+      pnl,
+      netPnl,
+      rorPercentage: margin > 0 ? (netPnl / margin) * 100 : 0,
+    };
+  }
+
+  /**
+   * 计算成交价格、手续费和滑点成本
+   * 吃单成交价按不利方向加上滑点：买入上浮，卖出下调
+   */
+  private calculateFill(
+    side: 'BUY' | 'SELL',
+    basePrice: number,
+    liquidity: PaperLiquidity,
+    quantity: number,
+  ): FillResult {
+    const config = this.getConfig();
+
+    if (liquidity === 'MAKER') {
+      return {
+        price: basePrice,
+        fee: basePrice * quantity * config.makerFeeRate,
+        slippage: 0,
+      };
+    }
+
+    const slippageRate = config.slippagePercent / 100;
+    const price =
+      side === 'BUY'
+        ? basePrice * (1 + slippageRate)
+        : basePrice * (1 - slippageRate);
+
+    return {
+      price,
+      fee: price * quantity * config.takerFeeRate,
+      slippage: Math.abs(price - basePrice) * quantity,
+    };
+  }
+
+  private calculatePnl(
+    position: PaperPositionView,
+    price: number,
+    quantity: number,
+  ): number {
+    return position.direction === TradingDirection.LONG
+      ? (price - position.entryPrice) * quantity
+      : (position.entryPrice - price) * quantity;
+  }
+
+  /**
+   * 订单在当前价格下是否可以立即成交
+   */
+  private isImmediatelyExecutable(
+    order: PaperOrderView,
+    price: number,
+  ): boolean {
+    if (order.type === 'MARKET') {
+      return true;
+    }
+    return this.getTriggeredPrice(order, price) !== null;
+  }
+
+  /**
+   * 等待触发的订单在当前价格下的成交基准价，未触发时返回 null
+   * 限价单按委托价成交，止损单触发后按当前价格成交
+   */
+  private getTriggeredPrice(
+    order: PaperOrderView,
+    price: number,
+  ): number | null {
+    if (order.type === 'LIMIT') {
+      const reached =
+        order.side === 'BUY' ? price <= order.price! : price >= order.price!;
+      return reached ? order.price! : null;
+    }
+
+    if (order.type === 'STOP') {
+      const triggered =
+        order.side === 'BUY'
+          ? price >= order.triggerPrice!
+          : price <= order.triggerPrice!;
+      return triggered ? price : null;
+    }
+
+    return price;
+  }
+
+  /**
+   * 计算委托数量
+   * 优先使用指定数量或名义价值；否则有止损时按账户权益的单笔风险计算，没有止损时使用默认名义价值
+   */
+  private resolveQuantity(
+    request: PaperOrderRequest,
+    price: number,
+    leverage: number,
+  ): number {
+    const config = this.getConfig();
+    let quantity: number;
+
+    if (request.quantity) {
+      quantity = request.quantity;
+    } else if (request.notionalUsd) {
+      quantity = request.notionalUsd / price;
+    } else if (request.stopLoss && !request.reduceOnly) {
+      const summary = this.getAccountSummary();
+      const riskUsd = (summary.equity * config.riskPerTradePercent) / 100;
+      const maxQuantity = (summary.availableMargin * leverage) / price;
+      quantity = Math.min(
+        riskUsd / Math.abs(price - request.stopLoss),
+        maxQuantity,
+      );
+    } else {
+      quantity = config.defaultNotionalUsd / price;
+    }
+
+    quantity = Number(quantity.toFixed(8));
+    if (!(quantity > 0)) {
+      throw new BadRequestException('委托数量必须大于0');
+    }
+    return quantity;
+  }
+
+  private validateRequest(request: PaperOrderRequest): void {
+    if (!['BUY', 'SELL'].includes(request.side)) {
+      throw new BadRequestException(`不支持的订单方向: ${request.side}`);
+    }
+
+    if (!['MARKET', 'LIMIT', 'STOP'].includes(request.type)) {
+      throw new BadRequestException(`不支持的订单类型: ${request.type}`);
+    }
+
+    if (request.type === 'LIMIT' && !(Number(request.price) > 0)) {
+      throw new BadRequestException('限价单必须指定大于0的委托价格');
+    }
+
+    if (request.type === 'STOP' && !(Number(request.triggerPrice) > 0)) {
+      throw new BadRequestException('止损单必须指定大于0的触发价格');
+    }
+
+    if (request.quantity !== undefined && !(Number(request.quantity) > 0)) {
+      throw new BadRequestException('委托数量必须大于0');
+    }
+
+    if (
+      request.notionalUsd !== undefined &&
+      !(Number(request.notionalUsd) > 0)
+    ) {
+      throw new BadRequestException('名义价值必须大于0');
+    }
+
+    if (
+      request.leverage !== undefined &&
+      !(Number.isInteger(request.leverage) && request.leverage >= 1)
+    ) {
+      throw new BadRequestException('杠杆倍数必须是大于等于1的整数');
+    }
+  }
+
+  /**
+   * 校验止盈止损相对参考价格的方向：做多止盈高于参考价、止损低于参考价，做空相反
+   */
+  private validateProtection(
+    request: Pick<PaperOrderRequest, 'side' | 'takeProfit' | 'stopLoss'>,
+    referencePrice: number,
+  ): void {
+    const isLong = request.side === 'BUY';
+
+    if (request.takeProfit !== undefined) {
+      if (
+        !(request.takeProfit > 0) ||
+        (isLong
+          ? request.takeProfit <= referencePrice
+          : request.takeProfit >= referencePrice)
+      ) {
+        throw new BadRequestException(
+          `止盈价 ${request.takeProfit} 必须${isLong ? '高于' : '低于'}参考价格 ${referencePrice}`,
+        );
+      }
+    }
+
+    if (request.stopLoss !== undefined) {
+      if (
+        !(request.stopLoss > 0) ||
+        (isLong
+          ? request.stopLoss >= referencePrice
+          : request.stopLoss <= referencePrice)
+      ) {
+        throw new BadRequestException(
+          `止损价 ${request.stopLoss} 必须${isLong ? '低于' : '高于'}参考价格 ${referencePrice}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 获取交易对最新价格，尚未监控的交易对先加入价格监控再等待首个价格
+   */
+  private async waitForPrice(symbol: string): Promise<number | undefined> {
+    const cached =
+      this.latestPrices.get(symbol) ??
+      this.realtimePriceMonitorService.getLatestPrice(symbol);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    this.awaitingPrice.add(symbol);
+    try {
+      await this.syncWatchedSymbols();
+      const startedAt = Date.now();
+      while (Date.now() - startedAt < PRICE_WAIT_TIMEOUT) {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        const price = this.latestPrices.get(symbol);
+        if (price !== undefined) {
+          return price;
+        }
+      }
+    } finally {
+      this.awaitingPrice.delete(symbol);
+    }
+
+    // 等待超时后不再保留该交易对的价格监控
+    await this.syncWatchedSymbols();
+    return undefined;
+  }
+
+  /**
+   * 将有持仓或挂单的交易对登记到价格监控
+   */
+  private async syncWatchedSymbols(): Promise<void> {
+    const symbols = new Set([
+      ...this.pendingOrders.keys(),
+      ...this.positions.keys(),
+      ...this.awaitingPrice,
+    ]);
+
+    try {
+      await this.realtimePriceMonitorService.setAuxiliarySymbols(
+        PRICE_MONITOR_SOURCE,
+        Array.from(symbols),
+      );
+    } catch (error) {
+      this.logger.error(`同步模拟盘监控交易对失败: ${error.message}`);
+    }
+  }
+
+  private async applyAccountChange(pnl: number, fee: number): Promise<void> {
+    const account = this.getAccount();
+    account.balance += pnl - fee;
+    account.realizedPnl += pnl;
+    account.totalFees += fee;
+    await this.store.applyAccountChange(account.id, pnl, fee);
+  }
+
+  private notify(event: PaperTradeEvent): void {
+    if (!this.getConfig().notify) {
+      return;
+    }
+
+    this.tradingNotificationService
+      .sendPaperTradeNotification(event)
+      .catch((error) => {
+        this.logger.error(`发送模拟盘通知失败: ${error.message}`);
+      });
+  }
+
+  private async loadState(): Promise<void> {
+    const account = await this.store.ensureAccount(
+      this.getConfig().initialBalance,
+    );
+    this.account = this.toAccountState(account);
+
+    const [orders, positions] = await Promise.all([
+      this.store.findPendingOrders(account.id),
+      this.store.findOpenPositions(account.id),
+    ]);
+    orders.forEach((order) => this.addPendingOrder(order));
+    positions.forEach((position) =>
+      this.positions.set(position.symbol, position),
+    );
+  }
+
+  private addPendingOrder(order: PaperOrderView): void {
+    this.pendingOrders.set(order.symbol, [
+      ...(this.pendingOrders.get(order.symbol) || []),
+      order,
+    ]);
+  }
+
+  private removePendingOrder(
+    symbol: string,
+    id: string,
+  ): PaperOrderView | null {
+    const orders = this.pendingOrders.get(symbol) || [];
+    const order = orders.find((item) => item.id === id) || null;
+    const remaining = orders.filter((item) => item.id !== id);
+
+    if (remaining.length > 0) {
+      this.pendingOrders.set(symbol, remaining);
+    } else {
+      this.pendingOrders.delete(symbol);
+    }
+    return order;
+  }
+
+  private countPendingOrders(): number {
+    return Array.from(this.pendingOrders.values()).reduce(
+      (sum, orders) => sum + orders.length,
+      0,
+    );
+  }
+
+  /**
+   * 串行执行同一交易对的任务
+   */
+  private runExclusive<T>(symbol: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.symbolLocks.get(symbol) || Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.then(
+      () => undefined,
+      () => undefined,
+    );
+
+    this.symbolLocks.set(symbol, tail);
+    tail.then(() => {
+      if (this.symbolLocks.get(symbol) === tail) {
+        this.symbolLocks.delete(symbol);
+      }
+    });
+    return result;
+  }
+
+  private getAccount(): PaperAccountState {
+    if (!this.getConfig().enabled) {
+      throw new BadRequestException(
+        '模拟盘未启用，请设置 PAPER_TRADING_ENABLED=true',
+      );
+    }
+    if (!this.account) {
+      throw new BadRequestException('模拟账户尚未初始化');
+    }
+    return this.account;
+  }
+
+  private toAccountState(account: {
+    id: number;
+    name: string;
+    initialBalance: unknown;
+    balance: unknown;
+    realizedPnl: unknown;
+    totalFees: unknown;
+    resetAt: Date | null;
+  }): PaperAccountState {
+    return {
+      id: account.id,
+      name: account.name,
+      initialBalance: Number(account.initialBalance),
+      balance: Number(account.balance),
+      realizedPnl: Number(account.realizedPnl),
+      totalFees: Number(account.totalFees),
+      resetAt: account.resetAt,
+    };
+  }
+
+  private getConfig(): PaperTradingConfig {
+    return this.configService.get<PaperTradingConfig>('paperTrading')!;
+  }
+}
@@ -0,0 +1,421 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  PaperAccount,
+  PaperOrder,
+  PaperPosition,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TradingDirection } from 'src/shared/enums';
+import { PaperOrderQueryDto, PaperPositionQueryDto } from '../dto';
+import {
+  PaperExitReason,
+  PaperOrderSide,
+  PaperOrderSource,
+  PaperOrderStatus,
+  PaperOrderType,
+  PaperOrderView,
+  PaperPositionView,
+} from '../interfaces';
+import { PaperTradingFormatter } from '../utils';
+
+/** 默认模拟账户名称 */
+export const DEFAULT_PAPER_ACCOUNT = 'default';
+
+/** 平仓原因描述 */
+const EXIT_REASON_TEXT: Record<PaperExitReason, string> = {
+  TAKE_PROFIT: '止盈',
+  STOP_LOSS: '止损',
+  ORDER: '委托平仓',
+};
+
+/**
+ * 模拟盘存储服务
+ * 负责模拟账户、订单、持仓的读写，以及平仓后写入交易记录（标记为模拟盘交易）
+ */
+@Injectable()
+export class PaperTradingStoreService {
+  private readonly logger = new Logger(PaperTradingStoreService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 获取模拟账户，不存在时按初始资金创建
+   */
+  async ensureAccount(initialBalance: number): Promise<PaperAccount> {
+    return this.prisma.paperAccount.upsert({
+      where: { name: DEFAULT_PAPER_ACCOUNT },
+      update: {},
+      create: {
+        name: DEFAULT_PAPER_ACCOUNT,
+        initialBalance,
+        balance: initialBalance,
+      },
+    });
+  }
+
+  /**
+   * 重置模拟账户：删除全部订单和持仓并恢复初始资金
+   * 已写入的模拟盘交易记录保留，可按 resetAt 之后的时间统计
+   */
+  async resetAccount(
+    accountId: number,
+    initialBalance: number,
+  ): Promise<PaperAccount> {
+    const [, , account] = await this.prisma.$transaction([
+      this.prisma.paperOrder.deleteMany({ where: { accountId } }),
+      this.prisma.paperPosition.deleteMany({ where: { accountId } }),
+      this.prisma.paperAccount.update({
+        where: { id: accountId },
+        data: {
+          initialBalance,
+          balance: initialBalance,
+          realizedPnl: 0,
+          totalFees: 0,
+          resetAt: new Date(),
+        },
+      }),
+    ]);
+    return account;
+  }
+
+  /**
+   * 记录成交带来的账户变动
+   * @param pnl 已实现毛盈亏
+   * @param fee 手续费
+   */
+  async applyAccountChange(
+    accountId: number,
+    pnl: number,
+    fee: number,
+  ): Promise<void> {
+    await this.prisma.paperAccount.update({
+      where: { id: accountId },
+      data: {
+        balance: { increment: pnl - fee },
+        realizedPnl: { increment: pnl },
+        totalFees: { increment: fee },
+      },
+    });
+  }
+
+  async findPendingOrders(accountId: number): Promise<PaperOrderView[]> {
+    const orders = await this.prisma.paperOrder.findMany({
+      where: { accountId, status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+    });
+    return orders.map((order) => this.toOrderView(order));
+  }
+
+  async findOpenPositions(accountId: number): Promise<PaperPositionView[]> {
+    const positions = await this.prisma.paperPosition.findMany({
+      where: { accountId, status: 'OPEN' },
+    });
+    return positions.map((position) => this.toPositionView(position));
+  }
+
+  async createOrder(
+    accountId: number,
+    data: Omit<Prisma.PaperOrderUncheckedCreateInput, 'accountId' | 'status'>,
+  ): Promise<PaperOrderView> {
+    const order = await this.prisma.paperOrder.create({
+      data: { ...data, accountId, status: 'PENDING' },
+    });
+    return this.toOrderView(order);
+  }
+
+  async updateOrder(
+    id: string,
+    data: Prisma.PaperOrderUncheckedUpdateInput,
+  ): Promise<PaperOrderView> {
+    const order = await this.prisma.paperOrder.update({
+      where: { id },
+      data,
+    });
+    return this.toOrderView(order);
+  }
+
+  async findOrder(id: string): Promise<PaperOrderView | null> {
+    const order = await this.prisma.paperOrder.findUnique({ where: { id } });
+    return order ? this.toOrderView(order) : null;
+  }
+
+  async createPosition(
+    accountId: number,
+    position: Omit<PaperPositionView, 'id' | 'tradingRecordId'>,
+  ): Promise<PaperPositionView> {
+    const created = await this.prisma.paperPosition.create({
+      data: { ...this.toPositionData(position), accountId },
+    });
+    return this.toPositionView(created);
+  }
+
+  /**
+   * 保存持仓的当前状态
+   */
+  async savePosition(position: PaperPositionView): Promise<void> {
+    await this.prisma.paperPosition.update({
+      where: { id: position.id },
+      data: this.toPositionData(position),
+    });
+  }
+
+  /**
+   * 保存已平仓的持仓并写入交易记录
+   * @returns 交易记录ID
+   */
+  async saveClosedPosition(position: PaperPositionView): Promise<number> {
+    const record = {
+      ...this.buildTradingRecord(position),
+      paperPositions: { connect: [{ id: position.id }] },
+    };
+
+    const [, tradingRecord] = await this.prisma.$transaction([
+      this.prisma.paperPosition.update({
+        where: { id: position.id },
+        data: this.toPositionData(position),
+      }),
+      this.prisma.tradingRecord.upsert({
+        where: { tradeId: record.tradeId },
+        update: record,
+        create: record,
+      }),
+    ]);
+
+    this.logger.log(
+      `模拟盘交易已写入交易记录: ${record.tradeId}, 净盈亏 ${Number(record.netPnl).toFixed(4)}`,
+    );
+    return tradingRecord.id;
+  }
+
+  /**
+   * 分页查询订单
+   */
+  async findOrders(accountId: number, query: PaperOrderQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+    const where: Prisma.PaperOrderWhereInput = { accountId };
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    if (query.symbol) {
+      where.symbol = PaperTradingFormatter.normalizeSymbol(query.symbol);
+    }
+
+    const [orders, total] = await Promise.all([
+      this.prisma.paperOrder.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.paperOrder.count({ where }),
+    ]);
+
+    return {
+      data: orders.map((order) => this.toOrderView(order)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 分页查询已平仓持仓
+   */
+  async findClosedPositions(accountId: number, query: PaperPositionQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+    const where: Prisma.PaperPositionWhereInput = {
+      accountId,
+      status: 'CLOSED',
+    };
+
+    if (query.symbol) {
+      where.symbol = PaperTradingFormatter.normalizeSymbol(query.symbol);
+    }
+
+    const [positions, total] = await Promise.all([
+      this.prisma.paperPosition.findMany({
+        where,
+        orderBy: { closedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.paperPosition.count({ where }),
+    ]);
+
+    return {
+      data: positions.map((position) => this.toPositionView(position)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 将已平仓持仓转换为交易记录
+   * pnl 为毛盈亏，fees 包含开仓和平仓手续费，盈亏率按净盈亏相对保证金计算
+   */
+  private buildTradingRecord(
+    position: PaperPositionView,
+  ): Prisma.TradingRecordCreateInput {
+    const isLong = position.direction === TradingDirection.LONG;
+    const exitPrice =
+      position.exitQuantity > 0
+        ? position.exitValue / position.exitQuantity
+        : 0;
+    const margin =
+      (position.entryPrice * position.openedQuantity) / position.leverage;
+    const netPnl = position.realizedPnl - position.fees;
+    const closedAt = position.closedAt || new Date();
+    const favorable = isLong
+      ? position.highestPrice - position.entryPrice
+      : position.entryPrice - position.lowestPrice;
+    const adverse = isLong
+      ? position.entryPrice - position.lowestPrice
+      : position.highestPrice - position.entryPrice;
+    const exitReason = position.exitReason || 'ORDER';
+
+    return {
+      tradeId: `PAPER-${position.id}`,
+      instrument: PaperTradingFormatter.toInstrument(position.symbol),
+      direction: position.direction,
+      status: 'CLOSED',
+      leverage: position.leverage,
+      entryTime: position.openedAt,
+      exitTime: closedAt,
+      duration: Math.round(
+        (closedAt.getTime() - position.openedAt.getTime()) / (1000 * 60),
+      ),
+      plannedPrice: position.plannedPrice,
+      actualEntryPrice: position.entryPrice,
+      actualExitPrice: exitPrice,
+      positionSize: position.openedQuantity,
+      margin,
+      pnl: position.realizedPnl,
+      rorPercentage: margin > 0 ? (netPnl / margin) * 100 : 0,
+      fees: position.fees,
+      netPnl,
+      slippage: position.slippage,
+      initialTakeProfit: position.initialTakeProfit,
+      initialStopLoss: position.initialStopLoss,
+      hitTakeProfit: exitReason === 'TAKE_PROFIT',
+      hitStopLoss: exitReason === 'STOP_LOSS',
+      maxFavorableExcursion: Math.max(favorable, 0) * position.openedQuantity,
+      maxAdverseExcursion: Math.max(adverse, 0) * position.openedQuantity,
+      rawData: JSON.stringify(position),
+      notes: `模拟盘交易，来源: ${position.source}${position.sourceRef ? ` (${position.sourceRef})` : ''}，平仓原因: ${EXIT_REASON_TEXT[exitReason]}`,
+      isSimulated: true,
+    };
+  }
+
+  private toPositionData(
+    position: Omit<PaperPositionView, 'id' | 'tradingRecordId'>,
+  ) {
+    return {
+      symbol: position.symbol,
+      direction: position.direction,
+      status: position.status,
+      quantity: position.quantity,
+      openedQuantity: position.openedQuantity,
+      entryPrice: position.entryPrice,
+      plannedPrice: position.plannedPrice,
+      leverage: position.leverage,
+      takeProfit: position.takeProfit,
+      stopLoss: position.stopLoss,
+      initialTakeProfit: position.initialTakeProfit,
+      initialStopLoss: position.initialStopLoss,
+      realizedPnl: position.realizedPnl,
+      fees: position.fees,
+      slippage: position.slippage,
+      exitQuantity: position.exitQuantity,
+      exitValue: position.exitValue,
+      highestPrice: position.highestPrice,
+      lowestPrice: position.lowestPrice,
+      exitReason: position.exitReason,
+      source: position.source,
+      sourceRef: position.sourceRef,
+      openedAt: position.openedAt,
+      closedAt: position.closedAt,
+    };
+  }
+
+  private toOrderView(order: PaperOrder): PaperOrderView {
+    return {
+      id: order.id,
+      positionId: order.positionId,
+      symbol: order.symbol,
+      side: order.side as PaperOrderSide,
+      type: order.type as PaperOrderType,
+      quantity: Number(order.quantity),
+      price: order.price !== null ? Number(order.price) : null,
+      triggerPrice:
+        order.triggerPrice !== null ? Number(order.triggerPrice) : null,
+      takeProfit: order.takeProfit !== null ? Number(order.takeProfit) : null,
+      stopLoss: order.stopLoss !== null ? Number(order.stopLoss) : null,
+      leverage: order.leverage,
+      reduceOnly: order.reduceOnly,
+      status: order.status as PaperOrderStatus,
+      source: order.source as PaperOrderSource,
+      sourceRef: order.sourceRef,
+      fillPrice: order.fillPrice !== null ? Number(order.fillPrice) : null,
+      fee: order.fee !== null ? Number(order.fee) : null,
+      slippage: order.slippage !== null ? Number(order.slippage) : null,
+      reason: order.reason,
+      filledAt: order.filledAt,
+      createdAt: order.createdAt,
+    };
+  }
+
+  private toPositionView(position: PaperPosition): PaperPositionView {
+    return {
+      id: position.id,
+      tradingRecordId: position.tradingRecordId,
+      symbol: position.symbol,
+      direction: position.direction as TradingDirection,
+      status: position.status as 'OPEN' | 'CLOSED',
+      quantity: Number(position.quantity),
+      openedQuantity: Number(position.openedQuantity),
+      entryPrice: Number(position.entryPrice),
+      plannedPrice:
+        position.plannedPrice !== null ? Number(position.plannedPrice) : null,
+      leverage: position.leverage,
+      takeProfit:
+        position.takeProfit !== null ? Number(position.takeProfit) : null,
+      stopLoss: position.stopLoss !== null ? Number(position.stopLoss) : null,
+      initialTakeProfit:
+        position.initialTakeProfit !== null
+          ? Number(position.initialTakeProfit)
+          : null,
+      initialStopLoss:
+        position.initialStopLoss !== null
+          ? Number(position.initialStopLoss)
+          : null,
+      realizedPnl: Number(position.realizedPnl),
+      fees: Number(position.fees),
+      slippage: Number(position.slippage),
+      exitQuantity: Number(position.exitQuantity),
+      exitValue: Number(position.exitValue),
+      highestPrice: Number(position.highestPrice),
+      lowestPrice: Number(position.lowestPrice),
+      exitReason: position.exitReason as PaperExitReason | null,
+      source: position.source as PaperOrderSource,
+      sourceRef: position.sourceRef,
+      openedAt: position.openedAt,
+      closedAt: position.closedAt,
+    };
+  }
+}
@@ -0,0 +1,227 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import * as TelegramBot from 'node-telegram-bot-api';
+import { TelegramBotService } from 'src/modules/telegram-bot';
+import { PaperOrderRequest } from '../interfaces';
+import { PaperTradingFormatter } from '../utils';
+import { PaperTradingEngineService } from './paper-trading-engine.service';
+
+/**
+ * 模拟盘 Telegram 命令服务
+ * 格式: /paper [buy|sell|close|cancel|reset|help] ...
+ */
+@Injectable()
+export class PaperTradingTelegramService implements OnModuleInit {
+  private readonly logger = new Logger(PaperTradingTelegramService.name);
+
+  constructor(
+    private readonly telegramBotService: TelegramBotService,
+    private readonly paperTradingEngineService: PaperTradingEngineService,
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.telegramBotService.isEnabled()) {
+      this.logger.log('Telegram Bot 未启用，跳过 /paper 命令注册');
+      return;
+    }
+
+    this.telegramBotService.registerCommandHandler({
+      command: '/paper',
+      description: '模拟盘交易',
+      handler: (msg) => this.handlePaperCommand(msg),
+    });
+  }
+
+  /**
+   * 处理 /paper 命令
+   */
+  private async handlePaperCommand(msg: TelegramBot.Message): Promise<void> {
+    const chatId = msg.chat.id;
+    const params = (msg.text || '')
+      .split(/\s+/)
+      .slice(1)
+      .filter((param) => param.length > 0);
+    const action = (params[0] || '').toLowerCase();
+
+    try {
+      switch (action) {
+        case '':
+        case 'status':
+          await this.reply(chatId, this.formatAccount());
+          break;
+        case 'buy':
+        case 'sell':
+          await this.handleOrder(chatId, action, params.slice(1));
+          break;
+        case 'close':
+          await this.handleClose(chatId, params.slice(1));
+          break;
+        case 'cancel':
+          await this.handleCancel(chatId, params[1]);
+          break;
+        case 'reset':
+          await this.handleReset(chatId, params[1]);
+          break;
+        default:
+          await this.reply(chatId, PaperTradingFormatter.formatHelp());
+      }
+    } catch (error) {
+      this.logger.error(`处理 /paper 命令失败: ${error.message}`);
+      await this.reply(
+        chatId,
+        `❌ <b>模拟盘操作失败</b>\n\n${this.escape(error.message)}`,
+      );
+    }
+  }
+
+  /**
+   * 格式: /paper buy|sell SYMBOL [数量|$金额] [limit 价格|stop 价格] [tp 价格] [sl 价格] [杠杆x]
+   */
+  private async handleOrder(
+    chatId: number,
+    action: 'buy' | 'sell',
+    params: string[],
+  ): Promise<void> {
+    if (params.length === 0) {
+      await this.reply(chatId, PaperTradingFormatter.formatHelp());
+      return;
+    }
+
+    const request: PaperOrderRequest = {
+      symbol: params[0],
+      side: action === 'buy' ? 'BUY' : 'SELL',
+      type: 'MARKET',
+      source: 'TELEGRAM',
+      sourceRef: String(chatId),
+    };
+
+    for (let i = 1; i < params.length; i++) {
+      const param = params[i].toLowerCase();
+      const next = params[i + 1] !== undefined ? Number(params[i + 1]) : NaN;
+
+      if (['limit', 'stop', 'tp', 'sl'].includes(param)) {
+        if (Number.isNaN(next)) {
+          throw new Error(`${param} 后需要填写价格`);
+        }
+        if (param === 'limit') {
+          request.type = 'LIMIT';
+          request.price = next;
+        } else if (param === 'stop') {
+          request.type = 'STOP';
+          request.triggerPrice = next;
+        } else if (param === 'tp') {
+          request.takeProfit = next;
+        } else {
+          request.stopLoss = next;
+        }
+        i++;
+      } else if (/^\$\d+(\.\d+)?$/.test(param)) {
+        request.notionalUsd = Number(param.slice(1));
+      } else if (/^\d+x$/.test(param)) {
+        request.leverage = Number(param.slice(0, -1));
+      } else if (!Number.isNaN(Number(param))) {
+        request.quantity = Number(param);
+      } else {
+        throw new Error(`无法识别的参数: ${params[i]}`);
+      }
+    }
+
+    const order = await this.paperTradingEngineService.placeOrder(request);
+    await this.reply(
+      chatId,
+      PaperTradingFormatter.formatOrderResult(
+        order,
+        this.paperTradingEngineService.getPosition(order.symbol),
+      ),
+    );
+  }
+
+  /**
+   * 格式: /paper close SYMBOL [数量]
+   */
+  private async handleClose(chatId: number, params: string[]): Promise<void> {
+    if (!params[0]) {
+      throw new Error('请指定要平仓的交易对，如 /paper close BTCUSDT');
+    }
+
+    const quantity = params[1] !== undefined ? Number(params[1]) : undefined;
+    if (quantity !== undefined && !(quantity > 0)) {
+      throw new Error('平仓数量必须大于0');
+    }
+
+    const order = await this.paperTradingEngineService.closePosition(
+      params[0],
+      'TELEGRAM',
+      quantity,
+    );
+    await this.reply(
+      chatId,
+      PaperTradingFormatter.formatOrderResult(
+        order,
+        this.paperTradingEngineService.getPosition(order.symbol),
+      ),
+    );
+  }
+
+  /**
+   * 格式: /paper cancel 订单ID前缀
+   */
+  private async handleCancel(chatId: number, idPrefix?: string): Promise<void> {
+    if (!idPrefix) {
+      throw new Error('请指定要撤销的订单ID，可只输入前8位');
+    }
+
+    const matches = this.paperTradingEngineService
+      .getPendingOrders()
+      .filter((order) => order.id.startsWith(idPrefix));
+    if (matches.length !== 1) {
+      throw new Error(
+        matches.length === 0
+          ? `没有ID以 ${idPrefix} 开头的挂单`
+          : `有 ${matches.length} 个挂单ID以 ${idPrefix} 开头，请输入更长的ID`,
+      );
+    }
+
+    const order = await this.paperTradingEngineService.cancelOrder(
+      matches[0].id,
+    );
+    await this.reply(
+      chatId,
+      PaperTradingFormatter.formatOrderResult(order, null),
+    );
+  }
+
+  /**
+   * 格式: /paper reset [初始资金]
+   */
+  private async handleReset(chatId: number, balance?: string): Promise<void> {
+    await this.paperTradingEngineService.resetAccount(
+      balance !== undefined ? Number(balance) : undefined,
+    );
+    await this.reply(
+      chatId,
+      `♻️ <b>模拟账户已重置</b>\n\n${this.formatAccount()}`,
+    );
+  }
+
+  private formatAccount(): string {
+    return PaperTradingFormatter.formatAccount(
+      this.paperTradingEngineService.getAccountSummary(),
+      this.paperTradingEngineService.getOpenPositions(),
+      this.paperTradingEngineService.getPendingOrders(),
+    );
+  }
+
+  private async reply(chatId: number, message: string): Promise<void> {
+    await this.telegramBotService.sendMessage(message, chatId, {
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+    });
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1 @@
+export * from './paper-trading.formatter';
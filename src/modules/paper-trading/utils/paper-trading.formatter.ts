@@ -0,0 +1,177 @@
+import {
+  PaperAccountSummary,
+  PaperOrderView,
+  PaperPositionView,
+} from '../interfaces';
+
+/**
+ * 模拟盘消息格式化器
+ * 负责交易对格式转换和 Telegram /paper 命令的回复内容
+ */
+export class PaperTradingFormatter {
+  /**
+   * 统一交易对格式 (如: BTC/USDT:USDT、BTC-USDT -> BTCUSDT)
+   */
+  static normalizeSymbol(symbol: string): string {
+    return symbol
+      .split(':')[0]
+      .replace(/[/\-_]/g, '')
+      .toUpperCase();
+  }
+
+  /**
+   * 转换为交易记录使用的交易对格式 (如: BTCUSDT -> BTC-USDT)，与 OKX 同步的交易记录保持一致
+   */
+  static toInstrument(symbol: string): string {
+    return symbol.endsWith('USDT') && symbol.length > 4
+      ? `${symbol.slice(0, -4)}-USDT`
+      : symbol;
+  }
+
+  /**
+   * 格式化账户概览、持仓和挂单
+   */
+  static formatAccount(
+    summary: PaperAccountSummary,
+    positions: PaperPositionView[],
+    orders: PaperOrderView[],
+  ): string {
+    let message = `🧪 <b>模拟盘账户</b>\n\n`;
+    message += `💰 <b>权益:</b> ${summary.equity.toFixed(2)} USDT (${this.formatSigned(summary.returnPercent, 2)}%)\n`;
+    message += `🏦 <b>余额:</b> ${summary.balance.toFixed(2)} · 初始 ${summary.initialBalance.toFixed(2)}\n`;
+    message += `📈 <b>已实现:</b> ${this.formatSigned(summary.realizedPnl, 2)} · 未实现 ${this.formatSigned(summary.unrealizedPnl, 2)}\n`;
+    message += `💸 <b>手续费:</b> ${summary.totalFees.toFixed(2)}\n`;
+    message += `🔒 <b>保证金:</b> 占用 ${summary.usedMargin.toFixed(2)} · 可用 ${summary.availableMargin.toFixed(2)}\n`;
+
+    message += `\n📊 <b>持仓 (${positions.length})</b>\n`;
+    if (positions.length === 0) {
+      message += '暂无持仓\n';
+    }
+    positions.forEach((position) => {
+      message += this.formatPosition(position);
+    });
+
+    message += `\n⏳ <b>挂单 (${orders.length})</b>\n`;
+    if (orders.length === 0) {
+      message += '暂无挂单\n';
+    }
+    orders.forEach((order) => {
+      message += `• ${this.formatOrderLine(order)} <code>${order.id.slice(0, 8)}</code>\n`;
+    });
+
+    return message.trim();
+  }
+
+  /**
+   * 格式化下单结果
+   */
+  static formatOrderResult(
+    order: PaperOrderView,
+    position: PaperPositionView | null,
+  ): string {
+    const titles: Record<PaperOrderView['status'], string> = {
+      PENDING: '⏳ <b>模拟盘挂单成功</b>',
+      FILLED: '✅ <b>模拟盘订单已成交</b>',
+      CANCELED: '🗑 <b>模拟盘订单已撤销</b>',
+      REJECTED: '🚫 <b>模拟盘订单被拒绝</b>',
+    };
+
+    let message = `${titles[order.status]}\n\n`;
+    message += `📝 ${this.formatOrderLine(order)}\n`;
+
+    if (order.fillPrice !== null) {
+      message += `💰 <b>成交价:</b> $${this.formatPrice(order.fillPrice)}\n`;
+      message += `💸 <b>手续费:</b> ${(order.fee || 0).toFixed(4)} · 滑点 ${(order.slippage || 0).toFixed(4)} USDT\n`;
+    }
+    if (order.reason) {
+      message += `⚠️ <b>原因:</b> ${this.escape(order.reason)}\n`;
+    }
+    if (position) {
+      message += `\n📊 <b>当前持仓</b>\n${this.formatPosition(position)}`;
+    }
+    message += `🆔 <code>${order.id}</code>`;
+
+    return message;
+  }
+
+  /**
+   * 格式化 /paper 命令帮助
+   */
+  static formatHelp(): string {
+    return `
+🧪 <b>模拟盘命令</b>
+
+/paper - 查看账户、持仓和挂单
+/paper buy &lt;symbol&gt; [数量|$金额] [limit 价格|stop 价格] [tp 价格] [sl 价格] - 买入/做多
+/paper sell &lt;symbol&gt; ... - 卖出/做空，参数同上
+/paper close &lt;symbol&gt; [数量] - 按市价平仓
+/paper cancel &lt;订单ID前缀&gt; - 撤销挂单
+/paper reset [初始资金] - 重置模拟账户
+
+不指定数量时：有止损按单笔风险计算，否则使用默认名义价值
+
+<b>💡 示例:</b>
+<code>/paper buy BTCUSDT $500 sl 60000 tp 70000</code>
+<code>/paper sell ETHUSDT 0.5 limit 3800</code>
+<code>/paper close BTCUSDT</code>
+    `.trim();
+  }
+
+  private static formatPosition(position: PaperPositionView): string {
+    const directionText = position.direction === 'LONG' ? '🟢 多' : '🔴 空';
+    let line = `• <b>${position.symbol}</b> ${directionText} ${position.leverage}x ${position.quantity} @ $${this.formatPrice(position.entryPrice)}`;
+
+    if (position.markPrice !== undefined && position.markPrice !== null) {
+      line += ` → $${this.formatPrice(position.markPrice)}`;
+    }
+    if (
+      position.unrealizedPnl !== undefined &&
+      position.unrealizedPnl !== null
+    ) {
+      line += ` (${this.formatSigned(position.unrealizedPnl, 2)})`;
+    }
+    line += '\n';
+
+    if (position.takeProfit !== null || position.stopLoss !== null) {
+      line += `  🎯 ${position.takeProfit !== null ? `$${this.formatPrice(position.takeProfit)}` : '-'} · 🛑 ${position.stopLoss !== null ? `$${this.formatPrice(position.stopLoss)}` : '-'}\n`;
+    }
+    return line;
+  }
+
+  private static formatOrderLine(order: PaperOrderView): string {
+    const sideText = order.side === 'BUY' ? '买入' : '卖出';
+    const priceText =
+      order.type === 'LIMIT'
+        ? `限价 $${this.formatPrice(order.price!)}`
+        : order.type === 'STOP'
+          ? `触发价 $${this.formatPrice(order.triggerPrice!)}`
+          : '市价';
+
+    let line = `<b>${order.symbol}</b> ${sideText} ${order.quantity} · ${priceText}`;
+    if (order.reduceOnly) {
+      line += ' · 只减仓';
+    }
+    if (order.takeProfit !== null) {
+      line += ` · 止盈 $${this.formatPrice(order.takeProfit)}`;
+    }
+    if (order.stopLoss !== null) {
+      line += ` · 止损 $${this.formatPrice(order.stopLoss)}`;
+    }
+    return line;
+  }
+
+  private static formatPrice(price: number): string {
+    return price >= 1 ? price.toFixed(2) : price.toPrecision(4);
+  }
+
+  private static formatSigned(value: number, digits: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
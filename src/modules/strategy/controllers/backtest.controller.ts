@@ -0,0 +1,53 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { BacktestQueryDto, CreateBacktestDto } from '../dto';
+import { BacktestService } from '../services';
+
+@ApiTags('策略回测')
+@Controller('api/backtests')
+export class BacktestController {
+  constructor(private readonly backtestService: BacktestService) {}
+
+  @Post()
+  @ApiOperation({ summary: '启动回测（后台执行）' })
+  @ApiResponse({ status: 201, description: '回测已创建，通过查询接口轮询状态' })
+  async start(@Body() dto: CreateBacktestDto) {
+    return await this.backtestService.start(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '获取回测列表' })
+  async findAll(@Query() query: BacktestQueryDto) {
+    return await this.backtestService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取回测状态和统计结果' })
+  @ApiParam({ name: 'id', description: '回测ID' })
+  @ApiResponse({ status: 404, description: '回测不存在' })
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return await this.backtestService.findOne(id);
+  }
+
+  @Get(':id/trades')
+  @ApiOperation({ summary: '获取回测交易明细' })
+  @ApiParam({ name: 'id', description: '回测ID' })
+  async getTrades(@Param('id', ParseIntPipe) id: number) {
+    return await this.backtestService.getTrades(id);
+  }
+
+  @Get(':id/equity')
+  @ApiOperation({ summary: '获取回测权益曲线' })
+  @ApiParam({ name: 'id', description: '回测ID' })
+  async getEquityCurve(@Param('id', ParseIntPipe) id: number) {
+    return await this.backtestService.getEquityCurve(id);
+  }
+}
@@ -0,0 +1,35 @@
+import { IsEnum, IsNumber, IsOptional, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { BacktestSource, BacktestStatus } from '../enums';
+
+export class BacktestQueryDto {
+  @ApiProperty({ description: '策略ID', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '策略ID必须是数字' })
+  strategyId?: number;
+
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: '信号来源',
+    enum: BacktestSource,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(BacktestSource, { message: '不支持的回测信号来源' })
+  source?: BacktestSource;
+
+  @ApiProperty({
+    description: '回测状态',
+    enum: BacktestStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(BacktestStatus, { message: '不支持的回测状态' })
+  status?: BacktestStatus;
+}
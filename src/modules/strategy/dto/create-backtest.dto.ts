@@ -0,0 +1,136 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { IntervalType } from 'src/shared/enums';
+import { BacktestSource } from '../enums';
+
+export class CreateBacktestDto {
+  @ApiProperty({
+    description: '信号来源',
+    enum: BacktestSource,
+    required: false,
+    default: BacktestSource.STRATEGY,
+  })
+  @IsOptional()
+  @IsEnum(BacktestSource, { message: '不支持的回测信号来源' })
+  source?: BacktestSource = BacktestSource.STRATEGY;
+
+  @ApiProperty({
+    description: '策略ID（信号来源为 STRATEGY 时必填）',
+    required: false,
+  })
+  @ValidateIf((dto) => dto.source !== BacktestSource.SR_ZONES)
+  @Type(() => Number)
+  @IsInt({ message: '策略ID必须是整数' })
+  strategyId?: number;
+
+  @ApiProperty({
+    description: '交易对符号（信号来源为 SR_ZONES 时必填）',
+    example: 'BTCUSDT',
+    required: false,
+  })
+  @ValidateIf((dto) => dto.source === BacktestSource.SR_ZONES)
+  @IsString({ message: '交易对符号必须是字符串' })
+  @Length(1, 20, { message: '交易对符号长度必须在1-20个字符之间' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: 'K线时间间隔（信号来源为 SR_ZONES 时必填）',
+    enum: IntervalType,
+    required: false,
+  })
+  @ValidateIf((dto) => dto.source === BacktestSource.SR_ZONES)
+  @IsEnum(IntervalType, { message: '不支持的时间间隔类型' })
+  interval?: IntervalType;
+
+  @ApiProperty({
+    description: '交易所',
+    example: 'binance',
+    required: false,
+    default: 'binance',
+  })
+  @IsOptional()
+  @IsString({ message: '交易所名称必须是字符串' })
+  exchange?: string;
+
+  @ApiProperty({ description: '回测开始时间', example: '2025-06-01T00:00:00Z' })
+  @IsDateString({}, { message: '开始时间格式错误' })
+  startTime: string;
+
+  @ApiProperty({ description: '回测结束时间，默认当前时间', required: false })
+  @IsOptional()
+  @IsDateString({}, { message: '结束时间格式错误' })
+  endTime?: string;
+
+  @ApiProperty({ description: '初始资金', required: false, default: 10000 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '初始资金必须是数字' })
+  @Min(1, { message: '初始资金不能小于1' })
+  initialCapital?: number;
+
+  @ApiProperty({ description: '单边手续费率', required: false, default: 0.001 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '手续费率必须是数字' })
+  @Min(0, { message: '手续费率不能小于0' })
+  @Max(0.1, { message: '手续费率不能大于0.1' })
+  feeRate?: number;
+
+  @ApiProperty({ description: '滑点比例', required: false, default: 0.0005 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '滑点必须是数字' })
+  @Min(0, { message: '滑点不能小于0' })
+  @Max(0.1, { message: '滑点不能大于0.1' })
+  slippage?: number;
+
+  @ApiProperty({
+    description: '每笔交易使用的资金比例（百分比）',
+    required: false,
+    default: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '资金比例必须是数字' })
+  @Min(1, { message: '资金比例不能小于1' })
+  @Max(100, { message: '资金比例不能大于100' })
+  positionSizePercent?: number;
+
+  @ApiProperty({
+    description: '止损百分比，覆盖信号给出的止损',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '止损百分比必须是数字' })
+  @Min(0.01, { message: '止损百分比必须大于0' })
+  stopLossPercent?: number;
+
+  @ApiProperty({
+    description: '止盈百分比，覆盖信号给出的止盈',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '止盈百分比必须是数字' })
+  @Min(0.01, { message: '止盈百分比必须大于0' })
+  takeProfitPercent?: number;
+
+  @ApiProperty({ description: '是否允许做空', required: false, default: true })
+  @IsOptional()
+  @IsBoolean({ message: '是否允许做空必须是布尔值' })
+  allowShort?: boolean;
+}
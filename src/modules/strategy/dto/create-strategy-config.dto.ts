@@ -0,0 +1,71 @@
+import {
+  IsEnum,
+  IsObject,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { IntervalType, StrategyType } from 'src/shared/enums';
+import { StrategyStatus } from '../enums';
+import { StrategyRiskManagement } from '../interfaces';
+
+export class CreateStrategyConfigDto {
+  @ApiProperty({
+    description: '策略名称',
+    example: 'BTC 1h 箱体',
+    maxLength: 100,
+  })
+  @IsString({ message: '策略名称必须是字符串' })
+  @Length(1, 100, { message: '策略名称长度必须在1-100个字符之间' })
+  name: string;
+
+  @ApiProperty({
+    description: '策略类型',
+    enum: StrategyType,
+    example: StrategyType.BOX_TRADING,
+  })
+  @IsEnum(StrategyType, { message: '不支持的策略类型' })
+  type: StrategyType;
+
+  @ApiProperty({ description: '交易对符号', example: 'BTCUSDT', maxLength: 20 })
+  @IsString({ message: '交易对符号必须是字符串' })
+  @Length(1, 20, { message: '交易对符号长度必须在1-20个字符之间' })
+  symbol: string;
+
+  @ApiProperty({
+    description: 'K线时间间隔',
+    enum: IntervalType,
+    example: IntervalType.ONE_HOUR,
+  })
+  @IsEnum(IntervalType, { message: '不支持的时间间隔类型' })
+  interval: IntervalType;
+
+  @ApiProperty({
+    description: '策略状态',
+    enum: StrategyStatus,
+    required: false,
+    default: StrategyStatus.INACTIVE,
+  })
+  @IsOptional()
+  @IsEnum(StrategyStatus, { message: '不支持的策略状态' })
+  status?: StrategyStatus;
+
+  @ApiProperty({
+    description: '策略参数，未提供的字段使用策略默认值',
+    example: { lookback: 50 },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject({ message: '策略参数必须是对象' })
+  parameters?: Record<string, any>;
+
+  @ApiProperty({
+    description: '风险管理配置',
+    example: { stopLossPercent: 2, riskRewardRatio: 2, minConfidence: 60 },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject({ message: '风险管理配置必须是对象' })
+  riskManagement?: StrategyRiskManagement;
+}
@@ -0,0 +1,7 @@
+export * from './create-strategy-config.dto';
+export * from './update-strategy-config.dto';
+export * from './update-strategy-status.dto';
+export * from './strategy-config-query.dto';
+export * from './strategy-signal-query.dto';
+export * from './create-backtest.dto';
+export * from './backtest-query.dto';
@@ -0,0 +1,34 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { IntervalType, StrategyType } from 'src/shared/enums';
+import { StrategyStatus } from '../enums';
+
+export class StrategyConfigQueryDto {
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: 'K线时间间隔',
+    enum: IntervalType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(IntervalType, { message: '不支持的时间间隔类型' })
+  interval?: IntervalType;
+
+  @ApiProperty({ description: '策略类型', enum: StrategyType, required: false })
+  @IsOptional()
+  @IsEnum(StrategyType, { message: '不支持的策略类型' })
+  type?: StrategyType;
+
+  @ApiProperty({
+    description: '策略状态',
+    enum: StrategyStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(StrategyStatus, { message: '不支持的策略状态' })
+  status?: StrategyStatus;
+}
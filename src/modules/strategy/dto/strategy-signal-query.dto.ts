@@ -0,0 +1,84 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { IntervalType, TradingDirection } from 'src/shared/enums';
+
+/**
+ * 策略信号查询DTO
+ * 支持分页和过滤条件
+ */
+export class StrategySignalQueryDto {
+  @ApiProperty({ description: '页码', required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '页码必须是数字' })
+  @Min(1, { message: '页码不能小于1' })
+  page?: number = 1;
+
+  @ApiProperty({ description: '每页数量', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '每页数量必须是数字' })
+  @Min(1, { message: '每页数量不能小于1' })
+  @Max(100, { message: '每页数量不能大于100' })
+  limit?: number = 20;
+
+  @ApiProperty({ description: '策略ID', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '策略ID必须是数字' })
+  strategyId?: number;
+
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: 'K线时间间隔',
+    enum: IntervalType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(IntervalType, { message: '不支持的时间间隔类型' })
+  interval?: IntervalType;
+
+  @ApiProperty({
+    description: '交易方向',
+    enum: TradingDirection,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TradingDirection, { message: '不支持的交易方向' })
+  side?: TradingDirection;
+
+  @ApiProperty({ description: '是否已执行', required: false })
+  @IsOptional()
+  @IsBoolean({ message: '是否已执行必须是布尔值' })
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  executed?: boolean;
+
+  @ApiProperty({ description: '开始时间（毫秒时间戳）', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '开始时间必须是毫秒时间戳' })
+  startTime?: number;
+
+  @ApiProperty({ description: '结束时间（毫秒时间戳）', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '结束时间必须是毫秒时间戳' })
+  endTime?: number;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateStrategyConfigDto } from './create-strategy-config.dto';
+
+export class UpdateStrategyConfigDto extends PartialType(
+  CreateStrategyConfigDto,
+) {}
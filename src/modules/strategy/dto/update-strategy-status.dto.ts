@@ -0,0 +1,13 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { StrategyStatus } from '../enums';
+
+export class UpdateStrategyStatusDto {
+  @ApiProperty({
+    description: '策略状态',
+    enum: StrategyStatus,
+    example: StrategyStatus.ACTIVE,
+  })
+  @IsEnum(StrategyStatus, { message: '不支持的策略状态' })
+  status: StrategyStatus;
+}
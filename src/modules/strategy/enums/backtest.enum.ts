@@ -0,0 +1,44 @@
+/**
+ * 回测状态枚举
+ */
+export enum BacktestStatus {
+  /** 等待执行 */
+  PENDING = 'PENDING',
+
+  /** 执行中 */
+  RUNNING = 'RUNNING',
+
+  /** 已完成 */
+  COMPLETED = 'COMPLETED',
+
+  /** 执行失败 */
+  FAILED = 'FAILED',
+}
+
+/**
+ * 回测信号来源枚举
+ */
+export enum BacktestSource {
+  /** 使用策略配置的评估器产生信号 */
+  STRATEGY = 'STRATEGY',
+
+  /** 使用定时分析保存的支撑阻力买卖区间 */
+  SR_ZONES = 'SR_ZONES',
+}
+
+/**
+ * 回测平仓原因枚举
+ */
+export enum BacktestExitReason {
+  /** 触发止损 */
+  STOP_LOSS = 'STOP_LOSS',
+
+  /** 触发止盈 */
+  TAKE_PROFIT = 'TAKE_PROFIT',
+
+  /** 出现反向信号 */
+  REVERSE_SIGNAL = 'REVERSE_SIGNAL',
+
+  /** 回测结束时强制平仓 */
+  END_OF_DATA = 'END_OF_DATA',
+}
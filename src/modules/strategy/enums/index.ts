@@ -0,0 +1,2 @@
+export * from './strategy-status.enum';
+export * from './backtest.enum';
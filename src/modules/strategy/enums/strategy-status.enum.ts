@@ -0,0 +1,10 @@
+/**
+ * 策略状态枚举
+ */
+export enum StrategyStatus {
+  /** 运行中 - 定时任务会评估该策略 */
+  ACTIVE = 'ACTIVE',
+
+  /** 未启用 - 不参与定时评估 */
+  INACTIVE = 'INACTIVE',
+}
@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+import { SignalType, StrategyType, TradingDirection } from 'src/shared/enums';
+import { MathUtil } from 'src/shared/utils';
+import {
+  StrategyEvaluationContext,
+  StrategyEvaluationResult,
+  StrategyEvaluator,
+} from '../interfaces';
+
+/**
+ * 布林带策略
+ * 价格跌破下轨后重新收回做多，突破上轨后重新跌回做空，目标为中轨
+ */
+@Injectable()
+export class BollingerBandsEvaluator implements StrategyEvaluator {
+  readonly type = StrategyType.BOLLINGER_BANDS;
+  readonly description = '布林带回归：收回下轨做多，跌回上轨做空';
+  readonly defaultParameters = {
+    period: 20,
+    standardDeviations: 2,
+  };
+
+  getRequiredCandles(parameters: Record<string, any>): number {
+    return parameters.period + 2;
+  }
+
+  evaluate(
+    context: StrategyEvaluationContext,
+  ): StrategyEvaluationResult | null {
+    const { candles, parameters } = context;
+    const { period, standardDeviations } = parameters;
+
+    const bands = MathUtil.calculateBollingerBands(
+      candles.map((c) => c.close),
+      period,
+      standardDeviations,
+    );
+    if (bands.middle.length < 2) {
+      return null;
+    }
+
+    const n = bands.middle.length;
+    const last = candles[candles.length - 1];
+    const previous = candles[candles.length - 2];
+    const bandWidth =
+      (bands.upper[n - 1] - bands.lower[n - 1]) / bands.middle[n - 1];
+    const confidence = Math.min(85, 55 + bandWidth * 300);
+
+    if (
+      previous.close < bands.lower[n - 2] &&
+      last.close > bands.lower[n - 1]
+    ) {
+      return {
+        signal: SignalType.BUY,
+        side: TradingDirection.LONG,
+        price: last.close,
+        confidence,
+        reason: `价格收回布林带下轨 ${bands.lower[n - 1].toFixed(4)}，目标中轨 ${bands.middle[n - 1].toFixed(4)}`,
+        stopLoss: Math.min(previous.low, last.low),
+        takeProfit: bands.middle[n - 1],
+      };
+    }
+
+    if (
+      previous.close > bands.upper[n - 2] &&
+      last.close < bands.upper[n - 1]
+    ) {
+      return {
+        signal: SignalType.SELL,
+        side: TradingDirection.SHORT,
+        price: last.close,
+        confidence,
+        reason: `价格跌回布林带上轨 ${bands.upper[n - 1].toFixed(4)}，目标中轨 ${bands.middle[n - 1].toFixed(4)}`,
+        stopLoss: Math.max(previous.high, last.high),
+        takeProfit: bands.middle[n - 1],
+      };
+    }
+
+    return null;
+  }
+}
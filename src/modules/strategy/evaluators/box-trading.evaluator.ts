@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { SignalType, StrategyType, TradingDirection } from 'src/shared/enums';
+import {
+  StrategyEvaluationContext,
+  StrategyEvaluationResult,
+  StrategyEvaluator,
+} from '../interfaces';
+
+/**
+ * 箱体交易策略
+ * 价格在箱体内震荡时，接近箱底做多、接近箱顶做空
+ */
+@Injectable()
+export class BoxTradingEvaluator implements StrategyEvaluator {
+  readonly type = StrategyType.BOX_TRADING;
+  readonly description = '箱体震荡：箱底做多，箱顶做空';
+  readonly defaultParameters = {
+    lookback: 50, // 箱体统计的K线数量
+    touchTolerance: 0.005, // 距离箱体边界的容差（比例）
+    minBoxWidth: 0.02, // 最小箱体宽度（比例）
+    maxBoxWidth: 0.15, // 最大箱体宽度（比例）
+  };
+
+  getRequiredCandles(parameters: Record<string, any>): number {
+    return parameters.lookback + 1;
+  }
+
+  evaluate(
+    context: StrategyEvaluationContext,
+  ): StrategyEvaluationResult | null {
+    const { candles, parameters } = context;
+    const { lookback, touchTolerance, minBoxWidth, maxBoxWidth } = parameters;
+
+    const last = candles[candles.length - 1];
+    const boxCandles = candles.slice(-(lookback + 1), -1);
+    const boxHigh = Math.max(...boxCandles.map((c) => c.high));
+    const boxLow = Math.min(...boxCandles.map((c) => c.low));
+    const boxWidth = (boxHigh - boxLow) / boxLow;
+
+    if (boxWidth < minBoxWidth || boxWidth > maxBoxWidth) {
+      return null;
+    }
+
+    // 已突破箱体时不做箱体交易
+    if (last.close > boxHigh || last.close < boxLow) {
+      return null;
+    }
+
+    const distanceToLow = (last.close - boxLow) / last.close;
+    const distanceToHigh = (boxHigh - last.close) / last.close;
+    const widthScore = Math.min(20, boxWidth * 200);
+
+    if (distanceToLow <= touchTolerance) {
+      return {
+        signal: SignalType.BUY,
+        side: TradingDirection.LONG,
+        price: last.close,
+        confidence: Math.min(90, 60 + widthScore),
+        reason: `价格接近箱底 ${boxLow.toFixed(4)}，箱体区间 ${boxLow.toFixed(4)} - ${boxHigh.toFixed(4)}`,
+        stopLoss: boxLow * (1 - touchTolerance * 2),
+        takeProfit: boxHigh * (1 - touchTolerance),
+      };
+    }
+
+    if (distanceToHigh <= touchTolerance) {
+      return {
+        signal: SignalType.SELL,
+        side: TradingDirection.SHORT,
+        price: last.close,
+        confidence: Math.min(90, 60 + widthScore),
+        reason: `价格接近箱顶 ${boxHigh.toFixed(4)}，箱体区间 ${boxLow.toFixed(4)} - ${boxHigh.toFixed(4)}`,
+        stopLoss: boxHigh * (1 + touchTolerance * 2),
+        takeProfit: boxLow * (1 + touchTolerance),
+      };
+    }
+
+    return null;
+  }
+}
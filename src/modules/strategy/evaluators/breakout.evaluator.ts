@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { SignalType, StrategyType, TradingDirection } from 'src/shared/enums';
+import {
+  StrategyEvaluationContext,
+  StrategyEvaluationResult,
+  StrategyEvaluator,
+} from '../interfaces';
+
+/**
+ * 突破策略
+ * 收盘价放量突破前N根K线的高点/低点时入场
+ */
+@Injectable()
+export class BreakoutEvaluator implements StrategyEvaluator {
+  readonly type = StrategyType.BREAKOUT;
+  readonly description = '区间突破：放量突破前高做多，跌破前低做空';
+  readonly defaultParameters = {
+    lookback: 20, // 区间统计的K线数量
+    volumeMultiplier: 1.5, // 突破K线成交量需达到均量的倍数
+    confirmPercent: 0.002, // 收盘价超出区间的最小比例
+  };
+
+  getRequiredCandles(parameters: Record<string, any>): number {
+    return parameters.lookback + 1;
+  }
+
+  evaluate(
+    context: StrategyEvaluationContext,
+  ): StrategyEvaluationResult | null {
+    const { candles, parameters } = context;
+    const { lookback, volumeMultiplier, confirmPercent } = parameters;
+
+    const last = candles[candles.length - 1];
+    const rangeCandles = candles.slice(-(lookback + 1), -1);
+    const rangeHigh = Math.max(...rangeCandles.map((c) => c.high));
+    const rangeLow = Math.min(...rangeCandles.map((c) => c.low));
+    const rangeHeight = rangeHigh - rangeLow;
+    const avgVolume =
+      rangeCandles.reduce((sum, c) => sum + c.volume, 0) / rangeCandles.length;
+
+    const volumeRatio = avgVolume > 0 ? last.volume / avgVolume : 0;
+    if (volumeRatio < volumeMultiplier) {
+      return null;
+    }
+
+    const confidence = Math.min(95, 55 + (volumeRatio - volumeMultiplier) * 15);
+
+    if (last.close > rangeHigh * (1 + confirmPercent)) {
+      return {
+        signal:
+          volumeRatio >= volumeMultiplier * 2
+            ? SignalType.STRONG_BUY
+            : SignalType.BUY,
+        side: TradingDirection.LONG,
+        price: last.close,
+        confidence,
+        reason: `收盘价突破${lookback}根K线高点 ${rangeHigh.toFixed(4)}，成交量为均量的 ${volumeRatio.toFixed(2)} 倍`,
+        stopLoss: rangeHigh - rangeHeight * 0.5,
+        takeProfit: last.close + rangeHeight,
+      };
+    }
+
+    if (last.close < rangeLow * (1 - confirmPercent)) {
+      return {
+        signal:
+          volumeRatio >= volumeMultiplier * 2
+            ? SignalType.STRONG_SELL
+            : SignalType.SELL,
+        side: TradingDirection.SHORT,
+        price: last.close,
+        confidence,
+        reason: `收盘价跌破${lookback}根K线低点 ${rangeLow.toFixed(4)}，成交量为均量的 ${volumeRatio.toFixed(2)} 倍`,
+        stopLoss: rangeLow + rangeHeight * 0.5,
+        takeProfit: last.close - rangeHeight,
+      };
+    }
+
+    return null;
+  }
+}
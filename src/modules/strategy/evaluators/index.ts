@@ -0,0 +1,5 @@
+export * from './box-trading.evaluator';
+export * from './breakout.evaluator';
+export * from './macd-divergence.evaluator';
+export * from './rsi-oversold.evaluator';
+export * from './bollinger-bands.evaluator';
@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { SignalType, StrategyType, TradingDirection } from 'src/shared/enums';
+import { MathUtil } from 'src/shared/utils';
+import {
+  StrategyEvaluationContext,
+  StrategyEvaluationResult,
+  StrategyEvaluator,
+} from '../interfaces';
+
+/**
+ * MACD背离策略
+ * 价格创新低而MACD柱未创新低（底背离）做多，价格创新高而MACD柱未创新高（顶背离）做空
+ */
+@Injectable()
+export class MacdDivergenceEvaluator implements StrategyEvaluator {
+  readonly type = StrategyType.MACD_DIVERGENCE;
+  readonly description = 'MACD 背离：底背离做多，顶背离做空';
+  readonly defaultParameters = {
+    fastPeriod: 12,
+    slowPeriod: 26,
+    signalPeriod: 9,
+    pivotWindow: 3, // 识别高低点的左右窗口
+    lookback: 60, // 寻找背离的K线范围
+  };
+
+  getRequiredCandles(parameters: Record<string, any>): number {
+    return (
+      parameters.slowPeriod + parameters.signalPeriod + parameters.lookback
+    );
+  }
+
+  evaluate(
+    context: StrategyEvaluationContext,
+  ): StrategyEvaluationResult | null {
+    const { candles, parameters } = context;
+    const { fastPeriod, slowPeriod, signalPeriod, pivotWindow, lookback } =
+      parameters;
+
+    const { histogram } = MathUtil.calculateMACD(
+      candles.map((c) => c.close),
+      fastPeriod,
+      slowPeriod,
+      signalPeriod,
+    );
+    if (histogram.length < lookback) {
+      return null;
+    }
+
+    // MACD柱与K线尾部对齐
+    const recentCandles = candles.slice(-lookback);
+    const recentHistogram = histogram.slice(-lookback);
+    const last = recentCandles[recentCandles.length - 1];
+    const histogramRising =
+      recentHistogram[lookback - 1] > recentHistogram[lookback - 2];
+    // 最近的高低点需足够新，才视为当前有效的背离
+    const maxPivotAge = pivotWindow * 2 + 1;
+
+    const { valleys } = MathUtil.findPeaksAndValleys(
+      recentCandles.map((c) => c.low),
+      pivotWindow,
+    );
+    if (valleys.length >= 2) {
+      const [prev, curr] = valleys.slice(-2);
+      const priceLowerLow = recentCandles[curr].low < recentCandles[prev].low;
+      const macdHigherLow = recentHistogram[curr] > recentHistogram[prev];
+      if (
+        priceLowerLow &&
+        macdHigherLow &&
+        lookback - 1 - curr <= maxPivotAge &&
+        histogramRising
+      ) {
+        return {
+          signal: SignalType.BUY,
+          side: TradingDirection.LONG,
+          price: last.close,
+          confidence:
+            recentHistogram[prev] < 0 && recentHistogram[curr] < 0 ? 75 : 65,
+          reason: `MACD底背离：价格低点 ${recentCandles[prev].low.toFixed(4)} → ${recentCandles[curr].low.toFixed(4)}，MACD柱低点抬高`,
+          stopLoss: recentCandles[curr].low,
+        };
+      }
+    }
+
+    const { peaks } = MathUtil.findPeaksAndValleys(
+      recentCandles.map((c) => c.high),
+      pivotWindow,
+    );
+    if (peaks.length >= 2) {
+      const [prev, curr] = peaks.slice(-2);
+      const priceHigherHigh =
+        recentCandles[curr].high > recentCandles[prev].high;
+      const macdLowerHigh = recentHistogram[curr] < recentHistogram[prev];
+      if (
+        priceHigherHigh &&
+        macdLowerHigh &&
+        lookback - 1 - curr <= maxPivotAge &&
+        !histogramRising
+      ) {
+        return {
+          signal: SignalType.SELL,
+          side: TradingDirection.SHORT,
+          price: last.close,
+          confidence:
+            recentHistogram[prev] > 0 && recentHistogram[curr] > 0 ? 75 : 65,
+          reason: `MACD顶背离：价格高点 ${recentCandles[prev].high.toFixed(4)} → ${recentCandles[curr].high.toFixed(4)}，MACD柱高点降低`,
+          stopLoss: recentCandles[curr].high,
+        };
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { SignalType, StrategyType, TradingDirection } from 'src/shared/enums';
+import { MathUtil } from 'src/shared/utils';
+import {
+  StrategyEvaluationContext,
+  StrategyEvaluationResult,
+  StrategyEvaluator,
+} from '../interfaces';
+
+/**
+ * RSI超买超卖策略
+ * RSI 从超卖区回升时做多，从超买区回落时做空
+ */
+@Injectable()
+export class RsiOversoldEvaluator implements StrategyEvaluator {
+  readonly type = StrategyType.RSI_OVERSOLD;
+  readonly description = 'RSI 反转：超卖回升做多，超买回落做空';
+  readonly defaultParameters = {
+    period: 14,
+    oversold: 30,
+    overbought: 70,
+  };
+
+  getRequiredCandles(parameters: Record<string, any>): number {
+    return parameters.period * 3;
+  }
+
+  evaluate(
+    context: StrategyEvaluationContext,
+  ): StrategyEvaluationResult | null {
+    const { candles, parameters } = context;
+    const { period, oversold, overbought } = parameters;
+
+    const rsi = MathUtil.calculateRSI(
+      candles.map((c) => c.close),
+      period,
+    );
+    if (rsi.length < 2) {
+      return null;
+    }
+
+    const current = rsi[rsi.length - 1];
+    const previous = rsi[rsi.length - 2];
+    const last = candles[candles.length - 1];
+
+    if (previous < oversold && current >= oversold) {
+      return {
+        signal:
+          previous < oversold - 10 ? SignalType.STRONG_BUY : SignalType.BUY,
+        side: TradingDirection.LONG,
+        price: last.close,
+        confidence: Math.min(90, 60 + (oversold - previous) * 2),
+        reason: `RSI(${period}) 从超卖区回升: ${previous.toFixed(2)} → ${current.toFixed(2)}`,
+      };
+    }
+
+    if (previous > overbought && current <= overbought) {
+      return {
+        signal:
+          previous > overbought + 10 ? SignalType.STRONG_SELL : SignalType.SELL,
+        side: TradingDirection.SHORT,
+        price: last.close,
+        confidence: Math.min(90, 60 + (previous - overbought) * 2),
+        reason: `RSI(${period}) 从超买区回落: ${previous.toFixed(2)} → ${current.toFixed(2)}`,
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,124 @@
+import { TradingDirection } from 'src/shared/enums';
+import { BacktestExitReason } from '../enums';
+
+/**
+ * 回测参数
+ */
+export interface BacktestParameters {
+  /** 初始资金 */
+  initialCapital: number;
+  /** 单边手续费率（如 0.001 表示 0.1%） */
+  feeRate: number;
+  /** 滑点比例（如 0.0005 表示 0.05%） */
+  slippage: number;
+  /** 每笔交易使用的资金比例 0-100 */
+  positionSizePercent: number;
+  /** 止损百分比，设置后覆盖信号给出的止损 */
+  stopLossPercent?: number;
+  /** 止盈百分比，设置后覆盖信号给出的止盈 */
+  takeProfitPercent?: number;
+  /** 是否允许做空 */
+  allowShort: boolean;
+}
+
+/**
+ * 回测入场信号
+ * price 为该K线内的成交价（未计滑点）
+ */
+export interface BacktestEntrySignal {
+  side: TradingDirection;
+  price: number;
+  reason: string;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+/**
+ * 回测信号提供者
+ * index 为当前K线下标，只允许使用 index 之前已收盘的数据和当前K线内的成交
+ */
+export type BacktestSignalProvider = (
+  index: number,
+) => BacktestEntrySignal | null;
+
+/**
+ * 回测交易记录
+ */
+export interface BacktestTrade {
+  side: TradingDirection;
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  /** 扣除手续费后的盈亏 */
+  pnl: number;
+  /** 相对开仓保证金的收益率（百分比） */
+  pnlPercent: number;
+  fees: number;
+  entryReason: string;
+  exitReason: BacktestExitReason;
+}
+
+/**
+ * 权益曲线点
+ */
+export interface BacktestEquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+/**
+ * 回测统计指标
+ */
+export interface BacktestMetrics {
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  /** 胜率（百分比） */
+  winRate: number;
+  /** 总收益率（百分比） */
+  totalReturn: number;
+  /** 最大回撤（百分比） */
+  maxDrawdown: number;
+  /** 年化夏普比率 */
+  sharpeRatio: number;
+  finalEquity: number;
+  totalFees: number;
+}
+
+/**
+ * 回测执行结果
+ */
+export interface BacktestRunResult {
+  trades: BacktestTrade[];
+  equityCurve: BacktestEquityPoint[];
+  metrics: BacktestMetrics;
+}
+
+/**
+ * 回测记录视图（不含交易明细和权益曲线）
+ */
+export interface BacktestView {
+  id: number;
+  strategyId: number | null;
+  source: string;
+  status: string;
+  exchange: string;
+  symbol: string;
+  interval: string;
+  startTime: Date;
+  endTime: Date;
+  parameters: BacktestParameters;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  totalReturn: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  summary: string;
+  errorMessage: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
@@ -0,0 +1,2 @@
+export * from './strategy-engine.interface';
+export * from './backtest.interface';
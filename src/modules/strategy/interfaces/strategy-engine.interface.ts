@@ -0,0 +1,100 @@
+import { IOHLCVData } from '../../ccxt-analysis/interfaces';
+import { SignalType, StrategyType, TradingDirection } from 'src/shared/enums';
+
+/**
+ * 策略评估上下文
+ */
+export interface StrategyEvaluationContext {
+  symbol: string;
+  interval: string;
+  /** 已收盘的K线（按时间升序） */
+  candles: IOHLCVData[];
+  /** 合并默认值后的策略参数 */
+  parameters: Record<string, any>;
+}
+
+/**
+ * 策略评估结果
+ */
+export interface StrategyEvaluationResult {
+  signal: SignalType;
+  side: TradingDirection;
+  price: number;
+  /** 置信度 0-100 */
+  confidence: number;
+  reason: string;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+/**
+ * 策略评估器
+ * 每种 StrategyType 对应一个评估器实现
+ */
+export interface StrategyEvaluator {
+  readonly type: StrategyType;
+  readonly description: string;
+  readonly defaultParameters: Record<string, any>;
+
+  /** 评估所需的最少K线数量 */
+  getRequiredCandles(parameters: Record<string, any>): number;
+
+  /** 基于K线评估是否产生信号，无信号时返回 null */
+  evaluate(context: StrategyEvaluationContext): StrategyEvaluationResult | null;
+}
+
+/**
+ * 风险管理配置
+ */
+export interface StrategyRiskManagement {
+  /** 止损百分比，设置后覆盖策略给出的止损 */
+  stopLossPercent?: number;
+  /** 止盈百分比，设置后覆盖策略给出的止盈 */
+  takeProfitPercent?: number;
+  /** 盈亏比，未设置止盈时按止损距离计算止盈 */
+  riskRewardRatio?: number;
+  /** 固定下单数量 */
+  positionSize?: number;
+  /** 单笔最大亏损金额，按止损距离计算下单数量 */
+  maxRiskAmount?: number;
+  /** 最低置信度，低于该值的信号会被丢弃 */
+  minConfidence?: number;
+}
+
+/**
+ * 策略配置视图（JSON 字段已解析）
+ */
+export interface StrategyConfigView {
+  id: number;
+  name: string;
+  type: StrategyType;
+  status: string;
+  symbol: string;
+  interval: string;
+  parameters: Record<string, any>;
+  riskManagement: StrategyRiskManagement;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 策略信号视图（BigInt / Decimal 字段已转换为数字）
+ */
+export interface StrategySignalView {
+  id: number;
+  strategyId: number;
+  symbol: string;
+  interval: string;
+  signal: string;
+  side: string;
+  price: number;
+  quantity: number | null;
+  confidence: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  reason: string;
+  timestamp: number;
+  executed: boolean;
+  executedAt: Date | null;
+  createdAt: Date;
+}
@@ -0,0 +1,212 @@
+import { TradingDirection } from 'src/shared/enums';
+import { IOHLCVData } from '../../ccxt-analysis/interfaces';
+import { BacktestExitReason } from '../enums';
+import { BacktestEntrySignal, BacktestParameters } from '../interfaces';
+import { BacktestEngineService } from './backtest-engine.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const candle = (
+  index: number,
+  open: number,
+  high: number,
+  low: number,
+  close: number,
+): IOHLCVData => ({
+  timestamp: index * DAY_MS,
+  datetime: new Date(index * DAY_MS).toISOString(),
+  open,
+  high,
+  low,
+  close,
+  volume: 1,
+});
+
+/** 收盘价序列，开高低均等于收盘价 */
+const flatCandles = (closes: number[]): IOHLCVData[] =>
+  closes.map((close, index) => candle(index, close, close, close, close));
+
+const signalAt =
+  (signals: Record<number, BacktestEntrySignal>) => (index: number) =>
+    signals[index] || null;
+
+describe('BacktestEngineService', () => {
+  const engine = new BacktestEngineService();
+  const params: BacktestParameters = {
+    initialCapital: 1000,
+    feeRate: 0,
+    slippage: 0,
+    positionSizePercent: 100,
+    allowShort: true,
+  };
+
+  it('同一根K线同时触及止损和止盈时按止损成交', () => {
+    const candles = [
+      candle(0, 100, 100, 100, 100),
+      candle(1, 100, 115, 90, 105),
+    ];
+    const result = engine.run(
+      candles,
+      0,
+      signalAt({
+        0: {
+          side: TradingDirection.LONG,
+          price: 100,
+          reason: 'test',
+          stopLoss: 95,
+          takeProfit: 110,
+        },
+      }),
+      params,
+      DAY_MS,
+    );
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({
+      exitReason: BacktestExitReason.STOP_LOSS,
+      exitPrice: 95,
+      pnl: -50,
+    });
+  });
+
+  it('跳空越过止损时按开盘价成交', () => {
+    const candles = [candle(0, 100, 100, 100, 100), candle(1, 90, 92, 88, 91)];
+    const result = engine.run(
+      candles,
+      0,
+      signalAt({
+        0: {
+          side: TradingDirection.LONG,
+          price: 100,
+          reason: 'test',
+          stopLoss: 95,
+        },
+      }),
+      params,
+      DAY_MS,
+    );
+
+    expect(result.trades[0]).toMatchObject({
+      exitReason: BacktestExitReason.STOP_LOSS,
+      exitPrice: 90,
+    });
+  });
+
+  it('开仓和平仓按不利方向施加滑点并扣除双边手续费', () => {
+    const candles = flatCandles([100, 110]);
+    const result = engine.run(
+      candles,
+      0,
+      signalAt({
+        0: { side: TradingDirection.LONG, price: 100, reason: 'test' },
+      }),
+      { ...params, slippage: 0.001, feeRate: 0.001 },
+      DAY_MS,
+    );
+
+    const trade = result.trades[0];
+    expect(trade.exitReason).toBe(BacktestExitReason.END_OF_DATA);
+    expect(trade.entryPrice).toBeCloseTo(100.1, 8);
+    expect(trade.exitPrice).toBeCloseTo(109.89, 8);
+
+    const quantity = 1000 / 100.1;
+    const fees = 1000 * 0.001 + 109.89 * quantity * 0.001;
+    expect(trade.quantity).toBeCloseTo(quantity, 8);
+    expect(trade.fees).toBeCloseTo(fees, 8);
+    expect(trade.pnl).toBeCloseTo((109.89 - 100.1) * quantity - fees, 8);
+    expect(result.metrics.finalEquity).toBeCloseTo(1000 + trade.pnl, 8);
+  });
+
+  it('做空时开仓价下移、平仓价上移', () => {
+    const candles = flatCandles([100, 90]);
+    const result = engine.run(
+      candles,
+      0,
+      signalAt({
+        0: { side: TradingDirection.SHORT, price: 100, reason: 'test' },
+      }),
+      { ...params, slippage: 0.001 },
+      DAY_MS,
+    );
+
+    expect(result.trades[0].entryPrice).toBeCloseTo(99.9, 8);
+    expect(result.trades[0].exitPrice).toBeCloseTo(90.09, 8);
+    expect(result.trades[0].pnl).toBeGreaterThan(0);
+  });
+
+  it('不允许做空时忽略做空信号', () => {
+    const result = engine.run(
+      flatCandles([100, 90]),
+      0,
+      signalAt({
+        0: { side: TradingDirection.SHORT, price: 100, reason: 'test' },
+      }),
+      { ...params, allowShort: false },
+      DAY_MS,
+    );
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.metrics.finalEquity).toBe(1000);
+  });
+
+  it('按权益峰值计算最大回撤', () => {
+    const result = engine.run(
+      flatCandles([100, 120, 90, 110]),
+      0,
+      signalAt({
+        0: { side: TradingDirection.LONG, price: 100, reason: 'test' },
+      }),
+      params,
+      DAY_MS,
+    );
+
+    expect(result.equityCurve.map((point) => point.equity)).toEqual([
+      1000, 1200, 900, 1100,
+    ]);
+    expect(result.metrics.maxDrawdown).toBeCloseTo(25, 8);
+    expect(result.metrics.totalReturn).toBeCloseTo(10, 8);
+  });
+
+  it('按K线周期年化夏普比率', () => {
+    const result = engine.run(
+      flatCandles([100, 110, 99, 108.9]),
+      0,
+      signalAt({
+        0: { side: TradingDirection.LONG, price: 100, reason: 'test' },
+      }),
+      params,
+      DAY_MS,
+    );
+
+    // 收益率序列 [0, 0.1, -0.1, 0.1]，样本标准差，年化系数 sqrt(365)
+    expect(result.metrics.sharpeRatio).toBeCloseTo(4.9886, 3);
+
+    const hourly = engine.run(
+      flatCandles([100, 110, 99, 108.9]),
+      0,
+      signalAt({
+        0: { side: TradingDirection.LONG, price: 100, reason: 'test' },
+      }),
+      params,
+      DAY_MS / 24,
+    );
+    expect(hourly.metrics.sharpeRatio).toBeCloseTo(
+      result.metrics.sharpeRatio * Math.sqrt(24),
+      6,
+    );
+  });
+
+  it('权益不变时夏普比率为0', () => {
+    const result = engine.run(
+      flatCandles([100, 110, 120]),
+      0,
+      () => null,
+      params,
+      DAY_MS,
+    );
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.metrics.sharpeRatio).toBe(0);
+    expect(result.metrics.maxDrawdown).toBe(0);
+  });
+});
@@ -0,0 +1,328 @@
+import { Injectable } from '@nestjs/common';
+import { TradingDirection } from 'src/shared/enums';
+import { IOHLCVData } from '../../ccxt-analysis/interfaces';
+import { BacktestExitReason } from '../enums';
+import {
+  BacktestEntrySignal,
+  BacktestEquityPoint,
+  BacktestMetrics,
+  BacktestParameters,
+  BacktestRunResult,
+  BacktestSignalProvider,
+  BacktestTrade,
+} from '../interfaces';
+
+/** 权益曲线最多保留的点数 */
+const MAX_EQUITY_POINTS = 1000;
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+interface OpenPosition {
+  side: TradingDirection;
+  entryIndex: number;
+  entryTime: number;
+  entryPrice: number;
+  quantity: number;
+  entryFee: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  reason: string;
+}
+
+/**
+ * 回测撮合引擎
+ * 逐根K线回放信号，模拟手续费、滑点、止损和止盈，并计算统计指标
+ */
+@Injectable()
+export class BacktestEngineService {
+  /**
+   * 执行回测
+   * @param candles 按时间升序的已收盘K线（包含预热数据）
+   * @param startIndex 开始交易的K线下标，之前的K线仅用于指标预热
+   * @param provider 信号提供者
+   * @param params 回测参数
+   * @param intervalMs K线周期毫秒数，用于年化夏普比率
+   */
+  run(
+    candles: IOHLCVData[],
+    startIndex: number,
+    provider: BacktestSignalProvider,
+    params: BacktestParameters,
+    intervalMs: number,
+  ): BacktestRunResult {
+    const trades: BacktestTrade[] = [];
+    const equityCurve: BacktestEquityPoint[] = [];
+    let cash = params.initialCapital;
+    let position: OpenPosition | null = null;
+
+    const closePosition = (
+      index: number,
+      price: number,
+      reason: BacktestExitReason,
+    ) => {
+      const exitPrice = this.applySlippage(price, position.side, false, params);
+      const direction = position.side === TradingDirection.LONG ? 1 : -1;
+      const grossPnl =
+        (exitPrice - position.entryPrice) * position.quantity * direction;
+      const exitFee = exitPrice * position.quantity * params.feeRate;
+      const pnl = grossPnl - position.entryFee - exitFee;
+
+      cash += grossPnl - exitFee;
+      trades.push({
+        side: position.side,
+        entryTime: position.entryTime,
+        entryPrice: position.entryPrice,
+        exitTime: candles[index].timestamp,
+        exitPrice,
+        quantity: position.quantity,
+        pnl,
+        pnlPercent: (pnl / (position.entryPrice * position.quantity)) * 100,
+        fees: position.entryFee + exitFee,
+        entryReason: position.reason,
+        exitReason: reason,
+      });
+      position = null;
+    };
+
+    const openPosition = (index: number, signal: BacktestEntrySignal) => {
+      const entryPrice = this.applySlippage(
+        signal.price,
+        signal.side,
+        true,
+        params,
+      );
+      const notional = cash * (params.positionSizePercent / 100);
+      if (notional <= 0) {
+        return;
+      }
+
+      const quantity = notional / entryPrice;
+      const entryFee = notional * params.feeRate;
+      cash -= entryFee;
+
+      const { stopLoss, takeProfit } = this.resolveExitLevels(
+        signal,
+        entryPrice,
+        params,
+      );
+      position = {
+        side: signal.side,
+        entryIndex: index,
+        entryTime: candles[index].timestamp,
+        entryPrice,
+        quantity,
+        entryFee,
+        stopLoss,
+        takeProfit,
+        reason: signal.reason,
+      };
+    };
+
+    for (let i = startIndex; i < candles.length; i++) {
+      const candle = candles[i];
+
+      // 先检查已有持仓的止损止盈（当根K线开的仓从下一根开始检查）
+      if (position && position.entryIndex < i) {
+        const exit = this.checkExit(position, candle);
+        if (exit) {
+          closePosition(i, exit.price, exit.reason);
+        }
+      }
+
+      const signal = provider(i);
+      if (signal) {
+        if (position && position.side !== signal.side) {
+          closePosition(i, signal.price, BacktestExitReason.REVERSE_SIGNAL);
+        }
+        const canOpen =
+          signal.side === TradingDirection.LONG || params.allowShort;
+        if (!position && canOpen) {
+          openPosition(i, signal);
+        }
+      }
+
+      equityCurve.push({
+        timestamp: candle.timestamp,
+        equity: cash + this.getUnrealizedPnl(position, candle.close),
+      });
+    }
+
+    // 回测结束时按最后收盘价平仓
+    const lastIndex = candles.length - 1;
+    if (position && lastIndex >= startIndex) {
+      closePosition(
+        lastIndex,
+        candles[lastIndex].close,
+        BacktestExitReason.END_OF_DATA,
+      );
+      equityCurve[equityCurve.length - 1].equity = cash;
+    }
+
+    return {
+      trades,
+      equityCurve: this.downsample(equityCurve),
+      metrics: this.calculateMetrics(trades, equityCurve, params, intervalMs),
+    };
+  }
+
+  /**
+   * 检查K线是否触发止损或止盈
+   * 同一根K线同时触及止损和止盈时按止损处理；跳空越过价位时按开盘价成交
+   */
+  private checkExit(
+    position: OpenPosition,
+    candle: IOHLCVData,
+  ): { price: number; reason: BacktestExitReason } | null {
+    const { stopLoss, takeProfit } = position;
+
+    if (position.side === TradingDirection.LONG) {
+      if (stopLoss !== undefined && candle.low <= stopLoss) {
+        return {
+          price: Math.min(candle.open, stopLoss),
+          reason: BacktestExitReason.STOP_LOSS,
+        };
+      }
+      if (takeProfit !== undefined && candle.high >= takeProfit) {
+        return {
+          price: Math.max(candle.open, takeProfit),
+          reason: BacktestExitReason.TAKE_PROFIT,
+        };
+      }
+      return null;
+    }
+
+    if (stopLoss !== undefined && candle.high >= stopLoss) {
+      return {
+        price: Math.max(candle.open, stopLoss),
+        reason: BacktestExitReason.STOP_LOSS,
+      };
+    }
+    if (takeProfit !== undefined && candle.low <= takeProfit) {
+      return {
+        price: Math.min(candle.open, takeProfit),
+        reason: BacktestExitReason.TAKE_PROFIT,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * 计算止损止盈价位，回测参数中的百分比优先于信号给出的价位
+   */
+  private resolveExitLevels(
+    signal: BacktestEntrySignal,
+    entryPrice: number,
+    params: BacktestParameters,
+  ): { stopLoss?: number; takeProfit?: number } {
+    const direction = signal.side === TradingDirection.LONG ? 1 : -1;
+
+    const stopLoss = params.stopLossPercent
+      ? entryPrice * (1 - (direction * params.stopLossPercent) / 100)
+      : signal.stopLoss;
+    const takeProfit = params.takeProfitPercent
+      ? entryPrice * (1 + (direction * params.takeProfitPercent) / 100)
+      : signal.takeProfit;
+
+    return { stopLoss, takeProfit };
+  }
+
+  /**
+   * 按成交方向施加滑点（开多/平空价格上移，开空/平多价格下移）
+   */
+  private applySlippage(
+    price: number,
+    side: TradingDirection,
+    isEntry: boolean,
+    params: BacktestParameters,
+  ): number {
+    const isBuy = (side === TradingDirection.LONG) === isEntry;
+    return price * (1 + (isBuy ? 1 : -1) * params.slippage);
+  }
+
+  private getUnrealizedPnl(position: OpenPosition | null, price: number) {
+    if (!position) {
+      return 0;
+    }
+    const direction = position.side === TradingDirection.LONG ? 1 : -1;
+    return (price - position.entryPrice) * position.quantity * direction;
+  }
+
+  /**
+   * 计算回测统计指标
+   */
+  private calculateMetrics(
+    trades: BacktestTrade[],
+    equityCurve: BacktestEquityPoint[],
+    params: BacktestParameters,
+    intervalMs: number,
+  ): BacktestMetrics {
+    const winningTrades = trades.filter((trade) => trade.pnl > 0).length;
+    const losingTrades = trades.filter((trade) => trade.pnl <= 0).length;
+    const finalEquity =
+      equityCurve.length > 0
+        ? equityCurve[equityCurve.length - 1].equity
+        : params.initialCapital;
+
+    // 最大回撤
+    let peak = params.initialCapital;
+    let maxDrawdown = 0;
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equity);
+      if (peak > 0) {
+        maxDrawdown = Math.max(
+          maxDrawdown,
+          ((peak - point.equity) / peak) * 100,
+        );
+      }
+    }
+
+    // 按K线收益率计算年化夏普比率（无风险利率取0）
+    const returns: number[] = [];
+    let previous = params.initialCapital;
+    for (const point of equityCurve) {
+      if (previous > 0) {
+        returns.push(point.equity / previous - 1);
+      }
+      previous = point.equity;
+    }
+    let sharpeRatio = 0;
+    if (returns.length > 1) {
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+      const variance =
+        returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) /
+        (returns.length - 1);
+      const stdDev = Math.sqrt(variance);
+      if (stdDev > 0) {
+        sharpeRatio = (mean / stdDev) * Math.sqrt(YEAR_MS / intervalMs);
+      }
+    }
+
+    return {
+      totalTrades: trades.length,
+      winningTrades,
+      losingTrades,
+      winRate: trades.length > 0 ? (winningTrades / trades.length) * 100 : 0,
+      totalReturn: (finalEquity / params.initialCapital - 1) * 100,
+      maxDrawdown,
+      sharpeRatio,
+      finalEquity,
+      totalFees: trades.reduce((sum, trade) => sum + trade.fees, 0),
+    };
+  }
+
+  /**
+   * 抽样压缩权益曲线，保留最后一个点
+   */
+  private downsample(points: BacktestEquityPoint[]): BacktestEquityPoint[] {
+    if (points.length <= MAX_EQUITY_POINTS) {
+      return points;
+    }
+
+    const step = Math.ceil(points.length / MAX_EQUITY_POINTS);
+    const sampled = points.filter((_, index) => index % step === 0);
+    if (sampled[sampled.length - 1] !== points[points.length - 1]) {
+      sampled.push(points[points.length - 1]);
+    }
+    return sampled;
+  }
+}
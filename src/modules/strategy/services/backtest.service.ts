@@ -0,0 +1,578 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { StrategyBacktest } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { IntervalType, TradingDirection } from 'src/shared/enums';
+import { TimeUtil } from 'src/shared/utils';
+import { IOHLCVData } from '../../ccxt-analysis/interfaces';
+import { CCXTDataService } from '../../ccxt-analysis/services/ccxt-data.service';
+import { KlineStoreService } from '../../ccxt-analysis/services/kline-store.service';
+import { BacktestQueryDto, CreateBacktestDto } from '../dto';
+import { BacktestSource, BacktestStatus } from '../enums';
+import {
+  BacktestEntrySignal,
+  BacktestEquityPoint,
+  BacktestParameters,
+  BacktestSignalProvider,
+  BacktestTrade,
+  BacktestView,
+  StrategyConfigView,
+} from '../interfaces';
+import { RiskManagementUtil } from '../utils';
+import { BacktestEngineService } from './backtest-engine.service';
+import { StrategyConfigService } from './strategy-config.service';
+import { StrategyEvaluatorRegistry } from './strategy-evaluator.registry';
+
+/** 回测开始时间距今允许的最大K线数量（K线需从当前时间向前回补） */
+const MAX_BACKTEST_CANDLES = 50000;
+
+/** 支撑阻力区间回测时，止损放在区间边界之外的比例 */
+const ZONE_STOP_BUFFER = 0.002;
+
+const DEFAULT_BACKTEST_PARAMETERS: BacktestParameters = {
+  initialCapital: 10000,
+  feeRate: 0.001,
+  slippage: 0.0005,
+  positionSizePercent: 100,
+  allowShort: true,
+};
+
+interface TradingZone {
+  price: number;
+  tolerance: number;
+  confidence: number;
+}
+
+/**
+ * 回测服务
+ * 创建回测任务并在后台回放历史K线，结果写入 StrategyBacktest
+ */
+@Injectable()
+export class BacktestService implements OnModuleInit {
+  private readonly logger = new Logger(BacktestService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly klineStoreService: KlineStoreService,
+    private readonly strategyConfigService: StrategyConfigService,
+    private readonly registry: StrategyEvaluatorRegistry,
+    private readonly backtestEngine: BacktestEngineService,
+  ) {}
+
+  /**
+   * 服务重启后，未完成的回测无法继续，标记为失败
+   */
+  async onModuleInit() {
+    try {
+      const { count } = await this.prisma.strategyBacktest.updateMany({
+        where: {
+          status: { in: [BacktestStatus.PENDING, BacktestStatus.RUNNING] },
+        },
+        data: {
+          status: BacktestStatus.FAILED,
+          errorMessage: '服务重启，回测被中断',
+        },
+      });
+      if (count > 0) {
+        this.logger.warn(`已将 ${count} 个中断的回测标记为失败`);
+      }
+    } catch (error) {
+      this.logger.error(`清理中断的回测失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 创建并启动回测
+   */
+  async start(dto: CreateBacktestDto): Promise<BacktestView> {
+    const source = dto.source ?? BacktestSource.STRATEGY;
+    let strategy: StrategyConfigView | null = null;
+    let symbol = dto.symbol?.toUpperCase();
+    let interval: string = dto.interval;
+
+    if (source === BacktestSource.STRATEGY) {
+      if (!dto.strategyId) {
+        throw new BadRequestException('策略回测必须指定策略ID');
+      }
+      strategy = await this.strategyConfigService.findOne(
+        Number(dto.strategyId),
+      );
+      symbol = strategy.symbol;
+      interval = strategy.interval;
+    } else if (!symbol || !interval) {
+      throw new BadRequestException('支撑阻力区间回测必须指定交易对和时间周期');
+    }
+
+    const startTime = new Date(dto.startTime).getTime();
+    const endTime = dto.endTime ? new Date(dto.endTime).getTime() : Date.now();
+    if (startTime >= endTime) {
+      throw new BadRequestException('回测开始时间必须早于结束时间');
+    }
+
+    const intervalMs = TimeUtil.intervalToMilliseconds(
+      interval as IntervalType,
+    );
+    if ((Date.now() - startTime) / intervalMs > MAX_BACKTEST_CANDLES) {
+      throw new BadRequestException(
+        `回测开始时间过早，距今最多支持 ${MAX_BACKTEST_CANDLES} 根K线`,
+      );
+    }
+
+    const parameters: BacktestParameters = {
+      initialCapital:
+        dto.initialCapital ?? DEFAULT_BACKTEST_PARAMETERS.initialCapital,
+      feeRate: dto.feeRate ?? DEFAULT_BACKTEST_PARAMETERS.feeRate,
+      slippage: dto.slippage ?? DEFAULT_BACKTEST_PARAMETERS.slippage,
+      positionSizePercent:
+        dto.positionSizePercent ??
+        DEFAULT_BACKTEST_PARAMETERS.positionSizePercent,
+      stopLossPercent: dto.stopLossPercent,
+      takeProfitPercent: dto.takeProfitPercent,
+      allowShort: dto.allowShort ?? DEFAULT_BACKTEST_PARAMETERS.allowShort,
+    };
+
+    const backtest = await this.prisma.strategyBacktest.create({
+      data: {
+        strategyId: strategy?.id ?? null,
+        source,
+        status: BacktestStatus.PENDING,
+        exchange: (dto.exchange ?? 'binance').toLowerCase(),
+        symbol,
+        interval,
+        startTime: new Date(startTime),
+        endTime: new Date(endTime),
+        parameters: JSON.stringify(parameters),
+      },
+    });
+
+    // 回测在后台执行，调用方通过查询接口轮询状态
+    this.execute(backtest.id, strategy).catch((error) =>
+      this.logger.error(`回测 #${backtest.id} 执行异常: ${error.message}`),
+    );
+
+    return this.toView(backtest);
+  }
+
+  /**
+   * 查询回测列表
+   */
+  async findAll(query: BacktestQueryDto): Promise<BacktestView[]> {
+    const where: any = {};
+
+    if (query.strategyId) {
+      where.strategyId = Number(query.strategyId);
+    }
+
+    if (query.symbol) {
+      where.symbol = query.symbol.toUpperCase();
+    }
+
+    if (query.source) {
+      where.source = query.source;
+    }
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    const backtests = await this.prisma.strategyBacktest.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return backtests.map((backtest) => this.toView(backtest));
+  }
+
+  /**
+   * 查询回测状态和统计结果
+   */
+  async findOne(id: number): Promise<BacktestView> {
+    return this.toView(await this.getBacktest(id));
+  }
+
+  /**
+   * 查询回测交易明细
+   */
+  async getTrades(id: number): Promise<BacktestTrade[]> {
+    const backtest = await this.getBacktest(id);
+    return JSON.parse(backtest.trades || '[]');
+  }
+
+  /**
+   * 查询回测权益曲线
+   */
+  async getEquityCurve(id: number): Promise<BacktestEquityPoint[]> {
+    const backtest = await this.getBacktest(id);
+    return JSON.parse(backtest.equityCurve || '[]');
+  }
+
+  /**
+   * 执行回测并保存结果
+   */
+  private async execute(
+    id: number,
+    strategy: StrategyConfigView | null,
+  ): Promise<void> {
+    const backtest = await this.prisma.strategyBacktest.update({
+      where: { id },
+      data: { status: BacktestStatus.RUNNING },
+    });
+
+    try {
+      const parameters: BacktestParameters = JSON.parse(backtest.parameters);
+      const intervalMs = TimeUtil.intervalToMilliseconds(
+        backtest.interval as IntervalType,
+      );
+      const startTime = backtest.startTime.getTime();
+      const endTime = backtest.endTime.getTime();
+
+      let warmupCandles = 0;
+      if (strategy) {
+        const evaluator = this.registry.get(strategy.type);
+        warmupCandles = evaluator.getRequiredCandles({
+          ...evaluator.defaultParameters,
+          ...strategy.parameters,
+        });
+      }
+
+      const candles = await this.loadCandles(
+        backtest,
+        startTime - warmupCandles * intervalMs,
+        endTime,
+        intervalMs,
+      );
+      const startIndex = candles.findIndex((c) => c.timestamp >= startTime);
+      if (startIndex === -1) {
+        throw new Error('回测区间内没有可用的K线数据');
+      }
+
+      const provider = strategy
+        ? this.createStrategyProvider(strategy, candles)
+        : await this.createZoneProvider(backtest, candles);
+
+      const result = this.backtestEngine.run(
+        candles,
+        startIndex,
+        provider,
+        parameters,
+        intervalMs,
+      );
+      const { metrics } = result;
+
+      await this.prisma.strategyBacktest.update({
+        where: { id },
+        data: {
+          status: BacktestStatus.COMPLETED,
+          totalTrades: metrics.totalTrades,
+          winningTrades: metrics.winningTrades,
+          losingTrades: metrics.losingTrades,
+          winRate: this.round(metrics.winRate, 2),
+          totalReturn: this.round(metrics.totalReturn, 4),
+          maxDrawdown: this.round(metrics.maxDrawdown, 2),
+          sharpeRatio: this.round(
+            Math.max(-9999, Math.min(9999, metrics.sharpeRatio)),
+            4,
+          ),
+          trades: JSON.stringify(result.trades),
+          equityCurve: JSON.stringify(result.equityCurve),
+          summary:
+            `共 ${metrics.totalTrades} 笔交易，胜率 ${metrics.winRate.toFixed(2)}%，` +
+            `总收益 ${metrics.totalReturn.toFixed(2)}%，最大回撤 ${metrics.maxDrawdown.toFixed(2)}%，` +
+            `夏普比率 ${metrics.sharpeRatio.toFixed(2)}，手续费合计 ${metrics.totalFees.toFixed(2)}，` +
+            `最终权益 ${metrics.finalEquity.toFixed(2)}（K线 ${candles.length - startIndex} 根）`,
+          completedAt: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `回测 #${id} 完成: ${backtest.symbol} ${backtest.interval}，${metrics.totalTrades} 笔交易，收益 ${metrics.totalReturn.toFixed(2)}%`,
+      );
+    } catch (error) {
+      this.logger.error(`回测 #${id} 失败: ${error.message}`);
+      await this.prisma.strategyBacktest.update({
+        where: { id },
+        data: {
+          status: BacktestStatus.FAILED,
+          errorMessage: error.message,
+          completedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * 加载回测区间内已收盘的K线，本地数据不足时先从交易所补齐
+   */
+  private async loadCandles(
+    backtest: StrategyBacktest,
+    fromTime: number,
+    toTime: number,
+    intervalMs: number,
+  ): Promise<IOHLCVData[]> {
+    const now = Date.now();
+    const storeSymbol = this.ccxtDataService
+      .normalizeSymbol(backtest.symbol, backtest.exchange)
+      .replace('/', '');
+
+    const coverage = await this.klineStoreService.getCoverage(
+      backtest.exchange,
+      storeSymbol,
+      backtest.interval,
+    );
+    const covered =
+      coverage.firstOpenTime !== null &&
+      coverage.firstOpenTime <= fromTime &&
+      coverage.lastOpenTime + intervalMs >= Math.min(toTime, now - intervalMs);
+    if (!covered) {
+      const requiredCount = Math.ceil((now - fromTime) / intervalMs) + 1;
+      await this.ccxtDataService.getOHLCVData(
+        backtest.symbol,
+        backtest.interval,
+        requiredCount,
+        backtest.exchange,
+      );
+    }
+    const candles = await this.klineStoreService.getCandlesInRange(
+      backtest.exchange,
+      storeSymbol,
+      backtest.interval,
+      fromTime,
+      toTime,
+    );
+
+    return candles.filter((c) => c.timestamp + intervalMs <= now);
+  }
+
+  /**
+   * 基于策略评估器的信号提供者
+   * 使用当前K线之前的已收盘K线评估，信号在当前K线开盘价成交
+   */
+  private createStrategyProvider(
+    strategy: StrategyConfigView,
+    candles: IOHLCVData[],
+  ): BacktestSignalProvider {
+    const evaluator = this.registry.get(strategy.type);
+    const parameters = {
+      ...evaluator.defaultParameters,
+      ...strategy.parameters,
+    };
+    const windowSize = evaluator.getRequiredCandles(parameters);
+
+    return (index) => {
+      if (index < windowSize) {
+        return null;
+      }
+
+      const result = evaluator.evaluate({
+        symbol: strategy.symbol,
+        interval: strategy.interval,
+        candles: candles.slice(index - windowSize, index),
+        parameters,
+      });
+      if (!result) {
+        return null;
+      }
+
+      const adjusted = RiskManagementUtil.apply(
+        result,
+        strategy.riskManagement,
+      );
+      if (!adjusted) {
+        return null;
+      }
+
+      return {
+        side: adjusted.side,
+        price: candles[index].open,
+        reason: adjusted.reason,
+        stopLoss: adjusted.stopLoss,
+        takeProfit: adjusted.takeProfit,
+      };
+    };
+  }
+
+  /**
+   * 基于定时分析保存的支撑阻力区间的信号提供者
+   * 每根K线使用其开盘前最近一次分析结果，触及买入区间做多、触及卖出区间做空
+   */
+  private async createZoneProvider(
+    backtest: StrategyBacktest,
+    candles: IOHLCVData[],
+  ): Promise<BacktestSignalProvider> {
+    const endTime = BigInt(backtest.endTime.getTime());
+    const [initial, analyses] = await Promise.all([
+      this.prisma.analysisResult.findFirst({
+        where: {
+          symbol: backtest.symbol,
+          interval: backtest.interval,
+          timestamp: { lt: BigInt(backtest.startTime.getTime()) },
+        },
+        orderBy: { timestamp: 'desc' },
+      }),
+      this.prisma.analysisResult.findMany({
+        where: {
+          symbol: backtest.symbol,
+          interval: backtest.interval,
+          timestamp: {
+            gte: BigInt(backtest.startTime.getTime()),
+            lte: endTime,
+          },
+        },
+        orderBy: { timestamp: 'asc' },
+      }),
+    ]);
+
+    const snapshots = (initial ? [initial, ...analyses] : analyses).map(
+      (analysis) => ({
+        timestamp: Number(analysis.timestamp),
+        buyZones: this.parseZones(analysis.buyZones),
+        sellZones: this.parseZones(analysis.sellZones),
+      }),
+    );
+    if (snapshots.length === 0) {
+      throw new Error(
+        `${backtest.symbol}(${backtest.interval}) 在回测区间内没有支撑阻力分析记录`,
+      );
+    }
+
+    let cursor = -1;
+    return (index) => {
+      const candle = candles[index];
+      while (
+        cursor + 1 < snapshots.length &&
+        snapshots[cursor + 1].timestamp <= candle.timestamp
+      ) {
+        cursor++;
+      }
+      if (cursor < 0) {
+        return null;
+      }
+
+      const { buyZones, sellZones } = snapshots[cursor];
+      return (
+        this.matchBuyZone(candle, buyZones, sellZones) ??
+        this.matchSellZone(candle, sellZones, buyZones)
+      );
+    };
+  }
+
+  private matchBuyZone(
+    candle: IOHLCVData,
+    buyZones: TradingZone[],
+    sellZones: TradingZone[],
+  ): BacktestEntrySignal | null {
+    const zone = buyZones.find(
+      (z) =>
+        candle.low <= z.price + z.tolerance &&
+        candle.high >= z.price - z.tolerance,
+    );
+    if (!zone) {
+      return null;
+    }
+
+    const price = Math.min(candle.open, zone.price + zone.tolerance);
+    const target = sellZones
+      .map((z) => z.price - z.tolerance)
+      .filter((p) => p > price)
+      .sort((a, b) => a - b)[0];
+
+    return {
+      side: TradingDirection.LONG,
+      price,
+      reason: `触及买入区间 ${zone.price.toFixed(4)} ± ${zone.tolerance.toFixed(4)}`,
+      stopLoss: (zone.price - zone.tolerance) * (1 - ZONE_STOP_BUFFER),
+      takeProfit: target,
+    };
+  }
+
+  private matchSellZone(
+    candle: IOHLCVData,
+    sellZones: TradingZone[],
+    buyZones: TradingZone[],
+  ): BacktestEntrySignal | null {
+    const zone = sellZones.find(
+      (z) =>
+        candle.high >= z.price - z.tolerance &&
+        candle.low <= z.price + z.tolerance,
+    );
+    if (!zone) {
+      return null;
+    }
+
+    const price = Math.max(candle.open, zone.price - zone.tolerance);
+    const target = buyZones
+      .map((z) => z.price + z.tolerance)
+      .filter((p) => p < price)
+      .sort((a, b) => b - a)[0];
+
+    return {
+      side: TradingDirection.SHORT,
+      price,
+      reason: `触及卖出区间 ${zone.price.toFixed(4)} ± ${zone.tolerance.toFixed(4)}`,
+      stopLoss: (zone.price + zone.tolerance) * (1 + ZONE_STOP_BUFFER),
+      takeProfit: target,
+    };
+  }
+
+  private parseZones(value: string | null): TradingZone[] {
+    try {
+      const zones = value ? JSON.parse(value) : [];
+      return Array.isArray(zones)
+        ? zones.filter(
+            (z) =>
+              typeof z.price === 'number' && typeof z.tolerance === 'number',
+          )
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async getBacktest(id: number): Promise<StrategyBacktest> {
+    const backtest = await this.prisma.strategyBacktest.findUnique({
+      where: { id },
+    });
+
+    if (!backtest) {
+      throw new NotFoundException(`ID为 ${id} 的回测不存在`);
+    }
+
+    return backtest;
+  }
+
+  private round(value: number, digits: number): number {
+    return Number(value.toFixed(digits));
+  }
+
+  private toView(backtest: StrategyBacktest): BacktestView {
+    return {
+      id: backtest.id,
+      strategyId: backtest.strategyId,
+      source: backtest.source,
+      status: backtest.status,
+      exchange: backtest.exchange,
+      symbol: backtest.symbol,
+      interval: backtest.interval,
+      startTime: backtest.startTime,
+      endTime: backtest.endTime,
+      parameters: JSON.parse(backtest.parameters || '{}'),
+      totalTrades: backtest.totalTrades,
+      winningTrades: backtest.winningTrades,
+      losingTrades: backtest.losingTrades,
+      winRate: Number(backtest.winRate),
+      totalReturn: Number(backtest.totalReturn),
+      maxDrawdown: Number(backtest.maxDrawdown),
+      sharpeRatio: Number(backtest.sharpeRatio),
+      summary: backtest.summary,
+      errorMessage: backtest.errorMessage,
+      completedAt: backtest.completedAt,
+      createdAt: backtest.createdAt,
+    };
+  }
+}
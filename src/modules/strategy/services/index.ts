@@ -0,0 +1,6 @@
+export * from './strategy-evaluator.registry';
+export * from './strategy-config.service';
+export * from './strategy-engine.service';
+export * from './strategy-signal.service';
+export * from './backtest-engine.service';
+export * from './backtest.service';
@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { StrategyConfig } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { StrategyType } from 'src/shared/enums';
+import {
+  CreateStrategyConfigDto,
+  StrategyConfigQueryDto,
+  UpdateStrategyConfigDto,
+} from '../dto';
+import { StrategyStatus } from '../enums';
+import { StrategyConfigView } from '../interfaces';
+import { StrategyEvaluatorRegistry } from './strategy-evaluator.registry';
+
+/**
+ * 策略配置服务
+ * 负责 StrategyConfig 的增删改查，参数和风险管理以 JSON 字符串存储
+ */
+@Injectable()
+export class StrategyConfigService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly registry: StrategyEvaluatorRegistry,
+  ) {}
+
+  /**
+   * 创建策略配置
+   */
+  async create(dto: CreateStrategyConfigDto): Promise<StrategyConfigView> {
+    this.assertSupportedType(dto.type);
+
+    const config = await this.prisma.strategyConfig.create({
+      data: {
+        name: dto.name,
+        type: dto.type,
+        status: dto.status ?? StrategyStatus.INACTIVE,
+        symbol: dto.symbol.toUpperCase(),
+        interval: dto.interval,
+        parameters: JSON.stringify(dto.parameters ?? {}),
+        riskManagement: JSON.stringify(dto.riskManagement ?? {}),
+      },
+    });
+
+    return this.toView(config);
+  }
+
+  /**
+   * 查询策略配置列表
+   */
+  async findAll(query: StrategyConfigQueryDto): Promise<StrategyConfigView[]> {
+    const where: any = {};
+
+    if (query.symbol) {
+      where.symbol = query.symbol.toUpperCase();
+    }
+
+    if (query.interval) {
+      where.interval = query.interval;
+    }
+
+    if (query.type) {
+      where.type = query.type;
+    }
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    const configs = await this.prisma.strategyConfig.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return configs.map((config) => this.toView(config));
+  }
+
+  /**
+   * 根据ID查询策略配置
+   */
+  async findOne(id: number): Promise<StrategyConfigView> {
+    const config = await this.prisma.strategyConfig.findUnique({
+      where: { id },
+    });
+
+    if (!config) {
+      throw new NotFoundException(`ID为 ${id} 的策略配置不存在`);
+    }
+
+    return this.toView(config);
+  }
+
+  /**
+   * 查询所有运行中的策略
+   */
+  async findActive(): Promise<StrategyConfigView[]> {
+    const configs = await this.prisma.strategyConfig.findMany({
+      where: { status: StrategyStatus.ACTIVE },
+      orderBy: { id: 'asc' },
+    });
+
+    return configs.map((config) => this.toView(config));
+  }
+
+  /**
+   * 更新策略配置
+   */
+  async update(
+    id: number,
+    dto: UpdateStrategyConfigDto,
+  ): Promise<StrategyConfigView> {
+    await this.findOne(id);
+
+    if (dto.type) {
+      this.assertSupportedType(dto.type);
+    }
+
+    const { parameters, riskManagement, symbol, ...rest } = dto;
+    const config = await this.prisma.strategyConfig.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(symbol && { symbol: symbol.toUpperCase() }),
+        ...(parameters && { parameters: JSON.stringify(parameters) }),
+        ...(riskManagement && {
+          riskManagement: JSON.stringify(riskManagement),
+        }),
+      },
+    });
+
+    return this.toView(config);
+  }
+
+  /**
+   * 更新策略状态
+   */
+  async updateStatus(
+    id: number,
+    status: StrategyStatus,
+  ): Promise<StrategyConfigView> {
+    await this.findOne(id);
+
+    const config = await this.prisma.strategyConfig.update({
+      where: { id },
+      data: { status },
+    });
+
+    return this.toView(config);
+  }
+
+  /**
+   * 删除策略配置（关联的信号记录级联删除）
+   */
+  async remove(id: number): Promise<void> {
+    await this.findOne(id);
+
+    await this.prisma.strategyConfig.delete({
+      where: { id },
+    });
+  }
+
+  private assertSupportedType(type: StrategyType) {
+    if (!this.registry.has(type)) {
+      throw new BadRequestException(`不支持的策略类型: ${type}`);
+    }
+  }
+
+  private toView(config: StrategyConfig): StrategyConfigView {
+    return {
+      id: config.id,
+      name: config.name,
+      type: config.type as StrategyType,
+      status: config.status,
+      symbol: config.symbol,
+      interval: config.interval,
+      parameters: this.parseJson(config.parameters),
+      riskManagement: this.parseJson(config.riskManagement),
+      createdAt: config.createdAt,
+      updatedAt: config.updatedAt,
+    };
+  }
+
+  private parseJson(value: string): Record<string, any> {
+    try {
+      return value ? JSON.parse(value) : {};
+    } catch {
+      return {};
+    }
+  }
+}
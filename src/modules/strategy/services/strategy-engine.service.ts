@@ -0,0 +1,155 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { IntervalType } from 'src/shared/enums';
+import { TimeUtil } from 'src/shared/utils';
+import { CCXTDataService } from '../../ccxt-analysis/services/ccxt-data.service';
+import { StrategyConfigView, StrategySignalView } from '../interfaces';
+import { RiskManagementUtil } from '../utils';
+import { StrategyConfigService } from './strategy-config.service';
+import { StrategyEvaluatorRegistry } from './strategy-evaluator.registry';
+import { StrategySignalService } from './strategy-signal.service';
+
+/**
+ * 策略引擎服务
+ * 定时评估所有运行中的策略，并将产生的信号写入 StrategySignalRecord
+ */
+@Injectable()
+export class StrategyEngineService {
+  private readonly logger = new Logger(StrategyEngineService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly strategyConfigService: StrategyConfigService,
+    private readonly registry: StrategyEvaluatorRegistry,
+    private readonly strategySignalService: StrategySignalService,
+  ) {}
+
+  /**
+   * 定时评估所有运行中的策略
+   */
+  @Cron('0 */5 * * * *', {
+    name: 'strategy-engine',
+    timeZone: 'Asia/Shanghai',
+  })
+  async runActiveStrategies(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('上一次策略评估尚未完成，跳过本次执行');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const strategies = await this.strategyConfigService.findActive();
+      if (strategies.length === 0) {
+        return;
+      }
+
+      let signalCount = 0;
+      for (const strategy of strategies) {
+        try {
+          const result = await this.evaluateStrategy(strategy);
+          // 同一根K线已记录过的信号不计入
+          if (result?.created) {
+            signalCount++;
+          }
+        } catch (error) {
+          this.logger.error(
+            `策略 ${strategy.name}(#${strategy.id}) 评估失败: ${error.message}`,
+          );
+        }
+      }
+
+      this.logger.log(
+        `策略评估完成: ${strategies.length} 个策略，产生 ${signalCount} 个信号`,
+      );
+    } catch (error) {
+      this.logger.error(`定时策略评估失败: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * 手动执行单个策略
+   * @param id 策略配置ID
+   */
+  async runStrategy(id: number): Promise<StrategySignalView | null> {
+    const strategy = await this.strategyConfigService.findOne(id);
+    const result = await this.evaluateStrategy(strategy);
+    return result?.signal ?? null;
+  }
+
+  /**
+   * 评估策略并保存信号
+   * 只使用已收盘的K线，同一根K线只记录一次信号
+   * @returns 信号及是否为本次新写入，没有信号时返回 null
+   */
+  private async evaluateStrategy(
+    strategy: StrategyConfigView,
+  ): Promise<{ signal: StrategySignalView; created: boolean } | null> {
+    const evaluator = this.registry.get(strategy.type);
+    const parameters = {
+      ...evaluator.defaultParameters,
+      ...strategy.parameters,
+    };
+    const requiredCandles = evaluator.getRequiredCandles(parameters);
+
+    const candles = await this.ccxtDataService.getOHLCVData(
+      strategy.symbol,
+      strategy.interval,
+      requiredCandles + 1,
+    );
+
+    // 去掉尚未收盘的最后一根K线
+    const intervalMs = TimeUtil.intervalToMilliseconds(
+      strategy.interval as IntervalType,
+    );
+    const lastCandle = candles[candles.length - 1];
+    const closedCandles =
+      lastCandle && lastCandle.timestamp + intervalMs > Date.now()
+        ? candles.slice(0, -1)
+        : candles;
+
+    if (closedCandles.length < requiredCandles) {
+      this.logger.warn(
+        `策略 ${strategy.name}(#${strategy.id}) K线数量不足: ${closedCandles.length}/${requiredCandles}`,
+      );
+      return null;
+    }
+
+    const result = evaluator.evaluate({
+      symbol: strategy.symbol,
+      interval: strategy.interval,
+      candles: closedCandles,
+      parameters,
+    });
+    if (!result) {
+      return null;
+    }
+
+    const adjusted = RiskManagementUtil.apply(result, strategy.riskManagement);
+    if (!adjusted) {
+      this.logger.debug(
+        `策略 ${strategy.name}(#${strategy.id}) 信号置信度 ${result.confidence.toFixed(2)} 低于阈值，已忽略`,
+      );
+      return null;
+    }
+
+    const saved = await this.strategySignalService.saveSignal(
+      strategy.id,
+      strategy.symbol,
+      strategy.interval,
+      closedCandles[closedCandles.length - 1].timestamp,
+      adjusted,
+    );
+    if (!saved.created) {
+      return saved;
+    }
+
+    this.logger.log(
+      `策略 ${strategy.name}(#${strategy.id}) 产生信号: ${adjusted.signal} ${strategy.symbol} @ ${adjusted.price}`,
+    );
+    return saved;
+  }
+}
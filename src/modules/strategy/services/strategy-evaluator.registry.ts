@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { StrategyType } from 'src/shared/enums';
+import { StrategyEvaluator } from '../interfaces';
+import {
+  BollingerBandsEvaluator,
+  BoxTradingEvaluator,
+  BreakoutEvaluator,
+  MacdDivergenceEvaluator,
+  RsiOversoldEvaluator,
+} from '../evaluators';
+
+/**
+ * 策略评估器注册表
+ * 按 StrategyType 查找对应的评估器实现
+ */
+@Injectable()
+export class StrategyEvaluatorRegistry {
+  private readonly evaluators = new Map<StrategyType, StrategyEvaluator>();
+
+  constructor(
+    boxTrading: BoxTradingEvaluator,
+    breakout: BreakoutEvaluator,
+    macdDivergence: MacdDivergenceEvaluator,
+    rsiOversold: RsiOversoldEvaluator,
+    bollingerBands: BollingerBandsEvaluator,
+  ) {
+    [boxTrading, breakout, macdDivergence, rsiOversold, bollingerBands].forEach(
+      (evaluator) => this.evaluators.set(evaluator.type, evaluator),
+    );
+  }
+
+  /**
+   * 获取策略评估器
+   * @param type 策略类型
+   */
+  get(type: StrategyType | string): StrategyEvaluator {
+    const evaluator = this.evaluators.get(type as StrategyType);
+    if (!evaluator) {
+      throw new Error(`不支持的策略类型: ${type}`);
+    }
+    return evaluator;
+  }
+
+  /**
+   * 是否支持该策略类型
+   * @param type 策略类型
+   */
+  has(type: StrategyType | string): boolean {
+    return this.evaluators.has(type as StrategyType);
+  }
+
+  /**
+   * 获取所有支持的策略类型及默认参数
+   */
+  getSupportedTypes() {
+    return Array.from(this.evaluators.values()).map((evaluator) => ({
+      type: evaluator.type,
+      description: evaluator.description,
+      defaultParameters: evaluator.defaultParameters,
+    }));
+  }
+}
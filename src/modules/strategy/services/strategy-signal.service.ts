@@ -0,0 +1,177 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { StrategySignalRecord } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { StrategySignalQueryDto } from '../dto';
+import { StrategyEvaluationResult, StrategySignalView } from '../interfaces';
+
+/**
+ * 策略信号服务
+ * 负责策略信号记录的写入、查询和执行状态更新
+ */
+@Injectable()
+export class StrategySignalService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 保存策略信号
+   * 同一策略在同一根K线上只记录一次，已存在时返回原记录
+   * @param strategyId 策略配置ID
+   * @param symbol 交易对符号
+   * @param interval 时间周期
+   * @param timestamp 信号K线的开盘时间
+   * @param result 经过风险管理处理的评估结果
+   */
+  async saveSignal(
+    strategyId: number,
+    symbol: string,
+    interval: string,
+    timestamp: number,
+    result: StrategyEvaluationResult & { quantity?: number },
+  ): Promise<{ signal: StrategySignalView; created: boolean }> {
+    const key = {
+      strategyId,
+      symbol,
+      interval,
+      timestamp: BigInt(timestamp),
+    };
+    const existing = await this.prisma.strategySignalRecord.findUnique({
+      where: { strategyId_symbol_interval_timestamp: key },
+    });
+    if (existing) {
+      return { signal: this.toView(existing), created: false };
+    }
+
+    let record: StrategySignalRecord;
+    try {
+      record = await this.prisma.strategySignalRecord.create({
+        data: {
+          ...key,
+          signal: result.signal,
+          side: result.side,
+          price: result.price,
+          quantity: result.quantity,
+          confidence: Number(result.confidence.toFixed(2)),
+          stopLoss: result.stopLoss,
+          takeProfit: result.takeProfit,
+          reason: result.reason,
+        },
+      });
+    } catch (error) {
+      // 并发执行（定时任务与手动触发重叠）时同一根K线的信号已被另一方写入
+      if (error.code === 'P2002') {
+        const duplicate =
+          await this.prisma.strategySignalRecord.findUniqueOrThrow({
+            where: { strategyId_symbol_interval_timestamp: key },
+          });
+        return { signal: this.toView(duplicate), created: false };
+      }
+      throw error;
+    }
+
+    return { signal: this.toView(record), created: true };
+  }
+
+  /**
+   * 分页查询策略信号
+   */
+  async findSignals(query: StrategySignalQueryDto) {
+    const filters = query;
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+    const skip = (page - 1) * limit;
+    const where: any = {};
+
+    if (filters.strategyId) {
+      where.strategyId = Number(filters.strategyId);
+    }
+
+    if (filters.symbol) {
+      where.symbol = filters.symbol.toUpperCase();
+    }
+
+    if (filters.interval) {
+      where.interval = filters.interval;
+    }
+
+    if (filters.side) {
+      where.side = filters.side;
+    }
+
+    if (filters.executed !== undefined) {
+      where.executed = String(filters.executed) === 'true';
+    }
+
+    if (filters.startTime || filters.endTime) {
+      where.timestamp = {};
+      if (filters.startTime) {
+        where.timestamp.gte = BigInt(filters.startTime);
+      }
+      if (filters.endTime) {
+        where.timestamp.lte = BigInt(filters.endTime);
+      }
+    }
+
+    const [records, total] = await Promise.all([
+      this.prisma.strategySignalRecord.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.strategySignalRecord.count({ where }),
+    ]);
+
+    return {
+      data: records.map((record) => this.toView(record)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 标记信号已执行
+   */
+  async markExecuted(id: number): Promise<StrategySignalView> {
+    const record = await this.prisma.strategySignalRecord.findUnique({
+      where: { id },
+    });
+
+    if (!record) {
+      throw new NotFoundException(`ID为 ${id} 的策略信号不存在`);
+    }
+
+    const updated = await this.prisma.strategySignalRecord.update({
+      where: { id },
+      data: { executed: true, executedAt: new Date() },
+    });
+
+    return this.toView(updated);
+  }
+
+  private toView(record: StrategySignalRecord): StrategySignalView {
+    return {
+      id: record.id,
+      strategyId: record.strategyId,
+      symbol: record.symbol,
+      interval: record.interval,
+      signal: record.signal,
+      side: record.side,
+      price: Number(record.price),
+      quantity: record.quantity !== null ? Number(record.quantity) : null,
+      confidence: Number(record.confidence),
+      stopLoss: record.stopLoss !== null ? Number(record.stopLoss) : null,
+      takeProfit: record.takeProfit !== null ? Number(record.takeProfit) : null,
+      reason: record.reason,
+      timestamp: Number(record.timestamp),
+      executed: record.executed,
+      executedAt: record.executedAt,
+      createdAt: record.createdAt,
+    };
+  }
+}
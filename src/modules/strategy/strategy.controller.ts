@@ -0,0 +1,120 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  CreateStrategyConfigDto,
+  StrategyConfigQueryDto,
+  StrategySignalQueryDto,
+  UpdateStrategyConfigDto,
+  UpdateStrategyStatusDto,
+} from './dto';
+import {
+  StrategyConfigService,
+  StrategyEngineService,
+  StrategyEvaluatorRegistry,
+  StrategySignalService,
+} from './services';
+
+@ApiTags('策略管理')
+@Controller('api/strategies')
+export class StrategyController {
+  constructor(
+    private readonly strategyConfigService: StrategyConfigService,
+    private readonly strategyEngineService: StrategyEngineService,
+    private readonly strategySignalService: StrategySignalService,
+    private readonly registry: StrategyEvaluatorRegistry,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建策略配置' })
+  @ApiResponse({ status: 201, description: '创建成功' })
+  async create(@Body() dto: CreateStrategyConfigDto) {
+    return await this.strategyConfigService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '获取策略配置列表' })
+  async findAll(@Query() query: StrategyConfigQueryDto) {
+    return await this.strategyConfigService.findAll(query);
+  }
+
+  @Get('types')
+  @ApiOperation({ summary: '获取支持的策略类型及默认参数' })
+  getTypes() {
+    return this.registry.getSupportedTypes();
+  }
+
+  @Get('signals')
+  @ApiOperation({ summary: '分页查询策略信号' })
+  async findSignals(@Query() query: StrategySignalQueryDto) {
+    return await this.strategySignalService.findSignals(query);
+  }
+
+  @Patch('signals/:id/executed')
+  @ApiOperation({ summary: '标记策略信号已执行' })
+  @ApiParam({ name: 'id', description: '信号ID' })
+  @ApiResponse({ status: 404, description: '信号不存在' })
+  async markSignalExecuted(@Param('id', ParseIntPipe) id: number) {
+    return await this.strategySignalService.markExecuted(id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '根据ID获取策略配置' })
+  @ApiParam({ name: 'id', description: '策略ID' })
+  @ApiResponse({ status: 404, description: '策略不存在' })
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return await this.strategyConfigService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '更新策略配置' })
+  @ApiParam({ name: 'id', description: '策略ID' })
+  @ApiResponse({ status: 404, description: '策略不存在' })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateStrategyConfigDto,
+  ) {
+    return await this.strategyConfigService.update(id, dto);
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({ summary: '启用/停用策略' })
+  @ApiParam({ name: 'id', description: '策略ID' })
+  async updateStatus(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateStrategyStatusDto,
+  ) {
+    return await this.strategyConfigService.updateStatus(id, dto.status);
+  }
+
+  @Post(':id/run')
+  @ApiOperation({ summary: '立即执行一次策略评估' })
+  @ApiParam({ name: 'id', description: '策略ID' })
+  async run(@Param('id', ParseIntPipe) id: number) {
+    const signal = await this.strategyEngineService.runStrategy(id);
+    return {
+      triggered: signal !== null,
+      signal,
+    };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除策略配置' })
+  @ApiParam({ name: 'id', description: '策略ID' })
+  @ApiResponse({ status: 404, description: '策略不存在' })
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ message: string }> {
+    await this.strategyConfigService.remove(id);
+    return { message: '策略删除成功' };
+  }
+}
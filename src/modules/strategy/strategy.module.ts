@@ -0,0 +1,49 @@
+import { Module } from '@nestjs/common';
+import { CCXTAnalysisModule } from '../ccxt-analysis/ccxt-analysis.module';
+import { StrategyController } from './strategy.controller';
+import { BacktestController } from './controllers/backtest.controller';
+import {
+  BollingerBandsEvaluator,
+  BoxTradingEvaluator,
+  BreakoutEvaluator,
+  MacdDivergenceEvaluator,
+  RsiOversoldEvaluator,
+} from './evaluators';
+import {
+  BacktestEngineService,
+  BacktestService,
+  StrategyConfigService,
+  StrategyEngineService,
+  StrategyEvaluatorRegistry,
+  StrategySignalService,
+} from './services';
+
+/**
+ * 策略模块
+ * 管理策略配置，定时评估运行中的策略并记录策略信号，提供历史回测
+ */
+@Module({
+  imports: [CCXTAnalysisModule],
+  controllers: [StrategyController, BacktestController],
+  providers: [
+    BoxTradingEvaluator,
+    BreakoutEvaluator,
+    MacdDivergenceEvaluator,
+    RsiOversoldEvaluator,
+    BollingerBandsEvaluator,
+    StrategyEvaluatorRegistry,
+    StrategyConfigService,
+    StrategySignalService,
+    StrategyEngineService,
+    BacktestEngineService,
+    BacktestService,
+  ],
+  exports: [
+    StrategyEvaluatorRegistry,
+    StrategyConfigService,
+    StrategySignalService,
+    StrategyEngineService,
+    BacktestService,
+  ],
+})
+export class StrategyModule {}
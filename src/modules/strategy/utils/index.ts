@@ -0,0 +1 @@
+export * from './risk-management.util';
@@ -0,0 +1,56 @@
+import { TradingDirection } from 'src/shared/enums';
+import {
+  StrategyEvaluationResult,
+  StrategyRiskManagement,
+} from '../interfaces';
+
+/**
+ * 风险管理工具类
+ * 实盘策略引擎与回测共用同一套止盈止损和仓位计算规则
+ */
+export class RiskManagementUtil {
+  /**
+   * 应用风险管理配置
+   * 返回 null 表示信号被过滤
+   */
+  static apply(
+    result: StrategyEvaluationResult,
+    risk: StrategyRiskManagement,
+  ): (StrategyEvaluationResult & { quantity?: number }) | null {
+    if (
+      risk.minConfidence !== undefined &&
+      result.confidence < risk.minConfidence
+    ) {
+      return null;
+    }
+
+    const isLong = result.side === TradingDirection.LONG;
+    const direction = isLong ? 1 : -1;
+    let { stopLoss, takeProfit } = result;
+
+    if (risk.stopLossPercent) {
+      stopLoss = result.price * (1 - (direction * risk.stopLossPercent) / 100);
+    }
+
+    if (risk.takeProfitPercent) {
+      takeProfit =
+        result.price * (1 + (direction * risk.takeProfitPercent) / 100);
+    } else if (risk.riskRewardRatio && stopLoss !== undefined) {
+      const riskDistance = Math.abs(result.price - stopLoss);
+      takeProfit =
+        result.price + direction * riskDistance * risk.riskRewardRatio;
+    }
+
+    let quantity: number | undefined;
+    if (risk.positionSize) {
+      quantity = risk.positionSize;
+    } else if (risk.maxRiskAmount && stopLoss !== undefined) {
+      const riskPerUnit = Math.abs(result.price - stopLoss);
+      if (riskPerUnit > 0) {
+        quantity = risk.maxRiskAmount / riskPerUnit;
+      }
+    }
+
+    return { ...result, stopLoss, takeProfit, quantity };
+  }
+}
@@ -1,5 +1,6 @@
-import { IsString, IsOptional, IsIn } from 'class-validator';
+import { IsString, IsOptional, IsIn, IsArray, IsNumber, Min, Max } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ScanCriterion } from '../interfaces';
 
 /**
  * 技术分析请求DTO
@@ -32,6 +33,71 @@ export class MultiTimeframeTrendRequestDto extends TechnicalAnalysisRequestDto {
  */
 export class SupportResistanceRequestDto extends TechnicalAnalysisRequestDto {}
 
+/**
+ * 成交量分布请求DTO
+ */
+export class VolumeProfileRequestDto extends TechnicalAnalysisRequestDto {
+  @ApiPropertyOptional({
+    description: '时间周期',
+    example: ['1d', '4h'],
+    enum: ['15m', '1h', '4h', '1d'],
+    isArray: true,
+    default: ['1d', '4h', '1h', '15m'],
+  })
+  @IsOptional()
+  @IsArray({ message: '时间周期必须是数组' })
+  @IsIn(['15m', '1h', '4h', '1d'], { each: true, message: '不支持的时间周期' })
+  timeframes?: string[];
+
+  @ApiPropertyOptional({
+    description: '回看K线数量',
+    example: 200,
+    default: 200,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: '回看K线数量必须是数字' })
+  @Min(20, { message: '回看K线数量至少20条' })
+  @Max(1000, { message: '回看K线数量最多1000条' })
+  lookback?: number;
+
+  @ApiPropertyOptional({
+    description: '价格分箱数量',
+    example: 50,
+    default: 50,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: '价格分箱数量必须是数字' })
+  @Min(10, { message: '价格分箱数量至少10个' })
+  @Max(200, { message: '价格分箱数量最多200个' })
+  bins?: number;
+
+  @ApiPropertyOptional({
+    description: '价值区域成交量占比（百分比）',
+    example: 70,
+    default: 70,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: '价值区域占比必须是数字' })
+  valueAreaPercent?: number;
+}
+
+/**
+ * 背离识别请求DTO
+ */
+export class DivergenceRequestDto extends TechnicalAnalysisRequestDto {
+  @ApiPropertyOptional({
+    description: '时间周期',
+    example: ['4h', '1h'],
+    enum: ['15m', '1h', '4h', '1d'],
+    isArray: true,
+    default: ['1d', '4h', '1h', '15m'],
+  })
+  @IsOptional()
+  @IsArray({ message: '时间周期必须是数组' })
+  @IsIn(['15m', '1h', '4h', '1d'], { each: true, message: '不支持的时间周期' })
+  timeframes?: string[];
+}
+
 /**
  * 单时间周期趋势响应DTO
  */
@@ -171,6 +237,9 @@ export class SupportResistanceLevelResponseDto {
   @ApiProperty({ description: '主要识别时间周期', example: '1d' })
   timeframe: string;
 
+  @ApiProperty({ description: '识别方法', example: 'SWING', enum: ['SWING', 'VOLUME', 'VOLUME_PROFILE'] })
+  source: string;
+
   @ApiProperty({ description: '描述', example: '1d级别强阻力位 193.25，已触及3次' })
   description: string;
 }
@@ -219,6 +288,9 @@ export class TradingZoneResponseDto {
   @ApiProperty({ description: '强度', enum: ['WEAK', 'MEDIUM', 'STRONG', 'MAJOR'] })
   strength: string;
 
+  @ApiProperty({ description: '区间所属时间周期的ATR', example: 9.85, nullable: true })
+  atr: number | null;
+
   @ApiProperty({ description: '原因', example: '1d级别强支撑位' })
   reason: string;
 }
@@ -256,6 +328,18 @@ export class SupportResistanceAnalysisResponseDto {
     resistances: SupportResistanceLevelResponseDto[];
   };
 
+  @ApiProperty({
+    description: '各时间周期的ATR波动率（value为ATR值，percent为占当前价格百分比）',
+    example: { '1d': { timeframe: '1d', period: 14, value: 9.85, percent: 5.11 } },
+  })
+  atr: Record<string, { timeframe: string; period: number; value: number; percent: number }>;
+
+  @ApiProperty({
+    description: '各时间周期的成交量分布摘要（控制点、价值区域、高/低成交量节点）',
+    example: { '1d': { poc: { price: 185.2, volume: 152340, percent: 6.1 }, valueArea: { high: 198.4, low: 171.9, percent: 70.3 } } },
+  })
+  volumeProfile: Record<string, any>;
+
   @ApiProperty({ description: '当前位置分析' })
   currentPosition: CurrentPositionResponseDto;
 
@@ -301,4 +385,98 @@ export class TechnicalAnalysisResponseDto {
 
   @ApiProperty({ description: '综合评估' })
   overallAssessment: OverallAssessmentResponseDto;
-} 
\ No newline at end of file
+}
+
+/**
+ * 支撑阻力位历史查询DTO
+ */
+export class SupportResistanceHistoryQueryDto {
+  @ApiPropertyOptional({
+    description: '时间周期',
+    enum: ['1d', '4h', '1h'],
+  })
+  @IsOptional()
+  @IsIn(['1d', '4h', '1h'], { message: '不支持的时间周期' })
+  timeframe?: string;
+
+  @ApiPropertyOptional({
+    description: '位置类型',
+    enum: ['SUPPORT', 'RESISTANCE'],
+  })
+  @IsOptional()
+  @IsIn(['SUPPORT', 'RESISTANCE'], { message: '不支持的位置类型' })
+  levelType?: string;
+
+  @ApiPropertyOptional({
+    description: '是否包含已失效（被突破）的位置',
+    default: true,
+  })
+  @IsOptional()
+  @IsIn(['true', 'false'], { message: 'includeInactive 必须是 true 或 false' })
+  includeInactive?: string;
+}
+
+/**
+ * 市场扫描请求DTO
+ * 未指定的参数使用 MARKET_SCANNER_* 配置的默认值
+ */
+export class MarketScanRequestDto {
+  @ApiPropertyOptional({
+    description: '筛选条件',
+    enum: ['TREND_ALIGNMENT', 'RSI_EXTREME', 'NEAR_STRONG_LEVEL', 'VOLUME_SPIKE'],
+    isArray: true,
+    example: ['TREND_ALIGNMENT', 'VOLUME_SPIKE'],
+  })
+  @IsOptional()
+  @IsArray({ message: '筛选条件必须是数组' })
+  @IsIn(['TREND_ALIGNMENT', 'RSI_EXTREME', 'NEAR_STRONG_LEVEL', 'VOLUME_SPIKE'], {
+    each: true,
+    message: '不支持的筛选条件',
+  })
+  criteria?: ScanCriterion[];
+
+  @ApiPropertyOptional({ description: '入选所需满足的最少条件数', example: 2 })
+  @IsOptional()
+  @IsNumber({}, { message: '最少条件数必须是数字' })
+  @Min(1, { message: '最少条件数不能小于1' })
+  minMatches?: number;
+
+  @ApiPropertyOptional({ description: '24小时成交额下限（USDT）', example: 20000000 })
+  @IsOptional()
+  @IsNumber({}, { message: '成交额下限必须是数字' })
+  @Min(0, { message: '成交额下限不能小于0' })
+  minQuoteVolume?: number;
+
+  @ApiPropertyOptional({ description: '最多扫描的交易对数量', example: 40 })
+  @IsOptional()
+  @IsNumber({}, { message: '扫描数量必须是数字' })
+  @Min(1, { message: '扫描数量不能小于1' })
+  @Max(200, { message: '扫描数量不能大于200' })
+  maxSymbols?: number;
+
+  @ApiPropertyOptional({ description: 'RSI 超买阈值', example: 70 })
+  @IsOptional()
+  @IsNumber({}, { message: 'RSI 超买阈值必须是数字' })
+  @Min(50, { message: 'RSI 超买阈值不能小于50' })
+  @Max(100, { message: 'RSI 超买阈值不能大于100' })
+  rsiOverbought?: number;
+
+  @ApiPropertyOptional({ description: 'RSI 超卖阈值', example: 30 })
+  @IsOptional()
+  @IsNumber({}, { message: 'RSI 超卖阈值必须是数字' })
+  @Min(0, { message: 'RSI 超卖阈值不能小于0' })
+  @Max(50, { message: 'RSI 超卖阈值不能大于50' })
+  rsiOversold?: number;
+
+  @ApiPropertyOptional({ description: '距强支撑/阻力位的最大距离（百分比）', example: 1 })
+  @IsOptional()
+  @IsNumber({}, { message: '距离阈值必须是数字' })
+  @Min(0, { message: '距离阈值不能小于0' })
+  levelProximityPercent?: number;
+
+  @ApiPropertyOptional({ description: '放量倍数阈值', example: 2.5 })
+  @IsOptional()
+  @IsNumber({}, { message: '放量倍数必须是数字' })
+  @Min(1, { message: '放量倍数不能小于1' })
+  volumeSpikeRatio?: number;
+}
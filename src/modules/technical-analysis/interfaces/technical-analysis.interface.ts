@@ -1,3 +1,5 @@
+import { PatternType, SignalType } from 'src/shared/enums';
+
 /**
  * 时间周期枚举
  */
@@ -60,6 +62,11 @@ export type SupportResistanceType = 'SUPPORT' | 'RESISTANCE';
  */
 export type LevelStrength = 'WEAK' | 'MEDIUM' | 'STRONG' | 'MAJOR';
 
+/**
+ * 支撑阻力位来源：摆动高低点 / 单根放量K线 / 成交量分布
+ */
+export type LevelSource = 'SWING' | 'VOLUME' | 'VOLUME_PROFILE';
+
 /**
  * 单个支撑阻力位
  */
@@ -77,9 +84,20 @@ export interface ISupportResistanceLevel {
   distance: number; // 与当前价格距离（百分比）
   isActive: boolean; // 是否仍然有效
   timeframe: TimeframeType; // 主要识别的时间周期
+  source: LevelSource; // 识别方法
   description: string; // 描述
 }
 
+/**
+ * 单个时间周期的ATR波动率
+ */
+export interface IAtrData {
+  timeframe: TimeframeType;
+  period: number;
+  value: number; // ATR值
+  percent: number; // ATR占当前价格的百分比
+}
+
 /**
  * 支撑阻力位分析结果
  */
@@ -102,6 +120,12 @@ export interface ISupportResistanceAnalysis {
     resistances: ISupportResistanceLevel[];
   };
   
+  // 各时间周期的ATR波动率，用于缩放区间宽度和合并容差
+  atr: Partial<Record<TimeframeType, IAtrData>>;
+
+  // 各时间周期的成交量分布（不含分箱明细）
+  volumeProfile: Partial<Record<TimeframeType, Omit<IVolumeProfile, 'bins'>>>;
+  
   // 当前位置分析
   currentPosition: {
     betweenLevels: boolean;
@@ -115,11 +139,15 @@ export interface ISupportResistanceAnalysis {
     buyZones: Array<{
       priceRange: { min: number; max: number };
       strength: LevelStrength;
+      timeframe: TimeframeType;
+      atr: number | null; // 区间所属时间周期的ATR
       reason: string;
     }>;
     sellZones: Array<{
       priceRange: { min: number; max: number };
       strength: LevelStrength;
+      timeframe: TimeframeType;
+      atr: number | null; // 区间所属时间周期的ATR
       reason: string;
     }>;
   };
@@ -158,4 +186,282 @@ export interface ITechnicalAnalysisResult {
     timeframe: 'SHORT_TERM' | 'MEDIUM_TERM' | 'LONG_TERM';
     recommendation: string;
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * 形态方向
+ */
+export type PatternBias = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+
+/**
+ * 形态状态：形成中 / 已确认（突破颈线或边界）
+ */
+export type PatternStatus = 'FORMING' | 'CONFIRMED';
+
+/**
+ * 识别出的图表形态
+ */
+export interface IChartPattern {
+  type: PatternType;
+  timeframe: TimeframeType;
+  bias: PatternBias;
+  signal: SignalType;
+  status: PatternStatus;
+  confidence: number; // 0-100
+  completion: number; // 形态完成度 0-100
+  startTime: number;
+  endTime: number;
+
+  // 关键价格
+  keyLevels: {
+    neckline?: number; // 颈线（双顶/双底/头肩）
+    upperBoundary?: number; // 上边界（箱体/趋势线）
+    lowerBoundary?: number; // 下边界（箱体/趋势线）
+    breakoutLevel?: number; // 突破位
+  };
+
+  target?: number; // 目标价（量度涨跌幅）
+  description: string;
+}
+
+/**
+ * 图表形态分析结果
+ */
+export interface IPatternAnalysis {
+  symbol: string;
+  timestamp: number;
+  patterns: IChartPattern[];
+}
+
+/**
+ * 支撑阻力位角色转换记录（支撑 ↔ 阻力）
+ */
+export interface ISupportResistanceFlip {
+  from: SupportResistanceType;
+  to: SupportResistanceType;
+  price: number; // 转换时的价格
+  at: number; // 转换时间戳
+}
+
+/**
+ * 支撑阻力位有效突破记录
+ */
+export interface ISupportResistanceBreak {
+  levelType: SupportResistanceType;
+  price: number; // 突破时的价格
+  at: number; // 突破时间戳
+}
+
+/**
+ * 持久化支撑阻力位的附加信息（存储于 details 字段）
+ */
+export interface ISupportResistanceLevelDetails {
+  priceRange: { min: number; max: number; center: number };
+  strength: LevelStrength;
+  description: string;
+  inZone: boolean; // 上次同步时价格是否位于该区域内，用于统计重新触及
+  flips: ISupportResistanceFlip[];
+  breaks: ISupportResistanceBreak[];
+}
+
+/**
+ * 支撑阻力位历史视图
+ */
+export interface ISupportResistanceLevelView {
+  id: string;
+  symbol: string;
+  timeframe: string;
+  levelType: SupportResistanceType;
+  price: number;
+  strength: number;
+  touches: number;
+  lastTouch: Date | null;
+  isActive: boolean;
+  priceRange: { min: number; max: number; center: number } | null;
+  flips: ISupportResistanceFlip[];
+  breaks: ISupportResistanceBreak[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 成交量分布的价格分箱
+ */
+export interface IVolumeProfileBin {
+  priceLow: number;
+  priceHigh: number;
+  priceCenter: number;
+  volume: number;
+  buyVolume: number; // 阳线成交量
+  sellVolume: number; // 阴线成交量
+  percent: number; // 占总成交量百分比
+}
+
+/**
+ * 成交量节点类型：高成交量节点 / 低成交量节点
+ */
+export type VolumeNodeType = 'HVN' | 'LVN';
+
+/**
+ * 成交量节点
+ */
+export interface IVolumeNode {
+  type: VolumeNodeType;
+  price: number;
+  priceRange: { min: number; max: number };
+  volume: number;
+  percent: number;
+}
+
+/**
+ * 单个时间周期的成交量分布
+ */
+export interface IVolumeProfile {
+  timeframe: TimeframeType;
+  lookback: number; // 参与统计的K线数量
+  startTime: number;
+  endTime: number;
+  priceLow: number;
+  priceHigh: number;
+  binSize: number;
+  totalVolume: number;
+
+  // 成交量最大的价格（控制点）
+  poc: {
+    price: number;
+    volume: number;
+    percent: number;
+  };
+
+  // 价值区域（包含指定比例成交量的价格区间）
+  valueArea: {
+    high: number;
+    low: number;
+    percent: number;
+  };
+
+  highVolumeNodes: IVolumeNode[];
+  lowVolumeNodes: IVolumeNode[];
+  bins: IVolumeProfileBin[];
+}
+
+/**
+ * 成交量分布参数
+ */
+export interface IVolumeProfileOptions {
+  lookback?: number; // K线数量，默认200
+  bins?: number; // 价格分箱数量，默认50
+  valueAreaPercent?: number; // 价值区域成交量占比，默认70
+}
+
+/**
+ * 多时间周期成交量分布分析结果
+ */
+export interface IVolumeProfileAnalysis {
+  symbol: string;
+  currentPrice: number;
+  timestamp: number;
+  profiles: Partial<Record<TimeframeType, IVolumeProfile>>;
+}
+
+/**
+ * 背离使用的指标
+ */
+export type DivergenceIndicator = 'RSI' | 'MACD' | 'OBV';
+
+/**
+ * 背离类型：常规背离（趋势衰竭）/ 隐藏背离（趋势延续）
+ */
+export type DivergenceType = 'REGULAR' | 'HIDDEN';
+
+/**
+ * 背离中的一个高低点
+ */
+export interface IDivergenceSwing {
+  timestamp: number;
+  price: number; // 高点取最高价，低点取最低价
+  indicatorValue: number;
+}
+
+/**
+ * 识别出的背离
+ */
+export interface IDivergence {
+  timeframe: TimeframeType;
+  indicator: DivergenceIndicator;
+  type: DivergenceType;
+  bias: Exclude<PatternBias, 'NEUTRAL'>;
+  start: IDivergenceSwing;
+  end: IDivergenceSwing;
+  barsAgo: number; // 第二个高低点距最新K线的K线数
+  confidence: number; // 0-100
+  description: string;
+}
+
+/**
+ * 背离分析结果
+ */
+export interface IDivergenceAnalysis {
+  symbol: string;
+  timestamp: number;
+  divergences: IDivergence[];
+}
+
+/**
+ * 市场扫描条件：多周期趋势一致 / RSI 超买超卖 / 接近强支撑阻力位 / 放量
+ */
+export type ScanCriterion =
+  | 'TREND_ALIGNMENT'
+  | 'RSI_EXTREME'
+  | 'NEAR_STRONG_LEVEL'
+  | 'VOLUME_SPIKE';
+
+/**
+ * 市场扫描筛选参数
+ */
+export interface IMarketScanFilters {
+  criteria: ScanCriterion[];
+  minMatches: number; // 入选所需满足的最少条件数
+  minQuoteVolume: number; // 24小时成交额下限（USDT）
+  maxSymbols: number; // 按成交额排序后最多扫描的交易对数量
+  rsiOverbought: number;
+  rsiOversold: number;
+  levelProximityPercent: number;
+  volumeSpikeRatio: number;
+}
+
+/**
+ * 单个扫描条件的命中结果
+ */
+export interface IMarketScanMatch {
+  criterion: ScanCriterion;
+  bias: PatternBias;
+  score: number; // 0-100
+  description: string;
+}
+
+/**
+ * 扫描候选交易对
+ */
+export interface IMarketScanCandidate {
+  symbol: string; // 不带分隔符的格式，如 BTCUSDT
+  price: number;
+  quoteVolume: number;
+  changePercent: number;
+  bias: PatternBias;
+  score: number; // 命中条件得分之和
+  matches: IMarketScanMatch[];
+}
+
+/**
+ * 市场扫描结果
+ */
+export interface IMarketScanResult {
+  exchange: string;
+  timestamp: number;
+  duration: number; // 扫描耗时（毫秒）
+  filters: IMarketScanFilters;
+  scannedCount: number;
+  failedCount: number;
+  candidates: IMarketScanCandidate[];
+}
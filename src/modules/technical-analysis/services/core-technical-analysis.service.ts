@@ -6,10 +6,14 @@ import { CCXTDataService } from '../../ccxt-analysis/services/ccxt-data.service'
 import { EMAAnalysisService } from '../../ccxt-analysis/services/ema-analysis.service';
 import { RSIAnalysisService } from '../../ccxt-analysis/services/rsi-analysis.service';
 import { OpenInterestService } from '../../ccxt-analysis/services/open-interest.service';
+import { DerivativesSentimentService } from '../../ccxt-analysis/services/derivatives-sentiment.service';
 
 // 技术分析服务
 import { MultiTimeframeTrendService } from './multi-timeframe-trend.service';
 import { SupportResistanceService } from './support-resistance.service';
+import { PatternRecognitionService } from './pattern-recognition.service';
+import { SupportResistanceTrackerService } from './support-resistance-tracker.service';
+import { DivergenceService } from './divergence.service';
 
 /**
  * 核心技术分析服务
@@ -24,8 +28,12 @@ export class CoreTechnicalAnalysisService {
     private readonly emaAnalysisService: EMAAnalysisService,
     private readonly rsiAnalysisService: RSIAnalysisService,
     private readonly openInterestService: OpenInterestService,
+    private readonly derivativesSentimentService: DerivativesSentimentService,
     private readonly multiTimeframeTrendService: MultiTimeframeTrendService,
     private readonly supportResistanceService: SupportResistanceService,
+    private readonly patternRecognitionService: PatternRecognitionService,
+    private readonly supportResistanceTrackerService: SupportResistanceTrackerService,
+    private readonly divergenceService: DivergenceService,
   ) {}
 
   /**
@@ -126,6 +134,40 @@ export class CoreTechnicalAnalysisService {
         this.logger.warn(`RSI分析失败 ${symbol}:`, error.message);
       }
 
+      // 步骤4：图表形态识别（使用预获取数据）
+      let patternAnalysis = null;
+      try {
+        patternAnalysis = this.patternRecognitionService.analyzePatternsWithPrefetchedData(symbol, marketData);
+      } catch (error) {
+        this.logger.warn(`形态识别失败 ${symbol}:`, error.message);
+      }
+
+      // 步骤5：背离识别（使用预获取数据）
+      let divergenceAnalysis = null;
+      try {
+        divergenceAnalysis = this.divergenceService.analyzeDivergencesWithPrefetchedData(symbol, marketData);
+      } catch (error) {
+        this.logger.warn(`背离识别失败 ${symbol}:`, error.message);
+      }
+
+      // 步骤6：同步支撑阻力位历史（触及次数、突破和角色转换）
+      try {
+        await this.supportResistanceTrackerService.syncLevels(symbol, srAnalysis);
+      } catch (error) {
+        this.logger.warn(`支撑阻力位历史同步失败 ${symbol}:`, error.message);
+      }
+
+      // 步骤7：衍生品情绪（资金费率、多空比、持仓量与价格状态）
+      let derivativesSentiment = null;
+      const derivativesExchange = this.derivativesSentimentService.resolveExchange(exchange);
+      if (derivativesExchange) {
+        try {
+          derivativesSentiment = await this.derivativesSentimentService.getDerivativesSentiment(symbol, derivativesExchange);
+        } catch (error) {
+          this.logger.warn(`衍生品情绪分析失败 ${symbol}:`, error.message);
+        }
+      }
+
       // 未来可以添加持仓量分析
       // let openInterestData = null;
       // try {
@@ -143,6 +185,9 @@ export class CoreTechnicalAnalysisService {
         trendAnalysis,
         srAnalysis,
         rsiAnalysis,
+        patternAnalysis,
+        divergenceAnalysis,
+        derivativesSentiment,
         // openInterestData,
       };
 
@@ -0,0 +1,293 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CCXTDataService } from 'src/modules/ccxt-analysis/services/ccxt-data.service';
+import { IMarketDataCollection } from 'src/shared/interfaces/analysis.interface';
+import { MathUtil } from 'src/shared/utils/math.util';
+import {
+  DivergenceIndicator,
+  IDivergence,
+  IDivergenceAnalysis,
+  IKlineData,
+  TimeframeType,
+} from '../interfaces';
+
+/** 参与背离识别的时间周期 */
+const DIVERGENCE_TIMEFRAMES: TimeframeType[] = ['1d', '4h', '1h', '15m'];
+
+/** 参与背离识别的指标 */
+const DIVERGENCE_INDICATORS: DivergenceIndicator[] = ['RSI', 'MACD', 'OBV'];
+
+/** 单独分析时获取的K线数量，需覆盖 MACD 预热期 */
+const LOOKBACK = 200;
+
+/** 识别高低点的左右窗口 */
+const PIVOT_WINDOW = 5;
+
+/** 两个高低点之间的最少/最多K线数 */
+const MIN_SWING_DISTANCE = 5;
+const MAX_SWING_DISTANCE = 60;
+
+/** 背离第二个高低点距今的最大K线数，超过视为过时背离 */
+const MAX_DIVERGENCE_AGE = 30;
+
+const RSI_PERIOD = 14;
+
+const INDICATOR_NAMES: Record<DivergenceIndicator, string> = {
+  RSI: 'RSI',
+  MACD: 'MACD柱',
+  OBV: 'OBV',
+};
+
+/**
+ * 背离识别服务
+ * 比较相邻高低点的价格与 RSI、MACD 柱状图、OBV，
+ * 识别各时间周期的常规/隐藏看涨看跌背离
+ */
+@Injectable()
+export class DivergenceService {
+  private readonly logger = new Logger(DivergenceService.name);
+
+  constructor(private readonly ccxtDataService: CCXTDataService) {}
+
+  /**
+   * 识别背离 - 使用预获取数据
+   * @param symbol 交易对符号
+   * @param marketData 预获取的市场数据
+   */
+  analyzeDivergencesWithPrefetchedData(
+    symbol: string,
+    marketData: IMarketDataCollection,
+  ): IDivergenceAnalysis {
+    const divergences = DIVERGENCE_TIMEFRAMES.flatMap((timeframe) =>
+      this.safeDetect(symbol, marketData.timeframes[timeframe], timeframe),
+    );
+
+    return this.toAnalysis(symbol, divergences);
+  }
+
+  /**
+   * 获取交易对多个时间周期的背离
+   * @param symbol 交易对符号
+   * @param timeframes 时间周期
+   * @param exchange 交易所名称
+   */
+  async analyzeDivergences(
+    symbol: string,
+    timeframes: TimeframeType[] = DIVERGENCE_TIMEFRAMES,
+    exchange: string = 'binance',
+  ): Promise<IDivergenceAnalysis> {
+    const klineData = await Promise.all(
+      timeframes.map((tf) =>
+        this.ccxtDataService.getOHLCVData(symbol, tf, LOOKBACK, exchange),
+      ),
+    );
+
+    const divergences = timeframes.flatMap((tf, index) =>
+      this.safeDetect(symbol, klineData[index], tf),
+    );
+
+    return this.toAnalysis(symbol, divergences);
+  }
+
+  /**
+   * 识别单个时间周期的背离
+   * 只返回第二个高低点仍在最近 MAX_DIVERGENCE_AGE 根K线内的背离，按时间从新到旧排序
+   * @param klineData K线数据（按时间升序）
+   * @param timeframe 时间周期
+   * @param indicators 参与识别的指标
+   */
+  detectDivergences(
+    klineData: IKlineData[],
+    timeframe: TimeframeType,
+    indicators: DivergenceIndicator[] = DIVERGENCE_INDICATORS,
+  ): IDivergence[] {
+    if (
+      !klineData ||
+      klineData.length < PIVOT_WINDOW * 2 + MIN_SWING_DISTANCE
+    ) {
+      return [];
+    }
+
+    const highs = klineData.map((k) => k.high);
+    const lows = klineData.map((k) => k.low);
+    const lastIndex = klineData.length - 1;
+    const divergences: IDivergence[] = [];
+
+    for (const indicator of indicators) {
+      const values = this.calculateIndicator(indicator, klineData);
+      if (values.length === 0) {
+        continue;
+      }
+
+      const offset = klineData.length - values.length;
+      const recentValues = values.slice(-MAX_SWING_DISTANCE * 2);
+      const valueRange =
+        Math.max(...recentValues) - Math.min(...recentValues) || 1;
+
+      const found = MathUtil.findDivergences(
+        highs,
+        lows,
+        values,
+        PIVOT_WINDOW,
+        MIN_SWING_DISTANCE,
+        MAX_SWING_DISTANCE,
+      );
+
+      for (const item of found) {
+        const barsAgo = lastIndex - item.endIndex;
+        if (barsAgo > MAX_DIVERGENCE_AGE) {
+          continue;
+        }
+
+        const prices = item.bias === 'BEARISH' ? highs : lows;
+        const start = {
+          timestamp: klineData[item.startIndex].timestamp,
+          price: prices[item.startIndex],
+          indicatorValue: values[item.startIndex - offset],
+        };
+        const end = {
+          timestamp: klineData[item.endIndex].timestamp,
+          price: prices[item.endIndex],
+          indicatorValue: values[item.endIndex - offset],
+        };
+
+        divergences.push({
+          timeframe,
+          indicator,
+          type: item.type,
+          bias: item.bias,
+          start,
+          end,
+          barsAgo,
+          confidence: this.calculateConfidence(
+            indicator,
+            item.type,
+            item.bias,
+            start,
+            end,
+            valueRange,
+            barsAgo,
+          ),
+          description: this.describe(
+            timeframe,
+            indicator,
+            item.type,
+            item.bias,
+            start,
+            end,
+          ),
+        });
+      }
+    }
+
+    return divergences.sort((a, b) => a.barsAgo - b.barsAgo);
+  }
+
+  private safeDetect(
+    symbol: string,
+    klineData: IKlineData[],
+    timeframe: TimeframeType,
+  ): IDivergence[] {
+    try {
+      return this.detectDivergences(klineData, timeframe);
+    } catch (error) {
+      this.logger.warn(`${symbol} ${timeframe} 背离识别失败: ${error.message}`);
+      return [];
+    }
+  }
+
+  private toAnalysis(
+    symbol: string,
+    divergences: IDivergence[],
+  ): IDivergenceAnalysis {
+    divergences.sort((a, b) => b.confidence - a.confidence);
+    this.logger.log(
+      `${symbol} 背离识别完成，发现 ${divergences.length} 个背离`,
+    );
+
+    return { symbol, timestamp: Date.now(), divergences };
+  }
+
+  /**
+   * 计算指标序列，输出与K线末尾对齐
+   */
+  private calculateIndicator(
+    indicator: DivergenceIndicator,
+    klineData: IKlineData[],
+  ): number[] {
+    const closes = klineData.map((k) => k.close);
+
+    switch (indicator) {
+      case 'RSI':
+        return MathUtil.calculateRSI(closes, RSI_PERIOD);
+      case 'MACD':
+        return MathUtil.calculateMACD(closes).histogram;
+      case 'OBV':
+        return MathUtil.calculateOBV(
+          closes,
+          klineData.map((k) => k.volume),
+        );
+    }
+  }
+
+  /**
+   * 计算背离置信度
+   * 常规背离基础分高于隐藏背离；指标反向幅度越大、价格偏离越明显、距今越近得分越高，
+   * RSI 在超买/超卖区形成的背离额外加分
+   */
+  private calculateConfidence(
+    indicator: DivergenceIndicator,
+    type: IDivergence['type'],
+    bias: IDivergence['bias'],
+    start: IDivergence['start'],
+    end: IDivergence['end'],
+    valueRange: number,
+    barsAgo: number,
+  ): number {
+    let confidence = type === 'REGULAR' ? 50 : 40;
+
+    const valueChange = Math.abs(end.indicatorValue - start.indicatorValue);
+    confidence += Math.min(valueChange / valueRange, 1) * 30;
+
+    const priceChange = Math.abs(end.price - start.price) / start.price;
+    confidence += Math.min(priceChange * 100, 2.5) * 4;
+
+    confidence -= Math.min(barsAgo, 20);
+
+    if (
+      indicator === 'RSI' &&
+      ((bias === 'BULLISH' && start.indicatorValue <= 35) ||
+        (bias === 'BEARISH' && start.indicatorValue >= 65))
+    ) {
+      confidence += 10;
+    }
+
+    return Math.round(Math.min(95, Math.max(0, confidence)));
+  }
+
+  private describe(
+    timeframe: TimeframeType,
+    indicator: DivergenceIndicator,
+    type: IDivergence['type'],
+    bias: IDivergence['bias'],
+    start: IDivergence['start'],
+    end: IDivergence['end'],
+  ): string {
+    const typeText = type === 'REGULAR' ? '常规' : '隐藏';
+    const biasText = bias === 'BULLISH' ? '看涨' : '看跌';
+    const swingText = bias === 'BULLISH' ? '低点' : '高点';
+    const name = INDICATOR_NAMES[indicator];
+
+    return `${timeframe} ${name}${typeText}${biasText}背离，价格${swingText} ${this.formatPrice(start.price)} → ${this.formatPrice(end.price)}，${name} ${this.formatValue(indicator, start.indicatorValue)} → ${this.formatValue(indicator, end.indicatorValue)}`;
+  }
+
+  private formatPrice(price: number): string {
+    return price >= 1 ? price.toFixed(2) : price.toPrecision(4);
+  }
+
+  private formatValue(indicator: DivergenceIndicator, value: number): string {
+    if (indicator === 'RSI') {
+      return value.toFixed(1);
+    }
+    return Math.abs(value) >= 1 ? value.toFixed(2) : value.toPrecision(3);
+  }
+}
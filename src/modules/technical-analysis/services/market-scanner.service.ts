@@ -0,0 +1,498 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { CCXTDataService } from 'src/modules/ccxt-analysis/services/ccxt-data.service';
+import { ITickerData } from 'src/modules/ccxt-analysis/interfaces';
+import { IMarketDataCollection } from 'src/shared/interfaces/analysis.interface';
+import { MarketScannerConfig } from 'src/config/market-scanner.config';
+import { MathUtil } from 'src/shared/utils/math.util';
+import {
+  IKlineData,
+  IMarketScanCandidate,
+  IMarketScanFilters,
+  IMarketScanMatch,
+  IMarketScanResult,
+  PatternBias,
+  ScanCriterion,
+  TimeframeType,
+} from '../interfaces';
+import { MultiTimeframeTrendService } from './multi-timeframe-trend.service';
+import { SupportResistanceService } from './support-resistance.service';
+
+export const SCAN_CRITERIA: ScanCriterion[] = [
+  'TREND_ALIGNMENT',
+  'RSI_EXTREME',
+  'NEAR_STRONG_LEVEL',
+  'VOLUME_SPIKE',
+];
+
+/** 不参与扫描的稳定币 */
+const STABLE_BASES = [
+  'USDC',
+  'FDUSD',
+  'TUSD',
+  'BUSD',
+  'DAI',
+  'USDP',
+  'USDE',
+  'EUR',
+  'AEUR',
+];
+
+/** 杠杆代币后缀 */
+const LEVERAGED_TOKEN_PATTERN = /(UP|DOWN|BULL|BEAR)$/;
+
+/** 每个时间周期获取的K线数量，趋势分析需要至少200根 */
+const KLINE_LIMIT = 200;
+
+/** 同时分析的交易对数量，避免触发交易所限频 */
+const SCAN_CONCURRENCY = 3;
+
+/** 放量判断使用的均量窗口 */
+const VOLUME_AVERAGE_WINDOW = 20;
+
+const RSI_PERIOD = 14;
+
+/**
+ * 市场扫描服务
+ * 定时筛选交易所中成交额达标的全部 USDT 交易对，
+ * 按多周期趋势一致、RSI 超买超卖、接近强支撑阻力位和放量等条件打分排序
+ */
+@Injectable()
+export class MarketScannerService {
+  private readonly logger = new Logger(MarketScannerService.name);
+  private readonly config: MarketScannerConfig;
+  private latestResult: IMarketScanResult | null = null;
+  private runningScan: Promise<IMarketScanResult> | null = null;
+
+  constructor(
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly multiTimeframeTrendService: MultiTimeframeTrendService,
+    private readonly supportResistanceService: SupportResistanceService,
+    private readonly configService: ConfigService,
+  ) {
+    this.config = this.configService.get<MarketScannerConfig>('marketScanner');
+  }
+
+  /**
+   * 定时扫描市场
+   */
+  @Cron('0 5 * * * *', {
+    name: 'market-scanner',
+    timeZone: 'Asia/Shanghai',
+  })
+  async scheduledScan(): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    try {
+      await this.scan();
+    } catch (error) {
+      this.logger.error(`定时市场扫描失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 获取最近一次扫描结果
+   */
+  getLatestResult(): IMarketScanResult | null {
+    return this.latestResult;
+  }
+
+  /**
+   * 执行市场扫描
+   * 已有扫描进行中时直接返回该次扫描的结果
+   * @param overrides 覆盖默认配置的筛选参数
+   */
+  async scan(
+    overrides: Partial<IMarketScanFilters> = {},
+  ): Promise<IMarketScanResult> {
+    if (this.runningScan) {
+      this.logger.warn('市场扫描正在进行中，返回当前扫描结果');
+      return this.runningScan;
+    }
+
+    const filters = this.resolveFilters(overrides);
+    this.runningScan = this.runScan(filters);
+
+    try {
+      this.latestResult = await this.runningScan;
+      return this.latestResult;
+    } finally {
+      this.runningScan = null;
+    }
+  }
+
+  private async runScan(
+    filters: IMarketScanFilters,
+  ): Promise<IMarketScanResult> {
+    const startTime = Date.now();
+    const exchange = this.config.exchange;
+
+    const universe = await this.selectUniverse(exchange, filters);
+    this.logger.log(
+      `开始市场扫描: ${exchange} ${universe.length} 个交易对，条件: ${filters.criteria.join(', ')}`,
+    );
+
+    const candidates: IMarketScanCandidate[] = [];
+    let failedCount = 0;
+
+    for (let i = 0; i < universe.length; i += SCAN_CONCURRENCY) {
+      const batch = universe.slice(i, i + SCAN_CONCURRENCY);
+      const results = await Promise.all(
+        batch.map(async (ticker) => {
+          try {
+            return await this.evaluateSymbol(ticker, exchange, filters);
+          } catch (error) {
+            failedCount++;
+            this.logger.warn(`扫描 ${ticker.symbol} 失败: ${error.message}`);
+            return null;
+          }
+        }),
+      );
+
+      candidates.push(...results.filter((candidate) => candidate !== null));
+    }
+
+    candidates.sort(
+      (a, b) =>
+        b.matches.length - a.matches.length ||
+        b.score - a.score ||
+        b.quoteVolume - a.quoteVolume,
+    );
+
+    const result: IMarketScanResult = {
+      exchange,
+      timestamp: Date.now(),
+      duration: Date.now() - startTime,
+      filters,
+      scannedCount: universe.length,
+      failedCount,
+      candidates,
+    };
+
+    this.logger.log(
+      `市场扫描完成: 扫描 ${universe.length} 个, 失败 ${failedCount} 个, 入选 ${candidates.length} 个, 耗时 ${result.duration}ms`,
+    );
+    return result;
+  }
+
+  /**
+   * 合并筛选参数，未指定的使用配置默认值
+   */
+  private resolveFilters(
+    overrides: Partial<IMarketScanFilters>,
+  ): IMarketScanFilters {
+    const criteria = (overrides.criteria || this.config.criteria).filter(
+      (criterion): criterion is ScanCriterion =>
+        SCAN_CRITERIA.includes(criterion as ScanCriterion),
+    );
+
+    if (criteria.length === 0) {
+      throw new BadRequestException(
+        `至少需要一个有效的扫描条件，可选值: ${SCAN_CRITERIA.join(', ')}`,
+      );
+    }
+
+    return {
+      criteria,
+      minMatches: Math.min(
+        overrides.minMatches ?? this.config.minMatches,
+        criteria.length,
+      ),
+      minQuoteVolume: overrides.minQuoteVolume ?? this.config.minQuoteVolume,
+      maxSymbols: overrides.maxSymbols ?? this.config.maxSymbols,
+      rsiOverbought: overrides.rsiOverbought ?? this.config.rsiOverbought,
+      rsiOversold: overrides.rsiOversold ?? this.config.rsiOversold,
+      levelProximityPercent:
+        overrides.levelProximityPercent ?? this.config.levelProximityPercent,
+      volumeSpikeRatio:
+        overrides.volumeSpikeRatio ?? this.config.volumeSpikeRatio,
+    };
+  }
+
+  /**
+   * 选出参与扫描的 USDT 交易对：排除稳定币和杠杆代币，按成交额降序截取
+   */
+  private async selectUniverse(
+    exchange: string,
+    filters: IMarketScanFilters,
+  ): Promise<ITickerData[]> {
+    const tickers = await this.ccxtDataService.getTickers(exchange);
+
+    return tickers
+      .filter((ticker) => {
+        const [base, quote] = ticker.symbol.split('/');
+        return (
+          quote === 'USDT' &&
+          !STABLE_BASES.includes(base) &&
+          !LEVERAGED_TOKEN_PATTERN.test(base) &&
+          ticker.last > 0 &&
+          ticker.quoteVolume >= filters.minQuoteVolume
+        );
+      })
+      .sort((a, b) => b.quoteVolume - a.quoteVolume)
+      .slice(0, filters.maxSymbols);
+  }
+
+  /**
+   * 按筛选条件评估单个交易对，满足条件数不足时返回 null
+   */
+  private async evaluateSymbol(
+    ticker: ITickerData,
+    exchange: string,
+    filters: IMarketScanFilters,
+  ): Promise<IMarketScanCandidate | null> {
+    const symbol = ticker.symbol.replace('/', '');
+    const needsAllTimeframes = filters.criteria.some(
+      (criterion) =>
+        criterion === 'TREND_ALIGNMENT' || criterion === 'NEAR_STRONG_LEVEL',
+    );
+    const timeframes: TimeframeType[] = needsAllTimeframes
+      ? ['1d', '4h', '1h', '15m']
+      : ['1h'];
+
+    const marketData = await this.fetchMarketData(symbol, exchange, timeframes);
+    const matches: IMarketScanMatch[] = [];
+
+    for (const criterion of filters.criteria) {
+      try {
+        const match = await this.evaluateCriterion(
+          criterion,
+          symbol,
+          marketData,
+          filters,
+        );
+        if (match) {
+          matches.push(match);
+        }
+      } catch (error) {
+        // 上市时间较短的交易对K线不足，单个条件失败时视为未命中
+        this.logger.debug(
+          `${symbol} ${criterion} 条件评估失败: ${error.message}`,
+        );
+      }
+    }
+
+    if (matches.length < filters.minMatches) {
+      return null;
+    }
+
+    return {
+      symbol,
+      price: ticker.last,
+      quoteVolume: ticker.quoteVolume,
+      changePercent: ticker.changePercent,
+      bias: this.resolveBias(matches),
+      score: Math.round(matches.reduce((sum, match) => sum + match.score, 0)),
+      matches,
+    };
+  }
+
+  private async fetchMarketData(
+    symbol: string,
+    exchange: string,
+    timeframes: TimeframeType[],
+  ): Promise<IMarketDataCollection> {
+    const marketData: IMarketDataCollection = {
+      symbol,
+      exchange,
+      timestamp: Date.now(),
+      timeframes: { '1d': [], '4h': [], '1h': [], '15m': [] },
+    };
+
+    const results = await Promise.all(
+      timeframes.map((timeframe) =>
+        this.ccxtDataService.getOHLCVData(
+          symbol,
+          timeframe,
+          KLINE_LIMIT,
+          exchange,
+        ),
+      ),
+    );
+    timeframes.forEach((timeframe, index) => {
+      marketData.timeframes[timeframe] = results[index];
+    });
+
+    return marketData;
+  }
+
+  private async evaluateCriterion(
+    criterion: ScanCriterion,
+    symbol: string,
+    marketData: IMarketDataCollection,
+    filters: IMarketScanFilters,
+  ): Promise<IMarketScanMatch | null> {
+    switch (criterion) {
+      case 'TREND_ALIGNMENT':
+        return this.checkTrendAlignment(symbol, marketData);
+      case 'RSI_EXTREME':
+        return this.checkRsiExtreme(marketData.timeframes['1h'], filters);
+      case 'NEAR_STRONG_LEVEL':
+        return this.checkStrongLevel(symbol, marketData, filters);
+      case 'VOLUME_SPIKE':
+        return this.checkVolumeSpike(marketData.timeframes['1h'], filters);
+    }
+  }
+
+  /**
+   * 多周期趋势一致且不是震荡
+   */
+  private async checkTrendAlignment(
+    symbol: string,
+    marketData: IMarketDataCollection,
+  ): Promise<IMarketScanMatch | null> {
+    const trend =
+      await this.multiTimeframeTrendService.analyzeMultiTimeframeTrendWithPrefetchedData(
+        symbol,
+        marketData,
+      );
+
+    if (!trend.trendAlignment.isAligned || trend.overallTrend === 'RANGING') {
+      return null;
+    }
+
+    const bias: PatternBias = trend.overallTrend.includes('UPTREND')
+      ? 'BULLISH'
+      : 'BEARISH';
+
+    return {
+      criterion: 'TREND_ALIGNMENT',
+      bias,
+      score:
+        (trend.trendAlignment.alignmentScore + trend.overallConfidence) / 2,
+      description: `多周期趋势一致: ${trend.overallTrend}（一致性 ${trend.trendAlignment.alignmentScore}）`,
+    };
+  }
+
+  /**
+   * 1小时 RSI 处于超买或超卖区
+   */
+  private checkRsiExtreme(
+    klineData: IKlineData[],
+    filters: IMarketScanFilters,
+  ): IMarketScanMatch | null {
+    const rsiValues = MathUtil.calculateRSI(
+      klineData.map((k) => k.close),
+      RSI_PERIOD,
+    );
+    if (rsiValues.length === 0) {
+      return null;
+    }
+
+    const rsi = rsiValues[rsiValues.length - 1];
+    const oversold = rsi <= filters.rsiOversold;
+    const overbought = rsi >= filters.rsiOverbought;
+    if (!oversold && !overbought) {
+      return null;
+    }
+
+    const excess = oversold
+      ? filters.rsiOversold - rsi
+      : rsi - filters.rsiOverbought;
+
+    return {
+      criterion: 'RSI_EXTREME',
+      bias: oversold ? 'BULLISH' : 'BEARISH',
+      score: Math.min(100, 60 + excess * 4),
+      description: `1h RSI ${rsi.toFixed(1)} ${oversold ? '超卖' : '超买'}`,
+    };
+  }
+
+  /**
+   * 价格接近强（STRONG/MAJOR）支撑或阻力位
+   */
+  private async checkStrongLevel(
+    symbol: string,
+    marketData: IMarketDataCollection,
+    filters: IMarketScanFilters,
+  ): Promise<IMarketScanMatch | null> {
+    const analysis =
+      await this.supportResistanceService.analyzeSupportResistanceWithPrefetchedData(
+        symbol,
+        marketData,
+      );
+
+    const levels = [
+      ...analysis.allLevels.supports,
+      ...analysis.allLevels.resistances,
+    ]
+      .filter(
+        (level) =>
+          (level.strength === 'STRONG' || level.strength === 'MAJOR') &&
+          Math.abs(level.distance) <= filters.levelProximityPercent,
+      )
+      .sort((a, b) => Math.abs(a.distance) - Math.abs(b.distance));
+
+    const level = levels[0];
+    if (!level) {
+      return null;
+    }
+
+    const isSupport = level.type === 'SUPPORT';
+    return {
+      criterion: 'NEAR_STRONG_LEVEL',
+      bias: isSupport ? 'BULLISH' : 'BEARISH',
+      score: level.confidence,
+      description: `接近${level.strength === 'MAJOR' ? '关键' : '强'}${isSupport ? '支撑' : '阻力'} ${level.priceRange.center.toPrecision(6)}（距离 ${Math.abs(level.distance).toFixed(2)}%）`,
+    };
+  }
+
+  /**
+   * 最近一根已收盘1小时K线成交量达到前 VOLUME_AVERAGE_WINDOW 根均量的倍数
+   */
+  private checkVolumeSpike(
+    klineData: IKlineData[],
+    filters: IMarketScanFilters,
+  ): IMarketScanMatch | null {
+    // 最后一根K线可能尚未收盘，使用倒数第二根
+    const closed = klineData.slice(0, -1);
+    if (closed.length < VOLUME_AVERAGE_WINDOW + 1) {
+      return null;
+    }
+
+    const last = closed[closed.length - 1];
+    const previous = closed.slice(-VOLUME_AVERAGE_WINDOW - 1, -1);
+    const averageVolume =
+      previous.reduce((sum, k) => sum + k.volume, 0) / previous.length;
+    if (averageVolume <= 0) {
+      return null;
+    }
+
+    const ratio = last.volume / averageVolume;
+    if (ratio < filters.volumeSpikeRatio) {
+      return null;
+    }
+
+    const bias: PatternBias =
+      last.close > last.open
+        ? 'BULLISH'
+        : last.close < last.open
+          ? 'BEARISH'
+          : 'NEUTRAL';
+
+    return {
+      criterion: 'VOLUME_SPIKE',
+      bias,
+      score: Math.min(100, (ratio / filters.volumeSpikeRatio) * 50),
+      description: `1h 放量 ${ratio.toFixed(1)} 倍（${bias === 'BULLISH' ? '阳线' : bias === 'BEARISH' ? '阴线' : '十字星'}）`,
+    };
+  }
+
+  /**
+   * 按命中条件的得分汇总方向
+   */
+  private resolveBias(matches: IMarketScanMatch[]): PatternBias {
+    const balance = matches.reduce((sum, match) => {
+      if (match.bias === 'BULLISH') return sum + match.score;
+      if (match.bias === 'BEARISH') return sum - match.score;
+      return sum;
+    }, 0);
+
+    if (balance > 0) return 'BULLISH';
+    if (balance < 0) return 'BEARISH';
+    return 'NEUTRAL';
+  }
+}
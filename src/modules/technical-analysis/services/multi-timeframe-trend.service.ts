@@ -9,6 +9,7 @@ import {
   IKlineData 
 } from '../interfaces';
 import { IMarketDataCollection } from 'src/shared/interfaces/analysis.interface';
+import { DivergenceService } from './divergence.service';
 
 /**
  * 多时间周期趋势分析服务
@@ -18,7 +19,10 @@ import { IMarketDataCollection } from 'src/shared/interfaces/analysis.interface'
 export class MultiTimeframeTrendService {
   private readonly logger = new Logger(MultiTimeframeTrendService.name);
 
-  constructor(private readonly ccxtDataService: CCXTDataService) {}
+  constructor(
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly divergenceService: DivergenceService,
+  ) {}
 
   /**
    * 分析多时间周期趋势 - 使用预获取数据的重载方法
@@ -183,7 +187,7 @@ export class MultiTimeframeTrendService {
       const trend = this.determineTrend(currentPrice, ema20, ema60, ema120, closePrices);
       const trendStrength = this.calculateTrendStrength(currentPrice, ema20, ema60, ema120, closePrices);
       const confidence = this.calculateTrendConfidence(trend, trendStrength, closePrices);
-      const divergence = this.detectDivergence(closePrices, ema20Values);
+      const divergence = this.detectDivergence(klineData, timeframe);
       const analysis = this.generateTrendAnalysis(trend, trendStrength, confidence, divergence, timeframe);
 
       return {
@@ -241,7 +245,7 @@ export class MultiTimeframeTrendService {
       const trend = this.determineTrend(currentPrice, ema20, ema60, ema120, closePrices);
       const trendStrength = this.calculateTrendStrength(currentPrice, ema20, ema60, ema120, closePrices);
       const confidence = this.calculateTrendConfidence(trend, trendStrength, closePrices);
-      const divergence = this.detectDivergence(closePrices, ema20Values);
+      const divergence = this.detectDivergence(klineData, timeframe);
       const analysis = this.generateTrendAnalysis(trend, trendStrength, confidence, divergence, timeframe);
 
       return {
@@ -381,7 +385,7 @@ export class MultiTimeframeTrendService {
 
     // 波动性调整
     const recent20 = priceHistory.slice(-20);
-    const volatility = this.calculateVolatility(recent20);
+    const volatility = MathUtil.calculateReturnVolatility(recent20);
     if (volatility < 0.02) {
       confidence += 10; // 低波动性增加置信度
     } else if (volatility > 0.05) {
@@ -392,34 +396,12 @@ export class MultiTimeframeTrendService {
   }
 
   /**
-   * 检测背离
+   * 检测背离：近期是否存在价格与 RSI/MACD/OBV 的常规背离
    */
-  private detectDivergence(priceHistory: number[], emaValues: number[]): boolean {
-    if (priceHistory.length < 20 || emaValues.length < 20) return false;
-
-    const recent20Prices = priceHistory.slice(-20);
-    const recent20EMA = emaValues.slice(-20);
-
-    // 简单背离检测：价格新高但EMA未创新高（或相反）
-    const priceHigh = Math.max(...recent20Prices);
-    const priceLow = Math.min(...recent20Prices);
-    const emaHigh = Math.max(...recent20EMA);
-    const emaLow = Math.min(...recent20EMA);
-
-    const lastPrice = recent20Prices[recent20Prices.length - 1];
-    const lastEMA = recent20EMA[recent20EMA.length - 1];
-
-    // 顶背离：价格接近高点，但EMA没有
-    if (lastPrice > priceHigh * 0.98 && lastEMA < emaHigh * 0.95) {
-      return true;
-    }
-
-    // 底背离：价格接近低点，但EMA没有
-    if (lastPrice < priceLow * 1.02 && lastEMA > emaLow * 1.05) {
-      return true;
-    }
-
-    return false;
+  private detectDivergence(klineData: IKlineData[], timeframe: TimeframeType): boolean {
+    return this.divergenceService
+      .detectDivergences(klineData, timeframe)
+      .some(divergence => divergence.type === 'REGULAR');
   }
 
   /**
@@ -544,16 +526,6 @@ export class MultiTimeframeTrendService {
     return (last - first) / first / values.length;
   }
 
-  private calculateVolatility(prices: number[]): number {
-    const returns = [];
-    for (let i = 1; i < prices.length; i++) {
-      returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-    }
-    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length;
-    return Math.sqrt(variance);
-  }
-
   private checkTrendAlignment(trends: TrendType[]): boolean {
     const uptrends = trends.filter(t => t.includes('UPTREND')).length;
     const downtrends = trends.filter(t => t.includes('DOWNTREND')).length;
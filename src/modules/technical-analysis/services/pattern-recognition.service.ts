@@ -0,0 +1,557 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PatternType, SignalType } from 'src/shared/enums';
+import { MathUtil } from 'src/shared/utils';
+import { IMarketDataCollection } from 'src/shared/interfaces/analysis.interface';
+import { IOHLCVData } from '../../ccxt-analysis/interfaces';
+import { IChartPattern, IPatternAnalysis, TimeframeType } from '../interfaces';
+
+/** 参与形态识别的时间周期 */
+const PATTERN_TIMEFRAMES: TimeframeType[] = ['1d', '4h', '1h'];
+
+/** 形态识别使用的K线数量 */
+const LOOKBACK = 120;
+
+/** 识别高低点的左右窗口 */
+const PIVOT_WINDOW = 4;
+
+/** 形态最后一个高低点距今的最大K线数，超过视为过时形态 */
+const MAX_PATTERN_AGE = 30;
+
+/** 箱体统计的K线数量 */
+const BOX_BARS = 30;
+
+/** 突破需要超出边界的比例 */
+const BREAKOUT_CONFIRM = 0.005;
+
+/**
+ * 图表形态识别服务
+ * 基于高低点和线性回归识别双顶/双底、头肩、箱体、突破和趋势线
+ */
+@Injectable()
+export class PatternRecognitionService {
+  private readonly logger = new Logger(PatternRecognitionService.name);
+
+  /**
+   * 识别形态 - 使用预获取数据
+   * @param symbol 交易对符号
+   * @param marketData 预获取的市场数据
+   */
+  analyzePatternsWithPrefetchedData(
+    symbol: string,
+    marketData: IMarketDataCollection,
+  ): IPatternAnalysis {
+    const patterns: IChartPattern[] = [];
+
+    for (const timeframe of PATTERN_TIMEFRAMES) {
+      const candles = marketData.timeframes[timeframe];
+      if (!candles || candles.length < PIVOT_WINDOW * 2 + BOX_BARS) {
+        continue;
+      }
+
+      try {
+        patterns.push(
+          ...this.detectPatterns(candles.slice(-LOOKBACK), timeframe),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `${symbol} ${timeframe} 形态识别失败: ${error.message}`,
+        );
+      }
+    }
+
+    patterns.sort((a, b) => b.confidence - a.confidence);
+    this.logger.log(`${symbol} 形态识别完成，发现 ${patterns.length} 个形态`);
+
+    return { symbol, timestamp: Date.now(), patterns };
+  }
+
+  /**
+   * 识别单个时间周期的所有形态
+   * @param candles K线数据（按时间升序）
+   * @param timeframe 时间周期
+   */
+  detectPatterns(
+    candles: IOHLCVData[],
+    timeframe: TimeframeType,
+  ): IChartPattern[] {
+    const detectors = [
+      () => this.detectDoubleTop(candles, timeframe),
+      () => this.detectDoubleBottom(candles, timeframe),
+      () => this.detectHeadShoulders(candles, timeframe, false),
+      () => this.detectHeadShoulders(candles, timeframe, true),
+      () => this.detectBox(candles, timeframe),
+      () => this.detectTrendLine(candles, timeframe, true),
+      () => this.detectTrendLine(candles, timeframe, false),
+    ];
+
+    return detectors
+      .map((detect) => detect())
+      .filter((pattern) => pattern !== null);
+  }
+
+  /**
+   * 双顶：两个相近的高点，中间回落形成颈线，跌破颈线确认
+   */
+  private detectDoubleTop(
+    candles: IOHLCVData[],
+    timeframe: TimeframeType,
+  ): IChartPattern | null {
+    const { peaks } = this.findPivots(
+      candles.map((c) => c.high),
+      PIVOT_WINDOW,
+    );
+    if (peaks.length < 2) {
+      return null;
+    }
+
+    const [first, second] = peaks.slice(-2);
+    const last = candles[candles.length - 1];
+    const high1 = candles[first].high;
+    const high2 = candles[second].high;
+    const peakLevel = Math.max(high1, high2);
+    const peakDiff = Math.abs(high1 - high2) / peakLevel;
+
+    if (
+      candles.length - 1 - second > MAX_PATTERN_AGE ||
+      second - first < PIVOT_WINDOW ||
+      peakDiff > 0.015
+    ) {
+      return null;
+    }
+
+    // 第二个高点之后价格创出新高，形态失效
+    if (candles.slice(second + 1).some((c) => c.high > peakLevel)) {
+      return null;
+    }
+
+    const neckline = Math.min(
+      ...candles.slice(first, second + 1).map((c) => c.low),
+    );
+    const height = (high1 + high2) / 2 - neckline;
+    const depth = height / peakLevel;
+    if (depth < 0.02) {
+      return null;
+    }
+
+    const confirmed = last.close < neckline;
+    const progress = this.clamp(
+      ((high1 + high2) / 2 - last.close) / height,
+      0,
+      1,
+    );
+
+    return {
+      type: PatternType.DOUBLE_TOP,
+      timeframe,
+      bias: 'BEARISH',
+      signal: confirmed ? SignalType.SELL : SignalType.HOLD,
+      status: confirmed ? 'CONFIRMED' : 'FORMING',
+      confidence: this.score(
+        55 +
+          (1 - peakDiff / 0.015) * 15 +
+          Math.min(10, depth * 100) +
+          (confirmed ? 15 : 0),
+      ),
+      completion: confirmed ? 100 : Math.round(50 + progress * 45),
+      startTime: candles[first].timestamp,
+      endTime: last.timestamp,
+      keyLevels: { neckline, upperBoundary: peakLevel },
+      target: neckline - height,
+      description: `${timeframe} 双顶，顶部 ${this.formatPrice(peakLevel)}，颈线 ${this.formatPrice(neckline)}${confirmed ? '，已跌破颈线' : ''}`,
+    };
+  }
+
+  /**
+   * 双底：两个相近的低点，中间反弹形成颈线，突破颈线确认
+   */
+  private detectDoubleBottom(
+    candles: IOHLCVData[],
+    timeframe: TimeframeType,
+  ): IChartPattern | null {
+    const { valleys } = this.findPivots(
+      candles.map((c) => c.low),
+      PIVOT_WINDOW,
+    );
+    if (valleys.length < 2) {
+      return null;
+    }
+
+    const [first, second] = valleys.slice(-2);
+    const last = candles[candles.length - 1];
+    const low1 = candles[first].low;
+    const low2 = candles[second].low;
+    const bottomLevel = Math.min(low1, low2);
+    const bottomDiff = Math.abs(low1 - low2) / bottomLevel;
+
+    if (
+      candles.length - 1 - second > MAX_PATTERN_AGE ||
+      second - first < PIVOT_WINDOW ||
+      bottomDiff > 0.015
+    ) {
+      return null;
+    }
+
+    // 第二个低点之后价格创出新低，形态失效
+    if (candles.slice(second + 1).some((c) => c.low < bottomLevel)) {
+      return null;
+    }
+
+    const neckline = Math.max(
+      ...candles.slice(first, second + 1).map((c) => c.high),
+    );
+    const height = neckline - (low1 + low2) / 2;
+    const depth = height / neckline;
+    if (depth < 0.02) {
+      return null;
+    }
+
+    const confirmed = last.close > neckline;
+    const progress = this.clamp(
+      (last.close - (low1 + low2) / 2) / height,
+      0,
+      1,
+    );
+
+    return {
+      type: PatternType.DOUBLE_BOTTOM,
+      timeframe,
+      bias: 'BULLISH',
+      signal: confirmed ? SignalType.BUY : SignalType.HOLD,
+      status: confirmed ? 'CONFIRMED' : 'FORMING',
+      confidence: this.score(
+        55 +
+          (1 - bottomDiff / 0.015) * 15 +
+          Math.min(10, depth * 100) +
+          (confirmed ? 15 : 0),
+      ),
+      completion: confirmed ? 100 : Math.round(50 + progress * 45),
+      startTime: candles[first].timestamp,
+      endTime: last.timestamp,
+      keyLevels: { neckline, lowerBoundary: bottomLevel },
+      target: neckline + height,
+      description: `${timeframe} 双底，底部 ${this.formatPrice(bottomLevel)}，颈线 ${this.formatPrice(neckline)}${confirmed ? '，已突破颈线' : ''}`,
+    };
+  }
+
+  /**
+   * 头肩顶 / 头肩底
+   * 三个高点（低点）中间最高（最低），两肩高度相近，颈线由两肩之间的低点（高点）连线得到
+   * @param inverse true 表示头肩底
+   */
+  private detectHeadShoulders(
+    candles: IOHLCVData[],
+    timeframe: TimeframeType,
+    inverse: boolean,
+  ): IChartPattern | null {
+    const values = candles.map((c) => (inverse ? -c.low : c.high));
+    const { peaks } = this.findPivots(values, PIVOT_WINDOW);
+    if (peaks.length < 3) {
+      return null;
+    }
+
+    const [left, head, right] = peaks.slice(-3);
+    const last = candles[candles.length - 1];
+    const leftPrice = Math.abs(values[left]);
+    const headPrice = Math.abs(values[head]);
+    const rightPrice = Math.abs(values[right]);
+
+    if (candles.length - 1 - right > MAX_PATTERN_AGE) {
+      return null;
+    }
+
+    // 头部需明显高于（低于）两肩，两肩高度相近
+    const headProminence = inverse
+      ? (Math.min(leftPrice, rightPrice) - headPrice) / headPrice
+      : (headPrice - Math.max(leftPrice, rightPrice)) / headPrice;
+    const shoulderDiff =
+      Math.abs(leftPrice - rightPrice) / Math.max(leftPrice, rightPrice);
+    if (headProminence < 0.02 || shoulderDiff > 0.03) {
+      return null;
+    }
+
+    // 右肩之后突破头部，形态失效
+    const invalidated = candles
+      .slice(right + 1)
+      .some((c) => (inverse ? c.low < headPrice : c.high > headPrice));
+    if (invalidated) {
+      return null;
+    }
+
+    // 颈线：两肩与头部之间的反向极值点连线
+    const pivotBetween = (from: number, to: number) => {
+      let index = from;
+      for (let i = from; i <= to; i++) {
+        const better = inverse
+          ? candles[i].high > candles[index].high
+          : candles[i].low < candles[index].low;
+        if (better) {
+          index = i;
+        }
+      }
+      return {
+        index,
+        price: inverse ? candles[index].high : candles[index].low,
+      };
+    };
+    const point1 = pivotBetween(left, head);
+    const point2 = pivotBetween(head, right);
+    const regression = MathUtil.calculateLinearRegression(
+      [point1.index, point2.index],
+      [point1.price, point2.price],
+    );
+    const necklineAt = (index: number) =>
+      regression.slope * index + regression.intercept;
+    const neckline = necklineAt(candles.length - 1);
+    const height = Math.abs(headPrice - necklineAt(head));
+
+    const confirmed = inverse ? last.close > neckline : last.close < neckline;
+    const progress = this.clamp(
+      inverse
+        ? (last.close - rightPrice) / (neckline - rightPrice)
+        : (rightPrice - last.close) / (rightPrice - neckline),
+      0,
+      1,
+    );
+
+    return {
+      type: PatternType.HEAD_SHOULDERS,
+      timeframe,
+      bias: inverse ? 'BULLISH' : 'BEARISH',
+      signal: confirmed
+        ? inverse
+          ? SignalType.BUY
+          : SignalType.SELL
+        : SignalType.HOLD,
+      status: confirmed ? 'CONFIRMED' : 'FORMING',
+      confidence: this.score(
+        60 +
+          Math.min(10, headProminence * 200) +
+          (1 - shoulderDiff / 0.03) * 10 +
+          (confirmed ? 15 : 0),
+      ),
+      completion: confirmed ? 100 : Math.round(60 + progress * 35),
+      startTime: candles[left].timestamp,
+      endTime: last.timestamp,
+      keyLevels: inverse
+        ? { neckline, lowerBoundary: headPrice }
+        : { neckline, upperBoundary: headPrice },
+      target: inverse ? neckline + height : neckline - height,
+      description: `${timeframe} ${inverse ? '头肩底' : '头肩顶'}，头部 ${this.formatPrice(headPrice)}，颈线 ${this.formatPrice(neckline)}${confirmed ? (inverse ? '，已突破颈线' : '，已跌破颈线') : ''}`,
+    };
+  }
+
+  /**
+   * 箱体 / 箱体突破
+   * 最近一段K线横向震荡且上下沿各至少触及两次；最新收盘突破边界时识别为突破形态
+   */
+  private detectBox(
+    candles: IOHLCVData[],
+    timeframe: TimeframeType,
+  ): IChartPattern | null {
+    const last = candles[candles.length - 1];
+    const box = candles.slice(-(BOX_BARS + 1), -1);
+    const top = Math.max(...box.map((c) => c.high));
+    const bottom = Math.min(...box.map((c) => c.low));
+    const height = top - bottom;
+    const width = height / bottom;
+    if (width < 0.02 || width > 0.2) {
+      return null;
+    }
+
+    // 收盘价的回归斜率需足够平缓
+    const closes = box.map((c) => c.close);
+    const { slope } = MathUtil.calculateLinearRegression(
+      closes.map((_, i) => i),
+      closes,
+    );
+    const drift = Math.abs(slope * box.length) / bottom;
+    if (drift > width * 0.5) {
+      return null;
+    }
+
+    const { peaks } = this.findPivots(
+      box.map((c) => c.high),
+      2,
+    );
+    const { valleys } = this.findPivots(
+      box.map((c) => c.low),
+      2,
+    );
+    const topTouches = peaks.filter(
+      (i) => box[i].high >= top - height * 0.15,
+    ).length;
+    const bottomTouches = valleys.filter(
+      (i) => box[i].low <= bottom + height * 0.15,
+    ).length;
+    if (topTouches < 2 || bottomTouches < 2) {
+      return null;
+    }
+
+    const base = {
+      timeframe,
+      startTime: box[0].timestamp,
+      endTime: last.timestamp,
+      keyLevels: { upperBoundary: top, lowerBoundary: bottom },
+    };
+    const touchScore = Math.min(15, (topTouches + bottomTouches - 4) * 5);
+
+    if (last.close > top * (1 + BREAKOUT_CONFIRM)) {
+      return {
+        ...base,
+        type: PatternType.BREAKOUT_UP,
+        bias: 'BULLISH',
+        signal: SignalType.BUY,
+        status: 'CONFIRMED',
+        confidence: this.score(65 + touchScore),
+        completion: 100,
+        keyLevels: { ...base.keyLevels, breakoutLevel: top },
+        target: top + height,
+        description: `${timeframe} 向上突破箱体 ${this.formatPrice(bottom)} - ${this.formatPrice(top)}`,
+      };
+    }
+
+    if (last.close < bottom * (1 - BREAKOUT_CONFIRM)) {
+      return {
+        ...base,
+        type: PatternType.BREAKOUT_DOWN,
+        bias: 'BEARISH',
+        signal: SignalType.SELL,
+        status: 'CONFIRMED',
+        confidence: this.score(65 + touchScore),
+        completion: 100,
+        keyLevels: { ...base.keyLevels, breakoutLevel: bottom },
+        target: bottom - height,
+        description: `${timeframe} 向下跌破箱体 ${this.formatPrice(bottom)} - ${this.formatPrice(top)}`,
+      };
+    }
+
+    return {
+      ...base,
+      type: PatternType.BOX,
+      bias: 'NEUTRAL',
+      signal: SignalType.HOLD,
+      status: 'FORMING',
+      confidence: this.score(55 + touchScore),
+      completion: Math.min(100, (topTouches + bottomTouches) * 20),
+      description: `${timeframe} 箱体震荡 ${this.formatPrice(bottom)} - ${this.formatPrice(top)}，上沿触及 ${topTouches} 次，下沿触及 ${bottomTouches} 次`,
+    };
+  }
+
+  /**
+   * 趋势线：连接最近的低点（上升支撑线）或高点（下降阻力线）
+   * 至少三个点且线性回归 R² ≥ 0.8 才视为有效趋势线
+   * @param ascending true 为上升支撑线，false 为下降阻力线
+   */
+  private detectTrendLine(
+    candles: IOHLCVData[],
+    timeframe: TimeframeType,
+    ascending: boolean,
+  ): IChartPattern | null {
+    const values = candles.map((c) => (ascending ? c.low : c.high));
+    const { peaks, valleys } = this.findPivots(values, PIVOT_WINDOW);
+    const pivots = (ascending ? valleys : peaks).slice(-4);
+    if (
+      pivots.length < 3 ||
+      candles.length - 1 - pivots[pivots.length - 1] > MAX_PATTERN_AGE
+    ) {
+      return null;
+    }
+
+    const regression = MathUtil.calculateLinearRegression(
+      pivots,
+      pivots.map((i) => values[i]),
+    );
+    if (
+      !isFinite(regression.r2) ||
+      regression.r2 < 0.8 ||
+      (ascending ? regression.slope <= 0 : regression.slope >= 0)
+    ) {
+      return null;
+    }
+
+    const last = candles[candles.length - 1];
+    const lineNow =
+      regression.slope * (candles.length - 1) + regression.intercept;
+    const broken = ascending
+      ? last.close < lineNow * (1 - BREAKOUT_CONFIRM)
+      : last.close > lineNow * (1 + BREAKOUT_CONFIRM);
+    const nearLine = Math.abs(last.close - lineNow) / lineNow <= 0.02;
+
+    let signal = SignalType.HOLD;
+    if (broken) {
+      signal = ascending ? SignalType.SELL : SignalType.BUY;
+    } else if (nearLine) {
+      signal = ascending ? SignalType.BUY : SignalType.SELL;
+    }
+
+    const lineName = ascending ? '上升支撑线' : '下降阻力线';
+    return {
+      type: PatternType.TREND_LINE,
+      timeframe,
+      bias: ascending !== broken ? 'BULLISH' : 'BEARISH',
+      signal,
+      status: broken ? 'CONFIRMED' : 'FORMING',
+      confidence: this.score(
+        50 + regression.r2 * 25 + (pivots.length - 3) * 5 + (broken ? 10 : 0),
+      ),
+      completion: broken ? 100 : Math.round(regression.r2 * 100),
+      startTime: candles[pivots[0]].timestamp,
+      endTime: last.timestamp,
+      keyLevels: ascending
+        ? {
+            lowerBoundary: lineNow,
+            breakoutLevel: broken ? lineNow : undefined,
+          }
+        : {
+            upperBoundary: lineNow,
+            breakoutLevel: broken ? lineNow : undefined,
+          },
+      description: `${timeframe} ${lineName}（${pivots.length} 点，R²=${regression.r2.toFixed(2)}），当前位于 ${this.formatPrice(lineNow)}${broken ? (ascending ? '，已跌破' : '，已突破') : ''}`,
+    };
+  }
+
+  /**
+   * 识别高低点，并合并平台上相邻的重复高低点（保留最极端的一个）
+   */
+  private findPivots(
+    values: number[],
+    window = PIVOT_WINDOW,
+  ): { peaks: number[]; valleys: number[] } {
+    const { peaks, valleys } = MathUtil.findPeaksAndValleys(values, window);
+    const merge = (
+      indices: number[],
+      better: (a: number, b: number) => boolean,
+    ) =>
+      indices.reduce<number[]>((result, index) => {
+        const prev = result[result.length - 1];
+        if (prev !== undefined && index - prev <= window) {
+          if (better(values[index], values[prev])) {
+            result[result.length - 1] = index;
+          }
+        } else {
+          result.push(index);
+        }
+        return result;
+      }, []);
+
+    return {
+      peaks: merge(peaks, (a, b) => a > b),
+      valleys: merge(valleys, (a, b) => a < b),
+    };
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    if (!isFinite(value)) {
+      return min;
+    }
+    return Math.min(max, Math.max(min, value));
+  }
+
+  private score(value: number): number {
+    return Math.round(this.clamp(value, 0, 95));
+  }
+
+  private formatPrice(price: number): string {
+    return price >= 1 ? price.toFixed(2) : price.toPrecision(4);
+  }
+}
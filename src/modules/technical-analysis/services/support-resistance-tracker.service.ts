@@ -0,0 +1,321 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, SupportResistanceLevel } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  ISupportResistanceAnalysis,
+  ISupportResistanceLevel,
+  ISupportResistanceLevelDetails,
+  ISupportResistanceLevelView,
+  SupportResistanceType,
+  TimeframeType,
+} from '../interfaces';
+import { SupportResistanceHistoryQueryDto } from '../dto';
+
+/** 需要持久化跟踪的时间周期（15分钟级别变化过快，不做持久化） */
+const TRACKED_TIMEFRAMES: TimeframeType[] = ['1d', '4h', '1h'];
+
+/** 计算位置与已存储位置匹配的最小价格容差 */
+const MATCH_TOLERANCE = 0.003;
+
+/** 收盘价超出区域边界该比例视为有效突破 */
+const BREAK_THRESHOLD = 0.01;
+
+/**
+ * 支撑阻力位跟踪服务
+ * 将每次分析计算出的支撑阻力位写入 SupportResistanceLevel 表，
+ * 并跟踪触及次数、有效突破和支撑/阻力角色转换
+ */
+@Injectable()
+export class SupportResistanceTrackerService {
+  private readonly logger = new Logger(SupportResistanceTrackerService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 同步一次分析结果
+   * 1. 根据当前价格更新已存储位置的触及与突破状态
+   * 2. 将本次计算出的位置合并到已存储位置中（新增、更新或记录角色转换）
+   * @param rawSymbol 交易对符号
+   * @param analysis 支撑阻力位分析结果
+   */
+  async syncLevels(
+    rawSymbol: string,
+    analysis: ISupportResistanceAnalysis,
+  ): Promise<void> {
+    const symbol = rawSymbol.toUpperCase();
+    const now = new Date(analysis.timestamp);
+    const price = analysis.currentPrice;
+    const stored = await this.prisma.supportResistanceLevel.findMany({
+      where: { symbol, timeframe: { in: TRACKED_TIMEFRAMES } },
+    });
+
+    let touched = 0;
+    let broken = 0;
+    for (const record of stored.filter((level) => level.isActive)) {
+      const result = await this.trackPrice(record, price, now);
+      if (result === 'TOUCHED') touched++;
+      if (result === 'BROKEN') broken++;
+    }
+
+    const computed = [
+      ...analysis.allLevels.supports,
+      ...analysis.allLevels.resistances,
+    ].filter((level) => TRACKED_TIMEFRAMES.includes(level.timeframe));
+
+    let created = 0;
+    let flipped = 0;
+    const matchedIds = new Set<string>();
+    for (const level of computed) {
+      const candidates = stored.filter(
+        (record) =>
+          record.timeframe === level.timeframe &&
+          !matchedIds.has(record.id) &&
+          this.matches(record, level),
+      );
+      // 优先匹配同类型位置；只有已被有效突破的位置才允许转换角色，
+      // 避免价格在位置附近来回波动时反复记录转换
+      const match =
+        candidates.find((record) => record.levelType === level.type) ||
+        candidates.find((record) => !record.isActive);
+
+      if (!match && candidates.length > 0) {
+        continue;
+      }
+
+      if (!match) {
+        await this.createLevel(symbol, level, price);
+        created++;
+        continue;
+      }
+
+      matchedIds.add(match.id);
+      if (match.levelType !== level.type) {
+        flipped++;
+      }
+      await this.mergeLevel(match, level, price, now);
+    }
+
+    this.logger.debug(
+      `${symbol} 支撑阻力位同步完成: 新增 ${created}，触及 ${touched}，突破 ${broken}，转换 ${flipped}`,
+    );
+  }
+
+  /**
+   * 查询交易对的支撑阻力位历史
+   * @param symbol 交易对符号
+   * @param query 查询条件
+   */
+  async findHistory(
+    symbol: string,
+    query: SupportResistanceHistoryQueryDto = {},
+  ): Promise<ISupportResistanceLevelView[]> {
+    const where: Prisma.SupportResistanceLevelWhereInput = {
+      symbol: symbol.toUpperCase(),
+    };
+    if (query.timeframe) where.timeframe = query.timeframe;
+    if (query.levelType) where.levelType = query.levelType;
+    if (query.includeInactive === 'false') where.isActive = true;
+
+    const records = await this.prisma.supportResistanceLevel.findMany({
+      where,
+      orderBy: [{ isActive: 'desc' }, { price: 'desc' }],
+    });
+
+    return records.map((record) => this.toView(record));
+  }
+
+  /**
+   * 根据当前价格更新位置的触及和突破状态
+   * 价格从区域外进入区域内计为一次触及，收盘价有效越过区域视为突破并失效
+   */
+  private async trackPrice(
+    record: SupportResistanceLevel,
+    price: number,
+    now: Date,
+  ): Promise<'TOUCHED' | 'BROKEN' | null> {
+    const details = this.parseDetails(record);
+    const zone = this.getZone(record, details);
+    const inZone = price >= zone.min && price <= zone.max;
+    const isBroken =
+      record.levelType === 'SUPPORT'
+        ? price < zone.min * (1 - BREAK_THRESHOLD)
+        : price > zone.max * (1 + BREAK_THRESHOLD);
+
+    if (isBroken) {
+      details.inZone = false;
+      details.breaks.push({
+        levelType: record.levelType as SupportResistanceType,
+        price,
+        at: now.getTime(),
+      });
+      await this.prisma.supportResistanceLevel.update({
+        where: { id: record.id },
+        data: { isActive: false, details: JSON.stringify(details) },
+      });
+      record.isActive = false;
+      record.details = JSON.stringify(details);
+      return 'BROKEN';
+    }
+
+    if (inZone === details.inZone) {
+      return null;
+    }
+
+    const entered = inZone && !details.inZone;
+    details.inZone = inZone;
+    const updated = await this.prisma.supportResistanceLevel.update({
+      where: { id: record.id },
+      data: {
+        details: JSON.stringify(details),
+        ...(entered && { touches: { increment: 1 }, lastTouch: now }),
+      },
+    });
+    Object.assign(record, updated);
+    return entered ? 'TOUCHED' : null;
+  }
+
+  /**
+   * 新增位置
+   */
+  private async createLevel(
+    symbol: string,
+    level: ISupportResistanceLevel,
+    price: number,
+  ): Promise<void> {
+    const details: ISupportResistanceLevelDetails = {
+      priceRange: level.priceRange,
+      strength: level.strength,
+      description: level.description,
+      inZone: price >= level.priceRange.min && price <= level.priceRange.max,
+      flips: [],
+      breaks: [],
+    };
+
+    await this.prisma.supportResistanceLevel.create({
+      data: {
+        symbol,
+        timeframe: level.timeframe,
+        levelType: level.type,
+        price: level.priceRange.center,
+        strength: level.confidence,
+        touches: Math.max(1, level.touchCount),
+        lastTouch: level.lastTouch ? new Date(level.lastTouch) : null,
+        isActive: true,
+        details: JSON.stringify(details),
+      },
+    });
+  }
+
+  /**
+   * 合并本次计算结果到已存储位置
+   * 类型不同时记录角色转换，已失效的位置被重新识别时恢复有效
+   */
+  private async mergeLevel(
+    record: SupportResistanceLevel,
+    level: ISupportResistanceLevel,
+    price: number,
+    now: Date,
+  ): Promise<void> {
+    const details = this.parseDetails(record);
+    if (record.levelType !== level.type) {
+      details.flips.push({
+        from: record.levelType as SupportResistanceType,
+        to: level.type,
+        price,
+        at: now.getTime(),
+      });
+      this.logger.log(
+        `${record.symbol} ${record.timeframe} ${Number(record.price)} 由${record.levelType === 'SUPPORT' ? '支撑' : '阻力'}转为${level.type === 'SUPPORT' ? '支撑' : '阻力'}`,
+      );
+    }
+
+    details.priceRange = level.priceRange;
+    details.strength = level.strength;
+    details.description = level.description;
+
+    const lastTouch =
+      level.lastTouch &&
+      (!record.lastTouch || level.lastTouch > record.lastTouch.getTime())
+        ? new Date(level.lastTouch)
+        : record.lastTouch;
+
+    await this.prisma.supportResistanceLevel.update({
+      where: { id: record.id },
+      data: {
+        levelType: level.type,
+        strength: level.confidence,
+        touches: Math.max(record.touches, level.touchCount),
+        lastTouch,
+        isActive: true,
+        details: JSON.stringify(details),
+      },
+    });
+  }
+
+  /**
+   * 判断计算出的位置是否与已存储位置为同一价位
+   */
+  private matches(
+    record: SupportResistanceLevel,
+    level: ISupportResistanceLevel,
+  ): boolean {
+    const storedPrice = Number(record.price);
+    const { min, max, center } = level.priceRange;
+    const tolerance = Math.max((max - min) / 2, center * MATCH_TOLERANCE);
+    return Math.abs(storedPrice - center) <= tolerance;
+  }
+
+  private getZone(
+    record: SupportResistanceLevel,
+    details: ISupportResistanceLevelDetails,
+  ): { min: number; max: number } {
+    if (details.priceRange) {
+      return details.priceRange;
+    }
+    const price = Number(record.price);
+    return {
+      min: price * (1 - MATCH_TOLERANCE),
+      max: price * (1 + MATCH_TOLERANCE),
+    };
+  }
+
+  private parseDetails(
+    record: SupportResistanceLevel,
+  ): ISupportResistanceLevelDetails {
+    let parsed: Partial<ISupportResistanceLevelDetails> = {};
+    try {
+      parsed = record.details ? JSON.parse(record.details) : {};
+    } catch {
+      this.logger.warn(`支撑阻力位 ${record.id} 详细信息解析失败`);
+    }
+
+    return {
+      priceRange: parsed.priceRange,
+      strength: parsed.strength,
+      description: parsed.description || '',
+      inZone: parsed.inZone ?? false,
+      flips: parsed.flips || [],
+      breaks: parsed.breaks || [],
+    };
+  }
+
+  private toView(record: SupportResistanceLevel): ISupportResistanceLevelView {
+    const details = this.parseDetails(record);
+    return {
+      id: record.id,
+      symbol: record.symbol,
+      timeframe: record.timeframe,
+      levelType: record.levelType as SupportResistanceType,
+      price: Number(record.price),
+      strength: Number(record.strength),
+      touches: record.touches,
+      lastTouch: record.lastTouch,
+      isActive: record.isActive,
+      priceRange: details.priceRange || null,
+      flips: details.flips,
+      breaks: details.breaks,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -1,14 +1,34 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { CCXTDataService } from 'src/modules/ccxt-analysis/services/ccxt-data.service';
 import { 
+  IAtrData,
   ISupportResistanceAnalysis, 
   ISupportResistanceLevel, 
   TimeframeType, 
   SupportResistanceType, 
   LevelStrength,
+  LevelSource,
   IKlineData 
 } from '../interfaces';
 import { IMarketDataCollection } from 'src/shared/interfaces/analysis.interface';
+import { MathUtil } from 'src/shared/utils/math.util';
+import { VolumeProfileService } from './volume-profile.service';
+
+/** ATR计算周期 */
+const ATR_PERIOD = 14;
+
+/** 支撑阻力区间半宽 = 所属时间周期ATR × 该系数 */
+const ZONE_ATR_MULTIPLIER = 0.25;
+
+/** 相近位置合并容差 = 两个位置所属时间周期中较大的ATR × 该系数 */
+const CLUSTER_ATR_MULTIPLIER = 0.5;
+
+/** 不同识别方法的位置权重系数，成交量分布位置最受信任 */
+const SOURCE_WEIGHTS: Record<LevelSource, number> = {
+  SWING: 1,
+  VOLUME: 0.8,
+  VOLUME_PROFILE: 1.5,
+};
 
 /**
  * 支撑阻力位分析服务
@@ -18,7 +38,10 @@ import { IMarketDataCollection } from 'src/shared/interfaces/analysis.interface'
 export class SupportResistanceService {
   private readonly logger = new Logger(SupportResistanceService.name);
 
-  constructor(private readonly ccxtDataService: CCXTDataService) {}
+  constructor(
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly volumeProfileService: VolumeProfileService,
+  ) {}
 
   /**
    * 分析支撑阻力位 - 使用预获取数据的重载方法
@@ -45,27 +68,41 @@ export class SupportResistanceService {
 
       const currentPrice = data15m[data15m.length - 1].close;
 
+      // 计算各时间周期的ATR，用于按波动率缩放区间宽度
+      const atr = this.calculateAtrByTimeframe(
+        { '15m': data15m, '1h': data1h, '4h': data4h, '1d': data1d },
+        currentPrice,
+      );
+
       // 从不同时间周期识别支撑阻力位
       const allLevels: ISupportResistanceLevel[] = [];
 
       // 日线级别的关键位置 (权重最高)
-      const dailyLevels = this.identifyLevelsFromKlineData(data1d, '1d', currentPrice);
+      const dailyLevels = this.identifyLevelsFromKlineData(data1d, '1d', currentPrice, atr['1d']?.value);
       allLevels.push(...dailyLevels);
 
       // 4小时级别
-      const h4Levels = this.identifyLevelsFromKlineData(data4h, '4h', currentPrice);
+      const h4Levels = this.identifyLevelsFromKlineData(data4h, '4h', currentPrice, atr['4h']?.value);
       allLevels.push(...h4Levels);
 
       // 1小时级别
-      const h1Levels = this.identifyLevelsFromKlineData(data1h, '1h', currentPrice);
+      const h1Levels = this.identifyLevelsFromKlineData(data1h, '1h', currentPrice, atr['1h']?.value);
       allLevels.push(...h1Levels);
 
       // 15分钟级别 (近期精确位置)
-      const m15Levels = this.identifyLevelsFromKlineData(data15m, '15m', currentPrice);
+      const m15Levels = this.identifyLevelsFromKlineData(data15m, '15m', currentPrice, atr['15m']?.value);
       allLevels.push(...m15Levels);
 
+      // 成交量分布 (控制点、价值区域边界和高成交量节点)
+      const volumeProfile = this.identifyVolumeProfileLevels(
+        { '15m': data15m, '1h': data1h, '4h': data4h, '1d': data1d },
+        currentPrice,
+        atr,
+      );
+      allLevels.push(...volumeProfile.levels);
+
       // 合并和过滤重复的位置
-      const consolidatedLevels = this.consolidateLevels(allLevels, currentPrice);
+      const consolidatedLevels = this.consolidateLevels(allLevels, currentPrice, atr);
 
       // 按类型分组
       const supports = consolidatedLevels.filter(level => level.type === 'SUPPORT');
@@ -78,7 +115,7 @@ export class SupportResistanceService {
       const currentPosition = this.analyzeCurrentPosition(supports, resistances, currentPrice);
 
       // 生成交易区间
-      const tradingZones = this.generateTradingZones(supports, resistances, currentPrice);
+      const tradingZones = this.generateTradingZones(supports, resistances, currentPrice, atr);
 
       const result: ISupportResistanceAnalysis = {
         symbol,
@@ -89,6 +126,8 @@ export class SupportResistanceService {
           supports: supports.sort((a, b) => b.priceRange.center - a.priceRange.center),
           resistances: resistances.sort((a, b) => a.priceRange.center - b.priceRange.center),
         },
+        atr,
+        volumeProfile: volumeProfile.summaries,
         currentPosition,
         tradingZones,
       };
@@ -123,27 +162,41 @@ export class SupportResistanceService {
       const [data15m, data1h, data4h, data1d] = await Promise.all(klineDataPromises);
       const currentPrice = data15m[data15m.length - 1].close;
 
+      // 计算各时间周期的ATR，用于按波动率缩放区间宽度
+      const atr = this.calculateAtrByTimeframe(
+        { '15m': data15m, '1h': data1h, '4h': data4h, '1d': data1d },
+        currentPrice,
+      );
+
       // 从不同时间周期识别支撑阻力位
       const allLevels: ISupportResistanceLevel[] = [];
 
       // 日线级别的关键位置 (权重最高)
-      const dailyLevels = this.identifyLevelsFromKlineData(data1d, '1d', currentPrice);
+      const dailyLevels = this.identifyLevelsFromKlineData(data1d, '1d', currentPrice, atr['1d']?.value);
       allLevels.push(...dailyLevels);
 
       // 4小时级别
-      const h4Levels = this.identifyLevelsFromKlineData(data4h, '4h', currentPrice);
+      const h4Levels = this.identifyLevelsFromKlineData(data4h, '4h', currentPrice, atr['4h']?.value);
       allLevels.push(...h4Levels);
 
       // 1小时级别
-      const h1Levels = this.identifyLevelsFromKlineData(data1h, '1h', currentPrice);
+      const h1Levels = this.identifyLevelsFromKlineData(data1h, '1h', currentPrice, atr['1h']?.value);
       allLevels.push(...h1Levels);
 
       // 15分钟级别 (近期精确位置)
-      const m15Levels = this.identifyLevelsFromKlineData(data15m, '15m', currentPrice);
+      const m15Levels = this.identifyLevelsFromKlineData(data15m, '15m', currentPrice, atr['15m']?.value);
       allLevels.push(...m15Levels);
 
+      // 成交量分布 (控制点、价值区域边界和高成交量节点)
+      const volumeProfile = this.identifyVolumeProfileLevels(
+        { '15m': data15m, '1h': data1h, '4h': data4h, '1d': data1d },
+        currentPrice,
+        atr,
+      );
+      allLevels.push(...volumeProfile.levels);
+
       // 合并和过滤重复的位置
-      const consolidatedLevels = this.consolidateLevels(allLevels, currentPrice);
+      const consolidatedLevels = this.consolidateLevels(allLevels, currentPrice, atr);
 
       // 按类型分组
       const supports = consolidatedLevels.filter(level => level.type === 'SUPPORT');
@@ -156,7 +209,7 @@ export class SupportResistanceService {
       const currentPosition = this.analyzeCurrentPosition(supports, resistances, currentPrice);
 
       // 生成交易区间
-      const tradingZones = this.generateTradingZones(supports, resistances, currentPrice);
+      const tradingZones = this.generateTradingZones(supports, resistances, currentPrice, atr);
 
       const result: ISupportResistanceAnalysis = {
         symbol,
@@ -167,6 +220,8 @@ export class SupportResistanceService {
           supports: supports.sort((a, b) => b.priceRange.center - a.priceRange.center),
           resistances: resistances.sort((a, b) => a.priceRange.center - b.priceRange.center),
         },
+        atr,
+        volumeProfile: volumeProfile.summaries,
         currentPosition,
         tradingZones,
       };
@@ -180,6 +235,65 @@ export class SupportResistanceService {
     }
   }
 
+  /**
+   * 计算各时间周期的ATR
+   * K线数量不足时该周期不返回ATR，区间宽度回退到基于收益率波动的计算
+   */
+  private calculateAtrByTimeframe(
+    klineDataByTimeframe: Record<TimeframeType, any[]>,
+    currentPrice: number,
+  ): Partial<Record<TimeframeType, IAtrData>> {
+    const result: Partial<Record<TimeframeType, IAtrData>> = {};
+
+    for (const [timeframe, klineData] of Object.entries(klineDataByTimeframe) as [TimeframeType, any[]][]) {
+      const atrValues = MathUtil.calculateATR(
+        klineData.map(k => k.high),
+        klineData.map(k => k.low),
+        klineData.map(k => k.close),
+        ATR_PERIOD,
+      );
+      if (atrValues.length === 0) continue;
+
+      const value = atrValues[atrValues.length - 1];
+      result[timeframe] = {
+        timeframe,
+        period: ATR_PERIOD,
+        value,
+        percent: (value / currentPrice) * 100,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * 基于各时间周期的成交量分布识别支撑阻力位
+   */
+  private identifyVolumeProfileLevels(
+    klineDataByTimeframe: Record<TimeframeType, any[]>,
+    currentPrice: number,
+    atr: Partial<Record<TimeframeType, IAtrData>>,
+  ): {
+    levels: ISupportResistanceLevel[];
+    summaries: ISupportResistanceAnalysis['volumeProfile'];
+  } {
+    const levels: ISupportResistanceLevel[] = [];
+    const summaries: ISupportResistanceAnalysis['volumeProfile'] = {};
+
+    for (const [timeframe, klineData] of Object.entries(klineDataByTimeframe) as [TimeframeType, any[]][]) {
+      const profile = this.volumeProfileService.buildProfile(klineData, timeframe);
+      if (!profile) continue;
+
+      levels.push(...this.volumeProfileService.toLevels(profile, currentPrice, atr[timeframe]?.value));
+      // 分析结果只保留概要，不返回完整的价格分箱
+      const summary = { ...profile };
+      delete summary.bins;
+      summaries[timeframe] = summary;
+    }
+
+    return { levels, summaries };
+  }
+
   /**
    * 从K线数据识别支撑阻力位
    */
@@ -187,6 +301,7 @@ export class SupportResistanceService {
     klineData: any[],
     timeframe: TimeframeType,
     currentPrice: number,
+    atr?: number,
   ): ISupportResistanceLevel[] {
     const levels: ISupportResistanceLevel[] = [];
 
@@ -196,18 +311,18 @@ export class SupportResistanceService {
 
     // 从摆动高点创建阻力位
     swingHighs.forEach(high => {
-      const level = this.createResistanceLevel(high, klineData, timeframe, currentPrice);
+      const level = this.createResistanceLevel(high, klineData, timeframe, currentPrice, atr);
       if (level) levels.push(level);
     });
 
     // 从摆动低点创建支撑位
     swingLows.forEach(low => {
-      const level = this.createSupportLevel(low, klineData, timeframe, currentPrice);
+      const level = this.createSupportLevel(low, klineData, timeframe, currentPrice, atr);
       if (level) levels.push(level);
     });
 
     // 基于成交量的关键位置
-    const volumeLevels = this.identifyVolumeLevels(klineData, timeframe, currentPrice);
+    const volumeLevels = this.identifyVolumeLevels(klineData, timeframe, currentPrice, atr);
     levels.push(...volumeLevels);
 
     return levels;
@@ -281,15 +396,16 @@ export class SupportResistanceService {
     klineData: any[],
     timeframe: TimeframeType,
     currentPrice: number,
+    atr?: number,
   ): ISupportResistanceLevel | null {
     const price = swingHigh.price;
     
     // 只考虑在当前价格之上的阻力位
     if (price <= currentPrice * 1.001) return null;
 
-    // 计算价格区间（考虑波动性）
+    // 计算价格区间（按ATR缩放，无ATR时使用收益率波动）
     const volatility = this.calculateVolatility(klineData);
-    const range = price * volatility * 0.5;
+    const range = atr ? atr * ZONE_ATR_MULTIPLIER : price * volatility * 0.5;
 
     // 计算触及次数和强度
     const touchCount = this.countTouches(klineData, price, range, 'RESISTANCE');
@@ -312,6 +428,7 @@ export class SupportResistanceService {
       distance: ((price - currentPrice) / currentPrice) * 100,
       isActive: this.isLevelActive(price, currentPrice, klineData),
       timeframe,
+      source: 'SWING',
       description: this.generateLevelDescription('RESISTANCE', price, touchCount, strength, timeframe),
     };
   }
@@ -324,15 +441,16 @@ export class SupportResistanceService {
     klineData: any[],
     timeframe: TimeframeType,
     currentPrice: number,
+    atr?: number,
   ): ISupportResistanceLevel | null {
     const price = swingLow.price;
     
     // 只考虑在当前价格之下的支撑位
     if (price >= currentPrice * 0.999) return null;
 
-    // 计算价格区间（考虑波动性）
+    // 计算价格区间（按ATR缩放，无ATR时使用收益率波动）
     const volatility = this.calculateVolatility(klineData);
-    const range = price * volatility * 0.5;
+    const range = atr ? atr * ZONE_ATR_MULTIPLIER : price * volatility * 0.5;
 
     // 计算触及次数和强度
     const touchCount = this.countTouches(klineData, price, range, 'SUPPORT');
@@ -355,6 +473,7 @@ export class SupportResistanceService {
       distance: ((currentPrice - price) / currentPrice) * 100,
       isActive: this.isLevelActive(price, currentPrice, klineData),
       timeframe,
+      source: 'SWING',
       description: this.generateLevelDescription('SUPPORT', price, touchCount, strength, timeframe),
     };
   }
@@ -366,6 +485,7 @@ export class SupportResistanceService {
     klineData: any[],
     timeframe: TimeframeType,
     currentPrice: number,
+    atr?: number,
   ): ISupportResistanceLevel[] {
     const levels: ISupportResistanceLevel[] = [];
 
@@ -383,12 +503,12 @@ export class SupportResistanceService {
 
       if (highPrice > currentPrice * 1.005) {
         // 阻力位
-        levels.push(this.createVolumeLevelResistance(candle, timeframe, currentPrice));
+        levels.push(this.createVolumeLevelResistance(candle, timeframe, currentPrice, atr));
       }
 
       if (lowPrice < currentPrice * 0.995) {
         // 支撑位
-        levels.push(this.createVolumeLevelSupport(candle, timeframe, currentPrice));
+        levels.push(this.createVolumeLevelSupport(candle, timeframe, currentPrice, atr));
       }
     });
 
@@ -398,9 +518,9 @@ export class SupportResistanceService {
   /**
    * 创建基于成交量的阻力位
    */
-  private createVolumeLevelResistance(candle: any, timeframe: TimeframeType, currentPrice: number): ISupportResistanceLevel {
+  private createVolumeLevelResistance(candle: any, timeframe: TimeframeType, currentPrice: number, atr?: number): ISupportResistanceLevel {
     const price = candle.high;
-    const range = price * 0.005; // 0.5% 范围
+    const range = atr ? atr * ZONE_ATR_MULTIPLIER : price * 0.005; // 无ATR时使用 0.5% 范围
 
     return {
       type: 'RESISTANCE',
@@ -416,6 +536,7 @@ export class SupportResistanceService {
       distance: ((price - currentPrice) / currentPrice) * 100,
       isActive: true,
       timeframe,
+      source: 'VOLUME',
       description: `${timeframe}成交量异常区域阻力位 ${price.toFixed(5)}`,
     };
   }
@@ -423,9 +544,9 @@ export class SupportResistanceService {
   /**
    * 创建基于成交量的支撑位
    */
-  private createVolumeLevelSupport(candle: any, timeframe: TimeframeType, currentPrice: number): ISupportResistanceLevel {
+  private createVolumeLevelSupport(candle: any, timeframe: TimeframeType, currentPrice: number, atr?: number): ISupportResistanceLevel {
     const price = candle.low;
-    const range = price * 0.005; // 0.5% 范围
+    const range = atr ? atr * ZONE_ATR_MULTIPLIER : price * 0.005; // 无ATR时使用 0.5% 范围
 
     return {
       type: 'SUPPORT',
@@ -441,21 +562,30 @@ export class SupportResistanceService {
       distance: ((currentPrice - price) / currentPrice) * 100,
       isActive: true,
       timeframe,
+      source: 'VOLUME',
       description: `${timeframe}成交量异常区域支撑位 ${price.toFixed(5)}`,
     };
   }
 
   /**
    * 合并相近的支撑阻力位
+   * 合并容差按两个位置所属时间周期的ATR缩放，无ATR时使用 1% 容忍度
    */
-  private consolidateLevels(levels: ISupportResistanceLevel[], currentPrice: number): ISupportResistanceLevel[] {
+  private consolidateLevels(
+    levels: ISupportResistanceLevel[],
+    currentPrice: number,
+    atr: Partial<Record<TimeframeType, IAtrData>> = {},
+  ): ISupportResistanceLevel[] {
     const consolidated: ISupportResistanceLevel[] = [];
-    const tolerance = currentPrice * 0.01; // 1% 容忍度
+    const getTolerance = (a: ISupportResistanceLevel, b: ISupportResistanceLevel): number => {
+      const atrValue = Math.max(atr[a.timeframe]?.value || 0, atr[b.timeframe]?.value || 0);
+      return atrValue > 0 ? atrValue * CLUSTER_ATR_MULTIPLIER : currentPrice * 0.01;
+    };
 
     levels.forEach(level => {
       const existing = consolidated.find(existing => 
         existing.type === level.type &&
-        Math.abs(existing.priceRange.center - level.priceRange.center) < tolerance
+        Math.abs(existing.priceRange.center - level.priceRange.center) < getTolerance(existing, level)
       );
 
       if (existing) {
@@ -483,6 +613,11 @@ export class SupportResistanceService {
     existing.touchCount += newLevel.touchCount;
     existing.confidence = Math.min(existing.confidence + 10, 100);
     
+    // 与成交量分布位置重合的位置按成交量分布位置加权
+    if (newLevel.source === 'VOLUME_PROFILE') {
+      existing.source = 'VOLUME_PROFILE';
+    }
+
     // 更新强度
     if (newLevel.strength === 'MAJOR' || existing.strength === 'MAJOR') {
       existing.strength = 'MAJOR';
@@ -498,7 +633,7 @@ export class SupportResistanceService {
     const timeframeWeights = { '1d': 4, '4h': 3, '1h': 2, '15m': 1 };
     const strengthWeights = { 'MAJOR': 4, 'STRONG': 3, 'MEDIUM': 2, 'WEAK': 1 };
     
-    return timeframeWeights[level.timeframe] * strengthWeights[level.strength];
+    return timeframeWeights[level.timeframe] * strengthWeights[level.strength] * (SOURCE_WEIGHTS[level.source] ?? 1);
   }
 
   /**
@@ -578,12 +713,15 @@ export class SupportResistanceService {
     supports: ISupportResistanceLevel[],
     resistances: ISupportResistanceLevel[],
     currentPrice: number,
+    atr: Partial<Record<TimeframeType, IAtrData>> = {},
   ) {
     const buyZones = supports
       .filter(s => s.strength !== 'WEAK' && s.confidence > 60)
       .map(s => ({
         priceRange: { min: s.priceRange.min, max: s.priceRange.max },
         strength: s.strength,
+        timeframe: s.timeframe,
+        atr: atr[s.timeframe]?.value ?? null,
         reason: `${s.timeframe}级别${s.strength}支撑位`,
       }));
 
@@ -592,6 +730,8 @@ export class SupportResistanceService {
       .map(r => ({
         priceRange: { min: r.priceRange.min, max: r.priceRange.max },
         strength: r.strength,
+        timeframe: r.timeframe,
+        atr: atr[r.timeframe]?.value ?? null,
         reason: `${r.timeframe}级别${r.strength}阻力位`,
       }));
 
@@ -600,16 +740,7 @@ export class SupportResistanceService {
 
   // 辅助方法
   private calculateVolatility(klineData: any[]): number {
-    const returns = [];
-    for (let i = 1; i < klineData.length; i++) {
-      const prevClose = klineData[i - 1].close;
-      const currClose = klineData[i].close;
-      returns.push((currClose - prevClose) / prevClose);
-    }
-
-    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length;
-    return Math.sqrt(variance);
+    return MathUtil.calculateReturnVolatility(klineData.map(k => k.close));
   }
 
   private countTouches(klineData: any[], price: number, range: number, type: SupportResistanceType): number {
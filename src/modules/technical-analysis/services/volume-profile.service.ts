@@ -0,0 +1,393 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { CCXTDataService } from 'src/modules/ccxt-analysis/services/ccxt-data.service';
+import {
+  IKlineData,
+  ISupportResistanceLevel,
+  IVolumeNode,
+  IVolumeProfile,
+  IVolumeProfileAnalysis,
+  IVolumeProfileBin,
+  IVolumeProfileOptions,
+  LevelStrength,
+  TimeframeType,
+} from '../interfaces';
+
+const DEFAULT_LOOKBACK = 200;
+const DEFAULT_BINS = 50;
+const DEFAULT_VALUE_AREA_PERCENT = 70;
+
+/** 高成交量节点：局部峰值且成交量不低于平均分箱的该倍数 */
+const HVN_THRESHOLD = 1.5;
+
+/** 低成交量节点：局部谷值且成交量不高于平均分箱的该倍数 */
+const LVN_THRESHOLD = 0.5;
+
+/** 各时间周期控制点的强度，周期越大越重要 */
+const POC_STRENGTH: Record<TimeframeType, LevelStrength> = {
+  '1d': 'MAJOR',
+  '4h': 'MAJOR',
+  '1h': 'STRONG',
+  '15m': 'STRONG',
+};
+
+/**
+ * 成交量分布服务
+ * 将回看区间内的成交量按价格分箱，计算控制点（POC）、价值区域（VAH/VAL）
+ * 以及高/低成交量节点，并转换为支撑阻力位
+ */
+@Injectable()
+export class VolumeProfileService {
+  private readonly logger = new Logger(VolumeProfileService.name);
+
+  constructor(private readonly ccxtDataService: CCXTDataService) {}
+
+  /**
+   * 获取交易对多个时间周期的成交量分布
+   * @param symbol 交易对符号
+   * @param timeframes 时间周期
+   * @param options 分布参数
+   * @param exchange 交易所名称
+   */
+  async analyzeVolumeProfile(
+    symbol: string,
+    timeframes: TimeframeType[] = ['1d', '4h', '1h', '15m'],
+    options: IVolumeProfileOptions = {},
+    exchange: string = 'binance',
+  ): Promise<IVolumeProfileAnalysis> {
+    const lookback = Number(options.lookback) || DEFAULT_LOOKBACK;
+    this.validateOptions({ ...options, lookback });
+
+    const klineData = await Promise.all(
+      timeframes.map((tf) =>
+        this.ccxtDataService.getOHLCVData(symbol, tf, lookback, exchange),
+      ),
+    );
+
+    const profiles: IVolumeProfileAnalysis['profiles'] = {};
+    timeframes.forEach((tf, index) => {
+      const profile = this.buildProfile(klineData[index], tf, options);
+      if (profile) {
+        profiles[tf] = profile;
+      }
+    });
+
+    const shortest = klineData[klineData.length - 1];
+    const currentPrice = shortest[shortest.length - 1]?.close || 0;
+
+    this.logger.log(
+      `${symbol} 成交量分布计算完成: ${Object.keys(profiles).join(', ')}`,
+    );
+
+    return {
+      symbol,
+      currentPrice,
+      timestamp: Date.now(),
+      profiles,
+    };
+  }
+
+  /**
+   * 计算单个时间周期的成交量分布
+   * 每根K线的成交量按其最高-最低价区间均匀分配到覆盖的价格分箱中
+   * @param klineData K线数据
+   * @param timeframe 时间周期
+   * @param options 分布参数
+   */
+  buildProfile(
+    klineData: IKlineData[],
+    timeframe: TimeframeType,
+    options: IVolumeProfileOptions = {},
+  ): IVolumeProfile | null {
+    const lookback = Number(options.lookback) || DEFAULT_LOOKBACK;
+    const binCount = Number(options.bins) || DEFAULT_BINS;
+    const valueAreaPercent =
+      Number(options.valueAreaPercent) || DEFAULT_VALUE_AREA_PERCENT;
+
+    const candles = klineData.slice(-lookback);
+    if (candles.length === 0) {
+      return null;
+    }
+
+    const priceLow = Math.min(...candles.map((k) => k.low));
+    const priceHigh = Math.max(...candles.map((k) => k.high));
+    const totalVolume = candles.reduce((sum, k) => sum + k.volume, 0);
+    if (priceHigh <= priceLow || totalVolume <= 0) {
+      return null;
+    }
+
+    const binSize = (priceHigh - priceLow) / binCount;
+    const bins: IVolumeProfileBin[] = Array.from(
+      { length: binCount },
+      (_, i) => ({
+        priceLow: priceLow + binSize * i,
+        priceHigh: priceLow + binSize * (i + 1),
+        priceCenter: priceLow + binSize * (i + 0.5),
+        volume: 0,
+        buyVolume: 0,
+        sellVolume: 0,
+        percent: 0,
+      }),
+    );
+
+    for (const candle of candles) {
+      const isBuy = candle.close >= candle.open;
+      const first = this.getBinIndex(candle.low, priceLow, binSize, binCount);
+      const last = this.getBinIndex(candle.high, priceLow, binSize, binCount);
+      const range = candle.high - candle.low;
+
+      for (let i = first; i <= last; i++) {
+        // 十字星等无波动K线的成交量全部计入所在分箱
+        const overlap =
+          range > 0
+            ? (Math.min(candle.high, bins[i].priceHigh) -
+                Math.max(candle.low, bins[i].priceLow)) /
+              range
+            : 1 / (last - first + 1);
+        const volume = candle.volume * Math.max(overlap, 0);
+        bins[i].volume += volume;
+        if (isBuy) {
+          bins[i].buyVolume += volume;
+        } else {
+          bins[i].sellVolume += volume;
+        }
+      }
+    }
+
+    bins.forEach((bin) => {
+      bin.percent = (bin.volume / totalVolume) * 100;
+    });
+
+    const pocIndex = bins.reduce(
+      (best, bin, i) => (bin.volume > bins[best].volume ? i : best),
+      0,
+    );
+    const valueArea = this.calculateValueArea(
+      bins,
+      pocIndex,
+      totalVolume,
+      valueAreaPercent,
+    );
+    const { highVolumeNodes, lowVolumeNodes } = this.findVolumeNodes(
+      bins,
+      pocIndex,
+      totalVolume / binCount,
+    );
+
+    return {
+      timeframe,
+      lookback: candles.length,
+      startTime: candles[0].timestamp,
+      endTime: candles[candles.length - 1].timestamp,
+      priceLow,
+      priceHigh,
+      binSize,
+      totalVolume,
+      poc: {
+        price: bins[pocIndex].priceCenter,
+        volume: bins[pocIndex].volume,
+        percent: bins[pocIndex].percent,
+      },
+      valueArea,
+      highVolumeNodes,
+      lowVolumeNodes,
+      bins,
+    };
+  }
+
+  /**
+   * 将成交量分布转换为支撑阻力位
+   * 控制点、价值区域边界和高成交量节点作为位置，低成交量节点是价格快速穿过的区域，不作为位置
+   * @param profile 成交量分布
+   * @param currentPrice 当前价格
+   * @param atr 该时间周期的ATR，用于确定区间宽度
+   */
+  toLevels(
+    profile: IVolumeProfile,
+    currentPrice: number,
+    atr?: number,
+  ): ISupportResistanceLevel[] {
+    const halfWidth = Math.max(profile.binSize / 2, atr ? atr * 0.25 : 0);
+    const candidates: Array<{
+      price: number;
+      strength: LevelStrength;
+      percent: number;
+      label: string;
+    }> = [
+      {
+        price: profile.poc.price,
+        strength: POC_STRENGTH[profile.timeframe],
+        percent: profile.poc.percent,
+        label: '控制点(POC)',
+      },
+      {
+        price: profile.valueArea.high,
+        strength: 'STRONG',
+        percent: profile.valueArea.percent,
+        label: '价值区域上沿(VAH)',
+      },
+      {
+        price: profile.valueArea.low,
+        strength: 'STRONG',
+        percent: profile.valueArea.percent,
+        label: '价值区域下沿(VAL)',
+      },
+      ...profile.highVolumeNodes.map((node) => ({
+        price: node.price,
+        strength: 'MEDIUM' as LevelStrength,
+        percent: node.percent,
+        label: '高成交量节点(HVN)',
+      })),
+    ];
+
+    return candidates
+      .filter(
+        (candidate) =>
+          Math.abs(candidate.price - currentPrice) / currentPrice > 0.001,
+      )
+      .map((candidate) => {
+        const type = candidate.price < currentPrice ? 'SUPPORT' : 'RESISTANCE';
+        // 控制点和价值区域边界的置信度较高，节点按成交量占比加成
+        const confidence = Math.min(
+          candidate.label.includes('HVN')
+            ? 55 + candidate.percent * 5
+            : 70 + (candidate.strength === 'MAJOR' ? 15 : 5),
+          95,
+        );
+
+        return {
+          type,
+          priceRange: {
+            min: candidate.price - halfWidth,
+            max: candidate.price + halfWidth,
+            center: candidate.price,
+          },
+          strength: candidate.strength,
+          confidence: Math.round(confidence),
+          touchCount: 1,
+          lastTouch: profile.endTime,
+          distance:
+            (Math.abs(candidate.price - currentPrice) / currentPrice) * 100,
+          isActive: true,
+          timeframe: profile.timeframe,
+          source: 'VOLUME_PROFILE',
+          description: `${profile.timeframe}成交量分布${candidate.label}${type === 'SUPPORT' ? '支撑' : '阻力'} ${candidate.price.toFixed(5)}`,
+        } as ISupportResistanceLevel;
+      });
+  }
+
+  /**
+   * 从控制点向两侧扩展，每次纳入成交量较大的一侧，直到达到指定占比
+   */
+  private calculateValueArea(
+    bins: IVolumeProfileBin[],
+    pocIndex: number,
+    totalVolume: number,
+    valueAreaPercent: number,
+  ): IVolumeProfile['valueArea'] {
+    const target = totalVolume * (valueAreaPercent / 100);
+    let low = pocIndex;
+    let high = pocIndex;
+    let volume = bins[pocIndex].volume;
+
+    while (volume < target && (low > 0 || high < bins.length - 1)) {
+      const below = low > 0 ? bins[low - 1].volume : -1;
+      const above = high < bins.length - 1 ? bins[high + 1].volume : -1;
+
+      if (above >= below) {
+        high++;
+        volume += bins[high].volume;
+      } else {
+        low--;
+        volume += bins[low].volume;
+      }
+    }
+
+    return {
+      high: bins[high].priceHigh,
+      low: bins[low].priceLow,
+      percent: (volume / totalVolume) * 100,
+    };
+  }
+
+  /**
+   * 查找高/低成交量节点（分箱成交量的局部峰值和谷值）
+   */
+  private findVolumeNodes(
+    bins: IVolumeProfileBin[],
+    pocIndex: number,
+    averageVolume: number,
+  ): { highVolumeNodes: IVolumeNode[]; lowVolumeNodes: IVolumeNode[] } {
+    const highVolumeNodes: IVolumeNode[] = [];
+    const lowVolumeNodes: IVolumeNode[] = [];
+
+    for (let i = 1; i < bins.length - 1; i++) {
+      const bin = bins[i];
+      const prev = bins[i - 1].volume;
+      const next = bins[i + 1].volume;
+
+      if (
+        i !== pocIndex &&
+        bin.volume >= prev &&
+        bin.volume >= next &&
+        bin.volume >= averageVolume * HVN_THRESHOLD
+      ) {
+        highVolumeNodes.push(this.toNode('HVN', bin));
+      } else if (
+        bin.volume <= prev &&
+        bin.volume <= next &&
+        bin.volume <= averageVolume * LVN_THRESHOLD
+      ) {
+        lowVolumeNodes.push(this.toNode('LVN', bin));
+      }
+    }
+
+    return {
+      highVolumeNodes: highVolumeNodes.sort((a, b) => b.volume - a.volume),
+      lowVolumeNodes: lowVolumeNodes.sort((a, b) => a.volume - b.volume),
+    };
+  }
+
+  private toNode(
+    type: IVolumeNode['type'],
+    bin: IVolumeProfileBin,
+  ): IVolumeNode {
+    return {
+      type,
+      price: bin.priceCenter,
+      priceRange: { min: bin.priceLow, max: bin.priceHigh },
+      volume: bin.volume,
+      percent: bin.percent,
+    };
+  }
+
+  private getBinIndex(
+    price: number,
+    priceLow: number,
+    binSize: number,
+    binCount: number,
+  ): number {
+    return Math.min(
+      Math.max(Math.floor((price - priceLow) / binSize), 0),
+      binCount - 1,
+    );
+  }
+
+  private validateOptions(options: IVolumeProfileOptions): void {
+    if (options.lookback < 20 || options.lookback > 1000) {
+      throw new BadRequestException('回看K线数量必须在 20-1000 之间');
+    }
+    if (
+      options.bins !== undefined &&
+      (Number(options.bins) < 10 || Number(options.bins) > 200)
+    ) {
+      throw new BadRequestException('价格分箱数量必须在 10-200 之间');
+    }
+    if (
+      options.valueAreaPercent !== undefined &&
+      (Number(options.valueAreaPercent) <= 0 ||
+        Number(options.valueAreaPercent) > 100)
+    ) {
+      throw new BadRequestException('价值区域占比必须在 0-100 之间');
+    }
+  }
+}
@@ -1,16 +1,25 @@
-import { Controller, Post, Body, Logger } from '@nestjs/common';
+import { Controller, Post, Get, Body, Param, Query, Logger } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { MultiTimeframeTrendService } from './services/multi-timeframe-trend.service';
 import { SupportResistanceService } from './services/support-resistance.service';
 import { CoreTechnicalAnalysisService } from './services/core-technical-analysis.service';
+import { SupportResistanceTrackerService } from './services/support-resistance-tracker.service';
+import { VolumeProfileService } from './services/volume-profile.service';
+import { DivergenceService } from './services/divergence.service';
+import { MarketScannerService } from './services/market-scanner.service';
 import { 
   TechnicalAnalysisRequestDto,
   MultiTimeframeTrendRequestDto,
   SupportResistanceRequestDto,
   MultiTimeframeTrendResponseDto,
   SupportResistanceAnalysisResponseDto,
-  TechnicalAnalysisResponseDto
+  TechnicalAnalysisResponseDto,
+  SupportResistanceHistoryQueryDto,
+  VolumeProfileRequestDto,
+  DivergenceRequestDto,
+  MarketScanRequestDto
 } from './dto';
+import { TimeframeType } from './interfaces';
 
 /**
  * 技术分析控制器
@@ -25,6 +34,10 @@ export class TechnicalAnalysisController {
     private readonly multiTimeframeTrendService: MultiTimeframeTrendService,
     private readonly supportResistanceService: SupportResistanceService,
     private readonly coreTechnicalAnalysisService: CoreTechnicalAnalysisService,
+    private readonly supportResistanceTrackerService: SupportResistanceTrackerService,
+    private readonly volumeProfileService: VolumeProfileService,
+    private readonly divergenceService: DivergenceService,
+    private readonly marketScannerService: MarketScannerService,
   ) {}
 
   /**
@@ -87,6 +100,104 @@ export class TechnicalAnalysisController {
     }
   }
 
+  /**
+   * 支撑阻力位历史
+   */
+  @Get('support-resistance/:symbol/history')
+  @ApiOperation({ summary: '查询支撑阻力位历史（触及次数、突破、角色转换）' })
+  async getSupportResistanceHistory(
+    @Param('symbol') symbol: string,
+    @Query() query: SupportResistanceHistoryQueryDto,
+  ) {
+    return this.supportResistanceTrackerService.findHistory(symbol, query);
+  }
+
+  /**
+   * 成交量分布
+   */
+  @Post('volume-profile')
+  @ApiOperation({ summary: '成交量分布（控制点、价值区域、高/低成交量节点）' })
+  @ApiResponse({
+    status: 200,
+    description: '返回各时间周期的价格分箱成交量、POC、VAH/VAL 和成交量节点',
+  })
+  async analyzeVolumeProfile(@Body() body: VolumeProfileRequestDto) {
+    this.logger.log(`收到成交量分布请求: ${JSON.stringify(body)}`);
+
+    const { symbol, exchange = 'binance', timeframes, lookback, bins, valueAreaPercent } = body;
+
+    try {
+      return await this.volumeProfileService.analyzeVolumeProfile(
+        symbol,
+        timeframes as TimeframeType[],
+        { lookback, bins, valueAreaPercent },
+        exchange,
+      );
+    } catch (error) {
+      this.logger.error(`成交量分布计算失败: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 背离识别
+   */
+  @Post('divergence')
+  @ApiOperation({ summary: '背离识别（RSI、MACD柱、OBV 的常规/隐藏背离）' })
+  @ApiResponse({
+    status: 200,
+    description: '返回各时间周期的背离及对应的两个高低点时间、价格和指标值',
+  })
+  async analyzeDivergence(@Body() body: DivergenceRequestDto) {
+    this.logger.log(`收到背离识别请求: ${JSON.stringify(body)}`);
+
+    const { symbol, exchange = 'binance', timeframes } = body;
+
+    try {
+      return await this.divergenceService.analyzeDivergences(
+        symbol,
+        timeframes as TimeframeType[],
+        exchange,
+      );
+    } catch (error) {
+      this.logger.error(`背离识别失败: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 最近一次市场扫描结果
+   */
+  @Get('scanner')
+  @ApiOperation({ summary: '获取最近一次市场扫描结果' })
+  @ApiResponse({
+    status: 200,
+    description: '返回定时或手动扫描得到的候选交易对，尚未扫描时返回 null',
+  })
+  getLatestScan() {
+    return this.marketScannerService.getLatestResult();
+  }
+
+  /**
+   * 执行市场扫描
+   */
+  @Post('scanner')
+  @ApiOperation({ summary: '扫描全部 USDT 交易对（趋势一致、RSI 极值、接近强支撑阻力、放量）' })
+  @ApiResponse({
+    status: 200,
+    description: '返回按命中条件数和得分排序的候选交易对',
+  })
+  async runScan(@Body() body: MarketScanRequestDto) {
+    this.logger.log(`收到市场扫描请求: ${JSON.stringify(body)}`);
+
+    try {
+      return await this.marketScannerService.scan(body);
+    } catch (error) {
+      this.logger.error(`市场扫描失败: ${error.message}`);
+      throw error;
+    }
+  }
+
   /**
    * 完整技术分析
    */
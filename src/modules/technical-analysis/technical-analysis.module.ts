@@ -10,10 +10,15 @@ import { TechnicalAnalysisController } from './technical-analysis.controller';
 import { MultiTimeframeTrendService } from './services/multi-timeframe-trend.service';
 import { SupportResistanceService } from './services/support-resistance.service';
 import { CoreTechnicalAnalysisService } from './services/core-technical-analysis.service';
+import { PatternRecognitionService } from './services/pattern-recognition.service';
+import { SupportResistanceTrackerService } from './services/support-resistance-tracker.service';
+import { VolumeProfileService } from './services/volume-profile.service';
+import { DivergenceService } from './services/divergence.service';
+import { MarketScannerService } from './services/market-scanner.service';
 
 /**
  * 技术分析模块
- * 提供多时间周期趋势分析和支撑阻力位分析功能
+ * 提供多时间周期趋势分析、支撑阻力位分析（含历史跟踪和成交量分布）、图表形态识别、背离识别和全市场扫描功能
  */
 @Module({
   imports: [
@@ -24,11 +29,21 @@ import { CoreTechnicalAnalysisService } from './services/core-technical-analysis
     MultiTimeframeTrendService,
     SupportResistanceService,
     CoreTechnicalAnalysisService,
+    PatternRecognitionService,
+    SupportResistanceTrackerService,
+    VolumeProfileService,
+    DivergenceService,
+    MarketScannerService,
   ],
   exports: [
     MultiTimeframeTrendService,
     SupportResistanceService,
     CoreTechnicalAnalysisService,
+    PatternRecognitionService,
+    SupportResistanceTrackerService,
+    VolumeProfileService,
+    DivergenceService,
+    MarketScannerService,
   ],
 })
 export class TechnicalAnalysisModule {} 
\ No newline at end of file
@@ -7,15 +7,31 @@ import * as TelegramBot from 'node-telegram-bot-api';
 import { EMAAnalysisService } from '../../ccxt-analysis/services/ema-analysis.service';
 import { CCXTDataService } from '../../ccxt-analysis/services/ccxt-data.service';
 import { OpenInterestService } from '../../ccxt-analysis/services/open-interest.service';
+import { DerivativesSentimentService } from '../../ccxt-analysis/services/derivatives-sentiment.service';
 import { RSIAnalysisService } from '../../ccxt-analysis/services/rsi-analysis.service';
 import { MultiTimeframeTrendService } from '../../technical-analysis/services/multi-timeframe-trend.service';
 import { SupportResistanceService } from '../../technical-analysis/services/support-resistance.service';
 import { CoreTechnicalAnalysisService } from '../../technical-analysis/services/core-technical-analysis.service';
+import { SupportResistanceTrackerService } from '../../technical-analysis/services/support-resistance-tracker.service';
+import { MarketScannerService } from '../../technical-analysis/services/market-scanner.service';
+import { ScanCriterion } from '../../technical-analysis/interfaces';
 import { CoinConfigService } from '../../coin-config/coin-config.service';
+import { NotificationRecordService } from '../../trading-automation/services/notification-record.service';
+import { PriceAlertService } from '../../trading-automation/services/price-alert.service';
+import { CreatePriceAlertDto } from '../../trading-automation/dto';
 import { IntervalType } from 'src/shared/enums';
 
 // 常量定义
 const DEFAULT_COIN_CONFIG_INTERVAL = 'default'; // 统一使用默认interval，因为分析会查询所有周期
+const SCAN_RESULT_MAX_AGE = 2 * 60 * 60 * 1000; // 扫描结果超过2小时视为过期，/scan 时重新扫描
+const SCAN_CRITERION_ALIASES: Record<string, ScanCriterion> = {
+  trend: 'TREND_ALIGNMENT',
+  rsi: 'RSI_EXTREME',
+  sr: 'NEAR_STRONG_LEVEL',
+  level: 'NEAR_STRONG_LEVEL',
+  volume: 'VOLUME_SPIKE',
+  vol: 'VOLUME_SPIKE',
+};
 
 // 工具类导入
 import {
@@ -24,6 +40,10 @@ import {
   AnalysisType,
   AnalysisProcessorUtil,
   MenuTemplate,
+  SupportResistanceFormatter,
+  NotificationRecordFormatter,
+  PriceAlertFormatter,
+  MarketScannerFormatter,
 } from '../utils';
 
 /**
@@ -51,6 +71,11 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
     private readonly supportResistanceService: SupportResistanceService,
     private readonly coreTechnicalAnalysisService: CoreTechnicalAnalysisService,
     private readonly coinConfigService: CoinConfigService,
+    private readonly supportResistanceTrackerService: SupportResistanceTrackerService,
+    private readonly notificationRecordService: NotificationRecordService,
+    private readonly priceAlertService: PriceAlertService,
+    private readonly derivativesSentimentService: DerivativesSentimentService,
+    private readonly marketScannerService: MarketScannerService,
   ) {
     this.config = this.configService.get<TelegramConfig>('telegram')!;
   }
@@ -102,6 +127,26 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
         description: '技术分析',
         handler: (msg) => this.handleTechnicalCommand(msg.text || '', msg.chat.id),
       },
+      {
+        command: '/levels',
+        description: '支撑阻力位历史',
+        handler: (msg) => this.handleLevelsCommand(msg.text || '', msg.chat.id),
+      },
+      {
+        command: '/scan',
+        description: '全市场扫描',
+        handler: (msg) => this.handleScanCommand(msg.text || '', msg.chat.id),
+      },
+      {
+        command: '/alerts',
+        description: '最近通知记录',
+        handler: (msg) => this.handleAlertsCommand(msg.text || '', msg.chat.id),
+      },
+      {
+        command: '/alert',
+        description: '价格提醒',
+        handler: (msg) => this.handleAlertCommand(msg.text || '', msg.chat.id),
+      },
       {
         command: '/list',
         description: '查看关注列表',
@@ -137,9 +182,9 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
     const userId = msg.from?.id?.toString() || chatId.toString();
     
     if (text.startsWith('/add ')) {
-      // 直接模式：/add SYMBOL
-      const symbol = text.substring(5).trim().toUpperCase();
-      await this.handleAddCommand(chatId, symbol);
+      // 直接模式：/add SYMBOL [EXCHANGE]
+      const [symbol, exchange] = text.substring(5).trim().split(/\s+/);
+      await this.handleAddCommand(chatId, symbol.toUpperCase(), exchange?.toLowerCase());
     } else if (text === '/add') {
       // 分步模式：设置用户状态等待输入
       this.userStates.set(userId, {
@@ -252,6 +297,17 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
           }
         },
       },
+      {
+        pattern: /^scan_add:/,
+        description: '扫描结果加入关注列表',
+        handler: async (query) => {
+          const chatId = query.message?.chat.id;
+          const [, symbol, exchange] = (query.data || '').split(':');
+          if (chatId && symbol) {
+            await this.handleAddCommand(chatId, symbol, exchange);
+          }
+        },
+      },
       {
         pattern: 'manage_symbols',
         description: '管理交易对',
@@ -352,6 +408,26 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
         command: 'technical',
         description: '完整技术分析'
       },
+      {
+        command: 'levels',
+        description: '查看支撑阻力位历史'
+      },
+      {
+        command: 'scan',
+        description: '全市场扫描候选交易对'
+      },
+      {
+        command: 'alerts',
+        description: '查看最近通知记录'
+      },
+      {
+        command: 'alert',
+        description: '设置价格提醒'
+      },
+      {
+        command: 'paper',
+        description: '模拟盘交易'
+      },
       {
         command: 'list',
         description: '查看关注列表'
@@ -520,9 +596,10 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
 
   /**
    * 处理 /technical 命令
+   * 格式: /technical SYMBOL [TYPE] [EXCHANGE]，类型和交易所顺序不限
    */
   private async handleTechnicalCommand(text: string, chatId: number): Promise<void> {
-    const params = text.split(' ').slice(1);
+    const params = text.split(/\s+/).slice(1).filter(param => param.length > 0);
     
     if (params.length === 0) {
       await this.showAnalysisMenu(chatId);
@@ -530,9 +607,273 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
     }
 
     const symbol = params[0];
-    const analysisType = (params[1] || 'comprehensive') as AnalysisType;
+    let analysisType = AnalysisType.COMPREHENSIVE;
+    let exchange: string | undefined;
+
+    for (const param of params.slice(1)) {
+      if (this.ccxtDataService.isExchangeAvailable(param)) {
+        exchange = param.toLowerCase();
+      } else {
+        analysisType = param as AnalysisType;
+      }
+    }
     
-    await this.performAnalysis(symbol, analysisType, chatId);
+    await this.performAnalysis(symbol, analysisType, chatId, exchange);
+  }
+
+  /**
+   * 处理 /levels 命令
+   * 格式: /levels SYMBOL
+   */
+  private async handleLevelsCommand(text: string, chatId: number): Promise<void> {
+    const symbol = text.split(/\s+/)[1];
+
+    if (!symbol) {
+      await this.sendMessage(chatId, `
+❌ <b>格式错误</b>
+
+请使用正确的格式：
+<code>/levels BTCUSDT</code>
+      `.trim(), { parse_mode: 'HTML' });
+      return;
+    }
+
+    try {
+      const cleanSymbol = AnalysisProcessorUtil.normalizeSymbol(symbol);
+      const levels = await this.supportResistanceTrackerService.findHistory(cleanSymbol);
+      await this.sendMessage(chatId, SupportResistanceFormatter.formatHistoryMessage(cleanSymbol, levels));
+    } catch (error) {
+      this.logger.error(`查询支撑阻力位历史失败 ${symbol}:`, error);
+      await this.sendErrorMessage(chatId, error.message, symbol);
+    }
+  }
+
+  /**
+   * 处理 /scan 命令
+   * 格式: /scan [trend] [rsi] [sr] [volume] [refresh] [数量]
+   * 不带条件时显示最近一次扫描结果（结果过期或带 refresh 时重新扫描），带条件时按指定条件重新扫描
+   */
+  private async handleScanCommand(text: string, chatId: number): Promise<void> {
+    const params = text.split(/\s+/).slice(1).filter(param => param.length > 0).map(param => param.toLowerCase());
+    const criteria: ScanCriterion[] = [];
+    let limit = 10;
+    let refresh = false;
+
+    for (const param of params) {
+      if (/^\d+$/.test(param)) {
+        limit = Math.min(15, Math.max(1, Number(param)));
+      } else if (param === 'refresh') {
+        refresh = true;
+      } else if (SCAN_CRITERION_ALIASES[param]) {
+        criteria.push(SCAN_CRITERION_ALIASES[param]);
+      } else {
+        await this.sendMessage(chatId, `
+❌ <b>不支持的扫描条件:</b> <code>${param}</code>
+
+可选条件: trend（趋势一致）、rsi（RSI极值）、sr（接近强支撑阻力）、volume（放量）
+
+💡 <b>使用示例：</b>
+<code>/scan</code>
+<code>/scan trend volume</code>
+<code>/scan refresh 15</code>
+        `.trim(), { parse_mode: 'HTML' });
+        return;
+      }
+    }
+
+    try {
+      let result = this.marketScannerService.getLatestResult();
+      const isStale = !result || Date.now() - result.timestamp > SCAN_RESULT_MAX_AGE;
+
+      if (criteria.length > 0 || refresh || isStale) {
+        await this.sendMessage(chatId, '⏳ 正在扫描市场，可能需要几分钟...');
+        result = await this.marketScannerService.scan(criteria.length > 0 ? { criteria: [...new Set(criteria)] } : {});
+      }
+
+      const message = MarketScannerFormatter.formatMessage(result, limit);
+      const keyboard = MenuTemplate.getScanResultKeyboard(
+        result.candidates.slice(0, limit).map(candidate => candidate.symbol),
+        result.exchange,
+      );
+      await this.sendMessage(chatId, message, keyboard);
+    } catch (error) {
+      this.logger.error('市场扫描失败:', error);
+      await this.sendErrorMessage(chatId, `市场扫描失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 处理 /alerts 命令
+   * 格式: /alerts [SYMBOL] [数量]，数量默认10条，最多30条
+   */
+  private async handleAlertsCommand(text: string, chatId: number): Promise<void> {
+    const params = text.split(/\s+/).slice(1).filter(param => param.length > 0);
+    let symbol: string | undefined;
+    let limit = 10;
+
+    for (const param of params) {
+      if (/^\d+$/.test(param)) {
+        limit = Math.min(30, Math.max(1, Number(param)));
+      } else {
+        symbol = AnalysisProcessorUtil.normalizeSymbol(param);
+      }
+    }
+
+    try {
+      const result = await this.notificationRecordService.findAll({ symbol, limit, page: 1 });
+      const message = NotificationRecordFormatter.formatMessage(result.data, result.pagination.total, symbol);
+      await this.sendMessage(chatId, message);
+    } catch (error) {
+      this.logger.error('查询通知记录失败:', error);
+      await this.sendErrorMessage(chatId, '获取通知记录时发生错误');
+    }
+  }
+
+  /**
+   * 处理 /alert 命令
+   * 格式:
+   *   /alert SYMBOL > 价格 | < 价格
+   *   /alert SYMBOL move 涨跌幅% [窗口]
+   *   /alert SYMBOL ema [周期] [K线周期] up|down
+   *   /alert SYMBOL rsi >|< 值 [K线周期]
+   *   /alert SYMBOL div bull|bear [K线周期] [最低置信度]
+   *   可追加 repeat（重复提醒）和 expire 24h（过期时间）
+   *   /alert list | /alert cancel ID
+   */
+  private async handleAlertCommand(text: string, chatId: number): Promise<void> {
+    // 允许 ">70000" 这类不带空格的写法
+    const params = text.replace(/([<>])/g, ' $1 ').split(/\s+/).slice(1).filter(param => param.length > 0);
+    const action = params[0]?.toLowerCase();
+
+    try {
+      if (!action || action === 'list') {
+        const result = await this.priceAlertService.findAll({
+          chatId: chatId.toString(),
+          status: 'ACTIVE',
+          limit: 30,
+          page: 1,
+        });
+        await this.sendMessage(chatId, PriceAlertFormatter.formatListMessage(result.data, result.pagination.total));
+        return;
+      }
+
+      if (action === 'cancel') {
+        const id = Number(params[1]);
+        const alert = Number.isInteger(id) ? await this.priceAlertService.findOne(id).catch(() => null) : null;
+        if (!alert || alert.chatId !== chatId.toString()) {
+          await this.sendErrorMessage(chatId, `未找到ID为 ${params[1] || ''} 的价格提醒`);
+          return;
+        }
+        await this.priceAlertService.cancel(id);
+        await this.sendMessage(chatId, `✅ 价格提醒 #${id} 已取消`);
+        return;
+      }
+
+      const dto = this.parseAlertParams(params);
+      if (!dto) {
+        await this.sendMessage(chatId, `
+❌ <b>格式错误</b>
+
+请使用正确的格式：
+<code>/alert BTCUSDT &gt; 70000</code>
+<code>/alert BTCUSDT &lt; 60000 repeat</code>
+<code>/alert ETHUSDT move 5 1h</code>
+<code>/alert BTCUSDT ema 20 4h up</code>
+<code>/alert SOLUSDT rsi &gt; 70 1h expire 24h</code>
+<code>/alert BTCUSDT div bull 4h repeat</code>
+<code>/alert list</code> | <code>/alert cancel ID</code>
+        `.trim(), { parse_mode: 'HTML' });
+        return;
+      }
+
+      dto.chatId = chatId.toString();
+      const alert = await this.priceAlertService.create(dto, 'TELEGRAM');
+      await this.sendMessage(chatId, PriceAlertFormatter.formatCreatedMessage(alert));
+    } catch (error) {
+      this.logger.error('处理价格提醒命令失败:', error);
+      await this.sendErrorMessage(chatId, error.message);
+    }
+  }
+
+  /**
+   * 解析 /alert 命令参数，格式不正确时返回 null
+   */
+  private parseAlertParams(params: string[]): CreatePriceAlertDto | null {
+    const args = [...params];
+    const dto: Partial<CreatePriceAlertDto> = {
+      symbol: AnalysisProcessorUtil.normalizeSymbol(args.shift()),
+    };
+
+    // 先提取可选项
+    const repeatIndex = args.findIndex(arg => arg.toLowerCase() === 'repeat');
+    if (repeatIndex >= 0) {
+      dto.mode = 'RECURRING';
+      args.splice(repeatIndex, 1);
+    }
+
+    const expireIndex = args.findIndex(arg => arg.toLowerCase() === 'expire');
+    if (expireIndex >= 0) {
+      const match = /^(\d+)([mhd])$/.exec(args[expireIndex + 1] || '');
+      if (!match) {
+        return null;
+      }
+      const unitMs = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[match[2]];
+      dto.expiresAt = new Date(Date.now() + Number(match[1]) * unitMs).toISOString();
+      args.splice(expireIndex, 2);
+    }
+
+    const [kind, ...rest] = args.map(arg => arg.toLowerCase());
+    const toNumber = (value?: string) => (value && !isNaN(Number(value.replace('%', ''))) ? Number(value.replace('%', '')) : undefined);
+
+    if (kind === '>' || kind === '<') {
+      dto.condition = kind === '>' ? 'PRICE_ABOVE' : 'PRICE_BELOW';
+      dto.threshold = toNumber(rest[0]);
+      return dto.threshold !== undefined && rest.length === 1 ? (dto as CreatePriceAlertDto) : null;
+    }
+
+    if (kind === 'move') {
+      dto.condition = 'PERCENT_MOVE';
+      dto.threshold = toNumber(rest[0]);
+      dto.timeframe = rest[1];
+      return dto.threshold !== undefined && rest.length <= 2 ? (dto as CreatePriceAlertDto) : null;
+    }
+
+    if (kind === 'ema') {
+      const direction = rest.find(arg => ['up', 'down', 'above', 'below'].includes(arg));
+      if (!direction) {
+        return null;
+      }
+      dto.condition = direction === 'up' || direction === 'above' ? 'EMA_CROSS_ABOVE' : 'EMA_CROSS_BELOW';
+      for (const arg of rest.filter(item => item !== direction)) {
+        if (/^\d+$/.test(arg)) {
+          dto.period = Number(arg);
+        } else {
+          dto.timeframe = arg;
+        }
+      }
+      return dto as CreatePriceAlertDto;
+    }
+
+    if (kind === 'rsi' && (rest[0] === '>' || rest[0] === '<')) {
+      dto.condition = rest[0] === '>' ? 'RSI_ABOVE' : 'RSI_BELOW';
+      dto.threshold = toNumber(rest[1]);
+      dto.timeframe = rest[2];
+      return dto.threshold !== undefined && rest.length <= 3 ? (dto as CreatePriceAlertDto) : null;
+    }
+
+    if ((kind === 'div' || kind === 'divergence') && ['bull', 'bear'].includes(rest[0])) {
+      dto.condition = rest[0] === 'bull' ? 'DIVERGENCE_BULLISH' : 'DIVERGENCE_BEARISH';
+      for (const arg of rest.slice(1)) {
+        if (/^\d+(\.\d+)?$/.test(arg)) {
+          dto.threshold = Number(arg);
+        } else {
+          dto.timeframe = arg;
+        }
+      }
+      return rest.length <= 3 ? (dto as CreatePriceAlertDto) : null;
+    }
+
+    return null;
   }
 
   /**
@@ -565,18 +906,23 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
 
   /**
    * 执行分析
+   * 未指定交易所时使用关注列表中该交易对配置的交易所
    */
-  private async performAnalysis(symbol: string, analysisType: AnalysisType, chatId: number): Promise<void> {
+  private async performAnalysis(symbol: string, analysisType: AnalysisType, chatId: number, exchange?: string): Promise<void> {
     const analysisDescription = AnalysisProcessorUtil.getAnalysisTypeDescription(analysisType);
-    await this.sendMessage(chatId, `⏳ 正在进行 ${symbol} ${analysisDescription}...`);
 
     try {
+      const targetExchange = exchange || await this.resolveExchange(symbol);
+      await this.sendMessage(chatId, `⏳ 正在进行 ${symbol} ${analysisDescription} (${targetExchange})...`);
+
       const message = await AnalysisProcessorUtil.performAnalysisByType(
         this.coreTechnicalAnalysisService,
         symbol,
         analysisType,
         this.rsiAnalysisService,
-        this.openInterestService
+        this.openInterestService,
+        targetExchange,
+        this.derivativesSentimentService
       );
       await this.sendMessage(chatId, message);
 
@@ -586,6 +932,14 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
     }
   }
 
+  /**
+   * 获取交易对配置的分析交易所
+   */
+  private async resolveExchange(symbol: string): Promise<string> {
+    const config = await this.coinConfigService.findBySymbol(symbol.toUpperCase());
+    return config?.exchange || 'binance';
+  }
+
   /**
    * 显示主菜单
    */
@@ -721,7 +1075,7 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
   /**
    * 处理添加token命令
    */
-  private async handleAddCommand(chatId: number, symbol: string): Promise<void> {
+  private async handleAddCommand(chatId: number, symbol: string, exchange?: string): Promise<void> {
     if (!symbol) {
       await this.sendMessage(chatId, `
 ❌ <b>参数错误</b>
@@ -735,6 +1089,17 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
       return;
     }
 
+    if (exchange && !this.ccxtDataService.isExchangeAvailable(exchange)) {
+      await this.sendMessage(chatId, `
+❌ <b>交易所不可用</b>
+
+交易所 <code>${exchange}</code> 未启用。
+
+💡 <b>可用交易所：</b> ${this.ccxtDataService.getAvailableExchanges().join(', ')}
+      `.trim(), { parse_mode: 'HTML' });
+      return;
+    }
+
     try {
       // 检查是否已存在
       const existing = await this.coinConfigService.exists(symbol, DEFAULT_COIN_CONFIG_INTERVAL);
@@ -753,13 +1118,14 @@ export class TelegramCCXTAnalysisService implements OnModuleInit {
       await this.coinConfigService.create({
         symbol,
         interval: DEFAULT_COIN_CONFIG_INTERVAL as any, // 使用默认interval，分析会查询所有周期
+        exchange,
         isActive: true,
       });
 
       await this.sendMessage(chatId, `
 ✅ <b>添加成功</b>
 
-交易对 <code>${symbol}</code> 已添加到关注列表。
+交易对 <code>${symbol}</code> 已添加到关注列表（${exchange || 'binance'}）。
 
 📊 使用 <code>/list</code> 查看完整列表
 💰 直接输入 <code>${symbol}</code> 进行分析
@@ -11,6 +11,7 @@ import { TelegramCCXTAnalysisService } from './services/telegram-ccxt-analysis.s
 import { CCXTAnalysisModule } from '../ccxt-analysis/ccxt-analysis.module';
 import { TechnicalAnalysisModule } from '../technical-analysis/technical-analysis.module';
 import { CoinConfigModule } from '../coin-config/coin-config.module';
+import { TradingAutomationModule } from '../trading-automation/trading-automation.module';
 // import { NotificationModule } from '../notification/notification.module';
 
 /**
@@ -23,6 +24,7 @@ import { CoinConfigModule } from '../coin-config/coin-config.module';
     CCXTAnalysisModule,
     TechnicalAnalysisModule,
     CoinConfigModule,
+    TradingAutomationModule,
     // forwardRef(() => NotificationModule),
   ],
   controllers: [TelegramCCXTAnalysisController],
@@ -2,10 +2,12 @@ import { Logger } from '@nestjs/common';
 import { CoreTechnicalAnalysisService } from '../../../technical-analysis/services/core-technical-analysis.service';
 import { OpenInterestService } from '../../../ccxt-analysis/services/open-interest.service';
 import { RSIAnalysisService } from '../../../ccxt-analysis/services/rsi-analysis.service';
+import { DerivativesSentimentService } from '../../../ccxt-analysis/services/derivatives-sentiment.service';
 import { 
   ComprehensiveAnalysisFormatter,
   TrendAnalysisFormatter,
-  SupportResistanceFormatter
+  SupportResistanceFormatter,
+  DerivativesSentimentFormatter
 } from '../formatters';
 import { AnalysisType } from '../interfaces';
 
@@ -21,13 +23,14 @@ export class AnalysisProcessorUtil {
    */
   static async performComprehensiveAnalysis(
     coreTechnicalAnalysisService: CoreTechnicalAnalysisService,
-    symbol: string
+    symbol: string,
+    exchange: string = 'binance'
   ): Promise<string> {
     try {
       this.logger.log(`开始执行 ${symbol} 完整技术分析`);
 
       // 使用核心服务执行完整技术分析
-      const coreResult = await coreTechnicalAnalysisService.performComprehensiveAnalysis(symbol);
+      const coreResult = await coreTechnicalAnalysisService.performComprehensiveAnalysis(symbol, exchange);
 
       // 格式化消息
       const message = ComprehensiveAnalysisFormatter.formatMessage(
@@ -37,7 +40,10 @@ export class AnalysisProcessorUtil {
         coreResult.trendAnalysis,
         coreResult.srAnalysis,
         coreResult.rsiAnalysis,
-        coreResult.openInterestData
+        coreResult.openInterestData,
+        coreResult.patternAnalysis,
+        coreResult.divergenceAnalysis,
+        coreResult.derivativesSentiment
       );
 
       this.logger.log(`${symbol} 完整技术分析完成`);
@@ -54,13 +60,14 @@ export class AnalysisProcessorUtil {
    */
   static async performTrendAnalysis(
     coreTechnicalAnalysisService: CoreTechnicalAnalysisService,
-    symbol: string
+    symbol: string,
+    exchange: string = 'binance'
   ): Promise<string> {
     try {
       this.logger.log(`开始执行 ${symbol} 趋势分析`);
 
       // 使用核心服务获取趋势分析结果
-      const trendAnalysis = await coreTechnicalAnalysisService.getTrendAnalysis(symbol);
+      const trendAnalysis = await coreTechnicalAnalysisService.getTrendAnalysis(symbol, exchange);
 
       // 格式化消息
       const message = TrendAnalysisFormatter.formatMessage(symbol, trendAnalysis);
@@ -79,13 +86,14 @@ export class AnalysisProcessorUtil {
    */
   static async performSupportResistanceAnalysis(
     coreTechnicalAnalysisService: CoreTechnicalAnalysisService,
-    symbol: string
+    symbol: string,
+    exchange: string = 'binance'
   ): Promise<string> {
     try {
       this.logger.log(`开始执行 ${symbol} 支撑阻力位分析`);
 
       // 使用核心服务获取支撑阻力位分析结果
-      const srAnalysis = await coreTechnicalAnalysisService.getSupportResistanceAnalysis(symbol);
+      const srAnalysis = await coreTechnicalAnalysisService.getSupportResistanceAnalysis(symbol, exchange);
 
       // 格式化消息
       const message = SupportResistanceFormatter.formatMessage(symbol, srAnalysis);
@@ -107,26 +115,31 @@ export class AnalysisProcessorUtil {
     symbol: string,
     analysisType: AnalysisType,
     rsiAnalysisService?: RSIAnalysisService,
-    openInterestService?: OpenInterestService
+    openInterestService?: OpenInterestService,
+    exchange: string = 'binance',
+    derivativesSentimentService?: DerivativesSentimentService
   ): Promise<string> {
     switch (analysisType) {
       case AnalysisType.COMPREHENSIVE:
-        return this.performComprehensiveAnalysis(coreTechnicalAnalysisService, symbol);
+        return this.performComprehensiveAnalysis(coreTechnicalAnalysisService, symbol, exchange);
       
       case AnalysisType.TREND:
-        return this.performTrendAnalysis(coreTechnicalAnalysisService, symbol);
+        return this.performTrendAnalysis(coreTechnicalAnalysisService, symbol, exchange);
       
       case AnalysisType.SUPPORT_RESISTANCE:
-        return this.performSupportResistanceAnalysis(coreTechnicalAnalysisService, symbol);
+        return this.performSupportResistanceAnalysis(coreTechnicalAnalysisService, symbol, exchange);
       
       case AnalysisType.RSI:
-        return this.performRSIAnalysis(rsiAnalysisService, symbol);
+        return this.performRSIAnalysis(rsiAnalysisService, symbol, exchange);
       
       case AnalysisType.OPEN_INTEREST:
         return this.performOpenInterestAnalysis(openInterestService, symbol);
       
+      case AnalysisType.DERIVATIVES:
+        return this.performDerivativesSentimentAnalysis(derivativesSentimentService, symbol, exchange);
+      
       default:
-        return this.performComprehensiveAnalysis(coreTechnicalAnalysisService, symbol);
+        return this.performComprehensiveAnalysis(coreTechnicalAnalysisService, symbol, exchange);
     }
   }
 
@@ -140,7 +153,8 @@ export class AnalysisProcessorUtil {
       [AnalysisType.SUPPORT_RESISTANCE]: '支撑阻力位分析',
       [AnalysisType.EMA]: 'EMA技术分析',
       [AnalysisType.RSI]: 'RSI技术分析',
-      [AnalysisType.OPEN_INTEREST]: '持仓量分析'
+      [AnalysisType.OPEN_INTEREST]: '持仓量分析',
+      [AnalysisType.DERIVATIVES]: '衍生品情绪分析'
     };
     
     return descriptions[analysisType] || '完整技术分析';
@@ -177,14 +191,15 @@ export class AnalysisProcessorUtil {
    */
   static async performRSIAnalysis(
     rsiAnalysisService: RSIAnalysisService,
-    symbol: string
+    symbol: string,
+    exchange: string = 'binance'
   ): Promise<string> {
     try {
       this.logger.log(`开始执行 ${symbol} RSI分析`);
 
       // 执行多时间周期RSI分析
       const timeframes = ['15m', '1h', '4h', '1d'];
-      const multiTimeframeRSI = await rsiAnalysisService.getMultiTimeframeRSI(symbol, timeframes);
+      const multiTimeframeRSI = await rsiAnalysisService.getMultiTimeframeRSI(symbol, timeframes, 14, exchange);
 
       // 格式化多时间周期RSI分析消息
       const message = this.formatMultiTimeframeRSIMessage(multiTimeframeRSI, symbol);
@@ -227,6 +242,32 @@ export class AnalysisProcessorUtil {
     }
   }
 
+  /**
+   * 执行衍生品情绪分析
+   * 使用分析交易所对应的衍生品交易所，不支持时使用 binanceusdm
+   */
+  static async performDerivativesSentimentAnalysis(
+    derivativesSentimentService: DerivativesSentimentService,
+    symbol: string,
+    exchange: string = 'binance'
+  ): Promise<string> {
+    try {
+      this.logger.log(`开始执行 ${symbol} 衍生品情绪分析`);
+
+      const derivativesExchange = derivativesSentimentService.resolveExchange(exchange) || 'binanceusdm';
+      const sentiment = await derivativesSentimentService.getDerivativesSentiment(symbol, derivativesExchange);
+
+      const message = DerivativesSentimentFormatter.formatMessage(symbol, sentiment);
+
+      this.logger.log(`${symbol} 衍生品情绪分析完成`);
+      return message;
+
+    } catch (error) {
+      this.logger.error(`衍生品情绪分析失败 ${symbol}:`, error);
+      throw new Error(`衍生品情绪分析失败: ${error.message}`);
+    }
+  }
+
   /**
    * 格式化多时间周期RSI分析消息
    */
@@ -1,5 +1,6 @@
 import { EmojiUtil } from '../emoji';
 import { FormatUtil } from './format.util';
+import { DerivativesSentimentFormatter } from './derivatives-sentiment.formatter';
 
 /**
  * 完整技术分析消息格式化器
@@ -16,7 +17,10 @@ export class ComprehensiveAnalysisFormatter {
     trendAnalysis: any,
     srAnalysis: any,
     rsiAnalysis?: any,
-    openInterestData?: any
+    openInterestData?: any,
+    patternAnalysis?: any,
+    divergenceAnalysis?: any,
+    derivativesSentiment?: any
   ): string {
     const { overallTrend, overallConfidence, tradingSuggestion, timeframes, trendAlignment } = trendAnalysis;
     const { currentPrice, keyLevels, currentPosition, allLevels } = srAnalysis;
@@ -76,7 +80,7 @@ ${trendEmoji} 整体趋势: ${FormatUtil.getTrendDescription(overallTrend)}
 
     message += `
 📍 <b>位置状态:</b> ${FormatUtil.getPositionStatus(currentPosition)}
-`;
+${this.formatATRSection(srAnalysis.atr)}`;
 
     // 生成精确交易区间建议
     const preciseTradingZones = this.generatePreciseTradingZones(srAnalysis, currentPrice);
@@ -100,7 +104,7 @@ ${trendEmoji} 整体趋势: ${FormatUtil.getTrendDescription(overallTrend)}
 ${EmojiUtil.getActionEmoji(tradingSuggestion.action)} <b>${FormatUtil.getActionDescription(tradingSuggestion.action)}</b>
 📝 理由: ${tradingSuggestion.reason}
 ⚠️ 风险级别: ${tradingSuggestion.riskLevel}
-${this.formatRSISection(rsiAnalysis)}${this.formatOpenInterestSection(openInterestData)}
+${this.formatRSISection(rsiAnalysis)}${this.formatPatternSection(patternAnalysis)}${this.formatDivergenceSection(divergenceAnalysis)}${DerivativesSentimentFormatter.formatSection(derivativesSentiment)}${this.formatOpenInterestSection(openInterestData)}
 📋 <b>数据统计:</b>
 • 数据点数: ${emaDetailedData.totalCount}
 • 数据源: ${emaDetailedData.exchange}
@@ -166,6 +170,23 @@ ${this.formatRSISection(rsiAnalysis)}${this.formatOpenInterestSection(openIntere
     return { buyZones, sellZones };
   }
 
+  /**
+   * 格式化ATR波动率部分
+   */
+  private static formatATRSection(atr?: any): string {
+    if (!atr) return '';
+
+    const lines = ['1d', '4h', '1h', '15m']
+      .filter(tf => atr[tf])
+      .map(tf => `• ${tf}: $${FormatUtil.formatPrice(atr[tf].value)} (${atr[tf].percent.toFixed(2)}%)`);
+    if (lines.length === 0) return '';
+
+    return `
+📏 <b>ATR 波动率 (${atr[Object.keys(atr)[0]].period}):</b>
+${lines.join('\n')}
+`;
+  }
+
   /**
    * 格式化RSI信息部分
    */
@@ -198,6 +219,75 @@ ${this.formatRSISection(rsiAnalysis)}${this.formatOpenInterestSection(openIntere
 `;
   }
 
+  /**
+   * 格式化图表形态部分
+   */
+  private static formatPatternSection(patternAnalysis?: any): string {
+    if (!patternAnalysis || patternAnalysis.patterns.length === 0) return '';
+
+    const patternNames = {
+      'BOX': '箱体',
+      'BREAKOUT_UP': '向上突破',
+      'BREAKOUT_DOWN': '向下突破',
+      'TREND_LINE': '趋势线',
+      'DOUBLE_TOP': '双顶',
+      'DOUBLE_BOTTOM': '双底',
+      'HEAD_SHOULDERS': '头肩形态'
+    };
+
+    const biasEmoji = {
+      'BULLISH': '🟢',
+      'BEARISH': '🔴',
+      'NEUTRAL': '🔵'
+    };
+
+    // 只展示置信度最高的几个形态
+    const lines = patternAnalysis.patterns.slice(0, 5).map((pattern: any) => {
+      const neckline = pattern.keyLevels.neckline ?? pattern.keyLevels.breakoutLevel;
+      const levelText = neckline ? ` | 关键位 $${FormatUtil.formatPrice(neckline)}` : '';
+      const targetText = pattern.target ? ` | 目标 $${FormatUtil.formatPrice(pattern.target)}` : '';
+      return `${biasEmoji[pattern.bias]} ${pattern.timeframe} ${patternNames[pattern.type] || pattern.type} (${pattern.status === 'CONFIRMED' ? '已确认' : `完成度 ${pattern.completion}%`}, ${pattern.confidence}%)${levelText}${targetText}`;
+    });
+
+    return `
+
+🧩 <b>图表形态:</b>
+${lines.map((line: string) => `• ${line}`).join('\n')}
+`;
+  }
+
+  /**
+   * 格式化背离部分
+   */
+  private static formatDivergenceSection(divergenceAnalysis?: any): string {
+    if (!divergenceAnalysis || divergenceAnalysis.divergences.length === 0) return '';
+
+    const indicatorNames = {
+      'RSI': 'RSI',
+      'MACD': 'MACD柱',
+      'OBV': 'OBV'
+    };
+
+    const biasEmoji = {
+      'BULLISH': '🟢',
+      'BEARISH': '🔴'
+    };
+
+    // 只展示置信度最高的几个背离
+    const lines = divergenceAnalysis.divergences.slice(0, 5).map((divergence: any) => {
+      const typeText = divergence.type === 'REGULAR' ? '常规' : '隐藏';
+      const biasText = divergence.bias === 'BULLISH' ? '看涨' : '看跌';
+      const swingTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+      return `${biasEmoji[divergence.bias]} ${divergence.timeframe} ${indicatorNames[divergence.indicator] || divergence.indicator} ${typeText}${biasText} (${divergence.confidence}%) | $${FormatUtil.formatPrice(divergence.start.price)} (${swingTime(divergence.start.timestamp)}) → $${FormatUtil.formatPrice(divergence.end.price)} (${swingTime(divergence.end.timestamp)})`;
+    });
+
+    return `
+
+🔀 <b>背离信号:</b>
+${lines.map((line: string) => `• ${line}`).join('\n')}
+`;
+  }
+
   /**
    * 格式化持仓量信息部分
    */
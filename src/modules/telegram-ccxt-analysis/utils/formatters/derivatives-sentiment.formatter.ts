@@ -0,0 +1,137 @@
+import { FormatUtil } from './format.util';
+
+/**
+ * 衍生品情绪消息格式化器
+ * 负责格式化资金费率、多空比和持仓量状态的消息内容
+ */
+export class DerivativesSentimentFormatter {
+  private static readonly biasText = {
+    BULLISH: '🟢 偏多',
+    BEARISH: '🔴 偏空',
+    NEUTRAL: '🔵 中性',
+  };
+
+  private static readonly extremeText = {
+    EXTREME_HIGH: '⚠️ 高位',
+    EXTREME_LOW: '⚠️ 低位',
+    NORMAL: '正常',
+  };
+
+  private static readonly regimeText = {
+    LONG_BUILDUP: '多头加仓',
+    SHORT_BUILDUP: '空头加仓',
+    SHORT_COVERING: '空头回补',
+    LONG_UNWINDING: '多头平仓',
+    NEUTRAL: '无明显变化',
+  };
+
+  /**
+   * 格式化衍生品情绪分析消息
+   */
+  static formatMessage(symbol: string, sentiment: any): string {
+    const { funding, longShort, openInterest, bias, signals } = sentiment;
+
+    let message = `
+🌡️ <b>${symbol} 衍生品情绪分析</b>
+
+📊 <b>合约:</b> ${sentiment.symbol} (${sentiment.exchange})
+🧭 <b>综合倾向:</b> ${this.biasText[bias] || bias}
+`;
+
+    if (funding) {
+      message += `
+💸 <b>资金费率:</b>
+• 当前费率: ${this.formatRate(funding.current)} (${this.extremeText[funding.extreme]})
+• 预测费率: ${this.formatRate(funding.predicted)}
+• 上次结算: ${this.formatRate(funding.lastSettled)}
+• 年化: ${funding.annualized !== null ? FormatUtil.formatPercentage(funding.annualized) : '-'}
+`;
+      if (funding.statistics) {
+        message += `• 30天均值: ${this.formatRate(funding.statistics.mean)} | 百分位: ${funding.statistics.percentile.toFixed(0)}% | Z: ${funding.statistics.zScore.toFixed(2)}\n`;
+      }
+      if (funding.nextFundingTime) {
+        message += `• 下次结算: ${new Date(funding.nextFundingTime).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })}\n`;
+      }
+    }
+
+    if (longShort) {
+      message += `
+⚖️ <b>多空账户比 (${longShort.period}):</b>
+• 当前多空比: ${longShort.current !== null ? longShort.current.toFixed(2) : '-'} (${this.extremeText[longShort.extreme]})
+• 多头账户占比: ${longShort.longPercent !== null ? FormatUtil.formatPercentage(longShort.longPercent, 1) : '-'}
+`;
+      if (longShort.change !== null) {
+        message += `• 7天变化: ${longShort.change >= 0 ? '+' : ''}${longShort.change.toFixed(2)}\n`;
+      }
+      if (longShort.statistics) {
+        message += `• 30天均值: ${longShort.statistics.mean.toFixed(2)} | 百分位: ${longShort.statistics.percentile.toFixed(0)}%\n`;
+      }
+    }
+
+    if (openInterest) {
+      message += `
+📈 <b>持仓量与价格 (近 ${openInterest.window} × ${openInterest.period}):</b>
+• 持仓量变化: ${this.formatChange(openInterest.openInterestChangePercent)}
+• 价格变化: ${this.formatChange(openInterest.priceChangePercent)}
+• 状态: ${this.regimeText[openInterest.regime] || openInterest.regime}
+• ${openInterest.description}
+`;
+    }
+
+    if (signals.length > 0) {
+      message += `
+💡 <b>情绪信号:</b>
+${signals.map((signal: string) => `• ${signal}`).join('\n')}
+`;
+    }
+
+    message += `
+⏰ <b>分析时间:</b> ${FormatUtil.formatTime()}`;
+
+    return message.trim();
+  }
+
+  /**
+   * 格式化完整技术分析中的衍生品情绪部分
+   */
+  static formatSection(sentiment?: any): string {
+    if (!sentiment) return '';
+
+    const { funding, longShort, openInterest, bias } = sentiment;
+    const lines: string[] = [`• 综合倾向: ${this.biasText[bias] || bias}`];
+
+    if (funding) {
+      lines.push(
+        `• 资金费率: ${this.formatRate(funding.current)} (预测 ${this.formatRate(funding.predicted)}, ${this.extremeText[funding.extreme]})`,
+      );
+    }
+    if (longShort && longShort.current !== null) {
+      lines.push(
+        `• 多空比: ${longShort.current.toFixed(2)} (${this.extremeText[longShort.extreme]})`,
+      );
+    }
+    if (openInterest) {
+      lines.push(
+        `• 持仓 ${this.formatChange(openInterest.openInterestChangePercent)} / 价格 ${this.formatChange(openInterest.priceChangePercent)}: ${this.regimeText[openInterest.regime] || openInterest.regime}`,
+      );
+    }
+
+    return `
+
+🌡️ <b>衍生品情绪:</b>
+${lines.join('\n')}
+`;
+  }
+
+  private static formatRate(rate: number | null): string {
+    return rate !== null && rate !== undefined
+      ? `${(rate * 100).toFixed(4)}%`
+      : '-';
+  }
+
+  private static formatChange(value: number | null): string {
+    return value !== null && value !== undefined
+      ? `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+      : '-';
+  }
+}
@@ -1,4 +1,8 @@
 export * from './format.util';
 export * from './comprehensive-analysis.formatter';
 export * from './trend-analysis.formatter';
-export * from './support-resistance.formatter'; 
\ No newline at end of file
+export * from './support-resistance.formatter';
+export * from './notification-record.formatter';
+export * from './price-alert.formatter';
+export * from './derivatives-sentiment.formatter';
+export * from './market-scanner.formatter';
\ No newline at end of file
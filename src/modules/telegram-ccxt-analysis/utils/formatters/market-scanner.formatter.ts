@@ -0,0 +1,63 @@
+import { IMarketScanResult } from 'src/modules/technical-analysis/interfaces';
+import { FormatUtil } from './format.util';
+
+/**
+ * 市场扫描消息格式化器
+ * 负责格式化 /scan 命令的扫描结果
+ */
+export class MarketScannerFormatter {
+  private static readonly biasText = {
+    BULLISH: '🟢',
+    BEARISH: '🔴',
+    NEUTRAL: '🔵',
+  };
+
+  private static readonly criterionText = {
+    TREND_ALIGNMENT: '趋势一致',
+    RSI_EXTREME: 'RSI极值',
+    NEAR_STRONG_LEVEL: '强支撑阻力',
+    VOLUME_SPIKE: '放量',
+  };
+
+  /**
+   * 格式化扫描结果消息
+   * @param result 扫描结果
+   * @param limit 显示的候选数量
+   */
+  static formatMessage(result: IMarketScanResult, limit: number): string {
+    const { filters, candidates } = result;
+    const criteria = filters.criteria
+      .map((c) => this.criterionText[c] || c)
+      .join('、');
+
+    let message = `
+🔭 <b>市场扫描结果</b>
+
+🏦 <b>交易所:</b> ${result.exchange}
+📋 <b>条件:</b> ${criteria}（至少满足 ${filters.minMatches} 项）
+📊 <b>扫描:</b> ${result.scannedCount} 个交易对，入选 ${candidates.length} 个${result.failedCount > 0 ? `，失败 ${result.failedCount} 个` : ''}
+`;
+
+    if (candidates.length === 0) {
+      message += `\n暂无满足条件的交易对。\n`;
+    } else {
+      message += `\n`;
+      candidates.slice(0, limit).forEach((candidate, index) => {
+        const change = `${candidate.changePercent >= 0 ? '+' : ''}${candidate.changePercent.toFixed(2)}%`;
+        message += `<b>${index + 1}. ${candidate.symbol}</b> ${this.biasText[candidate.bias]} ${FormatUtil.formatPrice(candidate.price)} (${change}) | 得分 ${candidate.score}\n`;
+        candidate.matches.forEach((match) => {
+          message += `   • ${match.description}\n`;
+        });
+      });
+    }
+
+    message += `
+⏰ <b>扫描时间:</b> ${new Date(result.timestamp).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })}`;
+
+    if (candidates.length > 0) {
+      message += `\n💡 点击下方按钮将交易对加入关注列表或查看完整分析`;
+    }
+
+    return message.trim();
+  }
+}
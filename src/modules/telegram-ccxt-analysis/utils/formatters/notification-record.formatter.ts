@@ -0,0 +1,58 @@
+import { FormatUtil } from './format.util';
+
+/**
+ * 通知记录消息格式化器
+ * 负责格式化 /alerts 命令展示的最近通知列表
+ */
+export class NotificationRecordFormatter {
+  private static readonly CATEGORY_NAMES: Record<string, string> = {
+    PRICE_TRIGGER: '价格触发',
+    MULTI_ZONE: '多区域触发',
+    ZONE_CROSSING: '区间穿越',
+    PRICE_ALERT: '价格提醒',
+    SYSTEM_STATUS: '系统状态',
+    TEST: '测试',
+  };
+
+  /**
+   * 格式化最近通知列表
+   */
+  static formatMessage(records: any[], total: number, symbol?: string): string {
+    const title = symbol ? `${symbol} 最近通知` : '最近通知';
+
+    if (records.length === 0) {
+      return `
+🔔 <b>${title}</b>
+
+暂无通知记录。
+      `.trim();
+    }
+
+    let message = `🔔 <b>${title}</b> (共 ${total} 条)\n`;
+
+    records.forEach((record) => {
+      const deliveredIcon = record.delivered ? '✅' : '❌';
+      const signalIcon =
+        record.signal === 'BUY' ? '💚' : record.signal === 'SELL' ? '🔴' : '•';
+      const time = new Date(record.timestamp).toLocaleString('zh-CN', {
+        timeZone: 'Asia/Shanghai',
+      });
+      const category = this.CATEGORY_NAMES[record.category] || record.category;
+
+      message += `\n${deliveredIcon} ${signalIcon} <b>${record.title}</b>\n`;
+      message += `   ${category} · ${time}`;
+      if (record.confidence !== null) {
+        message += ` · 置信度 ${FormatUtil.formatPercentage(record.confidence, 1)}`;
+      }
+      if (!record.delivered && record.deliveryError) {
+        message += `\n   ⚠️ 发送失败: ${record.deliveryError}`;
+      }
+      message += '\n';
+    });
+
+    message += `\n✅ 已送达 ❌ 发送失败`;
+    message += `\n💡 使用 <code>/alerts SYMBOL</code> 查看指定交易对`;
+
+    return message;
+  }
+}
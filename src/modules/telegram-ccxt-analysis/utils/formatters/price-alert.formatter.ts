@@ -0,0 +1,69 @@
+import { PriceAlertView } from 'src/modules/trading-automation/interfaces';
+
+/**
+ * 价格提醒消息格式化器
+ * 负责格式化 /alert 命令的创建结果和提醒列表
+ */
+export class PriceAlertFormatter {
+  /**
+   * 格式化提醒创建成功消息
+   */
+  static formatCreatedMessage(alert: PriceAlertView): string {
+    let message = `✅ <b>价格提醒已创建</b>\n\n`;
+    message += `🆔 <b>提醒ID:</b> ${alert.id}\n`;
+    message += `📊 <b>交易对:</b> ${alert.symbol}\n`;
+    message += `📋 <b>条件:</b> ${alert.description}\n`;
+    message += `🔁 <b>模式:</b> ${this.formatMode(alert)}\n`;
+    if (alert.expiresAt) {
+      message += `⏳ <b>过期时间:</b> ${this.formatTime(alert.expiresAt)}\n`;
+    }
+    message += `\n💡 使用 <code>/alert cancel ${alert.id}</code> 取消提醒`;
+
+    return message;
+  }
+
+  /**
+   * 格式化生效中的提醒列表
+   */
+  static formatListMessage(alerts: PriceAlertView[], total: number): string {
+    if (alerts.length === 0) {
+      return `
+🔔 <b>价格提醒</b>
+
+当前没有生效中的价格提醒。
+
+💡 示例: <code>/alert BTCUSDT &gt; 70000</code>
+      `.trim();
+    }
+
+    let message = `🔔 <b>生效中的价格提醒</b> (共 ${total} 个)\n`;
+
+    alerts.forEach((alert) => {
+      message += `\n<b>#${alert.id}</b> ${alert.symbol} · ${alert.description}\n`;
+      message += `   ${this.formatMode(alert)}`;
+      if (alert.triggerCount > 0) {
+        message += ` · 已触发 ${alert.triggerCount} 次`;
+      }
+      if (alert.expiresAt) {
+        message += ` · ${this.formatTime(alert.expiresAt)} 过期`;
+      }
+      message += '\n';
+    });
+
+    message += `\n💡 使用 <code>/alert cancel ID</code> 取消提醒`;
+
+    return message;
+  }
+
+  private static formatMode(alert: PriceAlertView): string {
+    return alert.mode === 'RECURRING'
+      ? `重复提醒（间隔 ${alert.cooldownMinutes} 分钟）`
+      : '单次提醒';
+  }
+
+  private static formatTime(time: Date): string {
+    return new Date(time).toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+    });
+  }
+}
@@ -73,6 +73,55 @@ export class SupportResistanceFormatter {
     return message.trim();
   }
 
+  /**
+   * 格式化支撑阻力位历史消息
+   * 按时间周期分组展示位置的触及次数、突破和角色转换记录
+   */
+  static formatHistoryMessage(symbol: string, levels: any[]): string {
+    if (levels.length === 0) {
+      return `
+📜 <b>${symbol} 支撑阻力位历史</b>
+
+暂无记录，完成一次技术分析后会自动记录支撑阻力位。
+
+💡 使用 <code>/technical ${symbol}</code> 进行分析
+      `.trim();
+    }
+
+    let message = `📜 <b>${symbol} 支撑阻力位历史</b>\n`;
+
+    ['1d', '4h', '1h'].forEach(timeframe => {
+      const timeframeLevels = levels
+        .filter(level => level.timeframe === timeframe)
+        .sort((a, b) => b.touches - a.touches)
+        .slice(0, 8);
+      if (timeframeLevels.length === 0) {
+        return;
+      }
+
+      message += `\n⏱ <b>${timeframe}</b>\n`;
+      timeframeLevels.forEach(level => {
+        const icon = !level.isActive ? '⚫' : level.levelType === 'SUPPORT' ? '🟢' : '🔴';
+        const typeName = level.levelType === 'SUPPORT' ? '支撑' : '阻力';
+        message += `${icon} $${FormatUtil.formatPrice(level.price)} ${typeName} · 触及${level.touches}次 · 强度${level.strength}`;
+        if (level.flips.length > 0) {
+          message += ` · 🔄转换${level.flips.length}次`;
+        }
+        if (!level.isActive) {
+          message += ' · 已突破';
+        }
+        message += '\n';
+      });
+    });
+
+    const active = levels.filter(level => level.isActive).length;
+    message += `\n📊 <b>统计:</b> 有效 ${active} 个，已突破 ${levels.length - active} 个`;
+    message += `\n🟢 支撑 🔴 阻力 ⚫ 已突破`;
+    message += `\n\n⏰ <b>查询时间:</b> ${FormatUtil.formatTime()}`;
+
+    return message;
+  }
+
   /**
    * 生成精确交易区间（复用完整分析的逻辑）
    */
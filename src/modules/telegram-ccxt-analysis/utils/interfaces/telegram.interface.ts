@@ -44,7 +44,8 @@ export enum AnalysisType {
   SUPPORT_RESISTANCE = 'support_resistance',
   EMA = 'ema',
   RSI = 'rsi',
-  OPEN_INTEREST = 'open_interest'
+  OPEN_INTEREST = 'open_interest',
+  DERIVATIVES = 'derivatives'
 }
 
 /**
@@ -66,12 +66,35 @@ export class MenuTemplate {
 <b>⌨️ 基础命令:</b>
 /start - 启动机器人并显示主菜单
 /help - 显示此帮助信息
-/technical &lt;symbol&gt; [type] - 完整技术分析
+/technical &lt;symbol&gt; [type] [exchange] - 完整技术分析
+/levels &lt;symbol&gt; - 支撑阻力位历史（触及、突破、角色转换）
 /status - 查看机器人运行状态
+/alerts [symbol] [数量] - 查看最近发出的通知及送达情况
+
+<b>🔭 市场扫描:</b>
+/scan - 查看全市场扫描候选（趋势一致、RSI极值、接近强支撑阻力、放量）
+/scan trend|rsi|sr|volume ... - 按指定条件重新扫描
+/scan refresh [数量] - 立即重新扫描
+
+<b>🔔 价格提醒:</b>
+/alert &lt;symbol&gt; &gt; &lt;价格&gt; - 价格高于目标时提醒（&lt; 为低于）
+/alert &lt;symbol&gt; move &lt;涨跌幅%&gt; [窗口] - 窗口内涨跌幅超过阈值时提醒
+/alert &lt;symbol&gt; ema [周期] [K线周期] up|down - 价格上穿/下穿EMA时提醒
+/alert &lt;symbol&gt; rsi &gt;|&lt; &lt;值&gt; [K线周期] - RSI越过阈值时提醒
+/alert &lt;symbol&gt; div bull|bear [K线周期] [最低置信度] - 出现新的看涨/看跌背离时提醒
+可追加 repeat（重复提醒）和 expire 24h（24小时后过期）
+/alert list - 查看生效中的价格提醒
+/alert cancel &lt;ID&gt; - 取消价格提醒
+
+<b>🧪 模拟盘:</b>
+/paper - 查看模拟账户、持仓和挂单
+/paper buy|sell &lt;symbol&gt; [数量|$金额] [limit|stop 价格] [tp 价格] [sl 价格] - 模拟下单
+/paper close &lt;symbol&gt; - 按市价平仓
+/paper help - 查看全部模拟盘命令
 
 <b>📋 关注列表管理:</b>
 /list 或 /watch_list - 查看当前关注的交易对列表
-/add &lt;symbol&gt; - 添加交易对到关注列表
+/add &lt;symbol&gt; [exchange] - 添加交易对到关注列表
 /remove &lt;symbol&gt; - 从关注列表移除交易对
 
 <b>📊 分析类型:</b>
@@ -79,9 +102,14 @@ export class MenuTemplate {
 • trend - 多时间周期趋势分析
 • support_resistance - 支撑阻力位分析
 • ema - EMA技术分析
+• derivatives - 衍生品情绪分析（资金费率、多空比、持仓量状态）
 
 <b>💡 使用示例:</b>
 /technical BTCUSDT - 比特币完整技术分析
+/technical BTCUSDT trend okx - 使用OKX行情进行趋势分析
+/levels BTCUSDT - 查看比特币支撑阻力位历史
+/scan trend volume - 扫描趋势一致且放量的交易对
+/alert BTCUSDT &gt; 70000 - 比特币价格突破70000时提醒
 /add ETHUSDT - 添加以太坊到关注列表
 /remove SOLUSDT - 从关注列表移除SOL
 /list - 查看所有关注的交易对
@@ -132,6 +160,9 @@ export class MenuTemplate {
             { text: '📊 EMA分析', callback_data: 'symbols_list:ema' },
             { text: '📉 RSI分析', callback_data: 'symbols_list:rsi' },
           ],
+          [
+            { text: '🌡️ 衍生品情绪', callback_data: 'symbols_list:derivatives' },
+          ],
           // [
           //   { text: '💰 持仓量分析', callback_data: 'symbols_list:open_interest' },
           // ],
@@ -191,6 +222,30 @@ export class MenuTemplate {
     };
   }
 
+  /**
+   * 获取市场扫描结果键盘
+   * 每个候选交易对提供加入关注列表和完整分析两个按钮
+   */
+  static getScanResultKeyboard(symbols: string[], exchange: string): any {
+    const rows = symbols.map(symbol => {
+      const displayText = symbol.replace('USDT', '');
+      return [
+        { text: `➕ 关注 ${displayText}`, callback_data: `scan_add:${symbol}:${exchange}` },
+        { text: `🔍 分析 ${displayText}`, callback_data: `analyze:${symbol}:comprehensive` },
+      ];
+    });
+
+    rows.push([
+      { text: '🏠 返回主菜单', callback_data: 'main_menu' },
+    ]);
+
+    return {
+      reply_markup: {
+        inline_keyboard: rows
+      }
+    };
+  }
+
   /**
    * 获取状态显示模板
    */
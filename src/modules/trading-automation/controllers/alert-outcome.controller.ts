@@ -0,0 +1,28 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AlertOutcomeQueryDto, AlertOutcomeStatsQueryDto } from '../dto';
+import { AlertOutcomeService } from '../services/alert-outcome.service';
+
+/**
+ * 触发结果控制器
+ * 查询价格触发后的走势跟踪结果和命中率统计
+ */
+@ApiTags('触发结果跟踪')
+@Controller('api/alert-outcomes')
+export class AlertOutcomeController {
+  constructor(private readonly alertOutcomeService: AlertOutcomeService) {}
+
+  @Get()
+  @ApiOperation({ summary: '分页查询触发结果' })
+  async findAll(@Query() query: AlertOutcomeQueryDto) {
+    return await this.alertOutcomeService.findAll(query);
+  }
+
+  @Get('statistics')
+  @ApiOperation({
+    summary: '触发命中率统计（按交易对、区间强度、时间周期分组）',
+  })
+  async getStatistics(@Query() query: AlertOutcomeStatsQueryDto) {
+    return await this.alertOutcomeService.getStatistics(query);
+  }
+}
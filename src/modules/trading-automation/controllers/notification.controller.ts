@@ -0,0 +1,30 @@
+import { Controller, Get, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { NotificationQueryDto } from '../dto';
+import { NotificationRecordService } from '../services/notification-record.service';
+
+/**
+ * 通知记录控制器
+ * 查询已发出的通知及其发送结果
+ */
+@ApiTags('通知记录')
+@Controller('api/notifications')
+export class NotificationController {
+  constructor(
+    private readonly notificationRecordService: NotificationRecordService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: '分页查询通知记录' })
+  async findAll(@Query() query: NotificationQueryDto) {
+    return await this.notificationRecordService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取通知详情' })
+  @ApiParam({ name: 'id', description: '通知记录ID' })
+  @ApiResponse({ status: 404, description: '通知记录不存在' })
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return await this.notificationRecordService.findOne(id);
+  }
+}
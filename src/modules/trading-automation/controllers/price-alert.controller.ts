@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CreatePriceAlertDto, PriceAlertQueryDto } from '../dto';
+import { PriceAlertService } from '../services/price-alert.service';
+
+/**
+ * 价格提醒控制器
+ * 管理独立于分析区间的用户自定义价格提醒
+ */
+@ApiTags('价格提醒')
+@Controller('api/price-alerts')
+export class PriceAlertController {
+  constructor(private readonly priceAlertService: PriceAlertService) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建价格提醒' })
+  @ApiResponse({ status: 201, description: '创建成功' })
+  async create(@Body() dto: CreatePriceAlertDto) {
+    return await this.priceAlertService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '分页查询价格提醒' })
+  async findAll(@Query() query: PriceAlertQueryDto) {
+    return await this.priceAlertService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取价格提醒详情' })
+  @ApiParam({ name: 'id', description: '提醒ID' })
+  @ApiResponse({ status: 404, description: '提醒不存在' })
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return await this.priceAlertService.findOne(id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '取消价格提醒' })
+  @ApiParam({ name: 'id', description: '提醒ID' })
+  @ApiResponse({ status: 404, description: '提醒不存在' })
+  async cancel(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ message: string }> {
+    await this.priceAlertService.cancel(id);
+    return { message: '价格提醒已取消' };
+  }
+}
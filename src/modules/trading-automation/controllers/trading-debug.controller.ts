@@ -128,19 +128,21 @@ export class TradingDebugController {
   @Get('trigger-stats')
   async getTriggerStats() {
     const stats = this.priceTriggerDetectionService.getTriggerStatistics();
+    const persistence = await this.priceTriggerDetectionService.getPersistenceSummary();
     const notificationStatus = this.tradingNotificationService.getNotificationStatus();
     
     return {
       success: true,
       data: {
         triggerStats: stats,
+        persistence,
         notificationStatus,
       },
     };
   }
 
   /**
-   * 清理触发记录
+   * 清理触发记录（同时清理已持久化的状态）
    */
   @Post('clear-triggers')
   async clearTriggers(@Body() body: { symbol: string }) {
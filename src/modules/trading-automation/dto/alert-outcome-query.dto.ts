@@ -0,0 +1,102 @@
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 触发结果统计查询DTO
+ */
+export class AlertOutcomeStatsQueryDto {
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: '触发类型',
+    enum: ['BUY', 'SELL'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['BUY', 'SELL'], { message: '不支持的触发类型' })
+  triggerType?: string;
+
+  @ApiProperty({
+    description: '区间强度',
+    enum: ['WEAK', 'MEDIUM', 'STRONG', 'MAJOR'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['WEAK', 'MEDIUM', 'STRONG', 'MAJOR'], { message: '不支持的区间强度' })
+  strength?: string;
+
+  @ApiProperty({ description: '区间识别的时间周期', required: false })
+  @IsOptional()
+  @IsString({ message: '时间周期必须是字符串' })
+  timeframe?: string;
+
+  @ApiProperty({ description: '最低区间置信度(0-100)', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '最低置信度必须是数字' })
+  @Min(0, { message: '最低置信度不能小于0' })
+  @Max(100, { message: '最低置信度不能大于100' })
+  minConfidence?: number;
+
+  @ApiProperty({
+    description: '统计的时间窗口，如 1h、4h、24h，默认为配置中最长的窗口',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^\d+[mhd]$/, { message: '时间窗口格式错误，示例: 4h' })
+  horizon?: string;
+
+  @ApiProperty({ description: '开始时间（毫秒时间戳）', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '开始时间必须是毫秒时间戳' })
+  startTime?: number;
+
+  @ApiProperty({ description: '结束时间（毫秒时间戳）', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '结束时间必须是毫秒时间戳' })
+  endTime?: number;
+}
+
+/**
+ * 触发结果查询DTO
+ * 支持分页和过滤条件
+ */
+export class AlertOutcomeQueryDto extends AlertOutcomeStatsQueryDto {
+  @ApiProperty({ description: '页码', required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '页码必须是数字' })
+  @Min(1, { message: '页码不能小于1' })
+  page?: number = 1;
+
+  @ApiProperty({ description: '每页数量', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '每页数量必须是数字' })
+  @Min(1, { message: '每页数量不能小于1' })
+  @Max(100, { message: '每页数量不能大于100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: '跟踪状态',
+    enum: ['TRACKING', 'COMPLETED'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['TRACKING', 'COMPLETED'], { message: '不支持的跟踪状态' })
+  status?: string;
+}
@@ -0,0 +1,3 @@
+export * from './notification-query.dto';
+export * from './alert-outcome-query.dto';
+export * from './price-alert.dto';
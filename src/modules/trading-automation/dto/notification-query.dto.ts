@@ -0,0 +1,93 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const NOTIFICATION_CATEGORIES = [
+  'PRICE_TRIGGER',
+  'MULTI_ZONE',
+  'ZONE_CROSSING',
+  'PRICE_ALERT',
+  'SYSTEM_STATUS',
+  'TEST',
+];
+
+/**
+ * 通知记录查询DTO
+ * 支持分页和过滤条件
+ */
+export class NotificationQueryDto {
+  @ApiProperty({ description: '页码', required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '页码必须是数字' })
+  @Min(1, { message: '页码不能小于1' })
+  page?: number = 1;
+
+  @ApiProperty({ description: '每页数量', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '每页数量必须是数字' })
+  @Min(1, { message: '每页数量不能小于1' })
+  @Max(100, { message: '每页数量不能大于100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: '通知类别',
+    enum: NOTIFICATION_CATEGORIES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(NOTIFICATION_CATEGORIES, { message: '不支持的通知类别' })
+  category?: string;
+
+  @ApiProperty({
+    description: '通知级别',
+    enum: ['info', 'success', 'warning', 'error'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['info', 'success', 'warning', 'error'], {
+    message: '不支持的通知级别',
+  })
+  type?: string;
+
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({ description: '信号方向 (BUY/SELL)', required: false })
+  @IsOptional()
+  @IsString({ message: '信号方向必须是字符串' })
+  signal?: string;
+
+  @ApiProperty({ description: '是否发送成功', required: false })
+  @IsOptional()
+  @IsBoolean({ message: '是否发送成功必须是布尔值' })
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  delivered?: boolean;
+
+  @ApiProperty({ description: '开始时间（毫秒时间戳）', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '开始时间必须是毫秒时间戳' })
+  startTime?: number;
+
+  @ApiProperty({ description: '结束时间（毫秒时间戳）', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '结束时间必须是毫秒时间戳' })
+  endTime?: number;
+}
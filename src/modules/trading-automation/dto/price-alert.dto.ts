@@ -0,0 +1,179 @@
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  PriceAlertCondition,
+  PriceAlertMode,
+  PriceAlertStatus,
+} from '../interfaces';
+
+export const PRICE_ALERT_CONDITIONS: PriceAlertCondition[] = [
+  'PRICE_ABOVE',
+  'PRICE_BELOW',
+  'PERCENT_MOVE',
+  'EMA_CROSS_ABOVE',
+  'EMA_CROSS_BELOW',
+  'RSI_ABOVE',
+  'RSI_BELOW',
+  'DIVERGENCE_BULLISH',
+  'DIVERGENCE_BEARISH',
+];
+
+export const PRICE_ALERT_MODES: PriceAlertMode[] = ['ONCE', 'RECURRING'];
+
+export const PRICE_ALERT_STATUSES: PriceAlertStatus[] = [
+  'ACTIVE',
+  'TRIGGERED',
+  'EXPIRED',
+  'CANCELLED',
+];
+
+/**
+ * 创建价格提醒DTO
+ */
+export class CreatePriceAlertDto {
+  @ApiProperty({ description: '交易对符号', example: 'BTCUSDT' })
+  @IsString({ message: '交易对符号必须是字符串' })
+  @Length(1, 20, { message: '交易对符号长度必须在1-20个字符之间' })
+  symbol: string;
+
+  @ApiProperty({ description: '提醒条件', enum: PRICE_ALERT_CONDITIONS })
+  @IsIn(PRICE_ALERT_CONDITIONS, { message: '不支持的提醒条件' })
+  condition: PriceAlertCondition;
+
+  @ApiProperty({
+    description:
+      '阈值：价格条件为目标价格，PERCENT_MOVE 为涨跌幅(%)，RSI 条件为 RSI 值，背离条件为最低置信度（可选），EMA 交叉不需要',
+    required: false,
+    example: 70000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '阈值必须是数字' })
+  threshold?: number;
+
+  @ApiProperty({
+    description: 'EMA/RSI 周期，EMA 默认 20，RSI 默认 14',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: '周期必须是整数' })
+  @Min(2, { message: '周期不能小于2' })
+  @Max(500, { message: '周期不能大于500' })
+  period?: number;
+
+  @ApiProperty({
+    description:
+      'EMA/RSI/背离 使用的K线周期（背离仅支持 15m、1h、4h、1d），或 PERCENT_MOVE 的统计窗口（如 15m、1h、4h），默认 1h',
+    required: false,
+    example: '1h',
+  })
+  @IsOptional()
+  @Matches(/^\d+[mhd]$/, { message: '时间周期格式错误，示例: 1h' })
+  timeframe?: string;
+
+  @ApiProperty({
+    description: '提醒模式',
+    enum: PRICE_ALERT_MODES,
+    required: false,
+    default: 'ONCE',
+  })
+  @IsOptional()
+  @IsIn(PRICE_ALERT_MODES, { message: '不支持的提醒模式' })
+  mode?: PriceAlertMode;
+
+  @ApiProperty({
+    description: '重复提醒的最小间隔（分钟）',
+    required: false,
+    default: 60,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: '提醒间隔必须是整数' })
+  @Min(0, { message: '提醒间隔不能小于0' })
+  cooldownMinutes?: number;
+
+  @ApiProperty({
+    description: '过期时间，不设置则永不过期',
+    required: false,
+    example: '2025-09-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: '过期时间格式错误' })
+  expiresAt?: string;
+
+  @ApiProperty({ description: '备注', required: false })
+  @IsOptional()
+  @IsString({ message: '备注必须是字符串' })
+  @Length(0, 200, { message: '备注不能超过200个字符' })
+  note?: string;
+
+  @ApiProperty({
+    description: '接收提醒的 Telegram 聊天ID，不设置则发送到默认聊天',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: '聊天ID必须是字符串' })
+  chatId?: string;
+}
+
+/**
+ * 价格提醒查询DTO
+ * 支持分页和过滤条件
+ */
+export class PriceAlertQueryDto {
+  @ApiProperty({ description: '页码', required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '页码必须是数字' })
+  @Min(1, { message: '页码不能小于1' })
+  page?: number = 1;
+
+  @ApiProperty({ description: '每页数量', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '每页数量必须是数字' })
+  @Min(1, { message: '每页数量不能小于1' })
+  @Max(100, { message: '每页数量不能大于100' })
+  limit?: number = 20;
+
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: '提醒条件',
+    enum: PRICE_ALERT_CONDITIONS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(PRICE_ALERT_CONDITIONS, { message: '不支持的提醒条件' })
+  condition?: string;
+
+  @ApiProperty({
+    description: '提醒状态',
+    enum: PRICE_ALERT_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(PRICE_ALERT_STATUSES, { message: '不支持的提醒状态' })
+  status?: string;
+
+  @ApiProperty({ description: 'Telegram 聊天ID', required: false })
+  @IsOptional()
+  @IsString({ message: '聊天ID必须是字符串' })
+  chatId?: string;
+}
@@ -2,10 +2,15 @@
  * 交易自动化相关接口定义
  */
 
+import { IDivergence } from '../../technical-analysis/interfaces';
+
 export interface TradingZone {
   price: number;
   tolerance: number;
   confidence: number;
+  strength?: string; // 区间强度
+  timeframe?: string; // 区间识别的时间周期
+  atr?: number; // 区间所属时间周期的ATR，容差按其缩放
 }
 
 export interface TriggerEvent {
@@ -16,6 +21,8 @@ export interface TriggerEvent {
   tolerance: number;
   confidence: number;
   timestamp: number;
+  strength?: string;
+  timeframe?: string;
 }
 
 export interface AnalysisStatus {
@@ -23,10 +30,14 @@ export interface AnalysisStatus {
   lastExecutionTime?: number;
 }
 
+export type PriceFeedMode = 'websocket' | 'polling';
+
 export interface PriceMonitorStatus {
   isConnected: boolean;
+  mode: PriceFeedMode;
   monitoredSymbolsCount: number;
   reconnectAttempts: number;
+  lastMessageAt?: number;
 }
 
 export interface TriggerStatistics {
@@ -55,4 +66,219 @@ export interface TriggerTestResult {
   notifications: TriggerEvent[];
   testPrice: number;
   timestamp: number;
-}
\ No newline at end of file
+}
+
+/**
+ * 单个交易对的价格触发检测状态（持久化后用于重启恢复）
+ */
+export interface PersistedTriggerState {
+  symbol: string;
+  zoneStates: Record<string, boolean>; // zoneKey -> 价格是否在区间内
+  zoneTriggeredFlags: string[];
+  triggeredZones: Record<string, string[]>; // BUY/SELL -> 已触发的价格
+  triggerHistory: Record<string, number>; // triggerKey -> 最后触发时间戳
+  recentAlerts: Record<string, number[]>; // 告警类型 -> 最近的告警时间戳，用于频率限制
+  lastNotificationAt: number | null;
+}
+
+/**
+ * 触发检测状态持久化概况
+ */
+export interface TriggerStatePersistenceSummary {
+  persistedSymbols: number;
+  pendingSymbols: number;
+  lastPersistedAt: Date | null;
+}
+
+/**
+ * 通知类别
+ */
+export type NotificationCategory =
+  | 'PRICE_TRIGGER'
+  | 'MULTI_ZONE'
+  | 'ZONE_CROSSING'
+  | 'PRICE_ALERT'
+  | 'POSITION_RISK'
+  | 'ORDER_FILL'
+  | 'PAPER_TRADE'
+  | 'SYSTEM_STATUS'
+  | 'TEST';
+
+/**
+ * 通知级别
+ */
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * 待记录的通知
+ */
+export interface NotificationLogEntry {
+  category: NotificationCategory;
+  type: NotificationLevel;
+  title: string;
+  message: string;
+  symbol?: string;
+  signal?: string;
+  confidence?: number; // 0-1
+  data?: any;
+  timestamp?: number;
+}
+
+/**
+ * 通知记录视图
+ */
+export interface NotificationRecordView {
+  id: number;
+  category: string;
+  type: string;
+  title: string;
+  message: string;
+  symbol: string | null;
+  signal: string | null;
+  confidence: number | null; // 0-100
+  data: any;
+  delivered: boolean;
+  deliveryError: string | null;
+  messageId: number | null;
+  timestamp: Date;
+  createdAt: Date;
+}
+
+/**
+ * 触发结果跟踪状态
+ */
+export type AlertOutcomeStatus = 'TRACKING' | 'COMPLETED';
+
+/**
+ * 单个时间窗口的触发结果
+ * 波动均以触发价格为基准的百分比表示，有利/不利方向取决于触发类型
+ */
+export interface AlertOutcomeHorizonResult {
+  horizon: string; // 如 1h、4h、24h
+  evaluated: boolean;
+  maxFavorable: number | null; // 最大有利波动(%)
+  maxAdverse: number | null; // 最大不利波动(%)
+  closeReturn: number | null; // 窗口结束时的收益(%)
+  targetReached: boolean;
+  evaluatedAt: number | null;
+}
+
+/**
+ * 触发结果视图
+ */
+export interface AlertOutcomeView {
+  id: number;
+  symbol: string;
+  triggerType: string;
+  triggerPrice: number;
+  zonePrice: number;
+  tolerance: number;
+  confidence: number;
+  strength: string | null;
+  timeframe: string | null;
+  targetPrice: number | null;
+  status: AlertOutcomeStatus;
+  horizons: AlertOutcomeHorizonResult[];
+  maxFavorable: number | null;
+  maxAdverse: number | null;
+  targetReached: boolean;
+  targetReachedAt: Date | null;
+  triggeredAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * 触发结果分组统计
+ */
+export interface AlertOutcomeGroupStats {
+  key: string;
+  total: number;
+  hitRate: number; // 到达目标位比例(%)
+  winRate: number; // 窗口结束时盈利比例(%)
+  avgMaxFavorable: number;
+  avgMaxAdverse: number;
+  avgCloseReturn: number;
+}
+
+/**
+ * 触发结果统计
+ */
+export interface AlertOutcomeStatistics {
+  horizon: string;
+  overall: AlertOutcomeGroupStats;
+  bySymbol: AlertOutcomeGroupStats[];
+  byStrength: AlertOutcomeGroupStats[];
+  byTimeframe: AlertOutcomeGroupStats[];
+  byTriggerType: AlertOutcomeGroupStats[];
+}
+
+/**
+ * 价格提醒条件
+ */
+export type PriceAlertCondition =
+  | 'PRICE_ABOVE'
+  | 'PRICE_BELOW'
+  | 'PERCENT_MOVE'
+  | 'EMA_CROSS_ABOVE'
+  | 'EMA_CROSS_BELOW'
+  | 'RSI_ABOVE'
+  | 'RSI_BELOW'
+  | 'DIVERGENCE_BULLISH'
+  | 'DIVERGENCE_BEARISH';
+
+/**
+ * 价格提醒模式：单次提醒后失效，或条件重新满足时重复提醒
+ */
+export type PriceAlertMode = 'ONCE' | 'RECURRING';
+
+/**
+ * 价格提醒状态
+ */
+export type PriceAlertStatus = 'ACTIVE' | 'TRIGGERED' | 'EXPIRED' | 'CANCELLED';
+
+/**
+ * 价格提醒评估状态
+ * armed 为 false 表示已触发且条件尚未解除，解除后才会再次提醒
+ */
+export interface PriceAlertState {
+  armed: boolean;
+  lastSide?: 'ABOVE' | 'BELOW'; // EMA 交叉：上一次评估时价格位于 EMA 的哪一侧
+  lastDivergenceAt?: number; // 背离：已处理的最新背离第二个高低点的时间戳
+}
+
+/**
+ * 价格提醒视图
+ */
+export interface PriceAlertView {
+  id: number;
+  symbol: string;
+  condition: PriceAlertCondition;
+  description: string; // 条件的中文描述，如 "价格高于 70000"
+  threshold: number | null;
+  period: number | null;
+  timeframe: string | null;
+  mode: PriceAlertMode;
+  cooldownMinutes: number;
+  status: PriceAlertStatus;
+  state: PriceAlertState;
+  triggerCount: number;
+  lastTriggeredAt: Date | null;
+  lastValue: number | null;
+  note: string | null;
+  chatId: string | null;
+  source: string;
+  expiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 价格提醒触发事件
+ */
+export interface PriceAlertTriggerEvent {
+  alert: PriceAlertView;
+  price: number | null;
+  value: number; // 触发时的指标值：价格、涨跌幅(%)、EMA、RSI 或背离置信度
+  divergence?: IDivergence; // 背离条件触发时的背离详情
+  timestamp: number;
+}
@@ -0,0 +1,462 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { AlertOutcome } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CCXTDataService } from 'src/modules/ccxt-analysis/services/ccxt-data.service';
+import { IOHLCVData } from 'src/modules/ccxt-analysis/interfaces';
+import { IntervalType } from 'src/shared/enums';
+import { TimeUtil } from 'src/shared/utils';
+import { AlertOutcomeConfig } from 'src/config/alert-outcome.config';
+import { AlertOutcomeQueryDto, AlertOutcomeStatsQueryDto } from '../dto';
+import {
+  AlertOutcomeGroupStats,
+  AlertOutcomeHorizonResult,
+  AlertOutcomeStatistics,
+  AlertOutcomeStatus,
+  AlertOutcomeView,
+  TriggerEvent,
+} from '../interfaces';
+
+/** 单次评估最多获取的K线数量 */
+const MAX_CANDLES = 1000;
+
+/** 时间窗口单位对应的毫秒数 */
+const HORIZON_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 价格触发结果跟踪服务
+ * 记录每次买入/卖出区间触发，在配置的时间窗口结束后评估价格走势，
+ * 并按交易对、区间强度和时间周期统计命中率
+ */
+@Injectable()
+export class AlertOutcomeService {
+  private readonly logger = new Logger(AlertOutcomeService.name);
+  private readonly config: AlertOutcomeConfig;
+  private isEvaluating = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly configService: ConfigService,
+  ) {
+    this.config = this.configService.get<AlertOutcomeConfig>('alertOutcome');
+  }
+
+  /**
+   * 记录一次区间触发
+   * @param event 触发事件
+   * @param targetPrice 下一个阻力位（买入）或支撑位（卖出），没有时为 null
+   */
+  async recordTrigger(
+    event: TriggerEvent,
+    targetPrice: number | null,
+  ): Promise<void> {
+    try {
+      const horizons: AlertOutcomeHorizonResult[] = this.config.horizons.map(
+        (horizon) => ({
+          horizon,
+          evaluated: false,
+          maxFavorable: null,
+          maxAdverse: null,
+          closeReturn: null,
+          targetReached: false,
+          evaluatedAt: null,
+        }),
+      );
+
+      await this.prisma.alertOutcome.create({
+        data: {
+          symbol: event.symbol,
+          triggerType: event.triggerType,
+          triggerPrice: event.currentPrice,
+          zonePrice: event.targetPrice,
+          tolerance: event.tolerance,
+          confidence: Number((event.confidence * 100).toFixed(2)),
+          strength: event.strength,
+          timeframe: event.timeframe,
+          targetPrice,
+          horizons: JSON.stringify(horizons),
+          triggeredAt: new Date(event.timestamp),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`记录触发结果失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 定时评估跟踪中的触发结果
+   */
+  @Cron('0 */5 * * * *', {
+    name: 'alert-outcome-evaluation',
+    timeZone: 'Asia/Shanghai',
+  })
+  async evaluatePendingOutcomes(): Promise<void> {
+    if (this.isEvaluating) {
+      this.logger.warn('上一次触发结果评估尚未完成，跳过本次执行');
+      return;
+    }
+
+    this.isEvaluating = true;
+    try {
+      const pending = await this.prisma.alertOutcome.findMany({
+        where: { status: 'TRACKING' },
+        orderBy: { triggeredAt: 'asc' },
+      });
+
+      const bySymbol = new Map<string, AlertOutcome[]>();
+      pending.forEach((outcome) => {
+        const list = bySymbol.get(outcome.symbol) || [];
+        list.push(outcome);
+        bySymbol.set(outcome.symbol, list);
+      });
+
+      for (const [symbol, outcomes] of bySymbol) {
+        try {
+          await this.evaluateSymbol(symbol, outcomes);
+        } catch (error) {
+          this.logger.error(`评估 ${symbol} 触发结果失败: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`触发结果评估失败: ${error.message}`);
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  /**
+   * 分页查询触发结果
+   */
+  async findAll(query: AlertOutcomeQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+    const skip = (page - 1) * limit;
+    const where = this.buildWhere(query);
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    const [records, total] = await Promise.all([
+      this.prisma.alertOutcome.findMany({
+        where,
+        orderBy: { triggeredAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.alertOutcome.count({ where }),
+    ]);
+
+    return {
+      data: records.map((record) => this.toView(record)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 统计指定时间窗口的命中率
+   * 只统计该窗口已完成评估的触发
+   */
+  async getStatistics(
+    query: AlertOutcomeStatsQueryDto,
+  ): Promise<AlertOutcomeStatistics> {
+    const horizon =
+      query.horizon ||
+      this.config.horizons[this.config.horizons.length - 1] ||
+      '24h';
+    const records = await this.prisma.alertOutcome.findMany({
+      where: this.buildWhere(query),
+      orderBy: { triggeredAt: 'desc' },
+    });
+
+    const samples = records
+      .map((record) => ({
+        record,
+        result: this.parseHorizons(record).find(
+          (item) => item.horizon === horizon && item.evaluated,
+        ),
+      }))
+      .filter((sample) => sample.result);
+
+    const groupBy = (keyOf: (record: AlertOutcome) => string | null) => {
+      const groups = new Map<string, AlertOutcomeHorizonResult[]>();
+      samples.forEach(({ record, result }) => {
+        const key = keyOf(record) || 'UNKNOWN';
+        groups.set(key, [...(groups.get(key) || []), result]);
+      });
+      return [...groups.entries()]
+        .map(([key, results]) => this.summarize(key, results))
+        .sort((a, b) => b.total - a.total);
+    };
+
+    return {
+      horizon,
+      overall: this.summarize(
+        'ALL',
+        samples.map((sample) => sample.result),
+      ),
+      bySymbol: groupBy((record) => record.symbol),
+      byStrength: groupBy((record) => record.strength),
+      byTimeframe: groupBy((record) => record.timeframe),
+      byTriggerType: groupBy((record) => record.triggerType),
+    };
+  }
+
+  /**
+   * 评估同一交易对的所有跟踪中触发
+   * 一次获取覆盖最早触发时间的K线，逐个窗口计算到期的结果
+   */
+  private async evaluateSymbol(
+    symbol: string,
+    outcomes: AlertOutcome[],
+  ): Promise<void> {
+    const now = Date.now();
+    const interval = this.config.evaluationInterval;
+    const intervalMs = TimeUtil.intervalToMilliseconds(
+      interval as IntervalType,
+    );
+
+    // 只有存在到期窗口时才需要获取K线
+    const due = outcomes.filter((outcome) =>
+      this.parseHorizons(outcome).some(
+        (item) =>
+          !item.evaluated &&
+          outcome.triggeredAt.getTime() + this.horizonToMs(item.horizon) <= now,
+      ),
+    );
+    if (due.length === 0) {
+      return;
+    }
+
+    const earliest = Math.min(
+      ...due.map((outcome) => outcome.triggeredAt.getTime()),
+    );
+    const limit = Math.min(
+      MAX_CANDLES,
+      Math.ceil((now - earliest) / intervalMs) + 2,
+    );
+    const candles = await this.ccxtDataService.getOHLCVData(
+      symbol,
+      interval,
+      limit,
+    );
+    if (candles.length === 0) {
+      return;
+    }
+
+    for (const outcome of due) {
+      await this.evaluateOutcome(outcome, candles, intervalMs, now);
+    }
+  }
+
+  /**
+   * 计算单个触发的到期窗口结果并更新记录
+   */
+  private async evaluateOutcome(
+    outcome: AlertOutcome,
+    candles: IOHLCVData[],
+    intervalMs: number,
+    now: number,
+  ): Promise<void> {
+    const triggeredAt = outcome.triggeredAt.getTime();
+    const entry = Number(outcome.triggerPrice);
+    const target =
+      outcome.targetPrice !== null ? Number(outcome.targetPrice) : null;
+    const isBuy = outcome.triggerType === 'BUY';
+    const horizons = this.parseHorizons(outcome);
+    // 最早的K线晚于触发时间时，说明K线无法覆盖该触发，无法准确评估
+    const covered = candles[0].timestamp <= triggeredAt;
+
+    let targetReachedAt: Date | null = outcome.targetReachedAt;
+    for (const item of horizons) {
+      const endTime = triggeredAt + this.horizonToMs(item.horizon);
+      if (item.evaluated || endTime > now) {
+        continue;
+      }
+
+      item.evaluated = true;
+      item.evaluatedAt = now;
+      if (!covered) {
+        continue;
+      }
+
+      // 包含触发时所在的K线，直到窗口结束
+      const window = candles.filter(
+        (candle) =>
+          candle.timestamp + intervalMs > triggeredAt &&
+          candle.timestamp < endTime,
+      );
+      if (window.length === 0) {
+        continue;
+      }
+
+      const high = Math.max(...window.map((candle) => candle.high));
+      const low = Math.min(...window.map((candle) => candle.low));
+      const close = window[window.length - 1].close;
+      const upMove = ((high - entry) / entry) * 100;
+      const downMove = ((entry - low) / entry) * 100;
+
+      item.maxFavorable = this.round(isBuy ? upMove : downMove);
+      item.maxAdverse = this.round(isBuy ? downMove : upMove);
+      item.closeReturn = this.round(
+        ((isBuy ? close - entry : entry - close) / entry) * 100,
+      );
+
+      if (target !== null) {
+        const hit = window.find((candle) =>
+          isBuy ? candle.high >= target : candle.low <= target,
+        );
+        item.targetReached = !!hit;
+        if (hit && !targetReachedAt) {
+          targetReachedAt = new Date(Math.max(hit.timestamp, triggeredAt));
+        }
+      }
+    }
+
+    const evaluated = horizons.filter(
+      (item) => item.evaluated && item.maxFavorable !== null,
+    );
+    const latest = evaluated[evaluated.length - 1];
+    const completed = horizons.every((item) => item.evaluated);
+    const status: AlertOutcomeStatus = completed ? 'COMPLETED' : 'TRACKING';
+
+    await this.prisma.alertOutcome.update({
+      where: { id: outcome.id },
+      data: {
+        horizons: JSON.stringify(horizons),
+        maxFavorable: latest ? latest.maxFavorable : null,
+        maxAdverse: latest ? latest.maxAdverse : null,
+        targetReached: evaluated.some((item) => item.targetReached),
+        targetReachedAt,
+        status,
+        completedAt: completed ? new Date(now) : null,
+      },
+    });
+  }
+
+  private summarize(
+    key: string,
+    results: AlertOutcomeHorizonResult[],
+  ): AlertOutcomeGroupStats {
+    const valid = results.filter((result) => result.maxFavorable !== null);
+    const total = valid.length;
+    const average = (values: number[]) =>
+      total > 0
+        ? this.round(values.reduce((sum, value) => sum + value, 0) / total)
+        : 0;
+
+    return {
+      key,
+      total,
+      hitRate:
+        total > 0
+          ? this.round(
+              (valid.filter((result) => result.targetReached).length / total) *
+                100,
+            )
+          : 0,
+      winRate:
+        total > 0
+          ? this.round(
+              (valid.filter((result) => result.closeReturn > 0).length /
+                total) *
+                100,
+            )
+          : 0,
+      avgMaxFavorable: average(valid.map((result) => result.maxFavorable)),
+      avgMaxAdverse: average(valid.map((result) => result.maxAdverse)),
+      avgCloseReturn: average(valid.map((result) => result.closeReturn)),
+    };
+  }
+
+  private buildWhere(query: AlertOutcomeStatsQueryDto): any {
+    const where: any = {};
+
+    if (query.symbol) {
+      where.symbol = query.symbol.toUpperCase();
+    }
+
+    if (query.triggerType) {
+      where.triggerType = query.triggerType;
+    }
+
+    if (query.strength) {
+      where.strength = query.strength;
+    }
+
+    if (query.timeframe) {
+      where.timeframe = query.timeframe;
+    }
+
+    if (query.minConfidence !== undefined) {
+      where.confidence = { gte: Number(query.minConfidence) };
+    }
+
+    if (query.startTime || query.endTime) {
+      where.triggeredAt = {};
+      if (query.startTime) {
+        where.triggeredAt.gte = new Date(Number(query.startTime));
+      }
+      if (query.endTime) {
+        where.triggeredAt.lte = new Date(Number(query.endTime));
+      }
+    }
+
+    return where;
+  }
+
+  private horizonToMs(horizon: string): number {
+    const match = /^(\d+)([mhd])$/.exec(horizon);
+    return match ? Number(match[1]) * HORIZON_UNIT_MS[match[2]] : 0;
+  }
+
+  private parseHorizons(outcome: AlertOutcome): AlertOutcomeHorizonResult[] {
+    try {
+      return JSON.parse(outcome.horizons);
+    } catch {
+      return [];
+    }
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(4));
+  }
+
+  private toView(record: AlertOutcome): AlertOutcomeView {
+    return {
+      id: record.id,
+      symbol: record.symbol,
+      triggerType: record.triggerType,
+      triggerPrice: Number(record.triggerPrice),
+      zonePrice: Number(record.zonePrice),
+      tolerance: Number(record.tolerance),
+      confidence: Number(record.confidence),
+      strength: record.strength,
+      timeframe: record.timeframe,
+      targetPrice:
+        record.targetPrice !== null ? Number(record.targetPrice) : null,
+      status: record.status as AlertOutcomeStatus,
+      horizons: this.parseHorizons(record),
+      maxFavorable:
+        record.maxFavorable !== null ? Number(record.maxFavorable) : null,
+      maxAdverse: record.maxAdverse !== null ? Number(record.maxAdverse) : null,
+      targetReached: record.targetReached,
+      targetReachedAt: record.targetReachedAt,
+      triggeredAt: record.triggeredAt,
+      completedAt: record.completedAt,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { NotificationRecord } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SendMessageResult } from 'src/modules/telegram-bot';
+import { NotificationQueryDto } from '../dto';
+import { NotificationLogEntry, NotificationRecordView } from '../interfaces';
+
+/**
+ * 通知记录服务
+ * 负责将发出的通知及其发送结果写入 NotificationRecord 表，并提供查询
+ */
+@Injectable()
+export class NotificationRecordService {
+  private readonly logger = new Logger(NotificationRecordService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 记录一条通知
+   * 记录失败只输出日志，不影响通知发送流程
+   * @param entry 通知内容
+   * @param result 发送结果
+   */
+  async record(
+    entry: NotificationLogEntry,
+    result: SendMessageResult,
+  ): Promise<NotificationRecordView | null> {
+    try {
+      const record = await this.prisma.notificationRecord.create({
+        data: {
+          category: entry.category,
+          type: entry.type,
+          title: entry.title.slice(0, 200),
+          message: entry.message,
+          symbol: entry.symbol,
+          signal: entry.signal,
+          confidence:
+            entry.confidence !== undefined
+              ? Number((entry.confidence * 100).toFixed(2))
+              : undefined,
+          data: entry.data !== undefined ? JSON.stringify(entry.data) : null,
+          delivered: result.success,
+          deliveryError: result.success ? null : result.error || '未知错误',
+          messageId: result.messageId,
+          timestamp: new Date(entry.timestamp || Date.now()),
+        },
+      });
+
+      return this.toView(record);
+    } catch (error) {
+      this.logger.error(`保存通知记录失败: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * 分页查询通知记录
+   */
+  async findAll(query: NotificationQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+    const skip = (page - 1) * limit;
+    const where: any = {};
+
+    if (query.category) {
+      where.category = query.category;
+    }
+
+    if (query.type) {
+      where.type = query.type;
+    }
+
+    if (query.symbol) {
+      where.symbol = query.symbol.toUpperCase();
+    }
+
+    if (query.signal) {
+      where.signal = query.signal.toUpperCase();
+    }
+
+    if (query.delivered !== undefined) {
+      where.delivered = String(query.delivered) === 'true';
+    }
+
+    if (query.startTime || query.endTime) {
+      where.timestamp = {};
+      if (query.startTime) {
+        where.timestamp.gte = new Date(Number(query.startTime));
+      }
+      if (query.endTime) {
+        where.timestamp.lte = new Date(Number(query.endTime));
+      }
+    }
+
+    const [records, total] = await Promise.all([
+      this.prisma.notificationRecord.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.notificationRecord.count({ where }),
+    ]);
+
+    return {
+      data: records.map((record) => this.toView(record)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 获取单条通知记录
+   */
+  async findOne(id: number): Promise<NotificationRecordView> {
+    const record = await this.prisma.notificationRecord.findUnique({
+      where: { id },
+    });
+
+    if (!record) {
+      throw new NotFoundException(`ID为 ${id} 的通知记录不存在`);
+    }
+
+    return this.toView(record);
+  }
+
+  private toView(record: NotificationRecord): NotificationRecordView {
+    let data = null;
+    if (record.data) {
+      try {
+        data = JSON.parse(record.data);
+      } catch {
+        data = record.data;
+      }
+    }
+
+    return {
+      id: record.id,
+      category: record.category,
+      type: record.type,
+      title: record.title,
+      message: record.message,
+      symbol: record.symbol,
+      signal: record.signal,
+      confidence: record.confidence !== null ? Number(record.confidence) : null,
+      data,
+      delivered: record.delivered,
+      deliveryError: record.deliveryError,
+      messageId: record.messageId,
+      timestamp: record.timestamp,
+      createdAt: record.createdAt,
+    };
+  }
+}
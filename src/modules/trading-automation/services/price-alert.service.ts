@@ -0,0 +1,776 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PriceAlert, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CCXTDataService } from 'src/modules/ccxt-analysis/services/ccxt-data.service';
+import { EMAAnalysisService } from 'src/modules/ccxt-analysis/services/ema-analysis.service';
+import { RSIAnalysisService } from 'src/modules/ccxt-analysis/services/rsi-analysis.service';
+import { DivergenceService } from 'src/modules/technical-analysis/services/divergence.service';
+import {
+  IDivergence,
+  TimeframeType,
+} from 'src/modules/technical-analysis/interfaces';
+import { TimeUtil } from 'src/shared/utils';
+import { TradingNotificationService } from './trading-notification.service';
+import {
+  CreatePriceAlertDto,
+  PRICE_ALERT_CONDITIONS,
+  PRICE_ALERT_MODES,
+  PriceAlertQueryDto,
+} from '../dto';
+import {
+  PriceAlertCondition,
+  PriceAlertMode,
+  PriceAlertState,
+  PriceAlertStatus,
+  PriceAlertView,
+} from '../interfaces';
+
+/** 在实时价格流中逐笔评估的条件，其余条件由定时任务评估 */
+const TICK_CONDITIONS: PriceAlertCondition[] = ['PRICE_ABOVE', 'PRICE_BELOW'];
+
+const DEFAULT_TIMEFRAME = '1h';
+const DEFAULT_EMA_PERIOD = 20;
+const DEFAULT_RSI_PERIOD = 14;
+const DEFAULT_COOLDOWN_MINUTES = 60;
+
+/** 背离条件支持的K线周期 */
+const DIVERGENCE_TIMEFRAMES: TimeframeType[] = ['15m', '1h', '4h', '1d'];
+
+/** 背离识别获取的K线数量 */
+const DIVERGENCE_CANDLES = 200;
+
+/** 涨跌幅统计窗口单位对应的毫秒数 */
+const WINDOW_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** 涨跌幅统计窗口的最大长度 */
+const MAX_WINDOW_MS = 30 * WINDOW_UNIT_MS.d;
+
+/** 单次评估最多获取的K线数量 */
+const MAX_CANDLES = 1000;
+
+/** 单次条件评估结果 */
+interface EvaluationResult {
+  met: boolean;
+  value: number;
+  price: number | null;
+  divergences?: IDivergence[]; // 背离条件：当前识别到的背离
+  divergence?: IDivergence; // 背离条件：本次满足条件的背离
+}
+
+/**
+ * 价格提醒服务
+ * 管理用户自定义的价格提醒，价格条件随实时价格逐笔评估，
+ * 涨跌幅、EMA 交叉、RSI 和背离条件由定时任务按分钟评估
+ */
+@Injectable()
+export class PriceAlertService implements OnModuleInit {
+  private readonly logger = new Logger(PriceAlertService.name);
+
+  // 生效中的提醒缓存，避免逐笔价格查询数据库
+  private activeAlerts = new Map<number, PriceAlert>();
+  private latestPrices = new Map<string, number>();
+  private symbolListeners: Array<(symbols: string[]) => void> = [];
+  private isEvaluating = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly emaAnalysisService: EMAAnalysisService,
+    private readonly rsiAnalysisService: RSIAnalysisService,
+    private readonly divergenceService: DivergenceService,
+    private readonly notificationService: TradingNotificationService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      const alerts = await this.prisma.priceAlert.findMany({
+        where: { status: 'ACTIVE' },
+      });
+      alerts.forEach((alert) => this.activeAlerts.set(alert.id, alert));
+      this.logger.log(`加载 ${alerts.length} 个生效中的价格提醒`);
+    } catch (error) {
+      this.logger.error(`加载价格提醒失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 创建价格提醒
+   * @param dto 提醒参数
+   * @param source 创建来源：API 或 TELEGRAM
+   */
+  async create(
+    dto: CreatePriceAlertDto,
+    source: 'API' | 'TELEGRAM' = 'API',
+  ): Promise<PriceAlertView> {
+    const data = this.buildCreateData(dto);
+    const alert = await this.prisma.priceAlert.create({
+      data: { ...data, source },
+    });
+
+    this.activeAlerts.set(alert.id, alert);
+    this.notifySymbolListeners();
+    this.logger.log(
+      `创建价格提醒 #${alert.id}: ${alert.symbol} ${this.describe(alert)}`,
+    );
+
+    return this.toView(alert);
+  }
+
+  /**
+   * 分页查询价格提醒
+   */
+  async findAll(query: PriceAlertQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+    const skip = (page - 1) * limit;
+    const where: Prisma.PriceAlertWhereInput = {};
+
+    if (query.symbol) {
+      where.symbol = this.normalizeSymbol(query.symbol);
+    }
+
+    if (query.condition) {
+      where.condition = query.condition;
+    }
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    if (query.chatId) {
+      where.chatId = query.chatId;
+    }
+
+    const [alerts, total] = await Promise.all([
+      this.prisma.priceAlert.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.priceAlert.count({ where }),
+    ]);
+
+    return {
+      data: alerts.map((alert) => this.toView(alert)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 获取单个价格提醒
+   */
+  async findOne(id: number): Promise<PriceAlertView> {
+    const alert = await this.prisma.priceAlert.findUnique({ where: { id } });
+
+    if (!alert) {
+      throw new NotFoundException(`ID为 ${id} 的价格提醒不存在`);
+    }
+
+    return this.toView(alert);
+  }
+
+  /**
+   * 取消价格提醒
+   */
+  async cancel(id: number): Promise<PriceAlertView> {
+    const alert = await this.findOne(id);
+
+    if (alert.status !== 'ACTIVE') {
+      throw new BadRequestException(`价格提醒 #${id} 已不在生效状态`);
+    }
+
+    const updated = await this.prisma.priceAlert.update({
+      where: { id },
+      data: { status: 'CANCELLED' },
+    });
+
+    this.activeAlerts.delete(id);
+    this.notifySymbolListeners();
+    this.logger.log(`取消价格提醒 #${id}`);
+
+    return this.toView(updated);
+  }
+
+  /**
+   * 获取生效中提醒涉及的交易对
+   */
+  getActiveSymbols(): string[] {
+    return Array.from(
+      new Set(
+        Array.from(this.activeAlerts.values()).map((alert) => alert.symbol),
+      ),
+    );
+  }
+
+  /**
+   * 添加交易对变化监听器
+   * 生效中提醒涉及的交易对变化时回调，供实时价格监控调整订阅
+   */
+  addSymbolListener(listener: (symbols: string[]) => void): void {
+    this.symbolListeners.push(listener);
+  }
+
+  /**
+   * 逐笔评估价格条件
+   * @param rawSymbol 交易对符号
+   * @param price 最新价格
+   */
+  async checkPrice(rawSymbol: string, price: number): Promise<void> {
+    const symbol = this.normalizeSymbol(rawSymbol);
+    this.latestPrices.set(symbol, price);
+
+    const now = Date.now();
+    const alerts = Array.from(this.activeAlerts.values()).filter(
+      (alert) =>
+        alert.symbol === symbol &&
+        TICK_CONDITIONS.includes(alert.condition as PriceAlertCondition) &&
+        !this.isExpired(alert, now),
+    );
+
+    for (const alert of alerts) {
+      const threshold = Number(alert.threshold);
+      const met =
+        alert.condition === 'PRICE_ABOVE'
+          ? price >= threshold
+          : price <= threshold;
+
+      try {
+        await this.applyResult(alert, this.parseState(alert), {
+          met,
+          value: price,
+          price,
+        });
+      } catch (error) {
+        this.logger.error(`评估价格提醒 #${alert.id} 失败: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 定时评估涨跌幅、EMA 交叉、RSI 和背离条件，并处理过期提醒
+   */
+  @Cron('0 * * * * *', {
+    name: 'price-alert-evaluation',
+    timeZone: 'Asia/Shanghai',
+  })
+  async evaluateScheduledAlerts(): Promise<void> {
+    if (this.isEvaluating) {
+      this.logger.warn('上一次价格提醒评估尚未完成，跳过本次执行');
+      return;
+    }
+
+    this.isEvaluating = true;
+    try {
+      await this.expireAlerts();
+
+      // 同一轮评估中相同交易对和参数的指标只计算一次
+      const cache = new Map<string, Promise<EvaluationResult>>();
+      const alerts = Array.from(this.activeAlerts.values()).filter(
+        (alert) =>
+          !TICK_CONDITIONS.includes(alert.condition as PriceAlertCondition),
+      );
+
+      for (const alert of alerts) {
+        try {
+          const state = this.parseState(alert);
+          const result = await this.evaluateIndicator(alert, state, cache);
+          await this.applyResult(alert, state, result);
+        } catch (error) {
+          this.logger.error(`评估价格提醒 #${alert.id} 失败: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`价格提醒评估失败: ${error.message}`);
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  /**
+   * 将过期的提醒标记为 EXPIRED
+   */
+  private async expireAlerts(): Promise<void> {
+    const now = Date.now();
+    const expired = Array.from(this.activeAlerts.values()).filter((alert) =>
+      this.isExpired(alert, now),
+    );
+    if (expired.length === 0) {
+      return;
+    }
+
+    const ids = expired.map((alert) => alert.id);
+    await this.prisma.priceAlert.updateMany({
+      where: { id: { in: ids }, status: 'ACTIVE' },
+      data: { status: 'EXPIRED' },
+    });
+
+    ids.forEach((id) => this.activeAlerts.delete(id));
+    this.notifySymbolListeners();
+    this.logger.log(`${ids.length} 个价格提醒已过期: #${ids.join(', #')}`);
+  }
+
+  /**
+   * 评估指标类条件
+   */
+  private async evaluateIndicator(
+    alert: PriceAlert,
+    state: PriceAlertState,
+    cache: Map<string, Promise<EvaluationResult>>,
+  ): Promise<EvaluationResult> {
+    const threshold = Number(alert.threshold);
+    const key = `${alert.condition.split('_')[0]}:${alert.symbol}:${alert.timeframe}:${alert.period}`;
+    if (!cache.has(key)) {
+      cache.set(key, this.fetchIndicator(alert));
+    }
+    const result = await cache.get(key);
+
+    switch (alert.condition as PriceAlertCondition) {
+      case 'PERCENT_MOVE':
+        return { ...result, met: Math.abs(result.value) >= threshold };
+
+      case 'RSI_ABOVE':
+        return { ...result, met: result.value >= threshold };
+
+      case 'RSI_BELOW':
+        return { ...result, met: result.value <= threshold };
+
+      case 'EMA_CROSS_ABOVE':
+      case 'EMA_CROSS_BELOW': {
+        const side = result.price >= result.value ? 'ABOVE' : 'BELOW';
+        const target =
+          alert.condition === 'EMA_CROSS_ABOVE' ? 'ABOVE' : 'BELOW';
+        // 首次评估只记录价格所在的一侧，之后价格换到目标一侧时才算交叉
+        const met =
+          !!state.lastSide && state.lastSide !== side && side === target;
+        state.lastSide = side;
+        return { ...result, met };
+      }
+
+      case 'DIVERGENCE_BULLISH':
+      case 'DIVERGENCE_BEARISH': {
+        const bias =
+          alert.condition === 'DIVERGENCE_BULLISH' ? 'BULLISH' : 'BEARISH';
+        const matched = result.divergences.filter(
+          (divergence) =>
+            divergence.bias === bias &&
+            (alert.threshold === null || divergence.confidence >= threshold),
+        );
+        const latestAt = Math.max(
+          0,
+          ...matched.map((divergence) => divergence.end.timestamp),
+        );
+        // 首次评估只记录已有背离，之后出现新的背离时才触发
+        const divergence =
+          state.lastDivergenceAt !== undefined
+            ? matched.find(
+                (divergence) =>
+                  divergence.end.timestamp > state.lastDivergenceAt,
+              )
+            : undefined;
+        state.lastDivergenceAt = Math.max(
+          state.lastDivergenceAt ?? 0,
+          latestAt,
+        );
+        return {
+          ...result,
+          met: !!divergence,
+          value: divergence?.confidence ?? 0,
+          divergence,
+        };
+      }
+
+      default:
+        throw new Error(`不支持的提醒条件: ${alert.condition}`);
+    }
+  }
+
+  /**
+   * 获取指标类条件的当前值
+   * PERCENT_MOVE 为统计窗口内的涨跌幅(%)，EMA 条件为 EMA 值，RSI 条件为 RSI 值，
+   * 背离条件返回当前识别到的背离，由调用方按方向筛选
+   */
+  private async fetchIndicator(alert: PriceAlert): Promise<EvaluationResult> {
+    const timeframe = alert.timeframe || DEFAULT_TIMEFRAME;
+
+    if (alert.condition === 'PERCENT_MOVE') {
+      const windowMs = this.windowToMs(timeframe);
+      const interval =
+        windowMs <= 12 * WINDOW_UNIT_MS.h
+          ? '1m'
+          : windowMs <= 10 * WINDOW_UNIT_MS.d
+            ? '15m'
+            : '1h';
+      const intervalMs = this.windowToMs(interval);
+      const candles = await this.ccxtDataService.getOHLCVData(
+        alert.symbol,
+        interval,
+        Math.min(MAX_CANDLES, Math.ceil(windowMs / intervalMs) + 1),
+      );
+
+      const start = Date.now() - windowMs;
+      const inWindow = candles.filter(
+        (candle) => candle.timestamp + intervalMs > start,
+      );
+      if (inWindow.length === 0) {
+        throw new Error(`${alert.symbol} 没有 ${timeframe} 内的K线数据`);
+      }
+
+      const reference = inWindow[0].open;
+      const price = inWindow[inWindow.length - 1].close;
+      return {
+        met: false,
+        value: ((price - reference) / reference) * 100,
+        price,
+      };
+    }
+
+    if (alert.condition.startsWith('DIVERGENCE')) {
+      const candles = await this.ccxtDataService.getOHLCVData(
+        alert.symbol,
+        timeframe,
+        DIVERGENCE_CANDLES,
+      );
+      return {
+        met: false,
+        value: 0,
+        price: candles[candles.length - 1]?.close ?? null,
+        divergences: this.divergenceService.detectDivergences(
+          candles,
+          timeframe as TimeframeType,
+        ),
+      };
+    }
+
+    if (alert.condition.startsWith('EMA')) {
+      const period = alert.period || DEFAULT_EMA_PERIOD;
+      const data = await this.emaAnalysisService.getDetailedEMAData(
+        alert.symbol,
+        timeframe,
+        [period],
+        Math.max(period * 5, 200),
+      );
+      return {
+        met: false,
+        value: data.emaResults[`ema${period}`],
+        price: data.latestPrice,
+      };
+    }
+
+    const period = alert.period || DEFAULT_RSI_PERIOD;
+    const analysis = await this.rsiAnalysisService.getRSIAnalysis(
+      alert.symbol,
+      timeframe,
+      period,
+      Math.max(period * 5, 100),
+    );
+    return {
+      met: false,
+      value: analysis.currentRSI.rsi,
+      price: this.latestPrices.get(alert.symbol) ?? null,
+    };
+  }
+
+  /**
+   * 根据评估结果更新提醒状态并在需要时触发
+   * 触发后提醒进入未就绪状态，条件解除后才会重新就绪，避免条件持续满足时重复提醒
+   */
+  private async applyResult(
+    alert: PriceAlert,
+    state: PriceAlertState,
+    result: EvaluationResult,
+  ): Promise<void> {
+    if (result.met && state.armed && !this.isInCooldown(alert)) {
+      await this.trigger(alert, state, result);
+      return;
+    }
+
+    if (!result.met) {
+      state.armed = true;
+    }
+
+    if (JSON.stringify(state) !== alert.state) {
+      await this.saveState(alert, state);
+    }
+  }
+
+  /**
+   * 触发提醒：先更新状态再发送通知，避免重复发送
+   */
+  private async trigger(
+    alert: PriceAlert,
+    state: PriceAlertState,
+    result: EvaluationResult,
+  ): Promise<void> {
+    const now = new Date();
+    const once = alert.mode === 'ONCE';
+    state.armed = false;
+
+    const updated = await this.prisma.priceAlert.update({
+      where: { id: alert.id },
+      data: {
+        status: once ? 'TRIGGERED' : 'ACTIVE',
+        state: JSON.stringify(state),
+        triggerCount: { increment: 1 },
+        lastTriggeredAt: now,
+        lastValue: result.value,
+      },
+    });
+
+    if (once) {
+      this.activeAlerts.delete(alert.id);
+      this.notifySymbolListeners();
+    } else {
+      this.activeAlerts.set(alert.id, updated);
+    }
+
+    this.logger.log(
+      `价格提醒 #${alert.id} 触发: ${alert.symbol} ${this.describe(alert)} (${result.value})`,
+    );
+
+    await this.notificationService.sendPriceAlertNotification({
+      alert: this.toView(updated),
+      price: result.price,
+      value: result.value,
+      ...(result.divergence && { divergence: result.divergence }),
+      timestamp: now.getTime(),
+    });
+  }
+
+  private async saveState(
+    alert: PriceAlert,
+    state: PriceAlertState,
+  ): Promise<void> {
+    const updated = await this.prisma.priceAlert.update({
+      where: { id: alert.id },
+      data: { state: JSON.stringify(state) },
+    });
+
+    if (this.activeAlerts.has(alert.id)) {
+      this.activeAlerts.set(alert.id, updated);
+    }
+  }
+
+  /**
+   * 校验并转换创建参数
+   */
+  private buildCreateData(
+    dto: CreatePriceAlertDto,
+  ): Prisma.PriceAlertCreateInput {
+    if (!dto.symbol) {
+      throw new BadRequestException('必须指定交易对');
+    }
+
+    const condition = dto.condition;
+    if (!PRICE_ALERT_CONDITIONS.includes(condition)) {
+      throw new BadRequestException(`不支持的提醒条件: ${condition}`);
+    }
+
+    const mode: PriceAlertMode = dto.mode || 'ONCE';
+    if (!PRICE_ALERT_MODES.includes(mode)) {
+      throw new BadRequestException(`不支持的提醒模式: ${mode}`);
+    }
+
+    const isEma = condition.startsWith('EMA');
+    const isRsi = condition.startsWith('RSI');
+    const isDivergence = condition.startsWith('DIVERGENCE');
+    const threshold =
+      dto.threshold !== undefined && dto.threshold !== null
+        ? Number(dto.threshold)
+        : null;
+
+    if (!isEma && !isDivergence && (threshold === null || isNaN(threshold))) {
+      throw new BadRequestException('该提醒条件必须指定阈值');
+    }
+    if (!isEma && !isRsi && !isDivergence && threshold <= 0) {
+      throw new BadRequestException('阈值必须大于0');
+    }
+    if (isRsi && (threshold <= 0 || threshold >= 100)) {
+      throw new BadRequestException('RSI 阈值必须在0-100之间');
+    }
+    if (
+      isDivergence &&
+      threshold !== null &&
+      (isNaN(threshold) || threshold < 0 || threshold > 100)
+    ) {
+      throw new BadRequestException('背离最低置信度必须在0-100之间');
+    }
+
+    let timeframe: string | null = null;
+    if (condition === 'PERCENT_MOVE') {
+      timeframe = dto.timeframe || DEFAULT_TIMEFRAME;
+      const windowMs = this.windowToMs(timeframe);
+      if (windowMs <= 0 || windowMs > MAX_WINDOW_MS) {
+        throw new BadRequestException('涨跌幅统计窗口必须在1分钟到30天之间');
+      }
+    } else if (isEma || isRsi) {
+      timeframe = dto.timeframe || DEFAULT_TIMEFRAME;
+      if (!TimeUtil.isValidInterval(timeframe)) {
+        throw new BadRequestException(`不支持的K线周期: ${timeframe}`);
+      }
+    } else if (isDivergence) {
+      timeframe = dto.timeframe || DEFAULT_TIMEFRAME;
+      if (!DIVERGENCE_TIMEFRAMES.includes(timeframe as TimeframeType)) {
+        throw new BadRequestException(
+          `背离提醒仅支持K线周期: ${DIVERGENCE_TIMEFRAMES.join(', ')}`,
+        );
+      }
+    }
+
+    let period: number | null = null;
+    if (isEma || isRsi) {
+      period = dto.period
+        ? Number(dto.period)
+        : isEma
+          ? DEFAULT_EMA_PERIOD
+          : DEFAULT_RSI_PERIOD;
+    }
+
+    let expiresAt: Date | null = null;
+    if (dto.expiresAt) {
+      expiresAt = new Date(dto.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+        throw new BadRequestException('过期时间必须晚于当前时间');
+      }
+    }
+
+    const state: PriceAlertState = { armed: true };
+
+    return {
+      symbol: this.normalizeSymbol(dto.symbol),
+      condition,
+      threshold: isEma ? null : threshold,
+      period,
+      timeframe,
+      mode,
+      cooldownMinutes:
+        dto.cooldownMinutes !== undefined
+          ? Number(dto.cooldownMinutes)
+          : DEFAULT_COOLDOWN_MINUTES,
+      state: JSON.stringify(state),
+      note: dto.note || null,
+      chatId: dto.chatId ? String(dto.chatId) : null,
+      expiresAt,
+    };
+  }
+
+  private isExpired(alert: PriceAlert, now: number): boolean {
+    return !!alert.expiresAt && alert.expiresAt.getTime() <= now;
+  }
+
+  private isInCooldown(alert: PriceAlert): boolean {
+    return (
+      !!alert.lastTriggeredAt &&
+      Date.now() - alert.lastTriggeredAt.getTime() <
+        alert.cooldownMinutes * 60 * 1000
+    );
+  }
+
+  private notifySymbolListeners(): void {
+    const symbols = this.getActiveSymbols();
+    this.symbolListeners.forEach((listener) => {
+      try {
+        listener(symbols);
+      } catch (error) {
+        this.logger.error(`交易对变化监听器执行失败: ${error.message}`);
+      }
+    });
+  }
+
+  private normalizeSymbol(symbol: string): string {
+    return symbol.replace(/[/\-_]/g, '').toUpperCase();
+  }
+
+  private windowToMs(window: string): number {
+    const match = /^(\d+)([mhd])$/.exec(window);
+    return match ? Number(match[1]) * WINDOW_UNIT_MS[match[2]] : 0;
+  }
+
+  /**
+   * 生成条件的中文描述
+   */
+  private describe(alert: PriceAlert): string {
+    const threshold = Number(alert.threshold);
+    switch (alert.condition as PriceAlertCondition) {
+      case 'PRICE_ABOVE':
+        return `价格高于 ${threshold}`;
+      case 'PRICE_BELOW':
+        return `价格低于 ${threshold}`;
+      case 'PERCENT_MOVE':
+        return `${alert.timeframe} 内涨跌幅超过 ${threshold}%`;
+      case 'EMA_CROSS_ABOVE':
+        return `价格上穿 ${alert.timeframe} EMA${alert.period}`;
+      case 'EMA_CROSS_BELOW':
+        return `价格下穿 ${alert.timeframe} EMA${alert.period}`;
+      case 'RSI_ABOVE':
+        return `${alert.timeframe} RSI${alert.period} 高于 ${threshold}`;
+      case 'RSI_BELOW':
+        return `${alert.timeframe} RSI${alert.period} 低于 ${threshold}`;
+      case 'DIVERGENCE_BULLISH':
+      case 'DIVERGENCE_BEARISH':
+        return `${alert.timeframe} 出现${alert.condition === 'DIVERGENCE_BULLISH' ? '看涨' : '看跌'}背离${alert.threshold !== null ? `（置信度≥${threshold}）` : ''}`;
+      default:
+        return alert.condition;
+    }
+  }
+
+  private parseState(alert: PriceAlert): PriceAlertState {
+    let parsed: Partial<PriceAlertState> = {};
+    try {
+      parsed = alert.state ? JSON.parse(alert.state) : {};
+    } catch {
+      this.logger.warn(`价格提醒 ${alert.id} 状态解析失败`);
+    }
+
+    return {
+      armed: parsed.armed ?? true,
+      ...(parsed.lastSide && { lastSide: parsed.lastSide }),
+      ...(parsed.lastDivergenceAt !== undefined && {
+        lastDivergenceAt: parsed.lastDivergenceAt,
+      }),
+    };
+  }
+
+  private toView(alert: PriceAlert): PriceAlertView {
+    return {
+      id: alert.id,
+      symbol: alert.symbol,
+      condition: alert.condition as PriceAlertCondition,
+      description: this.describe(alert),
+      threshold: alert.threshold !== null ? Number(alert.threshold) : null,
+      period: alert.period,
+      timeframe: alert.timeframe,
+      mode: alert.mode as PriceAlertMode,
+      cooldownMinutes: alert.cooldownMinutes,
+      status: alert.status as PriceAlertStatus,
+      state: this.parseState(alert),
+      triggerCount: alert.triggerCount,
+      lastTriggeredAt: alert.lastTriggeredAt,
+      lastValue: alert.lastValue !== null ? Number(alert.lastValue) : null,
+      note: alert.note,
+      chatId: alert.chatId,
+      source: alert.source,
+      expiresAt: alert.expiresAt,
+      createdAt: alert.createdAt,
+      updatedAt: alert.updatedAt,
+    };
+  }
+}
@@ -1,7 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { TradingNotificationService } from './trading-notification.service';
-import { TradingZone, TriggerEvent } from '../interfaces';
+import { AlertOutcomeService } from './alert-outcome.service';
+import { TriggerStateStoreService } from './trigger-state-store.service';
+import { AlertThrottlePolicyService } from 'src/modules/coin-config/alert-throttle-policy.service';
+import { ThrottleAlertType } from 'src/modules/coin-config/interfaces';
+import {
+  PersistedTriggerState,
+  TradingZone,
+  TriggerEvent,
+  TriggerStatePersistenceSummary,
+} from '../interfaces';
 
 // 新增穿越事件接口
 export interface CrossingEvent extends TriggerEvent {
@@ -12,9 +21,10 @@ export interface CrossingEvent extends TriggerEvent {
 /**
  * 价格触发检测服务
  * 检测实时价格是否触及买入/卖出区间，触发时发送通知
+ * 区间状态、触发标记和冷却时间会持久化，服务重启后恢复，避免对已在区间内的价格重复通知
  */
 @Injectable()
-export class PriceTriggerDetectionService {
+export class PriceTriggerDetectionService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(PriceTriggerDetectionService.name);
   
   // 记录已触发的价格点，避免重复通知
@@ -23,11 +33,7 @@ export class PriceTriggerDetectionService {
   // 记录当前价格在各区间的状态
   private zoneStates = new Map<string, Map<string, boolean>>(); // symbol -> zoneKey -> isInZone
   
-  // 触发冷却时间（秒）- 同一区间触发后的冷却期
-  private readonly triggerCooldown = 900; // 15分钟 = 900秒
-  private readonly crossingCooldown = 300; // 5分钟 = 300秒  
-  private readonly batchNotificationDelay = 5; // 5秒
-  private readonly globalNotificationCooldown = 900; // 15分钟全局冷却
+  // 冷却时间、合并延迟、每小时上限和免打扰时段由告警节流策略按交易对配置
   
   // 记录触发历史：triggerKey -> 触发时间戳
   private triggerHistory = new Map<string, number>();
@@ -41,23 +47,169 @@ export class PriceTriggerDetectionService {
   // 记录每个symbol的最后一次通知时间
   private lastNotificationTime = new Map<string, number>(); // symbol -> timestamp
 
+  // 记录最近一小时内发出的告警时间，用于每小时上限
+  private recentAlerts = new Map<string, number[]>(); // symbol_alertType -> timestamps
+
+  // 被节流跳过的区间触发：triggerKey -> 最近一次尝试时间，价格停留在区间内时按间隔重新检查
+  private throttledZoneAttempts = new Map<string, number>();
+  private readonly throttleRecheckInterval = 60; // 60秒
+
+  // 最新分析结果缓存，避免逐笔价格都查询数据库
+  private analysisCache = new Map<string, { result: any; fetchedAt: number }>();
+  private readonly analysisCacheTtl = 30; // 30秒
+
+  // 状态持久化：变化的交易对延迟合并写入
+  private dirtySymbols = new Set<string>();
+  private persistTimer: NodeJS.Timeout | null = null;
+  private readonly persistDelay = 2; // 2秒
+
   constructor(
     private readonly prismaService: PrismaService,
     private readonly tradingNotificationService: TradingNotificationService,
+    private readonly alertOutcomeService: AlertOutcomeService,
+    private readonly triggerStateStoreService: TriggerStateStoreService,
+    private readonly alertThrottlePolicyService: AlertThrottlePolicyService,
   ) {}
 
+  async onModuleInit(): Promise<void> {
+    await this.restoreState();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    await this.flushState();
+  }
+
   /**
-   * 检查价格触发条件
+   * 从数据库恢复触发检测状态
    */
-  async checkPriceTriggers(symbol: string, currentPrice: number): Promise<void> {
+  private async restoreState(): Promise<void> {
     try {
-      // 检查全局通知频率限制（15分钟内最多一次）
-      if (this.isInGlobalCooldown(symbol)) {
-        // this.logger.debug(`${symbol} 在全局通知冷却期内，跳过所有检查`);
-        return;
+      const states = await this.triggerStateStoreService.loadAll();
+
+      for (const state of states) {
+        this.zoneStates.set(state.symbol, new Map(Object.entries(state.zoneStates)));
+
+        if (state.zoneTriggeredFlags.length > 0) {
+          this.zoneTriggeredFlags.set(state.symbol, new Set(state.zoneTriggeredFlags));
+        }
+
+        for (const [triggerType, prices] of Object.entries(state.triggeredZones)) {
+          this.triggeredZones.set(`${state.symbol}_${triggerType}`, new Set(prices));
+        }
+
+        for (const [key, timestamp] of Object.entries(state.triggerHistory)) {
+          this.triggerHistory.set(key, timestamp);
+        }
+
+        if (state.lastNotificationAt) {
+          this.lastNotificationTime.set(state.symbol, state.lastNotificationAt);
+        }
+
+        for (const [alertType, timestamps] of Object.entries(state.recentAlerts)) {
+          this.recentAlerts.set(`${state.symbol}_${alertType}`, timestamps);
+        }
+      }
+
+      this.logger.log(`已恢复 ${states.length} 个交易对的触发检测状态`);
+    } catch (error) {
+      this.logger.error(`恢复触发检测状态失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 标记交易对状态已变化，稍后合并写入
+   */
+  private markDirty(symbol: string): void {
+    this.dirtySymbols.add(symbol);
+
+    if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => {
+        this.persistTimer = null;
+        this.flushState().catch(error => {
+          this.logger.error(`保存触发检测状态失败: ${error.message}`);
+        });
+      }, this.persistDelay * 1000);
+    }
+  }
+
+  /**
+   * 写入所有待保存的交易对状态
+   */
+  private async flushState(): Promise<void> {
+    const symbols = Array.from(this.dirtySymbols);
+    this.dirtySymbols.clear();
+
+    for (const symbol of symbols) {
+      await this.persistSymbolState(symbol);
+    }
+  }
+
+  /**
+   * 写入单个交易对的状态
+   */
+  private async persistSymbolState(symbol: string): Promise<void> {
+    try {
+      await this.triggerStateStoreService.save(this.buildPersistedState(symbol));
+    } catch (error) {
+      this.logger.error(`保存 ${symbol} 触发检测状态失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 汇总交易对的内存状态
+   * 已超过冷却时间的触发历史和一小时前的告警记录与没有记录等价，不再保存
+   */
+  private buildPersistedState(symbol: string): PersistedTriggerState {
+    const now = Date.now();
+    const triggerPolicy = this.alertThrottlePolicyService.resolve(symbol, 'PRICE_TRIGGER');
+    const crossingPolicy = this.alertThrottlePolicyService.resolve(symbol, 'ZONE_CROSSING');
+    const maxCooldown = Math.max(triggerPolicy.cooldownSeconds, crossingPolicy.cooldownSeconds) * 1000;
+
+    const triggerHistory: Record<string, number> = {};
+    for (const [key, timestamp] of this.triggerHistory) {
+      if (key.startsWith(`${symbol}_`) && now - timestamp < maxCooldown) {
+        triggerHistory[key] = timestamp;
       }
+    }
+
+    const triggeredZones: Record<string, string[]> = {};
+    for (const triggerType of ['BUY', 'SELL']) {
+      const prices = this.triggeredZones.get(`${symbol}_${triggerType}`);
+      if (prices && prices.size > 0) {
+        triggeredZones[triggerType] = Array.from(prices);
+      }
+    }
 
+    const recentAlerts: Record<string, number[]> = {};
+    for (const alertType of ['PRICE_TRIGGER', 'ZONE_CROSSING'] as const) {
+      const timestamps = this.getRecentAlerts(symbol, alertType);
+      if (timestamps.length > 0) {
+        recentAlerts[alertType] = timestamps;
+      }
+    }
+
+    return {
+      symbol,
+      zoneStates: Object.fromEntries(this.zoneStates.get(symbol) || []),
+      zoneTriggeredFlags: Array.from(this.zoneTriggeredFlags.get(symbol) || []),
+      triggeredZones,
+      triggerHistory,
+      recentAlerts,
+      lastNotificationAt: this.lastNotificationTime.get(symbol) || null,
+    };
+  }
+
+  /**
+   * 检查价格触发条件
+   */
+  async checkPriceTriggers(symbol: string, currentPrice: number): Promise<void> {
+    try {
       // 获取最新的分析结果
+      // 全局冷却等节流规则在发送通知时按区间强度判断，区间状态仍需持续跟踪
       const latestAnalysis = await this.getLatestAnalysisResult(symbol);
       
       if (!latestAnalysis || !latestAnalysis.buyZones || !latestAnalysis.sellZones) {
@@ -104,7 +256,12 @@ export class PriceTriggerDetectionService {
    * 获取最新的分析结果
    */
   private async getLatestAnalysisResult(symbol: string) {
-    return await this.prismaService.analysisResult.findFirst({
+    const cached = this.analysisCache.get(symbol);
+    if (cached && Date.now() - cached.fetchedAt < this.analysisCacheTtl * 1000) {
+      return cached.result;
+    }
+
+    const result = await this.prismaService.analysisResult.findFirst({
       where: { 
         symbol,
         buyZones: { not: null },
@@ -112,6 +269,9 @@ export class PriceTriggerDetectionService {
       },
       orderBy: { createdAt: 'desc' },
     });
+
+    this.analysisCache.set(symbol, { result, fetchedAt: Date.now() });
+    return result;
   }
 
   /**
@@ -131,6 +291,9 @@ export class PriceTriggerDetectionService {
     
     // 更新区间状态
     symbolStateMap.set(zoneKey, isInZone);
+    if (wasInZone !== isInZone) {
+      this.markDirty(symbol);
+    }
     
     if (!wasInZone && isInZone) {
       // 进入区间
@@ -179,17 +342,27 @@ export class PriceTriggerDetectionService {
    */
   private shouldRetriggerZone(symbol: string, triggerType: string, price: number): boolean {
     const triggerKey = `${symbol}_${triggerType}_${price}`;
+    const now = Date.now();
+
+    // 最近因节流被跳过，未到重新检查时间前不再尝试
+    const lastThrottledTime = this.throttledZoneAttempts.get(triggerKey);
+    if (
+      lastThrottledTime &&
+      (now - lastThrottledTime) / 1000 < this.throttleRecheckInterval
+    ) {
+      return false;
+    }
+
     const lastTriggerTime = this.triggerHistory.get(triggerKey);
-    
     if (!lastTriggerTime) {
       return true;
     }
     
-    const now = Date.now();
     const timeSinceLastTrigger = (now - lastTriggerTime) / 1000;
     
     // 如果超过冷却时间，允许重新触发
-    return timeSinceLastTrigger >= this.triggerCooldown;
+    const policy = this.alertThrottlePolicyService.resolve(symbol, 'PRICE_TRIGGER');
+    return timeSinceLastTrigger >= policy.cooldownSeconds;
   }
 
   /**
@@ -205,11 +378,17 @@ export class PriceTriggerDetectionService {
     const crossingKey = `${symbol}_${triggerType}_${zone.price}_${crossingType}`;
     
     // 穿越事件使用更短的冷却时间
-    if (this.isInCrossingCooldown(crossingKey)) {
+    if (this.isInCrossingCooldown(symbol, crossingKey)) {
       this.logger.debug(`${crossingKey} 在穿越冷却期内，跳过通知`);
       return;
     }
 
+    const throttleReason = this.getThrottleReason(symbol, 'ZONE_CROSSING', zone.strength);
+    if (throttleReason) {
+      this.logger.debug(`${crossingKey} ${throttleReason}，跳过通知`);
+      return;
+    }
+
     try {
       const crossingEvent: CrossingEvent = {
         symbol,
@@ -227,7 +406,8 @@ export class PriceTriggerDetectionService {
       await this.tradingNotificationService.sendZoneCrossingNotification(crossingEvent);
 
       // 记录穿越历史
-      this.recordTrigger(crossingKey);
+      this.recordTrigger(symbol, crossingKey);
+      this.recordAlert(symbol, 'ZONE_CROSSING');
 
       // this.logger.log(
       //   `区间穿越已记录: ${symbol} ${crossingType} ${triggerType} 区间 ${zone.price} (±${zone.tolerance})，当前价格: ${currentPrice}`
@@ -256,11 +436,19 @@ export class PriceTriggerDetectionService {
     const triggerKey = `${symbol}_${triggerType}_${zone.price}`;
     
     // 检查冷却时间
-    if (this.isInCooldown(triggerKey)) {
+    if (this.isInCooldown(symbol, triggerKey)) {
       this.logger.debug(`${triggerKey} 在冷却期内，跳过通知`);
       return false;
     }
 
+    const throttleReason = this.getThrottleReason(symbol, 'PRICE_TRIGGER', zone.strength);
+    if (throttleReason) {
+      this.throttledZoneAttempts.set(triggerKey, Date.now());
+      this.logger.debug(`${triggerKey} ${throttleReason}，跳过通知`);
+      return false;
+    }
+    this.throttledZoneAttempts.delete(triggerKey);
+
     try {
       const triggerEvent: TriggerEvent = {
         symbol,
@@ -270,6 +458,8 @@ export class PriceTriggerDetectionService {
         tolerance: zone.tolerance,
         confidence: zone.confidence,
         timestamp: Date.now(),
+        strength: zone.strength,
+        timeframe: zone.timeframe,
       };
 
       // 标记区间已触发
@@ -277,12 +467,17 @@ export class PriceTriggerDetectionService {
 
       // 记录全局通知时间
       this.lastNotificationTime.set(symbol, Date.now());
+      this.recordAlert(symbol, 'PRICE_TRIGGER');
 
       // 添加到待发送通知队列（用于合并同类型的多个触发）
       await this.addToPendingNotifications(triggerEvent);
 
       // 记录触发历史
-      this.recordTrigger(triggerKey);
+      this.recordTrigger(symbol, triggerKey);
+
+      // 记录触发，用于后续跟踪价格走势
+      const targetLevel = await this.findTargetLevel(symbol, triggerType, currentPrice);
+      await this.alertOutcomeService.recordTrigger(triggerEvent, targetLevel);
 
       // this.logger.log(
       //   `价格触发已记录: ${symbol} ${triggerType} 区间 ${zone.price} (±${zone.tolerance})，当前价格: ${currentPrice}`
@@ -296,10 +491,42 @@ export class PriceTriggerDetectionService {
     }
   }
 
+  /**
+   * 查找触发后的目标位
+   * 买入取上方最近的卖出区间（阻力位），卖出取下方最近的买入区间（支撑位）
+   */
+  private async findTargetLevel(
+    symbol: string,
+    triggerType: 'BUY' | 'SELL',
+    currentPrice: number
+  ): Promise<number | null> {
+    const latestAnalysis = await this.getLatestAnalysisResult(symbol);
+    if (!latestAnalysis) {
+      return null;
+    }
+
+    try {
+      const zones = JSON.parse(
+        triggerType === 'BUY' ? latestAnalysis.sellZones : latestAnalysis.buyZones
+      ) as TradingZone[];
+      const candidates = zones
+        .map(zone => zone.price)
+        .filter(price => triggerType === 'BUY' ? price > currentPrice : price < currentPrice);
+
+      if (candidates.length === 0) {
+        return null;
+      }
+      return triggerType === 'BUY' ? Math.min(...candidates) : Math.max(...candidates);
+    } catch (error) {
+      this.logger.warn(`解析 ${symbol} 目标位失败: ${error.message}`);
+      return null;
+    }
+  }
+
   /**
    * 检查是否在冷却期内
    */
-   private isInCooldown(triggerKey: string): boolean {
+   private isInCooldown(symbol: string, triggerKey: string): boolean {
     const lastTriggerTime = this.triggerHistory.get(triggerKey);
     if (!lastTriggerTime) {
       return false;
@@ -307,21 +534,66 @@ export class PriceTriggerDetectionService {
     
     const now = Date.now();
     const timeSinceLastTrigger = (now - lastTriggerTime) / 1000;
-    return timeSinceLastTrigger < this.triggerCooldown;
+    const policy = this.alertThrottlePolicyService.resolve(symbol, 'PRICE_TRIGGER');
+    return timeSinceLastTrigger < policy.cooldownSeconds;
   }
 
   /**
-   * 检查全局通知频率限制（15分钟内最多一次）
+   * 按节流策略检查是否应跳过通知，返回跳过原因
+   * 区间强度在放行列表中时不受免打扰、全局冷却和每小时上限限制
    */
-  private isInGlobalCooldown(symbol: string): boolean {
-    const lastNotifyTime = this.lastNotificationTime.get(symbol);
-    if (!lastNotifyTime) {
-      return false;
+  private getThrottleReason(
+    symbol: string,
+    alertType: Exclude<ThrottleAlertType, 'ALL'>,
+    strength?: string
+  ): string | null {
+    const policy = this.alertThrottlePolicyService.resolve(symbol, alertType);
+
+    if (strength && policy.bypassStrengths.includes(strength.toUpperCase())) {
+      return null;
     }
-    
-    const now = Date.now();
-    const timeSinceLastNotify = (now - lastNotifyTime) / 1000;
-    return timeSinceLastNotify < this.globalNotificationCooldown;
+
+    if (this.alertThrottlePolicyService.isQuietTime(policy)) {
+      return '处于免打扰时段';
+    }
+
+    const recent = this.getRecentAlerts(symbol, alertType);
+    const lastAlertTime = alertType === 'PRICE_TRIGGER'
+      ? this.lastNotificationTime.get(symbol)
+      : recent[recent.length - 1];
+    if (
+      policy.globalCooldownSeconds > 0 &&
+      lastAlertTime &&
+      (Date.now() - lastAlertTime) / 1000 < policy.globalCooldownSeconds
+    ) {
+      return '在全局通知冷却期内';
+    }
+
+    if (policy.maxAlertsPerHour > 0 && recent.length >= policy.maxAlertsPerHour) {
+      return `已达到每小时 ${policy.maxAlertsPerHour} 次通知上限`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 获取最近一小时内的告警时间
+   */
+  private getRecentAlerts(symbol: string, alertType: Exclude<ThrottleAlertType, 'ALL'>): number[] {
+    const oneHourAgo = Date.now() - 3600 * 1000;
+    return (this.recentAlerts.get(`${symbol}_${alertType}`) || []).filter(
+      timestamp => timestamp > oneHourAgo
+    );
+  }
+
+  /**
+   * 记录一次告警，用于每小时上限统计
+   */
+  private recordAlert(symbol: string, alertType: Exclude<ThrottleAlertType, 'ALL'>): void {
+    const timestamps = this.getRecentAlerts(symbol, alertType);
+    timestamps.push(Date.now());
+    this.recentAlerts.set(`${symbol}_${alertType}`, timestamps);
+    this.markDirty(symbol);
   }
 
   /**
@@ -351,6 +623,7 @@ export class PriceTriggerDetectionService {
     }
     
     this.zoneTriggeredFlags.get(symbol)!.add(zoneKey);
+    this.markDirty(symbol);
   }
 
   /**
@@ -368,6 +641,7 @@ export class PriceTriggerDetectionService {
         if (!inZone) {
           // 价格已离开区间，清除触发标记
           symbolTriggers.delete(zoneKey);
+          this.markDirty(symbol);
           this.logger.debug(`清理区间触发标记: ${symbol} ${zoneKey}`);
         }
       }
@@ -377,7 +651,7 @@ export class PriceTriggerDetectionService {
   /**
    * 检查是否在穿越冷却期内
    */
-  private isInCrossingCooldown(crossingKey: string): boolean {
+  private isInCrossingCooldown(symbol: string, crossingKey: string): boolean {
     const lastTriggerTime = this.triggerHistory.get(crossingKey);
     if (!lastTriggerTime) {
       return false;
@@ -385,14 +659,16 @@ export class PriceTriggerDetectionService {
     
     const now = Date.now();
     const timeSinceLastTrigger = (now - lastTriggerTime) / 1000;
-    return timeSinceLastTrigger < this.crossingCooldown;
+    const policy = this.alertThrottlePolicyService.resolve(symbol, 'ZONE_CROSSING');
+    return timeSinceLastTrigger < policy.cooldownSeconds;
   }
 
   /**
    * 记录触发时间
    */
-  private recordTrigger(triggerKey: string): void {
+  private recordTrigger(symbol: string, triggerKey: string): void {
     this.triggerHistory.set(triggerKey, Date.now());
+    this.markDirty(symbol);
   }
 
   /**
@@ -415,6 +691,7 @@ export class PriceTriggerDetectionService {
     }
     
     this.triggeredZones.get(symbolKey)!.add(price.toString());
+    this.markDirty(symbol);
   }
 
   /**
@@ -440,6 +717,16 @@ export class PriceTriggerDetectionService {
     }
     
     keysToDelete.forEach(key => this.triggerHistory.delete(key));
+
+    for (const key of Array.from(this.throttledZoneAttempts.keys())) {
+      if (key.startsWith(`${symbol}_`)) {
+        this.throttledZoneAttempts.delete(key);
+      }
+    }
+
+    // 立即写入清理后的状态，避免重启后恢复已清理的记录
+    this.dirtySymbols.delete(symbol);
+    await this.persistSymbolState(symbol);
     
     this.logger.log(`已清理 ${symbol} 的过期触发记录和区间状态`);
   }
@@ -460,9 +747,10 @@ export class PriceTriggerDetectionService {
     
     // 如果这是第一个触发，设置延迟发送
     if (pendingList.length === 1) {
+      const policy = this.alertThrottlePolicyService.resolve(triggerEvent.symbol, 'PRICE_TRIGGER');
       setTimeout(async () => {
         await this.sendBatchedNotifications(notificationKey);
-      }, this.batchNotificationDelay * 1000);
+      }, policy.batchDelaySeconds * 1000);
     }
     
     // this.logger.debug(`添加到通知队列: ${notificationKey}, 当前队列长度: ${pendingList.length}`);
@@ -512,7 +800,10 @@ export class PriceTriggerDetectionService {
     
     for (const [key, timestamp] of this.triggerHistory) {
       const timeSinceLastTrigger = (now - timestamp) / 1000;
-      if (timeSinceLastTrigger < this.triggerCooldown) {
+      const symbol = key.split('_')[0];
+      const alertType = /_(ENTER|EXIT)$/.test(key) ? 'ZONE_CROSSING' : 'PRICE_TRIGGER';
+      const policy = this.alertThrottlePolicyService.resolve(symbol, alertType);
+      if (timeSinceLastTrigger < policy.cooldownSeconds) {
         activeCooldowns++;
       }
     }
@@ -526,7 +817,8 @@ export class PriceTriggerDetectionService {
     let globalCooldowns = 0;
     for (const [symbol, timestamp] of this.lastNotificationTime) {
       const timeSinceLastNotify = (now - timestamp) / 1000;
-      if (timeSinceLastNotify < this.globalNotificationCooldown) {
+      const policy = this.alertThrottlePolicyService.resolve(symbol, 'PRICE_TRIGGER');
+      if (timeSinceLastNotify < policy.globalCooldownSeconds) {
         globalCooldowns++;
       }
     }
@@ -546,6 +838,18 @@ export class PriceTriggerDetectionService {
     };
   }
 
+  /**
+   * 获取触发检测状态的持久化情况
+   */
+  async getPersistenceSummary(): Promise<TriggerStatePersistenceSummary> {
+    const summary = await this.triggerStateStoreService.getSummary();
+    return {
+      persistedSymbols: summary.count,
+      pendingSymbols: this.dirtySymbols.size,
+      lastPersistedAt: summary.lastPersistedAt,
+    };
+  }
+
   /**
    * 添加手动测试通知功能
    */
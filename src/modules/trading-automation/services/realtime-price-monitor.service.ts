@@ -1,37 +1,80 @@
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import * as ccxt from 'ccxt';
+import * as WebSocket from 'ws';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { CoinConfigService } from 'src/modules/coin-config/coin-config.service';
 import { PriceTriggerDetectionService } from './price-trigger-detection.service';
+import { PriceAlertService } from './price-alert.service';
+import { PriceFeedMode, PriceMonitorStatus } from '../interfaces';
 
 /**
  * 实时价格监控服务
- * 使用ccxt WebSocket连接获取实时价格数据
+ * 通过单个 Binance 组合流 WebSocket 连接订阅所有交易对的 aggTrade / miniTicker，
+ * WebSocket 不可用时自动降级为 REST 轮询
  */
 @Injectable()
 export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RealtimePriceMonitorService.name);
-  
+
   private exchange: ccxt.Exchange | null = null;
+  private ws: WebSocket | null = null;
   private isConnected = false;
+  private isShuttingDown = false;
+  private feedMode: PriceFeedMode = 'websocket';
   private reconnectAttempts = 0;
   private readonly maxReconnectAttempts = 5;
   private readonly reconnectDelay = 5000; // 5秒
-  
+  private readonly maxReconnectDelay = 60000; // 60秒
+
+  // 心跳检测
+  private readonly heartbeatInterval = 30000; // 30秒发送一次ping
+  private readonly heartbeatTimeout = 90000; // 90秒未收到任何数据视为断线
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private lastMessageAt = 0;
+  private subscriptionId = 0;
+  private readonly streamsPerRequest = 100; // 单次订阅请求的最大流数量
+
+  // 轮询降级
+  private readonly pollingInterval = 2000; // 2秒
+  private pollingTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  // 逐笔价格队列：保证每个价格都按顺序交给触发检测
+  private readonly maxPendingTicks = 500;
+  private tickQueues = new Map<string, number[]>();
+  private processingSymbols = new Set<string>();
+
   // 存储监控的交易对和最新价格
   private monitoredSymbols = new Set<string>();
+  private streamSymbols = new Map<string, string>(); // BTCUSDT -> 监控时使用的原始符号
   private latestPrices = new Map<string, number>();
   private priceUpdateListeners = new Map<string, Array<(price: number) => void>>();
+  private alertOnlySymbols = new Set<string>(); // 仅因用户价格提醒或其他模块需要而监控的交易对，不做区间触发检测
+  private auxiliarySymbols = new Map<string, string[]>(); // 其他模块（如模拟盘）需要的交易对，按来源区分
+  private globalPriceListeners: Array<(symbol: string, price: number) => void> = [];
 
   constructor(
+    private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
     private readonly coinConfigService: CoinConfigService,
     private readonly priceTriggerDetectionService: PriceTriggerDetectionService,
+    private readonly priceAlertService: PriceAlertService,
   ) {}
 
   async onModuleInit(): Promise<void> {
-    await this.initializeWebSocketConnection();
+    await this.initializeRestExchange();
+    this.connectWebSocket();
     await this.startMonitoring();
+
+    // 用户价格提醒涉及的交易对变化时同步监控列表
+    this.priceAlertService.addSymbolListener(symbols => {
+      this.syncAlertSymbols(symbols).catch(error => {
+        this.logger.error(`同步价格提醒交易对失败: ${error.message}`);
+      });
+    });
+    await this.syncAlertSymbols(this.priceAlertService.getActiveSymbols());
   }
 
   async onModuleDestroy(): Promise<void> {
@@ -39,27 +82,343 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
   }
 
   /**
-   * 初始化交易所连接
+   * 初始化 REST 交易所实例（用于轮询降级）
    */
-  private async initializeWebSocketConnection(): Promise<void> {
+  private async initializeRestExchange(): Promise<void> {
     try {
-      // 使用Binance REST API进行价格监控
       this.exchange = new ccxt.binance({
         enableRateLimit: true,
         sandbox: false,
-        rateLimit: 1200, // 每分钟限制50次请求
         options: {
           defaultType: 'spot',
         },
       });
 
       await this.exchange.loadMarkets();
+      this.logger.log('Binance REST 交易所初始化成功');
+
+    } catch (error) {
+      // REST 仅用于降级轮询，初始化失败不影响 WebSocket 监控
+      this.logger.error(`Binance REST 交易所初始化失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 建立组合流 WebSocket 连接
+   */
+  private connectWebSocket(): void {
+    if (this.isShuttingDown) {
+      return;
+    }
+
+    const wsStreamUrl = this.configService.get<string>('binance.wsStreamUrl')
+      || 'wss://stream.binance.com:9443/stream';
+
+    this.logger.log(`连接 Binance 组合流: ${wsStreamUrl}`);
+    const ws = new WebSocket(wsStreamUrl);
+    this.ws = ws;
+
+    ws.on('open', () => {
       this.isConnected = true;
-      this.logger.log('Binance 交易所初始化成功');
-      
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      this.logger.log('Binance WebSocket 连接成功');
+
+      // 重新订阅所有交易对
+      this.subscribeSymbols(Array.from(this.monitoredSymbols));
+      this.startHeartbeat();
+
+      if (this.feedMode === 'polling') {
+        this.stopPolling();
+        this.logger.log('已从轮询模式恢复为 WebSocket 模式');
+      }
+      this.feedMode = 'websocket';
+    });
+
+    ws.on('message', (raw: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      this.handleStreamMessage(raw.toString());
+    });
+
+    ws.on('pong', () => {
+      this.lastMessageAt = Date.now();
+    });
+
+    ws.on('error', (error: Error) => {
+      this.logger.error(`Binance WebSocket 错误: ${error.message}`);
+    });
+
+    ws.on('close', (code: number) => {
+      if (this.ws !== ws) {
+        return;
+      }
+
+      this.ws = null;
+      this.isConnected = false;
+      this.stopHeartbeat();
+
+      if (this.isShuttingDown) {
+        return;
+      }
+
+      this.logger.warn(`Binance WebSocket 连接关闭 (code: ${code})`);
+      this.startPolling();
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * 安排重连（指数退避）
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.isShuttingDown) {
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = Math.min(
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
+      this.maxReconnectDelay,
+    );
+
+    if (this.reconnectAttempts === this.maxReconnectAttempts) {
+      this.logger.error(`WebSocket 连续 ${this.maxReconnectAttempts} 次重连失败，保持轮询模式并继续定期重试`);
+    }
+
+    this.logger.warn(`${delay / 1000}秒后尝试重连 (第${this.reconnectAttempts}次)`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectWebSocket();
+    }, delay);
+  }
+
+  /**
+   * 启动心跳检测
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      if (Date.now() - this.lastMessageAt > this.heartbeatTimeout) {
+        this.logger.warn('WebSocket 心跳超时，主动断开重连');
+        this.ws.terminate();
+        return;
+      }
+
+      this.ws.ping();
+    }, this.heartbeatInterval);
+  }
+
+  /**
+   * 停止心跳检测
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * 订阅交易对的 aggTrade 和 miniTicker 流
+   */
+  private subscribeSymbols(symbols: string[]): void {
+    this.sendStreamRequest('SUBSCRIBE', symbols);
+  }
+
+  /**
+   * 取消订阅交易对
+   */
+  private unsubscribeSymbols(symbols: string[]): void {
+    this.sendStreamRequest('UNSUBSCRIBE', symbols);
+  }
+
+  /**
+   * 发送订阅/取消订阅请求
+   */
+  private sendStreamRequest(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', symbols: string[]): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || symbols.length === 0) {
+      return;
+    }
+
+    const streams = symbols.flatMap(symbol => {
+      const streamSymbol = this.toStreamSymbol(symbol).toLowerCase();
+      return [`${streamSymbol}@aggTrade`, `${streamSymbol}@miniTicker`];
+    });
+
+    for (let i = 0; i < streams.length; i += this.streamsPerRequest) {
+      this.ws.send(JSON.stringify({
+        method,
+        params: streams.slice(i, i + this.streamsPerRequest),
+        id: ++this.subscriptionId,
+      }));
+    }
+
+    this.logger.log(`${method === 'SUBSCRIBE' ? '订阅' : '取消订阅'} ${symbols.length} 个交易对的价格流`);
+  }
+
+  /**
+   * 处理组合流消息
+   */
+  private handleStreamMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
     } catch (error) {
-      this.logger.error(`交易所连接初始化失败: ${error.message}`);
-      throw error;
+      this.logger.warn(`无法解析 WebSocket 消息: ${error.message}`);
+      return;
+    }
+
+    // 订阅请求的响应
+    if (message.id !== undefined && message.result !== undefined) {
+      return;
+    }
+
+    if (message.error) {
+      this.logger.error(`WebSocket 订阅错误: ${JSON.stringify(message.error)}`);
+      return;
+    }
+
+    const data = message.data || message;
+    const symbol = this.streamSymbols.get(data.s);
+    if (!symbol) {
+      return;
+    }
+
+    if (data.e === 'aggTrade') {
+      // 逐笔成交：每一笔都交给触发检测
+      this.enqueueTick(symbol, parseFloat(data.p));
+    } else if (data.e === '24hrMiniTicker') {
+      // 迷你行情：仅在价格变化时补充（成交稀少的交易对）
+      const price = parseFloat(data.c);
+      if (price !== this.latestPrices.get(symbol)) {
+        this.enqueueTick(symbol, price);
+      }
+    }
+  }
+
+  /**
+   * 启动轮询降级
+   */
+  private startPolling(): void {
+    if (this.pollingTimer) {
+      return;
+    }
+
+    if (!this.exchange) {
+      this.logger.error('REST 交易所未初始化，无法启动轮询降级');
+      return;
+    }
+
+    this.feedMode = 'polling';
+    this.logger.warn('WebSocket 不可用，切换到 REST 轮询模式');
+
+    this.pollingTimer = setInterval(() => {
+      this.pollPrices().catch(error => {
+        this.logger.error(`轮询价格失败: ${error.message}`);
+      });
+    }, this.pollingInterval);
+  }
+
+  /**
+   * 停止轮询降级
+   */
+  private stopPolling(): void {
+    if (this.pollingTimer) {
+      clearInterval(this.pollingTimer);
+      this.pollingTimer = null;
+    }
+  }
+
+  /**
+   * 轮询所有监控交易对的价格
+   */
+  private async pollPrices(): Promise<void> {
+    if (this.isPolling || !this.exchange || this.monitoredSymbols.size === 0) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      const symbols = Array.from(this.monitoredSymbols);
+      const results = await Promise.allSettled(
+        symbols.map(symbol => this.exchange!.fetchTicker(symbol)),
+      );
+
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled' && result.value.last) {
+          this.enqueueTick(symbols[index], result.value.last);
+        } else if (result.status === 'rejected') {
+          this.logger.error(`轮询 ${symbols[index]} 价格失败: ${result.reason?.message}`);
+        }
+      });
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * 将价格加入交易对的处理队列
+   * 处理速度跟不上时，积压的价格会被压缩为最低价、最高价和最新价，保留行情极值
+   */
+  private enqueueTick(symbol: string, price: number): void {
+    if (!price || !this.monitoredSymbols.has(symbol)) {
+      return;
+    }
+
+    let queue = this.tickQueues.get(symbol);
+    if (!queue) {
+      queue = [];
+      this.tickQueues.set(symbol, queue);
+    }
+    queue.push(price);
+
+    if (queue.length > this.maxPendingTicks) {
+      const compressed = this.compressTicks(queue);
+      this.logger.warn(`${symbol} 价格积压 ${queue.length} 条，压缩为 ${compressed.length} 条`);
+      this.tickQueues.set(symbol, compressed);
+    }
+
+    if (!this.processingSymbols.has(symbol)) {
+      this.drainTicks(symbol).catch(error => {
+        this.logger.error(`处理 ${symbol} 价格队列失败: ${error.message}`);
+      });
+    }
+  }
+
+  /**
+   * 压缩积压的价格，按出现顺序保留最低价、最高价和最新价
+   */
+  private compressTicks(ticks: number[]): number[] {
+    let minIndex = 0;
+    let maxIndex = 0;
+    ticks.forEach((price, index) => {
+      if (price < ticks[minIndex]) minIndex = index;
+      if (price > ticks[maxIndex]) maxIndex = index;
+    });
+
+    const indexes = Array.from(new Set([minIndex, maxIndex, ticks.length - 1])).sort((a, b) => a - b);
+    return indexes.map(index => ticks[index]);
+  }
+
+  /**
+   * 依次处理交易对队列中的价格
+   */
+  private async drainTicks(symbol: string): Promise<void> {
+    this.processingSymbols.add(symbol);
+    try {
+      let queue = this.tickQueues.get(symbol);
+      while (queue && queue.length > 0) {
+        const price = queue.shift()!;
+        await this.handlePriceUpdate(symbol, price);
+        queue = this.tickQueues.get(symbol);
+      }
+    } finally {
+      this.processingSymbols.delete(symbol);
     }
   }
 
@@ -71,19 +430,17 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
       // 获取所有活跃的交易对
       const activeConfigs = await this.coinConfigService.findActiveConfigs();
       this.logger.log(`发现 ${activeConfigs.length} 个活跃的交易对配置`);
-      
-      // 并行添加所有交易对到监控（不等待监控任务完成）
-      const addPromises = activeConfigs.map(config => 
+
+      const addPromises = activeConfigs.map(config =>
         this.addSymbolToMonitor(config.symbol).catch(error => {
           this.logger.error(`添加 ${config.symbol} 到监控失败: ${error.message}`);
         })
       );
 
-      // 等待所有添加操作完成（但不等待监控任务）
       await Promise.allSettled(addPromises);
 
       this.logger.log(`成功启动 ${this.monitoredSymbols.size} 个交易对的实时价格监控`);
-      
+
     } catch (error) {
       this.logger.error(`启动价格监控失败: ${error.message}`);
       throw error;
@@ -94,26 +451,20 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
    * 添加交易对到监控列表
    */
   async addSymbolToMonitor(symbol: string): Promise<void> {
+    // 已因价格提醒监控的交易对转为正常监控
+    this.alertOnlySymbols.delete(symbol);
+
     if (this.monitoredSymbols.has(symbol)) {
       this.logger.debug(`交易对 ${symbol} 已在监控列表中`);
       return;
     }
 
-    try {
-      this.monitoredSymbols.add(symbol);
-      this.logger.log(`📈 添加 ${symbol} 到价格监控`);
-      
-      // 启动该交易对的价格监控（不等待，作为后台任务运行）
-      this.watchSymbolPrice(symbol).catch(error => {
-        this.logger.error(`${symbol} 价格监控任务异常结束: ${error.message}`);
-        this.monitoredSymbols.delete(symbol);
-      });
-      
-    } catch (error) {
-      this.logger.error(`添加 ${symbol} 到监控失败: ${error.message}`);
-      this.monitoredSymbols.delete(symbol);
-      throw error;
-    }
+    this.monitoredSymbols.add(symbol);
+    this.streamSymbols.set(this.toStreamSymbol(symbol), symbol);
+    this.logger.log(`📈 添加 ${symbol} 到价格监控`);
+
+    // 已连接时立即订阅，未连接时会在连接建立后统一订阅
+    this.subscribeSymbols([symbol]);
   }
 
   /**
@@ -121,58 +472,61 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
    */
   removeSymbolFromMonitor(symbol: string): void {
     if (this.monitoredSymbols.has(symbol)) {
+      this.unsubscribeSymbols([symbol]);
       this.monitoredSymbols.delete(symbol);
+      this.streamSymbols.delete(this.toStreamSymbol(symbol));
+      this.tickQueues.delete(symbol);
       this.latestPrices.delete(symbol);
       this.priceUpdateListeners.delete(symbol);
+      this.alertOnlySymbols.delete(symbol);
       this.logger.log(`移除 ${symbol} 的价格监控`);
     }
   }
 
   /**
-   * 监控单个交易对的价格
+   * 同步用户价格提醒及其他模块涉及的交易对
+   * 未在监控中的交易对以仅提醒方式加入，不再需要的仅提醒交易对被移除
    */
-  private async watchSymbolPrice(symbol: string): Promise<void> {
-    if (!this.exchange) {
-      throw new Error('交易所未初始化');
-    }
+  private async syncAlertSymbols(symbols: string[]): Promise<void> {
+    const auxiliary = Array.from(this.auxiliarySymbols.values()).flat();
+    const alertSymbols = new Set(
+      [...symbols, ...auxiliary].map(symbol => this.toStreamSymbol(symbol))
+    );
 
-    this.logger.log(`🔄 开始监控 ${symbol} 的价格变动`);
+    for (const symbol of Array.from(this.alertOnlySymbols)) {
+      if (!alertSymbols.has(this.toStreamSymbol(symbol))) {
+        this.removeSymbolFromMonitor(symbol);
+      }
+    }
 
-    try {
-      // 使用定时轮询的方式获取价格，因为Binance的watchTicker不支持
-      while (this.monitoredSymbols.has(symbol)) {
-        try {
-          const ticker = await this.exchange.fetchTicker(symbol);
-          const price = ticker.last;
-          
-          if (price) {
-            await this.handlePriceUpdate(symbol, price);
-          }
-          
-          // 每2秒获取一次价格，提高监控精度
-          await this.sleep(2000);
-          
-        } catch (error) {
-          this.logger.error(`监控 ${symbol} 价格时出错: ${error.message}`);
-          
-          // 如果是连接错误，尝试重连
-          if (this.shouldReconnect(error)) {
-            await this.attemptReconnect();
-          }
-          
-          // 等待一段时间后继续
-          await this.sleep(10000);
-        }
+    for (const symbol of alertSymbols) {
+      if (!this.streamSymbols.has(symbol)) {
+        await this.addSymbolToMonitor(symbol);
+        this.alertOnlySymbols.add(symbol);
       }
-      
-      this.logger.log(`⏹️ 停止监控 ${symbol} 的价格变动`);
-      
-    } catch (error) {
-      this.logger.error(`启动 ${symbol} 价格监控失败: ${error.message}`);
-      this.monitoredSymbols.delete(symbol);
     }
   }
 
+  /**
+   * 设置其他模块需要监控价格的交易对
+   * 这些交易对与用户价格提醒一样只推送价格，不做区间触发检测，传入空数组即取消该来源的监控
+   */
+  async setAuxiliarySymbols(source: string, symbols: string[]): Promise<void> {
+    if (symbols.length > 0) {
+      this.auxiliarySymbols.set(source, symbols);
+    } else {
+      this.auxiliarySymbols.delete(source);
+    }
+    await this.syncAlertSymbols(this.priceAlertService.getActiveSymbols());
+  }
+
+  /**
+   * 转换为 Binance 流使用的交易对格式 (如: BTC/USDT -> BTCUSDT)
+   */
+  private toStreamSymbol(symbol: string): string {
+    return symbol.replace(/[/\-_]/g, '').toUpperCase();
+  }
+
   /**
    * 处理价格更新
    */
@@ -180,26 +534,24 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
     const previousPrice = this.latestPrices.get(symbol);
     this.latestPrices.set(symbol, price);
 
-    // 检测大幅价格变动，可能错过区间穿越
-    if (previousPrice && Math.abs(price - previousPrice) > 0.5) {
-      // this.logger.warn(
-      //   `检测到 ${symbol} 大幅价格变动: ${previousPrice} -> ${price} (变动: ${(price - previousPrice).toFixed(4)})`
-      // );
-    }
-
     try {
-      // 检查价格触发条件
-      await this.priceTriggerDetectionService.checkPriceTriggers(symbol, price);
-      
-      // 如果有前一个价格，检查是否可能错过中间的区间穿越
-      if (previousPrice && Math.abs(price - previousPrice) > 1.0) {
-        await this.priceTriggerDetectionService.checkPossibleMissedTriggers(
-          symbol, 
-          previousPrice, 
-          price
-        );
+      // 检查用户自定义价格提醒
+      await this.priceAlertService.checkPrice(symbol, price);
+
+      if (!this.alertOnlySymbols.has(symbol)) {
+        // 检查价格触发条件
+        await this.priceTriggerDetectionService.checkPriceTriggers(symbol, price);
+
+        // 如果有前一个价格，检查是否可能错过中间的区间穿越
+        if (previousPrice && Math.abs(price - previousPrice) > 1.0) {
+          await this.priceTriggerDetectionService.checkPossibleMissedTriggers(
+            symbol,
+            previousPrice,
+            price
+          );
+        }
       }
-      
+
       // 通知监听器
       const listeners = this.priceUpdateListeners.get(symbol) || [];
       listeners.forEach(listener => {
@@ -209,7 +561,14 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
           this.logger.error(`价格更新监听器执行失败: ${error.message}`);
         }
       });
-      
+      this.globalPriceListeners.forEach(listener => {
+        try {
+          listener(symbol, price);
+        } catch (error) {
+          this.logger.error(`价格更新监听器执行失败: ${error.message}`);
+        }
+      });
+
     } catch (error) {
       this.logger.error(`处理 ${symbol} 价格更新失败: ${error.message}`);
     }
@@ -225,6 +584,14 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
     this.priceUpdateListeners.get(symbol)!.push(listener);
   }
 
+  /**
+   * 添加所有交易对的价格更新监听器
+   * 与按交易对注册的监听器不同，交易对移出监控后监听器仍然保留
+   */
+  addGlobalPriceListener(listener: (symbol: string, price: number) => void): void {
+    this.globalPriceListeners.push(listener);
+  }
+
   /**
    * 获取最新价格
    */
@@ -239,67 +606,42 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
     return new Map(this.latestPrices);
   }
 
-  /**
-   * 判断是否应该重连
-   */
-  private shouldReconnect(error: any): boolean {
-    const reconnectableErrors = [
-      'Connection lost',
-      'NetworkError',
-      'ECONNRESET',
-      'ENOTFOUND',
-      'ETIMEDOUT'
-    ];
-    
-    return reconnectableErrors.some(errorType => 
-      error.message?.includes(errorType) || error.code?.includes(errorType)
-    );
-  }
-
-  /**
-   * 尝试重连
-   */
-  private async attemptReconnect(): Promise<void> {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.logger.error('达到最大重连次数，停止重连');
-      return;
-    }
-
-    this.reconnectAttempts++;
-    this.isConnected = false;
-    
-    this.logger.warn(`尝试重连 (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-    
-    await this.sleep(this.reconnectDelay);
-    
-    try {
-      await this.initializeWebSocketConnection();
-      this.isConnected = true;
-      this.reconnectAttempts = 0;
-      this.logger.log('WebSocket 重连成功');
-      
-    } catch (error) {
-      this.logger.error(`重连失败: ${error.message}`);
-    }
-  }
-
   /**
    * 断开连接
    */
   private async disconnect(): Promise<void> {
+    this.isShuttingDown = true;
+
     try {
+      this.stopHeartbeat();
+      this.stopPolling();
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+      }
+
+      if (this.ws) {
+        this.ws.close();
+        this.ws = null;
+      }
+
       if (this.exchange) {
         await this.exchange.close();
         this.exchange = null;
       }
-      
+
       this.isConnected = false;
       this.monitoredSymbols.clear();
+      this.streamSymbols.clear();
+      this.tickQueues.clear();
       this.latestPrices.clear();
       this.priceUpdateListeners.clear();
-      
+      this.alertOnlySymbols.clear();
+      this.auxiliarySymbols.clear();
+      this.globalPriceListeners = [];
+
       this.logger.log('WebSocket 连接已断开');
-      
+
     } catch (error) {
       this.logger.error(`断开连接时出错: ${error.message}`);
     }
@@ -308,49 +650,43 @@ export class RealtimePriceMonitorService implements OnModuleInit, OnModuleDestro
   /**
    * 获取连接状态
    */
-  getConnectionStatus(): {
-    isConnected: boolean;
-    monitoredSymbolsCount: number;
-    reconnectAttempts: number;
-  } {
+  getConnectionStatus(): PriceMonitorStatus {
     return {
       isConnected: this.isConnected,
+      mode: this.feedMode,
       monitoredSymbolsCount: this.monitoredSymbols.size,
       reconnectAttempts: this.reconnectAttempts,
+      lastMessageAt: this.lastMessageAt || undefined,
     };
   }
 
-  /**
-   * 等待指定时间
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * 手动刷新监控列表
    */
   async refreshMonitoredSymbols(): Promise<void> {
     this.logger.log('刷新监控的交易对列表');
-    
+
     // 获取当前活跃的配置
     const activeConfigs = await this.coinConfigService.findActiveConfigs();
     const activeSymbols = new Set(activeConfigs.map(config => config.symbol));
-    
+
     // 移除不再活跃的交易对
     for (const symbol of this.monitoredSymbols) {
-      if (!activeSymbols.has(symbol)) {
+      if (!activeSymbols.has(symbol) && !this.alertOnlySymbols.has(symbol)) {
         this.removeSymbolFromMonitor(symbol);
       }
     }
-    
+
     // 添加新的活跃交易对
     for (const symbol of activeSymbols) {
       if (!this.monitoredSymbols.has(symbol)) {
         await this.addSymbolToMonitor(symbol);
       }
     }
-    
+
+    // 保留用户价格提醒及其他模块涉及的交易对
+    await this.syncAlertSymbols(this.priceAlertService.getActiveSymbols());
+
     this.logger.log(`监控列表已刷新，当前监控 ${this.monitoredSymbols.size} 个交易对`);
   }
-}
\ No newline at end of file
+}
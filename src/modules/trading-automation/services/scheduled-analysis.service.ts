@@ -4,6 +4,7 @@ import { PrismaService } from 'src/prisma/prisma.service';
 import { CoreTechnicalAnalysisService } from 'src/modules/technical-analysis/services/core-technical-analysis.service';
 import { SupportResistanceService } from 'src/modules/technical-analysis/services/support-resistance.service';
 import { CoinConfigService } from 'src/modules/coin-config/coin-config.service';
+import { TradingZone } from '../interfaces';
 
 /**
  * 定时技术分析服务
@@ -62,7 +63,7 @@ export class ScheduledAnalysisService {
       // 并行执行技术分析
       const analysisPromises = activeConfigs.map((config, index) => {
         this.logger.log(`[${index + 1}/${activeConfigs.length}] 开始分析 ${config.symbol}(${config.interval})`);
-        return this.analyzeSymbol(config.symbol, config.interval);
+        return this.analyzeSymbol(config.symbol, config.interval, config.exchange);
       });
 
       const results = await Promise.allSettled(analysisPromises);
@@ -96,13 +97,14 @@ export class ScheduledAnalysisService {
   /**
    * 对单个交易对执行完整技术分析
    */
-  private async analyzeSymbol(symbol: string, interval: string): Promise<void> {
+  private async analyzeSymbol(symbol: string, interval: string, exchange: string = 'binance'): Promise<void> {
     try {
-      this.logger.log(`📊 开始分析 ${symbol}(${interval})`);
+      this.logger.log(`📊 开始分析 ${symbol}(${interval}) [${exchange}]`);
 
       // 执行核心技术分析
       const analysisResult = await this.coreTechnicalAnalysisService.performComprehensiveAnalysis(
-        symbol
+        symbol,
+        exchange
       );
 
       // 从核心分析结果中获取支撑阻力分析
@@ -134,7 +136,7 @@ export class ScheduledAnalysisService {
           volatilityScore: trendAnalysis?.volatility?.score || 0,
           signal: trendAnalysis?.overallTrend?.direction || 'HOLD',
           confidence: trendAnalysis?.overallTrend?.confidence || 0.5,
-          patterns: JSON.stringify(trendAnalysis?.patterns || []),
+          patterns: JSON.stringify(analysisResult.patternAnalysis?.patterns || []),
           supportResistance: JSON.stringify({
             supports: supportResistanceAnalysis.allLevels?.supports || [],
             resistances: supportResistanceAnalysis.allLevels?.resistances || [],
@@ -156,8 +158,9 @@ export class ScheduledAnalysisService {
 
   /**
    * 将技术分析的区间格式转换为TradingZone格式
+   * 技术分析区间的宽度已按所属时间周期的ATR缩放，这里保留ATR值供后续参考
    */
-  private convertToTradingZones(zones: any[]): Array<{ price: number; tolerance: number; confidence: number }> {
+  private convertToTradingZones(zones: any[]): TradingZone[] {
     return zones.map(zone => {
       // 如果已经是TradingZone格式，直接返回
       if (typeof zone.price === 'number' && typeof zone.tolerance === 'number') {
@@ -176,7 +179,9 @@ export class ScheduledAnalysisService {
         // 计算中心价格
         const center = (zone.priceRange.min + zone.priceRange.max) / 2;
         const range = zone.priceRange.max - zone.priceRange.min;
-        const tolerance = range / 2; // 将范围的一半作为容差
+        // 将范围的一半作为容差，区间过窄时不低于 ATR 的 1/4，避免正常波动下无法触发
+        const atr = typeof zone.atr === 'number' ? zone.atr : undefined;
+        const tolerance = Math.max(range / 2, atr ? atr * 0.25 : 0);
         
         // 根据strength计算confidence
         let confidence = 0.5;
@@ -187,7 +192,10 @@ export class ScheduledAnalysisService {
         return {
           price: center,
           tolerance: tolerance,
-          confidence: confidence
+          confidence: confidence,
+          strength: zone.strength,
+          timeframe: zone.timeframe,
+          atr,
         };
       }
 
@@ -218,7 +226,7 @@ export class ScheduledAnalysisService {
       if (!config) {
         throw new Error(`未找到交易对配置: ${symbol}`);
       }
-      await this.analyzeSymbol(config.symbol, config.interval);
+      await this.analyzeSymbol(config.symbol, config.interval, config.exchange);
     } else {
       // 分析所有活跃交易对
       await this.executeScheduledAnalysis();
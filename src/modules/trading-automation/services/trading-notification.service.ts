@@ -1,18 +1,49 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { TelegramBotService, BotStatus, SendMessageResult } from 'src/modules/telegram-bot';
-import { TriggerEvent } from '../interfaces';
+import { TriggerEvent, NotificationLogEntry, PriceAlertTriggerEvent } from '../interfaces';
 import { CrossingEvent } from './price-trigger-detection.service';
+import { NotificationRecordService } from './notification-record.service';
+import { PositionRiskAlert } from '../../okx-integration/interfaces/position-monitor.interface';
+import { OkxFillEvent } from '../../okx-integration/interfaces/okx-websocket.interface';
+import { PaperTradeEvent } from '../../paper-trading/interfaces/paper-trading.interface';
 
 /**
  * 交易通知服务
  * 负责发送价格触发相关的Telegram通知
- * 使用统一的 TelegramBotService 来发送消息
+ * 使用统一的 TelegramBotService 来发送消息，所有发出的通知都会写入通知记录
  */
 @Injectable()
 export class TradingNotificationService {
   private readonly logger = new Logger(TradingNotificationService.name);
 
-  constructor(private readonly telegramBotService: TelegramBotService) {}
+  constructor(
+    private readonly telegramBotService: TelegramBotService,
+    private readonly notificationRecordService: NotificationRecordService,
+  ) {}
+
+  /**
+   * 发送消息并记录通知及发送结果
+   * 未指定 chatId 时发送到默认聊天
+   */
+  private async deliver(
+    message: string,
+    options: { disable_notification: boolean; chatId?: string },
+    entry: Omit<NotificationLogEntry, 'message'>,
+  ): Promise<SendMessageResult> {
+    let result: SendMessageResult;
+    try {
+      result = await this.telegramBotService.sendMessage(message, options.chatId, {
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+        disable_notification: options.disable_notification,
+      });
+    } catch (error) {
+      result = { success: false, error: error.message };
+    }
+
+    await this.notificationRecordService.record({ ...entry, message }, result);
+    return result;
+  }
 
   /**
    * 发送价格触发通知
@@ -21,10 +52,15 @@ export class TradingNotificationService {
     try {
       const message = this.formatPriceTriggerMessage(triggerEvent);
       
-      const result = await this.telegramBotService.sendToDefaultChat(message, {
-        parse_mode: 'HTML',
-        disable_web_page_preview: true,
-        disable_notification: false,
+      const result = await this.deliver(message, { disable_notification: false }, {
+        category: 'PRICE_TRIGGER',
+        type: 'info',
+        title: `${triggerEvent.symbol} ${triggerEvent.triggerType === 'BUY' ? '买入信号' : '卖出信号'}`,
+        symbol: triggerEvent.symbol,
+        signal: triggerEvent.triggerType,
+        confidence: triggerEvent.confidence,
+        data: triggerEvent,
+        timestamp: triggerEvent.timestamp,
       });
 
       if (result.success) {
@@ -84,11 +120,17 @@ export class TradingNotificationService {
 
       const symbol = triggerEvents[0].symbol;
       const message = this.formatMultiZoneTriggerMessage(triggerEvents);
+      const signals = [...new Set(triggerEvents.map(e => e.triggerType))];
       
-      const result = await this.telegramBotService.sendToDefaultChat(message, {
-        parse_mode: 'HTML',
-        disable_web_page_preview: true,
-        disable_notification: false,
+      const result = await this.deliver(message, { disable_notification: false }, {
+        category: 'MULTI_ZONE',
+        type: 'info',
+        title: `${symbol} 多区域价格触发 (${triggerEvents.length}个区域)`,
+        symbol,
+        signal: signals.length === 1 ? signals[0] : 'MIXED',
+        confidence: Math.max(...triggerEvents.map(e => e.confidence)),
+        data: triggerEvents,
+        timestamp: triggerEvents[0].timestamp,
       });
 
       if (result.success) {
@@ -157,10 +199,12 @@ export class TradingNotificationService {
     try {
       const formattedMessage = this.formatSystemStatusMessage(status);
       
-      const result = await this.telegramBotService.sendToDefaultChat(formattedMessage, {
-        parse_mode: 'HTML',
-        disable_web_page_preview: true,
-        disable_notification: status.type === 'error' ? false : true,
+      const result = await this.deliver(formattedMessage, { disable_notification: status.type === 'error' ? false : true }, {
+        category: 'SYSTEM_STATUS',
+        type: status.type,
+        title: status.title,
+        data: status,
+        timestamp: status.timestamp,
       });
 
       if (result.success) {
@@ -213,6 +257,313 @@ ${icons[status.type]} <b>系统${typeNames[status.type]}</b>
     return message;
   }
 
+  /**
+   * 发送用户自定义价格提醒通知
+   */
+  async sendPriceAlertNotification(event: PriceAlertTriggerEvent): Promise<boolean> {
+    const { alert } = event;
+    try {
+      const message = this.formatPriceAlertMessage(event);
+
+      const result = await this.deliver(message, { disable_notification: false, chatId: alert.chatId || undefined }, {
+        category: 'PRICE_ALERT',
+        type: 'info',
+        title: `${alert.symbol} ${alert.description}`,
+        symbol: alert.symbol,
+        signal: alert.condition,
+        data: event,
+        timestamp: event.timestamp,
+      });
+
+      if (result.success) {
+        this.logger.log(`价格提醒通知发送成功: #${alert.id} ${alert.symbol}`);
+      } else {
+        this.logger.error(`价格提醒通知发送失败: #${alert.id} ${alert.symbol} - ${result.error}`);
+      }
+
+      return result.success;
+
+    } catch (error) {
+      this.logger.error(`发送价格提醒通知异常: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * 格式化价格提醒消息
+   */
+  private formatPriceAlertMessage(event: PriceAlertTriggerEvent): string {
+    const { alert, price, value, timestamp } = event;
+
+    let valueLine = '';
+    if (alert.condition === 'PERCENT_MOVE') {
+      valueLine = `📈 <b>${alert.timeframe} 涨跌幅:</b> ${value >= 0 ? '+' : ''}${value.toFixed(2)}%\n`;
+    } else if (alert.condition.startsWith('EMA')) {
+      valueLine = `📈 <b>EMA${alert.period}:</b> $${value.toFixed(6)}\n`;
+    } else if (alert.condition.startsWith('RSI')) {
+      valueLine = `📈 <b>RSI${alert.period}:</b> ${value.toFixed(2)}\n`;
+    } else if (event.divergence) {
+      const { divergence } = event;
+      valueLine = `🔀 <b>背离:</b> ${divergence.description}\n` +
+        `🕒 <b>高低点:</b> ${new Date(divergence.start.timestamp).toLocaleString('zh-CN')} → ${new Date(divergence.end.timestamp).toLocaleString('zh-CN')}\n` +
+        `📈 <b>置信度:</b> ${value}%\n`;
+    }
+
+    const modeText = alert.mode === 'ONCE'
+      ? '单次提醒（已完成）'
+      : `重复提醒（第 ${alert.triggerCount} 次）`;
+
+    const message = `
+🔔 <b>价格提醒</b>
+
+📊 <b>交易对:</b> ${alert.symbol}
+📋 <b>条件:</b> ${alert.description}
+${price !== null ? `💰 <b>当前价格:</b> $${price.toFixed(6)}\n` : ''}${valueLine}🔁 <b>模式:</b> ${modeText}
+${alert.note ? `📝 <b>备注:</b> ${alert.note.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}\n` : ''}🆔 <b>提醒ID:</b> ${alert.id}
+
+⏰ <b>时间:</b> ${new Date(timestamp).toLocaleString('zh-CN')}
+
+#价格提醒 #${alert.symbol}
+    `.trim();
+
+    return message;
+  }
+
+  /**
+   * 发送 OKX 持仓风险通知，同一次检查发现的风险合并为一条消息
+   */
+  async sendPositionRiskNotification(alerts: PositionRiskAlert[]): Promise<boolean> {
+    if (alerts.length === 0) {
+      return true;
+    }
+
+    try {
+      const message = this.formatPositionRiskMessage(alerts);
+      const hasCritical = alerts.some((alert) => alert.level === 'critical');
+      const instIds = [...new Set(alerts.map((alert) => alert.instId))];
+
+      const result = await this.deliver(message, { disable_notification: false }, {
+        category: 'POSITION_RISK',
+        type: hasCritical ? 'error' : 'warning',
+        title: `OKX 持仓风险: ${instIds.join(', ')}`,
+        symbol: instIds.length === 1 ? instIds[0] : undefined,
+        signal: alerts.length === 1 ? alerts[0].type : undefined,
+        data: alerts,
+        timestamp: alerts[0].timestamp,
+      });
+
+      if (result.success) {
+        this.logger.log(`持仓风险通知发送成功: ${alerts.length} 条风险`);
+      } else {
+        this.logger.error(`持仓风险通知发送失败: ${result.error}`);
+      }
+
+      return result.success;
+
+    } catch (error) {
+      this.logger.error(`发送持仓风险通知异常: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * 格式化持仓风险消息
+   */
+  private formatPositionRiskMessage(alerts: PositionRiskAlert[]): string {
+    const typeNames = {
+      LIQUIDATION_PROXIMITY: '接近强平',
+      UNREALIZED_LOSS: '浮亏过大',
+      MARGIN_RATIO: '保证金率恶化',
+      MISSING_STOP_LOSS: '未设置止损',
+    };
+
+    const lines = alerts.map((alert) => {
+      const { position } = alert;
+      const icon = alert.level === 'critical' ? '🚨' : '⚠️';
+      const directionText = position.direction === 'LONG' ? '多' : '空';
+      const priceText = position.markPx !== null ? ` | 标记价 $${position.markPx}` : '';
+      return `${icon} <b>${alert.instId}</b> ${directionText} · ${typeNames[alert.type]}\n` +
+        `   ${alert.description}\n` +
+        `   浮盈亏 ${position.upl >= 0 ? '+' : ''}${position.upl.toFixed(2)} (${(position.uplRatio * 100).toFixed(2)}%)${priceText}`;
+    });
+
+    const message = `
+🛡️ <b>OKX 持仓风险提醒</b>
+
+${lines.join('\n\n')}
+
+⏰ <b>时间:</b> ${new Date(alerts[0].timestamp).toLocaleString('zh-CN')}
+
+#持仓风险 #OKX
+    `.trim();
+
+    return message;
+  }
+
+  /**
+   * 发送 OKX 成交通知，同一订单的多笔成交合并展示
+   */
+  async sendOrderFillNotification(fills: OkxFillEvent[]): Promise<boolean> {
+    if (fills.length === 0) {
+      return true;
+    }
+
+    try {
+      const message = this.formatOrderFillMessage(fills);
+      const instIds = [...new Set(fills.map((fill) => fill.instId))];
+
+      const result = await this.deliver(message, { disable_notification: false }, {
+        category: 'ORDER_FILL',
+        type: 'info',
+        title: `OKX 成交: ${instIds.join(', ')}`,
+        symbol: instIds.length === 1 ? instIds[0] : undefined,
+        signal: fills.length === 1 ? fills[0].side.toUpperCase() : undefined,
+        data: fills,
+        timestamp: fills[fills.length - 1].ts,
+      });
+
+      if (result.success) {
+        this.logger.log(`成交通知发送成功: ${fills.length} 笔成交`);
+      } else {
+        this.logger.error(`成交通知发送失败: ${result.error}`);
+      }
+
+      return result.success;
+
+    } catch (error) {
+      this.logger.error(`发送成交通知异常: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * 格式化成交消息
+   */
+  private formatOrderFillMessage(fills: OkxFillEvent[]): string {
+    const orders = new Map<string, OkxFillEvent[]>();
+    for (const fill of fills) {
+      orders.set(fill.ordId, [...(orders.get(fill.ordId) || []), fill]);
+    }
+
+    const sections = Array.from(orders.values()).map((orderFills) => {
+      const last = orderFills[orderFills.length - 1];
+      const size = orderFills.reduce((sum, fill) => sum + fill.fillSz, 0);
+      const avgPx = orderFills.reduce((sum, fill) => sum + fill.fillPx * fill.fillSz, 0) / size;
+      const fee = orderFills.reduce((sum, fill) => sum + fill.fee, 0);
+      const pnlFills = orderFills.filter((fill) => fill.pnl !== null);
+      const pnl = pnlFills.reduce((sum, fill) => sum + (fill.pnl as number), 0);
+
+      // 开多/平空为买入，开空/平多为卖出；单向持仓模式下无法区分开平
+      const isClose = (last.posSide === 'long' && last.side === 'sell') ||
+        (last.posSide === 'short' && last.side === 'buy');
+      const actionText = last.posSide === 'net'
+        ? (last.side === 'buy' ? '买入' : '卖出')
+        : `${isClose ? '平' : '开'}${last.posSide === 'long' ? '多' : '空'}`;
+      const icon = last.side === 'buy' ? '🟢' : '🔴';
+      const stateText = last.orderState === 'filled' ? '完全成交' : '部分成交';
+
+      let section = `${icon} <b>${last.instId}</b> ${actionText}${last.lever ? ` ${last.lever}x` : ''}\n` +
+        `💰 <b>成交:</b> ${size} 张 @ $${avgPx.toFixed(6)}\n` +
+        `📦 <b>订单:</b> ${stateText} ${last.accFillSz}/${last.orderSz}\n` +
+        `💸 <b>手续费:</b> ${fee.toFixed(6)} ${last.feeCcy}`;
+      if (pnlFills.length > 0 && pnl !== 0) {
+        section += `\n📈 <b>收益:</b> ${pnl >= 0 ? '+' : ''}${pnl.toFixed(4)}`;
+      }
+      return section;
+    });
+
+    const message = `
+✅ <b>OKX 成交通知</b>
+
+${sections.join('\n\n')}
+
+⏰ <b>时间:</b> ${new Date(fills[fills.length - 1].ts).toLocaleString('zh-CN')}
+
+#成交 #OKX
+    `.trim();
+
+    return message;
+  }
+
+  /**
+   * 发送模拟盘成交、拒单或平仓通知
+   */
+  async sendPaperTradeNotification(event: PaperTradeEvent): Promise<boolean> {
+    try {
+      const message = this.formatPaperTradeMessage(event);
+      const symbol = event.order?.symbol || event.position?.symbol;
+      const titles: Record<PaperTradeEvent['type'], string> = {
+        FILL: '模拟盘成交',
+        REJECT: '模拟盘拒单',
+        CLOSE: '模拟盘平仓',
+      };
+
+      const result = await this.deliver(message, { disable_notification: true }, {
+        category: 'PAPER_TRADE',
+        type: event.type === 'REJECT' ? 'warning' : event.type === 'CLOSE' ? 'success' : 'info',
+        title: `${titles[event.type]}: ${symbol}`,
+        symbol,
+        signal: event.order?.side,
+        data: event,
+        timestamp: Date.now(),
+      });
+
+      if (!result.success) {
+        this.logger.error(`模拟盘通知发送失败: ${result.error}`);
+      }
+
+      return result.success;
+
+    } catch (error) {
+      this.logger.error(`发送模拟盘通知异常: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * 格式化模拟盘通知消息
+   */
+  private formatPaperTradeMessage(event: PaperTradeEvent): string {
+    const { order, position } = event;
+    const symbol = order?.symbol || position?.symbol;
+    let body = '';
+
+    if (event.type === 'CLOSE' && position) {
+      const reasonText = { TAKE_PROFIT: '🎯 止盈', STOP_LOSS: '🛑 止损', ORDER: '📝 委托平仓' }[event.exitReason || 'ORDER'];
+      const netPnl = event.netPnl || 0;
+      body = `${netPnl >= 0 ? '✅' : '❌'} <b>${symbol}</b> ${position.direction === 'LONG' ? '多单' : '空单'}平仓 · ${reasonText}\n` +
+        `💰 <b>开仓/平仓:</b> $${position.entryPrice.toFixed(6)} → $${(event.exitPrice || 0).toFixed(6)}\n` +
+        `📦 <b>数量:</b> ${position.openedQuantity} · ${position.leverage}x\n` +
+        `📈 <b>净盈亏:</b> ${netPnl >= 0 ? '+' : ''}${netPnl.toFixed(4)} USDT (${(event.rorPercentage || 0).toFixed(2)}%)\n` +
+        `💸 <b>手续费:</b> ${position.fees.toFixed(4)} · 滑点 ${position.slippage.toFixed(4)}`;
+    } else if (order) {
+      const sideText = order.side === 'BUY' ? '🟢 买入' : '🔴 卖出';
+      body = `${sideText} <b>${order.symbol}</b> ${order.type} ${order.quantity}\n`;
+      if (event.type === 'REJECT') {
+        body += `🚫 <b>已拒绝:</b> ${order.reason || '-'}`;
+      } else {
+        body += `💰 <b>成交价:</b> $${(order.fillPrice || 0).toFixed(6)}\n` +
+          `💸 <b>手续费:</b> ${(order.fee || 0).toFixed(4)} · 滑点 ${(order.slippage || 0).toFixed(4)}`;
+        if (position) {
+          body += `\n📊 <b>持仓:</b> ${position.direction === 'LONG' ? '多' : '空'} ${position.quantity} @ $${position.entryPrice.toFixed(6)}`;
+        }
+      }
+      body += `\n🔖 <b>来源:</b> ${order.source}`;
+    }
+
+    const message = `
+🧪 <b>模拟盘通知</b>
+
+${body}
+
+⏰ <b>时间:</b> ${new Date().toLocaleString('zh-CN')}
+
+#模拟盘 #${symbol}
+    `.trim();
+
+    return message;
+  }
+
   /**
    * 发送区间穿越通知
    */
@@ -220,10 +571,15 @@ ${icons[status.type]} <b>系统${typeNames[status.type]}</b>
     try {
       const message = this.formatZoneCrossingMessage(crossingEvent);
       
-      const result = await this.telegramBotService.sendToDefaultChat(message, {
-        parse_mode: 'HTML',
-        disable_web_page_preview: true,
-        disable_notification: false,
+      const result = await this.deliver(message, { disable_notification: false }, {
+        category: 'ZONE_CROSSING',
+        type: 'info',
+        title: `${crossingEvent.symbol} ${crossingEvent.crossingType === 'ENTER' ? '进入' : '离开'}${crossingEvent.triggerType === 'BUY' ? '买入区间' : '卖出区间'}`,
+        symbol: crossingEvent.symbol,
+        signal: crossingEvent.triggerType,
+        confidence: crossingEvent.confidence,
+        data: crossingEvent,
+        timestamp: crossingEvent.timestamp,
       });
 
       // if (result.success) {
@@ -290,10 +646,10 @@ ${crossingIcon} <b>区间穿越</b> ${typeIcon}
 #测试通知
     `.trim();
 
-    const result = await this.telegramBotService.sendToDefaultChat(testMessage, {
-      parse_mode: 'HTML',
-      disable_web_page_preview: true,
-      disable_notification: false,
+    const result = await this.deliver(testMessage, { disable_notification: false }, {
+      category: 'TEST',
+      type: 'info',
+      title: 'Telegram Bot 测试',
     });
 
     if (result.success) {
@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TriggerDetectionState } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { PersistedTriggerState } from '../interfaces';
+
+/**
+ * 触发检测状态存储服务
+ * 负责 TriggerDetectionState 表的读写，使价格触发检测的区间状态和冷却时间在重启后得以恢复
+ */
+@Injectable()
+export class TriggerStateStoreService {
+  private readonly logger = new Logger(TriggerStateStoreService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 读取所有交易对的触发检测状态
+   */
+  async loadAll(): Promise<PersistedTriggerState[]> {
+    const records = await this.prisma.triggerDetectionState.findMany();
+    return records.map((record) => this.toState(record));
+  }
+
+  /**
+   * 保存交易对的触发检测状态
+   */
+  async save(state: PersistedTriggerState): Promise<void> {
+    const data = {
+      zoneStates: JSON.stringify(state.zoneStates),
+      zoneTriggeredFlags: JSON.stringify(state.zoneTriggeredFlags),
+      triggeredZones: JSON.stringify(state.triggeredZones),
+      triggerHistory: JSON.stringify(state.triggerHistory),
+      recentAlerts: JSON.stringify(state.recentAlerts),
+      lastNotificationAt: state.lastNotificationAt
+        ? new Date(state.lastNotificationAt)
+        : null,
+    };
+
+    await this.prisma.triggerDetectionState.upsert({
+      where: { symbol: state.symbol },
+      create: { symbol: state.symbol, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * 获取已持久化的交易对数量和最后写入时间
+   */
+  async getSummary(): Promise<{
+    count: number;
+    lastPersistedAt: Date | null;
+  }> {
+    const result = await this.prisma.triggerDetectionState.aggregate({
+      _count: { _all: true },
+      _max: { updatedAt: true },
+    });
+
+    return {
+      count: result._count._all,
+      lastPersistedAt: result._max.updatedAt,
+    };
+  }
+
+  private toState(record: TriggerDetectionState): PersistedTriggerState {
+    return {
+      symbol: record.symbol,
+      zoneStates: this.parse(record, record.zoneStates, {}),
+      zoneTriggeredFlags: this.parse(record, record.zoneTriggeredFlags, []),
+      triggeredZones: this.parse(record, record.triggeredZones, {}),
+      triggerHistory: this.parse(record, record.triggerHistory, {}),
+      recentAlerts: this.parse(record, record.recentAlerts, {}),
+      lastNotificationAt: record.lastNotificationAt
+        ? record.lastNotificationAt.getTime()
+        : null,
+    };
+  }
+
+  private parse<T>(
+    record: TriggerDetectionState,
+    value: string,
+    fallback: T,
+  ): T {
+    if (!value) {
+      return fallback;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      this.logger.warn(`${record.symbol} 触发检测状态解析失败`);
+      return fallback;
+    }
+  }
+}
@@ -5,12 +5,19 @@ import { ConfigModule } from '@nestjs/config';
 // 控制器导入
 import { TradingAutomationController } from './trading-automation.controller';
 import { TradingDebugController } from './controllers/trading-debug.controller';
+import { NotificationController } from './controllers/notification.controller';
+import { AlertOutcomeController } from './controllers/alert-outcome.controller';
+import { PriceAlertController } from './controllers/price-alert.controller';
 
 // 服务导入
 import { ScheduledAnalysisService } from './services/scheduled-analysis.service';
 import { RealtimePriceMonitorService } from './services/realtime-price-monitor.service';
 import { PriceTriggerDetectionService } from './services/price-trigger-detection.service';
 import { TradingNotificationService } from './services/trading-notification.service';
+import { NotificationRecordService } from './services/notification-record.service';
+import { AlertOutcomeService } from './services/alert-outcome.service';
+import { PriceAlertService } from './services/price-alert.service';
+import { TriggerStateStoreService } from './services/trigger-state-store.service';
 
 // 依赖模块导入
 import { PrismaModule } from 'src/prisma/prisma.module';
@@ -20,7 +27,7 @@ import { CCXTAnalysisModule } from '../ccxt-analysis/ccxt-analysis.module';
 
 /**
  * 交易自动化模块
- * 整合定时分析、实时监控、价格触发检测和通知功能
+ * 整合定时分析、实时监控、价格触发检测、通知记录、触发结果跟踪和用户价格提醒功能
  */
 @Module({
   imports: [
@@ -37,6 +44,9 @@ import { CCXTAnalysisModule } from '../ccxt-analysis/ccxt-analysis.module';
   controllers: [
     TradingAutomationController,
     TradingDebugController,
+    NotificationController,
+    AlertOutcomeController,
+    PriceAlertController,
   ],
   providers: [
     // 核心服务
@@ -44,6 +54,10 @@ import { CCXTAnalysisModule } from '../ccxt-analysis/ccxt-analysis.module';
     RealtimePriceMonitorService,
     PriceTriggerDetectionService,
     TradingNotificationService,
+    NotificationRecordService,
+    AlertOutcomeService,
+    PriceAlertService,
+    TriggerStateStoreService,
   ],
   exports: [
     // 导出服务供其他模块使用
@@ -51,6 +65,9 @@ import { CCXTAnalysisModule } from '../ccxt-analysis/ccxt-analysis.module';
     RealtimePriceMonitorService,
     PriceTriggerDetectionService,
     TradingNotificationService,
+    NotificationRecordService,
+    AlertOutcomeService,
+    PriceAlertService,
   ],
 })
 export class TradingAutomationModule {}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ActionableSignalStatus,
+  EntrySignalType,
+  OpportunityStatus,
+  TradingDirection,
+} from 'src/shared/enums';
+
+export class OpportunityQueryDto {
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: '机会状态',
+    enum: OpportunityStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(OpportunityStatus, { message: '不支持的机会状态' })
+  status?: OpportunityStatus;
+
+  @ApiProperty({
+    description: '交易方向',
+    enum: TradingDirection,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TradingDirection, { message: '不支持的交易方向' })
+  direction?: TradingDirection;
+
+  @ApiProperty({ description: '返回数量', required: false, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '返回数量必须是数字' })
+  @Min(1, { message: '返回数量不能小于1' })
+  @Max(200, { message: '返回数量不能大于200' })
+  limit?: number = 50;
+}
+
+export class ActionableSignalQueryDto {
+  @ApiProperty({ description: '交易对符号', required: false })
+  @IsOptional()
+  @IsString({ message: '交易对符号必须是字符串' })
+  symbol?: string;
+
+  @ApiProperty({
+    description: '信号状态',
+    enum: ActionableSignalStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ActionableSignalStatus, { message: '不支持的信号状态' })
+  status?: ActionableSignalStatus;
+
+  @ApiProperty({
+    description: '入场信号类型',
+    enum: EntrySignalType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(EntrySignalType, { message: '不支持的入场信号类型' })
+  signalType?: EntrySignalType;
+
+  @ApiProperty({ description: '返回数量', required: false, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: '返回数量必须是数字' })
+  @Min(1, { message: '返回数量不能小于1' })
+  @Max(200, { message: '返回数量不能大于200' })
+  limit?: number = 50;
+}
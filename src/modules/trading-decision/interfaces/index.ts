@@ -0,0 +1 @@
+export * from './trading-decision.interface';
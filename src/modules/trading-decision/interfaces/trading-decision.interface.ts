@@ -0,0 +1,116 @@
+import {
+  ActionableSignalStatus,
+  EntrySignalType,
+  MarketState,
+  OpportunityStatus,
+  TradingDirection,
+} from 'src/shared/enums';
+
+/**
+ * 宏观分析使用的时间周期
+ */
+export type DecisionTimeframe = 'D1' | 'H4';
+
+/**
+ * 单个时间周期的市场状态
+ */
+export interface TimeframeMarketState {
+  timeframe: DecisionTimeframe;
+  state: MarketState;
+  emaFast: number;
+  emaSlow: number;
+  currentPrice: number;
+  /** 置信度 0-100 */
+  confidence: number;
+  priceAboveFast: boolean;
+  fastAboveSlow: boolean;
+}
+
+/**
+ * 第一步：宏观市场状态分析结果
+ */
+export interface MarketStateResult {
+  symbol: string;
+  state: MarketState;
+  confidence: number;
+  currentPrice: number;
+  timeframes: TimeframeMarketState[];
+  analyzedAt: Date;
+}
+
+/**
+ * 第二步：基于关键位计算的交易计划
+ */
+export interface OpportunityLevels {
+  direction: TradingDirection;
+  entryPrice: number;
+  takeProfit: number;
+  stopLoss: number;
+  riskRewardRatio: number;
+}
+
+/**
+ * 第三步：M15 入场信号
+ */
+export interface EntrySignalResult {
+  type: EntrySignalType;
+  triggerPrice: number;
+  /** 置信度 0-100 */
+  confidence: number;
+  reason: string;
+  /** 触发信号的K线开盘时间 */
+  candleTime: number;
+}
+
+/**
+ * 交易机会视图
+ */
+export interface TradingOpportunityView {
+  id: string;
+  symbol: string;
+  direction: TradingDirection;
+  marketState: MarketState;
+  riskRewardRatio: number;
+  entryPrice: number | null;
+  takeProfit: number | null;
+  stopLoss: number | null;
+  status: OpportunityStatus;
+  confidence: number | null;
+  reason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  expiredAt: Date | null;
+}
+
+/**
+ * 可执行信号视图
+ */
+export interface ActionableSignalView {
+  id: string;
+  opportunityId: string;
+  symbol: string;
+  direction: TradingDirection;
+  marketState: MarketState;
+  signalType: EntrySignalType;
+  triggerPrice: number;
+  entryPrice: number;
+  takeProfit: number;
+  stopLoss: number;
+  riskRewardRatio: number;
+  confidence: number;
+  reason: string;
+  status: ActionableSignalStatus;
+  triggeredAt: Date;
+  executedAt: Date | null;
+}
+
+/**
+ * 单个交易对的决策漏斗执行结果
+ */
+export interface DecisionRunResult {
+  symbol: string;
+  marketState: MarketStateResult;
+  opportunity: TradingOpportunityView | null;
+  signal: ActionableSignalView | null;
+  message: string;
+}
@@ -0,0 +1,197 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ActionableSignal, TradingOpportunity } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  ActionableSignalStatus,
+  EntrySignalType,
+  MarketState,
+  TradingDirection,
+} from 'src/shared/enums';
+import { ActionableSignalQueryDto } from '../dto';
+import {
+  ActionableSignalView,
+  EntrySignalResult,
+  OpportunityLevels,
+} from '../interfaces';
+
+/**
+ * 可执行信号服务（决策漏斗第三步输出）
+ * 负责 ActionableSignal 的写入、查询和状态流转
+ */
+@Injectable()
+export class ActionableSignalService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 创建可执行信号
+   * @param opportunityId 交易机会ID
+   * @param entrySignal 入场信号
+   * @param levels 以触发价为入场价的交易计划
+   */
+  async create(
+    opportunityId: string,
+    entrySignal: EntrySignalResult,
+    levels: OpportunityLevels,
+  ): Promise<ActionableSignalView> {
+    const signal = await this.prisma.actionableSignal.create({
+      data: {
+        opportunityId,
+        signalType: entrySignal.type,
+        triggerPrice: entrySignal.triggerPrice,
+        entryPrice: levels.entryPrice,
+        takeProfit: levels.takeProfit,
+        stopLoss: levels.stopLoss,
+        riskRewardRatio: Number(levels.riskRewardRatio.toFixed(2)),
+        confidence: Number(entrySignal.confidence.toFixed(2)),
+        reason: entrySignal.reason,
+        status: ActionableSignalStatus.ACTIVE,
+      },
+      include: { opportunity: true },
+    });
+
+    return this.toView(signal);
+  }
+
+  /**
+   * 查询可执行信号
+   */
+  async findAll(
+    query: ActionableSignalQueryDto,
+  ): Promise<ActionableSignalView[]> {
+    const where: any = {};
+
+    if (query.symbol) {
+      where.opportunity = { symbol: query.symbol.toUpperCase() };
+    }
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    if (query.signalType) {
+      where.signalType = query.signalType;
+    }
+
+    const signals = await this.prisma.actionableSignal.findMany({
+      where,
+      orderBy: { triggeredAt: 'desc' },
+      take: Number(query.limit) || 50,
+      include: { opportunity: true },
+    });
+
+    return signals.map((signal) => this.toView(signal));
+  }
+
+  /**
+   * 获取单个可执行信号
+   */
+  async findById(id: string): Promise<ActionableSignalView> {
+    const signal = await this.prisma.actionableSignal.findUnique({
+      where: { id },
+      include: { opportunity: true },
+    });
+
+    if (!signal) {
+      throw new NotFoundException(`ID为 ${id} 的可执行信号不存在`);
+    }
+
+    return this.toView(signal);
+  }
+
+  /**
+   * 查询指定时间之后触发、尚未发起下单的活跃信号
+   * @param since 触发时间下限
+   */
+  async findAwaitingExecution(since: Date): Promise<ActionableSignalView[]> {
+    const signals = await this.prisma.actionableSignal.findMany({
+      where: {
+        status: ActionableSignalStatus.ACTIVE,
+        triggeredAt: { gte: since },
+        executionOrders: { none: {} },
+      },
+      orderBy: { triggeredAt: 'asc' },
+      include: { opportunity: true },
+    });
+
+    return signals.map((signal) => this.toView(signal));
+  }
+
+  /**
+   * 查询指定时间之后触发的活跃信号（不论是否已发起下单）
+   * @param since 触发时间下限（不含）
+   */
+  async findTriggeredAfter(since: Date): Promise<ActionableSignalView[]> {
+    const signals = await this.prisma.actionableSignal.findMany({
+      where: {
+        status: ActionableSignalStatus.ACTIVE,
+        triggeredAt: { gt: since },
+      },
+      orderBy: { triggeredAt: 'asc' },
+      include: { opportunity: true },
+    });
+
+    return signals.map((signal) => this.toView(signal));
+  }
+
+  /**
+   * 标记信号已执行
+   */
+  async markExecuted(id: string): Promise<ActionableSignalView> {
+    const signal = await this.prisma.actionableSignal.findUnique({
+      where: { id },
+    });
+
+    if (!signal) {
+      throw new NotFoundException(`ID为 ${id} 的可执行信号不存在`);
+    }
+
+    const updated = await this.prisma.actionableSignal.update({
+      where: { id },
+      data: {
+        status: ActionableSignalStatus.EXECUTED,
+        executedAt: new Date(),
+      },
+      include: { opportunity: true },
+    });
+
+    return this.toView(updated);
+  }
+
+  /**
+   * 使超过有效期的活跃信号过期
+   * @param ttlHours 有效期（小时）
+   */
+  async expireStale(ttlHours: number): Promise<number> {
+    const { count } = await this.prisma.actionableSignal.updateMany({
+      where: {
+        status: ActionableSignalStatus.ACTIVE,
+        triggeredAt: { lt: new Date(Date.now() - ttlHours * 3600 * 1000) },
+      },
+      data: { status: ActionableSignalStatus.EXPIRED },
+    });
+    return count;
+  }
+
+  private toView(
+    signal: ActionableSignal & { opportunity: TradingOpportunity },
+  ): ActionableSignalView {
+    return {
+      id: signal.id,
+      opportunityId: signal.opportunityId,
+      symbol: signal.opportunity.symbol,
+      direction: signal.opportunity.direction as TradingDirection,
+      marketState: signal.opportunity.marketState as MarketState,
+      signalType: signal.signalType as EntrySignalType,
+      triggerPrice: Number(signal.triggerPrice),
+      entryPrice: Number(signal.entryPrice),
+      takeProfit: Number(signal.takeProfit),
+      stopLoss: Number(signal.stopLoss),
+      riskRewardRatio: Number(signal.riskRewardRatio),
+      confidence: Number(signal.confidence),
+      reason: signal.reason,
+      status: signal.status as ActionableSignalStatus,
+      triggeredAt: signal.triggeredAt,
+      executedAt: signal.executedAt,
+    };
+  }
+}
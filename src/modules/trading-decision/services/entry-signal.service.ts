@@ -0,0 +1,220 @@
+import { Injectable } from '@nestjs/common';
+import { EntrySignalType, TradingDirection } from 'src/shared/enums';
+import { MathUtil } from 'src/shared/utils';
+import { IOHLCVData } from '../../ccxt-analysis/interfaces';
+import { EntrySignalResult } from '../interfaces';
+
+/** 结构突破要求的成交量倍数 */
+const BREAKOUT_VOLUME_MULTIPLIER = 1.5;
+
+/** 回调确认时K线低点/高点与EMA的最大距离 */
+const PULLBACK_TOLERANCE = 0.003;
+
+/** 整理形态的K线数量 */
+const CONSOLIDATION_BARS = 12;
+
+/** 整理形态的最大振幅 */
+const MAX_CONSOLIDATION_WIDTH = 0.02;
+
+/**
+ * 入场信号服务（决策漏斗第三步）
+ * 在 M15 已收盘K线上识别右侧入场信号
+ */
+@Injectable()
+export class EntrySignalService {
+  /**
+   * 识别入场信号，按 结构突破 → 回调确认 → 形态突破 的顺序返回第一个触发的信号
+   * @param candles M15 已收盘K线（按时间升序）
+   * @param direction 交易方向
+   * @param enabledTypes 启用的信号类型
+   * @param emaPeriod 回调确认使用的EMA周期
+   */
+  detect(
+    candles: IOHLCVData[],
+    direction: TradingDirection,
+    enabledTypes: string[],
+    emaPeriod: number = 21,
+  ): EntrySignalResult | null {
+    if (candles.length < Math.max(emaPeriod, CONSOLIDATION_BARS * 2) + 2) {
+      return null;
+    }
+
+    const detectors: Array<[EntrySignalType, () => EntrySignalResult | null]> =
+      [
+        [
+          EntrySignalType.STRUCTURE_BREAKOUT,
+          () => this.detectStructureBreakout(candles, direction),
+        ],
+        [
+          EntrySignalType.PULLBACK_CONFIRMATION,
+          () => this.detectPullbackConfirmation(candles, direction, emaPeriod),
+        ],
+        [
+          EntrySignalType.PATTERN_BREAKOUT,
+          () => this.detectPatternBreakout(candles, direction),
+        ],
+      ];
+
+    for (const [type, detector] of detectors) {
+      if (!enabledTypes.includes(type)) {
+        continue;
+      }
+      const signal = detector();
+      if (signal) {
+        return signal;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 信号A：放量突破并收盘在最近一个次级高点之上（做空为跌破次级低点）
+   */
+  private detectStructureBreakout(
+    candles: IOHLCVData[],
+    direction: TradingDirection,
+  ): EntrySignalResult | null {
+    const last = candles[candles.length - 1];
+    const previous = candles[candles.length - 2];
+    const history = candles.slice(0, -1);
+    const isLong = direction === TradingDirection.LONG;
+
+    const { peaks, valleys } = MathUtil.findPeaksAndValleys(
+      history.map((c) => (isLong ? c.high : c.low)),
+      3,
+    );
+    const pivots = isLong ? peaks : valleys;
+    if (pivots.length === 0) {
+      return null;
+    }
+
+    const pivot = history[pivots[pivots.length - 1]];
+    const level = isLong ? pivot.high : pivot.low;
+    const brokeOut = isLong
+      ? previous.close <= level && last.close > level
+      : previous.close >= level && last.close < level;
+    if (!brokeOut) {
+      return null;
+    }
+
+    const volumeWindow = history.slice(-20);
+    const avgVolume =
+      volumeWindow.reduce((sum, c) => sum + c.volume, 0) / volumeWindow.length;
+    const volumeRatio = avgVolume > 0 ? last.volume / avgVolume : 0;
+    if (volumeRatio < BREAKOUT_VOLUME_MULTIPLIER) {
+      return null;
+    }
+
+    return {
+      type: EntrySignalType.STRUCTURE_BREAKOUT,
+      triggerPrice: last.close,
+      confidence: Math.min(
+        90,
+        60 + (volumeRatio - BREAKOUT_VOLUME_MULTIPLIER) * 15,
+      ),
+      reason: `M15收盘${isLong ? '突破次级高点' : '跌破次级低点'} ${level.toFixed(4)}，成交量为均量的 ${volumeRatio.toFixed(2)} 倍`,
+      candleTime: last.timestamp,
+    };
+  }
+
+  /**
+   * 信号B：回踩 EMA 后出现看涨/看跌吞没K线
+   */
+  private detectPullbackConfirmation(
+    candles: IOHLCVData[],
+    direction: TradingDirection,
+    emaPeriod: number,
+  ): EntrySignalResult | null {
+    const ema = MathUtil.calculateEMA(
+      candles.map((c) => c.close),
+      emaPeriod,
+    );
+    if (ema.length < 2) {
+      return null;
+    }
+
+    const last = candles[candles.length - 1];
+    const previous = candles[candles.length - 2];
+    const emaLast = ema[ema.length - 1];
+    const emaPrevious = ema[ema.length - 2];
+
+    if (direction === TradingDirection.LONG) {
+      const touchedEma = previous.low <= emaPrevious * (1 + PULLBACK_TOLERANCE);
+      const bullishEngulfing =
+        previous.close < previous.open &&
+        last.close > last.open &&
+        last.close >= previous.open &&
+        last.open <= previous.close;
+      if (touchedEma && bullishEngulfing && last.close > emaLast) {
+        return {
+          type: EntrySignalType.PULLBACK_CONFIRMATION,
+          triggerPrice: last.close,
+          confidence: 70,
+          reason: `M15回踩EMA${emaPeriod}(${emaPrevious.toFixed(4)})后出现看涨吞没`,
+          candleTime: last.timestamp,
+        };
+      }
+      return null;
+    }
+
+    const touchedEma = previous.high >= emaPrevious * (1 - PULLBACK_TOLERANCE);
+    const bearishEngulfing =
+      previous.close > previous.open &&
+      last.close < last.open &&
+      last.close <= previous.open &&
+      last.open >= previous.close;
+    if (touchedEma && bearishEngulfing && last.close < emaLast) {
+      return {
+        type: EntrySignalType.PULLBACK_CONFIRMATION,
+        triggerPrice: last.close,
+        confidence: 70,
+        reason: `M15反抽EMA${emaPeriod}(${emaPrevious.toFixed(4)})后出现看跌吞没`,
+        candleTime: last.timestamp,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * 信号C：窄幅整理（旗形/收敛三角）后有效突破
+   * 整理区间振幅需明显小于之前的推动段
+   */
+  private detectPatternBreakout(
+    candles: IOHLCVData[],
+    direction: TradingDirection,
+  ): EntrySignalResult | null {
+    const last = candles[candles.length - 1];
+    const consolidation = candles.slice(-(CONSOLIDATION_BARS + 1), -1);
+    const impulse = candles.slice(
+      -(CONSOLIDATION_BARS * 2 + 1),
+      -(CONSOLIDATION_BARS + 1),
+    );
+
+    const rangeHigh = Math.max(...consolidation.map((c) => c.high));
+    const rangeLow = Math.min(...consolidation.map((c) => c.low));
+    const width = (rangeHigh - rangeLow) / rangeLow;
+    const impulseWidth =
+      (Math.max(...impulse.map((c) => c.high)) -
+        Math.min(...impulse.map((c) => c.low))) /
+      rangeLow;
+
+    if (width > MAX_CONSOLIDATION_WIDTH || width > impulseWidth * 0.6) {
+      return null;
+    }
+
+    const isLong = direction === TradingDirection.LONG;
+    const brokeOut = isLong ? last.close > rangeHigh : last.close < rangeLow;
+    if (!brokeOut) {
+      return null;
+    }
+
+    return {
+      type: EntrySignalType.PATTERN_BREAKOUT,
+      triggerPrice: last.close,
+      confidence: Math.min(85, 60 + (impulseWidth / width) * 5),
+      reason: `M15经过${CONSOLIDATION_BARS}根K线窄幅整理（振幅 ${(width * 100).toFixed(2)}%）后${isLong ? '向上' : '向下'}突破 ${(isLong ? rangeHigh : rangeLow).toFixed(4)}`,
+      candleTime: last.timestamp,
+    };
+  }
+}
@@ -0,0 +1,5 @@
+export * from './market-state.service';
+export * from './opportunity.service';
+export * from './entry-signal.service';
+export * from './actionable-signal.service';
+export * from './trading-decision.service';
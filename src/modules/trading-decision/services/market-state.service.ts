@@ -0,0 +1,189 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TradingDecisionConfig } from 'src/config/trading-decision.config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MarketState } from 'src/shared/enums';
+import { MathUtil } from 'src/shared/utils';
+import { CCXTDataService } from '../../ccxt-analysis/services/ccxt-data.service';
+import {
+  DecisionTimeframe,
+  MarketStateResult,
+  TimeframeMarketState,
+} from '../interfaces';
+
+/** 决策时间周期与K线周期的对应关系 */
+const TIMEFRAME_INTERVALS: Record<DecisionTimeframe, string> = {
+  D1: '1d',
+  H4: '4h',
+};
+
+/**
+ * 市场状态服务（决策漏斗第一步）
+ * 基于 D1/H4 的 EMA 快慢线判断宏观趋势，并写入 MarketState 表
+ */
+@Injectable()
+export class MarketStateService {
+  private readonly logger = new Logger(MarketStateService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 分析交易对的宏观市场状态
+   * D1 和 H4 同时为上升趋势时判定为上升趋势，同时为下降趋势时判定为下降趋势，否则为横盘
+   * @param symbol 交易对符号
+   * @param exchange 交易所名称
+   */
+  async analyze(
+    symbol: string,
+    exchange: string = 'binance',
+  ): Promise<MarketStateResult> {
+    try {
+      const timeframes = await Promise.all(
+        (Object.keys(TIMEFRAME_INTERVALS) as DecisionTimeframe[]).map((tf) =>
+          this.analyzeTimeframe(symbol, tf, exchange),
+        ),
+      );
+
+      const states = timeframes.map((tf) => tf.state);
+      let state = MarketState.RANGING;
+      if (states.every((s) => s === MarketState.UPTREND)) {
+        state = MarketState.UPTREND;
+      } else if (states.every((s) => s === MarketState.DOWNTREND)) {
+        state = MarketState.DOWNTREND;
+      }
+
+      const confidence =
+        state === MarketState.RANGING
+          ? 50
+          : timeframes.reduce((sum, tf) => sum + tf.confidence, 0) /
+            timeframes.length;
+      const analyzedAt = new Date();
+
+      await Promise.all(
+        timeframes.map((tf) =>
+          this.prisma.marketState.upsert({
+            where: { symbol_timeframe: { symbol, timeframe: tf.timeframe } },
+            create: {
+              symbol,
+              timeframe: tf.timeframe,
+              ...this.toRecord(tf, state),
+              analyzedAt,
+            },
+            update: { ...this.toRecord(tf, state), analyzedAt },
+          }),
+        ),
+      );
+
+      return {
+        symbol,
+        state,
+        confidence,
+        currentPrice: timeframes.find((tf) => tf.timeframe === 'H4')
+          .currentPrice,
+        timeframes,
+        analyzedAt,
+      };
+    } catch (error) {
+      this.logger.error(`分析${symbol}市场状态失败: ${error.message}`);
+      throw new Error(`分析${symbol}市场状态失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 获取已保存的市场状态
+   * @param symbol 交易对符号，不传则返回全部
+   */
+  async findAll(symbol?: string) {
+    const records = await this.prisma.marketState.findMany({
+      where: symbol ? { symbol: symbol.toUpperCase() } : {},
+      orderBy: [{ symbol: 'asc' }, { timeframe: 'asc' }],
+    });
+
+    return records.map((record) => ({
+      symbol: record.symbol,
+      timeframe: record.timeframe,
+      state: record.state,
+      ema21: Number(record.ema21),
+      ema55: Number(record.ema55),
+      currentPrice: Number(record.currentPrice),
+      confidence: Number(record.confidence),
+      details: record.details ? JSON.parse(record.details) : null,
+      analyzedAt: record.analyzedAt,
+    }));
+  }
+
+  /**
+   * 分析单个时间周期
+   */
+  private async analyzeTimeframe(
+    symbol: string,
+    timeframe: DecisionTimeframe,
+    exchange: string,
+  ): Promise<TimeframeMarketState> {
+    const config =
+      this.configService.get<TradingDecisionConfig>('tradingDecision');
+    const candles = await this.ccxtDataService.getOHLCVData(
+      symbol,
+      TIMEFRAME_INTERVALS[timeframe],
+      Math.max(200, config.emaSlowPeriod * 3),
+      exchange,
+    );
+    const closes = candles.map((c) => c.close);
+    const emaFastValues = MathUtil.calculateEMA(closes, config.emaFastPeriod);
+    const emaSlowValues = MathUtil.calculateEMA(closes, config.emaSlowPeriod);
+    if (emaSlowValues.length === 0) {
+      throw new Error(`${timeframe} K线数量不足，无法计算EMA`);
+    }
+
+    const currentPrice = closes[closes.length - 1];
+    const emaFast = emaFastValues[emaFastValues.length - 1];
+    const emaSlow = emaSlowValues[emaSlowValues.length - 1];
+    const priceAboveFast = currentPrice > emaFast;
+    const fastAboveSlow = emaFast > emaSlow;
+
+    let state = MarketState.RANGING;
+    if (priceAboveFast && fastAboveSlow) {
+      state = MarketState.UPTREND;
+    } else if (!priceAboveFast && !fastAboveSlow) {
+      state = MarketState.DOWNTREND;
+    }
+
+    // 置信度随均线间距和价格偏离程度提高
+    const emaSpread = Math.abs(emaFast - emaSlow) / emaSlow;
+    const priceDistance = Math.abs(currentPrice - emaFast) / emaFast;
+    const confidence =
+      state === MarketState.RANGING
+        ? 50
+        : Math.min(95, 55 + emaSpread * 800 + priceDistance * 400);
+
+    return {
+      timeframe,
+      state,
+      emaFast,
+      emaSlow,
+      currentPrice,
+      confidence,
+      priceAboveFast,
+      fastAboveSlow,
+    };
+  }
+
+  private toRecord(tf: TimeframeMarketState, overallState: MarketState) {
+    return {
+      state: tf.state,
+      ema21: tf.emaFast,
+      ema55: tf.emaSlow,
+      currentPrice: tf.currentPrice,
+      confidence: Number(tf.confidence.toFixed(2)),
+      details: JSON.stringify({
+        overallState,
+        priceAboveFast: tf.priceAboveFast,
+        fastAboveSlow: tf.fastAboveSlow,
+      }),
+    };
+  }
+}
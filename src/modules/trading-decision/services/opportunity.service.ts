@@ -0,0 +1,318 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TradingOpportunity } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  MarketState,
+  OpportunityStatus,
+  TradingDirection,
+} from 'src/shared/enums';
+import { SupportResistanceService } from '../../technical-analysis/services/support-resistance.service';
+import { ISupportResistanceLevel } from '../../technical-analysis/interfaces';
+import { OpportunityQueryDto } from '../dto';
+import {
+  MarketStateResult,
+  OpportunityLevels,
+  TradingOpportunityView,
+} from '../interfaces';
+
+/** 参与盈亏比计算的关键位周期 */
+const KEY_LEVEL_TIMEFRAMES = ['1d', '4h'];
+
+/**
+ * 交易机会服务（决策漏斗第二步）
+ * 基于 D1/H4 关键位计算盈亏比，维护 TradingOpportunity 的生命周期
+ */
+@Injectable()
+export class OpportunityService {
+  private readonly logger = new Logger(OpportunityService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly supportResistanceService: SupportResistanceService,
+  ) {}
+
+  /**
+   * 根据市场状态筛选交易机会
+   * 横盘或趋势反转时使监控中的机会过期；盈亏比达标时创建或刷新监控中的机会
+   * @param marketState 第一步的市场状态
+   * @param exchange 交易所名称
+   * @param minRiskRewardRatio 最低盈亏比
+   * @param cooldownHours 同方向机会触发后，在该时间内不再创建新机会
+   */
+  async evaluate(
+    marketState: MarketStateResult,
+    exchange: string,
+    minRiskRewardRatio: number,
+    cooldownHours: number,
+  ): Promise<TradingOpportunityView | null> {
+    const { symbol, state } = marketState;
+    const direction = this.getDirection(state);
+
+    // 趋势不明或方向改变时，监控中的机会全部失效
+    await this.expireWatching(
+      {
+        symbol,
+        ...(direction && { direction: { not: direction } }),
+      },
+      direction ? '宏观趋势方向改变' : '趋势不明，建议观望',
+    );
+    if (!direction) {
+      return null;
+    }
+
+    const levels = await this.calculateLevels(symbol, exchange, direction);
+    const watching = await this.prisma.tradingOpportunity.findFirst({
+      where: { symbol, direction, status: OpportunityStatus.WATCHING },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!levels || levels.riskRewardRatio < minRiskRewardRatio) {
+      if (watching) {
+        await this.expire(
+          watching,
+          levels
+            ? `盈亏比降至 ${levels.riskRewardRatio.toFixed(2)}，低于阈值 ${minRiskRewardRatio}`
+            : '找不到有效的止盈/止损关键位',
+        );
+      }
+      return null;
+    }
+
+    if (watching) {
+      const updated = await this.prisma.tradingOpportunity.update({
+        where: { id: watching.id },
+        data: {
+          ...this.toLevelData(levels),
+          marketState: state,
+          confidence: Number(marketState.confidence.toFixed(2)),
+        },
+      });
+      return this.toView(updated);
+    }
+
+    // 刚触发过的同方向机会处于冷却期，避免重复创建
+    const recentlyTriggered = await this.prisma.tradingOpportunity.findFirst({
+      where: {
+        symbol,
+        direction,
+        status: OpportunityStatus.TRIGGERED,
+        updatedAt: { gte: new Date(Date.now() - cooldownHours * 3600 * 1000) },
+      },
+    });
+    if (recentlyTriggered) {
+      return null;
+    }
+
+    const created = await this.prisma.tradingOpportunity.create({
+      data: {
+        symbol,
+        direction,
+        marketState: state,
+        status: OpportunityStatus.WATCHING,
+        confidence: Number(marketState.confidence.toFixed(2)),
+        reason: `${state === MarketState.UPTREND ? '上升' : '下降'}趋势中盈亏比 ${levels.riskRewardRatio.toFixed(2)} 达到阈值 ${minRiskRewardRatio}`,
+        ...this.toLevelData(levels),
+      },
+    });
+
+    this.logger.log(
+      `新增交易机会: ${symbol} ${direction} 盈亏比 ${levels.riskRewardRatio.toFixed(2)}`,
+    );
+    return this.toView(created);
+  }
+
+  /**
+   * 计算交易计划
+   * 做多：入场价为当前价，止盈为上方最近阻力，止损为下方最近支撑；做空相反
+   * @param symbol 交易对符号
+   * @param exchange 交易所名称
+   * @param direction 交易方向
+   * @param entryPrice 入场价，不传则使用当前价格
+   */
+  async calculateLevels(
+    symbol: string,
+    exchange: string,
+    direction: TradingDirection,
+    entryPrice?: number,
+  ): Promise<OpportunityLevels | null> {
+    const analysis =
+      await this.supportResistanceService.analyzeSupportResistance(
+        symbol,
+        exchange,
+      );
+    const entry = entryPrice ?? analysis.currentPrice;
+    const isKeyLevel = (level: ISupportResistanceLevel) =>
+      KEY_LEVEL_TIMEFRAMES.includes(level.timeframe);
+
+    const supports = analysis.allLevels.supports.filter(isKeyLevel);
+    const resistances = analysis.allLevels.resistances.filter(isKeyLevel);
+
+    let takeProfit: number | undefined;
+    let stopLoss: number | undefined;
+    if (direction === TradingDirection.LONG) {
+      takeProfit = this.nearestAbove(
+        resistances.map((level) => level.priceRange.min),
+        entry,
+      );
+      stopLoss = this.nearestBelow(
+        supports.map((level) => level.priceRange.min),
+        entry,
+      );
+    } else {
+      takeProfit = this.nearestBelow(
+        supports.map((level) => level.priceRange.max),
+        entry,
+      );
+      stopLoss = this.nearestAbove(
+        resistances.map((level) => level.priceRange.max),
+        entry,
+      );
+    }
+
+    if (takeProfit === undefined || stopLoss === undefined) {
+      return null;
+    }
+
+    const reward = Math.abs(takeProfit - entry);
+    const risk = Math.abs(entry - stopLoss);
+    if (risk === 0) {
+      return null;
+    }
+
+    return {
+      direction,
+      entryPrice: entry,
+      takeProfit,
+      stopLoss,
+      riskRewardRatio: reward / risk,
+    };
+  }
+
+  /**
+   * 查询交易机会
+   */
+  async findAll(query: OpportunityQueryDto): Promise<TradingOpportunityView[]> {
+    const where: any = {};
+
+    if (query.symbol) {
+      where.symbol = query.symbol.toUpperCase();
+    }
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    if (query.direction) {
+      where.direction = query.direction;
+    }
+
+    const records = await this.prisma.tradingOpportunity.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: Number(query.limit) || 50,
+    });
+
+    return records.map((record) => this.toView(record));
+  }
+
+  /**
+   * 标记交易机会已触发
+   */
+  async markTriggered(
+    id: string,
+    levels: OpportunityLevels,
+  ): Promise<TradingOpportunityView> {
+    const opportunity = await this.prisma.tradingOpportunity.update({
+      where: { id },
+      data: {
+        status: OpportunityStatus.TRIGGERED,
+        ...this.toLevelData(levels),
+      },
+    });
+    return this.toView(opportunity);
+  }
+
+  /**
+   * 使超过有效期的监控中机会过期
+   * @param ttlHours 有效期（小时）
+   */
+  async expireStale(ttlHours: number): Promise<number> {
+    return await this.expireWatching(
+      { createdAt: { lt: new Date(Date.now() - ttlHours * 3600 * 1000) } },
+      `超过 ${ttlHours} 小时未触发入场信号`,
+    );
+  }
+
+  private async expireWatching(where: any, reason: string): Promise<number> {
+    const stale = await this.prisma.tradingOpportunity.findMany({
+      where: { ...where, status: OpportunityStatus.WATCHING },
+    });
+
+    for (const opportunity of stale) {
+      await this.expire(opportunity, reason);
+    }
+    return stale.length;
+  }
+
+  private async expire(opportunity: TradingOpportunity, reason: string) {
+    await this.prisma.tradingOpportunity.update({
+      where: { id: opportunity.id },
+      data: {
+        status: OpportunityStatus.EXPIRED,
+        expiredAt: new Date(),
+        reason: `${opportunity.reason ? `${opportunity.reason}；` : ''}过期原因: ${reason}`,
+      },
+    });
+    this.logger.log(
+      `交易机会过期: ${opportunity.symbol} ${opportunity.direction}，${reason}`,
+    );
+  }
+
+  private getDirection(state: MarketState): TradingDirection | null {
+    if (state === MarketState.UPTREND) {
+      return TradingDirection.LONG;
+    }
+    if (state === MarketState.DOWNTREND) {
+      return TradingDirection.SHORT;
+    }
+    return null;
+  }
+
+  private nearestAbove(prices: number[], reference: number) {
+    const candidates = prices.filter((price) => price > reference);
+    return candidates.length > 0 ? Math.min(...candidates) : undefined;
+  }
+
+  private nearestBelow(prices: number[], reference: number) {
+    const candidates = prices.filter((price) => price < reference);
+    return candidates.length > 0 ? Math.max(...candidates) : undefined;
+  }
+
+  private toLevelData(levels: OpportunityLevels) {
+    return {
+      entryPrice: levels.entryPrice,
+      takeProfit: levels.takeProfit,
+      stopLoss: levels.stopLoss,
+      riskRewardRatio: Number(levels.riskRewardRatio.toFixed(2)),
+    };
+  }
+
+  private toView(record: TradingOpportunity): TradingOpportunityView {
+    return {
+      id: record.id,
+      symbol: record.symbol,
+      direction: record.direction as TradingDirection,
+      marketState: record.marketState as MarketState,
+      riskRewardRatio: Number(record.riskRewardRatio),
+      entryPrice: record.entryPrice !== null ? Number(record.entryPrice) : null,
+      takeProfit: record.takeProfit !== null ? Number(record.takeProfit) : null,
+      stopLoss: record.stopLoss !== null ? Number(record.stopLoss) : null,
+      status: record.status as OpportunityStatus,
+      confidence: record.confidence !== null ? Number(record.confidence) : null,
+      reason: record.reason,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      expiredAt: record.expiredAt,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { TradingDecisionConfig } from 'src/config/trading-decision.config';
+import { IntervalType, TradingDirection } from 'src/shared/enums';
+import { TimeUtil } from 'src/shared/utils';
+import { CCXTDataService } from '../../ccxt-analysis/services/ccxt-data.service';
+import { CoinConfigService } from '../../coin-config/coin-config.service';
+import { DecisionRunResult, OpportunityLevels } from '../interfaces';
+import { ActionableSignalService } from './actionable-signal.service';
+import { EntrySignalService } from './entry-signal.service';
+import { MarketStateService } from './market-state.service';
+import { OpportunityService } from './opportunity.service';
+
+/** M15 入场信号识别使用的K线数量 */
+const ENTRY_CANDLE_LIMIT = 100;
+
+/**
+ * 交易决策服务
+ * 按 PRD 四步漏斗依次执行：宏观状态 → 盈亏比筛选 → 右侧入场信号 → 可执行信号
+ */
+@Injectable()
+export class TradingDecisionService {
+  private readonly logger = new Logger(TradingDecisionService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly ccxtDataService: CCXTDataService,
+    private readonly coinConfigService: CoinConfigService,
+    private readonly marketStateService: MarketStateService,
+    private readonly opportunityService: OpportunityService,
+    private readonly entrySignalService: EntrySignalService,
+    private readonly actionableSignalService: ActionableSignalService,
+  ) {}
+
+  /**
+   * 定时对所有活跃交易对执行决策漏斗
+   */
+  @Cron('30 */5 * * * *', {
+    name: 'trading-decision-funnel',
+    timeZone: 'Asia/Shanghai',
+  })
+  async runScheduled(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('上一次决策漏斗尚未完成，跳过本次执行');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const config = this.getConfig();
+      const [expiredOpportunities, expiredSignals] = await Promise.all([
+        this.opportunityService.expireStale(config.opportunityTtlHours),
+        this.actionableSignalService.expireStale(config.signalTtlHours),
+      ]);
+      if (expiredOpportunities + expiredSignals > 0) {
+        this.logger.log(
+          `过期交易机会 ${expiredOpportunities} 个，过期可执行信号 ${expiredSignals} 个`,
+        );
+      }
+
+      // 同一交易对可能配置了多个周期，决策漏斗只需执行一次
+      const configs = await this.coinConfigService.findActiveConfigs();
+      const targets = new Map<string, string>();
+      configs.forEach((coin) => {
+        if (!targets.has(coin.symbol)) {
+          targets.set(coin.symbol, coin.exchange);
+        }
+      });
+
+      let signalCount = 0;
+      for (const [symbol, exchange] of targets) {
+        try {
+          const result = await this.runForSymbol(symbol, exchange);
+          if (result.signal) {
+            signalCount++;
+          }
+        } catch (error) {
+          this.logger.error(`${symbol} 决策漏斗执行失败: ${error.message}`);
+        }
+      }
+
+      this.logger.log(
+        `决策漏斗完成: ${targets.size} 个交易对，产生 ${signalCount} 个可执行信号`,
+      );
+    } catch (error) {
+      this.logger.error(`定时决策漏斗失败: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * 对单个交易对执行决策漏斗
+   * @param symbol 交易对符号
+   * @param exchange 交易所名称
+   */
+  async runForSymbol(
+    symbol: string,
+    exchange: string = 'binance',
+  ): Promise<DecisionRunResult> {
+    const config = this.getConfig();
+    const normalizedSymbol = symbol.toUpperCase();
+
+    // 第一步：宏观环境分析
+    const marketState = await this.marketStateService.analyze(
+      normalizedSymbol,
+      exchange,
+    );
+
+    // 第二步：盈亏比过滤
+    const opportunity = await this.opportunityService.evaluate(
+      marketState,
+      exchange,
+      config.minRiskRewardRatio,
+      config.resignalCooldownHours,
+    );
+    if (!opportunity) {
+      return {
+        symbol: normalizedSymbol,
+        marketState,
+        opportunity: null,
+        signal: null,
+        message: '当前没有满足方向和盈亏比要求的交易机会',
+      };
+    }
+
+    // 第三步：M15 右侧入场信号
+    const candles = await this.getClosedEntryCandles(
+      normalizedSymbol,
+      exchange,
+    );
+    const entrySignal = this.entrySignalService.detect(
+      candles,
+      opportunity.direction,
+      config.enabledSignals,
+      config.emaFastPeriod,
+    );
+    if (!entrySignal) {
+      return {
+        symbol: normalizedSymbol,
+        marketState,
+        opportunity,
+        signal: null,
+        message: '交易机会监控中，等待入场信号',
+      };
+    }
+
+    // 以触发价为入场价重新计算盈亏比，仍需满足阈值
+    const isLong = opportunity.direction === TradingDirection.LONG;
+    const reward =
+      (opportunity.takeProfit - entrySignal.triggerPrice) * (isLong ? 1 : -1);
+    const risk =
+      (entrySignal.triggerPrice - opportunity.stopLoss) * (isLong ? 1 : -1);
+    const riskRewardRatio = risk > 0 ? reward / risk : 0;
+    if (riskRewardRatio < config.minRiskRewardRatio) {
+      return {
+        symbol: normalizedSymbol,
+        marketState,
+        opportunity,
+        signal: null,
+        message: `入场信号已出现，但按触发价计算的盈亏比 ${riskRewardRatio.toFixed(2)} 低于阈值`,
+      };
+    }
+
+    const levels: OpportunityLevels = {
+      direction: opportunity.direction,
+      entryPrice: entrySignal.triggerPrice,
+      takeProfit: opportunity.takeProfit,
+      stopLoss: opportunity.stopLoss,
+      riskRewardRatio,
+    };
+    const triggered = await this.opportunityService.markTriggered(
+      opportunity.id,
+      levels,
+    );
+    const signal = await this.actionableSignalService.create(
+      triggered.id,
+      entrySignal,
+      levels,
+    );
+
+    this.logger.log(
+      `可执行信号: ${normalizedSymbol} ${opportunity.direction} ${entrySignal.type} @ ${entrySignal.triggerPrice}，盈亏比 ${riskRewardRatio.toFixed(2)}`,
+    );
+    return {
+      symbol: normalizedSymbol,
+      marketState,
+      opportunity: triggered,
+      signal,
+      message: '入场信号已触发，生成可执行交易计划',
+    };
+  }
+
+  /**
+   * 获取 M15 已收盘K线
+   */
+  private async getClosedEntryCandles(symbol: string, exchange: string) {
+    const candles = await this.ccxtDataService.getOHLCVData(
+      symbol,
+      IntervalType.FIFTEEN_MINUTES,
+      ENTRY_CANDLE_LIMIT + 1,
+      exchange,
+    );
+    const intervalMs = TimeUtil.intervalToMilliseconds(
+      IntervalType.FIFTEEN_MINUTES,
+    );
+    const last = candles[candles.length - 1];
+    return last && last.timestamp + intervalMs > Date.now()
+      ? candles.slice(0, -1)
+      : candles;
+  }
+
+  private getConfig(): TradingDecisionConfig {
+    return this.configService.get<TradingDecisionConfig>('tradingDecision');
+  }
+}
@@ -0,0 +1,60 @@
+import { Controller, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { ActionableSignalQueryDto, OpportunityQueryDto } from './dto';
+import {
+  ActionableSignalService,
+  MarketStateService,
+  OpportunityService,
+  TradingDecisionService,
+} from './services';
+
+@ApiTags('交易决策')
+@Controller('api/trading-decision')
+export class TradingDecisionController {
+  constructor(
+    private readonly tradingDecisionService: TradingDecisionService,
+    private readonly marketStateService: MarketStateService,
+    private readonly opportunityService: OpportunityService,
+    private readonly actionableSignalService: ActionableSignalService,
+  ) {}
+
+  @Get('market-states')
+  @ApiOperation({ summary: '获取市场状态概览（D1/H4）' })
+  @ApiQuery({ name: 'symbol', required: false })
+  async getMarketStates(@Query('symbol') symbol?: string) {
+    return await this.marketStateService.findAll(symbol);
+  }
+
+  @Get('opportunities')
+  @ApiOperation({ summary: '获取交易机会列表' })
+  async getOpportunities(@Query() query: OpportunityQueryDto) {
+    return await this.opportunityService.findAll(query);
+  }
+
+  @Get('signals')
+  @ApiOperation({ summary: '获取可执行信号列表' })
+  async getSignals(@Query() query: ActionableSignalQueryDto) {
+    return await this.actionableSignalService.findAll(query);
+  }
+
+  @Patch('signals/:id/executed')
+  @ApiOperation({ summary: '标记可执行信号已执行' })
+  @ApiParam({ name: 'id', description: '信号ID' })
+  async markSignalExecuted(@Param('id') id: string) {
+    return await this.actionableSignalService.markExecuted(id);
+  }
+
+  @Post('analyze/:symbol')
+  @ApiOperation({ summary: '立即对交易对执行决策漏斗' })
+  @ApiParam({ name: 'symbol', description: '交易对符号，如 BTCUSDT' })
+  @ApiQuery({ name: 'exchange', required: false })
+  async analyze(
+    @Param('symbol') symbol: string,
+    @Query('exchange') exchange?: string,
+  ) {
+    return await this.tradingDecisionService.runForSymbol(
+      symbol,
+      exchange?.toLowerCase() || 'binance',
+    );
+  }
+}
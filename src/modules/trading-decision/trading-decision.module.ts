@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { CCXTAnalysisModule } from '../ccxt-analysis/ccxt-analysis.module';
+import { CoinConfigModule } from '../coin-config/coin-config.module';
+import { TechnicalAnalysisModule } from '../technical-analysis/technical-analysis.module';
+import { TradingDecisionController } from './trading-decision.controller';
+import {
+  ActionableSignalService,
+  EntrySignalService,
+  MarketStateService,
+  OpportunityService,
+  TradingDecisionService,
+} from './services';
+
+/**
+ * 交易决策模块
+ * 实现 PRD 四步决策漏斗：宏观状态 → 盈亏比筛选 → 右侧入场信号 → 可执行信号
+ */
+@Module({
+  imports: [CCXTAnalysisModule, TechnicalAnalysisModule, CoinConfigModule],
+  controllers: [TradingDecisionController],
+  providers: [
+    MarketStateService,
+    OpportunityService,
+    EntrySignalService,
+    ActionableSignalService,
+    TradingDecisionService,
+  ],
+  exports: [
+    MarketStateService,
+    OpportunityService,
+    ActionableSignalService,
+    TradingDecisionService,
+  ],
+})
+export class TradingDecisionModule {}
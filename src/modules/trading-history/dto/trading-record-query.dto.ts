@@ -54,6 +54,16 @@ export class TradingRecordQueryDto {
   })
   notionSynced?: boolean;
 
+  // 是否查询模拟盘交易，默认只查询真实交易
+  @IsOptional()
+  @IsBoolean({ message: '是否模拟盘交易必须是布尔值' })
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  simulated?: boolean;
+
   // 时间范围过滤
   @IsOptional()
   @IsDateString({}, { message: '开始时间格式错误' })
@@ -108,4 +118,14 @@ export class TradingRecordStatsQueryDto {
   @IsOptional()
   @IsEnum(TradeDirection, { message: '不支持的交易方向' })
   direction?: TradeDirection;
+
+  // 是否统计模拟盘交易，默认只统计真实交易
+  @IsOptional()
+  @IsBoolean({ message: '是否模拟盘交易必须是布尔值' })
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  simulated?: boolean;
 } 
\ No newline at end of file
@@ -52,6 +52,7 @@ export class TradingRecord {
   okxOrderIds: string | null;
   rawData: string | null;
   notes: string | null;
+  isSimulated: boolean; // 是否为模拟盘交易
   
   createdAt: Date;
   updatedAt: Date;
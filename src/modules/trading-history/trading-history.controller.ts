@@ -120,6 +120,7 @@ export class TradingHistoryController {
       status: query.status,
       notionSynced: query.notionSynced === 'true' ? true : 
                     query.notionSynced === 'false' ? false : undefined,
+      simulated: query.simulated === 'true',
       startTime: query.startTime,
       endTime: query.endTime,
       sortBy: query.sortBy || 'createdAt',
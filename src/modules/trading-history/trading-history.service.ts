@@ -215,6 +215,7 @@ export class TradingHistoryService {
       where: {
         notionSynced: false,
         status: TradeStatus.CLOSED, // 只同步已完成的交易
+        isSimulated: false, // 模拟盘交易不同步
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -256,6 +257,9 @@ export class TradingHistoryService {
       where.notionSynced = filters.notionSynced;
     }
 
+    // 模拟盘交易与真实交易分开查询和统计
+    where.isSimulated = filters.simulated === true || filters.simulated === 'true';
+
     if (filters.startTime || filters.endTime) {
       where.entryTime = {};
       if (filters.startTime) {
@@ -71,6 +71,9 @@ export interface CoreTechnicalAnalysisResult {
   trendAnalysis: any; // 多时间周期趋势分析结果
   srAnalysis: any; // 支撑阻力位分析结果
   rsiAnalysis?: any; // RSI分析结果（可选）
+  patternAnalysis?: any; // 图表形态识别结果（可选）
+  divergenceAnalysis?: any; // 背离识别结果（可选）
+  derivativesSentiment?: any; // 衍生品情绪：资金费率、多空比、持仓量状态（可选，仅适用于有永续合约的交易对）
   openInterestData?: any; // 持仓量数据（可选，仅适用于期货）
 } 
 
@@ -66,12 +66,17 @@ export class MathUtil {
   }
 
   /**
-   * 计算RSI指标
+   * 计算RSI指标（Wilder 平滑）
+   * 数据不足 period + 1 个时返回空数组
    */
   static calculateRSI(prices: number[], period = 14): number[] {
     const rsi: number[] = [];
     const gains: number[] = [];
     const losses: number[] = [];
+
+    if (prices.length < period + 1) {
+      return rsi;
+    }
     
     // 计算价格变化
     for (let i = 1; i < prices.length; i++) {
@@ -83,14 +88,17 @@ export class MathUtil {
     // 计算初始平均收益和平均损失
     let avgGain = gains.slice(0, period).reduce((a, b) => a + b, 0) / period;
     let avgLoss = losses.slice(0, period).reduce((a, b) => a + b, 0) / period;
+
+    // 第一个RSI值使用简单平均
+    let rs = avgGain / (avgLoss || 0.0001); // 避免除零
+    rsi.push(100 - (100 / (1 + rs)));
     
     for (let i = period; i < gains.length; i++) {
       avgGain = (avgGain * (period - 1) + gains[i]) / period;
       avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
       
-      const rs = avgGain / avgLoss;
-      const rsiValue = 100 - (100 / (1 + rs));
-      rsi.push(rsiValue);
+      rs = avgGain / (avgLoss || 0.0001);
+      rsi.push(100 - (100 / (1 + rs)));
     }
     
     return rsi;
@@ -121,6 +129,308 @@ export class MathUtil {
     };
   }
 
+  /**
+   * 计算平均真实波幅 (ATR)
+   * 真实波幅取 最高-最低、|最高-前收|、|最低-前收| 中的最大值，使用 Wilder 平滑
+   */
+  static calculateATR(highs: number[], lows: number[], closes: number[], period = 14): number[] {
+    const atr: number[] = [];
+    const trueRanges: number[] = [];
+
+    for (let i = 1; i < closes.length; i++) {
+      const prevClose = closes[i - 1];
+      trueRanges.push(Math.max(
+        highs[i] - lows[i],
+        Math.abs(highs[i] - prevClose),
+        Math.abs(lows[i] - prevClose)
+      ));
+    }
+
+    if (trueRanges.length < period) {
+      return atr;
+    }
+
+    // 第一个ATR值使用真实波幅的简单平均
+    let atrValue = trueRanges.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    atr.push(atrValue);
+
+    for (let i = period; i < trueRanges.length; i++) {
+      atrValue = (atrValue * (period - 1) + trueRanges[i]) / period;
+      atr.push(atrValue);
+    }
+
+    return atr;
+  }
+
+  /**
+   * 计算ADX/DMI指标
+   * plusDI/minusDI 从第 period 根K线开始，adx 从第 2 * period - 1 根开始，均与输入末尾对齐
+   */
+  static calculateADX(highs: number[], lows: number[], closes: number[], period = 14) {
+    const plusDI: number[] = [];
+    const minusDI: number[] = [];
+    const adx: number[] = [];
+    const trueRanges: number[] = [];
+    const plusDMs: number[] = [];
+    const minusDMs: number[] = [];
+
+    for (let i = 1; i < closes.length; i++) {
+      const upMove = highs[i] - highs[i - 1];
+      const downMove = lows[i - 1] - lows[i];
+      plusDMs.push(upMove > downMove && upMove > 0 ? upMove : 0);
+      minusDMs.push(downMove > upMove && downMove > 0 ? downMove : 0);
+      trueRanges.push(Math.max(
+        highs[i] - lows[i],
+        Math.abs(highs[i] - closes[i - 1]),
+        Math.abs(lows[i] - closes[i - 1])
+      ));
+    }
+
+    if (trueRanges.length < period) {
+      return { adx, plusDI, minusDI };
+    }
+
+    // Wilder 平滑：初始值为前 period 个值之和
+    let smoothedTR = trueRanges.slice(0, period).reduce((a, b) => a + b, 0);
+    let smoothedPlusDM = plusDMs.slice(0, period).reduce((a, b) => a + b, 0);
+    let smoothedMinusDM = minusDMs.slice(0, period).reduce((a, b) => a + b, 0);
+    const dx: number[] = [];
+
+    for (let i = period - 1; i < trueRanges.length; i++) {
+      if (i >= period) {
+        smoothedTR = smoothedTR - smoothedTR / period + trueRanges[i];
+        smoothedPlusDM = smoothedPlusDM - smoothedPlusDM / period + plusDMs[i];
+        smoothedMinusDM = smoothedMinusDM - smoothedMinusDM / period + minusDMs[i];
+      }
+
+      const plus = smoothedTR > 0 ? (smoothedPlusDM / smoothedTR) * 100 : 0;
+      const minus = smoothedTR > 0 ? (smoothedMinusDM / smoothedTR) * 100 : 0;
+      plusDI.push(plus);
+      minusDI.push(minus);
+      dx.push(plus + minus > 0 ? (Math.abs(plus - minus) / (plus + minus)) * 100 : 0);
+    }
+
+    if (dx.length < period) {
+      return { adx, plusDI, minusDI };
+    }
+
+    let adxValue = dx.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    adx.push(adxValue);
+    for (let i = period; i < dx.length; i++) {
+      adxValue = (adxValue * (period - 1) + dx[i]) / period;
+      adx.push(adxValue);
+    }
+
+    return { adx, plusDI, minusDI };
+  }
+
+  /**
+   * 计算随机RSI (Stochastic RSI)
+   * k 为 RSI 在 stochPeriod 内的相对位置经 kSmoothing 平滑后的值，d 为 k 的 dSmoothing 均线
+   */
+  static calculateStochasticRSI(
+    prices: number[],
+    rsiPeriod = 14,
+    stochPeriod = 14,
+    kSmoothing = 3,
+    dSmoothing = 3
+  ) {
+    const rsi = this.calculateRSI(prices, rsiPeriod);
+    const stochRsi: number[] = [];
+
+    for (let i = stochPeriod - 1; i < rsi.length; i++) {
+      const window = rsi.slice(i - stochPeriod + 1, i + 1);
+      const min = Math.min(...window);
+      const max = Math.max(...window);
+      stochRsi.push(max - min > 0 ? ((rsi[i] - min) / (max - min)) * 100 : 0);
+    }
+
+    const k = this.calculateSMA(stochRsi, kSmoothing);
+    const d = this.calculateSMA(k, dSmoothing);
+
+    return { k, d };
+  }
+
+  /**
+   * 计算成交量加权平均价 (VWAP)
+   * 指定 period 时为滚动窗口VWAP，否则从第一根K线开始累计
+   */
+  static calculateVWAP(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    period?: number
+  ): number[] {
+    const vwap: number[] = [];
+    const priceVolumes = closes.map((close, i) => ((highs[i] + lows[i] + close) / 3) * volumes[i]);
+    let cumulativePV = 0;
+    let cumulativeVolume = 0;
+
+    for (let i = 0; i < closes.length; i++) {
+      cumulativePV += priceVolumes[i];
+      cumulativeVolume += volumes[i];
+
+      if (period) {
+        if (i >= period) {
+          cumulativePV -= priceVolumes[i - period];
+          cumulativeVolume -= volumes[i - period];
+        }
+        if (i < period - 1) continue;
+      }
+
+      vwap.push(cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : closes[i]);
+    }
+
+    return vwap;
+  }
+
+  /**
+   * 计算能量潮指标 (OBV)
+   */
+  static calculateOBV(closes: number[], volumes: number[]): number[] {
+    const obv: number[] = [];
+    if (closes.length === 0) {
+      return obv;
+    }
+
+    obv.push(0);
+    for (let i = 1; i < closes.length; i++) {
+      const previous = obv[obv.length - 1];
+      if (closes[i] > closes[i - 1]) {
+        obv.push(previous + volumes[i]);
+      } else if (closes[i] < closes[i - 1]) {
+        obv.push(previous - volumes[i]);
+      } else {
+        obv.push(previous);
+      }
+    }
+
+    return obv;
+  }
+
+  /**
+   * 计算一目均衡表 (Ichimoku)
+   * 先行带A/B未做位移，按K线位置计算；绘图时需向前平移 displacement 根K线
+   */
+  static calculateIchimoku(
+    highs: number[],
+    lows: number[],
+    conversionPeriod = 9,
+    basePeriod = 26,
+    spanBPeriod = 52,
+    displacement = 26
+  ) {
+    const midpoint = (period: number): number[] => {
+      const values: number[] = [];
+      for (let i = period - 1; i < highs.length; i++) {
+        const highest = Math.max(...highs.slice(i - period + 1, i + 1));
+        const lowest = Math.min(...lows.slice(i - period + 1, i + 1));
+        values.push((highest + lowest) / 2);
+      }
+      return values;
+    };
+
+    const conversionLine = midpoint(conversionPeriod);
+    const baseLine = midpoint(basePeriod);
+    const leadingSpanB = midpoint(spanBPeriod);
+
+    // 转换线和基准线按末尾对齐后取平均
+    const offset = conversionLine.length - baseLine.length;
+    const leadingSpanA = baseLine.map((base, i) => (conversionLine[i + offset] + base) / 2);
+
+    return {
+      conversionLine,
+      baseLine,
+      leadingSpanA,
+      leadingSpanB,
+      displacement,
+    };
+  }
+
+  /**
+   * 计算超级趋势指标 (SuperTrend)
+   * direction 为 1 表示上升趋势（价格在支撑线之上），-1 表示下降趋势
+   */
+  static calculateSuperTrend(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period = 10,
+    multiplier = 3
+  ) {
+    const supertrend: number[] = [];
+    const direction: number[] = [];
+    const atr = this.calculateATR(highs, lows, closes, period);
+    // ATR第一个值对应第 period 根K线
+    const offset = closes.length - atr.length;
+
+    let finalUpper = 0;
+    let finalLower = 0;
+    for (let i = 0; i < atr.length; i++) {
+      const index = i + offset;
+      const hl2 = (highs[index] + lows[index]) / 2;
+      const basicUpper = hl2 + multiplier * atr[i];
+      const basicLower = hl2 - multiplier * atr[i];
+      const prevClose = closes[index - 1];
+
+      finalUpper = i === 0 || basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+      finalLower = i === 0 || basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+
+      const previousDirection = i === 0 ? 1 : direction[i - 1];
+      let currentDirection = previousDirection;
+      if (previousDirection === -1 && closes[index] > finalUpper) {
+        currentDirection = 1;
+      } else if (previousDirection === 1 && closes[index] < finalLower) {
+        currentDirection = -1;
+      }
+
+      direction.push(currentDirection);
+      supertrend.push(currentDirection === 1 ? finalLower : finalUpper);
+    }
+
+    return { supertrend, direction };
+  }
+
+  /**
+   * 计算肯特纳通道 (Keltner Channels)
+   * 中轨为EMA，上下轨为中轨 ± ATR × multiplier
+   */
+  static calculateKeltnerChannels(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    emaPeriod = 20,
+    atrPeriod = 10,
+    multiplier = 2
+  ) {
+    const ema = this.calculateEMA(closes, emaPeriod);
+    const atr = this.calculateATR(highs, lows, closes, atrPeriod);
+    const length = Math.min(ema.length, atr.length);
+    const middle = ema.slice(ema.length - length);
+    const atrAligned = atr.slice(atr.length - length);
+
+    return {
+      upper: middle.map((value, i) => value + multiplier * atrAligned[i]),
+      middle,
+      lower: middle.map((value, i) => value - multiplier * atrAligned[i]),
+    };
+  }
+
+  /**
+   * 计算收益率波动率（相邻收盘价收益率的标准差）
+   */
+  static calculateReturnVolatility(prices: number[]): number {
+    const returns: number[] = [];
+    for (let i = 1; i < prices.length; i++) {
+      returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
+    }
+    if (returns.length === 0) {
+      return 0;
+    }
+    return this.calculateStandardDeviation(returns);
+  }
+
   /**
    * 计算标准差
    */
@@ -152,6 +462,82 @@ export class MathUtil {
     return { peaks, valleys };
   }
 
+  /**
+   * 查找价格高低点与指标之间的背离
+   * 比较相邻两个高点（或低点）的价格与指标值：
+   * 常规看涨 = 价格更低的低点 + 指标更高的低点；隐藏看涨 = 价格更高的低点 + 指标更低的低点；
+   * 常规看跌 = 价格更高的高点 + 指标更低的高点；隐藏看跌 = 价格更低的高点 + 指标更高的高点
+   * @param highs 最高价序列
+   * @param lows 最低价序列
+   * @param indicator 指标序列，与价格序列末尾对齐
+   * @param windowSize 识别高低点的左右窗口
+   * @param minDistance 两个高低点之间的最少K线数
+   * @param maxDistance 两个高低点之间的最多K线数
+   */
+  static findDivergences(
+    highs: number[],
+    lows: number[],
+    indicator: number[],
+    windowSize = 5,
+    minDistance = 5,
+    maxDistance = 60,
+  ): Array<{
+    type: 'REGULAR' | 'HIDDEN';
+    bias: 'BULLISH' | 'BEARISH';
+    startIndex: number;
+    endIndex: number;
+  }> {
+    const divergences: Array<{
+      type: 'REGULAR' | 'HIDDEN';
+      bias: 'BULLISH' | 'BEARISH';
+      startIndex: number;
+      endIndex: number;
+    }> = [];
+    const offset = highs.length - indicator.length;
+    const valueAt = (index: number) =>
+      index >= offset ? indicator[index - offset] : undefined;
+
+    const compare = (pivots: number[], prices: number[], isHigh: boolean) => {
+      for (let k = 1; k < pivots.length; k++) {
+        const endIndex = pivots[k];
+        // 与距离足够远的上一个高低点比较，跳过同一平台上的重复点
+        const startIndex = pivots
+          .slice(0, k)
+          .reverse()
+          .find((index) => endIndex - index >= minDistance);
+        if (startIndex === undefined || endIndex - startIndex > maxDistance) {
+          continue;
+        }
+
+        const startValue = valueAt(startIndex);
+        const endValue = valueAt(endIndex);
+        if (!Number.isFinite(startValue) || !Number.isFinite(endValue)) {
+          continue;
+        }
+
+        const priceUp = prices[endIndex] > prices[startIndex];
+        const priceDown = prices[endIndex] < prices[startIndex];
+        const valueUp = endValue > startValue;
+        const valueDown = endValue < startValue;
+
+        if (isHigh && priceUp && valueDown) {
+          divergences.push({ type: 'REGULAR', bias: 'BEARISH', startIndex, endIndex });
+        } else if (isHigh && priceDown && valueUp) {
+          divergences.push({ type: 'HIDDEN', bias: 'BEARISH', startIndex, endIndex });
+        } else if (!isHigh && priceDown && valueUp) {
+          divergences.push({ type: 'REGULAR', bias: 'BULLISH', startIndex, endIndex });
+        } else if (!isHigh && priceUp && valueDown) {
+          divergences.push({ type: 'HIDDEN', bias: 'BULLISH', startIndex, endIndex });
+        }
+      }
+    };
+
+    compare(this.findPeaksAndValleys(highs, windowSize).peaks, highs, true);
+    compare(this.findPeaksAndValleys(lows, windowSize).valleys, lows, false);
+
+    return divergences.sort((a, b) => a.endIndex - b.endIndex);
+  }
+
   /**
    * 计算两点间的线性回归
    */